@@ -0,0 +1,9 @@
+-- AlterTable
+-- Generated column so the vector stays in sync with every write path (API, import, restore).
+ALTER TABLE "Note" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("contentPlaintext", '')), 'B')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Note_searchVector_idx" ON "Note" USING GIN ("searchVector");
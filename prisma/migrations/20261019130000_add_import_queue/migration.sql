@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "ImportJob" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "cursor" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "fileModifiedAt" TIMESTAMP(3),
+ADD COLUMN     "lockedUntil" TIMESTAMP(3),
+ADD COLUMN     "mimeType" TEXT,
+ADD COLUMN     "notebookName" TEXT,
+ADD COLUMN     "storageKey" TEXT;
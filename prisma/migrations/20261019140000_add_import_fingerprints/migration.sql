@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "ImportJob" ADD COLUMN     "duplicateMode" TEXT NOT NULL DEFAULT 'skip',
+ADD COLUMN     "overwritten" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "skipped" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Note" ADD COLUMN     "fingerprint" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Note_fingerprint_idx" ON "Note"("fingerprint");
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Note" ADD COLUMN     "completedTasks" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "openTasks" INTEGER NOT NULL DEFAULT 0;
+
+-- Backfill from checkboxes already in note content
+UPDATE "Note"
+SET "openTasks" = (length("content") - length(replace("content", 'data-checked="false"', ''))) / length('data-checked="false"')
+        + (length("content") - length(replace("content", 'class="en-todo" disabled', ''))) / length('class="en-todo" disabled'),
+    "completedTasks" = (length("content") - length(replace("content", 'data-checked="true"', ''))) / length('data-checked="true"')
+        + (length("content") - length(replace("content", 'class="en-todo" checked', ''))) / length('class="en-todo" checked')
+WHERE "content" LIKE '%data-checked=%' OR "content" LIKE '%class="en-todo"%';
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "Task" (
+    "id" TEXT NOT NULL,
+    "noteId" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "checked" BOOLEAN NOT NULL DEFAULT false,
+    "dueDate" DATE,
+    "position" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Task_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Task_checked_dueDate_idx" ON "Task"("checked", "dueDate");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Task_noteId_position_key" ON "Task"("noteId", "position");
+
+-- AddForeignKey
+ALTER TABLE "Task" ADD CONSTRAINT "Task_noteId_fkey" FOREIGN KEY ("noteId") REFERENCES "Note"("id") ON DELETE CASCADE ON UPDATE CASCADE;
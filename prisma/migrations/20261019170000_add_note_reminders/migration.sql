@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Note" ADD COLUMN     "reminderAt" TIMESTAMP(3),
+ADD COLUMN     "reminderDoneAt" TIMESTAMP(3),
+ADD COLUMN     "reminderSentAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Note_reminderAt_idx" ON "Note"("reminderAt");
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "NotebookMember" (
+    "id" TEXT NOT NULL,
+    "notebookId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "userId" TEXT,
+    "role" TEXT NOT NULL DEFAULT 'viewer',
+    "invitedById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "NotebookMember_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NotebookMember_notebookId_email_key" ON "NotebookMember"("notebookId", "email");
+
+-- CreateIndex
+CREATE INDEX "NotebookMember_userId_idx" ON "NotebookMember"("userId");
+
+-- CreateIndex
+CREATE INDEX "NotebookMember_email_idx" ON "NotebookMember"("email");
+
+-- AddForeignKey
+ALTER TABLE "NotebookMember" ADD CONSTRAINT "NotebookMember_notebookId_fkey" FOREIGN KEY ("notebookId") REFERENCES "Notebook"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NotebookMember" ADD CONSTRAINT "NotebookMember_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- pgvector for semantic search
+CREATE EXTENSION IF NOT EXISTS vector;
+
+-- CreateTable
+-- The vector column has no fixed dimensions so the embedding model can change;
+-- rows are matched by model and compared by exact scan within one user's notes.
+CREATE TABLE "NoteEmbedding" (
+    "id" TEXT NOT NULL,
+    "noteId" TEXT NOT NULL,
+    "chunkIndex" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "contentHash" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "embedding" vector NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "NoteEmbedding_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "NoteEmbedding_noteId_model_idx" ON "NoteEmbedding"("noteId", "model");
+
+-- AddForeignKey
+ALTER TABLE "NoteEmbedding" ADD CONSTRAINT "NoteEmbedding_noteId_fkey" FOREIGN KEY ("noteId") REFERENCES "Note"("id") ON DELETE CASCADE ON UPDATE CASCADE;
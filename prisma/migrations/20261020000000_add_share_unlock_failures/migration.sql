@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "ShareUnlockFailure" (
+    "id" TEXT NOT NULL,
+    "shareLinkId" TEXT NOT NULL,
+    "ipAddress" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ShareUnlockFailure_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ShareUnlockFailure_shareLinkId_createdAt_idx" ON "ShareUnlockFailure"("shareLinkId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ShareUnlockFailure_ipAddress_createdAt_idx" ON "ShareUnlockFailure"("ipAddress", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ShareUnlockFailure" ADD CONSTRAINT "ShareUnlockFailure_shareLinkId_fkey" FOREIGN KEY ("shareLinkId") REFERENCES "ShareLink"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,83 @@
+/**
+ * Notova Service Worker
+ *
+ * Keeps the app shell and static assets on the device so Notova opens
+ * without a connection. API requests are left to the app, which serves
+ * notes from its own IndexedDB copy while offline.
+ */
+
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `notova-shell-${CACHE_VERSION}`;
+const ASSET_CACHE = `notova-assets-${CACHE_VERSION}`;
+
+const SHELL_URLS = ['/', '/manifest.webmanifest', '/icon?v=2', '/apple-icon?v=2'];
+
+self.addEventListener('install', (event) => {
+    event.waitUntil(
+        caches.open(SHELL_CACHE)
+            .then((cache) => cache.addAll(SHELL_URLS))
+            .then(() => self.skipWaiting())
+    );
+});
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil(
+        caches.keys()
+            .then((keys) => Promise.all(
+                keys
+                    .filter((key) => key.startsWith('notova-') && key !== SHELL_CACHE && key !== ASSET_CACHE)
+                    .map((key) => caches.delete(key))
+            ))
+            .then(() => self.clients.claim())
+    );
+});
+
+function isStaticAsset(url) {
+    return url.pathname.startsWith('/_next/static/')
+        || url.pathname.startsWith('/openmoji/')
+        || url.pathname.startsWith('/fonts/')
+        || /\.(?:svg|png|jpg|jpeg|webp|woff2?)$/.test(url.pathname);
+}
+
+// Pages: network first so they're always current, the cached copy offline
+async function handleNavigation(request) {
+    const cache = await caches.open(SHELL_CACHE);
+    try {
+        const response = await fetch(request);
+        if (response.ok && !response.redirected) {
+            cache.put(request, response.clone());
+        }
+        return response;
+    } catch {
+        return (await cache.match(request, { ignoreSearch: true }))
+            || (await cache.match('/'))
+            || Response.error();
+    }
+}
+
+// Build assets have content hashes in their names, so a cached copy never goes stale
+async function handleAsset(request) {
+    const cache = await caches.open(ASSET_CACHE);
+    const cached = await cache.match(request);
+    if (cached) return cached;
+
+    const response = await fetch(request);
+    if (response.ok) {
+        cache.put(request, response.clone());
+    }
+    return response;
+}
+
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    if (request.method !== 'GET') return;
+
+    const url = new URL(request.url);
+    if (url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+    if (request.mode === 'navigate') {
+        event.respondWith(handleNavigation(request));
+    } else if (isStaticAsset(url)) {
+        event.respondWith(handleAsset(request));
+    }
+});
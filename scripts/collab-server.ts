@@ -0,0 +1,16 @@
+/**
+ * Starts the collaboration sync server.
+ *
+ * Run with `npm run collab`. Point the app at it with NEXT_PUBLIC_COLLAB_URL
+ * (for example ws://localhost:1234).
+ */
+
+import 'dotenv/config';
+import { createSyncServer } from '@/lib/collaboration/sync-server';
+
+const port = Number(process.env.COLLAB_PORT ?? 1234);
+
+createSyncServer({ port }).listen().catch((error: unknown) => {
+    console.error('Failed to start collaboration server:', error);
+    process.exit(1);
+});
@@ -0,0 +1,92 @@
+/**
+ * AI Chat Thread API Route
+ *
+ * Read or delete a single chat thread.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUserId } from '@/lib/supabase/server';
+import { deleteChatThread, getChatThread, listChatMessages, serializeChatThread } from '@/lib/chat';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/ai/chat/[id]
+ *
+ * Get a thread with its messages, oldest first.
+ */
+export async function GET(
+    _request: NextRequest,
+    { params }: RouteParams
+) {
+    try {
+        const userId = await getAuthUserId();
+
+        if (!userId) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+
+        const thread = await getChatThread(userId, id);
+        if (!thread) {
+            return NextResponse.json(
+                { error: 'Chat thread not found' },
+                { status: 404 }
+            );
+        }
+
+        const messages = await listChatMessages(id);
+
+        return NextResponse.json({ thread: serializeChatThread(thread), messages });
+    } catch (error) {
+        console.error('Error getting chat thread:', error);
+        return NextResponse.json(
+            { error: 'Failed to get chat thread' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * DELETE /api/ai/chat/[id]
+ *
+ * Delete a thread and its messages.
+ */
+export async function DELETE(
+    _request: NextRequest,
+    { params }: RouteParams
+) {
+    try {
+        const userId = await getAuthUserId();
+
+        if (!userId) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+
+        if (!await deleteChatThread(userId, id)) {
+            return NextResponse.json(
+                { error: 'Chat thread not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Error deleting chat thread:', error);
+        return NextResponse.json(
+            { error: 'Failed to delete chat thread' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,125 @@
+/**
+ * AI Chat API Route
+ *
+ * Ask questions about your notes. Answers stream back as newline-delimited
+ * JSON events and cite the notes they draw on; conversations are kept as
+ * threads.
+ */
+
+import { NextRequest, NextResponse, after } from 'next/server';
+import { z } from 'zod';
+import { getAuthUserId } from '@/lib/supabase/server';
+import { AIError, aiErrorResponse, isAIAvailable } from '@/lib/ai';
+import { encodeChatStream, getChatThread, listChatThreads, startChatAnswer } from '@/lib/chat';
+import { indexMissingEmbeddings } from '@/lib/embeddings';
+import { accessErrorResponse, authorizeNotebook } from '@/lib/permissions';
+
+const chatRequestSchema = z.object({
+    message: z.string().trim().min(1).max(4000),
+    // Continue a thread; its scope is kept
+    threadId: z.string().optional(),
+    // Scope of a new thread
+    notebookId: z.string().nullable().optional(),
+    tagId: z.string().nullable().optional(),
+});
+
+/**
+ * GET /api/ai/chat
+ *
+ * List the user's chat threads, most recent first.
+ */
+export async function GET() {
+    try {
+        const userId = await getAuthUserId();
+
+        if (!userId) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const threads = await listChatThreads(userId);
+        return NextResponse.json({ threads });
+    } catch (error) {
+        console.error('Error listing chat threads:', error);
+        return NextResponse.json(
+            { error: 'Failed to list chat threads' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/ai/chat
+ *
+ * Ask a question, starting a thread or continuing one. Responds with a
+ * stream of `ChatStreamEvent` lines.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const userId = await getAuthUserId();
+
+        if (!userId) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        if (!isAIAvailable()) {
+            return aiErrorResponse(new AIError('not_configured'));
+        }
+
+        const parseResult = chatRequestSchema.safeParse(await request.json());
+        if (!parseResult.success) {
+            return NextResponse.json(
+                { error: 'Invalid input', details: parseResult.error.flatten() },
+                { status: 400 }
+            );
+        }
+
+        const { message, threadId } = parseResult.data;
+
+        const thread = threadId ? await getChatThread(userId, threadId) : null;
+        if (threadId && !thread) {
+            return NextResponse.json(
+                { error: 'Chat thread not found' },
+                { status: 404 }
+            );
+        }
+
+        const notebookId = thread ? thread.notebookId : parseResult.data.notebookId ?? null;
+        const tagId = thread ? thread.tagId : parseResult.data.tagId ?? null;
+
+        // A notebook shared with the user is searched as its owner's
+        let ownerId = userId;
+        if (notebookId) {
+            const notebookAuth = await authorizeNotebook(userId, notebookId, 'read');
+            if (notebookAuth.status !== 'ok') {
+                return accessErrorResponse(notebookAuth, 'Notebook');
+            }
+            ownerId = notebookAuth.ownerId;
+        }
+
+        const events = await startChatAnswer({
+            userId,
+            thread,
+            question: message,
+            scope: { ownerId, notebookId, tagId },
+        });
+
+        // Embed notes that were imported or saved before AI was set up
+        after(() => indexMissingEmbeddings(ownerId));
+
+        return new Response(encodeChatStream(events), {
+            headers: {
+                'Content-Type': 'application/x-ndjson; charset=utf-8',
+                'Cache-Control': 'no-cache',
+            },
+        });
+    } catch (error) {
+        console.error('Error answering chat message:', error);
+        return aiErrorResponse(error, 'Failed to answer the question');
+    }
+}
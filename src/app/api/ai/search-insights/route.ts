@@ -7,7 +7,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { getAuthUserId } from '@/lib/supabase/server';
-import { generateSearchInsights, checkAIAvailability } from '@/lib/ai/gemini';
+import { AIError, aiErrorResponse, getAIProvider, isAIAvailable } from '@/lib/ai';
 import { createHash } from 'crypto';
 
 // Helper to create content hash
@@ -31,12 +31,9 @@ export async function POST(request: NextRequest) {
         }
 
         // Check if AI is available
-        const aiAvailable = await checkAIAvailability();
+        const aiAvailable = isAIAvailable();
         if (!aiAvailable) {
-            return NextResponse.json(
-                { error: 'AI service is not configured. Please set up your GOOGLE_AI_API_KEY.' },
-                { status: 503 }
-            );
+            return aiErrorResponse(new AIError('not_configured'));
         }
 
         const body = await request.json();
@@ -120,7 +117,7 @@ export async function POST(request: NextRequest) {
         }
 
         // Generate new insights
-        const result = await generateSearchInsights(query, notesForInsights);
+        const result = await getAIProvider().generateSearchInsights(query, notesForInsights);
 
         // Cache the result (delete old first since targetId might be too long for unique constraint)
         await prisma.aISummary.deleteMany({
@@ -155,33 +152,6 @@ export async function POST(request: NextRequest) {
 
     } catch (error) {
         console.error('Error generating search insights:', error);
-
-        // Handle specific errors
-        if (error instanceof Error) {
-            const errorMessage = error.message.toLowerCase();
-
-            if (errorMessage.includes('api key') || errorMessage.includes('api_key')) {
-                return NextResponse.json(
-                    { error: 'AI service configuration error. Please check your API key.' },
-                    { status: 503 }
-                );
-            }
-
-            // Check for rate limit / quota errors (Gemini returns 429 and quota exceeded messages)
-            if (errorMessage.includes('429') ||
-                errorMessage.includes('rate limit') ||
-                errorMessage.includes('quota') ||
-                errorMessage.includes('too many requests')) {
-                return NextResponse.json(
-                    { error: 'AI service quota exceeded. The free tier limit has been reached. Please upgrade your Google AI API plan or try again later.' },
-                    { status: 429 }
-                );
-            }
-        }
-
-        return NextResponse.json(
-            { error: 'Failed to generate search insights. Please try again.' },
-            { status: 500 }
-        );
+        return aiErrorResponse(error, 'Failed to generate search insights. Please try again.');
     }
 }
@@ -8,6 +8,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { getAuthUserId } from '@/lib/supabase/server';
+import { noteAccessWhere } from '@/lib/permissions';
 
 interface ApplyTagsRequest {
     noteIds: string[];
@@ -44,12 +45,12 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        // Verify note ownership through notebook relation
+        // Keep only the notes the user can edit, including shared notebooks
         const validNotes = await prisma.note.findMany({
             where: {
                 id: { in: noteIds },
-                notebook: { userId: userId },
                 isTrash: false,
+                ...noteAccessWhere(userId, 'edit'),
             },
             select: { id: true },
         });
@@ -115,6 +116,11 @@ export async function POST(request: NextRequest) {
                         })),
                         skipDuplicates: true,
                     });
+                    // Bump the notes so sync clients pick up their new tags
+                    await tx.note.updateMany({
+                        where: { id: { in: notesToConnect } },
+                        data: { updatedAt: new Date() },
+                    });
                 }
             }
 
@@ -7,7 +7,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { getAuthUserId } from '@/lib/supabase/server';
-import { suggestSmartTags, checkAIAvailability } from '@/lib/ai/gemini';
+import { noteAccessWhere } from '@/lib/permissions';
+import { AIError, aiErrorResponse, getAIProvider, isAIAvailable } from '@/lib/ai';
 
 export async function POST(request: NextRequest) {
     try {
@@ -22,12 +23,9 @@ export async function POST(request: NextRequest) {
         }
 
         // Check if AI is available
-        const aiAvailable = await checkAIAvailability();
+        const aiAvailable = isAIAvailable();
         if (!aiAvailable) {
-            return NextResponse.json(
-                { error: 'AI service is not configured. Please set up your GOOGLE_AI_API_KEY.' },
-                { status: 503 }
-            );
+            return aiErrorResponse(new AIError('not_configured'));
         }
 
         const body = await request.json();
@@ -40,12 +38,12 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        // Fetch notes and verify ownership through notebook relation
+        // Fetch the notes the user can edit, including shared notebooks
         const notes = await prisma.note.findMany({
             where: {
                 id: { in: noteIds },
-                notebook: { userId: userId },
                 isTrash: false,
+                ...noteAccessWhere(userId, 'edit'),
             },
             select: {
                 id: true,
@@ -75,7 +73,7 @@ export async function POST(request: NextRequest) {
         }));
 
         // Generate smart tag suggestions
-        const result = await suggestSmartTags(notesForAnalysis, existingTagNames);
+        const result = await getAIProvider().suggestTags(notesForAnalysis, existingTagNames);
 
         return NextResponse.json({
             suggestedTags: result.suggestedTags,
@@ -84,32 +82,6 @@ export async function POST(request: NextRequest) {
 
     } catch (error) {
         console.error('Error suggesting smart tags:', error);
-
-        // Handle specific errors
-        if (error instanceof Error) {
-            const errorMessage = error.message.toLowerCase();
-
-            if (errorMessage.includes('api key') || errorMessage.includes('api_key')) {
-                return NextResponse.json(
-                    { error: 'AI service configuration error. Please check your API key.' },
-                    { status: 503 }
-                );
-            }
-
-            if (errorMessage.includes('429') ||
-                errorMessage.includes('rate limit') ||
-                errorMessage.includes('quota') ||
-                errorMessage.includes('too many requests')) {
-                return NextResponse.json(
-                    { error: 'AI service quota exceeded. Please try again later.' },
-                    { status: 429 }
-                );
-            }
-        }
-
-        return NextResponse.json(
-            { error: 'Failed to suggest tags. Please try again.' },
-            { status: 500 }
-        );
+        return aiErrorResponse(error, 'Failed to suggest tags. Please try again.');
     }
 }
@@ -7,7 +7,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { getAuthUserId } from '@/lib/supabase/server';
-import { summarizeNote, checkAIAvailability } from '@/lib/ai/gemini';
+import { AIError, aiErrorResponse, getAIProvider, isAIAvailable } from '@/lib/ai';
 import { createHash } from 'crypto';
 
 // Helper to create content hash
@@ -31,13 +31,9 @@ export async function POST(request: NextRequest) {
         }
 
         // Check if AI is available
-        const aiAvailable = await checkAIAvailability();
-        console.log('AI availability check:', { aiAvailable, apiKeySet: !!process.env.GOOGLE_AI_API_KEY, apiKeyLength: process.env.GOOGLE_AI_API_KEY?.length });
+        const aiAvailable = isAIAvailable();
         if (!aiAvailable) {
-            return NextResponse.json(
-                { error: 'AI service is not configured. Please set up your GOOGLE_AI_API_KEY.' },
-                { status: 503 }
-            );
+            return aiErrorResponse(new AIError('not_configured'));
         }
 
         const body = await request.json();
@@ -107,7 +103,7 @@ export async function POST(request: NextRequest) {
         }
 
         // Generate new summary
-        const result = await summarizeNote(note.title, textContent);
+        const result = await getAIProvider().summarizeNote({ title: note.title, content: textContent });
 
         // Cache the result
         await prisma.aISummary.upsert({
@@ -141,33 +137,6 @@ export async function POST(request: NextRequest) {
 
     } catch (error) {
         console.error('Error summarizing note:', error);
-
-        // Handle specific errors
-        if (error instanceof Error) {
-            const errorMessage = error.message.toLowerCase();
-
-            if (errorMessage.includes('api key') || errorMessage.includes('api_key')) {
-                return NextResponse.json(
-                    { error: 'AI service configuration error. Please check your API key.' },
-                    { status: 503 }
-                );
-            }
-
-            // Check for rate limit / quota errors (Gemini returns 429 and quota exceeded messages)
-            if (errorMessage.includes('429') ||
-                errorMessage.includes('rate limit') ||
-                errorMessage.includes('quota') ||
-                errorMessage.includes('too many requests')) {
-                return NextResponse.json(
-                    { error: 'AI service quota exceeded. The free tier limit has been reached. Please upgrade your Google AI API plan or try again later.' },
-                    { status: 429 }
-                );
-            }
-        }
-
-        return NextResponse.json(
-            { error: 'Failed to generate summary. Please try again.' },
-            { status: 500 }
-        );
+        return aiErrorResponse(error, 'Failed to generate summary. Please try again.');
     }
 }
@@ -6,8 +6,12 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import type { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/db';
 import { getAuthUserId } from '@/lib/supabase/server';
+import { resolveNoteSearch, serializeSavedSearch, NOTE_SEARCH_SORTS, type NoteSearchHit, type NoteSearchSort } from '@/lib/search';
+import { authorizeNotebook, listSharedNotebooks } from '@/lib/permissions';
+import { recordDeletions } from '@/lib/sync';
 
 /**
  * GET /api/app-data
@@ -30,9 +34,19 @@ export async function GET(request: NextRequest) {
         const notebookId = searchParams.get('notebookId') || undefined;
         const tagId = searchParams.get('tagId') || undefined;
         const isTrash = searchParams.get('isTrash') === 'true';
+        const search = searchParams.get('search')?.trim() || undefined;
+        const sortParam = searchParams.get('sort');
+        const sort = NOTE_SEARCH_SORTS.find(value => value === sortParam) ?? 'relevance';
+
+        // Ranked search hits (only when the search has free text)
+        let searchHits = null as NoteSearchHit[] | null;
+
+        // A notebook shared with the user is listed (and searched) as its owner's
+        const notebookAuth = notebookId ? await authorizeNotebook(userId, notebookId, 'read') : null;
+        const notesOwnerId = notebookAuth?.status === 'ok' ? notebookAuth.ownerId : userId;
 
         // Execute all queries in parallel for maximum performance
-        const [notebooks, stacks, tags, notes, trashCount] = await Promise.all([
+        const [notebooks, stacks, tags, notes, trashCount, savedSearches, notebookTasks, sharedNotebooks] = await Promise.all([
             // Fetch notebooks with note counts
             prisma.notebook.findMany({
                 where: { userId },
@@ -66,8 +80,8 @@ export async function GET(request: NextRequest) {
 
             // Fetch notes with filters
             (async () => {
-                const where: Record<string, unknown> = {
-                    notebook: { userId },
+                let where: Prisma.NoteWhereInput = {
+                    notebook: { userId: notesOwnerId },
                     isTrash,
                 };
 
@@ -81,9 +95,48 @@ export async function GET(request: NextRequest) {
                     };
                 }
 
+                const noteInclude = {
+                    notebook: {
+                        select: { id: true, name: true },
+                    },
+                    tags: {
+                        include: {
+                            tag: { select: { id: true, name: true } },
+                        },
+                    },
+                    _count: {
+                        select: { attachments: true },
+                    },
+                } satisfies Prisma.NoteInclude;
+
+                if (search) {
+                    const resolved = await resolveNoteSearch({
+                        userId: notesOwnerId,
+                        search,
+                        where,
+                        notebookId,
+                        tagId,
+                        isTrash,
+                        sort,
+                        limit: 50,
+                        offset: 0,
+                    });
+                    where = resolved.where;
+                    searchHits = resolved.hits;
+
+                    if (searchHits) {
+                        const order = new Map(searchHits.map((hit, index) => [hit.id, index]));
+                        const rankedNotes = await prisma.note.findMany({
+                            where: { id: { in: searchHits.map(hit => hit.id) } },
+                            include: noteInclude,
+                        });
+                        return rankedNotes.sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0));
+                    }
+                }
+
                 // When no specific notebook filter is applied, fetch notes from each notebook
                 // to ensure notebook preview cards have data to display
-                if (!notebookId && !tagId && !isTrash) {
+                if (!notebookId && !tagId && !isTrash && !search) {
                     // Fetch all notebooks for this user first
                     const userNotebooks = await prisma.notebook.findMany({
                         where: { userId },
@@ -138,7 +191,7 @@ export async function GET(request: NextRequest) {
                             select: { attachments: true },
                         },
                     },
-                    orderBy: { updatedAt: 'desc' },
+                    orderBy: getNoteOrderBy(sort),
                     take: 50, // Limit initial load for performance
                 });
             })(),
@@ -146,6 +199,26 @@ export async function GET(request: NextRequest) {
             prisma.note.count({
                 where: { notebook: { userId }, isTrash: true },
             }),
+
+            // Fetch saved searches with live match counts
+            (async () => {
+                const userSearches = await prisma.savedSearch.findMany({
+                    where: { userId },
+                    orderBy: { name: 'asc' },
+                });
+
+                return Promise.all(userSearches.map(serializeSavedSearch));
+            })(),
+
+            // Sum task counts per notebook
+            prisma.note.groupBy({
+                by: ['notebookId'],
+                where: { notebook: { userId }, isTrash: false },
+                _sum: { openTasks: true, completedTasks: true },
+            }),
+
+            // Notebooks other people shared with the user
+            listSharedNotebooks(userId),
         ]);
 
 
@@ -208,7 +281,7 @@ export async function GET(request: NextRequest) {
                     try {
                         prisma.notebook.delete({
                             where: { id: myNotesId }
-                        }).catch(err => {
+                        }).then(() => recordDeletions(userId, 'notebook', [myNotesId])).catch(err => {
                             console.error('Failed to cleanup default notebook:', err);
                         });
                     } catch (e) {
@@ -258,10 +331,14 @@ export async function GET(request: NextRequest) {
             _count: { attachments: number };
             isTrash: boolean;
             isFavorite: boolean;
+            openTasks: number;
+            completedTasks: number;
             createdAt: Date;
             updatedAt: Date;
         }
 
+        const tasksByNotebook = new Map(notebookTasks.map(group => [group.notebookId, group._sum]));
+
         const transformedNotebooks = (filteredNotebooks as NotebookWithCount[]).map((notebook) => ({
             id: notebook.id,
             name: notebook.name,
@@ -269,6 +346,8 @@ export async function GET(request: NextRequest) {
             cardColor: notebook.cardColor,
             isDefault: notebook.isDefault,
             noteCount: notebook._count.notes,
+            openTasks: tasksByNotebook.get(notebook.id)?.openTasks ?? 0,
+            completedTasks: tasksByNotebook.get(notebook.id)?.completedTasks ?? 0,
             createdAt: notebook.createdAt,
             updatedAt: notebook.updatedAt,
             stackId: notebook.stackId,
@@ -282,18 +361,23 @@ export async function GET(request: NextRequest) {
             createdAt: tag.createdAt,
         }));
 
+        const hitsById = new Map(searchHits?.map(hit => [hit.id, hit]));
+
         const transformedNotes = (notes as NoteWithRelations[]).map((note) => ({
             id: note.id,
             title: note.title,
             icon: note.icon,
             cardColor: note.cardColor,
             preview: note.contentPlaintext?.substring(0, 200) || '',
+            snippet: hitsById.get(note.id)?.snippet,
             notebookId: note.notebook.id, // For notebook filtering
             notebook: note.notebook,
             tags: note.tags.map((nt) => nt.tag),
             attachmentCount: note._count.attachments,
             isTrash: note.isTrash,
             isFavorite: note.isFavorite,
+            openTasks: note.openTasks,
+            completedTasks: note.completedTasks,
             createdAt: note.createdAt,
             updatedAt: note.updatedAt,
         }));
@@ -304,6 +388,8 @@ export async function GET(request: NextRequest) {
             tags: transformedTags,
             notes: transformedNotes,
             trashCount,
+            savedSearches,
+            sharedNotebooks,
         });
     } catch (error) {
         console.error('Error fetching app data:', error);
@@ -313,3 +399,17 @@ export async function GET(request: NextRequest) {
         );
     }
 }
+
+/**
+ * Order for unranked note lists (relevance falls back to most recently updated)
+ */
+function getNoteOrderBy(sort: NoteSearchSort): Prisma.NoteOrderByWithRelationInput {
+    switch (sort) {
+        case 'createdAt':
+            return { createdAt: 'desc' };
+        case 'title':
+            return { title: 'asc' };
+        default:
+            return { updatedAt: 'desc' };
+    }
+}
@@ -8,6 +8,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { getStorageService } from '@/lib/storage';
 import { createClient } from '@/lib/supabase/server';
+import { accessErrorResponse, authorizeAttachment } from '@/lib/permissions';
+import { recordDeletions } from '@/lib/sync';
 
 interface RouteParams {
     params: Promise<{ id: string }>;
@@ -46,25 +48,13 @@ export async function GET(
         const { searchParams } = new URL(request.url);
         const download = searchParams.get('download') === 'true';
 
-        const attachment = await prisma.attachment.findFirst({
-            where: {
-                id,
-                note: {
-                    notebook: { userId },
-                },
-            },
-            include: {
-                note: { select: { id: true, title: true } },
-            },
-        });
-
-        if (!attachment) {
-            return NextResponse.json(
-                { error: 'Attachment not found' },
-                { status: 404 }
-            );
+        const auth = await authorizeAttachment(userId, id, 'read');
+        if (auth.status !== 'ok') {
+            return accessErrorResponse(auth, 'Attachment');
         }
 
+        const attachment = auth.record;
+
         const storage = getStorageService();
 
         // If download requested, stream the file
@@ -99,7 +89,7 @@ export async function GET(
             height: attachment.height,
             hash: attachment.hash,
             url,
-            note: attachment.note,
+            note: { id: attachment.note.id, title: attachment.note.title },
             createdAt: attachment.createdAt,
         });
     } catch (error) {
@@ -133,22 +123,13 @@ export async function DELETE(
         const resolvedParams = await params;
         const { id } = resolvedParams;
 
-        const attachment = await prisma.attachment.findFirst({
-            where: {
-                id,
-                note: {
-                    notebook: { userId },
-                },
-            },
-        });
-
-        if (!attachment) {
-            return NextResponse.json(
-                { error: 'Attachment not found' },
-                { status: 404 }
-            );
+        const auth = await authorizeAttachment(userId, id, 'edit');
+        if (auth.status !== 'ok') {
+            return accessErrorResponse(auth, 'Attachment');
         }
 
+        const attachment = auth.record;
+
         // Delete from storage
         const storage = getStorageService();
         await storage.delete(attachment.storageKey);
@@ -157,6 +138,7 @@ export async function DELETE(
         await prisma.attachment.delete({
             where: { id },
         });
+        await recordDeletions(auth.ownerId, 'attachment', [id]);
 
         return NextResponse.json({ success: true });
     } catch (error) {
@@ -8,6 +8,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { getStorageService } from '@/lib/storage';
 import { createHash } from 'crypto';
+import { getAuthUserId } from '@/lib/supabase/server';
+import { accessErrorResponse, authorizeNote, noteAccessWhere } from '@/lib/permissions';
 
 /**
  * GET /api/attachments
@@ -16,21 +18,20 @@ import { createHash } from 'crypto';
  */
 export async function GET(request: NextRequest) {
     try {
-        const { searchParams } = new URL(request.url);
-        const userId = searchParams.get('userId');
-        const noteId = searchParams.get('noteId');
+        const userId = await getAuthUserId();
 
         if (!userId) {
             return NextResponse.json(
-                { error: 'User ID required' },
+                { error: 'Authentication required' },
                 { status: 401 }
             );
         }
 
+        const { searchParams } = new URL(request.url);
+        const noteId = searchParams.get('noteId');
+
         const where: Record<string, unknown> = {
-            note: {
-                notebook: { userId },
-            },
+            note: noteAccessWhere(userId),
         };
 
         if (noteId) {
@@ -81,20 +82,19 @@ export async function GET(request: NextRequest) {
  */
 export async function POST(request: NextRequest) {
     try {
-        const formData = await request.formData();
-        const { searchParams } = new URL(request.url);
-        const userId = searchParams.get('userId');
-
-        const file = formData.get('file') as File | null;
-        const noteId = formData.get('noteId') as string | null;
+        const userId = await getAuthUserId();
 
         if (!userId) {
             return NextResponse.json(
-                { error: 'User ID required' },
+                { error: 'Authentication required' },
                 { status: 401 }
             );
         }
 
+        const formData = await request.formData();
+        const file = formData.get('file') as File | null;
+        const noteId = formData.get('noteId') as string | null;
+
         if (!file) {
             return NextResponse.json(
                 { error: 'No file provided' },
@@ -109,19 +109,10 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        // Verify note belongs to user
-        const note = await prisma.note.findFirst({
-            where: {
-                id: noteId,
-                notebook: { userId },
-            },
-        });
-
-        if (!note) {
-            return NextResponse.json(
-                { error: 'Note not found' },
-                { status: 404 }
-            );
+        // Verify the user may edit the note
+        const auth = await authorizeNote(userId, noteId, 'edit');
+        if (auth.status !== 'ok') {
+            return accessErrorResponse(auth, 'Note');
         }
 
         // Check file size (limit to 25MB)
@@ -143,7 +134,8 @@ export async function POST(request: NextRequest) {
         // Generate storage key
         const ext = file.name.split('.').pop() || 'bin';
         const filename = `${file.name.replace(/\.[^.]+$/, '')}_${hash.substring(0, 8)}.${ext}`;
-        const storageKey = `attachments/${userId}/${noteId}/${filename}`;
+        // Files stay under the notebook owner's prefix, whoever uploads them
+        const storageKey = `attachments/${auth.ownerId}/${noteId}/${filename}`;
 
         // Upload to storage
         const storage = getStorageService();
@@ -0,0 +1,68 @@
+/**
+ * ENEX Export API Route
+ *
+ * Download notebooks in Evernote's export format.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getAuthUserId } from '@/lib/supabase/server';
+import { createEnexExport, createEnexArchive, toFileName, attachmentDisposition } from '@/lib/export';
+
+/**
+ * GET /api/export/enex
+ *
+ * Stream a notebook as an .enex document when `notebookId` is given,
+ * otherwise a ZIP with one .enex document per notebook in the account.
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const userId = await getAuthUserId();
+
+        if (!userId) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const { searchParams } = new URL(request.url);
+        const notebookId = searchParams.get('notebookId') || undefined;
+
+        const notebooks = await prisma.notebook.findMany({
+            where: { userId, ...(notebookId && { id: notebookId }) },
+            select: { id: true, name: true },
+            orderBy: { name: 'asc' },
+        });
+
+        if (notebookId && notebooks.length === 0) {
+            return NextResponse.json(
+                { error: 'Notebook not found' },
+                { status: 404 }
+            );
+        }
+
+        const [notebook] = notebooks;
+        const fileName = notebookId && notebook
+            ? `${toFileName(notebook.name, 'Notebook')}.enex`
+            : `Evernote export ${new Date().toISOString().slice(0, 10)}.zip`;
+
+        const stream = notebookId && notebook
+            ? createEnexExport(notebook)
+            : createEnexArchive(notebooks);
+
+        return new Response(stream, {
+            headers: {
+                'Content-Type': notebookId ? 'application/enex+xml; charset=utf-8' : 'application/zip',
+                'Content-Disposition': attachmentDisposition(fileName),
+                'Cache-Control': 'no-store',
+            },
+        });
+    } catch (error) {
+        console.error('Error exporting notes as ENEX:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to export notes' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,69 @@
+/**
+ * Markdown Export API Route
+ *
+ * Download a notebook or the whole account as a ZIP of Markdown files.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getAuthUserId } from '@/lib/supabase/server';
+import { createMarkdownExport, toFileName, attachmentDisposition } from '@/lib/export';
+
+/**
+ * GET /api/export/markdown
+ *
+ * Stream a ZIP archive of Markdown files with YAML front matter and an
+ * attachments folder. Exports a single notebook when `notebookId` is given,
+ * otherwise every notebook in the account (one folder per notebook).
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const userId = await getAuthUserId();
+
+        if (!userId) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const { searchParams } = new URL(request.url);
+        const notebookId = searchParams.get('notebookId') || undefined;
+
+        const notebooks = await prisma.notebook.findMany({
+            where: { userId, ...(notebookId && { id: notebookId }) },
+            select: { id: true, name: true },
+            orderBy: { name: 'asc' },
+        });
+
+        if (notebookId && notebooks.length === 0) {
+            return NextResponse.json(
+                { error: 'Notebook not found' },
+                { status: 404 }
+            );
+        }
+
+        const archiveName = notebookId
+            ? `${toFileName(notebooks[0]!.name, 'Notebook')}.zip`
+            : `Notes export ${new Date().toISOString().slice(0, 10)}.zip`;
+
+        const stream = createMarkdownExport({
+            notebooks,
+            notebookFolders: !notebookId,
+        });
+
+        return new Response(stream, {
+            headers: {
+                'Content-Type': 'application/zip',
+                'Content-Disposition': attachmentDisposition(archiveName),
+                'Cache-Control': 'no-store',
+            },
+        });
+    } catch (error) {
+        console.error('Error exporting notes as Markdown:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to export notes' },
+            { status: 500 }
+        );
+    }
+}
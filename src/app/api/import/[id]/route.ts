@@ -1,26 +1,68 @@
 /**
  * Import Job Status API Route
- * 
- * Retrieve the status of a specific import job.
+ *
+ * Retrieve the status of a specific import job, or cancel it.
  */
 
-import { NextRequest, NextResponse } from 'next/server';
-import { getImportJobStatus } from '@/lib/import';
+import { NextRequest, NextResponse, after } from 'next/server';
+import type { ImportJob } from '@prisma/client';
+import { getImportJobStatus, cancelImportJob, isImportJobClaimable, runImportJob } from '@/lib/import';
+import { getAuthUserId } from '@/lib/supabase/server';
+
+// Leaves room for an import run started after the response
+export const maxDuration = 60;
 
 interface RouteParams {
     params: Promise<{ id: string }>;
 }
 
+function serializeJob(job: ImportJob) {
+    // Calculate progress percentage
+    const totalNotes = job.totalNotes ?? 0;
+    const processed = job.imported + job.failed + job.skipped + job.overwritten;
+    const progress = totalNotes > 0
+        ? Math.round((processed / totalNotes) * 100)
+        : 0;
+
+    return {
+        id: job.id,
+        status: job.status,
+        filename: job.filename,
+        totalNotes: job.totalNotes,
+        imported: job.imported,
+        failed: job.failed,
+        skipped: job.skipped,
+        overwritten: job.overwritten,
+        duplicateMode: job.duplicateMode,
+        progress,
+        errors: job.errors,
+        startedAt: job.startedAt,
+        completedAt: job.completedAt,
+        createdAt: job.createdAt,
+    };
+}
+
 /**
  * GET /api/import/[id]
- * 
- * Get the status of an import job.
+ *
+ * Get the status of an import job. Polling also restarts a job that is
+ * waiting for a worker (between runs, or after a worker crashed), so
+ * imports keep moving while someone is watching even without the cron.
  */
 export async function GET(
     _request: NextRequest,
     { params }: RouteParams
 ) {
     try {
+        const userId = await getAuthUserId();
+
+        if (!userId) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
         const resolvedParams = await params;
         const { id } = resolvedParams;
 
@@ -33,32 +75,18 @@ export async function GET(
 
         const job = await getImportJobStatus(id);
 
-        if (!job) {
+        if (!job || job.userId !== userId) {
             return NextResponse.json(
                 { error: 'Import job not found' },
                 { status: 404 }
             );
         }
 
-        // Calculate progress percentage
-        const totalNotes = job.totalNotes ?? 0;
-        const progress = totalNotes > 0
-            ? Math.round(((job.imported + job.failed) / totalNotes) * 100)
-            : 0;
-
-        return NextResponse.json({
-            id: job.id,
-            status: job.status,
-            filename: job.filename,
-            totalNotes: job.totalNotes,
-            imported: job.imported,
-            failed: job.failed,
-            progress,
-            errors: job.errors,
-            startedAt: job.startedAt,
-            completedAt: job.completedAt,
-            createdAt: job.createdAt,
-        });
+        if (isImportJobClaimable(job)) {
+            after(() => runImportJob(job.id));
+        }
+
+        return NextResponse.json(serializeJob(job));
     } catch (error) {
         console.error('Error fetching import job:', error);
         return NextResponse.json(
@@ -67,3 +95,42 @@ export async function GET(
         );
     }
 }
+
+/**
+ * DELETE /api/import/[id]
+ *
+ * Cancel a queued or running import. Notes imported so far are kept.
+ */
+export async function DELETE(
+    _request: NextRequest,
+    { params }: RouteParams
+) {
+    try {
+        const userId = await getAuthUserId();
+
+        if (!userId) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+        const job = await cancelImportJob(id, userId);
+
+        if (!job) {
+            return NextResponse.json(
+                { error: 'Import job not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json(serializeJob(job));
+    } catch (error) {
+        console.error('Error cancelling import job:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to cancel job' },
+            { status: 500 }
+        );
+    }
+}
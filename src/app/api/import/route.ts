@@ -1,23 +1,48 @@
 /**
  * Import API Route
  * 
- * Handles ENEX file uploads and initiates the import process.
+ * Queues uploaded files for import.
  */
 
-import { NextRequest, NextResponse } from 'next/server';
-import { importParsedData, listImportJobs } from '@/lib/import';
-import { parseFile } from '@/lib/import/file-parser';
+import { NextRequest, NextResponse, after } from 'next/server';
+import { z } from 'zod';
+import {
+    enqueueImport,
+    runImportJob,
+    listImportJobs,
+    isImportableFile,
+    isImportUploadKey,
+    DUPLICATE_MODES,
+    IMPORT_EXTENSIONS,
+} from '@/lib/import';
+import { getStorageService } from '@/lib/storage';
 import { ensureDbUser } from '@/lib/supabase/server';
 
+// Leaves room for the first import run started after the response
+export const maxDuration = 60;
 
+const enqueueImportSchema = z.object({
+    storageKey: z.string().min(1),
+    filename: z.string().min(1).max(255),
+    mimeType: z.string().max(255).optional(),
+    lastModified: z.number().int().nonnegative().optional(),
+    notebookName: z.string().max(255).optional(),
+    duplicateMode: z.enum(DUPLICATE_MODES).default('skip'),
+});
 
 /**
  * POST /api/import
  * 
- * Upload and import a file (ENEX, PDF, DOCX, TXT).
- * Expects multipart/form-data with:
- * - file: The file to import
+ * Queue a file (ENEX, PDF, DOCX, TXT, Markdown or a zipped Markdown vault)
+ * for import once the browser has uploaded it to the URL from
+ * POST /api/import/uploads. Responds with the job ID straight away; poll
+ * GET /api/import/[id] for progress.
+ * Expects JSON with:
+ * - storageKey: The key the file was uploaded to
+ * - filename: The file's original name
  * - notebookName: (optional) Name for the notebook to import into
+ * - duplicateMode: (optional) skip, overwrite or keep-both for notes that
+ *   were imported before (defaults to skip)
  */
 export async function POST(request: NextRequest) {
     try {
@@ -31,58 +56,50 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        const formData = await request.formData();
+        const body = await request.json();
+        const parseResult = enqueueImportSchema.safeParse(body);
 
-        const file = formData.get('file') as File | null;
-        const notebookName = formData.get('notebookName') as string | null;
-
-        // Validate file
-        if (!file) {
+        if (!parseResult.success) {
             return NextResponse.json(
-                { error: 'No file provided' },
+                { error: 'Invalid request body', details: parseResult.error.flatten() },
                 { status: 400 }
             );
         }
 
-        // Validate file type
-        const validExtensions = ['.enex', '.pdf', '.docx', '.txt'];
-        const lowerName = file.name.toLowerCase();
-        if (!validExtensions.some(ext => lowerName.endsWith(ext))) {
+        const { storageKey, filename, mimeType, lastModified, notebookName, duplicateMode } = parseResult.data;
+
+        if (!isImportableFile(filename)) {
             return NextResponse.json(
-                { error: 'Invalid file type. Supported formats: .enex, .pdf, .docx, .txt' },
+                { error: `Invalid file type. Supported formats: ${IMPORT_EXTENSIONS.join(', ')}` },
                 { status: 400 }
             );
         }
 
-        // Check file size (limit to 100MB)
-        const MAX_SIZE = 100 * 1024 * 1024;
-        if (file.size > MAX_SIZE) {
+        // Only keys handed out to this user, and only once the upload landed
+        if (!isImportUploadKey(userId, storageKey) || !(await getStorageService().exists(storageKey))) {
             return NextResponse.json(
-                { error: 'File too large. Maximum size is 100MB.' },
-                { status: 413 }
+                { error: 'Upload not found' },
+                { status: 400 }
             );
         }
 
-        // Read file content
-        const arrayBuffer = await file.arrayBuffer();
-        const buffer = Buffer.from(arrayBuffer);
-
-        // Parse the file
-        const enexExport = await parseFile({
-            filename: file.name,
-            mimeType: file.type || 'application/octet-stream',
-            buffer,
-            lastModified: file.lastModified
-        });
-
-        // Start import process using the parsed data
-        const result = await importParsedData(enexExport, {
+        // Queue the upload; the import runs after the response
+        const job = await enqueueImport({
             userId,
-            filename: file.name,
+            storageKey,
+            filename,
+            mimeType: mimeType || 'application/octet-stream',
+            lastModified,
             notebookName: notebookName || undefined,
+            duplicateMode,
         });
 
-        return NextResponse.json(result, { status: 201 });
+        after(() => runImportJob(job.id));
+
+        return NextResponse.json(
+            { jobId: job.id, status: job.status, filename: job.filename },
+            { status: 202 }
+        );
     } catch (error) {
         console.error('Import error:', error);
         return NextResponse.json(
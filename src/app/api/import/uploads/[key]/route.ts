@@ -0,0 +1,72 @@
+/**
+ * Local Import Upload Route
+ *
+ * The upload URL for files stored on the local filesystem. S3 and Supabase
+ * storage take uploads themselves, so this route only answers when local
+ * storage is configured.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isImportUploadKey, MAX_IMPORT_SIZE } from '@/lib/import';
+import { getStorageService, LocalStorageService } from '@/lib/storage';
+import { getAuthUserId } from '@/lib/supabase/server';
+
+interface RouteParams {
+    params: Promise<{ key: string }>;
+}
+
+/**
+ * PUT /api/import/uploads/[key]
+ *
+ * Stream the request body to the storage key from POST /api/import/uploads.
+ */
+export async function PUT(
+    request: NextRequest,
+    { params }: RouteParams
+) {
+    try {
+        const userId = await getAuthUserId();
+
+        if (!userId) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const { key } = await params;
+        const storage = getStorageService();
+
+        if (!(storage instanceof LocalStorageService) || !isImportUploadKey(userId, key)) {
+            return NextResponse.json(
+                { error: 'Upload not found' },
+                { status: 404 }
+            );
+        }
+
+        const size = Number(request.headers.get('content-length'));
+        if (!request.body || !size) {
+            return NextResponse.json(
+                { error: 'No file provided' },
+                { status: 400 }
+            );
+        }
+
+        if (size > MAX_IMPORT_SIZE) {
+            return NextResponse.json(
+                { error: 'File too large. Maximum size is 100MB.' },
+                { status: 413 }
+            );
+        }
+
+        await storage.writeStream(key, request.body);
+
+        return new NextResponse(null, { status: 204 });
+    } catch (error) {
+        console.error('Error storing import upload:', error);
+        return NextResponse.json(
+            { error: 'Failed to store upload' },
+            { status: 500 }
+        );
+    }
+}
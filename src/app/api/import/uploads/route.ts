@@ -0,0 +1,77 @@
+/**
+ * Import Uploads API Route
+ *
+ * Hands out the storage URL a file is uploaded to before it is queued for
+ * import, so large files never pass through an API request.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createImportUpload, isImportableFile, IMPORT_EXTENSIONS, MAX_IMPORT_SIZE } from '@/lib/import';
+import { getAuthUserId } from '@/lib/supabase/server';
+
+const createUploadSchema = z.object({
+    filename: z.string().min(1).max(255),
+    mimeType: z.string().max(255).optional(),
+    size: z.number().int().nonnegative(),
+});
+
+/**
+ * POST /api/import/uploads
+ *
+ * Reserve a storage key for a file. Responds with the key and the URL,
+ * method and headers to upload the file with; then queue it with
+ * POST /api/import.
+ * Expects JSON with:
+ * - filename: The file's name
+ * - mimeType: (optional) The file's MIME type
+ * - size: The file's size in bytes
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const userId = await getAuthUserId();
+
+        if (!userId) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json();
+        const parseResult = createUploadSchema.safeParse(body);
+
+        if (!parseResult.success) {
+            return NextResponse.json(
+                { error: 'Invalid request body', details: parseResult.error.flatten() },
+                { status: 400 }
+            );
+        }
+
+        const { filename, mimeType, size } = parseResult.data;
+
+        if (!isImportableFile(filename)) {
+            return NextResponse.json(
+                { error: `Invalid file type. Supported formats: ${IMPORT_EXTENSIONS.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        if (size > MAX_IMPORT_SIZE) {
+            return NextResponse.json(
+                { error: 'File too large. Maximum size is 100MB.' },
+                { status: 413 }
+            );
+        }
+
+        const upload = await createImportUpload(userId, filename, mimeType || 'application/octet-stream');
+
+        return NextResponse.json(upload, { status: 201 });
+    } catch (error) {
+        console.error('Error creating import upload:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to create upload' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,50 @@
+/**
+ * Import Worker API Route
+ *
+ * Cron endpoint that works through the import queue: picks up queued jobs,
+ * jobs handed back between runs and jobs whose worker crashed.
+ */
+
+import { NextResponse } from 'next/server';
+import { runImportQueue } from '@/lib/import';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+/**
+ * GET /api/import/worker
+ *
+ * Run queued imports until the time budget is used. Called by Vercel Cron;
+ * requires `Authorization: Bearer $CRON_SECRET` when CRON_SECRET is set.
+ */
+export async function GET(request: Request) {
+    try {
+        const authHeader = request.headers.get('authorization');
+        const cronSecret = process.env.CRON_SECRET;
+
+        if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const results = await runImportQueue();
+
+        return NextResponse.json({
+            processed: results.length,
+            jobs: results.map(result => ({
+                id: result.jobId,
+                status: result.status,
+                imported: result.imported,
+                failed: result.failed,
+                skipped: result.skipped,
+                overwritten: result.overwritten,
+                totalNotes: result.totalNotes,
+            })),
+        });
+    } catch (error) {
+        console.error('Error running import queue:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to run import queue' },
+            { status: 500 }
+        );
+    }
+}
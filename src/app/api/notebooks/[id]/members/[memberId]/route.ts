@@ -0,0 +1,132 @@
+/**
+ * Notebook Member API Route
+ *
+ * Change a member's role or remove them from a notebook.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/db';
+import { getAuthUserId } from '@/lib/supabase/server';
+import {
+    NOTEBOOK_ROLES,
+    accessErrorResponse,
+    authorizeNotebook,
+    removeNotebookMember,
+    serializeMember,
+    updateNotebookMemberRole,
+} from '@/lib/permissions';
+
+interface RouteParams {
+    params: Promise<{ id: string; memberId: string }>;
+}
+
+const updateMemberSchema = z.object({
+    role: z.enum(NOTEBOOK_ROLES),
+});
+
+/**
+ * PATCH /api/notebooks/[id]/members/[memberId]
+ *
+ * Change a member's role (owner only).
+ */
+export async function PATCH(
+    request: NextRequest,
+    { params }: RouteParams
+) {
+    try {
+        const userId = await getAuthUserId();
+
+        if (!userId) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const { id, memberId } = await params;
+        const body = await request.json();
+
+        const parseResult = updateMemberSchema.safeParse(body);
+        if (!parseResult.success) {
+            return NextResponse.json(
+                { error: 'Invalid input', details: parseResult.error.flatten() },
+                { status: 400 }
+            );
+        }
+
+        const auth = await authorizeNotebook(userId, id, 'manage');
+        if (auth.status !== 'ok') {
+            return accessErrorResponse(auth, 'Notebook');
+        }
+
+        const member = await updateNotebookMemberRole(id, memberId, parseResult.data.role);
+
+        if (!member) {
+            return NextResponse.json(
+                { error: 'Member not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json(serializeMember(member));
+    } catch (error) {
+        console.error('Error updating notebook member:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to update member' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * DELETE /api/notebooks/[id]/members/[memberId]
+ *
+ * Remove a member or withdraw an invitation. The owner can remove anyone;
+ * members can remove themselves to leave the notebook.
+ */
+export async function DELETE(
+    _request: NextRequest,
+    { params }: RouteParams
+) {
+    try {
+        const userId = await getAuthUserId();
+
+        if (!userId) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const { id, memberId } = await params;
+
+        const isSelf = await prisma.notebookMember.count({
+            where: { id: memberId, notebookId: id, userId },
+        }) > 0;
+
+        if (!isSelf) {
+            const auth = await authorizeNotebook(userId, id, 'manage');
+            if (auth.status !== 'ok') {
+                return accessErrorResponse(auth, 'Notebook');
+            }
+        }
+
+        const member = await removeNotebookMember(id, memberId);
+
+        if (!member) {
+            return NextResponse.json(
+                { error: 'Member not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Error removing notebook member:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to remove member' },
+            { status: 500 }
+        );
+    }
+}
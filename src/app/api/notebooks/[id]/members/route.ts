@@ -0,0 +1,135 @@
+/**
+ * Notebook Members API Route
+ *
+ * List the people a notebook is shared with and invite new ones by email.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/db';
+import { getAuthUserId } from '@/lib/supabase/server';
+import {
+    NOTEBOOK_ROLES,
+    accessErrorResponse,
+    authorizeNotebook,
+    inviteNotebookMember,
+    listNotebookMembers,
+    serializeMember,
+} from '@/lib/permissions';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+const inviteMemberSchema = z.object({
+    email: z.email().max(255),
+    role: z.enum(NOTEBOOK_ROLES).default('viewer'),
+});
+
+/**
+ * GET /api/notebooks/[id]/members
+ *
+ * The notebook's owner and members. Anyone with access may see who else
+ * has it.
+ */
+export async function GET(
+    _request: NextRequest,
+    { params }: RouteParams
+) {
+    try {
+        const userId = await getAuthUserId();
+
+        if (!userId) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+
+        const auth = await authorizeNotebook(userId, id, 'read');
+        if (auth.status !== 'ok') {
+            return accessErrorResponse(auth, 'Notebook');
+        }
+
+        const [owner, members] = await Promise.all([
+            prisma.user.findUnique({
+                where: { id: auth.ownerId },
+                select: { id: true, name: true, email: true },
+            }),
+            listNotebookMembers(id),
+        ]);
+
+        return NextResponse.json({
+            access: auth.access,
+            owner,
+            members: members.map(serializeMember),
+        });
+    } catch (error) {
+        console.error('Error listing notebook members:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to list notebook members' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/notebooks/[id]/members
+ *
+ * Invite someone by email. People without an account get access once they
+ * sign up with that address; inviting an existing member changes their role.
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: RouteParams
+) {
+    try {
+        const userId = await getAuthUserId();
+
+        if (!userId) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+        const body = await request.json();
+
+        const parseResult = inviteMemberSchema.safeParse(body);
+        if (!parseResult.success) {
+            return NextResponse.json(
+                { error: 'Invalid input', details: parseResult.error.flatten() },
+                { status: 400 }
+            );
+        }
+
+        const auth = await authorizeNotebook(userId, id, 'manage');
+        if (auth.status !== 'ok') {
+            return accessErrorResponse(auth, 'Notebook');
+        }
+
+        const { email, role } = parseResult.data;
+        const result = await inviteNotebookMember(auth.record, userId, email, role);
+
+        if (result.status === 'owner') {
+            return NextResponse.json(
+                { error: 'The owner already has access to this notebook' },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json(
+            { ...serializeMember(result.member), emailed: result.emailed },
+            { status: result.created ? 201 : 200 }
+        );
+    } catch (error) {
+        console.error('Error inviting notebook member:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to invite member' },
+            { status: 500 }
+        );
+    }
+}
@@ -8,6 +8,14 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { z } from 'zod';
 import { createClient } from '@/lib/supabase/server';
+import { recordDeletions } from '@/lib/sync';
+import {
+    accessErrorResponse,
+    authorizeNotebook,
+    notebookAccessSelect,
+    notebookAccessWhere,
+    resolveNotebookAccess,
+} from '@/lib/permissions';
 
 interface RouteParams {
     params: Promise<{ id: string }>;
@@ -52,8 +60,10 @@ export async function GET(
         const { id } = resolvedParams;
 
         const notebook = await prisma.notebook.findFirst({
-            where: { id, userId },
+            where: { id, ...notebookAccessWhere(userId) },
             include: {
+                // `userId` comes back as a scalar already; only the relation belongs here
+                members: notebookAccessSelect(userId).members,
                 _count: {
                     select: { notes: true },
                 },
@@ -74,6 +84,7 @@ export async function GET(
             cardColor: notebook.cardColor,
             isDefault: notebook.isDefault,
             noteCount: notebook._count.notes,
+            access: resolveNotebookAccess(userId, notebook),
             createdAt: notebook.createdAt,
             updatedAt: notebook.updatedAt,
         });
@@ -118,16 +129,10 @@ export async function PATCH(
             );
         }
 
-        // Check if notebook exists and belongs to user
-        const existing = await prisma.notebook.findFirst({
-            where: { id, userId },
-        });
-
-        if (!existing) {
-            return NextResponse.json(
-                { error: 'Notebook not found' },
-                { status: 404 }
-            );
+        // Only the owner renames a notebook
+        const auth = await authorizeNotebook(userId, id, 'manage');
+        if (auth.status !== 'ok') {
+            return accessErrorResponse(auth, 'Notebook');
         }
 
         const { name, icon, cardColor, isDefault } = parseResult.data;
@@ -185,21 +190,19 @@ export async function DELETE(
         const { searchParams } = new URL(request.url);
         const deleteNotes = searchParams.get('deleteNotes') === 'true';
 
-        // Check if notebook exists and belongs to user
-        const existing = await prisma.notebook.findFirst({
-            where: { id, userId },
+        // Only the owner deletes a notebook
+        const auth = await authorizeNotebook(userId, id, 'manage');
+        if (auth.status !== 'ok') {
+            return accessErrorResponse(auth, 'Notebook');
+        }
+
+        const existing = await prisma.notebook.findUniqueOrThrow({
+            where: { id },
             include: {
                 _count: { select: { notes: true } },
             },
         });
 
-        if (!existing) {
-            return NextResponse.json(
-                { error: 'Notebook not found' },
-                { status: 404 }
-            );
-        }
-
         // Don't allow deleting the default notebook if it has notes
         if (existing.isDefault && existing._count.notes > 0 && !deleteNotes) {
             return NextResponse.json(
@@ -258,6 +261,7 @@ export async function DELETE(
         await prisma.notebook.delete({
             where: { id },
         });
+        await recordDeletions(userId, 'notebook', [id]);
 
         return NextResponse.json({ success: true });
     } catch (error) {
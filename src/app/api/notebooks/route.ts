@@ -8,6 +8,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { z } from 'zod';
 import { ensureDbUser, getAuthUserId } from '@/lib/supabase/server';
+import { recordDeletions } from '@/lib/sync';
 
 // Validation schemas
 const createNotebookSchema = z.object({
@@ -172,6 +173,7 @@ export async function POST(request: NextRequest) {
                     await prisma.notebook.delete({
                         where: { id: defaultMyNotes.id }
                     });
+                    await recordDeletions(userId, 'notebook', [defaultMyNotes.id]);
                 }
             }
         } catch (cleanupError) {
@@ -0,0 +1,63 @@
+/**
+ * Note Backlinks API Route
+ * 
+ * List notes that link to a note.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getAuthUserId } from '@/lib/supabase/server';
+import { noteAccessWhere } from '@/lib/permissions';
+import { listBacklinks } from '@/lib/links';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/notes/[id]/backlinks
+ * 
+ * List notes linking to this note, most recently updated first.
+ */
+export async function GET(
+    _request: NextRequest,
+    { params }: RouteParams
+) {
+    try {
+        const userId = await getAuthUserId();
+
+        if (!userId) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+
+        const note = await prisma.note.findFirst({
+            where: {
+                id,
+                ...noteAccessWhere(userId),
+            },
+            select: { id: true, title: true },
+        });
+
+        if (!note) {
+            return NextResponse.json(
+                { error: 'Note not found' },
+                { status: 404 }
+            );
+        }
+
+        const backlinks = await listBacklinks(note, userId);
+
+        return NextResponse.json({ backlinks });
+    } catch (error) {
+        console.error('Error fetching backlinks:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to fetch backlinks' },
+            { status: 500 }
+        );
+    }
+}
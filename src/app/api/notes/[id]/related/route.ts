@@ -0,0 +1,74 @@
+/**
+ * Related Notes API Route
+ *
+ * Suggest notes about the same thing as a note.
+ */
+
+import { NextRequest, NextResponse, after } from 'next/server';
+import { z } from 'zod';
+import { getAuthUserId } from '@/lib/supabase/server';
+import { accessErrorResponse, authorizeNote } from '@/lib/permissions';
+import { indexMissingEmbeddings } from '@/lib/embeddings';
+import { DEFAULT_RELATED_LIMIT, findRelatedNotes } from '@/lib/related';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+const relatedQuerySchema = z.object({
+    limit: z.coerce.number().int().min(1).max(20).default(DEFAULT_RELATED_LIMIT),
+});
+
+/**
+ * GET /api/notes/[id]/related
+ *
+ * Rank the notes the user can read by shared tags, shared link targets,
+ * shared key terms and, when embeddings are available, closeness in meaning.
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: RouteParams
+) {
+    try {
+        const userId = await getAuthUserId();
+
+        if (!userId) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+
+        const auth = await authorizeNote(userId, id, 'read');
+        if (auth.status !== 'ok') {
+            return accessErrorResponse(auth, 'Note');
+        }
+
+        const { searchParams } = new URL(request.url);
+
+        const parseResult = relatedQuerySchema.safeParse({
+            limit: searchParams.get('limit') || undefined,
+        });
+        if (!parseResult.success) {
+            return NextResponse.json(
+                { error: 'Invalid query parameters', details: parseResult.error.flatten() },
+                { status: 400 }
+            );
+        }
+
+        const related = await findRelatedNotes(id, userId, parseResult.data.limit);
+
+        // Embed notes saved before AI was set up so meaning counts next time
+        after(() => indexMissingEmbeddings(auth.ownerId));
+
+        return NextResponse.json({ related });
+    } catch (error) {
+        console.error('Error fetching related notes:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch related notes' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,97 @@
+/**
+ * Note Revision Diff API Route
+ * 
+ * Compare a revision against the current note (or another revision).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getAuthUserId } from '@/lib/supabase/server';
+import { noteAccessWhere } from '@/lib/permissions';
+import {
+    getRevision,
+    diffText,
+    diffHtml,
+    renderHtmlDiff,
+    getDiffStats,
+} from '@/lib/revisions';
+
+interface RouteParams {
+    params: Promise<{ id: string; revisionId: string }>;
+}
+
+/**
+ * GET /api/notes/[id]/revisions/[revisionId]/diff
+ * 
+ * Diff a revision against the current note.
+ * 
+ * Query params:
+ * - format: "text" (default) for a plain-text word diff, "html" for rendered markup
+ * - compareTo: optional revision ID to diff against instead of the current note
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: RouteParams
+) {
+    try {
+        const userId = await getAuthUserId();
+
+        if (!userId) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const { id, revisionId } = await params;
+        const { searchParams } = new URL(request.url);
+        const format = searchParams.get('format') === 'html' ? 'html' : 'text';
+        const compareTo = searchParams.get('compareTo');
+
+        const note = await prisma.note.findFirst({
+            where: {
+                id,
+                ...noteAccessWhere(userId),
+            },
+            select: { id: true, title: true, content: true, contentPlaintext: true },
+        });
+
+        if (!note) {
+            return NextResponse.json(
+                { error: 'Note not found' },
+                { status: 404 }
+            );
+        }
+
+        const revision = await getRevision(id, revisionId);
+        const target = compareTo ? await getRevision(id, compareTo) : note;
+
+        if (!revision || !target) {
+            return NextResponse.json(
+                { error: 'Revision not found' },
+                { status: 404 }
+            );
+        }
+
+        const title = diffText(revision.title, target.title);
+        const parts = format === 'html'
+            ? diffHtml(revision.content, target.content)
+            : diffText(revision.contentPlaintext ?? '', target.contentPlaintext ?? '');
+
+        return NextResponse.json({
+            revisionId,
+            compareTo: compareTo ?? 'current',
+            format,
+            title,
+            parts,
+            html: format === 'html' ? renderHtmlDiff(parts) : undefined,
+            stats: getDiffStats(parts),
+        });
+    } catch (error) {
+        console.error('Error diffing revision:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to diff revision' },
+            { status: 500 }
+        );
+    }
+}
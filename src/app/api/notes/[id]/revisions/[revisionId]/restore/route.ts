@@ -0,0 +1,97 @@
+/**
+ * Note Revision Restore API Route
+ * 
+ * Replace a note's title and content with an earlier revision.
+ */
+
+import { NextRequest, NextResponse, after } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getAuthUserId } from '@/lib/supabase/server';
+import { accessErrorResponse, authorizeNote } from '@/lib/permissions';
+import { getRevision, recordRevision } from '@/lib/revisions';
+import { countTasks, syncNoteTasks } from '@/lib/tasks';
+import { indexNoteEmbeddings } from '@/lib/embeddings';
+
+interface RouteParams {
+    params: Promise<{ id: string; revisionId: string }>;
+}
+
+/**
+ * POST /api/notes/[id]/revisions/[revisionId]/restore
+ * 
+ * Restore a revision. The current state stays in history, and the restore
+ * itself is recorded as a new revision so it can be undone.
+ */
+export async function POST(
+    _request: NextRequest,
+    { params }: RouteParams
+) {
+    try {
+        const userId = await getAuthUserId();
+
+        if (!userId) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const { id, revisionId } = await params;
+
+        const auth = await authorizeNote(userId, id, 'edit');
+        if (auth.status !== 'ok') {
+            return accessErrorResponse(auth, 'Note');
+        }
+
+        const existing = auth.record;
+
+        const revision = await getRevision(id, revisionId);
+
+        if (!revision) {
+            return NextResponse.json(
+                { error: 'Revision not found' },
+                { status: 404 }
+            );
+        }
+
+        const note = await prisma.note.update({
+            where: { id },
+            data: {
+                title: revision.title,
+                content: revision.content,
+                contentPlaintext: revision.contentPlaintext,
+                ...countTasks(revision.content),
+                collabState: null,
+            },
+            include: {
+                notebook: { select: { id: true, name: true } },
+                tags: {
+                    include: {
+                        tag: { select: { id: true, name: true } },
+                    },
+                },
+            },
+        });
+
+        await recordRevision(id, note, { previous: existing, source: 'restore' });
+        await syncNoteTasks(id, note.content);
+        after(() => indexNoteEmbeddings(id));
+
+        return NextResponse.json({
+            id: note.id,
+            title: note.title,
+            content: note.content,
+            notebook: note.notebook,
+            tags: note.tags.map((nt: { tag: { id: string; name: string } }) => nt.tag),
+            isTrash: note.isTrash,
+            isFavorite: note.isFavorite,
+            updatedAt: note.updatedAt,
+        });
+    } catch (error) {
+        console.error('Error restoring revision:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to restore revision' },
+            { status: 500 }
+        );
+    }
+}
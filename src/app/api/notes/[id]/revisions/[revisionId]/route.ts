@@ -0,0 +1,70 @@
+/**
+ * Note Revision API Route
+ * 
+ * Get a single revision of a note with full content.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getAuthUserId } from '@/lib/supabase/server';
+import { noteAccessWhere } from '@/lib/permissions';
+import { getRevision } from '@/lib/revisions';
+
+interface RouteParams {
+    params: Promise<{ id: string; revisionId: string }>;
+}
+
+/**
+ * GET /api/notes/[id]/revisions/[revisionId]
+ * 
+ * Get a specific revision with its title and content snapshot.
+ */
+export async function GET(
+    _request: NextRequest,
+    { params }: RouteParams
+) {
+    try {
+        const userId = await getAuthUserId();
+
+        if (!userId) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const { id, revisionId } = await params;
+
+        const note = await prisma.note.findFirst({
+            where: {
+                id,
+                ...noteAccessWhere(userId),
+            },
+            select: { id: true },
+        });
+
+        if (!note) {
+            return NextResponse.json(
+                { error: 'Note not found' },
+                { status: 404 }
+            );
+        }
+
+        const revision = await getRevision(id, revisionId);
+
+        if (!revision) {
+            return NextResponse.json(
+                { error: 'Revision not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json(revision);
+    } catch (error) {
+        console.error('Error fetching revision:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to fetch revision' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,63 @@
+/**
+ * Note Revisions API Route
+ * 
+ * List the revision history of a note.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getAuthUserId } from '@/lib/supabase/server';
+import { noteAccessWhere } from '@/lib/permissions';
+import { listRevisions } from '@/lib/revisions';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/notes/[id]/revisions
+ * 
+ * List revisions for a note, newest first.
+ */
+export async function GET(
+    _request: NextRequest,
+    { params }: RouteParams
+) {
+    try {
+        const userId = await getAuthUserId();
+
+        if (!userId) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+
+        const note = await prisma.note.findFirst({
+            where: {
+                id,
+                ...noteAccessWhere(userId),
+            },
+            select: { id: true },
+        });
+
+        if (!note) {
+            return NextResponse.json(
+                { error: 'Note not found' },
+                { status: 404 }
+            );
+        }
+
+        const revisions = await listRevisions(id);
+
+        return NextResponse.json({ revisions });
+    } catch (error) {
+        console.error('Error fetching revisions:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to fetch revisions' },
+            { status: 500 }
+        );
+    }
+}
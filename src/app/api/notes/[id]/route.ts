@@ -4,10 +4,24 @@
  * Get, update, and delete operations for a specific note.
  */
 
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
+import type { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/db';
 import { z } from 'zod';
 import { createClient } from '@/lib/supabase/server';
+import { isSameVersion, noteETag, parseBaseVersion, recordRevision } from '@/lib/revisions';
+import { syncNoteLinks, updateLinkedTitles } from '@/lib/links';
+import { countTasks, syncNoteTasks } from '@/lib/tasks';
+import { recordDeletions } from '@/lib/sync';
+import { indexNoteEmbeddings } from '@/lib/embeddings';
+import {
+    accessErrorResponse,
+    authorizeNote,
+    authorizeNotebook,
+    noteAccessWhere,
+    notebookAccessSelect,
+    resolveNotebookAccess,
+} from '@/lib/permissions';
 
 interface RouteParams {
     params: Promise<{ id: string }>;
@@ -24,6 +38,10 @@ const updateNoteSchema = z.object({
     removeTags: z.array(z.string()).optional(),
     isTrash: z.boolean().optional(),
     isFavorite: z.boolean().optional(),
+    reminderAt: z.iso.datetime({ offset: true }).nullable().optional(),
+    reminderDone: z.boolean().optional(),
+    // Version the edit started from; required with content unless sent as If-Match
+    baseUpdatedAt: z.iso.datetime({ offset: true }).optional(),
 });
 
 /**
@@ -35,6 +53,26 @@ async function getAuthUserId(): Promise<string | null> {
     return user?.id ?? null;
 }
 
+/**
+ * 409 for a content save that started from an older version, with the
+ * server copy so the client can merge or choose.
+ */
+function conflictResponse(note: { id: string; title: string; content: string; updatedAt: Date }) {
+    return NextResponse.json(
+        {
+            error: 'This note was changed somewhere else',
+            code: 'conflict',
+            note: {
+                id: note.id,
+                title: note.title,
+                content: note.content,
+                updatedAt: note.updatedAt,
+            },
+        },
+        { status: 409, headers: { ETag: noteETag(note.updatedAt) } }
+    );
+}
+
 /**
  * GET /api/notes/[id]
  * 
@@ -60,10 +98,10 @@ export async function GET(
         const note = await prisma.note.findFirst({
             where: {
                 id,
-                notebook: { userId },
+                ...noteAccessWhere(userId),
             },
             include: {
-                notebook: { select: { id: true, name: true } },
+                notebook: { select: { id: true, name: true, ...notebookAccessSelect(userId) } },
                 tags: {
                     include: {
                         tag: { select: { id: true, name: true } },
@@ -98,7 +136,9 @@ export async function GET(
             cardColor: note.cardColor,
             content: note.content,
             originalEnml: note.originalEnml,
-            notebook: note.notebook,
+            notebookId: note.notebookId,
+            notebook: { id: note.notebook.id, name: note.notebook.name },
+            access: resolveNotebookAccess(userId, note.notebook),
             tags: note.tags.map((nt: { tag: { id: string; name: string } }) => nt.tag),
             attachments: note.attachments,
             sourceUrl: note.sourceUrl,
@@ -108,12 +148,14 @@ export async function GET(
             isTrash: note.isTrash,
             isFavorite: note.isFavorite,
             trashedAt: note.trashedAt,
+            reminderAt: note.reminderAt,
+            reminderDoneAt: note.reminderDoneAt,
             evernoteCreated: note.evernoteCreated,
             evernoteUpdated: note.evernoteUpdated,
             importedAt: note.importedAt,
             createdAt: note.createdAt,
             updatedAt: note.updatedAt,
-        });
+        }, { headers: { ETag: noteETag(note.updatedAt) } });
     } catch (error) {
         console.error('Error fetching note:', error);
         return NextResponse.json(
@@ -155,34 +197,42 @@ export async function PATCH(
             );
         }
 
-        // Check if note exists and belongs to user
-        const existing = await prisma.note.findFirst({
-            where: {
-                id,
-                notebook: { userId },
-            },
-        });
-
-        if (!existing) {
-            return NextResponse.json(
-                { error: 'Note not found' },
-                { status: 404 }
-            );
+        // Check the user may edit the note
+        const auth = await authorizeNote(userId, id, 'edit');
+        if (auth.status !== 'ok') {
+            return accessErrorResponse(auth, 'Note');
         }
 
-        const { title, icon, cardColor, content, notebookId, tags, addTags, removeTags, isTrash, isFavorite } = parseResult.data;
+        const { record: existing, ownerId } = auth;
 
-        // If changing notebook, verify new notebook belongs to user
-        if (notebookId && notebookId !== existing.notebookId) {
-            const notebook = await prisma.notebook.findFirst({
-                where: { id: notebookId, userId },
-            });
-            if (!notebook) {
+        const {
+            title, icon, cardColor, content, notebookId, tags, addTags, removeTags, isTrash, isFavorite,
+            reminderAt, reminderDone, baseUpdatedAt,
+        } = parseResult.data;
+
+        // Content saves must say which version they started from, so a stale
+        // tab can't overwrite newer content
+        if (content !== undefined) {
+            const baseVersion = parseBaseVersion(request.headers.get('if-match'), baseUpdatedAt);
+
+            if (!baseVersion) {
                 return NextResponse.json(
-                    { error: 'Notebook not found' },
-                    { status: 404 }
+                    { error: 'If-Match or baseUpdatedAt is required when updating content' },
+                    { status: 428 }
                 );
             }
+
+            if (!isSameVersion(existing.updatedAt, baseVersion) && content !== existing.content) {
+                return conflictResponse(existing);
+            }
+        }
+
+        // If changing notebook, verify the user may add notes to it
+        if (notebookId && notebookId !== existing.notebookId) {
+            const target = await authorizeNotebook(userId, notebookId, 'edit');
+            if (target.status !== 'ok') {
+                return accessErrorResponse(target, 'Notebook');
+            }
         }
 
         // Build update data
@@ -194,6 +244,9 @@ export async function PATCH(
         if (content !== undefined) {
             updateData.content = content;
             updateData.contentPlaintext = extractPlainText(content);
+            Object.assign(updateData, countTasks(content));
+            // The collaborative document is rebuilt from this content when next opened
+            updateData.collabState = null;
         }
         if (notebookId !== undefined) updateData.notebookId = notebookId;
         if (isTrash !== undefined) {
@@ -202,22 +255,74 @@ export async function PATCH(
             updateData.trashedAt = isTrash ? new Date() : null;
         }
         if (isFavorite !== undefined) updateData.isFavorite = isFavorite;
+        if (reminderAt !== undefined) {
+            // A new time re-arms the reminder so it is delivered again
+            updateData.reminderAt = reminderAt ? new Date(reminderAt) : null;
+            updateData.reminderDoneAt = null;
+            updateData.reminderSentAt = null;
+        }
+        if (reminderDone !== undefined) updateData.reminderDoneAt = reminderDone ? new Date() : null;
 
-        // Update note
-        const note = await prisma.note.update({
-            where: { id },
-            data: updateData,
-            include: {
-                notebook: { select: { id: true, name: true } },
-                tags: {
-                    include: {
-                        tag: { select: { id: true, name: true } },
-                    },
+        const noteInclude = {
+            notebook: { select: { id: true, name: true } },
+            tags: {
+                include: {
+                    tag: { select: { id: true, name: true } },
                 },
             },
-        });
+        } satisfies Prisma.NoteInclude;
+
+        // Update note. Content only lands on the version checked above, so a
+        // save from another client in between is a conflict, not overwritten.
+        const note = content !== undefined
+            ? await prisma.$transaction(async (tx) => {
+                const { count } = await tx.note.updateMany({
+                    where: { id, updatedAt: existing.updatedAt },
+                    data: updateData,
+                });
+                return count > 0 ? tx.note.findUniqueOrThrow({ where: { id }, include: noteInclude }) : null;
+            })
+            : await prisma.note.update({
+                where: { id },
+                data: updateData,
+                include: noteInclude,
+            });
+
+        if (!note) {
+            const current = await prisma.note.findUnique({
+                where: { id },
+                select: { id: true, title: true, content: true, updatedAt: true },
+            });
+            if (!current) {
+                return NextResponse.json(
+                    { error: 'Note not found' },
+                    { status: 404 }
+                );
+            }
+            return conflictResponse(current);
+        }
+
+        // Snapshot title/content changes into revision history
+        if (note.title !== existing.title || note.content !== existing.content) {
+            await recordRevision(id, note, { previous: existing });
+        }
+
+        // Keep the link graph, task index and link text in other notes current
+        if (note.content !== existing.content) {
+            await syncNoteLinks(id, ownerId, note.content);
+            await syncNoteTasks(id, note.content);
+        }
+        if (note.title !== existing.title) {
+            await updateLinkedTitles(id, note.title);
+        }
+
+        // Passages are embedded with the title, so both changes re-embed (after the response)
+        if (note.contentPlaintext !== existing.contentPlaintext || note.title !== existing.title) {
+            after(() => indexNoteEmbeddings(id));
+        }
 
         // Handle tags update if provided - OPTIMIZED: Batch operations instead of N+1 queries
+        // Tags always go in the notebook owner's tag list, also when a member edits
         if (tags !== undefined) {
             // Remove existing tags (single query)
             await prisma.noteTag.deleteMany({
@@ -230,8 +335,8 @@ export async function PATCH(
                 const tagRecords = await Promise.all(
                     tags.map(tagName =>
                         prisma.tag.upsert({
-                            where: { userId_name: { userId, name: tagName } },
-                            create: { name: tagName, userId },
+                            where: { userId_name: { userId: ownerId, name: tagName } },
+                            create: { name: tagName, userId: ownerId },
                             update: {},
                         })
                     )
@@ -254,8 +359,8 @@ export async function PATCH(
             const tagRecords = await Promise.all(
                 addTags.map(tagName =>
                     prisma.tag.upsert({
-                        where: { userId_name: { userId, name: tagName } },
-                        create: { name: tagName, userId },
+                        where: { userId_name: { userId: ownerId, name: tagName } },
+                        create: { name: tagName, userId: ownerId },
                         update: {},
                     })
                 )
@@ -297,8 +402,11 @@ export async function PATCH(
                 tags: updatedNoteTags.map((nt: { tag: { id: string; name: string } }) => nt.tag),
                 isTrash: note.isTrash,
                 isFavorite: note.isFavorite,
+                reminderAt: note.reminderAt,
+                reminderDoneAt: note.reminderDoneAt,
+                access: auth.access,
                 updatedAt: note.updatedAt,
-            });
+            }, { headers: { ETag: noteETag(note.updatedAt) } });
         }
 
         return NextResponse.json({
@@ -309,8 +417,11 @@ export async function PATCH(
             tags: note.tags.map((nt: { tag: { id: string; name: string } }) => nt.tag),
             isTrash: note.isTrash,
             isFavorite: note.isFavorite,
+            reminderAt: note.reminderAt,
+            reminderDoneAt: note.reminderDoneAt,
+            access: auth.access,
             updatedAt: note.updatedAt,
-        });
+        }, { headers: { ETag: noteETag(note.updatedAt) } });
     } catch (error) {
         console.error('Error updating note:', error);
         return NextResponse.json(
@@ -344,21 +455,14 @@ export async function DELETE(
         const { searchParams } = new URL(request.url);
         const permanent = searchParams.get('permanent') === 'true';
 
-        // Check if note exists and belongs to user
-        const existing = await prisma.note.findFirst({
-            where: {
-                id,
-                notebook: { userId },
-            },
-        });
-
-        if (!existing) {
-            return NextResponse.json(
-                { error: 'Note not found' },
-                { status: 404 }
-            );
+        // Check the user may delete the note
+        const auth = await authorizeNote(userId, id, 'edit');
+        if (auth.status !== 'ok') {
+            return accessErrorResponse(auth, 'Note');
         }
 
+        const existing = auth.record;
+
         if (permanent || existing.isTrash) {
             // Permanently delete note and all related data
             await prisma.attachment.deleteMany({
@@ -370,6 +474,7 @@ export async function DELETE(
             await prisma.note.delete({
                 where: { id },
             });
+            await recordDeletions(auth.ownerId, 'note', [id]);
 
             return NextResponse.json({ success: true, permanent: true });
         } else {
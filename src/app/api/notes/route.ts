@@ -4,13 +4,21 @@
  * CRUD operations for notes with filtering and pagination.
  */
 
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
+import type { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/db';
 import { z } from 'zod';
 import { getAuthUserId, ensureDbUser } from '@/lib/supabase/server';
+import { resolveNoteSearch, type NoteSearchHit } from '@/lib/search';
+import { extractNoteLinks, syncNoteLinks } from '@/lib/links';
+import { countTasks, syncNoteTasks } from '@/lib/tasks';
+import { indexNoteEmbeddings } from '@/lib/embeddings';
+import { accessErrorResponse, authorizeNotebook } from '@/lib/permissions';
 
 // Validation schemas
 const createNoteSchema = z.object({
+    // Notes created offline bring the ID they were given on the device
+    id: z.uuid().optional(),
     title: z.string().min(1).max(255),
     content: z.string(),
     notebookId: z.string(),
@@ -69,9 +77,14 @@ export async function GET(request: NextRequest) {
 
         const { notebookId, tagId, search, page, limit, sortBy, sortOrder, isTrash } = parseResult.data;
 
+        // A notebook shared with the user is listed (and searched) as its owner's
+        const notebookAuth = notebookId ? await authorizeNotebook(userId, notebookId, 'read') : null;
+        const ownerId = notebookAuth?.status === 'ok' ? notebookAuth.ownerId : userId;
+
         // Build where clause
-        const where: Record<string, unknown> = {
-            notebook: { userId },
+        let where: Prisma.NoteWhereInput = {
+            notebook: { userId: ownerId },
+            isTrash: isTrash === 'true', // Default to non-trashed
         };
 
         if (notebookId) {
@@ -84,25 +97,34 @@ export async function GET(request: NextRequest) {
             };
         }
 
-        if (search) {
-            where.OR = [
-                { title: { contains: search, mode: 'insensitive' } },
-                { contentPlaintext: { contains: search, mode: 'insensitive' } },
-            ];
-        }
+        // Search operators narrow the where clause; free text is ranked in the database
+        let searchHits: NoteSearchHit[] | null = null;
+        let total: number | null = null;
 
-        if (isTrash !== undefined) {
-            where.isTrash = isTrash === 'true';
-        } else {
-            where.isTrash = false; // Default to non-trashed
+        if (search) {
+            const resolved = await resolveNoteSearch({
+                userId: ownerId,
+                search,
+                where,
+                notebookId,
+                tagId,
+                isTrash: isTrash === 'true',
+                limit,
+                offset: (page - 1) * limit,
+            });
+            where = resolved.where;
+            searchHits = resolved.hits;
+            total = resolved.total;
         }
 
         // Count total for pagination
-        const total = await prisma.note.count({ where });
+        if (total === null) {
+            total = await prisma.note.count({ where });
+        }
 
         // Fetch notes with pagination
         const notes = await prisma.note.findMany({
-            where,
+            where: searchHits ? { id: { in: searchHits.map(hit => hit.id) } } : where,
             include: {
                 notebook: {
                     select: { id: true, name: true },
@@ -116,11 +138,22 @@ export async function GET(request: NextRequest) {
                     select: { attachments: true },
                 },
             },
-            orderBy: { [sortBy]: sortOrder },
-            skip: (page - 1) * limit,
-            take: limit,
+            ...(searchHits
+                ? {}
+                : {
+                    orderBy: { [sortBy]: sortOrder },
+                    skip: (page - 1) * limit,
+                    take: limit,
+                }),
         });
 
+        // Search results keep relevance order
+        if (searchHits) {
+            const order = new Map(searchHits.map((hit, index) => [hit.id, index]));
+            notes.sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0));
+        }
+        const hitsById = new Map(searchHits?.map(hit => [hit.id, hit]));
+
         // Transform notes for response
         const result = notes.map((note) => ({
             id: note.id,
@@ -128,11 +161,15 @@ export async function GET(request: NextRequest) {
             icon: note.icon,
             cardColor: note.cardColor,
             preview: note.contentPlaintext?.substring(0, 200) || '',
+            snippet: hitsById.get(note.id)?.snippet,
+            rank: hitsById.get(note.id)?.rank,
             notebook: note.notebook,
             tags: note.tags.map((nt: { tag: { id: string; name: string } }) => nt.tag),
             attachmentCount: note._count.attachments,
             isTrash: note.isTrash,
             isFavorite: note.isFavorite,
+            openTasks: note.openTasks,
+            completedTasks: note.completedTasks,
             createdAt: note.createdAt,
             updatedAt: note.updatedAt,
         }));
@@ -183,17 +220,23 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        const { title, content, notebookId, tags } = parseResult.data;
+        const { id, title, content, notebookId, tags } = parseResult.data;
 
-        // Verify notebook belongs to user
-        const notebook = await prisma.notebook.findFirst({
-            where: { id: notebookId, userId },
-        });
+        // Verify the user may add notes to the notebook
+        const auth = await authorizeNotebook(userId, notebookId, 'edit');
+        if (auth.status !== 'ok') {
+            return accessErrorResponse(auth, 'Notebook');
+        }
+
+        // Tags on shared notebooks go in the owner's tag list
+        const { ownerId } = auth;
 
-        if (!notebook) {
+        // A note created offline may already have been sent before the
+        // connection dropped again
+        if (id && await prisma.note.findUnique({ where: { id }, select: { id: true } })) {
             return NextResponse.json(
-                { error: 'Notebook not found' },
-                { status: 404 }
+                { error: 'A note with this ID already exists' },
+                { status: 409 }
             );
         }
 
@@ -203,17 +246,19 @@ export async function POST(request: NextRequest) {
         // Create note with tags
         const note = await prisma.note.create({
             data: {
+                id,
                 title,
                 content,
                 contentPlaintext,
+                ...countTasks(content),
                 notebookId,
                 tags: tags && tags.length > 0 ? {
                     create: await Promise.all(
                         tags.map(async (tagName) => {
                             // Get or create tag
                             const tag = await prisma.tag.upsert({
-                                where: { userId_name: { userId, name: tagName } },
-                                create: { name: tagName, userId },
+                                where: { userId_name: { userId: ownerId, name: tagName } },
+                                create: { name: tagName, userId: ownerId },
                                 update: {},
                             });
                             return { tagId: tag.id };
@@ -231,6 +276,21 @@ export async function POST(request: NextRequest) {
             },
         });
 
+        // Record [[links]] (e.g. from a template or pasted content)
+        if (extractNoteLinks(note.content).length > 0) {
+            await syncNoteLinks(note.id, ownerId, note.content);
+        }
+
+        // Index checklist items for the task inbox
+        if (note.openTasks + note.completedTasks > 0) {
+            await syncNoteTasks(note.id, note.content);
+        }
+
+        // Embed passages for search by meaning once the response is sent
+        if (note.contentPlaintext) {
+            after(() => indexNoteEmbeddings(note.id));
+        }
+
         return NextResponse.json({
             id: note.id,
             title: note.title,
@@ -7,6 +7,7 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { createClient } from '@/lib/supabase/server';
+import { recordDeletions } from '@/lib/sync';
 
 /**
  * Helper to get authenticated user ID from session
@@ -60,6 +61,7 @@ export async function DELETE() {
         const result = await prisma.note.deleteMany({
             where: { id: { in: noteIds } },
         });
+        await recordDeletions(userId, 'note', noteIds);
 
         return NextResponse.json({
             success: true,
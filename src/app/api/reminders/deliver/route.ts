@@ -0,0 +1,45 @@
+/**
+ * Reminder Delivery API Route
+ *
+ * Cron endpoint that emails note reminders once they come due, through the
+ * provider selected by EMAIL_PROVIDER.
+ */
+
+import { NextResponse } from 'next/server';
+import { deliverDueReminders } from '@/lib/reminders';
+import { getEmailProvider } from '@/lib/email';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+/**
+ * GET /api/reminders/deliver
+ *
+ * Send due reminders. Called by Vercel Cron; requires
+ * `Authorization: Bearer $CRON_SECRET` when CRON_SECRET is set.
+ */
+export async function GET(request: Request) {
+    try {
+        const authHeader = request.headers.get('authorization');
+        const cronSecret = process.env.CRON_SECRET;
+
+        if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const result = await deliverDueReminders();
+
+        return NextResponse.json({
+            success: result.failed === 0,
+            provider: getEmailProvider(),
+            sent: result.sent,
+            failed: result.failed,
+        });
+    } catch (error) {
+        console.error('Error delivering reminders:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to deliver reminders' },
+            { status: 500 }
+        );
+    }
+}
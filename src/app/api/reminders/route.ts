@@ -0,0 +1,47 @@
+/**
+ * Reminders API Route
+ *
+ * The user's pending note reminders, for in-app notifications.
+ */
+
+import { NextResponse } from 'next/server';
+import { getAuthUserId } from '@/lib/supabase/server';
+import { listReminders } from '@/lib/reminders';
+
+/**
+ * GET /api/reminders
+ *
+ * List reminders that aren't done yet, soonest first. Due ones include
+ * those already emailed, so they stay visible until marked done.
+ */
+export async function GET() {
+    try {
+        const userId = await getAuthUserId();
+
+        if (!userId) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const reminders = await listReminders(userId);
+
+        return NextResponse.json({
+            reminders: reminders.map(note => ({
+                noteId: note.id,
+                title: note.title,
+                icon: note.icon,
+                notebook: note.notebook,
+                reminderAt: note.reminderAt,
+                emailed: note.reminderSentAt !== null,
+            })),
+        });
+    } catch (error) {
+        console.error('Error listing reminders:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to list reminders' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,133 @@
+/**
+ * Individual Saved Search API Route
+ * 
+ * Update and delete operations for a specific saved search.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { z } from 'zod';
+import { getAuthUserId } from '@/lib/supabase/server';
+import { NOTE_SEARCH_SORTS, serializeSavedSearch } from '@/lib/search';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+const updateSavedSearchSchema = z.object({
+    name: z.string().min(1).max(100).optional(),
+    query: z.string().trim().min(1).max(1000).optional(),
+    sort: z.enum(NOTE_SEARCH_SORTS).optional(),
+    icon: z.string().max(10).nullable().optional(),
+});
+
+/**
+ * PATCH /api/saved-searches/[id]
+ * 
+ * Rename a saved search or change its query, sort or icon.
+ */
+export async function PATCH(
+    request: NextRequest,
+    { params }: RouteParams
+) {
+    try {
+        const userId = await getAuthUserId();
+
+        if (!userId) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+        const body = await request.json();
+
+        // Validate input
+        const parseResult = updateSavedSearchSchema.safeParse(body);
+        if (!parseResult.success) {
+            return NextResponse.json(
+                { error: 'Invalid input', details: parseResult.error.flatten() },
+                { status: 400 }
+            );
+        }
+
+        // Check if saved search exists and belongs to user
+        const existing = await prisma.savedSearch.findFirst({
+            where: { id, userId },
+        });
+
+        if (!existing) {
+            return NextResponse.json(
+                { error: 'Saved search not found' },
+                { status: 404 }
+            );
+        }
+
+        const { name, query, sort, icon } = parseResult.data;
+
+        const savedSearch = await prisma.savedSearch.update({
+            where: { id },
+            data: {
+                ...(name !== undefined && { name }),
+                ...(query !== undefined && { query }),
+                ...(sort !== undefined && { sort }),
+                ...(icon !== undefined && { icon }),
+            },
+        });
+
+        return NextResponse.json(await serializeSavedSearch(savedSearch));
+    } catch (error) {
+        console.error('Error updating saved search:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to update saved search' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * DELETE /api/saved-searches/[id]
+ * 
+ * Delete a saved search. Notes are not affected.
+ */
+export async function DELETE(
+    _request: NextRequest,
+    { params }: RouteParams
+) {
+    try {
+        const userId = await getAuthUserId();
+
+        if (!userId) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+
+        const existing = await prisma.savedSearch.findFirst({
+            where: { id, userId },
+        });
+
+        if (!existing) {
+            return NextResponse.json(
+                { error: 'Saved search not found' },
+                { status: 404 }
+            );
+        }
+
+        await prisma.savedSearch.delete({
+            where: { id },
+        });
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Error deleting saved search:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to delete saved search' },
+            { status: 500 }
+        );
+    }
+}
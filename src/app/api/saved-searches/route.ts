@@ -0,0 +1,101 @@
+/**
+ * Saved Searches API Route
+ * 
+ * List and create saved searches.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { z } from 'zod';
+import { ensureDbUser, getAuthUserId } from '@/lib/supabase/server';
+import { NOTE_SEARCH_SORTS, serializeSavedSearch } from '@/lib/search';
+
+// Validation schemas
+const createSavedSearchSchema = z.object({
+    name: z.string().min(1).max(100),
+    query: z.string().trim().min(1).max(1000),
+    sort: z.enum(NOTE_SEARCH_SORTS).default('relevance'),
+    icon: z.string().max(10).nullable().optional(),
+});
+
+/**
+ * GET /api/saved-searches
+ * 
+ * List saved searches with the number of notes each currently matches.
+ */
+export async function GET() {
+    try {
+        const userId = await getAuthUserId();
+
+        if (!userId) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const savedSearches = await prisma.savedSearch.findMany({
+            where: { userId },
+            orderBy: { name: 'asc' },
+        });
+
+        const result = await Promise.all(savedSearches.map(serializeSavedSearch));
+
+        return NextResponse.json({ savedSearches: result });
+    } catch (error) {
+        console.error('Error listing saved searches:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to list saved searches' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/saved-searches
+ * 
+ * Save a search.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const userId = await ensureDbUser();
+
+        if (!userId) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json();
+
+        // Validate input
+        const parseResult = createSavedSearchSchema.safeParse(body);
+        if (!parseResult.success) {
+            return NextResponse.json(
+                { error: 'Invalid input', details: parseResult.error.flatten() },
+                { status: 400 }
+            );
+        }
+
+        const { name, query, sort, icon } = parseResult.data;
+
+        const savedSearch = await prisma.savedSearch.create({
+            data: {
+                name,
+                query,
+                sort,
+                icon: icon || null,
+                userId,
+            },
+        });
+
+        return NextResponse.json(await serializeSavedSearch(savedSearch), { status: 201 });
+    } catch (error) {
+        console.error('Error creating saved search:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to create saved search' },
+            { status: 500 }
+        );
+    }
+}
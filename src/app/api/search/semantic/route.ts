@@ -0,0 +1,116 @@
+/**
+ * Semantic Search API Route
+ *
+ * Finds notes by meaning rather than keywords, using passage embeddings.
+ * Each result carries its closest passage as a highlighted snippet.
+ */
+
+import { NextRequest, NextResponse, after } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/db';
+import { getAuthUserId } from '@/lib/supabase/server';
+import { AIError, aiErrorResponse, isAIAvailable } from '@/lib/ai';
+import { indexMissingEmbeddings, searchNotesByMeaning } from '@/lib/embeddings';
+import { HIGHLIGHT_END, HIGHLIGHT_START } from '@/lib/search';
+import { accessErrorResponse, authorizeNotebook } from '@/lib/permissions';
+
+const semanticSearchQuerySchema = z.object({
+    q: z.string().trim().min(1).max(500),
+    notebookId: z.string().optional(),
+    tagId: z.string().optional(),
+    limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+/**
+ * GET /api/search/semantic
+ *
+ * Rank notes by how close their passages are in meaning to `q`.
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const userId = await getAuthUserId();
+
+        if (!userId) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        if (!isAIAvailable()) {
+            return aiErrorResponse(new AIError('not_configured'));
+        }
+
+        const { searchParams } = new URL(request.url);
+
+        const parseResult = semanticSearchQuerySchema.safeParse({
+            q: searchParams.get('q') ?? '',
+            notebookId: searchParams.get('notebookId') || undefined,
+            tagId: searchParams.get('tagId') || undefined,
+            limit: searchParams.get('limit') || undefined,
+        });
+        if (!parseResult.success) {
+            return NextResponse.json(
+                { error: 'Invalid query parameters', details: parseResult.error.flatten() },
+                { status: 400 }
+            );
+        }
+
+        const { q, notebookId, tagId, limit } = parseResult.data;
+
+        // A notebook shared with the user is searched as its owner's
+        let ownerId = userId;
+        if (notebookId) {
+            const notebookAuth = await authorizeNotebook(userId, notebookId, 'read');
+            if (notebookAuth.status !== 'ok') {
+                return accessErrorResponse(notebookAuth, 'Notebook');
+            }
+            ownerId = notebookAuth.ownerId;
+        }
+
+        const hits = await searchNotesByMeaning({ userId: ownerId, query: q, notebookId, tagId, limit });
+
+        // Embed notes that were imported or saved before AI was set up
+        after(() => indexMissingEmbeddings(ownerId));
+
+        const notes = await prisma.note.findMany({
+            where: { id: { in: hits.map(hit => hit.id) } },
+            include: {
+                notebook: { select: { id: true, name: true } },
+                tags: {
+                    include: {
+                        tag: { select: { id: true, name: true } },
+                    },
+                },
+            },
+        });
+        const notesById = new Map(notes.map(note => [note.id, note]));
+
+        const result = hits.flatMap((hit) => {
+            const note = notesById.get(hit.id);
+            if (!note) return [];
+            return [{
+                id: note.id,
+                title: note.title,
+                icon: note.icon,
+                cardColor: note.cardColor,
+                preview: note.contentPlaintext?.substring(0, 200) || '',
+                snippet: `${HIGHLIGHT_START}${hit.passage}${HIGHLIGHT_END}`,
+                rank: hit.score,
+                notebook: note.notebook,
+                tags: note.tags.map((nt: { tag: { id: string; name: string } }) => nt.tag),
+                isTrash: note.isTrash,
+                isFavorite: note.isFavorite,
+                openTasks: note.openTasks,
+                completedTasks: note.completedTasks,
+                createdAt: note.createdAt,
+                updatedAt: note.updatedAt,
+            }];
+        });
+
+        return NextResponse.json({ notes: result });
+    } catch (error) {
+        console.error('Error searching notes by meaning:', error);
+        return aiErrorResponse(error, 'Failed to search notes');
+    }
+}
@@ -0,0 +1,53 @@
+/**
+ * Share Link API Route
+ *
+ * Revoke a public share link.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUserId } from '@/lib/supabase/server';
+import { revokeShareLink, serializeShareLink } from '@/lib/sharing';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * DELETE /api/share-links/[id]
+ *
+ * Revoke a link. The record is kept so its view count stays visible, but
+ * the URL stops working immediately.
+ */
+export async function DELETE(
+    _request: NextRequest,
+    { params }: RouteParams
+) {
+    try {
+        const userId = await getAuthUserId();
+
+        if (!userId) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+        const link = await revokeShareLink(userId, id);
+
+        if (!link) {
+            return NextResponse.json(
+                { error: 'Share link not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json(serializeShareLink(link));
+    } catch (error) {
+        console.error('Error revoking share link:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to revoke share link' },
+            { status: 500 }
+        );
+    }
+}
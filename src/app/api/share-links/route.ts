@@ -0,0 +1,125 @@
+/**
+ * Share Links API Route
+ *
+ * Create and list public read-only links to a note or notebook.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getAuthUserId } from '@/lib/supabase/server';
+import { SHARE_PASSWORD_MIN_LENGTH, createShareLink, listShareLinks, serializeShareLink, type ShareTarget } from '@/lib/sharing';
+
+const targetSchema = z.object({
+    noteId: z.string().min(1).optional(),
+    notebookId: z.string().min(1).optional(),
+}).refine(data => !data.noteId !== !data.notebookId, {
+    message: 'Provide either noteId or notebookId',
+});
+
+const createShareLinkSchema = targetSchema.and(z.object({
+    password: z.string().min(SHARE_PASSWORD_MIN_LENGTH).max(128).optional(),
+    expiresAt: z.iso.datetime({ offset: true }).nullable().optional(),
+}));
+
+function toTarget({ noteId, notebookId }: z.infer<typeof targetSchema>): ShareTarget {
+    return noteId ? { noteId } : { notebookId: notebookId! };
+}
+
+/**
+ * GET /api/share-links?noteId=... | ?notebookId=...
+ *
+ * List the user's links to a note or notebook, newest first.
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const userId = await getAuthUserId();
+
+        if (!userId) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const { searchParams } = new URL(request.url);
+        const parseResult = targetSchema.safeParse({
+            noteId: searchParams.get('noteId') || undefined,
+            notebookId: searchParams.get('notebookId') || undefined,
+        });
+
+        if (!parseResult.success) {
+            return NextResponse.json(
+                { error: 'Invalid query parameters', details: parseResult.error.flatten() },
+                { status: 400 }
+            );
+        }
+
+        const links = await listShareLinks(userId, toTarget(parseResult.data));
+
+        return NextResponse.json({ links: links.map(serializeShareLink) });
+    } catch (error) {
+        console.error('Error listing share links:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to list share links' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/share-links
+ *
+ * Create a link to a note (`noteId`) or notebook (`notebookId`), optionally
+ * protected by `password` and expiring at `expiresAt`.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const userId = await getAuthUserId();
+
+        if (!userId) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json();
+        const parseResult = createShareLinkSchema.safeParse(body);
+
+        if (!parseResult.success) {
+            return NextResponse.json(
+                { error: 'Invalid input', details: parseResult.error.flatten() },
+                { status: 400 }
+            );
+        }
+
+        const { password, expiresAt } = parseResult.data;
+        if (expiresAt && new Date(expiresAt) <= new Date()) {
+            return NextResponse.json(
+                { error: 'Expiry must be in the future' },
+                { status: 400 }
+            );
+        }
+
+        const target = toTarget(parseResult.data);
+        const link = await createShareLink(userId, target, {
+            password,
+            expiresAt: expiresAt ? new Date(expiresAt) : null,
+        });
+
+        if (!link) {
+            return NextResponse.json(
+                { error: 'noteId' in target ? 'Note not found' : 'Notebook not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json(serializeShareLink(link), { status: 201 });
+    } catch (error) {
+        console.error('Error creating share link:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to create share link' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,104 @@
+/**
+ * Share Link Unlock API Route
+ *
+ * Checks the password of a protected share link and grants the visitor's
+ * browser access with a cookie scoped to the link's page. Repeated wrong
+ * passwords are throttled per link and per visitor IP.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+    checkUnlockThrottle,
+    clearUnlockFailures,
+    recordUnlockFailure,
+    resolveShareLink,
+    verifySharePassword,
+    visitorIp,
+    shareAccessKey,
+    shareCookieName,
+} from '@/lib/sharing';
+
+interface RouteParams {
+    params: Promise<{ token: string }>;
+}
+
+const unlockSchema = z.object({
+    password: z.string().min(1).max(128),
+});
+
+// Access lasts a week, or until the link expires if that's sooner
+const ACCESS_MAX_AGE = 7 * 24 * 60 * 60;
+
+/**
+ * POST /api/share/[token]/unlock
+ *
+ * Unlock a password-protected link. No sign-in is required.
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: RouteParams
+) {
+    try {
+        const { token } = await params;
+        const body = await request.json();
+
+        const parseResult = unlockSchema.safeParse(body);
+        if (!parseResult.success) {
+            return NextResponse.json(
+                { error: 'Invalid input', details: parseResult.error.flatten() },
+                { status: 400 }
+            );
+        }
+
+        const lookup = await resolveShareLink(token);
+        if (lookup.status !== 'ok' || !lookup.link.passwordHash) {
+            return NextResponse.json(
+                { error: 'Share link not found' },
+                { status: 404 }
+            );
+        }
+
+        const { link } = lookup;
+        const passwordHash = link.passwordHash!;
+        const ipAddress = visitorIp(request.headers);
+
+        const retryAfter = await checkUnlockThrottle(link.id, ipAddress);
+        if (retryAfter > 0) {
+            return NextResponse.json(
+                { error: 'Too many attempts. Try again later.' },
+                { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+            );
+        }
+
+        if (!(await verifySharePassword(parseResult.data.password, passwordHash))) {
+            await recordUnlockFailure(link.id, ipAddress);
+            return NextResponse.json(
+                { error: 'Incorrect password' },
+                { status: 403 }
+            );
+        }
+        await clearUnlockFailures(link.id, ipAddress);
+
+        const secondsLeft = link.expiresAt
+            ? Math.floor((link.expiresAt.getTime() - Date.now()) / 1000)
+            : ACCESS_MAX_AGE;
+
+        const response = NextResponse.json({ success: true });
+        response.cookies.set(shareCookieName(token), shareAccessKey(token, passwordHash), {
+            httpOnly: true,
+            secure: process.env.NODE_ENV === 'production',
+            sameSite: 'lax',
+            path: `/s/${token}`,
+            maxAge: Math.max(1, Math.min(ACCESS_MAX_AGE, secondsLeft)),
+        });
+
+        return response;
+    } catch (error) {
+        console.error('Error unlocking share link:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to unlock share link' },
+            { status: 500 }
+        );
+    }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { getAuthUserId } from '@/lib/supabase/server';
+import { recordDeletions } from '@/lib/sync';
 import { z } from 'zod';
 
 const updateStackSchema = z.object({
@@ -94,6 +95,7 @@ export async function DELETE(_request: NextRequest, { params }: RouteParams) {
         await prisma.stack.delete({
             where: { id },
         });
+        await recordDeletions(userId, 'stack', [id]);
 
         return NextResponse.json({ success: true });
     } catch (error) {
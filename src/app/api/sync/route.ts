@@ -0,0 +1,79 @@
+/**
+ * Sync API Route
+ *
+ * Incremental changes to the user's notes, notebooks, stacks, tags and
+ * attachments, for clients that keep a local replica.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getAuthUserId } from '@/lib/supabase/server';
+import {
+    decodeSyncCursor,
+    encodeSyncCursor,
+    getSyncChanges,
+    MAX_SYNC_PAGE_SIZE,
+    SYNC_PAGE_SIZE,
+} from '@/lib/sync';
+
+const syncQuerySchema = z.object({
+    cursor: z.string().max(512).optional(),
+    limit: z.coerce.number().int().min(1).max(MAX_SYNC_PAGE_SIZE).default(SYNC_PAGE_SIZE),
+});
+
+/**
+ * GET /api/sync
+ *
+ * Without a `cursor`, starts a full sync: `reset` is true and the pages
+ * that follow hold every record. With the `cursor` from a previous
+ * response, returns only what was created, updated or permanently deleted
+ * since. Notes come `limit` at a time; keep passing the returned `cursor`
+ * while `hasMore` is true, then store it for the next sync. Apply records
+ * by id, then remove the ids in `deleted`.
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const userId = await getAuthUserId();
+
+        if (!userId) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const { searchParams } = new URL(request.url);
+
+        const parseResult = syncQuerySchema.safeParse({
+            cursor: searchParams.get('cursor') || undefined,
+            limit: searchParams.get('limit') || undefined,
+        });
+
+        if (!parseResult.success) {
+            return NextResponse.json(
+                { error: 'Invalid query parameters', details: parseResult.error.flatten() },
+                { status: 400 }
+            );
+        }
+
+        const { cursor: cursorParam, limit } = parseResult.data;
+        const cursor = cursorParam ? decodeSyncCursor(cursorParam) : {};
+
+        if (!cursor) {
+            return NextResponse.json(
+                { error: 'Invalid sync cursor', code: 'invalid_cursor' },
+                { status: 400 }
+            );
+        }
+
+        const changes = await getSyncChanges(userId, cursor, limit);
+
+        return NextResponse.json({ ...changes, cursor: encodeSyncCursor(changes.cursor) });
+    } catch (error) {
+        console.error('Error syncing changes:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to sync changes' },
+            { status: 500 }
+        );
+    }
+}
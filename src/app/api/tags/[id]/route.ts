@@ -8,6 +8,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { z } from 'zod';
 import { createClient } from '@/lib/supabase/server';
+import { noteAccessWhere } from '@/lib/permissions';
+import { recordDeletions } from '@/lib/sync';
 
 interface RouteParams {
     params: Promise<{ id: string }>;
@@ -66,7 +68,7 @@ export async function GET(
                         },
                     },
                     where: {
-                        note: { isTrash: false },
+                        note: { isTrash: false, ...noteAccessWhere(userId) },
                     },
                 },
                 _count: {
@@ -234,6 +236,7 @@ export async function DELETE(
         await prisma.tag.delete({
             where: { id },
         });
+        await recordDeletions(userId, 'tag', [id]);
 
         return NextResponse.json({ success: true });
     } catch (error) {
@@ -0,0 +1,73 @@
+/**
+ * Individual Task API Route
+ *
+ * Checks off or reschedules a task by editing the note it comes from.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getAuthUserId } from '@/lib/supabase/server';
+import { DUE_DATE_PATTERN, serializeTask, updateTask } from '@/lib/tasks';
+
+interface RouteParams {
+    params: Promise<{ id: string }>;
+}
+
+const updateTaskSchema = z.object({
+    checked: z.boolean().optional(),
+    dueDate: z.string().regex(DUE_DATE_PATTERN).nullable().optional(),
+}).refine(data => data.checked !== undefined || data.dueDate !== undefined, {
+    message: 'Nothing to update',
+});
+
+/**
+ * PATCH /api/tasks/[id]
+ *
+ * Update a task's checked state or due date. The change is written into the
+ * source note's HTML; returns 409 if the note changed since it was indexed.
+ */
+export async function PATCH(
+    request: NextRequest,
+    { params }: RouteParams
+) {
+    try {
+        const userId = await getAuthUserId();
+
+        if (!userId) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+        const body = await request.json();
+
+        const parseResult = updateTaskSchema.safeParse(body);
+        if (!parseResult.success) {
+            return NextResponse.json(
+                { error: 'Invalid input', details: parseResult.error.flatten() },
+                { status: 400 }
+            );
+        }
+
+        const result = await updateTask(userId, id, parseResult.data);
+
+        if ('error' in result) {
+            return result.error === 'not-found'
+                ? NextResponse.json({ error: 'Task not found' }, { status: 404 })
+                : NextResponse.json(
+                    { error: 'The note was edited since this task was loaded. Refresh and try again.' },
+                    { status: 409 }
+                );
+        }
+
+        return NextResponse.json(serializeTask(result.task));
+    } catch (error) {
+        console.error('Error updating task:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to update task' },
+            { status: 500 }
+        );
+    }
+}
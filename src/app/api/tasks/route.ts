@@ -0,0 +1,68 @@
+/**
+ * Tasks API Route
+ *
+ * Checklist items from all of the user's notes, for the task inbox.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getAuthUserId } from '@/lib/supabase/server';
+import { DUE_DATE_PATTERN, listTasks, serializeTask } from '@/lib/tasks';
+
+const listTasksQuerySchema = z.object({
+    status: z.enum(['open', 'completed', 'all']).default('open'),
+    overdue: z.enum(['true', 'false']).optional(),
+    notebookId: z.string().optional(),
+    tagId: z.string().optional(),
+    today: z.string().regex(DUE_DATE_PATTERN).optional(),
+    limit: z.coerce.number().int().min(1).max(500).default(200),
+});
+
+/**
+ * GET /api/tasks
+ *
+ * List tasks, soonest due first. Filter with `status` (open, completed, all),
+ * `overdue=true`, `notebookId` and `tagId`. Pass `today` as the user's local
+ * date so overdue matches their calendar.
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const userId = await getAuthUserId();
+
+        if (!userId) {
+            return NextResponse.json(
+                { error: 'Authentication required' },
+                { status: 401 }
+            );
+        }
+
+        const { searchParams } = new URL(request.url);
+
+        const parseResult = listTasksQuerySchema.safeParse({
+            status: searchParams.get('status') || undefined,
+            overdue: searchParams.get('overdue') || undefined,
+            notebookId: searchParams.get('notebookId') || undefined,
+            tagId: searchParams.get('tagId') || undefined,
+            today: searchParams.get('today') || undefined,
+            limit: searchParams.get('limit') || undefined,
+        });
+
+        if (!parseResult.success) {
+            return NextResponse.json(
+                { error: 'Invalid query parameters', details: parseResult.error.flatten() },
+                { status: 400 }
+            );
+        }
+
+        const { overdue, ...filters } = parseResult.data;
+        const tasks = await listTasks(userId, { ...filters, overdue: overdue === 'true' });
+
+        return NextResponse.json({ tasks: tasks.map(serializeTask) });
+    } catch (error) {
+        console.error('Error fetching tasks:', error);
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Failed to fetch tasks' },
+            { status: 500 }
+        );
+    }
+}
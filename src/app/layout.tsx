@@ -5,6 +5,7 @@ import "./globals.css";
 import { AuthProvider } from "@/components/providers/AuthProvider";
 import { ThemeProvider } from "@/components/providers/ThemeProvider";
 import { UserThemeProvider } from "@/components/providers/UserThemeProvider";
+import { ServiceWorkerRegistration } from "@/components/providers/ServiceWorkerRegistration";
 import { Analytics } from "@vercel/analytics/react";
 
 const lufga = localFont({
@@ -154,6 +155,7 @@ export default function RootLayout({
             </UserThemeProvider>
           </AuthProvider>
         </ThemeProvider>
+        <ServiceWorkerRegistration />
         <Analytics />
       </body>
     </html>
@@ -4,17 +4,27 @@ import { useState, useCallback, useEffect, useMemo } from 'react';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { NotesList } from '@/components/notes/NotesList';
 import { NotebooksList } from '@/components/notebooks/NotebooksList';
+import { NotebookMembersModal } from '@/components/notebooks/NotebookMembersModal';
 import { TrashView } from '@/components/trash/TrashView';
+import { TasksView } from '@/components/tasks/TasksView';
+import { ReminderToasts } from '@/components/reminders/ReminderToasts';
+import { OfflineStatus } from '@/components/layout/OfflineStatus';
 import { NoteEditor } from '@/components/notes/NoteEditor';
 import { ImportModal } from '@/components/import/ImportModal';
 import { AISummaryPanel } from '@/components/ai/AISummaryPanel';
-import { useAppData, useAppDataMutations, type AppData } from '@/hooks/useAppData';
+import { useAppData, useAppDataMutations, type AppData, type SavedSearch } from '@/hooks/useAppData';
+import { useSavedSearchActions } from '@/hooks/useSavedSearches';
 import { useNoteSWR, useCreateNoteSWR } from '@/hooks/useNoteSWR';
 import { useNotebookActions } from '@/hooks/useNotebooks';
 import { useTagActions, useTags } from '@/hooks/useTags';
 import { useToggleFavorite } from '@/hooks/useNotes';
 import { useAISummary } from '@/hooks/useAISummary';
+import { useAIChat } from '@/hooks/useAIChat';
 import { useSmartTags } from '@/hooks/useSmartTags';
+import { useNoteSearch } from '@/hooks/useNoteSearch';
+import { useReminders } from '@/hooks/useReminders';
+import { useOfflineSync } from '@/hooks/useOfflineSync';
+import { useAuth } from '@/components/providers/AuthProvider';
 import { Modal } from '@/components/ui/Modal';
 import { Input } from '@/components/ui/Input';
 
@@ -30,21 +40,29 @@ export default function Home() {
   const [showNewNotebookModal, setShowNewNotebookModal] = useState(false);
   const [newNotebookName, setNewNotebookName] = useState('');
   const [searchQuery, setSearchQuery] = useState('');
+  const [semanticSearch, setSemanticSearch] = useState(false);
+  const [selectedSavedSearch, setSelectedSavedSearch] = useState<SavedSearch | null>(null);
+  const [showSaveSearchModal, setShowSaveSearchModal] = useState(false);
+  const [saveSearchName, setSaveSearchName] = useState('');
   const [showTrash, setShowTrash] = useState(false);
   const [showTrashView, setShowTrashView] = useState(false);
+  const [showTasksView, setShowTasksView] = useState(false);
   const [mobileShowEditor, setMobileShowEditor] = useState(false);
   const [showNotebooksView, setShowNotebooksView] = useState(false);
   const [selectedNotebookInGrid, setSelectedNotebookInGrid] = useState<string | null>(null); // For notebooks view split mode
   const [selectedStackId, setSelectedStackId] = useState<string | null>(null); // For stacks view
   const [trashCount, setTrashCount] = useState(0);
   const [newNotebookStackId, setNewNotebookStackId] = useState<string | null>(null);
+  const [membersNotebookId, setMembersNotebookId] = useState<string | null>(null); // Notebook whose sharing settings are open
 
   // Optimized hooks with SWR caching
   // When showing notebooks view, fetch all notes (not filtered by notebook) for previews
-  const { notebooks, stacks, tags, notes, trashCount: appTrashCount, loading: appDataLoading, refetch: refetchAppData } = useAppData({
+  const { notebooks, stacks, tags, notes, trashCount: appTrashCount, savedSearches, sharedNotebooks, loading: appDataLoading, refetch: refetchAppData } = useAppData({
     notebookId: showNotebooksView ? null : selectedNotebookId,
     tagId: selectedTagId,
     isTrash: showTrash,
+    search: selectedSavedSearch?.query,
+    sort: selectedSavedSearch?.sort,
   });
 
   // Sync trashCount from SWR cache (eliminates the separate /api/notes?isTrash=true fetch)
@@ -75,6 +93,7 @@ export default function Home() {
   } = useAppDataMutations(currentAppData);
   const { createNotebook, deleteNotebook, loading: creatingNotebook } = useNotebookActions();
   const { deleteTag } = useTagActions();
+  const { createSavedSearch, deleteSavedSearch, loading: savingSearch } = useSavedSearchActions();
   const { tags: allAvailableTags, refetch: refetchTags } = useTags();
   const smartTags = useSmartTags();
   const { createNote } = useCreateNoteSWR();
@@ -111,17 +130,35 @@ export default function Home() {
     deleteNote,
     restoreNote,
     refetch: refetchNote,
+    conflict: noteConflict,
+    resolveConflict,
   } = useNoteSWR(selectedNoteId);
 
-  // Filter notes by search query (client-side for instant results)
+  // Pending reminders, polled for in-app notifications
+  const { reminders, updateReminder } = useReminders();
+
+  // Changes made offline, sent when the connection comes back
+  const { user } = useAuth();
+  const offlineSync = useOfflineSync(user?.id ?? null);
+
+  // Ranked full-text (or similar meaning) search with highlighted snippets (server-side)
+  const { results: searchResults, error: searchError } = useNoteSearch(searchQuery, {
+    notebookId: showNotebooksView ? null : selectedNotebookId,
+    tagId: selectedTagId,
+    isTrash: showTrash,
+    semantic: semanticSearch,
+  });
+
+  // Filter notes by search query (client-side for instant results until ranked results arrive)
   const filteredNotes = useMemo(() => {
     if (!searchQuery.trim()) return notes;
+    if (searchResults) return searchResults;
     const query = searchQuery.toLowerCase();
     return notes.filter(note =>
       note.title.toLowerCase().includes(query) ||
       note.preview.toLowerCase().includes(query)
     );
-  }, [notes, searchQuery]);
+  }, [notes, searchQuery, searchResults]);
 
   // Memoized notes for NotesList to prevent unnecessary re-renders
   const mappedNotes = useMemo(() =>
@@ -131,10 +168,13 @@ export default function Home() {
       icon: n.icon,
       cardColor: n.cardColor,
       preview: n.preview,
+      snippet: n.snippet,
       updatedAt: n.updatedAt,
       tags: n.tags,
       isTrash: n.isTrash,
       isFavorite: n.isFavorite, // For favorites filtering
+      openTasks: n.openTasks,
+      completedTasks: n.completedTasks,
       notebookId: n.notebookId, // For notebook previews
     })),
     [filteredNotes]
@@ -148,6 +188,8 @@ export default function Home() {
       icon: nb.icon,
       cardColor: nb.cardColor,
       noteCount: nb.noteCount,
+      openTasks: nb.openTasks,
+      completedTasks: nb.completedTasks,
       isDefault: nb.isDefault,
       isPinned: nb.isPinned,
       stackId: nb.stackId,
@@ -155,6 +197,18 @@ export default function Home() {
     [notebooks]
   );
 
+  // Selected notebook when it's one someone else shared with the user
+  const selectedSharedNotebook = useMemo(() =>
+    sharedNotebooks.find((nb) => nb.id === selectedNotebookId),
+    [sharedNotebooks, selectedNotebookId]
+  );
+
+  // Unchecked checklist items across notebooks, for the sidebar's Tasks entry
+  const openTaskCount = useMemo(() =>
+    notebooks.reduce((total, nb) => total + (nb.openTasks ?? 0), 0),
+    [notebooks]
+  );
+
   // Memoized tags for sidebar
   const tagsWithCount = useMemo(() =>
     tags.map((t) => ({
@@ -169,9 +223,11 @@ export default function Home() {
   const handleNotebookSelect = useCallback((id: string | null) => {
     setSelectedNotebookId(id);
     setSelectedTagId(null);
+    setSelectedSavedSearch(null);
     setSelectedNoteId(null);
     setShowTrash(false);
     setShowTrashView(false);
+    setShowTasksView(false);
     setShowNotebooksView(false); // Switch to notes view when selecting from sidebar
     setSelectedNotebookInGrid(null); // Clear grid selection to prevent blank screen
   }, []);
@@ -190,9 +246,11 @@ export default function Home() {
       setShowNotebooksView(true);
       setSelectedNotebookId(null);
       setSelectedTagId(null);
+      setSelectedSavedSearch(null);
       setSelectedNoteId(null);
       setShowTrash(false);
       setShowTrashView(false);
+      setShowTasksView(false);
       setSelectedNotebookInGrid(null);
     }
   }, [selectedStackId]);
@@ -200,9 +258,11 @@ export default function Home() {
   const handleTagSelect = useCallback((id: string | null) => {
     setSelectedTagId(id);
     setSelectedNotebookId(null);
+    setSelectedSavedSearch(null);
     setSelectedNoteId(null);
     setShowTrash(false);
     setShowTrashView(false);
+    setShowTasksView(false);
     setShowNotebooksView(false); // Switch to notes view when selecting tag
     setSelectedNotebookInGrid(null); // Clear grid selection to prevent blank screen
   }, []);
@@ -220,8 +280,42 @@ export default function Home() {
 
   const handleSearch = useCallback((query: string) => {
     setSearchQuery(query);
+    // Typing a new search replaces the selected saved search
+    if (query.trim()) {
+      setSelectedSavedSearch(null);
+    }
   }, []);
 
+  const handleSavedSearchSelect = useCallback((id: string) => {
+    const savedSearch = savedSearches.find((s) => s.id === id);
+    if (!savedSearch) return;
+
+    setSelectedSavedSearch(savedSearch);
+    setSearchQuery('');
+    setSelectedNotebookId(null);
+    setSelectedTagId(null);
+    setSelectedNoteId(null);
+    setShowTrash(false);
+    setShowTrashView(false);
+    setShowTasksView(false);
+    setShowNotebooksView(false);
+    setSelectedStackId(null);
+    setSelectedNotebookInGrid(null);
+  }, [savedSearches]);
+
+  const handleSaveSearch = useCallback(async () => {
+    const name = saveSearchName.trim();
+    if (!name || !searchQuery.trim()) return;
+
+    const savedSearch = await createSavedSearch({ name, query: searchQuery.trim() });
+    if (savedSearch) {
+      setSaveSearchName('');
+      setShowSaveSearchModal(false);
+      setSelectedSavedSearch(savedSearch);
+      setSearchQuery('');
+    }
+  }, [createSavedSearch, saveSearchName, searchQuery]);
+
   // AI Search Insights handler
   const handleGenerateSearchInsights = useCallback(() => {
     if (searchQuery && filteredNotes.length >= 2) {
@@ -237,6 +331,25 @@ export default function Home() {
     aiSummary.summarizeNotebook(notebookId, notebookName);
   }, [aiSummary]);
 
+  // Ask-your-notes chat, scoped to the notebook or tag being viewed
+  const aiChat = useAIChat();
+  const handleAskNotes = useCallback((notebookId: string | null, tagId: string | null) => {
+    const scopeName = notebookId
+      ? notebooks.find(nb => nb.id === notebookId)?.name ?? sharedNotebooks.find(nb => nb.id === notebookId)?.name
+      : tagId
+        ? tags.find(tag => tag.id === tagId)?.name
+        : undefined;
+    aiChat.newThread({ notebookId, tagId });
+    aiSummary.openChat(scopeName ?? 'All notes');
+  }, [notebooks, sharedNotebooks, tags, aiChat, aiSummary]);
+
+  // Cited notes open in the editor
+  const handleOpenCitedNote = useCallback((noteId: string) => {
+    aiSummary.closePanel();
+    setSelectedNoteId(noteId);
+    setMobileShowEditor(true);
+  }, [aiSummary]);
+
   const handleNewNote = useCallback(async () => {
     // Find a notebook to create the note in
     let targetNotebookId = selectedNotebookId;
@@ -314,7 +427,7 @@ export default function Home() {
     }
   }, [createNote, createNotebook, selectedNotebookId, notebooks, optimisticAddNote, optimisticAddNotebook]);
 
-  const handleSaveNote = useCallback(async (data: { title: string; content: string }) => {
+  const handleSaveNote = useCallback(async (data: { title: string; content?: string }) => {
     await updateNote(data);
   }, [updateNote]);
 
@@ -388,9 +501,11 @@ export default function Home() {
   // Handle trash view click from sidebar
   const handleTrashClick = useCallback(() => {
     setShowTrashView(true);
+    setShowTasksView(false);
     setShowNotebooksView(false);
     setSelectedNotebookId(null);
     setSelectedTagId(null);
+    setSelectedSavedSearch(null);
     setSelectedNoteId(null);
     setSelectedNotebookInGrid(null); // Clear grid selection to prevent blank screen
     setShowTrash(true); // This filters to only show trash notes
@@ -659,19 +774,44 @@ export default function Home() {
   const handleAllNotesClick = useCallback(() => {
     setSelectedNotebookId(null);
     setSelectedTagId(null);
+    setSelectedSavedSearch(null);
     setSelectedNoteId(null);
     setShowTrash(false);
     setShowTrashView(false);
+    setShowTasksView(false);
     setShowNotebooksView(false); // Always switch to notes view
     setSelectedStackId(null); // Clear stack selection
     setSelectedNotebookInGrid(null); // Clear grid selection to prevent blank screen
     setMobileShowEditor(false);
   }, []);
 
+  // Handle "Tasks" click from sidebar - show the task inbox
+  const handleTasksClick = useCallback(() => {
+    setShowTasksView(true);
+    setShowTrashView(false);
+    setShowTrash(false);
+    setShowNotebooksView(false);
+    setSelectedNotebookId(null);
+    setSelectedTagId(null);
+    setSelectedSavedSearch(null);
+    setSelectedNoteId(null);
+    setSelectedNotebookInGrid(null);
+    setMobileShowEditor(false);
+  }, []);
+
+  // Open a task's note from the task inbox
+  const handleTaskNoteOpen = useCallback((noteId: string) => {
+    handleAllNotesClick();
+    setSelectedNoteId(noteId);
+    setMobileShowEditor(true);
+  }, [handleAllNotesClick]);
+
   // Handle changes to notebooks view toggle (specifically for "All Notebooks" in sidebar)
   const handleAllNotebooksClick = useCallback(() => {
     setShowNotebooksView(true);
+    setSelectedSavedSearch(null);
     setShowTrashView(false);
+    setShowTasksView(false);
     setShowTrash(false);
     setSelectedNotebookInGrid(null);
     setSelectedStackId(null); // Clear stack selection to show ALL notebooks
@@ -692,6 +832,7 @@ export default function Home() {
       setSelectedNoteId(null);
       setShowTrash(false);
       setShowTrashView(false);
+      setShowTasksView(false);
     }
   }, [selectedNotebookInGrid]);
 
@@ -766,6 +907,7 @@ export default function Home() {
         onAllNotesClick={handleAllNotesClick}
         onImportClick={() => setShowImportModal(true)}
         onSearch={handleSearch}
+        searchValue={searchQuery}
         stacks={stacks}
         onStackCreate={handleStackCreate}
         onStackUpdate={handleStackUpdate}
@@ -787,8 +929,21 @@ export default function Home() {
             await refetchTags();
           }
         }}
+        savedSearches={savedSearches}
+        sharedNotebooks={sharedNotebooks}
+        selectedSavedSearchId={selectedSavedSearch?.id ?? null}
+        onSavedSearchSelect={handleSavedSearchSelect}
+        onSavedSearchDelete={async (id) => {
+          const success = await deleteSavedSearch(id);
+          if (success && selectedSavedSearch?.id === id) {
+            setSelectedSavedSearch(null);
+          }
+        }}
         onTrashClick={handleTrashClick}
         trashCount={trashCount}
+        onTasksClick={handleTasksClick}
+        openTaskCount={openTaskCount}
+        showTasksView={showTasksView}
         showNotebooksView={showNotebooksView}
       >
         {/* Trash View - Full page view replacing notes list and editor */}
@@ -807,6 +962,16 @@ export default function Home() {
               onClose={handleCloseTrashView}
             />
           </div>
+        ) : showTasksView ? (
+          /* Tasks View - checklist items from all notes */
+          <div className="flex-1 min-w-0">
+            <TasksView
+              notebooks={notebooksWithCount}
+              tags={tagsWithCount}
+              onNoteOpen={handleTaskNoteOpen}
+              onClose={handleAllNotesClick}
+            />
+          </div>
         ) : (
           <>
             {/* Notes List or Notebooks Grid */}
@@ -851,7 +1016,12 @@ export default function Home() {
                     onToggleFavorite={handleToggleFavorite}
                     loading={appDataLoading}
                     fullPanel={!selectedNoteId}
-                    searchQuery={searchQuery}
+                    searchQuery={searchQuery || selectedSavedSearch?.query}
+                    searchTitle={selectedSavedSearch?.name}
+                    onSaveSearch={searchQuery.trim() ? () => setShowSaveSearchModal(true) : undefined}
+                    semanticSearch={semanticSearch && !showTrash}
+                    onToggleSemanticSearch={showTrash ? undefined : () => setSemanticSearch(value => !value)}
+                    semanticSearchError={searchError?.message}
                     onGenerateSearchInsights={handleGenerateSearchInsights}
                     isGeneratingInsights={aiSummary.isLoading && aiSummary.summaryType === 'search'}
                     emptyMessage={
@@ -863,14 +1033,16 @@ export default function Home() {
                             ? 'No notes with this tag'
                             : 'No notes yet'
                     }
-                    notebookName={selectedNotebookId ? notebooksWithCount.find(nb => nb.id === selectedNotebookId)?.name : undefined}
+                    notebookName={selectedNotebookId ? (notebooksWithCount.find(nb => nb.id === selectedNotebookId)?.name ?? selectedSharedNotebook?.name) : undefined}
                     notebookId={selectedNotebookId || undefined}
                     isDefaultNotebook={selectedNotebookId ? notebooksWithCount.find(nb => nb.id === selectedNotebookId)?.isDefault : undefined}
-                    notebookCount={selectedNotebookId ? notebooksWithCount.find(nb => nb.id === selectedNotebookId)?.noteCount : undefined}
-                    onNotebookDelete={handleNotebookDelete}
+                    notebookCount={selectedNotebookId ? (notebooksWithCount.find(nb => nb.id === selectedNotebookId)?.noteCount ?? selectedSharedNotebook?.noteCount) : undefined}
+                    onNotebookDelete={selectedSharedNotebook ? undefined : handleNotebookDelete}
+                    onShareNotebook={setMembersNotebookId}
                     onBack={selectedNotebookId ? () => setSelectedNotebookId(null) : undefined}
-                    onSummarizeNotebook={handleSummarizeNotebook}
+                    onSummarizeNotebook={selectedSharedNotebook ? undefined : handleSummarizeNotebook}
                     isSummarizingNotebook={aiSummary.isLoading && aiSummary.summaryType === 'notebook' && summarizingNotebookId === selectedNotebookId}
+                    onAskNotes={showTrash ? undefined : () => handleAskNotes(selectedNotebookId, selectedTagId)}
                     allTags={allAvailableTags}
                     onGenerateSmartTags={(noteIds) => smartTags.generateSmartTags(noteIds, allAvailableTags.map(t => t.name))}
                     isGeneratingSmartTags={smartTags.loading}
@@ -919,6 +1091,7 @@ export default function Home() {
                   onBack={() => setSelectedNotebookInGrid(null)}
                   onSummarizeNotebook={handleSummarizeNotebook}
                   isSummarizingNotebook={aiSummary.isLoading && aiSummary.summaryType === 'notebook' && summarizingNotebookId === selectedNotebookInGrid}
+                  onAskNotes={() => handleAskNotes(selectedNotebookInGrid, null)}
                   allTags={allAvailableTags}
                   onGenerateSmartTags={(noteIds) => smartTags.generateSmartTags(noteIds, allAvailableTags.map(t => t.name))}
                   isGeneratingSmartTags={smartTags.loading}
@@ -956,17 +1129,48 @@ export default function Home() {
                   onDelete={handleDeleteNote}
                   onRestore={handleRestoreNote}
                   onIconChange={handleNoteIconChange}
+                  onReminderChange={updateReminder}
                   onTagsChange={(_noteId, tags) => updateNoteTags(tags)}
                   onBack={handleMobileBack}
                   showBackButton={mobileShowEditor}
                   onSummarize={selectedNote ? () => aiSummary.summarizeNote(selectedNote.id, selectedNote.title) : undefined}
                   isSummarizing={aiSummary.isLoading && aiSummary.summaryType === 'note'}
+                  onOpenNote={(noteId) => {
+                    setSelectedNoteId(noteId);
+                    setMobileShowEditor(true);
+                  }}
+                  conflict={noteConflict}
+                  onResolveConflict={resolveConflict}
                 />
               </div>
             )}
           </>
         )}
 
+        {/* Due reminders */}
+        <ReminderToasts
+          reminders={reminders}
+          onOpen={handleTaskNoteOpen}
+          onDone={(noteId) => updateReminder(noteId, { reminderDone: true })}
+        />
+
+        {/* Offline state and queued changes */}
+        <OfflineStatus {...offlineSync} onReviewConflict={handleTaskNoteOpen} />
+
+        {/* Notebook Sharing Modal */}
+        {membersNotebookId && (
+          <NotebookMembersModal
+            isOpen
+            onClose={() => setMembersNotebookId(null)}
+            notebookId={membersNotebookId}
+            notebookName={notebooksWithCount.find(nb => nb.id === membersNotebookId)?.name ?? selectedSharedNotebook?.name}
+            onLeave={() => {
+              setSelectedNotebookId(null);
+              setSelectedNoteId(null);
+            }}
+          />
+        )}
+
         {/* Import Modal */}
         <ImportModal
           isOpen={showImportModal}
@@ -1014,6 +1218,43 @@ export default function Home() {
           </div>
         </Modal>
 
+        {/* Save Search Modal */}
+        <Modal
+          isOpen={showSaveSearchModal}
+          onClose={() => setShowSaveSearchModal(false)}
+          title="Save Search"
+          size="sm"
+        >
+          <div className="space-y-4">
+            <Input
+              label="Name"
+              value={saveSearchName}
+              onChange={(e) => setSaveSearchName(e.target.value)}
+              placeholder="Open tasks this week"
+              autoFocus
+            />
+            <p className="text-xs" style={{ color: 'var(--text-muted)' }}>
+              {searchQuery}
+            </p>
+            <div className="flex justify-end gap-3">
+              <Button
+                variant="secondary"
+                onClick={() => setShowSaveSearchModal(false)}
+              >
+                Cancel
+              </Button>
+              <Button
+                variant="primary"
+                onClick={handleSaveSearch}
+                disabled={!saveSearchName.trim() || savingSearch}
+                isLoading={savingSearch}
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+        </Modal>
+
         {/* AI Summarize Panel */}
         <AISummaryPanel
           isOpen={aiSummary.isOpen}
@@ -1023,8 +1264,10 @@ export default function Home() {
           data={aiSummary.data}
           isLoading={aiSummary.isLoading}
           error={aiSummary.error}
-          onRetry={aiSummary.retry}
+          onRetry={aiSummary.canRetry ? aiSummary.retry : undefined}
           onSaveAsNote={() => aiSummary.saveAsNote()}
+          chat={aiChat}
+          onOpenNote={handleOpenCitedNote}
         />
       </AppLayout>
     </>
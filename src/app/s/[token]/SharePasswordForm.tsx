@@ -0,0 +1,59 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+
+/**
+ * Password prompt for a protected share link. On success the server sets
+ * an access cookie and the page is re-rendered with the content.
+ */
+export function SharePasswordForm({ token }: { token: string }) {
+    const router = useRouter();
+    const [password, setPassword] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isChecking, setIsChecking] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!password) return;
+
+        setIsChecking(true);
+        setError(null);
+        try {
+            const response = await fetch(`/api/share/${token}/unlock`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ password }),
+            });
+
+            if (!response.ok) {
+                const body = await response.json().catch(() => ({ error: 'Request failed' }));
+                throw new Error(body.error || 'Failed to unlock');
+            }
+
+            router.refresh();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to unlock');
+            setIsChecking(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            <Input
+                type="password"
+                label="Password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                error={error ?? undefined}
+                autoComplete="off"
+                autoFocus
+            />
+            <Button type="submit" className="w-full" disabled={!password} isLoading={isChecking}>
+                View note
+            </Button>
+        </form>
+    );
+}
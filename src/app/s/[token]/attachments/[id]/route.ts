@@ -0,0 +1,83 @@
+/**
+ * Shared Attachment Route
+ *
+ * Serves the files of notes visible through a share link to visitors of
+ * the link's page. No sign-in is required.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    SHARE_TOKEN_PATTERN,
+    hasShareAccess,
+    loadSharedAttachment,
+    resolveShareLink,
+    shareCookieName,
+} from '@/lib/sharing';
+
+interface RouteParams {
+    params: Promise<{ token: string; id: string }>;
+}
+
+// Images show inline on the page; anything else, including SVG, is a download
+function isInlineImage(mimeType: string): boolean {
+    return mimeType.startsWith('image/') && mimeType !== 'image/svg+xml';
+}
+
+/**
+ * GET /s/[token]/attachments/[id]
+ *
+ * Stream an attachment of the shared note, or of a note in the shared
+ * notebook. Protected links need the cookie set by unlocking them.
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: RouteParams
+) {
+    try {
+        const { token, id } = await params;
+
+        const lookup = SHARE_TOKEN_PATTERN.test(token) ? await resolveShareLink(token) : null;
+        if (lookup?.status !== 'ok') {
+            return NextResponse.json(
+                { error: 'Attachment not found' },
+                { status: 404 }
+            );
+        }
+
+        const { link } = lookup;
+        if (link.passwordHash && !hasShareAccess(token, link.passwordHash, request.cookies.get(shareCookieName(token))?.value)) {
+            return NextResponse.json(
+                { error: 'Password required' },
+                { status: 403 }
+            );
+        }
+
+        const shared = await loadSharedAttachment(link, id);
+        if (!shared) {
+            return NextResponse.json(
+                { error: 'Attachment not found' },
+                { status: 404 }
+            );
+        }
+
+        const { attachment, data } = shared;
+        const filename = encodeURIComponent(attachment.originalName || attachment.filename);
+
+        return new NextResponse(new Uint8Array(data), {
+            headers: {
+                'Content-Type': attachment.mimeType,
+                'Content-Disposition': `${isInlineImage(attachment.mimeType) ? 'inline' : 'attachment'}; filename*=UTF-8''${filename}`,
+                'Content-Length': String(data.length),
+                'Content-Security-Policy': 'sandbox',
+                'X-Content-Type-Options': 'nosniff',
+                'Cache-Control': 'private, max-age=3600',
+            },
+        });
+    } catch (error) {
+        console.error('Error fetching shared attachment:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch attachment' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,202 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { cookies } from 'next/headers';
+import { OpenMoji } from '@/components/ui/OpenMoji';
+import { formatFileSize } from '@/lib/utils';
+import {
+    SHARE_TOKEN_PATTERN,
+    hasShareAccess,
+    listSharedNotebookNotes,
+    loadSharedNote,
+    recordShareView,
+    resolveShareLink,
+    shareCookieName,
+    type ShareLinkLookup,
+} from '@/lib/sharing';
+import { SharePasswordForm } from './SharePasswordForm';
+import './share.css';
+
+export const dynamic = 'force-dynamic';
+
+// Shared pages are private to whoever has the link
+export const metadata: Metadata = {
+    title: 'Shared note · Notova',
+    robots: { index: false, follow: false },
+};
+
+interface SharePageProps {
+    params: Promise<{ token: string }>;
+    searchParams: Promise<{ note?: string }>;
+}
+
+const UNAVAILABLE_MESSAGES: Record<Exclude<ShareLinkLookup['status'], 'ok'>, string> = {
+    'not-found': 'This link doesn’t exist or the note was deleted.',
+    expired: 'This link has expired. Ask the owner for a new one.',
+    revoked: 'The owner has turned off this link.',
+};
+
+function SharePageShell({ children }: { children: React.ReactNode }) {
+    return (
+        <div className="min-h-screen" style={{ background: 'var(--surface-content)', color: 'var(--text-primary)' }}>
+            <header style={{ borderBottom: '1px solid var(--border-subtle)' }}>
+                <div className="max-w-5xl mx-auto px-6 py-4 flex items-center justify-between">
+                    <span className="text-sm font-semibold" style={{ color: 'var(--text-secondary)' }}>
+                        Notova
+                    </span>
+                    <span className="text-xs" style={{ color: 'var(--text-muted)' }}>
+                        Read-only shared view
+                    </span>
+                </div>
+            </header>
+            {children}
+        </div>
+    );
+}
+
+function ShareMessage({ title, children }: { title: string; children: React.ReactNode }) {
+    return (
+        <SharePageShell>
+            <main className="max-w-sm mx-auto px-6 py-20 text-center space-y-4">
+                <h1 className="text-xl font-bold">{title}</h1>
+                {children}
+            </main>
+        </SharePageShell>
+    );
+}
+
+/**
+ * Public read-only view of a shared note or notebook.
+ */
+export default async function SharePage({ params, searchParams }: SharePageProps) {
+    const { token } = await params;
+    const { note: requestedNoteId } = await searchParams;
+
+    const lookup: ShareLinkLookup = SHARE_TOKEN_PATTERN.test(token)
+        ? await resolveShareLink(token)
+        : { status: 'not-found' };
+
+    if (lookup.status !== 'ok') {
+        return (
+            <ShareMessage title="Link unavailable">
+                <p className="text-sm" style={{ color: 'var(--text-secondary)' }}>
+                    {UNAVAILABLE_MESSAGES[lookup.status]}
+                </p>
+            </ShareMessage>
+        );
+    }
+
+    const { link } = lookup;
+
+    if (link.passwordHash) {
+        const cookieStore = await cookies();
+        if (!hasShareAccess(token, link.passwordHash, cookieStore.get(shareCookieName(token))?.value)) {
+            return (
+                <ShareMessage title="Password required">
+                    <p className="text-sm" style={{ color: 'var(--text-secondary)' }}>
+                        Enter the password you were given to view this {link.notebookId ? 'notebook' : 'note'}.
+                    </p>
+                    <div className="text-left">
+                        <SharePasswordForm token={token} />
+                    </div>
+                </ShareMessage>
+            );
+        }
+    }
+
+    // Notebook links list the notebook's notes and show one at a time
+    const notebookNotes = link.notebookId ? await listSharedNotebookNotes(link.notebookId) : null;
+    const noteHref = (noteId: string) => `/s/${token}?note=${encodeURIComponent(noteId)}`;
+
+    const noteId = link.noteId
+        ?? (notebookNotes?.some(note => note.id === requestedNoteId) ? requestedNoteId : notebookNotes?.[0]?.id);
+
+    const note = noteId
+        ? await loadSharedNote(noteId, {
+            token,
+            notebookId: link.notebookId ?? undefined,
+            linkHref: notebookNotes
+                ? (linkedId) => (notebookNotes.some(item => item.id === linkedId) ? noteHref(linkedId) : undefined)
+                : undefined,
+        })
+        : null;
+
+    await recordShareView(link.id);
+
+    return (
+        <SharePageShell>
+            <div className="max-w-5xl mx-auto px-6 py-8 flex flex-col md:flex-row gap-8">
+                {notebookNotes && link.notebook && (
+                    <nav className="md:w-64 shrink-0">
+                        <h2 className="text-xs font-semibold uppercase tracking-wide mb-3" style={{ color: 'var(--text-muted)' }}>
+                            {link.notebook.name}
+                        </h2>
+                        <ul className="space-y-0.5">
+                            {notebookNotes.map((item) => (
+                                <li key={item.id}>
+                                    <Link
+                                        href={noteHref(item.id)}
+                                        className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm truncate"
+                                        style={item.id === note?.id ? {
+                                            background: 'var(--surface-content-secondary)',
+                                            color: 'var(--text-primary)',
+                                        } : {
+                                            color: 'var(--text-secondary)',
+                                        }}
+                                    >
+                                        {item.icon && <OpenMoji hexcode={item.icon} size={14} className="shrink-0" />}
+                                        <span className="truncate">{item.title || 'Untitled'}</span>
+                                    </Link>
+                                </li>
+                            ))}
+                        </ul>
+                    </nav>
+                )}
+
+                <main className="flex-1 min-w-0">
+                    {note ? (
+                        <article>
+                            <h1 className="flex items-start gap-3 text-3xl font-bold mb-2">
+                                {note.icon && <OpenMoji hexcode={note.icon} size={36} />}
+                                <span>{note.title || 'Untitled'}</span>
+                            </h1>
+                            <p className="text-xs mb-8" style={{ color: 'var(--text-muted)' }}>
+                                Updated {note.updatedAt.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}
+                            </p>
+                            <div className="share-content" dangerouslySetInnerHTML={{ __html: note.html }} />
+
+                            {note.attachments.length > 0 && (
+                                <section className="mt-10 pt-6" style={{ borderTop: '1px solid var(--border-subtle)' }}>
+                                    <h2 className="text-sm font-semibold mb-3" style={{ color: 'var(--text-secondary)' }}>
+                                        Attachments
+                                    </h2>
+                                    <ul className="space-y-1">
+                                        {note.attachments.map((attachment) => (
+                                            <li key={attachment.id}>
+                                                <a
+                                                    href={attachment.url}
+                                                    target="_blank"
+                                                    rel="noopener noreferrer"
+                                                    className="text-sm underline"
+                                                    style={{ color: 'var(--accent-primary)' }}
+                                                >
+                                                    {attachment.name}
+                                                </a>
+                                                <span className="ml-2 text-xs" style={{ color: 'var(--text-muted)' }}>
+                                                    {formatFileSize(attachment.size)}
+                                                </span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </section>
+                            )}
+                        </article>
+                    ) : (
+                        <p className="py-20 text-center text-sm" style={{ color: 'var(--text-muted)' }}>
+                            This notebook has no notes yet.
+                        </p>
+                    )}
+                </main>
+            </div>
+        </SharePageShell>
+    );
+}
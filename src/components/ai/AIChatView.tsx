@@ -0,0 +1,237 @@
+'use client';
+
+import { useEffect, useRef, useState, type FormEvent, type KeyboardEvent } from 'react';
+import { AlertCircle, FileText, Plus, Send, Square, Trash2 } from 'lucide-react';
+import type { ChatCitation } from '@/lib/chat/types';
+import type { UseAIChatReturn } from '@/hooks/useAIChat';
+
+interface AIChatViewProps {
+    chat: UseAIChatReturn;
+    /** What the conversation asks about, e.g. a notebook name */
+    scopeLabel?: string;
+    onOpenNote?: (noteId: string) => void;
+}
+
+const CITATION_MARKER = /(\[\d+(?:\s*,\s*\d+)*\])/g;
+
+/**
+ * Answer text with its [n] markers turned into links to the cited notes.
+ */
+function CitedText({
+    content,
+    citations,
+    onOpenNote,
+}: {
+    content: string;
+    citations: ChatCitation[];
+    onOpenNote?: (noteId: string) => void;
+}) {
+    const byIndex = new Map(citations.map(citation => [citation.index, citation]));
+
+    return (
+        <>
+            {content.split(CITATION_MARKER).map((part, index) => {
+                if (index % 2 === 0) return part;
+
+                const numbers = part.slice(1, -1).split(',').map(number => Number(number.trim()));
+                return numbers.map((number) => {
+                    const citation = byIndex.get(number);
+                    if (!citation) return null;
+                    return (
+                        <button
+                            key={`${index}-${number}`}
+                            type="button"
+                            className="ai-chat-citation-marker"
+                            onClick={() => onOpenNote?.(citation.noteId)}
+                            title={citation.title}
+                        >
+                            {number}
+                        </button>
+                    );
+                });
+            })}
+        </>
+    );
+}
+
+function CitationList({
+    citations,
+    onOpenNote,
+}: {
+    citations: ChatCitation[];
+    onOpenNote?: (noteId: string) => void;
+}) {
+    if (citations.length === 0) return null;
+
+    return (
+        <div className="ai-chat-sources">
+            {citations.map(citation => (
+                <button
+                    key={citation.noteId}
+                    type="button"
+                    className="ai-chat-source"
+                    onClick={() => onOpenNote?.(citation.noteId)}
+                    title={citation.excerpt}
+                >
+                    <span className="ai-chat-source-index">{citation.index}</span>
+                    <FileText size={12} />
+                    <span className="ai-chat-source-title">{citation.title || 'Untitled'}</span>
+                </button>
+            ))}
+        </div>
+    );
+}
+
+export function AIChatView({ chat, scopeLabel, onOpenNote }: AIChatViewProps) {
+    const [draft, setDraft] = useState('');
+    const endRef = useRef<HTMLDivElement>(null);
+
+    const { threads, thread, messages, pendingAnswer, isSending, error } = chat;
+
+    // Keep the latest message in view while the answer streams in
+    useEffect(() => {
+        endRef.current?.scrollIntoView({ block: 'end' });
+    }, [messages, pendingAnswer?.content]);
+
+    const handleSubmit = async (event?: FormEvent) => {
+        event?.preventDefault();
+        const text = draft;
+        setDraft('');
+        if (!(await chat.send(text))) {
+            setDraft(text);
+        }
+    };
+
+    const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+        if (event.key === 'Enter' && !event.shiftKey) {
+            event.preventDefault();
+            handleSubmit();
+        }
+    };
+
+    return (
+        <div className="ai-chat">
+            {/* Thread picker */}
+            <div className="ai-chat-threads">
+                <select
+                    className="ai-chat-thread-select"
+                    value={thread?.id ?? ''}
+                    onChange={(event) => {
+                        if (event.target.value) chat.openThread(event.target.value);
+                    }}
+                    aria-label="Chat thread"
+                >
+                    <option value="">{thread ? 'New chat' : `New chat${scopeLabel ? ` · ${scopeLabel}` : ''}`}</option>
+                    {threads.map(item => (
+                        <option key={item.id} value={item.id}>{item.title}</option>
+                    ))}
+                </select>
+                <button
+                    type="button"
+                    className="ai-chat-icon-button"
+                    onClick={() => chat.newThread(chat.scope)}
+                    title="New chat"
+                    aria-label="New chat"
+                >
+                    <Plus size={16} />
+                </button>
+                {thread && (
+                    <button
+                        type="button"
+                        className="ai-chat-icon-button"
+                        onClick={() => chat.deleteThread(thread.id).catch(() => {})}
+                        title="Delete chat"
+                        aria-label="Delete chat"
+                    >
+                        <Trash2 size={16} />
+                    </button>
+                )}
+            </div>
+
+            {/* Conversation */}
+            <div className="ai-chat-messages">
+                {messages.length === 0 && !pendingAnswer && (
+                    <p className="ai-chat-empty">
+                        Ask anything about {scopeLabel ? <strong>{scopeLabel}</strong> : 'your notes'}. Answers link to the notes they come from.
+                    </p>
+                )}
+
+                {messages.map(message => (
+                    <div key={message.id} className={`ai-chat-message ${message.role}`}>
+                        <div className="ai-chat-bubble">
+                            {message.role === 'assistant' ? (
+                                <CitedText content={message.content} citations={message.citations} onOpenNote={onOpenNote} />
+                            ) : (
+                                message.content
+                            )}
+                        </div>
+                        {message.role === 'assistant' && (
+                            <CitationList citations={message.citations} onOpenNote={onOpenNote} />
+                        )}
+                    </div>
+                ))}
+
+                {pendingAnswer && (
+                    <div className="ai-chat-message assistant">
+                        <div className="ai-chat-bubble">
+                            {pendingAnswer.content ? (
+                                <CitedText content={pendingAnswer.content} citations={pendingAnswer.sources} onOpenNote={onOpenNote} />
+                            ) : (
+                                <span className="ai-chat-typing">
+                                    {pendingAnswer.sources.length > 0
+                                        ? `Reading ${pendingAnswer.sources.length} ${pendingAnswer.sources.length === 1 ? 'note' : 'notes'}…`
+                                        : 'Searching your notes…'}
+                                </span>
+                            )}
+                        </div>
+                    </div>
+                )}
+
+                {error && (
+                    <div className="ai-chat-error">
+                        <AlertCircle size={16} />
+                        <span>{error}</span>
+                    </div>
+                )}
+
+                <div ref={endRef} />
+            </div>
+
+            {/* Composer */}
+            <form className="ai-chat-composer" onSubmit={handleSubmit}>
+                <textarea
+                    className="ai-chat-input"
+                    value={draft}
+                    onChange={(event) => setDraft(event.target.value)}
+                    onKeyDown={handleKeyDown}
+                    placeholder="Ask your notes…"
+                    rows={2}
+                    maxLength={4000}
+                />
+                {isSending ? (
+                    <button
+                        type="button"
+                        className="ai-chat-send"
+                        onClick={chat.stop}
+                        title="Stop"
+                        aria-label="Stop answering"
+                    >
+                        <Square size={16} />
+                    </button>
+                ) : (
+                    <button
+                        type="submit"
+                        className="ai-chat-send"
+                        disabled={!draft.trim()}
+                        title="Send"
+                        aria-label="Send question"
+                    >
+                        <Send size={16} />
+                    </button>
+                )}
+            </form>
+        </div>
+    );
+}
+
+export default AIChatView;
@@ -12,9 +12,11 @@ import {
     BookmarkPlus,
     AlertCircle
 } from 'lucide-react';
+import { AIChatView } from './AIChatView';
+import type { UseAIChatReturn } from '@/hooks/useAIChat';
 import '@/styles/ai.css';
 
-export type SummaryType = 'note' | 'notebook' | 'search';
+export type SummaryType = 'note' | 'notebook' | 'search' | 'chat';
 
 export interface NoteSummaryData {
     summary: string;
@@ -50,6 +52,10 @@ interface AISummaryPanelProps {
     data?: NoteSummaryData | NotebookSummaryData | SearchInsightsData | null;
     onSaveAsNote?: () => void;
     onRetry?: () => void;
+    /** Conversation shown when type is 'chat' */
+    chat?: UseAIChatReturn;
+    /** Open a note cited by a chat answer */
+    onOpenNote?: (noteId: string) => void;
 }
 
 export function AISummaryPanel({
@@ -62,6 +68,8 @@ export function AISummaryPanel({
     data = null,
     onSaveAsNote,
     onRetry,
+    chat,
+    onOpenNote,
 }: AISummaryPanelProps) {
     const copyToClipboard = () => {
         if (!data) return;
@@ -108,6 +116,8 @@ export function AISummaryPanel({
                 return 'Notebook Summary';
             case 'search':
                 return 'Search Insights';
+            case 'chat':
+                return 'Ask Your Notes';
             default:
                 return 'Summarize';
         }
@@ -141,115 +151,119 @@ export function AISummaryPanel({
                     </button>
                 </div>
 
-                {/* Content */}
-                <div className="ai-panel-content">
-                    {isLoading ? (
-                        <div className="ai-loading">
-                            <div className="ai-loading-spinner" />
-                            <span className="ai-loading-text">Analyzing content...</span>
-                        </div>
-                    ) : error ? (
-                        <div className="ai-error">
-                            <AlertCircle className="ai-error-icon" />
-                            <p className="ai-error-text">{error}</p>
-                            {onRetry && (
-                                <button className="ai-retry-button" onClick={onRetry}>
-                                    Try Again
-                                </button>
-                            )}
-                        </div>
-                    ) : data ? (
-                        <>
-                            {/* Title Context */}
-                            <div className="ai-summary-section">
-                                <h3 className="ai-summary-section-title">Summarizing</h3>
-                                <p className="ai-summary-text" style={{ fontWeight: 500 }}>{title}</p>
+                {/* Chat replaces the summary content */}
+                {type === 'chat' && chat ? (
+                    <AIChatView chat={chat} scopeLabel={title} onOpenNote={onOpenNote} />
+                ) : (
+                    <div className="ai-panel-content">
+                        {isLoading ? (
+                            <div className="ai-loading">
+                                <div className="ai-loading-spinner" />
+                                <span className="ai-loading-text">Analyzing content...</span>
                             </div>
-
-                            {/* Main Summary */}
-                            <div className="ai-summary-section">
-                                <h3 className="ai-summary-section-title">Summary</h3>
-                                <p className="ai-summary-text">{data.summary}</p>
+                        ) : error ? (
+                            <div className="ai-error">
+                                <AlertCircle className="ai-error-icon" />
+                                <p className="ai-error-text">{error}</p>
+                                {onRetry && (
+                                    <button className="ai-retry-button" onClick={onRetry}>
+                                        Try Again
+                                    </button>
+                                )}
                             </div>
-
-                            {/* Key Points (for notes) */}
-                            {'keyPoints' in data && data.keyPoints && data.keyPoints.length > 0 && (
+                        ) : data ? (
+                            <>
+                                {/* Title Context */}
                                 <div className="ai-summary-section">
-                                    <h3 className="ai-summary-section-title">Key Points</h3>
-                                    <ul className="ai-key-points">
-                                        {data.keyPoints.map((point, index) => (
-                                            <li key={index} className="ai-key-point">
-                                                <span className="ai-key-point-icon">
-                                                    <Lightbulb size={16} />
-                                                </span>
-                                                <span>{point}</span>
-                                            </li>
-                                        ))}
-                                    </ul>
+                                    <h3 className="ai-summary-section-title">Summarizing</h3>
+                                    <p className="ai-summary-text" style={{ fontWeight: 500 }}>{title}</p>
                                 </div>
-                            )}
 
-                            {/* Themes */}
-                            {'themes' in data && data.themes && data.themes.length > 0 && (
+                                {/* Main Summary */}
                                 <div className="ai-summary-section">
-                                    <h3 className="ai-summary-section-title">Themes</h3>
-                                    <div className="ai-themes">
-                                        {data.themes.map((theme, index) => (
-                                            <span key={index} className="ai-theme-tag">
-                                                <Tag size={12} />
-                                                {theme}
-                                            </span>
-                                        ))}
-                                    </div>
+                                    <h3 className="ai-summary-section-title">Summary</h3>
+                                    <p className="ai-summary-text">{data.summary}</p>
                                 </div>
-                            )}
 
-                            {/* Connections (for search insights) */}
-                            {'connections' in data && data.connections && data.connections.length > 0 && (
-                                <div className="ai-summary-section">
-                                    <h3 className="ai-summary-section-title">Connections</h3>
-                                    <div className="ai-connections">
-                                        {data.connections.map((connection, index) => (
-                                            <div key={index} className="ai-connection">
-                                                <Link2 className="ai-connection-icon" size={16} />
-                                                <span>{connection}</span>
-                                            </div>
-                                        ))}
+                                {/* Key Points (for notes) */}
+                                {'keyPoints' in data && data.keyPoints && data.keyPoints.length > 0 && (
+                                    <div className="ai-summary-section">
+                                        <h3 className="ai-summary-section-title">Key Points</h3>
+                                        <ul className="ai-key-points">
+                                            {data.keyPoints.map((point, index) => (
+                                                <li key={index} className="ai-key-point">
+                                                    <span className="ai-key-point-icon">
+                                                        <Lightbulb size={16} />
+                                                    </span>
+                                                    <span>{point}</span>
+                                                </li>
+                                            ))}
+                                        </ul>
                                     </div>
-                                </div>
-                            )}
+                                )}
 
-                            {/* Key Findings */}
-                            {'keyFindings' in data && data.keyFindings && data.keyFindings.length > 0 && (
-                                <div className="ai-summary-section">
-                                    <h3 className="ai-summary-section-title">Key Findings</h3>
-                                    <ul className="ai-key-points">
-                                        {data.keyFindings.map((finding, index) => (
-                                            <li key={index} className="ai-key-point">
-                                                <span className="ai-key-point-icon">
-                                                    <CheckCircle2 size={16} />
+                                {/* Themes */}
+                                {'themes' in data && data.themes && data.themes.length > 0 && (
+                                    <div className="ai-summary-section">
+                                        <h3 className="ai-summary-section-title">Themes</h3>
+                                        <div className="ai-themes">
+                                            {data.themes.map((theme, index) => (
+                                                <span key={index} className="ai-theme-tag">
+                                                    <Tag size={12} />
+                                                    {theme}
                                                 </span>
-                                                <span>{finding}</span>
-                                            </li>
-                                        ))}
-                                    </ul>
-                                </div>
-                            )}
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
 
-                            {/* Meta Info */}
-                            <div className="ai-meta">
-                                {'noteCount' in data && (
-                                    <span className="ai-meta-item">
-                                        {data.noteCount} notes analyzed
-                                    </span>
+                                {/* Connections (for search insights) */}
+                                {'connections' in data && data.connections && data.connections.length > 0 && (
+                                    <div className="ai-summary-section">
+                                        <h3 className="ai-summary-section-title">Connections</h3>
+                                        <div className="ai-connections">
+                                            {data.connections.map((connection, index) => (
+                                                <div key={index} className="ai-connection">
+                                                    <Link2 className="ai-connection-icon" size={16} />
+                                                    <span>{connection}</span>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </div>
                                 )}
-                                {data.cached && (
-                                    <span className="ai-cached-badge">Cached</span>
+
+                                {/* Key Findings */}
+                                {'keyFindings' in data && data.keyFindings && data.keyFindings.length > 0 && (
+                                    <div className="ai-summary-section">
+                                        <h3 className="ai-summary-section-title">Key Findings</h3>
+                                        <ul className="ai-key-points">
+                                            {data.keyFindings.map((finding, index) => (
+                                                <li key={index} className="ai-key-point">
+                                                    <span className="ai-key-point-icon">
+                                                        <CheckCircle2 size={16} />
+                                                    </span>
+                                                    <span>{finding}</span>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </div>
                                 )}
-                            </div>
-                        </>
-                    ) : null}
-                </div>
+
+                                {/* Meta Info */}
+                                <div className="ai-meta">
+                                    {'noteCount' in data && (
+                                        <span className="ai-meta-item">
+                                            {data.noteCount} notes analyzed
+                                        </span>
+                                    )}
+                                    {data.cached && (
+                                        <span className="ai-cached-badge">Cached</span>
+                                    )}
+                                </div>
+                            </>
+                        ) : null}
+                    </div>
+                )}
 
                 {/* Actions */}
                 {data && !isLoading && !error && (
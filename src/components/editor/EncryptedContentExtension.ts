@@ -0,0 +1,121 @@
+import { Node, mergeAttributes, type Editor } from '@tiptap/core';
+import { EN_CRYPT_TYPE, type EnCryptData } from '@/lib/encryption/en-crypt';
+
+export interface EncryptedContentOptions {
+    HTMLAttributes: Record<string, unknown>;
+}
+
+declare module '@tiptap/core' {
+    interface Commands<ReturnType> {
+        encryptedContent: {
+            /** Replace the selection with an encrypted block */
+            setEncryptedContent: (data: EnCryptData) => ReturnType;
+        };
+    }
+}
+
+/**
+ * Encrypted text, imported from Evernote's <en-crypt> or encrypted in the
+ * editor. Only the ciphertext is stored; it's decrypted on demand in the
+ * browser and never edited in place.
+ */
+export const EncryptedContent = Node.create<EncryptedContentOptions>({
+    name: 'encryptedContent',
+    group: 'inline',
+    inline: true,
+    atom: true,
+    selectable: true,
+
+    addOptions() {
+        return {
+            HTMLAttributes: {},
+        };
+    },
+
+    addAttributes() {
+        return {
+            cipher: {
+                default: 'AES',
+                parseHTML: element => element.getAttribute('data-cipher') || 'RC2',
+                renderHTML: attributes => ({ 'data-cipher': attributes.cipher }),
+            },
+            length: {
+                default: 128,
+                parseHTML: element => parseInt(element.getAttribute('data-length') ?? '', 10) || 64,
+                renderHTML: attributes => ({ 'data-length': attributes.length }),
+            },
+            hint: {
+                default: null,
+                parseHTML: element => element.getAttribute('data-hint') || null,
+                renderHTML: attributes => (attributes.hint ? { 'data-hint': attributes.hint } : {}),
+            },
+            ciphertext: {
+                default: '',
+                parseHTML: element => element.getAttribute('data-ciphertext') ?? '',
+                renderHTML: attributes => ({ 'data-ciphertext': attributes.ciphertext }),
+            },
+        };
+    },
+
+    parseHTML() {
+        return [{ tag: `span[data-type="${EN_CRYPT_TYPE}"]` }];
+    },
+
+    renderHTML({ node, HTMLAttributes }) {
+        return [
+            'span',
+            mergeAttributes(
+                {
+                    'data-type': EN_CRYPT_TYPE,
+                    class: 'en-crypt',
+                    title: node.attrs.hint ? `Encrypted. Hint: ${node.attrs.hint}` : 'Encrypted. Click to decrypt',
+                },
+                this.options.HTMLAttributes,
+                HTMLAttributes
+            ),
+            'Encrypted content',
+        ];
+    },
+
+    renderText() {
+        return '[Encrypted content]';
+    },
+
+    addCommands() {
+        return {
+            setEncryptedContent: (data) => ({ chain, state }) => {
+                const { from, to } = state.selection;
+                return chain()
+                    .insertContentAt({ from, to }, { type: this.name, attrs: { ...data } })
+                    .run();
+            },
+        };
+    },
+});
+
+/**
+ * Read the encrypted block and its document position from a clicked element.
+ */
+export function getEncryptedContentFromElement(
+    editor: Editor,
+    element: Element
+): { data: EnCryptData; pos: number } | null {
+    const span = element.closest(`span[data-type="${EN_CRYPT_TYPE}"]`);
+    if (!span || !editor.view.dom.contains(span)) return null;
+
+    const pos = editor.view.posAtDOM(span, 0);
+    const node = editor.state.doc.nodeAt(pos);
+    if (node?.type.name !== 'encryptedContent') return null;
+
+    return {
+        data: {
+            cipher: node.attrs.cipher,
+            length: node.attrs.length,
+            hint: node.attrs.hint,
+            ciphertext: node.attrs.ciphertext,
+        },
+        pos,
+    };
+}
+
+export default EncryptedContent;
@@ -0,0 +1,215 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { getHTMLFromFragment, type Editor } from '@tiptap/core';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import {
+    decryptEnCrypt,
+    encryptEnCrypt,
+    decryptedContentToHtml,
+    type EnCryptData,
+} from '@/lib/encryption/en-crypt';
+
+/** Show decrypted HTML as text, keeping line breaks between blocks */
+function toPlainText(html: string): string {
+    const withBreaks = html.replace(/<br\s*\/?>|<\/(p|div|li|h[1-6]|tr)>/gi, '\n');
+    const text = new DOMParser().parseFromString(withBreaks, 'text/html').body.textContent ?? '';
+    return text.replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Ask for the passphrase of an encrypted block and show its content.
+ * The block can then be replaced by its decrypted content.
+ */
+export function DecryptContentModal({
+    editor,
+    target,
+    onClose,
+}: {
+    editor: Editor | null;
+    target: { data: EnCryptData; pos: number } | null;
+    onClose: () => void;
+}) {
+    const [passphrase, setPassphrase] = useState('');
+    const [decrypted, setDecrypted] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isDecrypting, setIsDecrypting] = useState(false);
+
+    // Forget the passphrase and plaintext whenever the modal closes
+    useEffect(() => {
+        setPassphrase('');
+        setDecrypted(null);
+        setError(null);
+    }, [target]);
+
+    const handleDecrypt = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!target || !passphrase) return;
+
+        setIsDecrypting(true);
+        setError(null);
+        try {
+            setDecrypted(await decryptEnCrypt(target.data, passphrase));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to decrypt');
+        } finally {
+            setIsDecrypting(false);
+        }
+    };
+
+    const handleRemoveEncryption = () => {
+        if (!editor || !target || decrypted === null) return;
+
+        const node = editor.state.doc.nodeAt(target.pos);
+        if (node?.type.name === 'encryptedContent') {
+            editor.chain()
+                .focus()
+                .insertContentAt({ from: target.pos, to: target.pos + node.nodeSize }, decryptedContentToHtml(decrypted))
+                .run();
+        }
+        onClose();
+    };
+
+    return (
+        <Modal isOpen={!!target} onClose={onClose} title="Encrypted Content" size="sm">
+            {decrypted === null ? (
+                <form onSubmit={handleDecrypt} className="space-y-4">
+                    <Input
+                        type="password"
+                        label="Passphrase"
+                        value={passphrase}
+                        onChange={(e) => setPassphrase(e.target.value)}
+                        error={error ?? undefined}
+                        helperText={target?.data.hint ? `Hint: ${target.data.hint}` : undefined}
+                        autoComplete="off"
+                        autoFocus
+                    />
+                    <p className="text-xs" style={{ color: 'var(--text-muted)' }}>
+                        Decryption happens on this device. Your passphrase is never sent to the server.
+                    </p>
+                    <div className="flex gap-3 justify-end">
+                        <Button type="button" variant="secondary" onClick={onClose}>
+                            Cancel
+                        </Button>
+                        <Button type="submit" disabled={!passphrase} isLoading={isDecrypting}>
+                            Decrypt
+                        </Button>
+                    </div>
+                </form>
+            ) : (
+                <div className="space-y-4">
+                    <div
+                        className="p-3 rounded-lg text-sm whitespace-pre-wrap break-words max-h-64 overflow-y-auto"
+                        style={{ background: 'var(--surface-content-secondary)', color: 'var(--text-primary)' }}
+                    >
+                        {toPlainText(decryptedContentToHtml(decrypted))}
+                    </div>
+                    <div className="flex gap-3 justify-end">
+                        {editor?.isEditable && (
+                            <Button variant="secondary" onClick={handleRemoveEncryption}>
+                                Remove Encryption
+                            </Button>
+                        )}
+                        <Button onClick={onClose}>Done</Button>
+                    </div>
+                </div>
+            )}
+        </Modal>
+    );
+}
+
+/**
+ * Encrypt the editor's current selection with a passphrase.
+ */
+export function EncryptSelectionModal({
+    editor,
+    isOpen,
+    onClose,
+}: {
+    editor: Editor | null;
+    isOpen: boolean;
+    onClose: () => void;
+}) {
+    const [passphrase, setPassphrase] = useState('');
+    const [confirmation, setConfirmation] = useState('');
+    const [hint, setHint] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isEncrypting, setIsEncrypting] = useState(false);
+
+    useEffect(() => {
+        setPassphrase('');
+        setConfirmation('');
+        setHint('');
+        setError(null);
+    }, [isOpen]);
+
+    const handleEncrypt = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!editor) return;
+
+        if (passphrase !== confirmation) {
+            setError('Passphrases do not match');
+            return;
+        }
+
+        const { from, to, empty } = editor.state.selection;
+        if (empty) {
+            setError('Select the text to encrypt first');
+            return;
+        }
+
+        setIsEncrypting(true);
+        setError(null);
+        try {
+            const html = getHTMLFromFragment(editor.state.doc.slice(from, to).content, editor.schema);
+            const data = await encryptEnCrypt(html, passphrase, hint);
+            editor.chain().focus().setTextSelection({ from, to }).setEncryptedContent(data).run();
+            onClose();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to encrypt');
+        } finally {
+            setIsEncrypting(false);
+        }
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Encrypt Selection" size="sm">
+            <form onSubmit={handleEncrypt} className="space-y-4">
+                <Input
+                    type="password"
+                    label="Passphrase"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    autoComplete="new-password"
+                    autoFocus
+                />
+                <Input
+                    type="password"
+                    label="Confirm passphrase"
+                    value={confirmation}
+                    onChange={(e) => setConfirmation(e.target.value)}
+                    error={error ?? undefined}
+                    autoComplete="new-password"
+                />
+                <Input
+                    label="Hint (optional)"
+                    value={hint}
+                    onChange={(e) => setHint(e.target.value)}
+                />
+                <p className="text-xs" style={{ color: 'var(--text-muted)' }}>
+                    The passphrase can&apos;t be recovered. Without it, the encrypted text is lost.
+                </p>
+                <div className="flex gap-3 justify-end">
+                    <Button type="button" variant="secondary" onClick={onClose}>
+                        Cancel
+                    </Button>
+                    <Button type="submit" disabled={!passphrase || !confirmation} isLoading={isEncrypting}>
+                        Encrypt
+                    </Button>
+                </div>
+            </form>
+        </Modal>
+    );
+}
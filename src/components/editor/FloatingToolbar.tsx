@@ -653,6 +653,17 @@ export function FloatingToolbar({
                                 </svg>
                             </ToolbarButton>
 
+                            {/* Checklist */}
+                            <ToolbarButton
+                                onClick={() => editor.chain().focus().toggleTaskList().run()}
+                                isActive={editor.isActive('taskList')}
+                                title="Checklist"
+                            >
+                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
+                                    <path strokeLinecap="round" strokeLinejoin="round" d="M3 5h4v4H3V5zm0 10h4v4H3v-4zm1-7l1 1 2-2M11 7h10M11 17h10" />
+                                </svg>
+                            </ToolbarButton>
+
                             <ToolbarDivider />
 
                             {/* Link */}
@@ -0,0 +1,152 @@
+import { Node, InputRule, mergeAttributes, type Editor, type Range } from '@tiptap/core';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { NOTE_LINK_TYPE } from '@/lib/links/note-links';
+
+export interface NoteLinkAttributes {
+    noteId: string | null;
+    title: string;
+}
+
+export interface NoteLinkOptions {
+    HTMLAttributes: Record<string, unknown>;
+}
+
+export interface NoteLinkStorage {
+    // Set by the autocomplete popup to take over arrow/enter/escape keys
+    keyHandler: ((event: KeyboardEvent) => boolean) | null;
+}
+
+declare module '@tiptap/core' {
+    interface Commands<ReturnType> {
+        noteLink: {
+            insertNoteLink: (attributes: NoteLinkAttributes, range?: Range) => ReturnType;
+        };
+    }
+
+    interface Storage {
+        noteLink: NoteLinkStorage;
+    }
+}
+
+/**
+ * Inline `[[Note title]]` link to another note.
+ * Typing `[[Title]]` creates a link resolved by title when the note is saved;
+ * picking from the autocomplete links by note ID.
+ */
+export const NoteLink = Node.create<NoteLinkOptions, NoteLinkStorage>({
+    name: 'noteLink',
+    group: 'inline',
+    inline: true,
+    atom: true,
+    selectable: true,
+
+    addOptions() {
+        return {
+            HTMLAttributes: {},
+        };
+    },
+
+    addStorage() {
+        return {
+            keyHandler: null,
+        };
+    },
+
+    addAttributes() {
+        return {
+            noteId: {
+                default: null,
+                parseHTML: element => element.getAttribute('data-note-id') || null,
+                renderHTML: attributes => ({ 'data-note-id': attributes.noteId ?? '' }),
+            },
+            title: {
+                default: '',
+                parseHTML: element => element.textContent ?? '',
+                renderHTML: () => ({}),
+            },
+        };
+    },
+
+    parseHTML() {
+        return [{ tag: `span[data-type="${NOTE_LINK_TYPE}"]` }];
+    },
+
+    renderHTML({ node, HTMLAttributes }) {
+        return [
+            'span',
+            mergeAttributes(
+                { 'data-type': NOTE_LINK_TYPE, class: 'note-link' },
+                this.options.HTMLAttributes,
+                HTMLAttributes
+            ),
+            node.attrs.title,
+        ];
+    },
+
+    renderText({ node }) {
+        return `[[${node.attrs.title}]]`;
+    },
+
+    addCommands() {
+        return {
+            insertNoteLink: (attributes, range) => ({ chain }) => {
+                const content = [
+                    { type: this.name, attrs: attributes },
+                    { type: 'text', text: ' ' },
+                ];
+                return range
+                    ? chain().insertContentAt(range, content).run()
+                    : chain().insertContent(content).run();
+            },
+        };
+    },
+
+    addInputRules() {
+        return [
+            new InputRule({
+                find: /\[\[([^[\]]*[^[\]\s][^[\]]*)\]\]$/,
+                handler: ({ state, range, match }) => {
+                    const title = match[1]!.trim();
+                    state.tr.replaceWith(range.from, range.to, this.type.create({ noteId: null, title }));
+                },
+            }),
+        ];
+    },
+
+    addProseMirrorPlugins() {
+        const { storage, name } = this;
+
+        return [
+            new Plugin({
+                key: new PluginKey(name),
+                props: {
+                    handleKeyDown: (_view, event) => storage.keyHandler?.(event) ?? false,
+                },
+            }),
+        ];
+    },
+});
+
+/**
+ * Let the autocomplete popup handle keys before the editor does.
+ */
+export function setNoteLinkKeyHandler(editor: Editor, handler: NoteLinkStorage['keyHandler']) {
+    const storage = editor.storage.noteLink;
+    if (storage) {
+        storage.keyHandler = handler;
+    }
+}
+
+/**
+ * Read the link attributes from a rendered note link element.
+ */
+export function getNoteLinkFromElement(element: Element): NoteLinkAttributes | null {
+    const link = element.closest(`span[data-type="${NOTE_LINK_TYPE}"]`);
+    if (!link) return null;
+    return {
+        noteId: link.getAttribute('data-note-id') || null,
+        title: link.textContent ?? '',
+    };
+}
+
+export default NoteLink;
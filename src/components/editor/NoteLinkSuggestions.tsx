@@ -0,0 +1,188 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { motion, AnimatePresence } from 'framer-motion';
+import type { Editor } from '@tiptap/react';
+import { useNoteLinkSuggestions } from '../../hooks/useNoteLinks';
+import { OpenMoji } from '../ui/OpenMoji';
+import { setNoteLinkKeyHandler } from './NoteLinkExtension';
+
+interface NoteLinkSuggestionsProps {
+    editor: Editor | null;
+    /** Note being edited, left out of the suggestions */
+    noteId?: string;
+}
+
+interface LinkQuery {
+    query: string;
+    from: number;
+    to: number;
+    left: number;
+    top: number;
+}
+
+/**
+ * Find an unfinished `[[query` right before the cursor
+ */
+function getLinkQuery(editor: Editor): LinkQuery | null {
+    const { selection } = editor.state;
+    if (!editor.isEditable || !selection.empty) return null;
+
+    const { $from } = selection;
+    const textBefore = $from.parent.textBetween(0, $from.parentOffset, undefined, '￼');
+    const match = textBefore.match(/\[\[([^[\]]*)$/);
+    if (!match) return null;
+
+    const from = $from.pos - match[0].length;
+    const coords = editor.view.coordsAtPos(from);
+
+    return { query: match[1]!, from, to: $from.pos, left: coords.left, top: coords.bottom + 4 };
+}
+
+/**
+ * Autocomplete popup for `[[Note title]]` links.
+ */
+export function NoteLinkSuggestions({ editor, noteId }: NoteLinkSuggestionsProps) {
+    const [linkQuery, setLinkQuery] = useState<LinkQuery | null>(null);
+    const [activeIndex, setActiveIndex] = useState(0);
+    const [dismissedFrom, setDismissedFrom] = useState<number | null>(null);
+
+    const isOpen = !!linkQuery && linkQuery.from !== dismissedFrom;
+    const { suggestions } = useNoteLinkSuggestions(isOpen ? linkQuery.query : null, noteId);
+    const typedTitle = linkQuery?.query.trim() ?? '';
+    const optionCount = suggestions.length + (typedTitle ? 1 : 0);
+
+    // Track the query as the user types
+    useEffect(() => {
+        if (!editor) return;
+
+        const handleTransaction = () => {
+            setLinkQuery(getLinkQuery(editor));
+            setActiveIndex(0);
+        };
+
+        editor.on('transaction', handleTransaction);
+        return () => {
+            editor.off('transaction', handleTransaction);
+        };
+    }, [editor]);
+
+    const selectOption = (index: number) => {
+        if (!editor || !linkQuery) return;
+
+        const suggestion = suggestions[index];
+        const attributes = suggestion
+            ? { noteId: suggestion.id, title: suggestion.title || 'Untitled' }
+            : { noteId: null, title: typedTitle };
+        if (!attributes.title) return;
+
+        editor.chain().focus().insertNoteLink(attributes, { from: linkQuery.from, to: linkQuery.to }).run();
+    };
+
+    // Take over navigation keys while the popup is open
+    useEffect(() => {
+        if (!editor) return;
+
+        setNoteLinkKeyHandler(editor, (event) => {
+            if (!isOpen || !linkQuery || optionCount === 0) return false;
+
+            switch (event.key) {
+                case 'ArrowDown':
+                    setActiveIndex(index => (index + 1) % optionCount);
+                    return true;
+                case 'ArrowUp':
+                    setActiveIndex(index => (index - 1 + optionCount) % optionCount);
+                    return true;
+                case 'Enter':
+                case 'Tab':
+                    selectOption(Math.min(activeIndex, optionCount - 1));
+                    return true;
+                case 'Escape':
+                    setDismissedFrom(linkQuery.from);
+                    return true;
+                default:
+                    return false;
+            }
+        });
+
+        return () => {
+            setNoteLinkKeyHandler(editor, null);
+        };
+    });
+
+    if (typeof document === 'undefined') return null;
+
+    return createPortal(
+        <AnimatePresence>
+            {isOpen && optionCount > 0 && (
+                <motion.div
+                    initial={{ opacity: 0, y: -4 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, y: -4 }}
+                    transition={{ duration: 0.12 }}
+                    className="fixed z-[1000] w-72 max-h-72 overflow-y-auto rounded-xl py-1"
+                    style={{
+                        left: linkQuery.left,
+                        top: linkQuery.top,
+                        background: 'var(--surface-content)',
+                        border: '1px solid var(--border-primary)',
+                        boxShadow: 'var(--shadow-lg, 0 10px 30px rgba(0, 0, 0, 0.15))',
+                    }}
+                    role="listbox"
+                    aria-label="Link to note"
+                >
+                    {suggestions.map((suggestion, index) => (
+                        <button
+                            key={suggestion.id}
+                            type="button"
+                            role="option"
+                            aria-selected={index === activeIndex}
+                            onMouseDown={(e) => {
+                                e.preventDefault();
+                                selectOption(index);
+                            }}
+                            onMouseEnter={() => setActiveIndex(index)}
+                            className="w-full flex items-center gap-2 px-3 py-2 text-left text-sm"
+                            style={{
+                                background: index === activeIndex ? 'var(--accent-glow-soft)' : 'transparent',
+                                color: index === activeIndex ? 'var(--accent-primary)' : 'var(--text-primary)',
+                            }}
+                        >
+                            {suggestion.icon ? (
+                                <OpenMoji hexcode={suggestion.icon} size={16} />
+                            ) : (
+                                <svg className="w-4 h-4 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24" style={{ color: 'var(--text-muted)' }}>
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                                </svg>
+                            )}
+                            <span className="truncate">{suggestion.title || 'Untitled'}</span>
+                        </button>
+                    ))}
+                    {typedTitle && (
+                        <button
+                            type="button"
+                            role="option"
+                            aria-selected={activeIndex === suggestions.length}
+                            onMouseDown={(e) => {
+                                e.preventDefault();
+                                selectOption(suggestions.length);
+                            }}
+                            onMouseEnter={() => setActiveIndex(suggestions.length)}
+                            className="w-full flex items-center gap-2 px-3 py-2 text-left text-sm"
+                            style={{
+                                background: activeIndex === suggestions.length ? 'var(--accent-glow-soft)' : 'transparent',
+                                color: 'var(--text-muted)',
+                                borderTop: suggestions.length > 0 ? '1px solid var(--border-subtle)' : 'none',
+                            }}
+                        >
+                            <span className="w-4 text-center shrink-0">+</span>
+                            <span className="truncate">Link to &ldquo;{typedTitle}&rdquo;</span>
+                        </button>
+                    )}
+                </motion.div>
+            )}
+        </AnimatePresence>,
+        document.body
+    );
+}
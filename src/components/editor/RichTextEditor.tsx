@@ -1,21 +1,19 @@
 'use client';
 
 import { useEditor, EditorContent, Editor } from '@tiptap/react';
-import StarterKit from '@tiptap/starter-kit';
-import Link from '@tiptap/extension-link';
 import Placeholder from '@tiptap/extension-placeholder';
-import TextAlign from '@tiptap/extension-text-align';
-import Underline from '@tiptap/extension-underline';
-import { TextStyle } from '@tiptap/extension-text-style';
-import Color from '@tiptap/extension-color';
-import Highlight from '@tiptap/extension-highlight';
-import Image from '@tiptap/extension-image';
 import Dropcursor from '@tiptap/extension-dropcursor';
-import { Table } from '@tiptap/extension-table';
-import TableRow from '@tiptap/extension-table-row';
-import TableCell from '@tiptap/extension-table-cell';
-import TableHeader from '@tiptap/extension-table-header';
+import Collaboration from '@tiptap/extension-collaboration';
+import CollaborationCaret from '@tiptap/extension-collaboration-caret';
 import { useEffect, useState } from 'react';
+import { getNoteExtensions } from './extensions';
+import { getNoteLinkFromElement, type NoteLinkAttributes } from './NoteLinkExtension';
+import { NoteLinkSuggestions } from './NoteLinkSuggestions';
+import { getEncryptedContentFromElement } from './EncryptedContentExtension';
+import { DecryptContentModal } from './EncryptionModals';
+import type { EnCryptData } from '@/lib/encryption/en-crypt';
+import { NOTE_DOCUMENT_FIELD } from '@/lib/collaboration/presence';
+import type { CollaborationSession } from '@/hooks/useCollaboration';
 
 interface RichTextEditorProps {
     content: string;
@@ -24,6 +22,9 @@ interface RichTextEditorProps {
     disabled?: boolean;
     onEditorReady?: (editor: Editor) => void;
     showToolbar?: boolean;
+    noteId?: string; // Excluded from [[link]] suggestions
+    onNoteLinkClick?: (link: NoteLinkAttributes) => void;
+    collaboration?: CollaborationSession | null; // Edit a shared document instead of `content`
 }
 
 // Toolbar Button Component
@@ -304,6 +305,15 @@ function Toolbar({ editor }: { editor: Editor | null }) {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h1v4H4V6zm0 6h1v4H4v-4zm0 6h1v4H4v-4zM8 6h12M8 12h12M8 18h12" />
                 </svg>
             </ToolbarButton>
+            <ToolbarButton
+                onClick={() => editor.chain().focus().toggleTaskList().run()}
+                isActive={editor.isActive('taskList')}
+                title="Checklist"
+            >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 5h4v4H3V5zm0 10h4v4H3v-4zm1-7l1 1 2-2M11 7h10M11 17h10" />
+                </svg>
+            </ToolbarButton>
 
             <ToolbarDivider />
 
@@ -557,54 +567,33 @@ export function RichTextEditor({
     disabled = false,
     onEditorReady,
     showToolbar = false,
+    noteId,
+    onNoteLinkClick,
+    collaboration,
 }: RichTextEditorProps) {
     const editor = useEditor({
         extensions: [
-            StarterKit.configure({
-                heading: {
-                    levels: [1, 2, 3],
-                },
-            }),
-            Link.configure({
-                openOnClick: false,
-                HTMLAttributes: {
-                    class: 'text-[#EB7A53] dark:text-[#EB7A53] underline hover:text-[#B8860B] dark:hover:text-[#F7D44C]',
-                },
-            }),
+            ...getNoteExtensions({ undoRedo: !collaboration }),
             Placeholder.configure({
                 placeholder,
             }),
-            TextAlign.configure({
-                types: ['heading', 'paragraph'],
-            }),
-            Underline,
-            TextStyle,
-            Color,
-            Highlight.configure({
-                multicolor: true,
-            }),
-            Image.configure({
-                inline: true,
-                allowBase64: true,
-                HTMLAttributes: {
-                    class: 'max-w-full h-auto rounded-lg',
-                },
-            }),
             Dropcursor.configure({
                 color: '#F7D44C',
                 width: 2,
             }),
-            Table.configure({
-                resizable: true,
-                HTMLAttributes: {
-                    class: 'table-auto border-collapse w-full',
-                },
-            }),
-            TableRow,
-            TableCell,
-            TableHeader,
+            ...(collaboration ? [
+                Collaboration.configure({
+                    document: collaboration.document,
+                    field: NOTE_DOCUMENT_FIELD,
+                }),
+                CollaborationCaret.configure({
+                    provider: collaboration.provider,
+                    user: collaboration.user,
+                }),
+            ] : []),
         ],
-        content,
+        // The shared document supplies the content when collaborating
+        content: collaboration ? undefined : content,
         editable: !disabled,
         immediatelyRender: false, // Fix SSR hydration mismatch in Next.js
         onUpdate: ({ editor }) => {
@@ -616,7 +605,7 @@ export function RichTextEditor({
                 class: 'prose prose-zinc dark:prose-invert max-w-none focus:outline-none min-h-[200px]',
             },
         },
-    });
+    }, [collaboration]);
 
     // Notify parent when editor is ready
     useEffect(() => {
@@ -627,10 +616,46 @@ export function RichTextEditor({
 
     // Update content when prop changes
     useEffect(() => {
-        if (editor && content !== editor.getHTML()) {
+        if (editor && !collaboration && content !== editor.getHTML()) {
             editor.commands.setContent(content, { emitUpdate: false });
         }
-    }, [content, editor]);
+    }, [content, editor, collaboration]);
+
+    // Follow [[note links]] on click
+    useEffect(() => {
+        if (!editor || !onNoteLinkClick) return;
+
+        const handleClick = (event: MouseEvent) => {
+            const link = event.target instanceof Element ? getNoteLinkFromElement(event.target) : null;
+            if (link) {
+                event.preventDefault();
+                onNoteLinkClick(link);
+            }
+        };
+
+        const dom = editor.view.dom;
+        dom.addEventListener('click', handleClick);
+        return () => dom.removeEventListener('click', handleClick);
+    }, [editor, onNoteLinkClick]);
+
+    // Decrypt encrypted content on click
+    const [decryptTarget, setDecryptTarget] = useState<{ data: EnCryptData; pos: number } | null>(null);
+
+    useEffect(() => {
+        if (!editor) return;
+
+        const handleClick = (event: MouseEvent) => {
+            const target = event.target instanceof Element ? getEncryptedContentFromElement(editor, event.target) : null;
+            if (target) {
+                event.preventDefault();
+                setDecryptTarget(target);
+            }
+        };
+
+        const dom = editor.view.dom;
+        dom.addEventListener('click', handleClick);
+        return () => dom.removeEventListener('click', handleClick);
+    }, [editor]);
 
     // Update editable state
     useEffect(() => {
@@ -644,6 +669,12 @@ export function RichTextEditor({
             {/* Show inline toolbar only if explicitly requested */}
             {showToolbar && !disabled && <Toolbar editor={editor} />}
             <EditorContent editor={editor} />
+            {!disabled && <NoteLinkSuggestions editor={editor} noteId={noteId} />}
+            <DecryptContentModal
+                editor={editor}
+                target={decryptTarget}
+                onClose={() => setDecryptTarget(null)}
+            />
         </div>
     );
 }
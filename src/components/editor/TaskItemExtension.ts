@@ -0,0 +1,23 @@
+import TaskItem from '@tiptap/extension-task-item';
+import { DUE_DATE_PATTERN } from '@/lib/tasks/task-markup';
+
+/**
+ * Task item with an optional due date, stored as `data-due-date="YYYY-MM-DD"`
+ * on the item so the task inbox can read and set it.
+ */
+export const DatedTaskItem = TaskItem.extend({
+    addAttributes() {
+        return {
+            ...this.parent?.(),
+            dueDate: {
+                default: null,
+                parseHTML: (element: HTMLElement) => {
+                    const value = element.getAttribute('data-due-date');
+                    return value && DUE_DATE_PATTERN.test(value) ? value : null;
+                },
+                renderHTML: (attributes: { dueDate: string | null }) =>
+                    attributes.dueDate ? { 'data-due-date': attributes.dueDate } : {},
+            },
+        };
+    },
+});
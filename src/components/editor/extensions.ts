@@ -0,0 +1,75 @@
+import type { Extensions } from '@tiptap/core';
+import StarterKit from '@tiptap/starter-kit';
+import Link from '@tiptap/extension-link';
+import TextAlign from '@tiptap/extension-text-align';
+import Underline from '@tiptap/extension-underline';
+import { TextStyle } from '@tiptap/extension-text-style';
+import Color from '@tiptap/extension-color';
+import Highlight from '@tiptap/extension-highlight';
+import Image from '@tiptap/extension-image';
+import { Table } from '@tiptap/extension-table';
+import TableRow from '@tiptap/extension-table-row';
+import TableCell from '@tiptap/extension-table-cell';
+import TableHeader from '@tiptap/extension-table-header';
+import TaskList from '@tiptap/extension-task-list';
+import { NoteLink } from './NoteLinkExtension';
+import { EncryptedContent } from './EncryptedContentExtension';
+import { DatedTaskItem } from './TaskItemExtension';
+
+export interface NoteExtensionOptions {
+    // Collaborative editing brings its own undo history
+    undoRedo?: boolean;
+}
+
+/**
+ * Nodes and marks a note can contain. The collaboration server builds its
+ * schema from the same list, so documents convert to the HTML the editor
+ * produces.
+ */
+export function getNoteExtensions({ undoRedo = true }: NoteExtensionOptions = {}): Extensions {
+    return [
+        StarterKit.configure({
+            heading: {
+                levels: [1, 2, 3],
+            },
+            ...(!undoRedo && { undoRedo: false }),
+        }),
+        Link.configure({
+            openOnClick: false,
+            HTMLAttributes: {
+                class: 'text-[#EB7A53] dark:text-[#EB7A53] underline hover:text-[#B8860B] dark:hover:text-[#F7D44C]',
+            },
+        }),
+        TextAlign.configure({
+            types: ['heading', 'paragraph'],
+        }),
+        Underline,
+        TextStyle,
+        Color,
+        Highlight.configure({
+            multicolor: true,
+        }),
+        Image.configure({
+            inline: true,
+            allowBase64: true,
+            HTMLAttributes: {
+                class: 'max-w-full h-auto rounded-lg',
+            },
+        }),
+        Table.configure({
+            resizable: true,
+            HTMLAttributes: {
+                class: 'table-auto border-collapse w-full',
+            },
+        }),
+        TableRow,
+        TableCell,
+        TableHeader,
+        TaskList,
+        DatedTaskItem.configure({
+            nested: true,
+        }),
+        NoteLink,
+        EncryptedContent,
+    ];
+}
@@ -21,13 +21,47 @@ interface ImportModalProps {
 
 interface BatchImportResult {
     totalNotesImported: number;
+    totalNotesSkipped: number;
+    totalNotesOverwritten: number;
     totalAttachmentsImported: number;
     filesProcessed: number;
     errors: string[];
+    cancelled: boolean;
+}
+
+/** Import job as reported by GET /api/import/[id] */
+interface ImportJobStatus {
+    id: string;
+    status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+    totalNotes: number | null;
+    imported: number;
+    failed: number;
+    skipped: number;
+    overwritten: number;
+    progress: number;
+    errors: string[] | null;
+}
+
+/** Upload target from POST /api/import/uploads */
+interface ImportUpload {
+    storageKey: string;
+    upload: { url: string; method: string; headers: Record<string, string> };
 }
 
 type ImportStatus = 'idle' | 'uploading' | 'processing' | 'complete' | 'error';
 
+/** What the importer does with notes that were imported before */
+type DuplicateMode = 'skip' | 'overwrite' | 'keep-both';
+
+const DUPLICATE_MODE_OPTIONS: { value: DuplicateMode; label: string; description: string }[] = [
+    { value: 'skip', label: 'Skip', description: 'Notes that were already imported are left out.' },
+    { value: 'overwrite', label: 'Overwrite', description: 'Notes that were already imported are replaced. The old version stays in the note history.' },
+    { value: 'keep-both', label: 'Keep both', description: 'Every note is imported, even if a copy already exists.' },
+];
+
+const POLL_INTERVAL_MS = 1000;
+const FINISHED_JOB_STATUSES = ['completed', 'failed', 'cancelled'];
+
 // Import limits for context and accuracy
 const MAX_FILES = 50;
 const MAX_TOTAL_SIZE = 100 * 1024 * 1024; // 100MB
@@ -41,15 +75,20 @@ export function ImportModal({ isOpen, onClose }: ImportModalProps) {
     const [result, setResult] = useState<ImportResult | null>(null);
     const [batchResult, setBatchResult] = useState<BatchImportResult | null>(null);
     const [error, setError] = useState<string | null>(null);
+    const [jobStatus, setJobStatus] = useState<ImportJobStatus | null>(null);
+    const [isCancelling, setIsCancelling] = useState(false);
+    const [duplicateMode, setDuplicateMode] = useState<DuplicateMode>('skip');
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const activeJobIdRef = useRef<string | null>(null);
+    const cancelRequestedRef = useRef(false);
 
     const validateFiles = (fileList: File[]): { valid: boolean; error?: string } => {
         // Check for supported file types
-        const validExtensions = ['.enex', '.pdf', '.docx', '.txt'];
+        const validExtensions = ['.enex', '.pdf', '.docx', '.txt', '.md', '.markdown', '.zip'];
         const invalidFiles = fileList.filter(f => !validExtensions.some(ext => f.name.toLowerCase().endsWith(ext)));
 
         if (invalidFiles.length > 0) {
-            return { valid: false, error: `Please select supported files (.enex, .pdf, .docx, .txt). Invalid: ${invalidFiles.map(f => f.name).join(', ')}` };
+            return { valid: false, error: `Please select supported files (.enex, .pdf, .docx, .txt, .md, .zip). Invalid: ${invalidFiles.map(f => f.name).join(', ')}` };
         }
 
         // Check individual file size
@@ -136,6 +175,62 @@ export function ImportModal({ isOpen, onClose }: ImportModalProps) {
         e.preventDefault();
     }, []);
 
+    /**
+     * Poll a queued import until it finishes, reporting progress as it goes.
+     */
+    const waitForJob = async (jobId: string, onUpdate: (job: ImportJobStatus) => void): Promise<ImportJobStatus> => {
+        for (;;) {
+            await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+
+            const response = await fetch(`/api/import/${jobId}`);
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({}));
+                throw new Error(errorData.error || 'Failed to fetch import status');
+            }
+
+            const job: ImportJobStatus = await response.json();
+            onUpdate(job);
+            if (FINISHED_JOB_STATUSES.includes(job.status)) return job;
+        }
+    };
+
+    /**
+     * Upload a file straight to storage, then queue it. Resolves with the
+     * queueing response; throws if the upload itself fails.
+     */
+    const uploadAndQueue = async (file: File): Promise<Response> => {
+        const mimeType = file.type || 'application/octet-stream';
+
+        const uploadResponse = await fetch('/api/import/uploads', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ filename: file.name, mimeType, size: file.size }),
+        });
+        if (!uploadResponse.ok) return uploadResponse;
+
+        const { storageKey, upload }: ImportUpload = await uploadResponse.json();
+        const stored = await fetch(upload.url, {
+            method: upload.method,
+            headers: upload.headers,
+            body: file,
+        });
+        if (!stored.ok) throw new Error('Upload failed');
+
+        return fetch('/api/import', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                storageKey,
+                filename: file.name,
+                mimeType,
+                lastModified: file.lastModified,
+                // Use the filename (without extension) as the notebook name
+                notebookName: file.name.replace(/\.[^/.]+$/, ''),
+                duplicateMode,
+            }),
+        });
+    };
+
     const handleImport = async () => {
         if (files.length === 0) return;
 
@@ -143,58 +238,88 @@ export function ImportModal({ isOpen, onClose }: ImportModalProps) {
         setProgress(0);
         setError(null);
         setCurrentFileIndex(0);
+        setJobStatus(null);
+        setIsCancelling(false);
+        cancelRequestedRef.current = false;
 
         const totalFiles = files.length;
         let totalNotesImported = 0;
-        let totalAttachmentsImported = 0;
+        let totalNotesSkipped = 0;
+        let totalNotesOverwritten = 0;
+        let filesProcessed = 0;
+        const totalAttachmentsImported = 0;
         const allErrors: string[] = [];
 
         try {
             for (let i = 0; i < files.length; i++) {
                 const file = files[i];
                 if (!file) continue; // Skip if file is undefined
+                if (cancelRequestedRef.current) break;
 
                 setCurrentFileIndex(i);
-
-                const formData = new FormData();
-                formData.append('file', file);
-                // TODO: Get actual userId from auth context
-                formData.append('userId', 'user-1');
-                // Use the filename (without .enex) as the notebook name
-                const notebookName = file.name.replace(/\.enex$/i, '');
-                formData.append('notebookName', notebookName);
-
-                setStatus('processing');
-
-                const response = await fetch('/api/import', {
-                    method: 'POST',
-                    body: formData,
-                });
-
-                // Update progress
-                const progressPercent = Math.round(((i + 1) / totalFiles) * 100);
-                setProgress(progressPercent);
+                setJobStatus(null);
+                setStatus('uploading');
+
+                let response: Response;
+                try {
+                    response = await uploadAndQueue(file);
+                } catch (err) {
+                    allErrors.push(`${file.name}: ${err instanceof Error ? err.message : 'Upload failed'}`);
+                    setProgress(Math.round(((i + 1) / totalFiles) * 100));
+                    continue; // Continue with next file
+                }
 
                 if (!response.ok) {
                     const errorData = await response.json();
                     allErrors.push(`${file.name}: ${errorData.error || 'Import failed'}`);
+                    setProgress(Math.round(((i + 1) / totalFiles) * 100));
                     continue; // Continue with next file
                 }
 
-                const importResult = await response.json();
-                totalNotesImported += importResult.imported || importResult.notesImported || 0;
-                totalAttachmentsImported += importResult.attachmentsImported || 0;
-                if (importResult.errors && importResult.errors.length > 0) {
-                    allErrors.push(...importResult.errors.map((err: string) => `${file.name}: ${err}`));
+                // The import runs in the background; follow the queued job
+                const { jobId } = await response.json();
+                activeJobIdRef.current = jobId;
+                setStatus('processing');
+
+                // Cancelled while the file was uploading
+                if (cancelRequestedRef.current) {
+                    await fetch(`/api/import/${jobId}`, { method: 'DELETE' });
+                }
+
+                let job: ImportJobStatus;
+                try {
+                    job = await waitForJob(jobId, (update) => {
+                        setJobStatus(update);
+                        setProgress(Math.round(((i + update.progress / 100) / totalFiles) * 100));
+                    });
+                } catch (err) {
+                    allErrors.push(`${file.name}: ${err instanceof Error ? err.message : 'Import failed'}`);
+                    continue;
+                } finally {
+                    activeJobIdRef.current = null;
                 }
+
+                totalNotesImported += job.imported;
+                totalNotesSkipped += job.skipped;
+                totalNotesOverwritten += job.overwritten;
+                if (job.status !== 'failed') filesProcessed++;
+                if (job.errors && job.errors.length > 0) {
+                    allErrors.push(...job.errors.map((err: string) => `${file.name}: ${err}`));
+                } else if (job.status === 'failed') {
+                    allErrors.push(`${file.name}: Import failed`);
+                }
+                setProgress(Math.round(((i + 1) / totalFiles) * 100));
             }
 
             // Set batch result
             setBatchResult({
                 totalNotesImported,
+                totalNotesSkipped,
+                totalNotesOverwritten,
                 totalAttachmentsImported,
-                filesProcessed: totalFiles - allErrors.filter(e => e.includes('Import failed')).length,
+                filesProcessed,
                 errors: allErrors,
+                cancelled: cancelRequestedRef.current,
             });
 
             setStatus('complete');
@@ -204,6 +329,20 @@ export function ImportModal({ isOpen, onClose }: ImportModalProps) {
         }
     };
 
+    const handleCancelImport = async () => {
+        cancelRequestedRef.current = true;
+        setIsCancelling(true);
+
+        const jobId = activeJobIdRef.current;
+        if (!jobId) return;
+
+        try {
+            await fetch(`/api/import/${jobId}`, { method: 'DELETE' });
+        } catch (err) {
+            console.error('Failed to cancel import:', err);
+        }
+    };
+
     const handleClose = () => {
         if (status === 'uploading' || status === 'processing') {
             return; // Don't allow closing during import
@@ -215,6 +354,8 @@ export function ImportModal({ isOpen, onClose }: ImportModalProps) {
         setResult(null);
         setBatchResult(null);
         setError(null);
+        setJobStatus(null);
+        setIsCancelling(false);
         onClose();
     };
 
@@ -270,12 +411,12 @@ export function ImportModal({ isOpen, onClose }: ImportModalProps) {
                             Drop your files here
                         </p>
                         <p className="text-xs text-zinc-500 dark:text-zinc-400">
-                            or click to browse (.enex, .pdf, .docx, .txt)
+                            or click to browse (.enex, .pdf, .docx, .txt, .md, Markdown vault .zip)
                         </p>
                         <input
                             ref={fileInputRef}
                             type="file"
-                            accept=".enex,.pdf,.docx,.txt"
+                            accept=".enex,.pdf,.docx,.txt,.md,.markdown,.zip"
                             multiple
                             onChange={handleFileSelect}
                             className="hidden"
@@ -328,13 +469,44 @@ export function ImportModal({ isOpen, onClose }: ImportModalProps) {
                     </div>
                 )}
 
+                {/* Duplicate Handling */}
+                {files.length > 0 && status === 'idle' && (
+                    <div>
+                        <p className="text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+                            Notes imported before
+                        </p>
+                        <div className="grid grid-cols-3 gap-2">
+                            {DUPLICATE_MODE_OPTIONS.map((option) => (
+                                <button
+                                    key={option.value}
+                                    type="button"
+                                    onClick={() => setDuplicateMode(option.value)}
+                                    className={`px-3 py-2 rounded-lg text-xs font-medium border transition-colors ${duplicateMode === option.value
+                                        ? 'border-emerald-500 bg-emerald-50 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300'
+                                        : 'border-zinc-200 dark:border-zinc-700 text-zinc-600 dark:text-zinc-400 hover:bg-zinc-50 dark:hover:bg-zinc-800'
+                                        }`}
+                                >
+                                    {option.label}
+                                </button>
+                            ))}
+                        </div>
+                        <p className="text-xs text-zinc-500 dark:text-zinc-400 mt-2">
+                            {DUPLICATE_MODE_OPTIONS.find(option => option.value === duplicateMode)?.description}
+                        </p>
+                    </div>
+                )}
+
                 {/* Progress */}
                 {(status === 'uploading' || status === 'processing') && (
                     <div className="space-y-4">
                         <div className="flex items-center gap-3">
                             <Spinner />
                             <span className="text-sm text-zinc-700 dark:text-zinc-300">
-                                {status === 'uploading' ? 'Uploading...' : `Processing file ${currentFileIndex + 1} of ${files.length}...`}
+                                {isCancelling
+                                    ? 'Cancelling...'
+                                    : status === 'uploading'
+                                        ? `Uploading file ${currentFileIndex + 1} of ${files.length}...`
+                                        : `Processing file ${currentFileIndex + 1} of ${files.length}...`}
                             </span>
                         </div>
                         <div className="w-full h-2 bg-zinc-200 dark:bg-zinc-700 rounded-full overflow-hidden">
@@ -346,6 +518,7 @@ export function ImportModal({ isOpen, onClose }: ImportModalProps) {
                         {files.length > 0 && currentFileIndex < files.length && (
                             <p className="text-xs text-zinc-500 dark:text-zinc-400 text-center">
                                 {files[currentFileIndex]?.name}
+                                {jobStatus?.totalNotes ? ` · ${jobStatus.imported + jobStatus.failed + jobStatus.skipped + jobStatus.overwritten} of ${jobStatus.totalNotes} notes` : ''}
                             </p>
                         )}
                     </div>
@@ -360,19 +533,27 @@ export function ImportModal({ isOpen, onClose }: ImportModalProps) {
                             </svg>
                         </div>
                         <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100 mb-1">
-                            Batch Import Complete!
+                            {batchResult.cancelled ? 'Import Cancelled' : 'Batch Import Complete!'}
                         </h3>
                         <p className="text-sm text-zinc-500 dark:text-zinc-400">
                             Successfully imported {batchResult.totalNotesImported} note{batchResult.totalNotesImported !== 1 ? 's' : ''}
                             {batchResult.totalAttachmentsImported > 0 && ` and ${batchResult.totalAttachmentsImported} attachment${batchResult.totalAttachmentsImported !== 1 ? 's' : ''}`}
                         </p>
+                        {(batchResult.totalNotesOverwritten > 0 || batchResult.totalNotesSkipped > 0) && (
+                            <p className="text-sm text-zinc-500 dark:text-zinc-400">
+                                {[
+                                    batchResult.totalNotesOverwritten > 0 && `${batchResult.totalNotesOverwritten} overwritten`,
+                                    batchResult.totalNotesSkipped > 0 && `${batchResult.totalNotesSkipped} skipped as duplicate${batchResult.totalNotesSkipped !== 1 ? 's' : ''}`,
+                                ].filter(Boolean).join(', ')}
+                            </p>
+                        )}
                         <p className="text-xs text-zinc-400 dark:text-zinc-500 mt-1">
                             from {batchResult.filesProcessed} file{batchResult.filesProcessed !== 1 ? 's' : ''}
                         </p>
                         {batchResult.errors.length > 0 && (
                             <div className="mt-4 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 text-left">
                                 <p className="text-xs font-medium text-amber-700 dark:text-amber-400 mb-1">
-                                    {batchResult.errors.length} warning(s):
+                                    {batchResult.errors.length} message(s):
                                 </p>
                                 <ul className="text-xs text-amber-600 dark:text-amber-300 list-disc list-inside max-h-32 overflow-y-auto">
                                     {batchResult.errors.slice(0, 5).map((err, i) => (
@@ -452,6 +633,11 @@ export function ImportModal({ isOpen, onClose }: ImportModalProps) {
                             </Button>
                         </>
                     )}
+                    {(status === 'uploading' || status === 'processing') && (
+                        <Button variant="secondary" onClick={handleCancelImport} disabled={isCancelling}>
+                            {isCancelling ? 'Cancelling...' : 'Cancel Import'}
+                        </Button>
+                    )}
                     {status === 'complete' && (
                         <Button variant="primary" onClick={handleClose}>
                             Done
@@ -27,6 +27,23 @@ interface Stack {
     userId?: string;
 }
 
+interface SavedSearch {
+    id: string;
+    name: string;
+    query: string;
+    icon?: string | null;
+    noteCount: number;
+}
+
+interface SharedNotebook {
+    id: string;
+    name: string;
+    icon?: string | null;
+    noteCount: number;
+    role: string;
+    owner: { name: string | null; email: string };
+}
+
 interface AppLayoutProps {
     children: ReactNode;
     // Sidebar props
@@ -44,10 +61,14 @@ interface AppLayoutProps {
     onTagDelete?: (tagId: string) => Promise<void>;
     onTrashClick?: () => void;
     trashCount?: number;
+    onTasksClick?: () => void;
+    openTaskCount?: number;
+    showTasksView?: boolean;
     showNotebooksView?: boolean;
     // Header props
     onImportClick?: () => void;
     onSearch?: (query: string) => void;
+    searchValue?: string;
     // Stack props
     stacks?: Stack[];
     onStackCreate?: (name: string) => Promise<void>;
@@ -56,6 +77,13 @@ interface AppLayoutProps {
     onNotebookMove?: (notebookId: string, stackId: string | null) => Promise<void>;
     selectedStackId?: string | null;
     onStackSelect?: (id: string | null) => void;
+    // Saved search props
+    savedSearches?: SavedSearch[];
+    selectedSavedSearchId?: string | null;
+    onSavedSearchSelect?: (id: string) => void;
+    onSavedSearchDelete?: (id: string) => Promise<void>;
+    // Notebooks shared with the user
+    sharedNotebooks?: SharedNotebook[];
 }
 
 export function AppLayout({
@@ -74,9 +102,13 @@ export function AppLayout({
     onTagDelete,
     onTrashClick,
     trashCount,
+    onTasksClick,
+    openTaskCount,
+    showTasksView,
     showNotebooksView = false,
     onImportClick,
     onSearch,
+    searchValue,
     stacks = [],
     onStackCreate,
     onStackUpdate,
@@ -84,6 +116,11 @@ export function AppLayout({
     onNotebookMove,
     selectedStackId,
     onStackSelect,
+    savedSearches = [],
+    selectedSavedSearchId,
+    onSavedSearchSelect,
+    onSavedSearchDelete,
+    sharedNotebooks = [],
 }: AppLayoutProps) {
     const [sidebarOpen, setSidebarOpen] = useState(false);
     const closeSidebar = useCallback(() => setSidebarOpen(false), []);
@@ -135,6 +172,7 @@ export function AppLayout({
                     showMenuButton={isMobile}
                     onImportClick={onImportClick}
                     onSearch={onSearch}
+                    searchValue={searchValue}
                 />
             </motion.div>
 
@@ -245,8 +283,19 @@ export function AppLayout({
                         }}
                         onItemClick={handleSidebarItemClick}
                         onTagDelete={onTagDelete}
+                        savedSearches={savedSearches}
+                        selectedSavedSearchId={selectedSavedSearchId}
+                        onSavedSearchSelect={(id: string) => {
+                            onSavedSearchSelect?.(id);
+                            handleSidebarItemClick();
+                        }}
+                        onSavedSearchDelete={onSavedSearchDelete}
+                        sharedNotebooks={sharedNotebooks}
                         onTrashClick={onTrashClick}
                         trashCount={trashCount}
+                        onTasksClick={onTasksClick}
+                        openTaskCount={openTaskCount}
+                        showTasksView={showTasksView}
                         showNotebooksView={showNotebooksView}
                     />
                 </aside>
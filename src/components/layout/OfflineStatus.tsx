@@ -0,0 +1,97 @@
+'use client';
+
+import { CloudOff, RefreshCw, TriangleAlert } from 'lucide-react';
+
+/**
+ * Small status pill for working offline: shows when there's no connection,
+ * how many changes are waiting to sync, notes whose offline edits
+ * collided with newer versions, and changes the server refused.
+ */
+export function OfflineStatus({
+    isOnline,
+    pendingChanges,
+    isSyncing,
+    conflictedNoteIds,
+    failedChanges,
+    onReviewConflict,
+    retryFailedChanges,
+    discardFailedChanges,
+}: {
+    isOnline: boolean;
+    pendingChanges: number;
+    isSyncing: boolean;
+    conflictedNoteIds: string[];
+    failedChanges: number;
+    onReviewConflict: (noteId: string) => void;
+    retryFailedChanges: () => void;
+    discardFailedChanges: () => void;
+}) {
+    if (isOnline && !isSyncing && pendingChanges === 0 && conflictedNoteIds.length === 0 && failedChanges === 0) {
+        return null;
+    }
+
+    const waiting = pendingChanges === 1 ? '1 change waiting to sync' : `${pendingChanges} changes waiting to sync`;
+
+    return (
+        <div
+            className="fixed bottom-4 left-4 z-40 flex items-center gap-2 px-3 py-2 rounded-full text-xs font-medium shadow-lg"
+            style={{
+                background: 'var(--surface-content)',
+                color: 'var(--text-secondary)',
+                border: '1px solid var(--border-subtle, rgba(0, 0, 0, 0.08))',
+            }}
+            role="status"
+        >
+            {conflictedNoteIds.length > 0 ? (
+                <>
+                    <TriangleAlert className="w-3.5 h-3.5" style={{ color: 'var(--warning-color, #ef4444)' }} />
+                    <span>
+                        {conflictedNoteIds.length === 1
+                            ? 'An offline edit needs review'
+                            : `${conflictedNoteIds.length} offline edits need review`}
+                    </span>
+                    <button
+                        onClick={() => onReviewConflict(conflictedNoteIds[0]!)}
+                        className="font-semibold"
+                        style={{ color: 'var(--accent-primary)' }}
+                    >
+                        Review
+                    </button>
+                </>
+            ) : failedChanges > 0 ? (
+                <>
+                    <TriangleAlert className="w-3.5 h-3.5" style={{ color: 'var(--warning-color, #ef4444)' }} />
+                    <span>
+                        {failedChanges === 1
+                            ? "An offline change couldn't be saved"
+                            : `${failedChanges} offline changes couldn't be saved`}
+                    </span>
+                    <button
+                        onClick={retryFailedChanges}
+                        className="font-semibold"
+                        style={{ color: 'var(--accent-primary)' }}
+                    >
+                        Retry
+                    </button>
+                    <button
+                        onClick={discardFailedChanges}
+                        className="font-semibold"
+                        style={{ color: 'var(--text-muted)' }}
+                    >
+                        Discard
+                    </button>
+                </>
+            ) : !isOnline ? (
+                <>
+                    <CloudOff className="w-3.5 h-3.5" />
+                    <span>Offline{pendingChanges > 0 ? ` · ${waiting}` : ''}</span>
+                </>
+            ) : (
+                <>
+                    <RefreshCw className={`w-3.5 h-3.5 ${isSyncing ? 'animate-spin' : ''}`} />
+                    <span>{isSyncing ? 'Syncing offline changes...' : waiting}</span>
+                </>
+            )}
+        </div>
+    );
+}
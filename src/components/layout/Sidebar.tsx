@@ -10,6 +10,7 @@ import { ReportIssueModal } from '@/components/ui/ReportIssueModal';
 import { AddToHomeScreenModal } from '@/components/ui/AddToHomeScreenModal';
 import { ThemeSwitcher } from '@/components/ui/ThemeSwitcher';
 import { Input } from '@/components/ui/Input';
+import { OpenMoji } from '@/components/ui/OpenMoji';
 
 interface Notebook {
     id: string;
@@ -35,6 +36,23 @@ interface Tag {
     noteCount: number;
 }
 
+interface SavedSearch {
+    id: string;
+    name: string;
+    query: string;
+    icon?: string | null;
+    noteCount: number;
+}
+
+interface SharedNotebook {
+    id: string;
+    name: string;
+    icon?: string | null;
+    noteCount: number;
+    role: string;
+    owner: { name: string | null; email: string };
+}
+
 interface SidebarProps {
     notebooks?: Notebook[];
     tags?: Tag[];
@@ -51,6 +69,9 @@ interface SidebarProps {
     onTagDelete?: (id: string) => Promise<void>; // For deleting tags
     onTrashClick?: () => void; // For navigating to trash view
     trashCount?: number; // Number of items in trash
+    onTasksClick?: () => void; // For navigating to the task inbox
+    openTaskCount?: number; // Unchecked checklist items across notes
+    showTasksView?: boolean; // Whether the task inbox is showing
     showNotebooksView?: boolean; // Whether the notebooks grid view is showing
     // Stack handlers
     stacks?: Stack[];
@@ -60,6 +81,13 @@ interface SidebarProps {
     onNotebookMove?: (notebookId: string, stackId: string | null) => Promise<void>;
     selectedStackId?: string | null;
     onStackSelect?: (id: string | null) => void;
+    // Saved search handlers
+    savedSearches?: SavedSearch[];
+    selectedSavedSearchId?: string | null;
+    onSavedSearchSelect?: (id: string) => void;
+    onSavedSearchDelete?: (id: string) => Promise<void>;
+    // Notebooks other people shared with the user
+    sharedNotebooks?: SharedNotebook[];
 }
 
 const listItemVariants = {
@@ -211,6 +239,9 @@ export function Sidebar({
     onTagDelete,
     onTrashClick,
     trashCount = 0,
+    onTasksClick,
+    openTaskCount = 0,
+    showTasksView = false,
     showNotebooksView = false,
     stacks = [],
     onStackCreate,
@@ -219,6 +250,11 @@ export function Sidebar({
     onNotebookMove,
     selectedStackId,
     onStackSelect,
+    savedSearches = [],
+    selectedSavedSearchId,
+    onSavedSearchSelect,
+    onSavedSearchDelete,
+    sharedNotebooks = [],
 }: SidebarProps) {
     const [notebooksExpanded, setNotebooksExpanded] = useState(true);
     const [stacksExpanded, setStacksExpanded] = useState<Record<string, boolean>>({});
@@ -229,6 +265,9 @@ export function Sidebar({
     const [newStackName, setNewStackName] = useState('');
     const [renamedStackName, setRenamedStackName] = useState('');
 
+    const [sharedExpanded, setSharedExpanded] = useState(true);
+    const [savedSearchesExpanded, setSavedSearchesExpanded] = useState(true);
+    const [savedSearchToDelete, setSavedSearchToDelete] = useState<SavedSearch | null>(null);
     const [tagsExpanded, setTagsExpanded] = useState(true);
     const [tagToDelete, setTagToDelete] = useState<Tag | null>(null);
     const [isDeleting, setIsDeleting] = useState(false);
@@ -359,6 +398,23 @@ export function Sidebar({
         onItemClick?.();
     }, [onTagSelect, onItemClick]);
 
+    const handleSavedSearchClick = useCallback((id: string) => {
+        onSavedSearchSelect?.(id);
+        onItemClick?.();
+    }, [onSavedSearchSelect, onItemClick]);
+
+    const handleConfirmSavedSearchDelete = async () => {
+        if (!savedSearchToDelete || !onSavedSearchDelete) return;
+
+        setIsDeleting(true);
+        try {
+            await onSavedSearchDelete(savedSearchToDelete.id);
+            setSavedSearchToDelete(null);
+        } finally {
+            setIsDeleting(false);
+        }
+    };
+
     const handleConfirmDelete = async () => {
         if (!tagToDelete || !onTagDelete) return;
 
@@ -387,16 +443,16 @@ export function Sidebar({
                         }}
                         className="w-full flex items-center gap-2.5 px-2 py-1.5 rounded-lg text-[13.5px] font-medium transition-all duration-200"
                         style={{
-                            background: !selectedNotebookId && !selectedTagId && !showNotebooksView
+                            background: !selectedNotebookId && !selectedTagId && !selectedSavedSearchId && !showNotebooksView && !showTasksView
                                 ? 'var(--sidebar-selection-bg)'
                                 : 'transparent',
-                            border: !selectedNotebookId && !selectedTagId && !showNotebooksView
+                            border: !selectedNotebookId && !selectedTagId && !selectedSavedSearchId && !showNotebooksView && !showTasksView
                                 ? '1px solid var(--sidebar-selection-border)'
                                 : '1px solid transparent',
-                            boxShadow: !selectedNotebookId && !selectedTagId && !showNotebooksView
+                            boxShadow: !selectedNotebookId && !selectedTagId && !selectedSavedSearchId && !showNotebooksView && !showTasksView
                                 ? '0 4px 12px rgba(0, 0, 0, 0.05), inset 0 1px 0 rgba(255, 255, 255, 0.1)'
                                 : 'none',
-                            color: !selectedNotebookId && !selectedTagId && !showNotebooksView
+                            color: !selectedNotebookId && !selectedTagId && !selectedSavedSearchId && !showNotebooksView && !showTasksView
                                 ? 'var(--text-on-shell, var(--text-primary))'
                                 : 'var(--text-on-shell-secondary, var(--text-secondary))'
                         }}
@@ -404,7 +460,7 @@ export function Sidebar({
                         <div
                             className="w-8 h-8 rounded-lg flex items-center justify-center transition-colors"
                             style={{
-                                background: !selectedNotebookId && !selectedTagId && !showNotebooksView
+                                background: !selectedNotebookId && !selectedTagId && !selectedSavedSearchId && !showNotebooksView && !showTasksView
                                     ? 'var(--sidebar-selection-icon)'
                                     : 'var(--surface-shell-hover)'
                             }}
@@ -415,6 +471,49 @@ export function Sidebar({
                         </div>
                         All Notes
                     </motion.button>
+
+                    {/* Tasks */}
+                    <motion.button
+                        whileTap={{ scale: 0.98 }}
+                        onClick={() => {
+                            onTasksClick?.();
+                            onItemClick?.();
+                        }}
+                        className="w-full mt-0.5 flex items-center gap-2.5 px-2 py-1.5 rounded-lg text-[13.5px] font-medium transition-all duration-200"
+                        style={{
+                            background: showTasksView ? 'var(--sidebar-selection-bg)' : 'transparent',
+                            border: showTasksView ? '1px solid var(--sidebar-selection-border)' : '1px solid transparent',
+                            boxShadow: showTasksView
+                                ? '0 4px 12px rgba(0, 0, 0, 0.05), inset 0 1px 0 rgba(255, 255, 255, 0.1)'
+                                : 'none',
+                            color: showTasksView
+                                ? 'var(--text-on-shell, var(--text-primary))'
+                                : 'var(--text-on-shell-secondary, var(--text-secondary))'
+                        }}
+                    >
+                        <div
+                            className="w-8 h-8 rounded-lg flex items-center justify-center transition-colors"
+                            style={{
+                                background: showTasksView ? 'var(--sidebar-selection-icon)' : 'var(--surface-shell-hover)'
+                            }}
+                        >
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+                            </svg>
+                        </div>
+                        <span className="flex-1 text-left">Tasks</span>
+                        {openTaskCount > 0 && (
+                            <span
+                                className="px-1.5 py-0.5 text-xs font-medium rounded-md tabular-nums"
+                                style={{
+                                    background: 'var(--surface-shell-hover)',
+                                    color: 'inherit'
+                                }}
+                            >
+                                {openTaskCount}
+                            </span>
+                        )}
+                    </motion.button>
                 </div>
 
                 {/* Scrollable Content */}
@@ -649,6 +748,217 @@ export function Sidebar({
                         </AnimatePresence>
                     </div>
 
+                    {/* Shared With Me Section */}
+                    {sharedNotebooks.length > 0 && (
+                        <div className="mb-4">
+                            <button
+                                onClick={() => setSharedExpanded(!sharedExpanded)}
+                                className="w-full flex items-center justify-between px-2 py-2 text-xs font-semibold uppercase tracking-wider transition-colors"
+                                style={{ color: 'var(--text-muted)' }}
+                            >
+                                <span className="flex items-center gap-2">
+                                    <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+                                    </svg>
+                                    Shared with me
+                                </span>
+                                <motion.svg
+                                    animate={{ rotate: sharedExpanded ? 0 : -90 }}
+                                    transition={{ duration: 0.2 }}
+                                    className="w-4 h-4"
+                                    fill="none"
+                                    stroke="currentColor"
+                                    viewBox="0 0 24 24"
+                                >
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                                </motion.svg>
+                            </button>
+
+                            <AnimatePresence>
+                                {sharedExpanded && (
+                                    <motion.div
+                                        initial={{ height: 0, opacity: 0 }}
+                                        animate={{ height: 'auto', opacity: 1 }}
+                                        exit={{ height: 0, opacity: 0 }}
+                                        transition={{ duration: 0.2 }}
+                                        className="space-y-1 overflow-hidden"
+                                    >
+                                        {sharedNotebooks.map((notebook, index) => {
+                                            const isSelected = selectedNotebookId === notebook.id;
+                                            const ownerName = notebook.owner.name || notebook.owner.email;
+                                            return (
+                                                <motion.div
+                                                    key={notebook.id}
+                                                    custom={index}
+                                                    variants={listItemVariants}
+                                                    initial="hidden"
+                                                    animate="visible"
+                                                    className="group w-full flex items-center justify-between px-2 py-1 rounded-lg text-[13px] transition-all cursor-pointer"
+                                                    style={{
+                                                        background: isSelected
+                                                            ? 'var(--sidebar-selection-bg)'
+                                                            : 'transparent',
+                                                        border: isSelected
+                                                            ? '1px solid var(--sidebar-selection-border)'
+                                                            : '1px solid transparent',
+                                                        boxShadow: isSelected
+                                                            ? '0 4px 12px rgba(0, 0, 0, 0.05), inset 0 1px 0 rgba(255, 255, 255, 0.1)'
+                                                            : 'none',
+                                                        color: isSelected
+                                                            ? 'var(--text-on-shell, var(--text-primary))'
+                                                            : 'var(--text-on-shell-secondary, var(--text-secondary))'
+                                                    }}
+                                                    onClick={() => handleNotebookClick(notebook.id)}
+                                                    role="button"
+                                                    tabIndex={0}
+                                                    title={`Shared by ${ownerName}`}
+                                                >
+                                                    <div className="flex items-center gap-1.5 min-w-0 flex-1">
+                                                        {notebook.icon ? (
+                                                            <OpenMoji hexcode={notebook.icon} size={16} />
+                                                        ) : (
+                                                            <svg className="w-3.5 h-3.5 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24" style={{ color: 'var(--text-muted)' }}>
+                                                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+                                                            </svg>
+                                                        )}
+                                                        <span className="truncate">{notebook.name}</span>
+                                                        {notebook.role !== 'editor' && (
+                                                            <span className="shrink-0 text-[10px]" style={{ color: 'var(--text-muted)' }}>
+                                                                view only
+                                                            </span>
+                                                        )}
+                                                    </div>
+                                                    <span
+                                                        className="text-xs tabular-nums shrink-0"
+                                                        style={{ color: 'var(--text-muted)' }}
+                                                    >
+                                                        {notebook.noteCount}
+                                                    </span>
+                                                </motion.div>
+                                            );
+                                        })}
+                                    </motion.div>
+                                )}
+                            </AnimatePresence>
+                        </div>
+                    )}
+
+                    {/* Saved Searches Section */}
+                    {savedSearches.length > 0 && (
+                        <div className="mb-4">
+                            <button
+                                onClick={() => setSavedSearchesExpanded(!savedSearchesExpanded)}
+                                className="w-full flex items-center justify-between px-2 py-2 text-xs font-semibold uppercase tracking-wider transition-colors"
+                                style={{ color: 'var(--text-muted)' }}
+                            >
+                                <span className="flex items-center gap-2">
+                                    <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+                                    </svg>
+                                    Saved Searches
+                                </span>
+                                <motion.svg
+                                    animate={{ rotate: savedSearchesExpanded ? 0 : -90 }}
+                                    transition={{ duration: 0.2 }}
+                                    className="w-4 h-4"
+                                    fill="none"
+                                    stroke="currentColor"
+                                    viewBox="0 0 24 24"
+                                >
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                                </motion.svg>
+                            </button>
+
+                            <AnimatePresence>
+                                {savedSearchesExpanded && (
+                                    <motion.div
+                                        initial={{ height: 0, opacity: 0 }}
+                                        animate={{ height: 'auto', opacity: 1 }}
+                                        exit={{ height: 0, opacity: 0 }}
+                                        transition={{ duration: 0.2 }}
+                                        className="space-y-1 overflow-hidden"
+                                    >
+                                        {savedSearches.map((savedSearch, index) => {
+                                            const isSelected = selectedSavedSearchId === savedSearch.id;
+                                            return (
+                                                <motion.div
+                                                    key={savedSearch.id}
+                                                    custom={index}
+                                                    variants={listItemVariants}
+                                                    initial="hidden"
+                                                    animate="visible"
+                                                    className="group w-full flex items-center justify-between px-2 py-1 rounded-lg text-[13px] transition-all cursor-pointer"
+                                                    style={{
+                                                        background: isSelected
+                                                            ? 'var(--sidebar-selection-bg)'
+                                                            : 'transparent',
+                                                        border: isSelected
+                                                            ? '1px solid var(--sidebar-selection-border)'
+                                                            : '1px solid transparent',
+                                                        boxShadow: isSelected
+                                                            ? '0 4px 12px rgba(0, 0, 0, 0.05), inset 0 1px 0 rgba(255, 255, 255, 0.1)'
+                                                            : 'none',
+                                                        color: isSelected
+                                                            ? 'var(--text-on-shell, var(--text-primary))'
+                                                            : 'var(--text-on-shell-secondary, var(--text-secondary))'
+                                                    }}
+                                                    onClick={() => handleSavedSearchClick(savedSearch.id)}
+                                                    role="button"
+                                                    tabIndex={0}
+                                                    title={savedSearch.query}
+                                                >
+                                                    <div className="flex items-center gap-1.5 min-w-0 flex-1">
+                                                        {savedSearch.icon ? (
+                                                            <OpenMoji hexcode={savedSearch.icon} size={16} />
+                                                        ) : (
+                                                            <svg className="w-3.5 h-3.5 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24" style={{ color: 'var(--text-muted)' }}>
+                                                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+                                                            </svg>
+                                                        )}
+                                                        <span className="truncate">{savedSearch.name}</span>
+                                                    </div>
+                                                    <div className="flex items-center gap-2 shrink-0">
+                                                        <span
+                                                            className="text-xs tabular-nums"
+                                                            style={{ color: 'var(--text-muted)' }}
+                                                        >
+                                                            {savedSearch.noteCount}
+                                                        </span>
+                                                        {onSavedSearchDelete && (
+                                                            <button
+                                                                onClick={(e) => {
+                                                                    e.stopPropagation();
+                                                                    setSavedSearchToDelete(savedSearch);
+                                                                }}
+                                                                className="p-1 rounded-lg transition-all md:opacity-0 md:group-hover:opacity-100 max-md:opacity-60"
+                                                                style={{
+                                                                    color: 'var(--text-muted)',
+                                                                }}
+                                                                onMouseEnter={(e) => {
+                                                                    e.currentTarget.style.background = 'var(--surface-shell-hover)';
+                                                                    e.currentTarget.style.color = 'var(--warning-color, #ef4444)';
+                                                                }}
+                                                                onMouseLeave={(e) => {
+                                                                    e.currentTarget.style.background = 'transparent';
+                                                                    e.currentTarget.style.color = 'var(--text-muted)';
+                                                                }}
+                                                                aria-label={`Delete saved search ${savedSearch.name}`}
+                                                            >
+                                                                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                                                                </svg>
+                                                            </button>
+                                                        )}
+                                                    </div>
+                                                </motion.div>
+                                            );
+                                        })}
+                                    </motion.div>
+                                )}
+                            </AnimatePresence>
+                        </div>
+                    )}
+
                     {/* Tags Section */}
                     <div className="mb-4">
                         <button
@@ -843,6 +1153,56 @@ export function Sidebar({
                                             <span className="flex-1 text-left">Add to Home Screen</span>
                                         </motion.button>
 
+                                        {/* Export all notes as Markdown */}
+                                        <motion.a
+                                            href="/api/export/markdown"
+                                            download
+                                            whileTap={{ scale: 0.98 }}
+                                            className="w-full flex items-center gap-2.5 px-2 py-1.5 rounded-lg text-[13.5px] transition-colors"
+                                            style={{ color: 'var(--text-on-shell-secondary, var(--text-secondary))' }}
+                                            onMouseEnter={(e) => {
+                                                e.currentTarget.style.color = 'var(--accent-primary)';
+                                            }}
+                                            onMouseLeave={(e) => {
+                                                e.currentTarget.style.color = 'var(--text-on-shell-secondary, var(--text-secondary))';
+                                            }}
+                                        >
+                                            <div
+                                                className="w-7 h-7 rounded-lg flex items-center justify-center"
+                                                style={{ background: 'var(--surface-shell-hover)' }}
+                                            >
+                                                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                                                </svg>
+                                            </div>
+                                            <span className="flex-1 text-left">Export as Markdown</span>
+                                        </motion.a>
+
+                                        {/* Export all notebooks as ENEX */}
+                                        <motion.a
+                                            href="/api/export/enex"
+                                            download
+                                            whileTap={{ scale: 0.98 }}
+                                            className="w-full flex items-center gap-2.5 px-2 py-1.5 rounded-lg text-[13.5px] transition-colors"
+                                            style={{ color: 'var(--text-on-shell-secondary, var(--text-secondary))' }}
+                                            onMouseEnter={(e) => {
+                                                e.currentTarget.style.color = 'var(--accent-primary)';
+                                            }}
+                                            onMouseLeave={(e) => {
+                                                e.currentTarget.style.color = 'var(--text-on-shell-secondary, var(--text-secondary))';
+                                            }}
+                                        >
+                                            <div
+                                                className="w-7 h-7 rounded-lg flex items-center justify-center"
+                                                style={{ background: 'var(--surface-shell-hover)' }}
+                                            >
+                                                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                                                </svg>
+                                            </div>
+                                            <span className="flex-1 text-left">Export as ENEX</span>
+                                        </motion.a>
+
                                         {/* Report Issue */}
                                         <motion.button
                                             whileHover={{ x: 2 }}
@@ -975,6 +1335,38 @@ export function Sidebar({
                 </div>
             </Modal>
 
+            {/* Delete Saved Search Confirmation Modal */}
+            <Modal
+                isOpen={!!savedSearchToDelete}
+                onClose={() => setSavedSearchToDelete(null)}
+                title="Delete Saved Search"
+                size="sm"
+            >
+                <div className="space-y-4">
+                    <p className="text-sm" style={{ color: 'var(--text-secondary)' }}>
+                        Are you sure you want to delete the saved search <strong style={{ color: 'var(--text-primary)' }}>&ldquo;{savedSearchToDelete?.name}&rdquo;</strong>?
+                        Notes matching it won&apos;t be affected.
+                    </p>
+                    <div className="flex gap-3 justify-end">
+                        <Button
+                            variant="secondary"
+                            onClick={() => setSavedSearchToDelete(null)}
+                            disabled={isDeleting}
+                        >
+                            Cancel
+                        </Button>
+                        <Button
+                            variant="primary"
+                            onClick={handleConfirmSavedSearchDelete}
+                            disabled={isDeleting}
+                            style={{ background: 'var(--warning-color, #ef4444)' }}
+                        >
+                            {isDeleting ? 'Deleting...' : 'Delete Search'}
+                        </Button>
+                    </div>
+                </div>
+            </Modal>
+
             {/* Create Stack Modal */}
             <Modal
                 isOpen={isCreateStackModalOpen}
@@ -0,0 +1,201 @@
+'use client';
+
+import { useState } from 'react';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Spinner } from '../ui/Spinner';
+import { useAuth } from '@/components/providers/AuthProvider';
+import { useNotebookMembers, type NotebookMemberItem } from '@/hooks/useNotebookMembers';
+import { NOTEBOOK_ROLES, ROLE_LABELS, type NotebookRole } from '@/lib/permissions/roles';
+
+const selectStyle = {
+    background: 'var(--surface-content-secondary)',
+    color: 'var(--text-primary)',
+    border: '1px solid var(--border-subtle)',
+};
+
+function RoleSelect({
+    value,
+    onChange,
+    label,
+}: {
+    value: NotebookRole;
+    onChange: (role: NotebookRole) => void;
+    label: string;
+}) {
+    return (
+        <select
+            value={value}
+            onChange={(e) => onChange(e.target.value as NotebookRole)}
+            className="px-2 py-1.5 text-xs rounded-lg"
+            style={selectStyle}
+            aria-label={label}
+        >
+            {NOTEBOOK_ROLES.map((role) => (
+                <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+            ))}
+        </select>
+    );
+}
+
+/**
+ * Invite people to a notebook by email and manage their roles. Members see
+ * who else has access and can leave.
+ */
+export function NotebookMembersModal({
+    isOpen,
+    onClose,
+    notebookId,
+    notebookName,
+    onLeave,
+}: {
+    isOpen: boolean;
+    onClose: () => void;
+    notebookId: string;
+    notebookName?: string;
+    onLeave?: () => void;
+}) {
+    const { user } = useAuth();
+    const { access, owner, members, isLoading, inviteMember, updateRole, removeMember } = useNotebookMembers(isOpen ? notebookId : null);
+
+    const [email, setEmail] = useState('');
+    const [role, setRole] = useState<NotebookRole>('viewer');
+    const [isInviting, setIsInviting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+
+    const isOwner = access === 'owner';
+
+    const handleInvite = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!email.trim()) return;
+
+        setIsInviting(true);
+        setError(null);
+        setNotice(null);
+        try {
+            const member = await inviteMember(email.trim(), role);
+            setEmail('');
+            setNotice(member.status === 'pending'
+                ? `${member.email} will get access when they sign up.`
+                : `${member.name || member.email} can now open this notebook.`);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to invite member');
+        } finally {
+            setIsInviting(false);
+        }
+    };
+
+    const handleAction = async (action: () => Promise<void>) => {
+        setError(null);
+        try {
+            await action();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Something went wrong');
+        }
+    };
+
+    const handleRemove = (member: NotebookMemberItem) => handleAction(async () => {
+        await removeMember(member.id);
+        if (member.userId === user?.id) {
+            onClose();
+            onLeave?.();
+        }
+    });
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title={notebookName ? `Share “${notebookName}”` : 'Share Notebook'} size="md">
+            <div className="space-y-5">
+                {isOwner && (
+                    <form onSubmit={handleInvite} className="space-y-2">
+                        <div className="flex gap-2 items-start">
+                            <div className="flex-1">
+                                <Input
+                                    type="email"
+                                    placeholder="colleague@example.com"
+                                    value={email}
+                                    onChange={(e) => setEmail(e.target.value)}
+                                    aria-label="Email address"
+                                    autoComplete="email"
+                                />
+                            </div>
+                            <div className="pt-1">
+                                <RoleSelect value={role} onChange={setRole} label="Role for new member" />
+                            </div>
+                            <Button type="submit" isLoading={isInviting} disabled={!email.trim()}>
+                                Invite
+                            </Button>
+                        </div>
+                        {notice && (
+                            <p className="text-xs" style={{ color: 'var(--text-muted)' }}>{notice}</p>
+                        )}
+                    </form>
+                )}
+
+                {error && (
+                    <p className="text-sm" style={{ color: 'var(--error-color, #ef4444)' }}>{error}</p>
+                )}
+
+                {/* People with access */}
+                {isLoading ? (
+                    <div className="flex justify-center py-4">
+                        <Spinner />
+                    </div>
+                ) : (
+                    <ul className="space-y-1">
+                        {owner && (
+                            <li className="flex items-center justify-between gap-3 px-3 py-2 rounded-xl" style={{ background: 'var(--surface-content-secondary)' }}>
+                                <div className="min-w-0">
+                                    <p className="text-sm truncate" style={{ color: 'var(--text-primary)' }}>
+                                        {owner.name || owner.email}{owner.id === user?.id && ' (you)'}
+                                    </p>
+                                    {owner.name && (
+                                        <p className="text-xs truncate" style={{ color: 'var(--text-muted)' }}>{owner.email}</p>
+                                    )}
+                                </div>
+                                <span className="text-xs shrink-0" style={{ color: 'var(--text-muted)' }}>{ROLE_LABELS.owner}</span>
+                            </li>
+                        )}
+                        {members.map((member) => {
+                            const isSelf = member.userId === user?.id;
+                            return (
+                                <li key={member.id} className="flex items-center justify-between gap-3 px-3 py-2 rounded-xl">
+                                    <div className="min-w-0">
+                                        <p className="text-sm truncate" style={{ color: 'var(--text-primary)' }}>
+                                            {member.name || member.email}{isSelf && ' (you)'}
+                                        </p>
+                                        <p className="text-xs truncate" style={{ color: 'var(--text-muted)' }}>
+                                            {member.status === 'pending' ? 'Invitation pending' : member.name ? member.email : null}
+                                        </p>
+                                    </div>
+                                    <div className="flex items-center gap-2 shrink-0">
+                                        {isOwner ? (
+                                            <RoleSelect
+                                                value={member.role}
+                                                onChange={(next) => handleAction(() => updateRole(member.id, next))}
+                                                label={`Role for ${member.email}`}
+                                            />
+                                        ) : (
+                                            <span className="text-xs" style={{ color: 'var(--text-muted)' }}>{ROLE_LABELS[member.role]}</span>
+                                        )}
+                                        {(isOwner || isSelf) && (
+                                            <Button size="sm" variant="ghost" onClick={() => handleRemove(member)}>
+                                                {isSelf ? 'Leave' : 'Remove'}
+                                            </Button>
+                                        )}
+                                    </div>
+                                </li>
+                            );
+                        })}
+                        {members.length === 0 && (
+                            <li className="text-sm text-center py-2" style={{ color: 'var(--text-muted)' }}>
+                                Only you can see this notebook
+                            </li>
+                        )}
+                    </ul>
+                )}
+            </div>
+        </Modal>
+    );
+}
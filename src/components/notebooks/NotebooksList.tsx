@@ -12,6 +12,8 @@ interface Notebook {
     icon?: string | null;
     cardColor?: string | null;
     noteCount: number;
+    openTasks?: number;
+    completedTasks?: number;
     isDefault?: boolean;
 }
 
@@ -517,6 +519,15 @@ export function NotebooksList({
                                                         >
                                                             {notebook.noteCount} {notebook.noteCount === 1 ? 'note' : 'notes'}
                                                         </span>
+                                                        {(notebook.openTasks ?? 0) + (notebook.completedTasks ?? 0) > 0 && (
+                                                            <span
+                                                                className="text-xs tabular-nums"
+                                                                style={{ opacity: 0.5 }}
+                                                                title="Completed tasks"
+                                                            >
+                                                                · {notebook.completedTasks ?? 0}/{(notebook.openTasks ?? 0) + (notebook.completedTasks ?? 0)} done
+                                                            </span>
+                                                        )}
                                                     </div>
                                                 </div>
 
@@ -0,0 +1,92 @@
+'use client';
+
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useBacklinks } from '@/hooks/useNoteLinks';
+import { OpenMoji } from '../ui/OpenMoji';
+
+interface BacklinksPanelProps {
+    noteId: string;
+    onOpenNote?: (noteId: string) => void;
+}
+
+/**
+ * "Linked from" list of notes that reference this note with [[links]].
+ * Hidden when nothing links here.
+ */
+export function BacklinksPanel({ noteId, onOpenNote }: BacklinksPanelProps) {
+    const { backlinks } = useBacklinks(noteId);
+    const [expanded, setExpanded] = useState(true);
+
+    if (backlinks.length === 0) return null;
+
+    return (
+        <div
+            className="mt-10 pt-4"
+            style={{ borderTop: '1px solid var(--border-subtle)' }}
+        >
+            <button
+                onClick={() => setExpanded(!expanded)}
+                className="w-full flex items-center justify-between py-1 text-xs font-semibold uppercase tracking-wider"
+                style={{ color: 'var(--text-muted)' }}
+            >
+                <span className="flex items-center gap-2">
+                    <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+                    </svg>
+                    Linked from
+                    <span className="tabular-nums font-normal">({backlinks.length})</span>
+                </span>
+                <motion.svg
+                    animate={{ rotate: expanded ? 0 : -90 }}
+                    transition={{ duration: 0.2 }}
+                    className="w-4 h-4"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                >
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                </motion.svg>
+            </button>
+
+            <AnimatePresence>
+                {expanded && (
+                    <motion.div
+                        initial={{ height: 0, opacity: 0 }}
+                        animate={{ height: 'auto', opacity: 1 }}
+                        exit={{ height: 0, opacity: 0 }}
+                        transition={{ duration: 0.2 }}
+                        className="mt-2 space-y-2 overflow-hidden"
+                    >
+                        {backlinks.map((backlink) => (
+                            <button
+                                key={backlink.id}
+                                onClick={() => onOpenNote?.(backlink.id)}
+                                className="w-full text-left rounded-xl px-4 py-3 transition-colors"
+                                style={{
+                                    background: 'var(--surface-content-secondary)',
+                                    border: '1px solid var(--border-subtle)',
+                                }}
+                            >
+                                <div className="flex items-center gap-2 min-w-0">
+                                    {backlink.icon && <OpenMoji hexcode={backlink.icon} size={16} />}
+                                    <span className="text-sm font-medium truncate" style={{ color: 'var(--text-primary)' }}>
+                                        {backlink.title || 'Untitled'}
+                                    </span>
+                                    <span className="text-xs shrink-0 ml-auto" style={{ color: 'var(--text-muted)' }}>
+                                        {backlink.notebook.name}
+                                    </span>
+                                </div>
+                                {backlink.excerpt && (
+                                    <p className="mt-1 text-xs line-clamp-2" style={{ color: 'var(--text-secondary)' }}>
+                                        {backlink.excerpt}
+                                    </p>
+                                )}
+                            </button>
+                        ))}
+                    </motion.div>
+                )}
+            </AnimatePresence>
+        </div>
+    );
+}
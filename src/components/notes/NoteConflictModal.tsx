@@ -0,0 +1,86 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { DiffView } from './RevisionHistoryModal';
+import { diffText } from '@/lib/revisions/diff';
+import type { ConflictResolution, NoteConflict } from '@/hooks/useNoteSWR';
+
+// Readable text of note HTML, one line per block
+function toPlainText(html: string): string {
+    const withBreaks = html.replace(/<\/(p|h[1-6]|li|blockquote|pre)>|<br\s*\/?>/gi, '$&\n');
+    const text = new DOMParser().parseFromString(withBreaks, 'text/html').body.textContent ?? '';
+    return text.replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Shown when a save is turned back because the note was changed somewhere
+ * else since it was opened. It can't be dismissed without a choice, so the
+ * edit is never silently dropped.
+ */
+export function NoteConflictModal({
+    conflict,
+    onResolve,
+}: {
+    conflict: NoteConflict | null;
+    onResolve: (choice: ConflictResolution) => Promise<void>;
+}) {
+    const [pending, setPending] = useState<ConflictResolution | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const parts = useMemo(() => conflict
+        ? diffText(toPlainText(conflict.theirs.content), toPlainText(conflict.mine.content))
+        : [], [conflict]);
+
+    const resolve = async (choice: ConflictResolution) => {
+        setPending(choice);
+        setError(null);
+        try {
+            await onResolve(choice);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to resolve the conflict');
+        } finally {
+            setPending(null);
+        }
+    };
+
+    return (
+        <Modal isOpen={!!conflict} onClose={() => undefined} title="This note changed elsewhere" size="xl">
+            {conflict && (
+                <div className="space-y-4">
+                    <p className="text-sm" style={{ color: 'var(--text-secondary)' }}>
+                        Someone saved a newer version of <strong style={{ color: 'var(--text-primary)' }}>{conflict.theirs.title || 'Untitled'}</strong>{' '}
+                        on {new Date(conflict.theirs.updatedAt).toLocaleString()} while you were editing. Choose which version to keep.
+                    </p>
+                    <div
+                        className="max-h-80 overflow-y-auto rounded-lg p-4"
+                        style={{ background: 'var(--surface-content-secondary)' }}
+                    >
+                        <div className="flex items-center gap-3 mb-3 text-xs" style={{ color: 'var(--text-muted)' }}>
+                            <span style={{ color: 'rgb(22, 163, 74)' }}>Only in yours</span>
+                            <span style={{ color: 'rgb(220, 38, 38)' }}>Only in theirs</span>
+                        </div>
+                        <p className="text-sm whitespace-pre-wrap leading-relaxed" style={{ color: 'var(--text-secondary)' }}>
+                            <DiffView parts={parts} />
+                        </p>
+                    </div>
+                    {error && (
+                        <p className="text-sm" style={{ color: 'var(--warning-color, #ef4444)' }}>{error}</p>
+                    )}
+                    <div className="flex gap-3 justify-end flex-wrap">
+                        <Button variant="ghost" onClick={() => resolve('both')} isLoading={pending === 'both'} disabled={!!pending}>
+                            Save both
+                        </Button>
+                        <Button variant="secondary" onClick={() => resolve('theirs')} isLoading={pending === 'theirs'} disabled={!!pending}>
+                            Keep theirs
+                        </Button>
+                        <Button onClick={() => resolve('mine')} isLoading={pending === 'mine'} disabled={!!pending}>
+                            Keep mine
+                        </Button>
+                    </div>
+                </div>
+            )}
+        </Modal>
+    );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { createPortal } from 'react-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Button } from '../ui/Button';
@@ -8,10 +8,27 @@ import { Modal } from '../ui/Modal';
 import { Spinner } from '../ui/Spinner';
 import { RichTextEditor, type Editor } from '../editor/RichTextEditor';
 import { TagSelector } from './TagSelector';
+import { RevisionHistoryModal } from './RevisionHistoryModal';
+import { BacklinksPanel } from './BacklinksPanel';
+import { RelatedNotesPanel } from './RelatedNotesPanel';
+import { resolveNoteLinkTitle } from '@/hooks/useNoteLinks';
+import { htmlToMarkdown } from '@/lib/export/markdown';
+import { buildFrontMatter } from '@/lib/export/front-matter';
 import { IconButton } from '../ui/EmojiPicker';
 import { OpenMoji } from '../ui/OpenMoji';
 import { Sparkles, Loader2 } from 'lucide-react';
 import { FloatingToolbar } from '../editor/FloatingToolbar';
+import { EncryptSelectionModal } from '../editor/EncryptionModals';
+import { ReminderModal } from './ReminderModal';
+import { ShareLinkModal } from './ShareLinkModal';
+import { PresenceAvatars } from './PresenceAvatars';
+import { NoteConflictModal } from './NoteConflictModal';
+import type { ReminderUpdate } from '@/hooks/useReminders';
+import type { ConflictResolution, NoteConflict } from '@/hooks/useNoteSWR';
+import { useCollaboration } from '@/hooks/useCollaboration';
+import { useAuth } from '@/components/providers/AuthProvider';
+import { hasPermission, type NotebookAccess } from '@/lib/permissions/roles';
+import { presenceColor } from '@/lib/collaboration/presence';
 import '../editor/editor.css';
 
 interface Tag {
@@ -30,6 +47,9 @@ interface Note {
     createdAt: Date | string;
     updatedAt: Date | string;
     isTrash?: boolean;
+    reminderAt?: Date | string | null;
+    reminderDoneAt?: Date | string | null;
+    access?: NotebookAccess; // Caller's access to a shared notebook; absent means owner
 }
 
 // Compact toolbar button for bottom toolbar
@@ -276,11 +296,17 @@ function MoreOptionsMenu({
     isOpen,
     onClose,
     buttonRef,
+    onEncryptSelection,
+    onSetReminder,
+    hasReminder = false,
 }: {
     editor: Editor | null;
     isOpen: boolean;
     onClose: () => void;
     buttonRef: React.RefObject<HTMLButtonElement | null>;
+    onEncryptSelection: () => void;
+    onSetReminder?: () => void;
+    hasReminder?: boolean;
 }) {
     const [mounted, setMounted] = useState(false);
     const [position, setPosition] = useState<{ bottom: number; right: number } | null>(null);
@@ -315,6 +341,8 @@ function MoreOptionsMenu({
         { label: 'Align Right', icon: '⌘R', action: () => editor.chain().focus().setTextAlign('right').run(), isActive: editor.isActive({ textAlign: 'right' }) },
         { type: 'divider' as const },
         { label: 'Horizontal Rule', icon: '—', action: () => editor.chain().focus().setHorizontalRule().run() },
+        { label: 'Encrypt Selection', icon: '🔒', action: onEncryptSelection, disabled: editor.state.selection.empty },
+        ...(onSetReminder ? [{ label: hasReminder ? 'Edit Reminder' : 'Set Reminder', icon: '⏰', action: onSetReminder, isActive: hasReminder }] : []),
         { label: 'Undo', icon: '↩', action: () => editor.chain().focus().undo().run(), disabled: !editor.can().undo() },
         { label: 'Redo', icon: '↪', action: () => editor.chain().focus().redo().run(), disabled: !editor.can().redo() },
     ];
@@ -405,12 +433,16 @@ function ExportShareMenu({
     buttonRef,
     title,
     content,
+    note,
+    onShareLink,
 }: {
     isOpen: boolean;
     onClose: () => void;
     buttonRef: React.RefObject<HTMLButtonElement | null>;
     title: string;
     content: string;
+    note?: Note | null;
+    onShareLink?: () => void;
 }) {
     const [mounted, setMounted] = useState(false);
     const [position, setPosition] = useState<{ bottom: number; right: number } | null>(null);
@@ -543,6 +575,38 @@ function ExportShareMenu({
         onClose();
     };
 
+    // Download as Markdown with YAML front matter (images keep their URLs)
+    const downloadAsMarkdown = () => {
+        const frontMatter = buildFrontMatter({
+            title: title || 'Untitled Note',
+            tags: note?.tags.map(tag => tag.name) ?? [],
+            created: note ? new Date(note.createdAt) : undefined,
+            updated: note ? new Date(note.updatedAt) : undefined,
+        });
+        const blob = new Blob([`${frontMatter}\n${htmlToMarkdown(content)}`], { type: 'text/markdown' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `${title || 'Untitled Note'}.md`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+        onClose();
+    };
+
+    // Download the whole notebook with attachments (Markdown ZIP or Evernote .enex)
+    const downloadNotebookExport = (format: 'markdown' | 'enex') => {
+        if (!note?.notebookId) return;
+        const a = document.createElement('a');
+        a.href = `/api/export/${format}?notebookId=${encodeURIComponent(note.notebookId)}`;
+        a.download = '';
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        onClose();
+    };
+
     // Print the note
     const printNote = async () => {
         // Create a hidden iframe for printing
@@ -650,6 +714,32 @@ function ExportShareMenu({
             ),
             action: downloadAsText,
         },
+        {
+            label: 'Download as Markdown',
+            icon: (
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16v12H4zM7 15V9l2.5 3L12 9v6m3-2l2 2 2-2m-2 2V9" />
+                </svg>
+            ),
+            action: downloadAsMarkdown,
+        },
+        ...(note?.notebookId ? [{
+            label: 'Export Notebook as Markdown',
+            icon: (
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" />
+                </svg>
+            ),
+            action: () => downloadNotebookExport('markdown'),
+        }, {
+            label: 'Export Notebook as ENEX',
+            icon: (
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+                </svg>
+            ),
+            action: () => downloadNotebookExport('enex'),
+        }] : []),
         { type: 'divider' },
         {
             label: 'Print',
@@ -662,6 +752,18 @@ function ExportShareMenu({
         },
         { type: 'divider' },
         { type: 'header', label: 'Share' },
+        ...(onShareLink ? [{
+            label: 'Share Link',
+            icon: (
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+                </svg>
+            ),
+            action: () => {
+                onClose();
+                onShareLink();
+            },
+        }] : []),
         {
             label: 'Share as File',
             icon: (
@@ -761,19 +863,60 @@ function ExportShareMenu({
     );
 }
 
+const isPast = (date: Date) => date.getTime() <= Date.now();
+
+// Reminder time shown under the note title
+function ReminderChip({
+    reminderAt,
+    isDone,
+    onClick,
+}: {
+    reminderAt: Date | string;
+    isDone: boolean;
+    onClick?: () => void;
+}) {
+    const date = new Date(reminderAt);
+    const isOverdue = !isDone && isPast(date);
+
+    return (
+        <button
+            type="button"
+            onClick={onClick}
+            disabled={!onClick}
+            className="-mt-3 mb-5 inline-flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium rounded-md disabled:cursor-default"
+            style={isOverdue ? {
+                background: 'rgba(239, 68, 68, 0.15)',
+                color: 'rgb(239, 68, 68)'
+            } : {
+                background: 'var(--surface-content-secondary)',
+                color: 'var(--text-secondary)',
+                textDecoration: isDone ? 'line-through' : 'none'
+            }}
+            title={onClick ? 'Edit reminder' : undefined}
+        >
+            <span aria-hidden>⏰</span>
+            {date.toLocaleString(undefined, { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+        </button>
+    );
+}
+
 interface NoteEditorProps {
     note?: Note | null;
     loading?: boolean;
     saving?: boolean;
-    onSave?: (data: { title: string; content: string; icon?: string | null }) => void;
+    onSave?: (data: { title: string; content?: string; icon?: string | null }) => void;
     onDelete?: () => void;
     onRestore?: () => void;
     onTagsChange?: (noteId: string, tags: Tag[]) => void;
     onIconChange?: (noteId: string, icon: string | null) => void;
+    onReminderChange?: (noteId: string, changes: ReminderUpdate) => Promise<void>;
     onBack?: () => void;
     showBackButton?: boolean;
     onSummarize?: (noteId: string, noteTitle: string) => void;
     isSummarizing?: boolean;
+    onOpenNote?: (noteId: string) => void; // Follow a [[link]] or backlink
+    conflict?: NoteConflict | null; // A save that collided with a newer version
+    onResolveConflict?: (choice: ConflictResolution) => Promise<string | null>; // Resolves to the copy's ID for "both"
 }
 
 export function NoteEditor({
@@ -785,10 +928,14 @@ export function NoteEditor({
     onRestore,
     onTagsChange,
     onIconChange,
+    onReminderChange,
     onBack,
     showBackButton = false,
     onSummarize,
     isSummarizing = false,
+    onOpenNote,
+    conflict = null,
+    onResolveConflict,
 }: NoteEditorProps) {
     const [title, setTitle] = useState('');
     const [content, setContent] = useState('');
@@ -798,9 +945,26 @@ export function NoteEditor({
     const [exportMenuOpen, setExportMenuOpen] = useState(false);
     const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
     const [isDeleting, setIsDeleting] = useState(false);
+    const [showHistory, setShowHistory] = useState(false);
+    const [showEncrypt, setShowEncrypt] = useState(false);
+    const [showReminder, setShowReminder] = useState(false);
+    const [showShareLink, setShowShareLink] = useState(false);
     const moreOptionsButtonRef = useRef<HTMLButtonElement>(null);
     const exportButtonRef = useRef<HTMLButtonElement>(null);
 
+    // Live editing with others; the sync server saves the content while connected
+    const { user } = useAuth();
+    const presenceUser = useMemo(() => user ? {
+        id: user.id,
+        name: user.user_metadata?.full_name || user.email || 'Someone',
+        color: presenceColor(user.id),
+    } : null, [user]);
+    const {
+        session: collaboration,
+        status: collaborationStatus,
+        peers,
+    } = useCollaboration(note && !note.isTrash ? note.id : null, presenceUser);
+
     // Sync local state when note changes
     useEffect(() => {
         if (note) {
@@ -817,15 +981,33 @@ export function NoteEditor({
 
     const handleContentChange = (html: string) => {
         setContent(html);
-        setIsDirty(true);
+        if (!collaboration) setIsDirty(true);
     };
 
     const handleSave = useCallback(() => {
         if (isDirty && onSave) {
-            onSave({ title, content });
+            onSave(collaboration ? { title } : { title, content });
             setIsDirty(false);
         }
-    }, [isDirty, onSave, title, content]);
+    }, [isDirty, onSave, title, content, collaboration]);
+
+    // Save before following a link so edits aren't lost
+    const handleNoteLinkClick = useCallback(async (link: { noteId: string | null; title: string }) => {
+        if (!onOpenNote) return;
+        handleSave();
+        const targetId = link.noteId ?? await resolveNoteLinkTitle(link.title).catch(() => null);
+        if (targetId) {
+            onOpenNote(targetId);
+        }
+    }, [onOpenNote, handleSave]);
+
+    // Open the copy when both versions are kept
+    const handleResolveConflict = useCallback(async (choice: ConflictResolution) => {
+        const copyId = await onResolveConflict?.(choice);
+        if (copyId) {
+            onOpenNote?.(copyId);
+        }
+    }, [onResolveConflict, onOpenNote]);
 
     // Auto-save on blur or after delay
     useEffect(() => {
@@ -941,6 +1123,10 @@ export function NoteEditor({
         );
     }
 
+    const access = note.access ?? 'owner';
+    const isOwner = access === 'owner';
+    const canEdit = !note.isTrash && hasPermission(access, 'edit');
+
     return (
         <>
             <div
@@ -981,7 +1167,7 @@ export function NoteEditor({
                                     Delete Forever
                                 </Button>
                             </>
-                        ) : (
+                        ) : canEdit && (
                             <>
                                 <Button
                                     variant="ghost"
@@ -1003,6 +1189,20 @@ export function NoteEditor({
                                         </>
                                     )}
                                 </Button>
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => {
+                                        // Save pending edits first so they show up in history
+                                        handleSave();
+                                        setShowHistory(true);
+                                    }}
+                                    title="Version history"
+                                >
+                                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                                    </svg>
+                                </Button>
                                 <Button variant="ghost" size="sm" onClick={() => setShowDeleteConfirm(true)} title="Move to Trash">
                                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
@@ -1013,8 +1213,10 @@ export function NoteEditor({
                     </div>
 
                     <div className="flex items-center gap-3">
+                        <PresenceAvatars peers={peers} status={collaborationStatus} />
+
                         {/* AI Summarize button - matches notebooks page style */}
-                        {onSummarize && !note.isTrash && (
+                        {onSummarize && !note.isTrash && isOwner && (
                             <motion.button
                                 whileHover={{ scale: 1.02, y: -1 }}
                                 whileTap={{ scale: 0.98 }}
@@ -1057,7 +1259,7 @@ export function NoteEditor({
                                 noteId={note.id}
                                 currentTags={note.tags || []}
                                 onTagsChange={(tags) => onTagsChange?.(note.id, tags)}
-                                disabled={note.isTrash}
+                                disabled={!canEdit}
                             />
                         </div>
                         <div
@@ -1090,11 +1292,33 @@ export function NoteEditor({
                     </div>
                 )}
 
+                {/* View-only notice for shared notebooks */}
+                {!note.isTrash && !canEdit && (
+                    <div
+                        className="shrink-0 px-6 md:px-8 py-3"
+                        style={{
+                            background: 'var(--highlight-soft)',
+                            borderBottom: '1px solid var(--border-primary)'
+                        }}
+                    >
+                        <p
+                            className="text-sm flex items-center gap-2"
+                            style={{ color: 'var(--text-primary)' }}
+                        >
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                            </svg>
+                            You can read but not edit notes in this shared notebook.
+                        </p>
+                    </div>
+                )}
+
                 {/* Editor - generous padding, editorial typography */}
                 <div className="flex-1 overflow-y-auto overflow-x-hidden px-6 md:px-12 lg:px-16 py-6 md:py-8">
                     {/* Title with Icon - oversized display heading */}
                     <div className="flex items-start gap-3 mb-6">
-                        {!note.isTrash && (
+                        {canEdit && (
                             <IconButton
                                 icon={note.icon ?? null}
                                 onIconChange={(icon) => onIconChange?.(note.id, icon)}
@@ -1112,7 +1336,7 @@ export function NoteEditor({
                                 }
                             />
                         )}
-                        {note.isTrash && note.icon && (
+                        {!canEdit && note.icon && (
                             <OpenMoji hexcode={note.icon} size={36} />
                         )}
                         <textarea
@@ -1126,7 +1350,7 @@ export function NoteEditor({
                             value={title}
                             onChange={handleTitleChange}
                             placeholder="Note title"
-                            disabled={note.isTrash}
+                            disabled={!canEdit}
                             rows={1}
                             className="flex-1 font-bold bg-transparent border-none outline-none resize-none disabled:cursor-not-allowed disabled:opacity-60"
                             style={{
@@ -1140,20 +1364,49 @@ export function NoteEditor({
                         />
                     </div>
 
-
+                    {/* Reminder */}
+                    {note.reminderAt && (
+                        <ReminderChip
+                            reminderAt={note.reminderAt}
+                            isDone={!!note.reminderDoneAt}
+                            onClick={onReminderChange && !note.isTrash && isOwner ? () => setShowReminder(true) : undefined}
+                        />
+                    )}
 
                     {/* Rich Text Editor */}
                     <RichTextEditor
                         content={content}
                         onChange={handleContentChange}
                         placeholder="Start writing..."
-                        disabled={note.isTrash}
+                        disabled={!canEdit || collaborationStatus === 'connecting'}
                         onEditorReady={setEditor}
+                        collaboration={collaboration}
+                        noteId={note.id}
+                        onNoteLinkClick={handleNoteLinkClick}
+                    />
+
+                    {/* Backlinks */}
+                    <BacklinksPanel
+                        noteId={note.id}
+                        onOpenNote={(noteId) => {
+                            handleSave();
+                            onOpenNote?.(noteId);
+                        }}
+                    />
+
+                    {/* Related notes, refreshed after each save or tag change */}
+                    <RelatedNotesPanel
+                        noteId={note.id}
+                        version={`${new Date(note.updatedAt).getTime()}:${note.tags.map(tag => tag.id).join(',')}`}
+                        onOpenNote={(noteId) => {
+                            handleSave();
+                            onOpenNote?.(noteId);
+                        }}
                     />
                 </div>
 
                 {/* Contextual Bottom Toolbar */}
-                {!note.isTrash && (
+                {canEdit && (
                     <motion.div
                         initial={{ y: 20, opacity: 0 }}
                         animate={{ y: 0, opacity: 1 }}
@@ -1314,6 +1567,9 @@ export function NoteEditor({
                                     isOpen={moreMenuOpen}
                                     onClose={() => setMoreMenuOpen(false)}
                                     buttonRef={moreOptionsButtonRef}
+                                    onEncryptSelection={() => setShowEncrypt(true)}
+                                    onSetReminder={onReminderChange && isOwner ? () => setShowReminder(true) : undefined}
+                                    hasReminder={!!note.reminderAt}
                                 />
                             </div>
 
@@ -1341,6 +1597,8 @@ export function NoteEditor({
                                     buttonRef={exportButtonRef}
                                     title={title}
                                     content={content}
+                                    note={note}
+                                    onShareLink={isOwner ? () => setShowShareLink(true) : undefined}
                                 />
                             </div>
 
@@ -1381,9 +1639,52 @@ export function NoteEditor({
                 )}
 
                 {/* FloatingToolbar for mobile */}
-                {!note.isTrash && <FloatingToolbar editor={editor} />}
+                {canEdit && <FloatingToolbar editor={editor} />}
             </div>
 
+            {/* Version History Modal */}
+            {note && (
+                <RevisionHistoryModal
+                    isOpen={showHistory}
+                    onClose={() => setShowHistory(false)}
+                    noteId={note.id}
+                />
+            )}
+
+            {/* Save Conflict Modal */}
+            {onResolveConflict && (
+                <NoteConflictModal conflict={conflict} onResolve={handleResolveConflict} />
+            )}
+
+            {/* Encrypt Selection Modal */}
+            <EncryptSelectionModal
+                editor={editor}
+                isOpen={showEncrypt}
+                onClose={() => setShowEncrypt(false)}
+            />
+
+            {/* Share Link Modal */}
+            {note && (
+                <ShareLinkModal
+                    isOpen={showShareLink}
+                    onClose={() => setShowShareLink(false)}
+                    noteId={note.id}
+                    notebookId={note.notebookId}
+                />
+            )}
+
+            {/* Reminder Modal */}
+            {note && onReminderChange && (
+                <ReminderModal
+                    key={String(showReminder)}
+                    isOpen={showReminder}
+                    onClose={() => setShowReminder(false)}
+                    reminderAt={note.reminderAt ?? null}
+                    isDone={!!note.reminderDoneAt}
+                    onSave={(changes) => onReminderChange(note.id, changes)}
+                />
+            )}
+
             {/* Delete Note Confirmation Modal */}
             <Modal
                 isOpen={showDeleteConfirm}
@@ -10,7 +10,7 @@ import { AISearchInsightsButton } from '../ai/AISearchInsightsButton';
 import { SmartTagModal } from '../ai/SmartTagModal';
 import { BulkActionsToolbar } from './BulkActionsToolbar';
 import { MoveToFolderModal } from './MoveToFolderModal';
-import { Sparkles, Loader2, CheckSquare, Square, X } from 'lucide-react';
+import { Sparkles, Loader2, CheckSquare, Square, X, Bookmark, Brain, MessageCircle } from 'lucide-react';
 
 // Filter chip options
 const filterOptions = [
@@ -27,9 +27,12 @@ interface NotePreview {
     icon?: string | null;
     cardColor?: string | null;
     preview: string;
+    snippet?: string; // Search excerpt with matches wrapped in <mark>
     updatedAt: Date | string;
     isTrash?: boolean;
     isFavorite?: boolean;
+    openTasks?: number;
+    completedTasks?: number;
     tags?: Array<{ id: string; name: string }>;
 }
 
@@ -61,11 +64,17 @@ interface NotesListProps {
     onBack?: () => void; // Callback for back button navigation
     // AI Search Insights props
     searchQuery?: string;
+    searchTitle?: string; // Name of the saved search being shown
+    onSaveSearch?: () => void;
+    semanticSearch?: boolean; // Whether the search matches by meaning instead of keywords
+    onToggleSemanticSearch?: () => void;
+    semanticSearchError?: string | null;
     onGenerateSearchInsights?: () => void;
     isGeneratingInsights?: boolean;
     // AI Notebook Summarization props
     onSummarizeNotebook?: (notebookId: string, notebookName: string) => void;
     isSummarizingNotebook?: boolean;
+    onAskNotes?: () => void; // Opens ask-your-notes chat scoped to the notes shown
     // Tags filter props
     allTags?: Tag[];
     // Smart Tags props
@@ -85,6 +94,7 @@ interface NotesListProps {
     isDefaultNotebook?: boolean;
     notebookCount?: number;
     onNotebookDelete?: (notebookId: string, deleteNotes?: boolean) => void;
+    onShareNotebook?: (notebookId: string) => void; // Invite people / see who has access
     // Bulk Actions props
     notebooks?: Notebook[]; // For move to folder functionality
     onMoveNotes?: (noteIds: string[], notebookId: string) => Promise<void>;
@@ -117,6 +127,31 @@ function formatRelativeDate(date: Date | string): string {
     });
 }
 
+/**
+ * Render a search snippet, highlighting the <mark>-wrapped terms.
+ * The snippet is split rather than injected as HTML so note text stays escaped.
+ */
+function HighlightedSnippet({ snippet }: { snippet: string }) {
+    const segments = snippet.split(/<mark>(.*?)<\/mark>/g);
+    return (
+        <>
+            {segments.map((segment, index) =>
+                index % 2 === 1 ? (
+                    <mark
+                        key={index}
+                        className="rounded-sm px-0.5"
+                        style={{ background: 'var(--highlight-soft)', color: 'inherit' }}
+                    >
+                        {segment}
+                    </mark>
+                ) : (
+                    segment
+                )
+            )}
+        </>
+    );
+}
+
 const cardVariants = {
     hidden: { opacity: 0, y: 8 },
     visible: (i: number) => ({
@@ -144,10 +179,16 @@ export function NotesList({
     notebookId,
     onBack,
     searchQuery,
+    searchTitle,
+    onSaveSearch,
+    semanticSearch = false,
+    onToggleSemanticSearch,
+    semanticSearchError = null,
     onGenerateSearchInsights,
     isGeneratingInsights = false,
     onSummarizeNotebook,
     isSummarizingNotebook = false,
+    onAskNotes,
     allTags = [],
     // Smart Tags props
     onGenerateSmartTags,
@@ -166,6 +207,7 @@ export function NotesList({
     isDefaultNotebook,
     notebookCount,
     onNotebookDelete,
+    onShareNotebook,
     // Bulk Actions props
     notebooks = [],
     onMoveNotes,
@@ -378,6 +420,46 @@ export function NotesList({
                                 <span className="hidden sm:inline">Summarize</span>
                             </motion.button>
                         )}
+                        {/* Ask-your-notes chat button */}
+                        {onAskNotes && (
+                            <motion.button
+                                whileHover={{ scale: 1.02, y: -1 }}
+                                whileTap={{ scale: 0.98 }}
+                                onClick={onAskNotes}
+                                className="flex items-center gap-2 px-3 py-2 rounded-xl text-xs font-medium transition-all shrink-0"
+                                style={{
+                                    background: 'var(--surface-content-secondary)',
+                                    color: 'var(--text-primary)',
+                                    boxShadow: 'var(--shadow-sm)',
+                                    border: '1px solid var(--border-subtle)',
+                                }}
+                                title="Ask questions about these notes"
+                            >
+                                <MessageCircle size={14} style={{ color: 'var(--accent-primary)' }} />
+                                <span className="hidden sm:inline">Ask</span>
+                            </motion.button>
+                        )}
+                        {/* Share notebook with people */}
+                        {notebookId && onShareNotebook && (
+                            <motion.button
+                                whileHover={{ scale: 1.02, y: -1 }}
+                                whileTap={{ scale: 0.98 }}
+                                onClick={() => onShareNotebook(notebookId)}
+                                className="flex items-center justify-center p-2 rounded-xl transition-all shrink-0"
+                                style={{
+                                    background: 'var(--surface-content-secondary)',
+                                    color: 'var(--text-primary)',
+                                    boxShadow: 'var(--shadow-sm)',
+                                    border: '1px solid var(--border-subtle)',
+                                }}
+                                title="Share notebook"
+                                aria-label="Share notebook"
+                            >
+                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18 9v3m0 0v3m0-3h3m-3 0h-3m-2-5a4 4 0 11-8 0 4 4 0 018 0zM3 20a6 6 0 0112 0v1H3v-1z" />
+                                </svg>
+                            </motion.button>
+                        )}
                         {!isDefaultNotebook && notebookId && onNotebookDelete && (
                             <motion.button
                                 whileHover={{
@@ -441,7 +523,7 @@ export function NotesList({
                                 color: 'var(--text-primary)'
                             }}
                         >
-                            {searchQuery ? 'Search Results' : 'Notes'}
+                            {searchTitle || (searchQuery ? 'Search Results' : 'Notes')}
                             <span
                                 className="ml-2 font-normal"
                                 style={{
@@ -453,6 +535,49 @@ export function NotesList({
                             </span>
                         </h2>
                         <div className="flex items-center gap-2">
+                            {/* Save search button - shown while a typed search is active */}
+                            {onSaveSearch && (
+                                <motion.button
+                                    whileHover={{ scale: 1.02, y: -1 }}
+                                    whileTap={{ scale: 0.98 }}
+                                    onClick={onSaveSearch}
+                                    className="flex items-center gap-2 px-3 py-2 rounded-xl text-xs font-medium transition-all shrink-0"
+                                    style={{
+                                        background: 'var(--surface-content-secondary)',
+                                        color: 'var(--text-primary)',
+                                        boxShadow: 'var(--shadow-sm)',
+                                        border: '1px solid var(--border-subtle)',
+                                    }}
+                                    title="Save this search"
+                                >
+                                    <Bookmark size={14} />
+                                    <span className="hidden sm:inline">Save</span>
+                                </motion.button>
+                            )}
+                            {/* Similar meaning toggle - switches the typed search to semantic matching */}
+                            {searchQuery && onToggleSemanticSearch && (
+                                <motion.button
+                                    whileHover={{ scale: 1.02, y: -1 }}
+                                    whileTap={{ scale: 0.98 }}
+                                    onClick={onToggleSemanticSearch}
+                                    className="flex items-center gap-2 px-3 py-2 rounded-xl text-xs font-medium transition-all shrink-0"
+                                    style={{
+                                        background: semanticSearch
+                                            ? 'var(--accent-primary)'
+                                            : 'var(--surface-content-secondary)',
+                                        color: semanticSearch
+                                            ? 'var(--text-on-accent)'
+                                            : 'var(--text-primary)',
+                                        boxShadow: 'var(--shadow-sm)',
+                                        border: '1px solid var(--border-subtle)',
+                                    }}
+                                    aria-pressed={semanticSearch}
+                                    title={semanticSearch ? 'Match keywords instead' : 'Find notes with a similar meaning'}
+                                >
+                                    <Brain size={14} />
+                                    <span className="hidden sm:inline">Similar meaning</span>
+                                </motion.button>
+                            )}
                             {/* AI Search Insights button - shown when search has 2+ results */}
                             {searchQuery && notes.length >= 2 && onGenerateSearchInsights && (
                                 <AISearchInsightsButton
@@ -461,6 +586,25 @@ export function NotesList({
                                     matchCount={notes.length}
                                 />
                             )}
+                            {/* Ask-your-notes chat button */}
+                            {onAskNotes && (
+                                <motion.button
+                                    whileHover={{ scale: 1.02, y: -1 }}
+                                    whileTap={{ scale: 0.98 }}
+                                    onClick={onAskNotes}
+                                    className="flex items-center gap-2 px-3 py-2 rounded-xl text-xs font-medium transition-all shrink-0"
+                                    style={{
+                                        background: 'var(--surface-content-secondary)',
+                                        color: 'var(--text-primary)',
+                                        boxShadow: 'var(--shadow-sm)',
+                                        border: '1px solid var(--border-subtle)',
+                                    }}
+                                    title="Ask questions about these notes"
+                                >
+                                    <MessageCircle size={14} style={{ color: 'var(--accent-primary)' }} />
+                                    <span className="hidden sm:inline">Ask</span>
+                                </motion.button>
+                            )}
                             {/* Select toggle button */}
                             {notes.length > 0 && (
                                 <motion.button
@@ -491,6 +635,14 @@ export function NotesList({
                         </div>
                     </div>
                 )}
+                {semanticSearch && semanticSearchError && (
+                    <p
+                        className="mt-2 text-xs"
+                        style={{ color: 'var(--text-muted)' }}
+                    >
+                        {semanticSearchError}
+                    </p>
+                )}
             </div>
 
             {/* Filter Chips Row */}
@@ -850,7 +1002,11 @@ export function NotesList({
                                                 className="text-xs opacity-80 line-clamp-3"
                                                 style={{ lineHeight: 'var(--leading-normal)' }}
                                             >
-                                                {note.preview || 'No content'}
+                                                {note.snippet ? (
+                                                    <HighlightedSnippet snippet={note.snippet} />
+                                                ) : (
+                                                    note.preview || 'No content'
+                                                )}
                                             </p>
 
                                             {/* Footer: Date with inline action icons */}
@@ -859,6 +1015,12 @@ export function NotesList({
                                                     className="text-xs opacity-70 tabular-nums shrink-0"
                                                 >
                                                     {formatRelativeDate(note.updatedAt)}
+                                                    {/* Checklist progress */}
+                                                    {(note.openTasks ?? 0) + (note.completedTasks ?? 0) > 0 && (
+                                                        <span title="Completed tasks">
+                                                            {' · '}{note.completedTasks ?? 0}/{(note.openTasks ?? 0) + (note.completedTasks ?? 0)} done
+                                                        </span>
+                                                    )}
                                                 </span>
 
                                                 {/* Action icons inline with timestamp */}
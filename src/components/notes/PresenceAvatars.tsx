@@ -0,0 +1,76 @@
+'use client';
+
+import { presenceInitials, type PresenceUser } from '@/lib/collaboration/presence';
+import type { CollaborationStatus } from '@/hooks/useCollaboration';
+
+const MAX_AVATARS = 4;
+
+/**
+ * Avatars of the other people editing a note, with the connection state
+ * when it isn't live.
+ */
+export function PresenceAvatars({
+    peers,
+    status,
+}: {
+    peers: PresenceUser[];
+    status: CollaborationStatus;
+}) {
+    const visible = peers.slice(0, MAX_AVATARS);
+    const hidden = peers.length - visible.length;
+
+    if (status === 'off' || (status === 'connected' && peers.length === 0)) {
+        return null;
+    }
+
+    return (
+        <div className="flex items-center gap-2" aria-label="People editing this note">
+            {status !== 'connected' && (
+                <span
+                    className="flex items-center gap-1.5 text-xs"
+                    style={{ color: 'var(--text-muted)' }}
+                    title={status === 'offline'
+                        ? 'Live editing is unavailable. Your changes are still saved.'
+                        : 'Connecting to live editing'}
+                >
+                    <span
+                        className={`w-1.5 h-1.5 rounded-full ${status === 'connecting' ? 'animate-pulse' : ''}`}
+                        style={{ background: status === 'offline' ? 'var(--text-muted)' : 'var(--accent-primary)' }}
+                    />
+                    <span className="hidden sm:inline">{status === 'offline' ? 'Offline' : 'Connecting...'}</span>
+                </span>
+            )}
+            {visible.length > 0 && (
+                <div className="flex -space-x-2">
+                    {visible.map((peer) => (
+                        <span
+                            key={peer.id}
+                            className="w-7 h-7 rounded-full flex items-center justify-center text-[10px] font-semibold"
+                            style={{
+                                background: peer.color,
+                                color: '#fff',
+                                boxShadow: '0 0 0 2px var(--surface-content)',
+                            }}
+                            title={`${peer.name} is editing`}
+                        >
+                            {presenceInitials(peer.name)}
+                        </span>
+                    ))}
+                    {hidden > 0 && (
+                        <span
+                            className="w-7 h-7 rounded-full flex items-center justify-center text-[10px] font-semibold"
+                            style={{
+                                background: 'var(--surface-content-secondary)',
+                                color: 'var(--text-secondary)',
+                                boxShadow: '0 0 0 2px var(--surface-content)',
+                            }}
+                            title={peers.slice(MAX_AVATARS).map(peer => peer.name).join(', ')}
+                        >
+                            +{hidden}
+                        </span>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,110 @@
+'use client';
+
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useRelatedNotes, type RelatedNoteItem } from '@/hooks/useRelatedNotes';
+import { OpenMoji } from '../ui/OpenMoji';
+
+interface RelatedNotesPanelProps {
+    noteId: string;
+    /** Changes whenever the note is saved, so suggestions stay current */
+    version: string;
+    onOpenNote?: (noteId: string) => void;
+}
+
+/**
+ * Why a note was suggested, e.g. "Tags: travel · Similar meaning"
+ */
+function describeReasons(note: RelatedNoteItem): string {
+    return note.reasons.map((reason) => {
+        switch (reason) {
+            case 'tags':
+                return `${note.sharedTags.length === 1 ? 'Tag' : 'Tags'}: ${note.sharedTags.join(', ')}`;
+            case 'links':
+                return 'Links to the same notes';
+            case 'terms':
+                return 'Similar words';
+            case 'meaning':
+                return 'Similar meaning';
+        }
+    }).join(' · ');
+}
+
+/**
+ * Collapsible "Related" list of notes about the same thing as this note.
+ * Hidden when nothing is related.
+ */
+export function RelatedNotesPanel({ noteId, version, onOpenNote }: RelatedNotesPanelProps) {
+    const { related } = useRelatedNotes(noteId, version);
+    const [expanded, setExpanded] = useState(true);
+
+    if (related.length === 0) return null;
+
+    return (
+        <div
+            className="mt-10 pt-4"
+            style={{ borderTop: '1px solid var(--border-subtle)' }}
+        >
+            <button
+                onClick={() => setExpanded(!expanded)}
+                className="w-full flex items-center justify-between py-1 text-xs font-semibold uppercase tracking-wider"
+                style={{ color: 'var(--text-muted)' }}
+            >
+                <span className="flex items-center gap-2">
+                    <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+                    </svg>
+                    Related
+                    <span className="tabular-nums font-normal">({related.length})</span>
+                </span>
+                <motion.svg
+                    animate={{ rotate: expanded ? 0 : -90 }}
+                    transition={{ duration: 0.2 }}
+                    className="w-4 h-4"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                >
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                </motion.svg>
+            </button>
+
+            <AnimatePresence>
+                {expanded && (
+                    <motion.div
+                        initial={{ height: 0, opacity: 0 }}
+                        animate={{ height: 'auto', opacity: 1 }}
+                        exit={{ height: 0, opacity: 0 }}
+                        transition={{ duration: 0.2 }}
+                        className="mt-2 space-y-2 overflow-hidden"
+                    >
+                        {related.map((note) => (
+                            <button
+                                key={note.id}
+                                onClick={() => onOpenNote?.(note.id)}
+                                className="w-full text-left rounded-xl px-4 py-3 transition-colors"
+                                style={{
+                                    background: 'var(--surface-content-secondary)',
+                                    border: '1px solid var(--border-subtle)',
+                                }}
+                            >
+                                <div className="flex items-center gap-2 min-w-0">
+                                    {note.icon && <OpenMoji hexcode={note.icon} size={16} />}
+                                    <span className="text-sm font-medium truncate" style={{ color: 'var(--text-primary)' }}>
+                                        {note.title || 'Untitled'}
+                                    </span>
+                                    <span className="text-xs shrink-0 ml-auto" style={{ color: 'var(--text-muted)' }}>
+                                        {note.notebook.name}
+                                    </span>
+                                </div>
+                                <p className="mt-1 text-xs truncate" style={{ color: 'var(--text-secondary)' }}>
+                                    {describeReasons(note)}
+                                </p>
+                            </button>
+                        ))}
+                    </motion.div>
+                )}
+            </AnimatePresence>
+        </div>
+    );
+}
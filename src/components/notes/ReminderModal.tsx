@@ -0,0 +1,121 @@
+'use client';
+
+import { useState } from 'react';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import type { ReminderUpdate } from '@/hooks/useReminders';
+
+/** Format a date for a `datetime-local` input, in local time */
+function toLocalInput(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/** Tomorrow at 9:00, or a week from today at 9:00 */
+function morningIn(days: number): Date {
+    const date = new Date();
+    date.setDate(date.getDate() + days);
+    date.setHours(9, 0, 0, 0);
+    return date;
+}
+
+const PRESETS = [
+    { label: 'Tomorrow morning', date: () => morningIn(1) },
+    { label: 'Next week', date: () => morningIn(7) },
+];
+
+/**
+ * Set, change, clear or complete a note's reminder.
+ * Mount with a fresh `key` each time it opens so the form starts from the
+ * note's current reminder.
+ */
+export function ReminderModal({
+    isOpen,
+    onClose,
+    reminderAt,
+    isDone,
+    onSave,
+}: {
+    isOpen: boolean;
+    onClose: () => void;
+    reminderAt: Date | string | null;
+    isDone: boolean;
+    onSave: (changes: ReminderUpdate) => Promise<void>;
+}) {
+    const [value, setValue] = useState(() => toLocalInput(reminderAt ? new Date(reminderAt) : morningIn(1)));
+    const [error, setError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const save = async (changes: ReminderUpdate) => {
+        setIsSaving(true);
+        setError(null);
+        try {
+            await onSave(changes);
+            onClose();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to update reminder');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const date = new Date(value);
+        if (isNaN(date.getTime())) {
+            setError('Choose a date and time');
+            return;
+        }
+        save({ reminderAt: date.toISOString() });
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title={reminderAt ? 'Edit Reminder' : 'Set Reminder'} size="sm">
+            <form onSubmit={handleSubmit} className="space-y-4">
+                <Input
+                    type="datetime-local"
+                    label="Remind me at"
+                    value={value}
+                    onChange={(e) => setValue(e.target.value)}
+                    error={error ?? undefined}
+                    helperText="You'll get an email and a notification in Notova."
+                    autoFocus
+                />
+                <div className="flex gap-2">
+                    {PRESETS.map((preset) => (
+                        <button
+                            key={preset.label}
+                            type="button"
+                            onClick={() => setValue(toLocalInput(preset.date()))}
+                            className="px-3 py-1 text-xs font-medium rounded-full transition-colors"
+                            style={{
+                                background: 'var(--surface-content-secondary)',
+                                color: 'var(--text-secondary)',
+                            }}
+                        >
+                            {preset.label}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex gap-3 justify-end flex-wrap">
+                    {reminderAt && (
+                        <>
+                            <Button type="button" variant="ghost" onClick={() => save({ reminderAt: null })} disabled={isSaving}>
+                                Remove
+                            </Button>
+                            {!isDone && (
+                                <Button type="button" variant="secondary" onClick={() => save({ reminderDone: true })} disabled={isSaving}>
+                                    Mark Done
+                                </Button>
+                            )}
+                        </>
+                    )}
+                    <Button type="submit" isLoading={isSaving} disabled={!value}>
+                        Save
+                    </Button>
+                </div>
+            </form>
+        </Modal>
+    );
+}
@@ -0,0 +1,244 @@
+'use client';
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Modal } from '../ui/Modal';
+import { Spinner } from '../ui/Spinner';
+import { useNoteRevisions, useRevisionDiff, NoteRevisionSummary } from '@/hooks/useNoteRevisions';
+import type { DiffPart } from '@/lib/revisions/diff';
+
+interface RevisionHistoryModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    noteId: string;
+}
+
+const sourceLabels: Record<NoteRevisionSummary['source'], string> = {
+    baseline: 'Original',
+    edit: 'Edited',
+    restore: 'Restored',
+    import: 'Re-imported',
+};
+
+function formatRevisionDate(date: string) {
+    return new Date(date).toLocaleDateString(undefined, {
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit',
+    });
+}
+
+export function DiffView({ parts }: { parts: DiffPart[] }) {
+    return (
+        <>
+            {parts.map((part, index) => {
+                if (part.type === 'equal') {
+                    return <span key={index}>{part.value}</span>;
+                }
+                const isInsert = part.type === 'insert';
+                const Tag = isInsert ? 'ins' : 'del';
+                return (
+                    <Tag
+                        key={index}
+                        className="rounded-sm px-0.5"
+                        style={{
+                            background: isInsert ? 'rgba(34, 197, 94, 0.18)' : 'rgba(239, 68, 68, 0.18)',
+                            color: isInsert ? 'rgb(22, 163, 74)' : 'rgb(220, 38, 38)',
+                            textDecoration: isInsert ? 'none' : 'line-through',
+                        }}
+                    >
+                        {part.value}
+                    </Tag>
+                );
+            })}
+        </>
+    );
+}
+
+export function RevisionHistoryModal({ isOpen, onClose, noteId }: RevisionHistoryModalProps) {
+    const { revisions, isLoading, error, isRestoring, restoreRevision } = useNoteRevisions(isOpen ? noteId : null);
+    const [selectedRevisionId, setSelectedRevisionId] = useState<string | null>(null);
+    const [restoreError, setRestoreError] = useState<string | null>(null);
+
+    // Default to the most recent revision
+    const activeRevisionId = selectedRevisionId ?? revisions[0]?.id ?? null;
+    const { diff, isLoading: isDiffLoading } = useRevisionDiff(isOpen ? noteId : null, activeRevisionId);
+
+    const handleClose = () => {
+        setSelectedRevisionId(null);
+        setRestoreError(null);
+        onClose();
+    };
+
+    const handleRestore = async () => {
+        if (!activeRevisionId) return;
+        setRestoreError(null);
+        try {
+            await restoreRevision(activeRevisionId);
+            handleClose();
+        } catch (err) {
+            setRestoreError(err instanceof Error ? err.message : 'Failed to restore revision');
+        }
+    };
+
+    const hasChanges = diff ? diff.stats.insertions > 0 || diff.stats.deletions > 0 || diff.title.some(p => p.type !== 'equal') : false;
+
+    return (
+        <Modal isOpen={isOpen} onClose={handleClose} title="Version History" size="xl">
+            <div className="space-y-4">
+                {/* Revisions List */}
+                <div
+                    className="max-h-48 overflow-y-auto rounded-xl"
+                    style={{
+                        border: '1px solid var(--border-primary)',
+                        background: 'var(--surface-shell)',
+                    }}
+                >
+                    {isLoading ? (
+                        <div className="flex justify-center py-8">
+                            <Spinner size="sm" />
+                        </div>
+                    ) : error ? (
+                        <div className="px-4 py-8 text-center text-sm" style={{ color: 'var(--text-muted)' }}>
+                            {error.message}
+                        </div>
+                    ) : revisions.length === 0 ? (
+                        <div className="px-4 py-8 text-center text-sm" style={{ color: 'var(--text-muted)' }}>
+                            No earlier versions yet. Versions are saved as you edit.
+                        </div>
+                    ) : (
+                        revisions.map((revision, index) => {
+                            const isSelected = revision.id === activeRevisionId;
+                            return (
+                                <motion.button
+                                    key={revision.id}
+                                    initial={{ opacity: 0, y: -10 }}
+                                    animate={{ opacity: 1, y: 0 }}
+                                    transition={{ delay: index * 0.02 }}
+                                    onClick={() => setSelectedRevisionId(revision.id)}
+                                    className="w-full flex items-center gap-3 px-4 py-2.5 text-left transition-all cursor-pointer"
+                                    style={{
+                                        background: isSelected ? 'var(--accent-glow-soft)' : 'transparent',
+                                        borderBottom: index < revisions.length - 1
+                                            ? '1px solid var(--border-subtle)'
+                                            : 'none',
+                                    }}
+                                >
+                                    <div className="flex-1 min-w-0">
+                                        <span
+                                            className="text-sm font-medium truncate block"
+                                            style={{ color: isSelected ? 'var(--accent-primary)' : 'var(--text-primary)' }}
+                                        >
+                                            {formatRevisionDate(revision.updatedAt)}
+                                        </span>
+                                        <span className="text-xs truncate block" style={{ color: 'var(--text-muted)' }}>
+                                            {revision.title}
+                                        </span>
+                                    </div>
+                                    {index === 0 ? (
+                                        <span
+                                            className="text-xs px-2 py-1 rounded-full"
+                                            style={{ background: 'var(--surface-content-secondary)', color: 'var(--text-muted)' }}
+                                        >
+                                            Latest
+                                        </span>
+                                    ) : (
+                                        <span className="text-xs" style={{ color: 'var(--text-muted)' }}>
+                                            {sourceLabels[revision.source] ?? revision.source}
+                                        </span>
+                                    )}
+                                </motion.button>
+                            );
+                        })
+                    )}
+                </div>
+
+                {/* Diff Preview */}
+                {activeRevisionId && (
+                    <div
+                        className="rounded-xl p-4 max-h-80 overflow-y-auto"
+                        style={{
+                            border: '1px solid var(--border-primary)',
+                            background: 'var(--surface-content)',
+                        }}
+                    >
+                        {isDiffLoading || !diff ? (
+                            <div className="flex justify-center py-6">
+                                <Spinner size="sm" />
+                            </div>
+                        ) : (
+                            <>
+                                <div className="flex items-center justify-between mb-3 text-xs" style={{ color: 'var(--text-muted)' }}>
+                                    <span>Changes from this version to the current note</span>
+                                    <span>
+                                        <span style={{ color: 'rgb(22, 163, 74)' }}>+{diff.stats.insertions}</span>
+                                        {' '}
+                                        <span style={{ color: 'rgb(220, 38, 38)' }}>-{diff.stats.deletions}</span>
+                                    </span>
+                                </div>
+                                {hasChanges ? (
+                                    <>
+                                        <h3 className="text-base font-semibold mb-2" style={{ color: 'var(--text-primary)' }}>
+                                            <DiffView parts={diff.title} />
+                                        </h3>
+                                        <p className="text-sm whitespace-pre-wrap leading-relaxed" style={{ color: 'var(--text-secondary)' }}>
+                                            <DiffView parts={diff.parts} />
+                                        </p>
+                                    </>
+                                ) : (
+                                    <p className="text-sm text-center py-4" style={{ color: 'var(--text-muted)' }}>
+                                        This version matches the current note.
+                                    </p>
+                                )}
+                            </>
+                        )}
+                    </div>
+                )}
+
+                {restoreError && (
+                    <p className="text-sm" style={{ color: 'rgb(220, 38, 38)' }}>{restoreError}</p>
+                )}
+
+                {/* Action Buttons */}
+                <div className="flex gap-3 justify-end pt-2">
+                    <button
+                        onClick={handleClose}
+                        disabled={isRestoring}
+                        className="px-4 py-2 rounded-xl text-sm font-medium transition-all hover:scale-[1.02] disabled:opacity-50"
+                        style={{
+                            background: 'var(--surface-shell)',
+                            color: 'var(--text-primary)',
+                            border: '1px solid var(--border-primary)',
+                        }}
+                    >
+                        Close
+                    </button>
+                    <button
+                        onClick={handleRestore}
+                        disabled={!activeRevisionId || !hasChanges || isRestoring}
+                        className="px-4 py-2 rounded-xl text-sm font-medium transition-all hover:scale-[1.02] disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                        style={{
+                            background: 'linear-gradient(135deg, var(--accent-primary) 0%, var(--accent-secondary) 100%)',
+                            color: 'white',
+                        }}
+                    >
+                        {isRestoring ? (
+                            <>
+                                <motion.div
+                                    animate={{ rotate: 360 }}
+                                    transition={{ duration: 1, repeat: Infinity, ease: 'linear' }}
+                                    className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full"
+                                />
+                                Restoring...
+                            </>
+                        ) : (
+                            'Restore this version'
+                        )}
+                    </button>
+                </div>
+            </div>
+        </Modal>
+    );
+}
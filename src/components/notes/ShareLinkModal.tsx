@@ -0,0 +1,211 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { Spinner } from '../ui/Spinner';
+import { useShareLinks, isShareLinkActive, type ShareLinkItem, type ShareLinkTarget } from '@/hooks/useShareLinks';
+
+const EXPIRY_OPTIONS = [
+    { value: '', label: 'Never expires' },
+    { value: '1', label: 'Expires in 1 day' },
+    { value: '7', label: 'Expires in 7 days' },
+    { value: '30', label: 'Expires in 30 days' },
+];
+
+function formatDate(value: string): string {
+    return new Date(value).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+function linkStatus(link: ShareLinkItem): string {
+    if (link.revokedAt) return `Revoked ${formatDate(link.revokedAt)}`;
+    if (link.expiresAt) {
+        return isShareLinkActive(link) ? `Expires ${formatDate(link.expiresAt)}` : `Expired ${formatDate(link.expiresAt)}`;
+    }
+    return 'Never expires';
+}
+
+/**
+ * Create, copy and revoke public read-only links to a note or its notebook.
+ */
+export function ShareLinkModal({
+    isOpen,
+    onClose,
+    noteId,
+    notebookId,
+}: {
+    isOpen: boolean;
+    onClose: () => void;
+    noteId: string;
+    notebookId?: string;
+}) {
+    const [scope, setScope] = useState<'note' | 'notebook'>('note');
+    const [expiryDays, setExpiryDays] = useState('');
+    const [password, setPassword] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isCreating, setIsCreating] = useState(false);
+    const [copiedId, setCopiedId] = useState<string | null>(null);
+
+    const target = useMemo<ShareLinkTarget | null>(() => {
+        if (!isOpen) return null;
+        return scope === 'notebook' && notebookId ? { notebookId } : { noteId };
+    }, [isOpen, scope, noteId, notebookId]);
+
+    const { links, isLoading, createLink, revokeLink } = useShareLinks(target);
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsCreating(true);
+        setError(null);
+        try {
+            const expiresAt = expiryDays
+                ? new Date(Date.now() + Number(expiryDays) * 24 * 60 * 60 * 1000).toISOString()
+                : null;
+            const link = await createLink({ password: password || undefined, expiresAt });
+            setPassword('');
+            await copyLink(link);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to create share link');
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    const copyLink = async (link: ShareLinkItem) => {
+        try {
+            await navigator.clipboard.writeText(link.url);
+            setCopiedId(link.id);
+            setTimeout(() => setCopiedId(current => (current === link.id ? null : current)), 2000);
+        } catch {
+            // Clipboard access denied; the URL is still shown for manual copying
+        }
+    };
+
+    const handleRevoke = async (link: ShareLinkItem) => {
+        setError(null);
+        try {
+            await revokeLink(link.id);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to revoke share link');
+        }
+    };
+
+    const selectStyle = {
+        background: 'var(--surface-content-secondary)',
+        color: 'var(--text-primary)',
+        border: '1px solid var(--border-subtle)',
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Share Link" size="md">
+            <div className="space-y-5">
+                {notebookId && (
+                    <div className="flex gap-1.5">
+                        {(['note', 'notebook'] as const).map((value) => (
+                            <button
+                                key={value}
+                                type="button"
+                                onClick={() => setScope(value)}
+                                className="px-3 py-1 text-xs font-medium rounded-full transition-colors"
+                                style={{
+                                    background: scope === value ? 'var(--accent-primary)' : 'var(--surface-content-secondary)',
+                                    color: scope === value ? 'var(--text-on-accent)' : 'var(--text-secondary)',
+                                }}
+                            >
+                                {value === 'note' ? 'This note' : 'Whole notebook'}
+                            </button>
+                        ))}
+                    </div>
+                )}
+
+                <p className="text-xs" style={{ color: 'var(--text-muted)' }}>
+                    Anyone with the link can read this {scope === 'notebook' ? 'notebook' : 'note'} without signing in.
+                    Encrypted text stays encrypted.
+                </p>
+
+                {/* New link */}
+                <form onSubmit={handleCreate} className="space-y-3">
+                    <div className="flex gap-2">
+                        <select
+                            value={expiryDays}
+                            onChange={(e) => setExpiryDays(e.target.value)}
+                            className="flex-1 px-3 py-2 text-sm rounded-lg"
+                            style={selectStyle}
+                            aria-label="Link expiry"
+                        >
+                            {EXPIRY_OPTIONS.map((option) => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                        </select>
+                        <Button type="submit" isLoading={isCreating}>
+                            Create Link
+                        </Button>
+                    </div>
+                    <Input
+                        type="password"
+                        label="Password (optional)"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        error={error ?? undefined}
+                        helperText="At least 8 characters. Visitors must enter it before they see anything."
+                        autoComplete="new-password"
+                        minLength={8}
+                    />
+                </form>
+
+                {/* Existing links */}
+                <div className="space-y-2">
+                    {isLoading ? (
+                        <div className="flex justify-center py-4">
+                            <Spinner />
+                        </div>
+                    ) : links.length === 0 ? (
+                        <p className="text-sm text-center py-2" style={{ color: 'var(--text-muted)' }}>
+                            No links yet
+                        </p>
+                    ) : (
+                        links.map((link) => {
+                            const active = isShareLinkActive(link);
+                            return (
+                                <div
+                                    key={link.id}
+                                    className="p-3 rounded-xl space-y-2"
+                                    style={{
+                                        background: 'var(--surface-content-secondary)',
+                                        opacity: active ? 1 : 0.6,
+                                    }}
+                                >
+                                    <div className="flex items-center gap-2">
+                                        <input
+                                            readOnly
+                                            value={link.url}
+                                            onFocus={(e) => e.target.select()}
+                                            className="flex-1 min-w-0 bg-transparent text-xs font-mono truncate outline-none"
+                                            style={{ color: active ? 'var(--text-primary)' : 'var(--text-muted)' }}
+                                            aria-label="Share link URL"
+                                        />
+                                        {active && (
+                                            <>
+                                                <Button size="sm" variant="secondary" onClick={() => copyLink(link)}>
+                                                    {copiedId === link.id ? 'Copied' : 'Copy'}
+                                                </Button>
+                                                <Button size="sm" variant="danger" onClick={() => handleRevoke(link)}>
+                                                    Revoke
+                                                </Button>
+                                            </>
+                                        )}
+                                    </div>
+                                    <p className="text-xs" style={{ color: 'var(--text-muted)' }}>
+                                        {link.hasPassword && '🔒 Password · '}
+                                        {link.viewCount} view{link.viewCount === 1 ? '' : 's'} · {linkStatus(link)}
+                                    </p>
+                                </div>
+                            );
+                        })
+                    )}
+                </div>
+            </div>
+        </Modal>
+    );
+}
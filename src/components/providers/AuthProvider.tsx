@@ -4,6 +4,7 @@ import { createContext, useContext, useEffect, useState, ReactNode, useCallback
 import { createClient } from '@/lib/supabase/client'
 import type { User } from '@supabase/supabase-js'
 import { DEFAULT_THEME, ThemeKey, isValidTheme } from '@/lib/themes'
+import { clearOfflineData } from '@/lib/offline/local-store'
 
 // localStorage key used by next-themes
 const THEME_STORAGE_KEY = 'theme'
@@ -42,7 +43,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     useEffect(() => {
         // Get initial session - theme is already loaded from localStorage
         const getSession = async () => {
-            const { data: { user } } = await supabase.auth.getUser()
+            const { data: { user: verifiedUser }, error } = await supabase.auth.getUser()
+            // Offline the session can't be checked with the server; use the
+            // stored one so notes cached on this device stay available
+            const user = error && !navigator.onLine
+                ? (await supabase.auth.getSession()).data.session?.user ?? null
+                : verifiedUser
             setUser(user)
             setLoading(false)
 
@@ -139,6 +145,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
     const signOut = async () => {
         await supabase.auth.signOut()
+        await clearOfflineData().catch(() => {
+            // Nothing was kept offline
+        })
         setUser(null)
         setUserTheme(DEFAULT_THEME)
         try {
@@ -0,0 +1,19 @@
+'use client';
+
+import { useEffect } from 'react';
+
+/**
+ * Installs the service worker that keeps the app shell available offline.
+ * Skipped in development so cached assets never hide code changes.
+ */
+export function ServiceWorkerRegistration() {
+    useEffect(() => {
+        if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+        navigator.serviceWorker.register('/sw.js').catch((error) => {
+            console.error('Failed to register the service worker:', error);
+        });
+    }, []);
+
+    return null;
+}
@@ -0,0 +1,104 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { OpenMoji } from '../ui/OpenMoji';
+import type { ReminderItem } from '@/hooks/useReminders';
+
+interface ReminderToastsProps {
+    reminders: ReminderItem[];
+    onOpen: (noteId: string) => void;
+    onDone: (noteId: string) => Promise<void>;
+}
+
+// How often to check whether an upcoming reminder has come due
+const TICK_INTERVAL = 30_000;
+
+// Toasts shown at once; the rest wait until these are handled
+const MAX_VISIBLE = 3;
+
+/**
+ * Notifications for reminders that have come due while the app is open.
+ * Dismissed reminders stay hidden for the session until they're rescheduled.
+ */
+export function ReminderToasts({ reminders, onOpen, onDone }: ReminderToastsProps) {
+    const [now, setNow] = useState(() => Date.now());
+    const [dismissed, setDismissed] = useState<Set<string>>(() => new Set());
+
+    useEffect(() => {
+        const timer = setInterval(() => setNow(Date.now()), TICK_INTERVAL);
+        return () => clearInterval(timer);
+    }, []);
+
+    // Key on the time too, so a rescheduled reminder notifies again
+    const toastKey = (reminder: ReminderItem) => `${reminder.noteId}:${reminder.reminderAt}`;
+    const dismiss = (reminder: ReminderItem) => setDismissed(current => new Set(current).add(toastKey(reminder)));
+
+    const due = reminders
+        .filter(reminder => new Date(reminder.reminderAt).getTime() <= now && !dismissed.has(toastKey(reminder)))
+        .slice(0, MAX_VISIBLE);
+
+    return (
+        <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-2 w-80 max-w-[calc(100vw-2rem)]">
+            <AnimatePresence initial={false}>
+                {due.map((reminder) => (
+                    <motion.div
+                        key={toastKey(reminder)}
+                        layout
+                        initial={{ opacity: 0, y: 20, scale: 0.95 }}
+                        animate={{ opacity: 1, y: 0, scale: 1 }}
+                        exit={{ opacity: 0, x: 40 }}
+                        transition={{ type: 'spring', stiffness: 300, damping: 25 }}
+                        className="p-3 rounded-2xl"
+                        style={{
+                            background: 'var(--surface-content)',
+                            border: '1px solid var(--border-primary)',
+                            boxShadow: '0 4px 24px -4px rgba(0, 0, 0, 0.3)',
+                        }}
+                        role="status"
+                    >
+                        <div className="flex items-start gap-2">
+                            <span aria-hidden className="text-base leading-5">⏰</span>
+                            <div className="flex-1 min-w-0">
+                                <p className="text-sm font-medium truncate flex items-center gap-1" style={{ color: 'var(--text-primary)' }}>
+                                    {reminder.icon && <OpenMoji hexcode={reminder.icon} size={14} className="shrink-0" />}
+                                    <span className="truncate">{reminder.title || 'Untitled'}</span>
+                                </p>
+                                <p className="text-xs truncate" style={{ color: 'var(--text-muted)' }}>
+                                    {reminder.notebook.name} · {new Date(reminder.reminderAt).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                                </p>
+                            </div>
+                            <button
+                                onClick={() => dismiss(reminder)}
+                                className="p-0.5 rounded text-xs"
+                                style={{ color: 'var(--text-muted)' }}
+                                aria-label="Dismiss reminder"
+                            >
+                                ✕
+                            </button>
+                        </div>
+                        <div className="mt-2 flex justify-end gap-2">
+                            <button
+                                onClick={() => {
+                                    dismiss(reminder);
+                                    onOpen(reminder.noteId);
+                                }}
+                                className="px-3 py-1 text-xs font-medium rounded-full"
+                                style={{ background: 'var(--surface-content-secondary)', color: 'var(--text-secondary)' }}
+                            >
+                                Open
+                            </button>
+                            <button
+                                onClick={() => onDone(reminder.noteId).catch(error => console.error('Failed to complete reminder:', error))}
+                                className="px-3 py-1 text-xs font-medium rounded-full"
+                                style={{ background: 'var(--accent-primary)', color: 'var(--text-on-accent)' }}
+                            >
+                                Mark Done
+                            </button>
+                        </div>
+                    </motion.div>
+                ))}
+            </AnimatePresence>
+        </div>
+    );
+}
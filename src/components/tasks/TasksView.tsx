@@ -0,0 +1,277 @@
+'use client';
+
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { CheckSquare } from 'lucide-react';
+import { Spinner } from '../ui/Spinner';
+import { EmptyState } from '../ui/EmptyState';
+import { OpenMoji } from '../ui/OpenMoji';
+import { useTasks, localDate, type TaskItem, type TaskStatusFilter } from '@/hooks/useTasks';
+
+interface TasksViewProps {
+    notebooks: Array<{ id: string; name: string }>;
+    tags: Array<{ id: string; name: string }>;
+    onNoteOpen?: (noteId: string) => void;
+    onClose?: () => void;
+}
+
+const STATUS_FILTERS: { value: TaskStatusFilter; label: string }[] = [
+    { value: 'open', label: 'Open' },
+    { value: 'overdue', label: 'Overdue' },
+    { value: 'completed', label: 'Completed' },
+    { value: 'all', label: 'All' },
+];
+
+const EMPTY_MESSAGES: Record<TaskStatusFilter, { title: string; description: string }> = {
+    open: { title: 'No open tasks', description: 'Checklist items from your notes will show up here' },
+    overdue: { title: 'Nothing overdue', description: 'Tasks past their due date will show up here' },
+    completed: { title: 'No completed tasks', description: 'Checked items from your notes will show up here' },
+    all: { title: 'No tasks yet', description: 'Add a checklist to a note to start tracking tasks' },
+};
+
+function formatDueDate(dueDate: string, today: string): string {
+    if (dueDate === today) return 'Today';
+    const date = new Date(`${dueDate}T00:00:00`);
+    return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+export function TasksView({ notebooks, tags, onNoteOpen, onClose }: TasksViewProps) {
+    const [status, setStatus] = useState<TaskStatusFilter>('open');
+    const [notebookId, setNotebookId] = useState<string>('');
+    const [tagId, setTagId] = useState<string>('');
+    const [updateError, setUpdateError] = useState<string | null>(null);
+    const [editingDueId, setEditingDueId] = useState<string | null>(null);
+
+    const { tasks, isLoading, error, updateTask } = useTasks({ status, notebookId, tagId });
+    const today = localDate();
+
+    const handleUpdate = async (task: TaskItem, changes: { checked?: boolean; dueDate?: string | null }) => {
+        setUpdateError(null);
+        try {
+            await updateTask(task, changes);
+        } catch (err) {
+            setUpdateError(err instanceof Error ? err.message : 'Failed to update task');
+        }
+    };
+
+    const selectStyle = {
+        background: 'var(--surface-content-secondary)',
+        color: 'var(--text-primary)',
+        border: '1px solid var(--border-subtle)',
+    };
+
+    return (
+        <div
+            className="w-full h-full flex flex-col transition-colors relative overflow-hidden"
+            style={{ background: 'var(--surface-content)' }}
+        >
+            {/* Header */}
+            <div
+                className="px-5 py-4 flex items-center justify-between gap-3 flex-wrap"
+                style={{ borderBottom: '1px solid var(--border-subtle)' }}
+            >
+                <div className="flex items-center gap-3">
+                    {onClose && (
+                        <motion.button
+                            whileHover={{ scale: 1.05 }}
+                            whileTap={{ scale: 0.95 }}
+                            onClick={onClose}
+                            className="p-2 rounded-lg transition-colors"
+                            style={{
+                                background: 'var(--surface-content-secondary)',
+                                color: 'var(--text-secondary)'
+                            }}
+                            aria-label="Back to notes"
+                        >
+                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                            </svg>
+                        </motion.button>
+                    )}
+                    <h2
+                        className="font-bold"
+                        style={{
+                            fontSize: 'var(--font-heading)',
+                            color: 'var(--text-primary)'
+                        }}
+                    >
+                        Tasks
+                        {!isLoading && (
+                            <span
+                                className="ml-2 font-normal"
+                                style={{
+                                    fontSize: 'var(--font-small)',
+                                    color: 'var(--text-muted)'
+                                }}
+                            >
+                                ({tasks.length})
+                            </span>
+                        )}
+                    </h2>
+                </div>
+
+                {/* Notebook and tag filters */}
+                <div className="flex items-center gap-2">
+                    <select
+                        value={notebookId}
+                        onChange={(e) => setNotebookId(e.target.value)}
+                        className="px-2 py-1.5 text-xs rounded-lg"
+                        style={selectStyle}
+                        aria-label="Filter by notebook"
+                    >
+                        <option value="">All notebooks</option>
+                        {notebooks.map((notebook) => (
+                            <option key={notebook.id} value={notebook.id}>{notebook.name}</option>
+                        ))}
+                    </select>
+                    {tags.length > 0 && (
+                        <select
+                            value={tagId}
+                            onChange={(e) => setTagId(e.target.value)}
+                            className="px-2 py-1.5 text-xs rounded-lg"
+                            style={selectStyle}
+                            aria-label="Filter by tag"
+                        >
+                            <option value="">All tags</option>
+                            {tags.map((tag) => (
+                                <option key={tag.id} value={tag.id}>{tag.name}</option>
+                            ))}
+                        </select>
+                    )}
+                </div>
+            </div>
+
+            {/* Status filters */}
+            <div
+                className="px-5 py-2 flex items-center gap-1.5"
+                style={{ borderBottom: '1px solid var(--border-subtle)' }}
+            >
+                {STATUS_FILTERS.map((filter) => (
+                    <button
+                        key={filter.value}
+                        onClick={() => setStatus(filter.value)}
+                        className="px-3 py-1 text-xs font-medium rounded-full transition-colors"
+                        style={{
+                            background: status === filter.value ? 'var(--accent-primary)' : 'var(--surface-content-secondary)',
+                            color: status === filter.value ? 'var(--text-on-accent)' : 'var(--text-secondary)',
+                        }}
+                    >
+                        {filter.label}
+                    </button>
+                ))}
+            </div>
+
+            {(updateError || error) && (
+                <div
+                    className="mx-5 mt-3 px-3 py-2 rounded-lg text-xs"
+                    style={{ background: 'rgba(239, 68, 68, 0.1)', color: 'rgb(239, 68, 68)' }}
+                >
+                    {updateError || error?.message}
+                </div>
+            )}
+
+            {/* Task list */}
+            <div className="flex-1 overflow-y-auto p-4">
+                {isLoading ? (
+                    <div className="flex items-center justify-center py-12">
+                        <Spinner size="lg" />
+                    </div>
+                ) : tasks.length === 0 ? (
+                    <EmptyState icon={CheckSquare} {...EMPTY_MESSAGES[status]} />
+                ) : (
+                    <ul className="space-y-1 max-w-3xl mx-auto">
+                        <AnimatePresence initial={false}>
+                            {tasks.map((task) => {
+                                const isOverdue = !task.checked && !!task.dueDate && task.dueDate < today;
+                                return (
+                                    <motion.li
+                                        key={task.id}
+                                        layout
+                                        initial={{ opacity: 0, y: 8 }}
+                                        animate={{ opacity: 1, y: 0 }}
+                                        exit={{ opacity: 0 }}
+                                        className="group flex items-start gap-3 px-3 py-2 rounded-xl transition-colors hover:bg-(--surface-content-secondary)"
+                                    >
+                                        <input
+                                            type="checkbox"
+                                            checked={task.checked}
+                                            onChange={(e) => handleUpdate(task, { checked: e.target.checked })}
+                                            className="mt-1 w-4 h-4 shrink-0 cursor-pointer"
+                                            style={{ accentColor: '#ABD672' }}
+                                            aria-label={task.checked ? 'Mark as not done' : 'Mark as done'}
+                                        />
+                                        <div className="flex-1 min-w-0">
+                                            <p
+                                                className="text-sm break-words"
+                                                style={{
+                                                    color: task.checked ? 'var(--text-muted)' : 'var(--text-primary)',
+                                                    textDecoration: task.checked ? 'line-through' : 'none',
+                                                }}
+                                            >
+                                                {task.text || 'Untitled task'}
+                                            </p>
+                                            <button
+                                                onClick={() => onNoteOpen?.(task.note.id)}
+                                                className="mt-0.5 flex items-center gap-1 text-xs hover:underline max-w-full"
+                                                style={{ color: 'var(--text-muted)' }}
+                                                title="Open note"
+                                            >
+                                                {task.note.icon && (
+                                                    <OpenMoji hexcode={task.note.icon} size={12} className="shrink-0" />
+                                                )}
+                                                <span className="truncate">
+                                                    {task.note.title || 'Untitled'} · {task.note.notebook.name}
+                                                </span>
+                                            </button>
+                                        </div>
+
+                                        {/* Due date */}
+                                        {editingDueId === task.id ? (
+                                            <input
+                                                type="date"
+                                                defaultValue={task.dueDate ?? ''}
+                                                autoFocus
+                                                onBlur={() => setEditingDueId(null)}
+                                                onChange={(e) => {
+                                                    setEditingDueId(null);
+                                                    handleUpdate(task, { dueDate: e.target.value || null });
+                                                }}
+                                                className="px-2 py-1 text-xs rounded-lg shrink-0"
+                                                style={selectStyle}
+                                                aria-label="Due date"
+                                            />
+                                        ) : task.dueDate ? (
+                                            <button
+                                                onClick={() => setEditingDueId(task.id)}
+                                                className="px-2 py-0.5 text-xs font-medium rounded-md shrink-0 tabular-nums"
+                                                style={isOverdue ? {
+                                                    background: 'rgba(239, 68, 68, 0.15)',
+                                                    color: 'rgb(239, 68, 68)'
+                                                } : {
+                                                    background: 'var(--surface-content-secondary)',
+                                                    color: 'var(--text-secondary)'
+                                                }}
+                                                title="Change due date"
+                                            >
+                                                {formatDueDate(task.dueDate, today)}
+                                            </button>
+                                        ) : (
+                                            <button
+                                                onClick={() => setEditingDueId(task.id)}
+                                                className="px-2 py-0.5 text-xs rounded-md shrink-0 opacity-0 group-hover:opacity-100 transition-opacity"
+                                                style={{ color: 'var(--text-muted)' }}
+                                                title="Add due date"
+                                            >
+                                                + Due date
+                                            </button>
+                                        )}
+                                    </motion.li>
+                                );
+                            })}
+                        </AnimatePresence>
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,219 @@
+'use client';
+
+import useSWR from 'swr';
+import { useCallback, useRef, useState } from 'react';
+import { AIRequestError, type AIErrorCode } from '@/lib/ai/error-codes';
+import { readChatStream } from '@/lib/chat/chat-stream';
+import type { ChatCitation, ChatMessageData, ChatThreadData } from '@/lib/chat/types';
+
+/**
+ * Notes a new thread asks about. Leave both empty for all notes.
+ */
+export interface ChatScopeInput {
+    notebookId?: string | null;
+    tagId?: string | null;
+}
+
+/**
+ * The answer being streamed, with the notes retrieved for it
+ */
+export interface PendingChatAnswer {
+    content: string;
+    sources: ChatCitation[];
+}
+
+const THREADS_KEY = '/api/ai/chat';
+
+const fetcher = async (url: string): Promise<{ threads: ChatThreadData[] }> => {
+    const response = await fetch(url);
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Request failed' }));
+        throw new Error(error.error || 'Failed to fetch chat threads');
+    }
+    return response.json();
+};
+
+function localMessage(role: ChatMessageData['role'], content: string): ChatMessageData {
+    return {
+        id: `local-${role}-${Date.now()}`,
+        role,
+        content,
+        citations: [],
+        createdAt: new Date().toISOString(),
+    };
+}
+
+/**
+ * Ask-your-notes chat: the user's threads, the open conversation, and
+ * sending questions with streamed, cited answers.
+ */
+export function useAIChat() {
+    const { data, mutate: mutateThreads } = useSWR(THREADS_KEY, fetcher, {
+        revalidateOnFocus: false,
+    });
+
+    const [thread, setThread] = useState<ChatThreadData | null>(null);
+    const [scope, setScope] = useState<ChatScopeInput>({});
+    const [messages, setMessages] = useState<ChatMessageData[]>([]);
+    const [pendingAnswer, setPendingAnswer] = useState<PendingChatAnswer | null>(null);
+    const [isSending, setIsSending] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [errorCode, setErrorCode] = useState<AIErrorCode | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    const clearError = useCallback(() => {
+        setError(null);
+        setErrorCode(null);
+    }, []);
+
+    const stop = useCallback(() => {
+        abortRef.current?.abort();
+        abortRef.current = null;
+    }, []);
+
+    /**
+     * Start a new conversation about the given notes.
+     */
+    const newThread = useCallback((nextScope: ChatScopeInput = {}) => {
+        stop();
+        setThread(null);
+        setScope(nextScope);
+        setMessages([]);
+        setPendingAnswer(null);
+        clearError();
+    }, [stop, clearError]);
+
+    const openThread = useCallback(async (threadId: string) => {
+        stop();
+        clearError();
+        setPendingAnswer(null);
+
+        try {
+            const response = await fetch(`/api/ai/chat/${threadId}`);
+            const result = await response.json();
+            if (!response.ok) {
+                throw new Error(result.error || 'Failed to load chat');
+            }
+            setThread(result.thread);
+            setScope({ notebookId: result.thread.notebookId, tagId: result.thread.tagId });
+            setMessages(result.messages);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load chat');
+            setErrorCode('failed');
+        }
+    }, [stop, clearError]);
+
+    const deleteThread = useCallback(async (threadId: string) => {
+        const response = await fetch(`/api/ai/chat/${threadId}`, { method: 'DELETE' });
+        if (!response.ok) {
+            const body = await response.json().catch(() => ({ error: 'Request failed' }));
+            throw new Error(body.error || 'Failed to delete chat');
+        }
+
+        if (thread?.id === threadId) {
+            newThread(scope);
+        }
+        await mutateThreads();
+    }, [thread, scope, newThread, mutateThreads]);
+
+    /**
+     * Ask a question in the open thread (or a new one). Resolves false if
+     * the question wasn't accepted, so the caller can keep the draft.
+     */
+    const send = useCallback(async (message: string): Promise<boolean> => {
+        const text = message.trim();
+        if (!text || isSending) return false;
+
+        const controller = new AbortController();
+        abortRef.current = controller;
+
+        const question = localMessage('user', text);
+        let accepted = false;
+        let answer = '';
+
+        setIsSending(true);
+        clearError();
+        setMessages(prev => [...prev, question]);
+        setPendingAnswer({ content: '', sources: [] });
+
+        try {
+            const response = await fetch('/api/ai/chat', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(thread
+                    ? { message: text, threadId: thread.id }
+                    : { message: text, notebookId: scope.notebookId, tagId: scope.tagId }),
+                signal: controller.signal,
+            });
+
+            if (!response.ok || !response.body) {
+                const result = await response.json().catch(() => ({}));
+                throw AIRequestError.fromResponse(result, 'Failed to answer the question');
+            }
+
+            for await (const event of readChatStream(response.body)) {
+                switch (event.type) {
+                    case 'start':
+                        accepted = true;
+                        setThread(event.thread);
+                        setMessages(prev => prev.map(item => item.id === question.id ? event.question : item));
+                        setPendingAnswer({ content: '', sources: event.sources });
+                        break;
+                    case 'token':
+                        answer += event.text;
+                        setPendingAnswer(prev => prev && { ...prev, content: prev.content + event.text });
+                        break;
+                    case 'done':
+                        answer = '';
+                        setMessages(prev => [...prev, event.message]);
+                        break;
+                    case 'error':
+                        throw new AIRequestError(event.error, event.code);
+                }
+            }
+        } catch (err) {
+            if (!accepted) {
+                setMessages(prev => prev.filter(item => item.id !== question.id));
+            }
+            // A stopped or broken-off answer stays in the conversation as far as it got
+            if (answer) {
+                setMessages(prev => [...prev, localMessage('assistant', answer)]);
+            }
+            if (!controller.signal.aborted) {
+                setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+                setErrorCode(err instanceof AIRequestError ? err.code : 'failed');
+            }
+        } finally {
+            if (abortRef.current === controller) {
+                abortRef.current = null;
+            }
+            setPendingAnswer(null);
+            setIsSending(false);
+            if (accepted) {
+                mutateThreads();
+            }
+        }
+
+        return accepted;
+    }, [isSending, thread, scope, clearError, mutateThreads]);
+
+    return {
+        threads: data?.threads ?? [],
+        thread,
+        scope,
+        messages,
+        pendingAnswer,
+        isSending,
+        error,
+        errorCode,
+        newThread,
+        openThread,
+        deleteThread,
+        send,
+        stop,
+    };
+}
+
+export type UseAIChatReturn = ReturnType<typeof useAIChat>;
+
+export default useAIChat;
@@ -7,6 +7,7 @@ import {
     SearchInsightsData,
     SummaryType
 } from '@/components/ai/AISummaryPanel';
+import { AIRequestError, isRetryableAIError, type AIErrorCode } from '@/lib/ai/error-codes';
 
 type SummaryData = NoteSummaryData | NotebookSummaryData | SearchInsightsData;
 
@@ -18,12 +19,18 @@ interface UseAISummaryReturn {
     isOpen: boolean;
     isLoading: boolean;
     error: string | null;
+    /** Why the last request failed */
+    errorCode: AIErrorCode | null;
+    /** Whether trying the failed request again might help */
+    canRetry: boolean;
     summaryType: SummaryType;
     summaryTitle: string;
     data: SummaryData | null;
     summarizeNote: (noteId: string, noteTitle: string) => Promise<void>;
     summarizeNotebook: (notebookId: string, notebookName: string) => Promise<void>;
     generateSearchInsights: (query: string, noteIds: string[]) => Promise<void>;
+    /** Show the ask-your-notes chat, titled with what it asks about */
+    openChat: (title: string) => void;
     closePanel: () => void;
     retry: () => void;
     saveAsNote: (notebookId?: string) => Promise<void>;
@@ -33,6 +40,7 @@ export function useAISummary(options: UseAISummaryOptions = {}): UseAISummaryRet
     const [isOpen, setIsOpen] = useState(false);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [errorCode, setErrorCode] = useState<AIErrorCode | null>(null);
     const [summaryType, setSummaryType] = useState<SummaryType>('note');
     const [summaryTitle, setSummaryTitle] = useState('');
     const [data, setData] = useState<SummaryData | null>(null);
@@ -43,10 +51,16 @@ export function useAISummary(options: UseAISummaryOptions = {}): UseAISummaryRet
         params: Record<string, unknown>;
     } | null>(null);
 
+    const showError = useCallback((err: unknown) => {
+        setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+        setErrorCode(err instanceof AIRequestError ? err.code : 'failed');
+    }, []);
+
     const summarizeNote = useCallback(async (noteId: string, noteTitle: string) => {
         setIsOpen(true);
         setIsLoading(true);
         setError(null);
+        setErrorCode(null);
         setData(null);
         setSummaryType('note');
         setSummaryTitle(noteTitle);
@@ -62,21 +76,22 @@ export function useAISummary(options: UseAISummaryOptions = {}): UseAISummaryRet
             const result = await response.json();
 
             if (!response.ok) {
-                throw new Error(result.error || 'Failed to generate summary');
+                throw AIRequestError.fromResponse(result, 'Failed to generate summary');
             }
 
             setData(result as NoteSummaryData);
         } catch (err) {
-            setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+            showError(err);
         } finally {
             setIsLoading(false);
         }
-    }, []);
+    }, [showError]);
 
     const summarizeNotebook = useCallback(async (notebookId: string, notebookName: string) => {
         setIsOpen(true);
         setIsLoading(true);
         setError(null);
+        setErrorCode(null);
         setData(null);
         setSummaryType('notebook');
         setSummaryTitle(notebookName);
@@ -92,21 +107,22 @@ export function useAISummary(options: UseAISummaryOptions = {}): UseAISummaryRet
             const result = await response.json();
 
             if (!response.ok) {
-                throw new Error(result.error || 'Failed to generate summary');
+                throw AIRequestError.fromResponse(result, 'Failed to generate summary');
             }
 
             setData(result as NotebookSummaryData);
         } catch (err) {
-            setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+            showError(err);
         } finally {
             setIsLoading(false);
         }
-    }, []);
+    }, [showError]);
 
     const generateSearchInsights = useCallback(async (query: string, noteIds: string[]) => {
         setIsOpen(true);
         setIsLoading(true);
         setError(null);
+        setErrorCode(null);
         setData(null);
         setSummaryType('search');
         setSummaryTitle(`Search: "${query}"`);
@@ -122,15 +138,25 @@ export function useAISummary(options: UseAISummaryOptions = {}): UseAISummaryRet
             const result = await response.json();
 
             if (!response.ok) {
-                throw new Error(result.error || 'Failed to generate insights');
+                throw AIRequestError.fromResponse(result, 'Failed to generate insights');
             }
 
             setData(result as SearchInsightsData);
         } catch (err) {
-            setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+            showError(err);
         } finally {
             setIsLoading(false);
         }
+    }, [showError]);
+
+    const openChat = useCallback((title: string) => {
+        setIsOpen(true);
+        setIsLoading(false);
+        setError(null);
+        setErrorCode(null);
+        setData(null);
+        setSummaryType('chat');
+        setSummaryTitle(title);
     }, []);
 
     const closePanel = useCallback(() => {
@@ -204,12 +230,15 @@ export function useAISummary(options: UseAISummaryOptions = {}): UseAISummaryRet
         isOpen,
         isLoading,
         error,
+        errorCode,
+        canRetry: isRetryableAIError(errorCode),
         summaryType,
         summaryTitle,
         data,
         summarizeNote,
         summarizeNotebook,
         generateSearchInsights,
+        openChat,
         closePanel,
         retry,
         saveAsNote,
@@ -2,6 +2,10 @@
 
 import useSWR, { mutate } from 'swr';
 import { useCallback, useMemo } from 'react';
+import type { NoteSearchSort } from '@/lib/search/full-text';
+import type { NotebookRole } from '@/lib/permissions/roles';
+import { cacheAppData, isOfflineStoreAvailable, readCachedAppData } from '@/lib/offline/local-store';
+import { isNetworkError, isOffline, queueNoteUpdate, queueRecordUpdate, queueStackDelete } from '@/lib/offline/sync';
 
 // Types
 interface Notebook {
@@ -12,6 +16,8 @@ interface Notebook {
     isDefault: boolean;
     isPinned?: boolean;
     noteCount: number;
+    openTasks?: number;
+    completedTasks?: number;
     createdAt: string;
     updatedAt: string;
     stackId?: string | null;
@@ -33,16 +39,38 @@ interface Tag {
     createdAt: string;
 }
 
+export interface SavedSearch {
+    id: string;
+    name: string;
+    query: string;
+    sort: NoteSearchSort;
+    icon?: string | null;
+    noteCount: number;
+}
+
+export interface SharedNotebook {
+    id: string;
+    name: string;
+    icon?: string | null;
+    cardColor?: string | null;
+    noteCount: number;
+    role: NotebookRole;
+    owner: { name: string | null; email: string };
+}
+
 interface NotePreview {
     id: string;
     title: string;
     icon?: string | null;
     cardColor?: string | null;
     preview: string;
+    snippet?: string; // Highlighted excerpt when the list is a search result
     updatedAt: string;
     createdAt: string;
     isTrash: boolean;
     isFavorite?: boolean;
+    openTasks?: number;
+    completedTasks?: number;
     tags: Array<{ id: string; name: string }>;
     notebookId?: string;
     notebook?: { id: string; name: string };
@@ -52,6 +80,8 @@ export interface AppDataOptions {
     notebookId?: string | null;
     tagId?: string | null;
     isTrash?: boolean;
+    search?: string;
+    sort?: NoteSearchSort;
 }
 
 export interface AppData {
@@ -60,16 +90,37 @@ export interface AppData {
     tags: Tag[];
     notes: NotePreview[];
     trashCount: number;
+    savedSearches?: SavedSearch[];
+    sharedNotebooks?: SharedNotebook[];
 }
 
-// SWR fetcher with error handling
+// SWR fetcher with error handling. Without a connection the lists are
+// rebuilt from the data cached on this device.
 const fetcher = async (url: string): Promise<AppData> => {
-    const response = await fetch(url);
+    let response: Response;
+    try {
+        response = await fetch(url);
+    } catch (err) {
+        const cached = isNetworkError(err) && isOfflineStoreAvailable() ? await readCachedAppData(url) : null;
+        if (cached) {
+            // The cached records are the app data the server sent earlier
+            return cached as AppData;
+        }
+        throw err;
+    }
+
     if (!response.ok) {
         const error = await response.json().catch(() => ({ error: 'Request failed' }));
         throw new Error(error.error || 'Failed to fetch');
     }
-    return response.json();
+
+    const data: AppData = await response.json();
+    if (isOfflineStoreAvailable()) {
+        cacheAppData(data).catch((err) => {
+            console.error('Failed to keep app data offline:', err);
+        });
+    }
+    return data;
 };
 
 // Build cache key from options
@@ -78,6 +129,8 @@ function buildCacheKey(options: AppDataOptions): string {
     if (options.notebookId) params.append('notebookId', options.notebookId);
     if (options.tagId) params.append('tagId', options.tagId);
     if (options.isTrash) params.append('isTrash', 'true');
+    if (options.search?.trim()) params.append('search', options.search.trim());
+    if (options.sort && options.sort !== 'relevance') params.append('sort', options.sort);
 
     const queryString = params.toString();
     return `/api/app-data${queryString ? `?${queryString}` : ''}`;
@@ -130,6 +183,8 @@ export function useAppData(options: AppDataOptions = {}) {
     const stacks = useMemo(() => data?.stacks ?? [], [data?.stacks]);
     const tags = useMemo(() => data?.tags ?? [], [data?.tags]);
     const notes = useMemo(() => data?.notes ?? [], [data?.notes]);
+    const savedSearches = useMemo(() => data?.savedSearches ?? [], [data?.savedSearches]);
+    const sharedNotebooks = useMemo(() => data?.sharedNotebooks ?? [], [data?.sharedNotebooks]);
 
     const trashCount = useMemo(() => data?.trashCount ?? 0, [data?.trashCount]);
 
@@ -139,6 +194,8 @@ export function useAppData(options: AppDataOptions = {}) {
         tags,
         notes,
         trashCount,
+        savedSearches,
+        sharedNotebooks,
         loading: isLoading,
         validating: isValidating,
         error: error || null,
@@ -147,7 +204,9 @@ export function useAppData(options: AppDataOptions = {}) {
 }
 
 /**
- * Individual data mutations with optimistic update support
+ * Individual data mutations with optimistic update support. While offline,
+ * updates and deletes are queued and sent once the connection is back;
+ * new notes are queued by `useCreateNoteSWR`.
  */
 export function useAppDataMutations(fallbackData?: AppData) {
     // Refetch all data
@@ -175,7 +234,11 @@ export function useAppDataMutations(fallbackData?: AppData) {
                 if (!currentData) return currentData;
 
                 // Perform the API call
-                await apiCall();
+                if (isOffline()) {
+                    await queueNoteUpdate(noteId, updates);
+                } else {
+                    await apiCall();
+                }
 
                 // Return updated data (will be used if API succeeds)
                 return {
@@ -276,6 +339,10 @@ export function useAppDataMutations(fallbackData?: AppData) {
             async (currentData: AppData | undefined) => {
                 if (!currentData) return currentData;
 
+                if (isOffline()) {
+                    throw new Error('Notebooks can only be created while online');
+                }
+
                 createdNotebook = await apiCall();
 
                 if (!createdNotebook) {
@@ -326,7 +393,11 @@ export function useAppDataMutations(fallbackData?: AppData) {
             async (currentData: AppData | undefined) => {
                 if (!currentData) return currentData;
 
-                await apiCall();
+                if (isOffline()) {
+                    await queueRecordUpdate('notebook', notebookId, updates);
+                } else {
+                    await apiCall();
+                }
 
                 return {
                     ...currentData,
@@ -369,6 +440,10 @@ export function useAppDataMutations(fallbackData?: AppData) {
             async (currentData: AppData | undefined) => {
                 if (!currentData) return currentData;
 
+                if (isOffline()) {
+                    throw new Error('Stacks can only be created while online');
+                }
+
                 createdStack = await apiCall();
 
                 if (!createdStack) {
@@ -410,7 +485,11 @@ export function useAppDataMutations(fallbackData?: AppData) {
             async (currentData: AppData | undefined) => {
                 if (!currentData) return currentData;
 
-                await apiCall();
+                if (isOffline()) {
+                    await queueRecordUpdate('stack', stackId, updates);
+                } else {
+                    await apiCall();
+                }
 
                 return {
                     ...currentData,
@@ -456,7 +535,11 @@ export function useAppDataMutations(fallbackData?: AppData) {
             async (currentData: AppData | undefined) => {
                 if (!currentData) return currentData;
 
-                await apiCall();
+                if (isOffline()) {
+                    await queueStackDelete(stackId);
+                } else {
+                    await apiCall();
+                }
 
                 // On success, notebooks should be unstacked.
                 // We'll rely on revalidation or manual update of notebooks if needed.
@@ -0,0 +1,130 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import * as Y from 'yjs';
+import { HocuspocusProvider } from '@hocuspocus/provider';
+import { createClient } from '@/lib/supabase/client';
+import {
+    getCollabServerUrl,
+    noteDocumentName,
+    type PresenceUser,
+} from '@/lib/collaboration/presence';
+
+/**
+ * A live connection to a note's shared document, passed to the editor.
+ */
+export interface CollaborationSession {
+    document: Y.Doc;
+    provider: HocuspocusProvider;
+    user: PresenceUser;
+}
+
+/**
+ * - off: no sync server configured, or no note open
+ * - connecting: waiting for the first sync
+ * - connected: edits are shared live
+ * - offline: lost the connection; edits merge when it comes back, or the
+ *   server was never reached and the note saves the regular way
+ */
+export type CollaborationStatus = 'off' | 'connecting' | 'connected' | 'offline';
+
+interface CollaborationState {
+    noteId: string | null;
+    session: CollaborationSession | null;
+    status: CollaborationStatus;
+    peers: PresenceUser[];
+}
+
+const INITIAL_STATE: CollaborationState = { noteId: null, session: null, status: 'connecting', peers: [] };
+
+// Other people in the document, once per account even with several tabs open
+function peersFromStates(states: Array<{ clientId: number; user?: PresenceUser }>, ownClientId: number, ownUserId: string) {
+    const peers = new Map<string, PresenceUser>();
+    for (const state of states) {
+        if (state.clientId === ownClientId || !state.user || state.user.id === ownUserId) continue;
+        peers.set(state.user.id, state.user);
+    }
+    return [...peers.values()];
+}
+
+/**
+ * Connect to the sync server to edit a note together with others. The
+ * session is only handed out after the first sync, so the editor never
+ * shows an empty document; if the server can't be reached the note keeps
+ * saving through the API.
+ */
+export function useCollaboration(noteId: string | null, user: PresenceUser | null) {
+    const serverUrl = getCollabServerUrl();
+    const [state, setState] = useState<CollaborationState>(INITIAL_STATE);
+
+    const userId = user?.id;
+    const userName = user?.name;
+    const userColor = user?.color;
+
+    useEffect(() => {
+        if (!serverUrl || !noteId || !userId || !userName || !userColor) return;
+
+        const presenceUser: PresenceUser = { id: userId, name: userName, color: userColor };
+        const supabase = createClient();
+        const document = new Y.Doc();
+        let synced = false;
+
+        const giveUp = () => {
+            provider.destroy();
+            setState({ noteId, session: null, status: 'offline', peers: [] });
+        };
+
+        const provider = new HocuspocusProvider({
+            url: serverUrl,
+            name: noteDocumentName(noteId),
+            document,
+            token: async () => {
+                const { data } = await supabase.auth.getSession();
+                return data.session?.access_token ?? '';
+            },
+            onSynced: () => {
+                if (synced) return;
+                synced = true;
+                const states = [...(provider.awareness?.getStates() ?? new Map()).entries()]
+                    .map(([clientId, awarenessState]) => ({ clientId, ...awarenessState }));
+                setState({
+                    noteId,
+                    session: { document, provider, user: presenceUser },
+                    status: 'connected',
+                    peers: peersFromStates(states, document.clientID, userId),
+                });
+            },
+            onStatus: ({ status }) => {
+                if (!synced) return;
+                setState(prev => ({ ...prev, status: status === 'connected' ? 'connected' : 'offline' }));
+            },
+            onClose: () => {
+                if (!synced) giveUp();
+            },
+            onAuthenticationFailed: ({ reason }) => {
+                console.error('Collaboration server rejected the connection:', reason);
+                giveUp();
+            },
+            onAwarenessChange: ({ states }) => {
+                if (!synced) return;
+                setState(prev => ({ ...prev, peers: peersFromStates(states, document.clientID, userId) }));
+            },
+        });
+
+        return () => {
+            provider.destroy();
+            document.destroy();
+        };
+    }, [serverUrl, noteId, userId, userName, userColor]);
+
+    if (!serverUrl || !noteId || !user) {
+        return { session: null, status: 'off' as CollaborationStatus, peers: [] };
+    }
+
+    // Still showing the previous note's connection
+    if (state.noteId !== noteId) {
+        return { session: null, status: 'connecting' as CollaborationStatus, peers: [] };
+    }
+
+    return { session: state.session, status: state.status, peers: state.peers };
+}
@@ -0,0 +1,87 @@
+'use client';
+
+import useSWR from 'swr';
+import { useMemo } from 'react';
+
+export interface NoteBacklink {
+    id: string;
+    title: string;
+    icon?: string | null;
+    notebook: { id: string; name: string };
+    updatedAt: string;
+    excerpt: string;
+}
+
+export interface NoteLinkSuggestion {
+    id: string;
+    title: string;
+    icon?: string | null;
+}
+
+const SUGGESTION_LIMIT = 8;
+
+const fetcher = async <T,>(url: string): Promise<T> => {
+    const response = await fetch(url);
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Request failed' }));
+        throw new Error(error.error || 'Failed to fetch');
+    }
+    return response.json();
+};
+
+/**
+ * Notes linking to the given note ("Linked from" panel).
+ */
+export function useBacklinks(noteId: string | null) {
+    const { data, error, isLoading } = useSWR<{ backlinks: NoteBacklink[] }>(
+        noteId ? `/api/notes/${noteId}/backlinks` : null,
+        fetcher,
+        { revalidateOnFocus: false }
+    );
+
+    return {
+        backlinks: data?.backlinks ?? [],
+        isLoading,
+        error: error as Error | undefined,
+    };
+}
+
+/**
+ * Notes whose titles match a `[[` autocomplete query.
+ * Pass null while no link is being typed.
+ */
+export function useNoteLinkSuggestions(query: string | null, excludeNoteId?: string) {
+    const cacheKey = useMemo(() => {
+        if (query === null) return null;
+        const params = new URLSearchParams({ limit: String(SUGGESTION_LIMIT + 1) });
+        const title = query.replace(/"/g, '').trim();
+        if (title) params.append('search', `intitle:"${title}"`);
+        return `/api/notes?${params.toString()}`;
+    }, [query]);
+
+    const { data, isLoading } = useSWR<{ notes: NoteLinkSuggestion[] }>(cacheKey, fetcher, {
+        revalidateOnFocus: false,
+        keepPreviousData: true,
+        dedupingInterval: 2000,
+    });
+
+    const suggestions = useMemo(
+        () => (data?.notes ?? [])
+            .filter(note => note.id !== excludeNoteId)
+            .slice(0, SUGGESTION_LIMIT)
+            .map(({ id, title, icon }) => ({ id, title, icon })),
+        [data?.notes, excludeNoteId]
+    );
+
+    return { suggestions: cacheKey ? suggestions : [], isLoading };
+}
+
+/**
+ * Find the note a title-only `[[link]]` points at.
+ */
+export async function resolveNoteLinkTitle(title: string): Promise<string | null> {
+    const params = new URLSearchParams({ search: `intitle:"${title.replace(/"/g, '')}"`, limit: '20' });
+    const { notes } = await fetcher<{ notes: NoteLinkSuggestion[] }>(`/api/notes?${params.toString()}`);
+    const match = notes.find(note => note.title.toLowerCase() === title.toLowerCase());
+    return match?.id ?? null;
+}
@@ -0,0 +1,98 @@
+'use client';
+
+import useSWR, { mutate } from 'swr';
+import { useCallback, useState } from 'react';
+import type { DiffPart, DiffStats } from '@/lib/revisions/diff';
+
+export interface NoteRevisionSummary {
+    id: string;
+    title: string;
+    source: 'baseline' | 'edit' | 'restore' | 'import';
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface NoteRevisionDiff {
+    revisionId: string;
+    compareTo: string;
+    format: 'text' | 'html';
+    title: DiffPart[];
+    parts: DiffPart[];
+    html?: string;
+    stats: DiffStats;
+}
+
+const fetcher = async <T,>(url: string): Promise<T> => {
+    const response = await fetch(url);
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Request failed' }));
+        throw new Error(error.error || 'Failed to fetch');
+    }
+    return response.json();
+};
+
+/**
+ * SWR-powered hook for browsing and restoring a note's revision history.
+ */
+export function useNoteRevisions(noteId: string | null) {
+    const [isRestoring, setIsRestoring] = useState(false);
+
+    const { data, error, isLoading, mutate: refetch } = useSWR<{ revisions: NoteRevisionSummary[] }>(
+        noteId ? `/api/notes/${noteId}/revisions` : null,
+        fetcher,
+        { revalidateOnFocus: false }
+    );
+
+    // Restore a revision, then refresh the note, list and history caches
+    const restoreRevision = useCallback(async (revisionId: string) => {
+        if (!noteId) return;
+
+        setIsRestoring(true);
+        try {
+            const response = await fetch(`/api/notes/${noteId}/revisions/${revisionId}/restore`, {
+                method: 'POST',
+            });
+
+            if (!response.ok) {
+                const result = await response.json().catch(() => ({}));
+                throw new Error(result.error || 'Failed to restore revision');
+            }
+
+            await mutate(`/api/notes/${noteId}`);
+            await mutate(
+                (key) => typeof key === 'string' && key.startsWith('/api/app-data'),
+                undefined,
+                { revalidate: true }
+            );
+            await refetch();
+        } finally {
+            setIsRestoring(false);
+        }
+    }, [noteId, refetch]);
+
+    return {
+        revisions: data?.revisions ?? [],
+        isLoading,
+        error: error as Error | undefined,
+        isRestoring,
+        restoreRevision,
+        refetch,
+    };
+}
+
+/**
+ * Fetch the diff between a revision and the current note.
+ */
+export function useRevisionDiff(
+    noteId: string | null,
+    revisionId: string | null,
+    format: 'text' | 'html' = 'text'
+) {
+    const { data, error, isLoading } = useSWR<NoteRevisionDiff>(
+        noteId && revisionId ? `/api/notes/${noteId}/revisions/${revisionId}/diff?format=${format}` : null,
+        fetcher,
+        { revalidateOnFocus: false }
+    );
+
+    return { diff: data ?? null, error: error as Error | undefined, isLoading };
+}
@@ -1,7 +1,20 @@
 'use client';
 
-import useSWR, { mutate } from 'swr';
-import { useCallback, useRef } from 'react';
+import useSWR, { mutate, useSWRConfig } from 'swr';
+import { useCallback, useRef, useState, useSyncExternalStore } from 'react';
+import type { NotebookAccess } from '@/lib/permissions/roles';
+import { cacheNote, getCachedNote, isOfflineStoreAvailable } from '@/lib/offline/local-store';
+import type { OfflineNote } from '@/lib/offline/app-data';
+import {
+    dismissReplayConflict,
+    getOfflineSyncState,
+    isNetworkError,
+    isOffline,
+    queueNoteCreate,
+    queueNoteDelete,
+    queueNoteUpdate,
+    subscribeOfflineSync,
+} from '@/lib/offline/sync';
 
 interface Tag {
     id: string;
@@ -15,25 +28,106 @@ interface Note {
     content: string;
     contentPlaintext?: string;
     notebookId?: string;
+    notebook?: { id: string; name: string };
     tags: Tag[];
     createdAt: string;
     updatedAt: string;
     isTrash: boolean;
+    reminderAt?: string | null;
+    reminderDoneAt?: string | null;
+    access?: NotebookAccess;
 }
 
-// SWR fetcher
+/**
+ * The server copy of a note that changed while it was being edited.
+ */
+export interface ServerNoteVersion {
+    id: string;
+    title: string;
+    content: string;
+    updatedAt: string;
+}
+
+/**
+ * A save that was turned back because someone else changed the note first.
+ */
+export interface NoteConflict {
+    mine: { title: string; content: string };
+    theirs: ServerNoteVersion;
+}
+
+/**
+ * - mine: overwrite the server copy with this edit
+ * - theirs: drop this edit and load the server copy
+ * - both: keep the server copy and save this edit as a new note
+ */
+export type ConflictResolution = 'mine' | 'theirs' | 'both';
+
+type NoteChanges = { title?: string; content?: string };
+
+/**
+ * The editor's copy of a cached note. Notes only seen in lists have no
+ * content on the device, so they can't be opened offline.
+ */
+function fromOfflineNote(cached: OfflineNote | null): Note | null {
+    if (!cached || cached.content === undefined) return null;
+
+    const note = { ...cached, content: cached.content };
+    delete note.preview;
+    delete note.pendingCreate;
+    return note;
+}
+
+// SWR fetcher. Opened notes are kept on the device so they can be read
+// and edited without a connection.
 const fetcher = async (url: string): Promise<Note | null> => {
-    const response = await fetch(url);
+    const noteId = url.split('/').pop()!;
+    const offlineCopy = async () => isOfflineStoreAvailable() ? await getCachedNote(noteId) : null;
+
+    let response: Response;
+    try {
+        response = await fetch(url);
+    } catch (err) {
+        const cached = isNetworkError(err) ? fromOfflineNote(await offlineCopy()) : null;
+        if (cached) {
+            return cached;
+        }
+        throw isNetworkError(err) ? new Error('This note is not available offline') : err;
+    }
+
     if (response.status === 404) {
-        return null;
+        // Created offline and not sent yet
+        const cached = await offlineCopy();
+        return cached?.pendingCreate ? fromOfflineNote(cached) : null;
     }
     if (!response.ok) {
         const error = await response.json().catch(() => ({ error: 'Request failed' }));
         throw new Error(error.error || 'Failed to fetch');
     }
-    return response.json();
+
+    const note: Note = await response.json();
+    if (isOfflineStoreAvailable()) {
+        cacheNote(note).catch((err) => {
+            console.error('Failed to keep note offline:', err);
+        });
+    }
+    return note;
 };
 
+// Queue an update made without a connection and show it right away
+async function queueOfflineUpdate(noteId: string, changes: Record<string, unknown>): Promise<Note | null> {
+    const updatedNote = fromOfflineNote(await queueNoteUpdate(noteId, changes));
+    if (updatedNote) {
+        await mutate(`/api/notes/${noteId}`, updatedNote, false);
+    }
+    await mutate(
+        (key) => typeof key === 'string' && key.startsWith('/api/app-data'),
+        undefined,
+        { revalidate: true }
+    );
+    return updatedNote;
+}
+
 /**
  * SWR-powered hook for fetching and managing a single note.
  * 
@@ -44,6 +138,15 @@ const fetcher = async (url: string): Promise<Note | null> => {
  */
 export function useNoteSWR(noteId: string | null) {
     const saveTimeoutRef = useRef<NodeJS.Timeout | undefined>(undefined);
+    const { cache } = useSWRConfig();
+    const [conflictState, setConflictState] = useState<(NoteConflict & { noteId: string }) | null>(null);
+    // Queued offline edits can also collide when they're sent
+    const replayConflict = useSyncExternalStore(
+        subscribeOfflineSync,
+        () => noteId ? getOfflineSyncState().conflicts[noteId] ?? null : null,
+        () => null
+    );
+    const conflict = (conflictState?.noteId === noteId ? conflictState : null) ?? replayConflict;
 
     const { data: note, error, isLoading, isValidating } = useSWR<Note | null>(
         noteId ? `/api/notes/${noteId}` : null,
@@ -60,8 +163,91 @@ export function useNoteSWR(noteId: string | null) {
         }
     );
 
+    // Put a saved note in the cache and refresh the views that depend on it
+    const applySavedNote = useCallback(async (updatedNote: Note) => {
+        if (!noteId) return;
+
+        // Update the cache with the new data
+        await mutate(`/api/notes/${noteId}`, updatedNote, false);
+        if (isOfflineStoreAvailable()) {
+            await cacheNote(updatedNote).catch((err) => {
+                console.error('Failed to keep note offline:', err);
+            });
+        }
+
+        // Also invalidate app-data to update the list
+        await mutate(
+            (key) => typeof key === 'string' && key.startsWith('/api/app-data'),
+            undefined,
+            { revalidate: true }
+        );
+
+        // Saving can add or remove links and rename linked notes
+        await mutate(
+            (key) => typeof key === 'string' && key.endsWith('/backlinks'),
+            undefined,
+            { revalidate: true }
+        );
+    }, [noteId]);
+
+    // Save changes made against `base`. Content saves send its version so
+    // they can't overwrite newer content; a conflict is kept for the user to
+    // resolve and resolves to null.
+    const saveChanges = useCallback(async (
+        data: NoteChanges,
+        base: Pick<Note, 'title' | 'content' | 'updatedAt'> | null
+    ): Promise<Note | null> => {
+        if (!noteId) return null;
+
+        const patch = (baseUpdatedAt?: string) => fetch(`/api/notes/${noteId}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ...data, baseUpdatedAt }),
+        });
+
+        const sendsContent = data.content !== undefined && base !== null;
+        const baseUpdatedAt = sendsContent ? base.updatedAt : undefined;
+
+        if (isOffline()) {
+            return queueOfflineUpdate(noteId, { ...data, baseUpdatedAt });
+        }
+
+        let response: Response;
+        try {
+            response = await patch(baseUpdatedAt);
+        } catch (err) {
+            if (!isNetworkError(err)) throw err;
+            return queueOfflineUpdate(noteId, { ...data, baseUpdatedAt });
+        }
+
+        if (response.status === 409 && sendsContent) {
+            const { note: theirs } = await response.json() as { note: ServerNoteVersion };
+
+            // Only details like tags or the icon changed, so the edit still
+            // applies to the current content
+            if (theirs.content === base.content) {
+                response = await patch(theirs.updatedAt);
+            } else {
+                setConflictState({
+                    noteId,
+                    mine: { title: data.title ?? base.title, content: data.content! },
+                    theirs,
+                });
+                return null;
+            }
+        }
+
+        if (!response.ok) {
+            throw new Error('Failed to update note');
+        }
+
+        const updatedNote: Note = await response.json();
+        await applySavedNote(updatedNote);
+        return updatedNote;
+    }, [noteId, applySavedNote]);
+
     // Update note with optimistic update
-    const updateNote = useCallback(async (data: { title?: string; content?: string }) => {
+    const updateNote = useCallback(async (data: NoteChanges) => {
         if (!noteId) return;
 
         // Clear any pending auto-save
@@ -70,36 +256,65 @@ export function useNoteSWR(noteId: string | null) {
         }
 
         try {
-            const response = await fetch(`/api/notes/${noteId}`, {
-                method: 'PATCH',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify(data),
-            });
+            // The note as last loaded or saved is what this edit started from
+            const base = cache.get(`/api/notes/${noteId}`)?.data as Note | null | undefined;
+            return await saveChanges(data, base ?? null);
+        } catch (err) {
+            throw err instanceof Error ? err : new Error('Unknown error');
+        }
+    }, [noteId, cache, saveChanges]);
 
-            if (!response.ok) {
-                throw new Error('Failed to update note');
-            }
+    // Settle a conflicting save. Resolves to the ID of the copy when both
+    // versions are kept.
+    const resolveConflict = useCallback(async (choice: ConflictResolution): Promise<string | null> => {
+        if (!noteId || !conflict) return null;
 
-            const updatedNote = await response.json();
+        const { mine, theirs } = conflict;
 
-            // Update the cache with the new data
-            await mutate(`/api/notes/${noteId}`, updatedNote, false);
+        try {
+            await dismissReplayConflict(noteId);
 
-            // Also invalidate app-data to update the list
+            if (choice === 'mine') {
+                setConflictState(null);
+                await saveChanges(mine, theirs);
+                return null;
+            }
+
+            let copyId: string | null = null;
+            if (choice === 'both') {
+                const current = cache.get(`/api/notes/${noteId}`)?.data as Note | null | undefined;
+                const response = await fetch('/api/notes', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({
+                        title: `${mine.title || 'Untitled'} (conflicted copy)`,
+                        content: mine.content,
+                        notebookId: current?.notebookId ?? current?.notebook?.id,
+                    }),
+                });
+
+                if (!response.ok) {
+                    throw new Error('Failed to save a copy of the note');
+                }
+
+                copyId = (await response.json()).id;
+            }
+
+            setConflictState(null);
+            await mutate(`/api/notes/${noteId}`);
             await mutate(
                 (key) => typeof key === 'string' && key.startsWith('/api/app-data'),
                 undefined,
                 { revalidate: true }
             );
-
-            return updatedNote;
+            return copyId;
         } catch (err) {
             throw err instanceof Error ? err : new Error('Unknown error');
         }
-    }, [noteId]);
+    }, [noteId, conflict, cache, saveChanges]);
 
     // Debounced update for auto-save (1 minute delay)
-    const debouncedUpdate = useCallback((data: { title?: string; content?: string }) => {
+    const debouncedUpdate = useCallback((data: NoteChanges) => {
         if (!noteId) return;
 
         // Clear previous timeout
@@ -127,6 +342,17 @@ export function useNoteSWR(noteId: string | null) {
         cancelPendingSave();
 
         try {
+            if (isOffline()) {
+                await queueNoteDelete(noteId, permanent);
+                await mutate(`/api/notes/${noteId}`, null, false);
+                await mutate(
+                    (key) => typeof key === 'string' && key.startsWith('/api/app-data'),
+                    undefined,
+                    { revalidate: true }
+                );
+                return;
+            }
+
             const params = new URLSearchParams();
             if (permanent) params.append('permanent', 'true');
 
@@ -155,6 +381,11 @@ export function useNoteSWR(noteId: string | null) {
         if (!noteId) return;
 
         try {
+            if (isOffline()) {
+                await queueOfflineUpdate(noteId, { isTrash: false });
+                return;
+            }
+
             const response = await fetch(`/api/notes/${noteId}`, {
                 method: 'PATCH',
                 headers: { 'Content-Type': 'application/json' },
@@ -183,10 +414,11 @@ export function useNoteSWR(noteId: string | null) {
     const updateNoteTags = useCallback(async (tags: Tag[]) => {
         if (!noteId || !note) return;
 
-        // Optimistically update the local cache
+        // Optimistically update the local cache. updatedAt stays the version
+        // content saves are checked against.
         await mutate(
             `/api/notes/${noteId}`,
-            { ...note, tags, updatedAt: new Date().toISOString() },
+            { ...note, tags },
             false // Don't revalidate - the API call was already made by TagSelector
         );
 
@@ -212,6 +444,8 @@ export function useNoteSWR(noteId: string | null) {
         updateNote,
         updateNoteTags,
         debouncedUpdate,
+        conflict,
+        resolveConflict,
         deleteNote,
         restoreNote,
         refetch,
@@ -220,7 +454,8 @@ export function useNoteSWR(noteId: string | null) {
 }
 
 /**
- * Hook for creating new notes
+ * Hook for creating new notes. Offline, the note is created on the device
+ * and sent once the connection is back.
  */
 export function useCreateNoteSWR() {
     const createNote = useCallback(async (data: {
@@ -230,6 +465,22 @@ export function useCreateNoteSWR() {
         tags?: string[];
     }): Promise<Note | null> => {
         try {
+            if (isOffline()) {
+                const now = new Date().toISOString();
+                const note: Note = {
+                    id: crypto.randomUUID(),
+                    title: data.title || 'Untitled',
+                    content: data.content || '',
+                    notebookId: data.notebookId,
+                    tags: [],
+                    createdAt: now,
+                    updatedAt: now,
+                    isTrash: false,
+                };
+                await queueNoteCreate(note);
+                return note;
+            }
+
             const response = await fetch('/api/notes', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
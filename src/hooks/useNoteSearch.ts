@@ -0,0 +1,91 @@
+'use client';
+
+import useSWR from 'swr';
+import { useMemo } from 'react';
+
+export interface NoteSearchResultItem {
+    id: string;
+    title: string;
+    icon?: string | null;
+    cardColor?: string | null;
+    preview: string;
+    /** Excerpt with matched terms wrapped in <mark> */
+    snippet?: string;
+    rank?: number;
+    updatedAt: string;
+    createdAt: string;
+    isTrash: boolean;
+    isFavorite?: boolean;
+    openTasks?: number;
+    completedTasks?: number;
+    tags: Array<{ id: string; name: string }>;
+    notebookId?: string;
+    notebook?: { id: string; name: string };
+}
+
+interface NoteSearchResponse {
+    notes: NoteSearchResultItem[];
+    /** Absent for semantic search, which returns a single ranked page */
+    pagination?: { page: number; limit: number; total: number; totalPages: number };
+}
+
+export interface NoteSearchOptions {
+    notebookId?: string | null;
+    tagId?: string | null;
+    isTrash?: boolean;
+    /** Match notes by meaning instead of keywords (not available in trash) */
+    semantic?: boolean;
+}
+
+const SEARCH_RESULT_LIMIT = 100;
+const SEMANTIC_RESULT_LIMIT = 50;
+
+const fetcher = async (url: string): Promise<NoteSearchResponse> => {
+    const response = await fetch(url);
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Request failed' }));
+        throw new Error(error.error || 'Failed to search notes');
+    }
+    return response.json();
+};
+
+/**
+ * Server-side ranked note search with highlighted snippets, by keyword or
+ * by meaning. Returns null results while there is no query.
+ */
+export function useNoteSearch(query: string, options: NoteSearchOptions = {}) {
+    const trimmed = query.trim();
+
+    const cacheKey = useMemo(() => {
+        if (!trimmed) return null;
+        if (options.semantic && !options.isTrash) {
+            const params = new URLSearchParams({ q: trimmed, limit: String(SEMANTIC_RESULT_LIMIT) });
+            if (options.notebookId) params.append('notebookId', options.notebookId);
+            if (options.tagId) params.append('tagId', options.tagId);
+            return `/api/search/semantic?${params.toString()}`;
+        }
+        const params = new URLSearchParams({ search: trimmed, limit: String(SEARCH_RESULT_LIMIT) });
+        if (options.notebookId) params.append('notebookId', options.notebookId);
+        if (options.tagId) params.append('tagId', options.tagId);
+        if (options.isTrash) params.append('isTrash', 'true');
+        return `/api/notes?${params.toString()}`;
+    }, [trimmed, options.notebookId, options.tagId, options.isTrash, options.semantic]);
+
+    const { data, error, isLoading } = useSWR<NoteSearchResponse>(cacheKey, fetcher, {
+        revalidateOnFocus: false,
+        keepPreviousData: true,
+        dedupingInterval: 2000,
+    });
+
+    const results = useMemo(
+        () => data?.notes.map(note => ({ ...note, notebookId: note.notebookId ?? note.notebook?.id })) ?? null,
+        [data?.notes]
+    );
+
+    return {
+        results: cacheKey ? results : null,
+        total: data?.pagination?.total ?? data?.notes.length ?? 0,
+        isSearching: isLoading,
+        error: error as Error | undefined,
+    };
+}
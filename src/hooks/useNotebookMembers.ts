@@ -0,0 +1,109 @@
+'use client';
+
+import useSWR, { mutate as globalMutate } from 'swr';
+import { useCallback } from 'react';
+import type { NotebookAccess, NotebookRole } from '@/lib/permissions/roles';
+
+export interface NotebookMemberItem {
+    id: string;
+    email: string;
+    name: string | null;
+    role: NotebookRole;
+    status: 'active' | 'pending';
+    userId: string | null;
+    createdAt: string;
+}
+
+interface NotebookMembersResponse {
+    access: NotebookAccess;
+    owner: { id: string; name: string | null; email: string } | null;
+    members: NotebookMemberItem[];
+}
+
+const fetcher = async (url: string): Promise<NotebookMembersResponse> => {
+    const response = await fetch(url);
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Request failed' }));
+        throw new Error(error.error || 'Failed to fetch members');
+    }
+    return response.json();
+};
+
+async function requestJson<T>(url: string, init: RequestInit, fallback: string): Promise<T> {
+    const response = await fetch(url, init);
+    if (!response.ok) {
+        const body = await response.json().catch(() => ({ error: 'Request failed' }));
+        throw new Error(body.error || fallback);
+    }
+    return response.json();
+}
+
+// The sidebar's "Shared with me" list comes from app-data
+function refreshAppData() {
+    return globalMutate(
+        (key) => typeof key === 'string' && key.startsWith('/api/app-data'),
+        undefined,
+        { revalidate: true }
+    );
+}
+
+/**
+ * Owner and members of a notebook, with invite and role controls.
+ */
+export function useNotebookMembers(notebookId: string | null) {
+    const cacheKey = notebookId ? `/api/notebooks/${notebookId}/members` : null;
+    const { data, error, isLoading, mutate } = useSWR(cacheKey, fetcher);
+
+    const inviteMember = useCallback(async (email: string, role: NotebookRole) => {
+        if (!cacheKey) throw new Error('No notebook selected');
+
+        const member = await requestJson<NotebookMemberItem & { emailed: boolean }>(cacheKey, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ email, role }),
+        }, 'Failed to invite member');
+
+        await mutate(current => current && {
+            ...current,
+            members: current.members.some(item => item.id === member.id)
+                ? current.members.map(item => (item.id === member.id ? member : item))
+                : [...current.members, member],
+        }, { revalidate: false });
+        return member;
+    }, [cacheKey, mutate]);
+
+    const updateRole = useCallback(async (memberId: string, role: NotebookRole) => {
+        const member = await requestJson<NotebookMemberItem>(`${cacheKey}/${memberId}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ role }),
+        }, 'Failed to change role');
+
+        await mutate(current => current && {
+            ...current,
+            members: current.members.map(item => (item.id === memberId ? member : item)),
+        }, { revalidate: false });
+    }, [cacheKey, mutate]);
+
+    /** Remove a member, or leave the notebook when it's the current user */
+    const removeMember = useCallback(async (memberId: string) => {
+        await requestJson(`${cacheKey}/${memberId}`, { method: 'DELETE' }, 'Failed to remove member');
+
+        await mutate(current => current && {
+            ...current,
+            members: current.members.filter(item => item.id !== memberId),
+        }, { revalidate: false });
+        await refreshAppData();
+    }, [cacheKey, mutate]);
+
+    return {
+        access: data?.access ?? null,
+        owner: data?.owner ?? null,
+        members: data?.members ?? [],
+        isLoading,
+        error: error as Error | undefined,
+        inviteMember,
+        updateRole,
+        removeMember,
+    };
+}
@@ -151,7 +151,10 @@ export function useNote(noteId: string | null): UseNoteReturn {
             const response = await fetch(`/api/notes/${noteId}`, {
                 method: 'PATCH',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify(data),
+                // Content saves name the version they were made against
+                body: JSON.stringify(data.content !== undefined && note
+                    ? { ...data, baseUpdatedAt: note.updatedAt }
+                    : data),
             });
 
             if (!response.ok) {
@@ -163,7 +166,7 @@ export function useNote(noteId: string | null): UseNoteReturn {
         } catch (err) {
             throw err instanceof Error ? err : new Error('Unknown error');
         }
-    }, [noteId]);
+    }, [noteId, note]);
 
     const deleteNote = useCallback(async (permanent: boolean = false) => {
         if (!noteId) return;
@@ -0,0 +1,90 @@
+'use client';
+
+import { useEffect, useSyncExternalStore } from 'react';
+import { mutate } from 'swr';
+import { isOfflineStoreAvailable } from '@/lib/offline/local-store';
+import {
+    claimOfflineData,
+    discardFailedMutations,
+    getOfflineSyncState,
+    pullServerChanges,
+    replayQueuedMutations,
+    retryFailedMutations,
+    subscribeOfflineSync,
+} from '@/lib/offline/sync';
+
+function subscribeConnection(listener: () => void) {
+    window.addEventListener('online', listener);
+    window.addEventListener('offline', listener);
+    return () => {
+        window.removeEventListener('online', listener);
+        window.removeEventListener('offline', listener);
+    };
+}
+
+/**
+ * Connection state, the changes made offline that are waiting to be sent
+ * and the ones the server refused. Queued changes are sent, and the server's changes copied to the
+ * device, when the app opens and whenever the connection comes back.
+ */
+export function useOfflineSync(userId: string | null) {
+    const isOnline = useSyncExternalStore(subscribeConnection, () => navigator.onLine, () => true);
+    const { pending, syncing, conflicts, failed } = useSyncExternalStore(
+        subscribeOfflineSync,
+        getOfflineSyncState,
+        getOfflineSyncState
+    );
+
+    useEffect(() => {
+        if (!userId || !isOfflineStoreAvailable()) return;
+
+        let cancelled = false;
+
+        const sync = async () => {
+            if (cancelled || !navigator.onLine) return;
+            try {
+                const applied = await replayQueuedMutations();
+                if (applied > 0) {
+                    // Show the server's copy now that it has the changes
+                    await mutate(
+                        (key) => typeof key === 'string' && (key.startsWith('/api/app-data') || key.startsWith('/api/notes/')),
+                        undefined,
+                        { revalidate: true }
+                    );
+                }
+                // Then copy down what changed elsewhere, for reading offline
+                await pullServerChanges();
+            } catch (error) {
+                console.error('Failed to sync offline changes:', error);
+            }
+        };
+
+        claimOfflineData(userId).then(sync).catch((error) => {
+            console.error('Failed to open offline data:', error);
+        });
+        window.addEventListener('online', sync);
+
+        return () => {
+            cancelled = true;
+            window.removeEventListener('online', sync);
+        };
+    }, [userId]);
+
+    return {
+        isOnline,
+        pendingChanges: pending,
+        isSyncing: syncing,
+        conflictedNoteIds: Object.keys(conflicts),
+        failedChanges: failed.length,
+        retryFailedChanges: () => {
+            retryFailedMutations().catch((error) => {
+                console.error('Failed to retry offline changes:', error);
+            });
+        },
+        discardFailedChanges: () => {
+            discardFailedMutations().catch((error) => {
+                console.error('Failed to discard offline changes:', error);
+            });
+        },
+    };
+}
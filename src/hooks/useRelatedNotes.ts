@@ -0,0 +1,55 @@
+'use client';
+
+import useSWR from 'swr';
+import { useEffect, useRef } from 'react';
+import type { RelatedReason } from '@/lib/related/related-score';
+
+export interface RelatedNoteItem {
+    id: string;
+    title: string;
+    icon?: string | null;
+    notebook: { id: string; name: string };
+    updatedAt: string;
+    score: number;
+    reasons: RelatedReason[];
+    sharedTags: string[];
+}
+
+const fetcher = async (url: string): Promise<{ related: RelatedNoteItem[] }> => {
+    const response = await fetch(url);
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Request failed' }));
+        throw new Error(error.error || 'Failed to fetch related notes');
+    }
+    return response.json();
+};
+
+/**
+ * Notes about the same thing as the given note ("Related" panel).
+ * `version` should change whenever the note is saved, e.g. its
+ * `updatedAt`, so the suggestions follow the note as it's written.
+ */
+export function useRelatedNotes(noteId: string | null, version: string) {
+    const { data, error, isLoading, mutate } = useSWR(
+        noteId ? `/api/notes/${noteId}/related` : null,
+        fetcher,
+        { revalidateOnFocus: false }
+    );
+
+    // Refetch after each save, keeping the current list on screen meanwhile.
+    // Opening another note already fetches its list.
+    const lastSeen = useRef({ noteId, version });
+    useEffect(() => {
+        const previous = lastSeen.current;
+        lastSeen.current = { noteId, version };
+        if (previous.noteId === noteId && previous.version !== version) {
+            mutate();
+        }
+    }, [noteId, version, mutate]);
+
+    return {
+        related: data?.related ?? [],
+        isLoading,
+        error: error as Error | undefined,
+    };
+}
@@ -0,0 +1,68 @@
+'use client';
+
+import useSWR, { mutate } from 'swr';
+import { useCallback } from 'react';
+
+export interface ReminderItem {
+    noteId: string;
+    title: string;
+    icon?: string | null;
+    notebook: { id: string; name: string };
+    reminderAt: string;
+    /** Whether the reminder email has gone out */
+    emailed: boolean;
+}
+
+export interface ReminderUpdate {
+    /** ISO timestamp, or null to clear the reminder */
+    reminderAt?: string | null;
+    reminderDone?: boolean;
+}
+
+const REMINDERS_KEY = '/api/reminders';
+
+// Poll so reminders due while the app is open show up without a reload
+const REFRESH_INTERVAL = 60_000;
+
+const fetcher = async (url: string): Promise<{ reminders: ReminderItem[] }> => {
+    const response = await fetch(url);
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Request failed' }));
+        throw new Error(error.error || 'Failed to fetch reminders');
+    }
+    return response.json();
+};
+
+/**
+ * The user's pending note reminders, and setting or completing them.
+ */
+export function useReminders() {
+    const { data, error, isLoading, mutate: mutateReminders } = useSWR(REMINDERS_KEY, fetcher, {
+        refreshInterval: REFRESH_INTERVAL,
+    });
+
+    const updateReminder = useCallback(async (noteId: string, changes: ReminderUpdate): Promise<void> => {
+        const response = await fetch(`/api/notes/${noteId}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(changes),
+        });
+
+        if (!response.ok) {
+            const body = await response.json().catch(() => ({ error: 'Request failed' }));
+            throw new Error(body.error || 'Failed to update reminder');
+        }
+
+        await Promise.all([
+            mutateReminders(),
+            mutate(`/api/notes/${noteId}`),
+        ]);
+    }, [mutateReminders]);
+
+    return {
+        reminders: data?.reminders ?? [],
+        isLoading,
+        error: error as Error | undefined,
+        updateReminder,
+    };
+}
@@ -0,0 +1,108 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { mutate } from 'swr';
+import type { SavedSearch } from './useAppData';
+
+interface SavedSearchInput {
+    name: string;
+    query: string;
+    sort?: SavedSearch['sort'];
+    icon?: string | null;
+}
+
+interface UseSavedSearchActionsReturn {
+    createSavedSearch: (input: SavedSearchInput) => Promise<SavedSearch | null>;
+    updateSavedSearch: (id: string, updates: Partial<SavedSearchInput>) => Promise<boolean>;
+    deleteSavedSearch: (id: string) => Promise<boolean>;
+    loading: boolean;
+    error: Error | null;
+}
+
+// Saved searches and their counts are served with app data
+const revalidateAppData = () => mutate(
+    (key) => typeof key === 'string' && key.startsWith('/api/app-data'),
+    undefined,
+    { revalidate: true }
+);
+
+export function useSavedSearchActions(): UseSavedSearchActionsReturn {
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<Error | null>(null);
+
+    const createSavedSearch = useCallback(async (input: SavedSearchInput): Promise<SavedSearch | null> => {
+        try {
+            setLoading(true);
+            setError(null);
+
+            const response = await fetch('/api/saved-searches', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(input),
+            });
+
+            if (!response.ok) {
+                throw new Error('Failed to save search');
+            }
+
+            const savedSearch = await response.json();
+            await revalidateAppData();
+            return savedSearch;
+        } catch (err) {
+            setError(err instanceof Error ? err : new Error('Unknown error'));
+            return null;
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    const updateSavedSearch = useCallback(async (id: string, updates: Partial<SavedSearchInput>): Promise<boolean> => {
+        try {
+            setLoading(true);
+            setError(null);
+
+            const response = await fetch(`/api/saved-searches/${id}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(updates),
+            });
+
+            if (!response.ok) {
+                throw new Error('Failed to update saved search');
+            }
+
+            await revalidateAppData();
+            return true;
+        } catch (err) {
+            setError(err instanceof Error ? err : new Error('Unknown error'));
+            return false;
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    const deleteSavedSearch = useCallback(async (id: string): Promise<boolean> => {
+        try {
+            setLoading(true);
+            setError(null);
+
+            const response = await fetch(`/api/saved-searches/${id}`, {
+                method: 'DELETE',
+            });
+
+            if (!response.ok) {
+                throw new Error('Failed to delete saved search');
+            }
+
+            await revalidateAppData();
+            return true;
+        } catch (err) {
+            setError(err instanceof Error ? err : new Error('Unknown error'));
+            return false;
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    return { createSavedSearch, updateSavedSearch, deleteSavedSearch, loading, error };
+}
@@ -0,0 +1,91 @@
+'use client';
+
+import useSWR from 'swr';
+import { useCallback } from 'react';
+
+export interface ShareLinkItem {
+    id: string;
+    token: string;
+    url: string;
+    noteId: string | null;
+    notebookId: string | null;
+    hasPassword: boolean;
+    expiresAt: string | null;
+    revokedAt: string | null;
+    viewCount: number;
+    lastViewedAt: string | null;
+    createdAt: string;
+}
+
+/** A note or notebook to share */
+export type ShareLinkTarget = { noteId: string } | { notebookId: string };
+
+export interface CreateShareLinkInput {
+    password?: string;
+    /** ISO timestamp, or null for a link that never expires */
+    expiresAt?: string | null;
+}
+
+const fetcher = async (url: string): Promise<{ links: ShareLinkItem[] }> => {
+    const response = await fetch(url);
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Request failed' }));
+        throw new Error(error.error || 'Failed to fetch share links');
+    }
+    return response.json();
+};
+
+async function requestJson<T>(url: string, init: RequestInit, fallback: string): Promise<T> {
+    const response = await fetch(url, init);
+    if (!response.ok) {
+        const body = await response.json().catch(() => ({ error: 'Request failed' }));
+        throw new Error(body.error || fallback);
+    }
+    return response.json();
+}
+
+/**
+ * Whether a link still opens for visitors.
+ */
+export function isShareLinkActive(link: ShareLinkItem, now = Date.now()): boolean {
+    return !link.revokedAt && (!link.expiresAt || new Date(link.expiresAt).getTime() > now);
+}
+
+/**
+ * Public share links for a note or notebook.
+ */
+export function useShareLinks(target: ShareLinkTarget | null) {
+    const cacheKey = target ? `/api/share-links?${new URLSearchParams(target).toString()}` : null;
+    const { data, error, isLoading, mutate } = useSWR(cacheKey, fetcher);
+
+    const createLink = useCallback(async (input: CreateShareLinkInput): Promise<ShareLinkItem> => {
+        if (!target) throw new Error('Nothing to share');
+
+        const link = await requestJson<ShareLinkItem>('/api/share-links', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ...target, ...input }),
+        }, 'Failed to create share link');
+
+        await mutate(current => ({ links: [link, ...(current?.links ?? [])] }), { revalidate: false });
+        return link;
+    }, [target, mutate]);
+
+    const revokeLink = useCallback(async (linkId: string): Promise<void> => {
+        const revoked = await requestJson<ShareLinkItem>(`/api/share-links/${linkId}`, {
+            method: 'DELETE',
+        }, 'Failed to revoke share link');
+
+        await mutate(current => current && {
+            links: current.links.map(link => (link.id === linkId ? revoked : link)),
+        }, { revalidate: false });
+    }, [mutate]);
+
+    return {
+        links: data?.links ?? [],
+        isLoading,
+        error: error as Error | undefined,
+        createLink,
+        revokeLink,
+    };
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useCallback } from 'react';
+import { AIRequestError, type AIErrorCode } from '@/lib/ai/error-codes';
 
 interface SuggestedTag {
     name: string;
@@ -14,6 +15,8 @@ interface UseSmartTagsReturn {
     loading: boolean;
     applying: boolean;
     error: string | null;
+    /** Why generating suggestions failed */
+    errorCode: AIErrorCode | null;
     modalOpen: boolean;
     noteIds: string[];
     generateSmartTags: (noteIds: string[], existingTags?: string[]) => Promise<void>;
@@ -31,6 +34,7 @@ export function useSmartTags(): UseSmartTagsReturn {
     const [loading, setLoading] = useState(false);
     const [applying, setApplying] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [errorCode, setErrorCode] = useState<AIErrorCode | null>(null);
     const [modalOpen, setModalOpen] = useState(false);
     const [noteIds, setNoteIds] = useState<string[]>([]);
 
@@ -40,6 +44,7 @@ export function useSmartTags(): UseSmartTagsReturn {
             setModalOpen(true);
             setLoading(true);
             setError(null);
+            setErrorCode(null);
             setSuggestedTags([]);
             setSelectedTags(new Set());
 
@@ -50,8 +55,8 @@ export function useSmartTags(): UseSmartTagsReturn {
             });
 
             if (!response.ok) {
-                const data = await response.json();
-                throw new Error(data.error || 'Failed to generate suggestions');
+                const data = await response.json().catch(() => null);
+                throw AIRequestError.fromResponse(data, 'Failed to generate suggestions');
             }
 
             const data = await response.json();
@@ -60,6 +65,7 @@ export function useSmartTags(): UseSmartTagsReturn {
             setSelectedTags(new Set((data.suggestedTags || []).map((t: SuggestedTag) => t.name)));
         } catch (err) {
             setError(err instanceof Error ? err.message : 'Failed to generate suggestions');
+            setErrorCode(err instanceof AIRequestError ? err.code : 'failed');
         } finally {
             setLoading(false);
         }
@@ -122,6 +128,7 @@ export function useSmartTags(): UseSmartTagsReturn {
     const closeModal = useCallback(() => {
         setModalOpen(false);
         setError(null);
+        setErrorCode(null);
     }, []);
 
     const reset = useCallback(() => {
@@ -130,6 +137,7 @@ export function useSmartTags(): UseSmartTagsReturn {
         setLoading(false);
         setApplying(false);
         setError(null);
+        setErrorCode(null);
         setModalOpen(false);
         setNoteIds([]);
     }, []);
@@ -140,6 +148,7 @@ export function useSmartTags(): UseSmartTagsReturn {
         loading,
         applying,
         error,
+        errorCode,
         modalOpen,
         noteIds,
         generateSmartTags,
@@ -0,0 +1,107 @@
+'use client';
+
+import useSWR, { mutate } from 'swr';
+import { useCallback, useMemo } from 'react';
+
+export type TaskStatusFilter = 'open' | 'overdue' | 'completed' | 'all';
+
+export interface TaskItem {
+    id: string;
+    text: string;
+    checked: boolean;
+    /** `YYYY-MM-DD` */
+    dueDate: string | null;
+    position: number;
+    note: {
+        id: string;
+        title: string;
+        icon?: string | null;
+        notebook: { id: string; name: string };
+    };
+    updatedAt: string;
+}
+
+export interface TaskQuery {
+    status: TaskStatusFilter;
+    notebookId?: string | null;
+    tagId?: string | null;
+}
+
+const fetcher = async (url: string): Promise<{ tasks: TaskItem[] }> => {
+    const response = await fetch(url);
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Request failed' }));
+        throw new Error(error.error || 'Failed to fetch tasks');
+    }
+    return response.json();
+};
+
+/** The user's local date as `YYYY-MM-DD` */
+export function localDate(date = new Date()): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Checking a task edits its note, so note views and counts need refreshing
+const revalidateNoteData = (noteId: string) => mutate(
+    (key) => typeof key === 'string' && (
+        key.startsWith('/api/app-data') || key.startsWith('/api/notes?') || key === `/api/notes/${noteId}`
+    ),
+    undefined,
+    { revalidate: true }
+);
+
+/**
+ * Checklist items across the user's notes (task inbox).
+ */
+export function useTasks({ status, notebookId, tagId }: TaskQuery) {
+    const cacheKey = useMemo(() => {
+        const params = new URLSearchParams({ today: localDate() });
+        if (status === 'overdue') {
+            params.set('overdue', 'true');
+        } else {
+            params.set('status', status);
+        }
+        if (notebookId) params.set('notebookId', notebookId);
+        if (tagId) params.set('tagId', tagId);
+        return `/api/tasks?${params.toString()}`;
+    }, [status, notebookId, tagId]);
+
+    const { data, error, isLoading, mutate: mutateTasks } = useSWR(cacheKey, fetcher);
+
+    const updateTask = useCallback(async (
+        task: TaskItem,
+        changes: { checked?: boolean; dueDate?: string | null }
+    ): Promise<void> => {
+        // Show the change right away; the list is refetched once the note is saved
+        await mutateTasks(
+            (current) => current && {
+                tasks: current.tasks.map(item => (item.id === task.id ? { ...item, ...changes } : item)),
+            },
+            { revalidate: false }
+        );
+
+        try {
+            const response = await fetch(`/api/tasks/${task.id}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(changes),
+            });
+
+            if (!response.ok) {
+                const body = await response.json().catch(() => ({ error: 'Request failed' }));
+                throw new Error(body.error || 'Failed to update task');
+            }
+        } finally {
+            await mutateTasks();
+            await revalidateNoteData(task.note.id);
+        }
+    }, [mutateTasks]);
+
+    return {
+        tasks: data?.tasks ?? [],
+        isLoading,
+        error: error as Error | undefined,
+        updateTask,
+    };
+}
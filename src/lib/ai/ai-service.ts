@@ -0,0 +1,92 @@
+/**
+ * AI Service
+ *
+ * Picks the AI provider from environment variables, in the same way
+ * `STORAGE_TYPE` selects the storage backend.
+ */
+
+import type { AIProvider } from './types';
+import { FakeAIProvider } from './fake-provider';
+import { GeminiProvider } from './gemini-provider';
+import { OpenAICompatibleProvider } from './openai-provider';
+
+type AIProviderType = 'gemini' | 'openai' | 'fake';
+
+const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+/**
+ * The configured provider. Without `AI_PROVIDER`, Gemini is used unless
+ * only an OpenAI-compatible server is configured.
+ */
+export function getAIProviderType(): AIProviderType {
+    const provider = process.env.AI_PROVIDER;
+    if (provider === 'gemini' || provider === 'openai' || provider === 'fake') {
+        return provider;
+    }
+    if (provider) {
+        throw new Error(`Unknown AI_PROVIDER "${provider}" (expected gemini, openai or fake)`);
+    }
+    return !process.env.GOOGLE_AI_API_KEY && process.env.AI_BASE_URL ? 'openai' : 'gemini';
+}
+
+/**
+ * Whether the configured provider has what it needs to run.
+ */
+export function isAIAvailable(): boolean {
+    try {
+        switch (getAIProviderType()) {
+            case 'gemini':
+                return !!process.env.GOOGLE_AI_API_KEY;
+            case 'openai':
+                // Local servers don't need a key
+                return !!(process.env.AI_BASE_URL || process.env.AI_API_KEY);
+            default:
+                return true;
+        }
+    } catch {
+        return false;
+    }
+}
+
+/** Singleton instance of the AI provider */
+let aiInstance: AIProvider | null = null;
+
+/**
+ * Get the configured AI provider instance.
+ */
+export function getAIProvider(): AIProvider {
+    if (!aiInstance) {
+        const provider = getAIProviderType();
+
+        if (provider === 'gemini') {
+            const apiKey = process.env.GOOGLE_AI_API_KEY;
+            if (!apiKey) {
+                throw new Error('GOOGLE_AI_API_KEY environment variable is not set');
+            }
+            aiInstance = new GeminiProvider({
+                apiKey,
+                model: process.env.AI_MODEL || 'gemini-2.0-flash',
+                embeddingModel: process.env.AI_EMBEDDING_MODEL || 'text-embedding-004',
+            });
+        } else if (provider === 'openai') {
+            aiInstance = new OpenAICompatibleProvider({
+                baseUrl: process.env.AI_BASE_URL || DEFAULT_OPENAI_BASE_URL,
+                apiKey: process.env.AI_API_KEY || undefined,
+                model: process.env.AI_MODEL || 'gpt-4o-mini',
+                embeddingModel: process.env.AI_EMBEDDING_MODEL || 'text-embedding-3-small',
+            });
+        } else {
+            aiInstance = new FakeAIProvider();
+        }
+    }
+
+    return aiInstance;
+}
+
+/**
+ * Reset the AI provider instance.
+ * Useful for testing or when configuration changes.
+ */
+export function resetAIProvider(): void {
+    aiInstance = null;
+}
@@ -0,0 +1,58 @@
+/**
+ * AI Error Codes
+ *
+ * Why an AI request failed, as the AI routes report it in `code`. Shared
+ * with the client, so it has no server dependencies.
+ * - not_configured: no provider is set up, or its API key was rejected
+ * - quota_exceeded: the provider's rate limit or quota was hit
+ * - safety_blocked: the provider refused the content
+ * - malformed_response: the model's answer didn't fit the expected shape, even after a retry
+ * - failed: anything else
+ */
+export type AIErrorCode =
+    | 'not_configured'
+    | 'quota_exceeded'
+    | 'safety_blocked'
+    | 'malformed_response'
+    | 'failed';
+
+export const AI_ERROR_MESSAGES: Record<AIErrorCode, string> = {
+    not_configured: 'AI service is not configured. Please set AI_PROVIDER and its API key.',
+    quota_exceeded: 'AI service quota exceeded. Please check your AI provider plan or try again later.',
+    safety_blocked: 'The AI service declined to process this content.',
+    malformed_response: 'The AI service returned an answer that could not be read. Please try again.',
+    failed: 'The AI request failed. Please try again.',
+};
+
+export function isAIErrorCode(value: unknown): value is AIErrorCode {
+    return typeof value === 'string' && value in AI_ERROR_MESSAGES;
+}
+
+/**
+ * Whether trying the same request again might work.
+ */
+export function isRetryableAIError(code: AIErrorCode | null): boolean {
+    return code !== 'not_configured' && code !== 'safety_blocked';
+}
+
+/**
+ * A failed AI request as the client sees it: the message to show and why
+ * it failed.
+ */
+export class AIRequestError extends Error {
+    constructor(message: string, readonly code: AIErrorCode) {
+        super(message);
+        this.name = 'AIRequestError';
+    }
+
+    /**
+     * Read the `{ error, code }` body of a failed AI route response.
+     */
+    static fromResponse(body: unknown, fallbackMessage: string): AIRequestError {
+        const { error, code } = (body ?? {}) as { error?: unknown; code?: unknown };
+        return new AIRequestError(
+            typeof error === 'string' && error ? error : fallbackMessage,
+            isAIErrorCode(code) ? code : 'failed'
+        );
+    }
+}
@@ -0,0 +1,65 @@
+/**
+ * AI Errors
+ *
+ * Turns the different ways providers fail into one error type with a
+ * code, and the code into an API response.
+ */
+
+import { NextResponse } from 'next/server';
+import { AI_ERROR_MESSAGES, type AIErrorCode } from './error-codes';
+
+const AI_ERROR_STATUS: Record<AIErrorCode, number> = {
+    not_configured: 503,
+    quota_exceeded: 429,
+    safety_blocked: 422,
+    malformed_response: 502,
+    failed: 500,
+};
+
+export class AIError extends Error {
+    constructor(
+        readonly code: AIErrorCode,
+        message: string = AI_ERROR_MESSAGES[code],
+        options?: { cause?: unknown }
+    ) {
+        super(message, options);
+        this.name = 'AIError';
+    }
+}
+
+/**
+ * Classify an error thrown while talking to a provider.
+ */
+export function toAIError(error: unknown): AIError {
+    if (error instanceof AIError) return error;
+
+    const status = (error as { status?: unknown } | null)?.status;
+    const message = error instanceof Error ? error.message : String(error);
+    const lower = message.toLowerCase();
+
+    if (status === 429 || /\b429\b|rate limit|quota|too many requests|resource.exhausted/.test(lower)) {
+        return new AIError('quota_exceeded', undefined, { cause: error });
+    }
+    if (status === 401 || status === 403 || lower.includes('api key') || lower.includes('api_key')) {
+        return new AIError('not_configured', undefined, { cause: error });
+    }
+    if (/\bsafety\b|\bblocked\b/.test(lower)) {
+        return new AIError('safety_blocked', undefined, { cause: error });
+    }
+    return new AIError('failed', message, { cause: error });
+}
+
+/**
+ * The JSON response for a failed AI request: `{ error, code }` with a
+ * matching status. `fallbackMessage` describes failures without a more
+ * specific reason.
+ */
+export function aiErrorResponse(error: unknown, fallbackMessage?: string) {
+    const aiError = toAIError(error);
+    const message = aiError.code === 'failed' && fallbackMessage ? fallbackMessage : aiError.message;
+
+    return NextResponse.json(
+        { error: message, code: aiError.code },
+        { status: AI_ERROR_STATUS[aiError.code] }
+    );
+}
@@ -0,0 +1,139 @@
+/**
+ * Fake AI Provider
+ *
+ * Answers from the notes themselves without calling any model: the first
+ * sentences make the summary, the most common words make the themes and
+ * tags, and embeddings are hashed word counts. The same input always gives
+ * the same output, for tests and for working without an AI service.
+ */
+
+import type {
+    AIChatMessage,
+    AINoteInput,
+    AIProvider,
+    NotebookSummary,
+    NoteSummary,
+    SearchInsights,
+    TagSuggestions,
+} from './types';
+
+/** Length of the vectors returned by `embed` */
+export const FAKE_EMBEDDING_DIMENSIONS = 64;
+
+const STOP_WORDS = new Set([
+    'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was', 'one',
+    'our', 'out', 'has', 'have', 'his', 'how', 'its', 'may', 'new', 'now', 'old', 'see', 'two', 'who',
+    'did', 'get', 'let', 'she', 'too', 'use', 'that', 'this', 'with', 'from', 'they', 'will', 'would',
+    'there', 'their', 'what', 'about', 'which', 'when', 'make', 'like', 'time', 'just', 'know', 'take',
+    'into', 'year', 'your', 'some', 'could', 'them', 'than', 'then', 'look', 'only', 'come', 'over',
+    'also', 'back', 'after', 'work', 'first', 'well', 'even', 'want', 'because', 'these', 'give', 'most',
+    'been', 'were', 'more', 'very', 'much', 'should', 'need', 'each', 'here', 'note', 'notes',
+]);
+
+function words(text: string): string[] {
+    return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+        .filter(word => word.length >= 3 && !STOP_WORDS.has(word));
+}
+
+function sentences(text: string): string[] {
+    return text
+        .split(/(?<=[.!?])\s+|\n+/)
+        .map(sentence => sentence.trim())
+        .filter(Boolean);
+}
+
+/**
+ * Words that appear in the most notes, with the number of notes for each.
+ * Ties go to the word seen first.
+ */
+function commonWords(notes: AINoteInput[], limit: number): Array<[string, number]> {
+    const counts = new Map<string, number>();
+    for (const note of notes) {
+        for (const word of new Set(words(`${note.title} ${note.content}`))) {
+            counts.set(word, (counts.get(word) ?? 0) + 1);
+        }
+    }
+    return [...counts.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, limit);
+}
+
+// FNV-1a, to spread words across the embedding dimensions
+function hashWord(word: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < word.length; i++) {
+        hash ^= word.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+export class FakeAIProvider implements AIProvider {
+    readonly name = 'fake';
+    readonly embeddingModel = `hashed-words-${FAKE_EMBEDDING_DIMENSIONS}`;
+
+    async summarizeNote(note: AINoteInput): Promise<NoteSummary> {
+        const parts = sentences(note.content);
+        return {
+            summary: parts.slice(0, 2).join(' ') || note.title,
+            keyPoints: parts.slice(0, 3),
+        };
+    }
+
+    async summarizeNotebook(notebookName: string, notes: AINoteInput[]): Promise<NotebookSummary> {
+        return {
+            summary: `${notebookName} has ${notes.length} ${notes.length === 1 ? 'note' : 'notes'}: ${notes.map(note => note.title).join(', ')}.`,
+            themes: commonWords(notes, 3).map(([word]) => word),
+            keyInsights: notes.slice(0, 3).map(note => sentences(note.content)[0] ?? note.title),
+        };
+    }
+
+    async generateSearchInsights(query: string, notes: AINoteInput[]): Promise<SearchInsights> {
+        const common = commonWords(notes, 3);
+        return {
+            insight: `${notes.length} ${notes.length === 1 ? 'note mentions' : 'notes mention'} "${query}": ${notes.map(note => note.title).join(', ')}.`,
+            themes: common.map(([word]) => word),
+            connections: common
+                .filter(([, count]) => count > 1)
+                .map(([word, count]) => `${count} notes talk about ${word}`),
+            keyFindings: notes.slice(0, 3).map(note => sentences(note.content)[0] ?? note.title),
+        };
+    }
+
+    async suggestTags(notes: AINoteInput[], existingTags: string[]): Promise<TagSuggestions> {
+        const noteWords = notes.map(note => new Set(words(`${note.title} ${note.content}`)));
+        const reused = existingTags
+            .map(tag => [tag, noteWords.filter(set => set.has(tag.toLowerCase())).length] as [string, number])
+            .filter(([, count]) => count > 0);
+        const known = new Set(reused.map(([tag]) => tag.toLowerCase()));
+        const found = commonWords(notes, 8).filter(([word]) => !known.has(word));
+
+        return {
+            suggestedTags: [...reused, ...found].slice(0, 8).map(([name, noteCount]) => ({
+                name: name.toLowerCase(),
+                reason: `Appears in ${noteCount} of ${notes.length} notes`,
+                noteCount,
+            })),
+        };
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        return texts.map((text) => {
+            const vector = new Array<number>(FAKE_EMBEDDING_DIMENSIONS).fill(0);
+            for (const word of words(text)) {
+                vector[hashWord(word) % FAKE_EMBEDDING_DIMENSIONS]! += 1;
+            }
+            const length = Math.hypot(...vector);
+            return length > 0 ? vector.map(value => value / length) : vector;
+        });
+    }
+
+    async *streamChat(messages: AIChatMessage[]): AsyncIterable<string> {
+        const question = [...messages].reverse().find(message => message.role === 'user')?.content ?? '';
+        const answer = `You asked: "${question.trim()}"`;
+
+        for (const piece of answer.match(/\S+\s*/g) ?? []) {
+            yield piece;
+        }
+    }
+}
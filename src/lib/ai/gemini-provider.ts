@@ -0,0 +1,127 @@
+/**
+ * Gemini AI Provider
+ *
+ * Google's Gemini models through the Generative AI SDK. Safety settings
+ * allow most content, since these are the user's own notes.
+ */
+
+import {
+    FinishReason,
+    GoogleGenerativeAI,
+    HarmBlockThreshold,
+    HarmCategory,
+    TaskType,
+    type GenerationConfig,
+    type GenerativeModel,
+    type ModelParams,
+} from '@google/generative-ai';
+import { AIError } from './errors';
+import { PromptedAIProvider, type GenerateJsonOptions } from './prompted-provider';
+import type { AIChatMessage, AIChatOptions, EmbeddingPurpose } from './types';
+
+export interface GeminiConfig {
+    apiKey: string;
+    /** Text model, e.g. gemini-2.0-flash */
+    model: string;
+    /** Embedding model, e.g. text-embedding-004 */
+    embeddingModel: string;
+}
+
+// Safety settings - allow most content for personal notes
+const safetySettings = [
+    {
+        category: HarmCategory.HARM_CATEGORY_HARASSMENT,
+        threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH,
+    },
+    {
+        category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+        threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH,
+    },
+    {
+        category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+        threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH,
+    },
+    {
+        category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+        threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH,
+    },
+];
+
+// Generation config for fast, focused responses
+const generationConfig = {
+    temperature: 0.7,
+    topP: 0.9,
+    topK: 40,
+};
+
+function modelName(name: string): string {
+    return name.startsWith('models/') ? name : `models/${name}`;
+}
+
+export class GeminiProvider extends PromptedAIProvider {
+    readonly name = 'gemini';
+    private readonly client: GoogleGenerativeAI;
+
+    constructor(private readonly config: GeminiConfig) {
+        super();
+        this.client = new GoogleGenerativeAI(config.apiKey);
+    }
+
+    get embeddingModel(): string {
+        return this.config.embeddingModel;
+    }
+
+    private getModel(
+        maxOutputTokens: number,
+        config: GenerationConfig = {},
+        params: Partial<ModelParams> = {}
+    ): GenerativeModel {
+        return this.client.getGenerativeModel({
+            model: modelName(this.config.model),
+            safetySettings,
+            generationConfig: { ...generationConfig, ...config, maxOutputTokens },
+            ...params,
+        });
+    }
+
+    protected async generateJson(prompt: string, options: GenerateJsonOptions): Promise<string> {
+        const model = this.getModel(options.maxOutputTokens, { responseMimeType: 'application/json' });
+        const { response } = await model.generateContent(prompt);
+
+        const blockReason = response.promptFeedback?.blockReason
+            ?? (response.candidates?.[0]?.finishReason === FinishReason.SAFETY ? 'SAFETY' : undefined);
+        if (blockReason) {
+            throw new AIError('safety_blocked', undefined, { cause: new Error(`Gemini blocked the request: ${blockReason}`) });
+        }
+
+        return response.text();
+    }
+
+    async embed(texts: string[], purpose: EmbeddingPurpose = 'document'): Promise<number[][]> {
+        if (texts.length === 0) return [];
+
+        const model = this.client.getGenerativeModel({ model: modelName(this.config.embeddingModel) });
+        const result = await model.batchEmbedContents({
+            requests: texts.map(text => ({
+                content: { role: 'user', parts: [{ text }] },
+                taskType: purpose === 'query' ? TaskType.RETRIEVAL_QUERY : TaskType.RETRIEVAL_DOCUMENT,
+            })),
+        });
+        return result.embeddings.map(embedding => embedding.values);
+    }
+
+    async *streamChat(messages: AIChatMessage[], options: AIChatOptions = {}): AsyncIterable<string> {
+        const model = this.getModel(options.maxOutputTokens ?? 2048, {}, options.system ? { systemInstruction: options.system } : {});
+        const result = await model.generateContentStream({
+            contents: messages.map(message => ({
+                role: message.role === 'assistant' ? 'model' : 'user',
+                parts: [{ text: message.content }],
+            })),
+        });
+
+        for await (const chunk of result.stream) {
+            const text = chunk.text();
+            if (text) yield text;
+        }
+    }
+}
@@ -0,0 +1,22 @@
+/**
+ * AI module exports.
+ */
+
+export * from './types';
+export * from './ai-service';
+export * from './error-codes';
+export { AIError, toAIError, aiErrorResponse } from './errors';
+export {
+    noteSummarySchema,
+    notebookSummarySchema,
+    searchInsightsSchema,
+    tagSuggestionsSchema,
+    parseStructuredOutput,
+    buildRepairPrompt,
+} from './schemas';
+export type { StructuredOutput } from './schemas';
+export { PROMPTS, PromptedAIProvider, MAX_REPAIR_ATTEMPTS } from './prompted-provider';
+export type { GenerateJsonOptions } from './prompted-provider';
+export { GeminiProvider, type GeminiConfig } from './gemini-provider';
+export { OpenAICompatibleProvider, type OpenAICompatibleConfig } from './openai-provider';
+export { FakeAIProvider, FAKE_EMBEDDING_DIMENSIONS } from './fake-provider';
@@ -0,0 +1,129 @@
+/**
+ * OpenAI-Compatible AI Provider
+ *
+ * Talks to any server that speaks the OpenAI chat completions and
+ * embeddings API: OpenAI itself, or a local Ollama or llama.cpp server so
+ * notes never leave the machine.
+ */
+
+import { z } from 'zod';
+import { AIError } from './errors';
+import { PromptedAIProvider, type GenerateJsonOptions } from './prompted-provider';
+import type { AIChatMessage, AIChatOptions } from './types';
+
+export interface OpenAICompatibleConfig {
+    /** API root including the version, e.g. http://localhost:11434/v1 */
+    baseUrl: string;
+    /** Optional for local servers */
+    apiKey?: string;
+    model: string;
+    embeddingModel: string;
+}
+
+interface ChatCompletionMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+export class OpenAICompatibleProvider extends PromptedAIProvider {
+    readonly name = 'openai';
+
+    constructor(private readonly config: OpenAICompatibleConfig) {
+        super();
+    }
+
+    get embeddingModel(): string {
+        return this.config.embeddingModel;
+    }
+
+    private async request(path: string, body: Record<string, unknown>): Promise<Response> {
+        const response = await fetch(`${this.config.baseUrl.replace(/\/+$/, '')}${path}`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(this.config.apiKey && { 'Authorization': `Bearer ${this.config.apiKey}` }),
+            },
+            body: JSON.stringify(body),
+        });
+
+        if (!response.ok) {
+            const errorData = await response.json().catch(() => ({}));
+            const message = errorData.error?.message || errorData.error || response.statusText;
+            throw new Error(`AI server returned ${response.status}: ${message}`);
+        }
+
+        return response;
+    }
+
+    protected async generateJson(prompt: string, options: GenerateJsonOptions): Promise<string> {
+        const response = await this.request('/chat/completions', {
+            model: this.config.model,
+            messages: [{ role: 'user', content: prompt }],
+            temperature: 0.7,
+            max_tokens: options.maxOutputTokens,
+            response_format: {
+                type: 'json_schema',
+                json_schema: { name: options.schemaName, schema: z.toJSONSchema(options.schema, { io: 'input' }) },
+            },
+        });
+
+        const result = await response.json();
+        const choice = result.choices?.[0];
+        if (choice?.finish_reason === 'content_filter') {
+            throw new AIError('safety_blocked');
+        }
+        return choice?.message?.content ?? '';
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        if (texts.length === 0) return [];
+
+        const response = await this.request('/embeddings', {
+            model: this.config.embeddingModel,
+            input: texts,
+        });
+
+        const result = await response.json() as { data: Array<{ index: number; embedding: number[] }> };
+        return [...result.data]
+            .sort((a, b) => a.index - b.index)
+            .map(item => item.embedding);
+    }
+
+    async *streamChat(messages: AIChatMessage[], options: AIChatOptions = {}): AsyncIterable<string> {
+        const chatMessages: ChatCompletionMessage[] = [
+            ...(options.system ? [{ role: 'system' as const, content: options.system }] : []),
+            ...messages,
+        ];
+
+        const response = await this.request('/chat/completions', {
+            model: this.config.model,
+            messages: chatMessages,
+            max_tokens: options.maxOutputTokens ?? 2048,
+            stream: true,
+        });
+        if (!response.body) return;
+
+        // Server-sent events, one `data:` line per chunk
+        const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+        let buffer = '';
+
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += value;
+
+            let newline: number;
+            while ((newline = buffer.indexOf('\n')) !== -1) {
+                const line = buffer.slice(0, newline).trim();
+                buffer = buffer.slice(newline + 1);
+
+                if (!line.startsWith('data:')) continue;
+                const data = line.slice(5).trim();
+                if (data === '[DONE]') return;
+
+                const text = JSON.parse(data).choices?.[0]?.delta?.content;
+                if (text) yield text;
+            }
+        }
+    }
+}
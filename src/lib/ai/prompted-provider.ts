@@ -0,0 +1,211 @@
+/**
+ * Prompted AI Provider
+ *
+ * Shared base for providers backed by a text generation model: builds the
+ * prompts for each task and checks the model's JSON answer against the
+ * task's schema. Providers only supply JSON generation, embeddings and chat.
+ */
+
+import type { z } from 'zod';
+import { AIError, toAIError } from './errors';
+import {
+    buildRepairPrompt,
+    noteSummarySchema,
+    notebookSummarySchema,
+    parseStructuredOutput,
+    searchInsightsSchema,
+    tagSuggestionsSchema,
+} from './schemas';
+import type {
+    AIChatMessage,
+    AIChatOptions,
+    AINoteInput,
+    AIProvider,
+    EmbeddingPurpose,
+    NotebookSummary,
+    NoteSummary,
+    SearchInsights,
+    TagSuggestions,
+} from './types';
+
+/**
+ * System prompts for different AI tasks
+ */
+export const PROMPTS = {
+    NOTE_SUMMARY: `You are an intelligent note assistant for Notova, a personal note-taking app.
+Summarize the following note concisely while preserving key information.
+Respond in a friendly, helpful tone. Keep the summary under 150 words.
+
+Your response MUST be valid JSON in this exact format:
+{
+  "summary": "A concise summary of the note content",
+  "keyPoints": ["Key point 1", "Key point 2", "Key point 3"]
+}
+
+Extract 3-5 key points as an array. Do not include any text outside the JSON.`,
+
+    NOTEBOOK_SUMMARY: `You are an intelligent note assistant for Notova.
+Analyze the following collection of notes from a notebook and provide insights.
+
+Your response MUST be valid JSON in this exact format:
+{
+  "summary": "A comprehensive summary of all notes (200 words max)",
+  "themes": ["Theme 1", "Theme 2", "Theme 3"],
+  "keyInsights": ["Insight 1", "Insight 2"]
+}
+
+Identify common themes and key insights the user should know. Do not include any text outside the JSON.`,
+
+    SEARCH_INSIGHTS: (query: string) => `You are an intelligent note assistant for Notova.
+The user searched for "${query}" and these notes matched their search.
+
+Analyze ALL the notes below and create a connected narrative that synthesizes the information.
+
+Your response MUST be valid JSON in this exact format:
+{
+  "insight": "A connected narrative that synthesizes information across all notes about '${query}' (250 words max)",
+  "themes": ["Common theme 1", "Common theme 2"],
+  "connections": ["How note A relates to note B", "Pattern across notes"],
+  "keyFindings": ["Key finding 1", "Key finding 2", "Key finding 3"]
+}
+
+Be insightful and help the user understand their knowledge as a whole. Do not include any text outside the JSON.`,
+
+    SMART_TAGS: (existingTags: string[]) => `You are an intelligent note assistant for Notova.
+Analyze the notes below and suggest relevant tags that would help organize them.
+
+RULES:
+1. Suggest 3-8 tags maximum
+2. Tags should be broad enough to apply to multiple notes
+3. Use lowercase with hyphens for multi-word tags (e.g., "project-planning")
+4. Prioritize themes that appear across multiple notes
+5. Consider the existing tags and prefer reusing them when relevant: ${existingTags.length > 0 ? existingTags.join(', ') : 'None yet'}
+
+Your response MUST be valid JSON in this exact format:
+{
+  "suggestedTags": [
+    { "name": "tag-name", "reason": "Brief explanation of why this tag is useful", "noteCount": 3 }
+  ]
+}
+
+Each tag should have: name (the tag), reason (why it's useful), noteCount (how many notes it applies to).
+Do not include any text outside the JSON.`,
+};
+
+/**
+ * Join notes into one prompt section, keeping within token limits.
+ */
+function formatNotes(notes: AINoteInput[], maxNotes: number, maxChars: number): string {
+    return notes
+        .slice(0, maxNotes)
+        .map((note, i) => `--- Note ${i + 1}: ${note.title} ---\n${note.content.substring(0, maxChars)}`)
+        .join('\n\n');
+}
+
+/**
+ * Answers that don't fit the schema are sent back this many times
+ */
+export const MAX_REPAIR_ATTEMPTS = 1;
+
+export interface GenerateJsonOptions {
+    maxOutputTokens: number;
+    /** Expected answer, for providers that can constrain output to a schema */
+    schema: z.ZodType;
+    schemaName: string;
+}
+
+export abstract class PromptedAIProvider implements AIProvider {
+    abstract readonly name: string;
+
+    /**
+     * Generate an answer to a single prompt, using the provider's JSON
+     * output mode.
+     */
+    protected abstract generateJson(prompt: string, options: GenerateJsonOptions): Promise<string>;
+
+    abstract readonly embeddingModel: string;
+    abstract embed(texts: string[], purpose?: EmbeddingPurpose): Promise<number[][]>;
+
+    abstract streamChat(messages: AIChatMessage[], options?: AIChatOptions): AsyncIterable<string>;
+
+    /**
+     * Ask for an answer matching `schema`, sending answers that don't fit
+     * back for repair. Throws an `AIError` with the reason on failure.
+     */
+    protected async generateStructured<T>(
+        schema: z.ZodType<T>,
+        schemaName: string,
+        prompt: string,
+        maxOutputTokens: number
+    ): Promise<T> {
+        const options = { maxOutputTokens, schema, schemaName };
+        let request = prompt;
+
+        for (let attempt = 0; ; attempt++) {
+            let answer: string;
+            try {
+                answer = await this.generateJson(request, options);
+            } catch (error) {
+                throw toAIError(error);
+            }
+
+            const result = parseStructuredOutput(schema, answer);
+            if (result.success) return result.data;
+
+            if (attempt >= MAX_REPAIR_ATTEMPTS) {
+                throw new AIError('malformed_response', undefined, { cause: new Error(result.error) });
+            }
+            console.warn(`${this.name} ${schemaName} answer did not match the schema, retrying:`, result.error);
+            request = buildRepairPrompt(prompt, answer, result.error);
+        }
+    }
+
+    async summarizeNote(note: AINoteInput): Promise<NoteSummary> {
+        const prompt = `${PROMPTS.NOTE_SUMMARY}
+
+Note Title: ${note.title}
+
+Note Content:
+${note.content}`;
+
+        return this.generateStructured(noteSummarySchema, 'note_summary', prompt, 1024);
+    }
+
+    async summarizeNotebook(notebookName: string, notes: AINoteInput[]): Promise<NotebookSummary> {
+        // Limit to 20 notes to avoid token limits
+        const prompt = `${PROMPTS.NOTEBOOK_SUMMARY}
+
+Notebook: ${notebookName}
+Number of notes: ${notes.length}
+
+Notes Content:
+${formatNotes(notes, 20, 1000)}`;
+
+        return this.generateStructured(notebookSummarySchema, 'notebook_summary', prompt, 2048);
+    }
+
+    async generateSearchInsights(query: string, notes: AINoteInput[]): Promise<SearchInsights> {
+        // Limit to 15 notes to avoid token limits
+        const prompt = `${PROMPTS.SEARCH_INSIGHTS(query)}
+
+Search Query: "${query}"
+Number of matching notes: ${notes.length}
+
+Matching Notes:
+${formatNotes(notes, 15, 800)}`;
+
+        return this.generateStructured(searchInsightsSchema, 'search_insights', prompt, 2048);
+    }
+
+    async suggestTags(notes: AINoteInput[], existingTags: string[]): Promise<TagSuggestions> {
+        // Limit to 30 notes to avoid token limits
+        const prompt = `${PROMPTS.SMART_TAGS(existingTags)}
+
+Number of notes to analyze: ${notes.length}
+
+Notes Content:
+${formatNotes(notes, 30, 600)}`;
+
+        return this.generateStructured(tagSuggestionsSchema, 'tag_suggestions', prompt, 1024);
+    }
+}
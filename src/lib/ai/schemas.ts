@@ -0,0 +1,82 @@
+/**
+ * AI Result Schemas
+ *
+ * The shape of each structured answer a model is asked for, and reading
+ * an answer back against it. Answers that don't fit are sent back to the
+ * model with what was wrong, rather than patched over with empty fields.
+ */
+
+import { z } from 'zod';
+import type { NotebookSummary, NoteSummary, SearchInsights, TagSuggestions } from './types';
+
+const textList = z.array(z.string().trim().min(1));
+
+export const noteSummarySchema = z.object({
+    summary: z.string().trim().min(1),
+    keyPoints: textList,
+}) satisfies z.ZodType<NoteSummary>;
+
+export const notebookSummarySchema = z.object({
+    summary: z.string().trim().min(1),
+    themes: textList,
+    keyInsights: textList,
+}) satisfies z.ZodType<NotebookSummary>;
+
+export const searchInsightsSchema = z.object({
+    insight: z.string().trim().min(1),
+    themes: textList,
+    connections: textList,
+    keyFindings: textList,
+}) satisfies z.ZodType<SearchInsights>;
+
+export const tagSuggestionsSchema = z.object({
+    suggestedTags: z.array(z.object({
+        name: z.string().trim().toLowerCase().min(1).max(50),
+        reason: z.string().trim(),
+        // Some models write counts as strings
+        noteCount: z.coerce.number().int().min(0),
+    })),
+}) satisfies z.ZodType<TagSuggestions>;
+
+export type StructuredOutput<T> =
+    | { success: true; data: T }
+    | { success: false; error: string };
+
+/**
+ * Read a model's answer as JSON matching `schema`. Tolerates code fences
+ * and text around the JSON object.
+ */
+export function parseStructuredOutput<T>(schema: z.ZodType<T>, text: string): StructuredOutput<T> {
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start === -1 || end < start) {
+        return { success: false, error: 'The answer did not contain a JSON object.' };
+    }
+
+    let value: unknown;
+    try {
+        value = JSON.parse(text.slice(start, end + 1));
+    } catch (error) {
+        return { success: false, error: `The answer was not valid JSON: ${error instanceof Error ? error.message : error}` };
+    }
+
+    const result = schema.safeParse(value);
+    return result.success
+        ? { success: true, data: result.data }
+        : { success: false, error: z.prettifyError(result.error) };
+}
+
+/**
+ * Prompt asking the model to fix an answer that didn't fit the schema.
+ */
+export function buildRepairPrompt(prompt: string, answer: string, error: string): string {
+    return `${prompt}
+
+Your previous answer was:
+${answer.substring(0, 4000)}
+
+It could not be used because:
+${error}
+
+Answer again with only the corrected JSON object, in exactly the format described above.`;
+}
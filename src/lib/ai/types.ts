@@ -0,0 +1,102 @@
+/**
+ * AI abstraction types for note assistance.
+ * Supports Gemini, OpenAI-compatible servers (OpenAI, Ollama, llama.cpp)
+ * and a deterministic fake for tests and offline development.
+ */
+
+/**
+ * A note handed to the model, already reduced to plain text.
+ */
+export interface AINoteInput {
+    title: string;
+    content: string;
+}
+
+export interface NoteSummary {
+    summary: string;
+    keyPoints: string[];
+}
+
+export interface NotebookSummary {
+    summary: string;
+    themes: string[];
+    keyInsights: string[];
+}
+
+export interface SearchInsights {
+    insight: string;
+    themes: string[];
+    connections: string[];
+    keyFindings: string[];
+}
+
+export interface SuggestedTag {
+    name: string;
+    /** Why the tag is useful */
+    reason: string;
+    /** How many of the notes it applies to */
+    noteCount: number;
+}
+
+export interface TagSuggestions {
+    suggestedTags: SuggestedTag[];
+}
+
+export interface AIChatMessage {
+    role: 'user' | 'assistant';
+    content: string;
+}
+
+export interface AIChatOptions {
+    /** Instructions that frame the whole conversation */
+    system?: string;
+    maxOutputTokens?: number;
+}
+
+/**
+ * AI provider interface.
+ * All AI backends must implement this interface.
+ */
+/**
+ * What a text is embedded for. Some models embed search queries
+ * differently from the documents they are matched against.
+ */
+export type EmbeddingPurpose = 'document' | 'query';
+
+export interface AIProvider {
+    /** Provider name, for logging */
+    readonly name: string;
+
+    /** Model behind `embed`; vectors from different models can't be compared */
+    readonly embeddingModel: string;
+
+    /**
+     * Summarize a single note.
+     */
+    summarizeNote(note: AINoteInput): Promise<NoteSummary>;
+
+    /**
+     * Summarize the notes of a notebook and pick out common themes.
+     */
+    summarizeNotebook(notebookName: string, notes: AINoteInput[]): Promise<NotebookSummary>;
+
+    /**
+     * Connect the notes that matched a search into one narrative.
+     */
+    generateSearchInsights(query: string, notes: AINoteInput[]): Promise<SearchInsights>;
+
+    /**
+     * Suggest tags for a set of notes, reusing existing tags where they fit.
+     */
+    suggestTags(notes: AINoteInput[], existingTags: string[]): Promise<TagSuggestions>;
+
+    /**
+     * Embed each text as a vector, in the order given.
+     */
+    embed(texts: string[], purpose?: EmbeddingPurpose): Promise<number[][]>;
+
+    /**
+     * Reply to a conversation, yielding the answer as it is generated.
+     */
+    streamChat(messages: AIChatMessage[], options?: AIChatOptions): AsyncIterable<string>;
+}
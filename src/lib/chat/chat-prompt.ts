@@ -0,0 +1,106 @@
+/**
+ * Chat Prompt
+ *
+ * Turns the passages retrieved for a question into numbered sources, tells
+ * the model to answer from them and cite them as [1], [2], …, and reads
+ * back which sources an answer cited.
+ */
+
+import type { AIChatMessage } from '@/lib/ai/types';
+import type { RelevantPassage } from '@/lib/embeddings/embedding-service';
+import type { ChatCitation } from './types';
+
+/** Longest excerpt kept with a citation */
+export const CITATION_EXCERPT_LENGTH = 300;
+
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+/**
+ * A retrieved note as the model sees it: one number, all of its passages.
+ */
+export interface ChatSource extends ChatCitation {
+    passages: string[];
+}
+
+/**
+ * Group passages by note and number the notes from 1, closest match first.
+ * A note's passages keep the order they have in the note.
+ */
+export function buildChatSources(passages: RelevantPassage[]): ChatSource[] {
+    const sources = new Map<string, ChatSource & { chunks: Array<{ chunkIndex: number; passage: string }> }>();
+
+    for (const passage of passages) {
+        let source = sources.get(passage.noteId);
+        if (!source) {
+            source = {
+                index: sources.size + 1,
+                noteId: passage.noteId,
+                title: passage.title,
+                excerpt: truncate(passage.passage, CITATION_EXCERPT_LENGTH),
+                passages: [],
+                chunks: [],
+            };
+            sources.set(passage.noteId, source);
+        }
+        source.chunks.push({ chunkIndex: passage.chunkIndex, passage: passage.passage });
+    }
+
+    return [...sources.values()].map(({ chunks, ...source }) => ({
+        ...source,
+        passages: chunks.sort((a, b) => a.chunkIndex - b.chunkIndex).map(chunk => chunk.passage),
+    }));
+}
+
+/**
+ * System prompt with the numbered sources the answer must come from
+ */
+export function buildChatSystemPrompt(sources: ChatSource[]): string {
+    const instructions = `You answer questions about the user's own notes. Use only the numbered notes below.
+After each statement that uses a note, cite it by number in square brackets, like [1] or [1, 3].
+If the notes don't contain the answer, say so plainly instead of guessing.
+Keep answers concise. Use plain text or simple Markdown.`;
+
+    if (sources.length === 0) {
+        return `${instructions}\n\nNo notes matched this question.`;
+    }
+
+    const notes = sources
+        .map(source => `[${source.index}] ${source.title || 'Untitled'}\n${source.passages.join('\n…\n')}`)
+        .join('\n\n');
+
+    return `${instructions}\n\nNotes:\n\n${notes}`;
+}
+
+/**
+ * Text to search the notes with. A follow-up such as "what about the
+ * second one?" means little alone, so the previous question is included.
+ */
+export function buildRetrievalQuery(history: AIChatMessage[], question: string): string {
+    const previous = history.findLast(message => message.role === 'user');
+    return previous ? `${previous.content}\n${question}` : question;
+}
+
+/**
+ * The sources an answer cites, in source order. Numbers that don't match a
+ * source are ignored.
+ */
+export function extractCitations(answer: string, sources: ChatSource[]): ChatCitation[] {
+    const cited = new Set<number>();
+    for (const match of answer.matchAll(CITATION_PATTERN)) {
+        for (const number of match[1]!.split(',')) {
+            cited.add(Number(number.trim()));
+        }
+    }
+
+    return sources
+        .filter(source => cited.has(source.index))
+        .map(toCitation);
+}
+
+export function toCitation(source: ChatSource): ChatCitation {
+    return { index: source.index, noteId: source.noteId, title: source.title, excerpt: source.excerpt };
+}
+
+function truncate(text: string, maxLength: number): string {
+    return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+}
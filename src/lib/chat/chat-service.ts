@@ -0,0 +1,221 @@
+/**
+ * Chat Service
+ *
+ * Answers questions about a user's notes. Each question retrieves the
+ * closest passages (optionally within one notebook or tag), the model
+ * answers from them with numbered citations, and both sides of the
+ * conversation are kept as a thread.
+ */
+
+import type { ChatMessage, ChatThread, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { AIError, getAIProvider, toAIError, type AIChatMessage } from '@/lib/ai';
+import { findRelevantPassages } from '@/lib/embeddings';
+import {
+    buildChatSources,
+    buildChatSystemPrompt,
+    buildRetrievalQuery,
+    extractCitations,
+    toCitation,
+    type ChatSource,
+} from './chat-prompt';
+import type { ChatCitation, ChatMessageData, ChatRole, ChatStreamEvent, ChatThreadData } from './types';
+
+/** Earlier messages sent with each question */
+export const CHAT_HISTORY_LIMIT = 10;
+
+/** Passages retrieved for each question */
+export const CHAT_PASSAGE_LIMIT = 8;
+
+const CHAT_TITLE_LENGTH = 80;
+const THREAD_LIST_LIMIT = 50;
+
+/**
+ * Notes a thread searches: the owner's notes, optionally narrowed to a
+ * notebook or tag.
+ */
+export interface ChatScope {
+    ownerId: string;
+    notebookId: string | null;
+    tagId: string | null;
+}
+
+export interface StartChatAnswerOptions {
+    userId: string;
+    /** Thread to continue, or null to start one */
+    thread: ChatThread | null;
+    question: string;
+    scope: ChatScope;
+}
+
+export function serializeChatThread(thread: ChatThread): ChatThreadData {
+    return {
+        id: thread.id,
+        title: thread.title,
+        notebookId: thread.notebookId,
+        tagId: thread.tagId,
+        createdAt: thread.createdAt.toISOString(),
+        updatedAt: thread.updatedAt.toISOString(),
+    };
+}
+
+/**
+ * The citations stored on a message, skipping anything malformed.
+ */
+function readCitations(value: Prisma.JsonValue): ChatCitation[] {
+    if (!Array.isArray(value)) return [];
+
+    return value.flatMap((item) => {
+        if (!item || typeof item !== 'object' || Array.isArray(item)) return [];
+        const { index, noteId, title, excerpt } = item;
+        return typeof index === 'number' && typeof noteId === 'string'
+            && typeof title === 'string' && typeof excerpt === 'string'
+            ? [{ index, noteId, title, excerpt }]
+            : [];
+    });
+}
+
+export function serializeChatMessage(message: ChatMessage): ChatMessageData {
+    return {
+        id: message.id,
+        role: message.role as ChatRole,
+        content: message.content,
+        citations: readCitations(message.citations),
+        createdAt: message.createdAt.toISOString(),
+    };
+}
+
+/**
+ * A user's most recently active threads.
+ */
+export async function listChatThreads(userId: string): Promise<ChatThreadData[]> {
+    const threads = await prisma.chatThread.findMany({
+        where: { userId },
+        orderBy: { updatedAt: 'desc' },
+        take: THREAD_LIST_LIMIT,
+    });
+    return threads.map(serializeChatThread);
+}
+
+/**
+ * A thread, if it belongs to the user.
+ */
+export async function getChatThread(userId: string, threadId: string): Promise<ChatThread | null> {
+    return prisma.chatThread.findFirst({ where: { id: threadId, userId } });
+}
+
+export async function listChatMessages(threadId: string): Promise<ChatMessageData[]> {
+    const messages = await prisma.chatMessage.findMany({
+        where: { threadId },
+        orderBy: { createdAt: 'asc' },
+    });
+    return messages.map(serializeChatMessage);
+}
+
+/**
+ * Delete a thread and its messages. Returns false if the user has no such thread.
+ */
+export async function deleteChatThread(userId: string, threadId: string): Promise<boolean> {
+    const { count } = await prisma.chatThread.deleteMany({ where: { id: threadId, userId } });
+    return count > 0;
+}
+
+/**
+ * Retrieve passages for a question and save it to its thread, then return
+ * the answer as a stream of events. Retrieval errors are thrown before
+ * anything is saved; errors while answering arrive as an `error` event.
+ */
+export async function startChatAnswer(options: StartChatAnswerOptions): Promise<AsyncGenerator<ChatStreamEvent>> {
+    const { userId, question, scope } = options;
+
+    const history = options.thread ? await loadHistory(options.thread.id) : [];
+
+    const passages = await findRelevantPassages({
+        userId: scope.ownerId,
+        query: buildRetrievalQuery(history, question),
+        notebookId: scope.notebookId ?? undefined,
+        tagId: scope.tagId ?? undefined,
+        limit: CHAT_PASSAGE_LIMIT,
+    });
+    const sources = buildChatSources(passages);
+
+    const thread = options.thread ?? await prisma.chatThread.create({
+        data: {
+            userId,
+            title: chatTitle(question),
+            notebookId: scope.notebookId,
+            tagId: scope.tagId,
+        },
+    });
+    const questionMessage = await prisma.chatMessage.create({
+        data: { threadId: thread.id, role: 'user', content: question },
+    });
+
+    return streamAnswer(thread, questionMessage, [...history, { role: 'user', content: question }], sources);
+}
+
+async function* streamAnswer(
+    thread: ChatThread,
+    question: ChatMessage,
+    messages: AIChatMessage[],
+    sources: ChatSource[]
+): AsyncGenerator<ChatStreamEvent> {
+    yield {
+        type: 'start',
+        thread: serializeChatThread(thread),
+        question: serializeChatMessage(question),
+        sources: sources.map(toCitation),
+    };
+
+    let answer = '';
+    let failure: AIError | null = null;
+
+    try {
+        for await (const text of getAIProvider().streamChat(messages, { system: buildChatSystemPrompt(sources) })) {
+            answer += text;
+            yield { type: 'token', text };
+        }
+    } catch (error) {
+        console.error('Error streaming chat answer:', error);
+        failure = toAIError(error);
+    }
+
+    // Keep whatever was answered, even if the stream broke off
+    if (answer) {
+        const [message] = await prisma.$transaction([
+            prisma.chatMessage.create({
+                data: {
+                    threadId: thread.id,
+                    role: 'assistant',
+                    content: answer,
+                    citations: extractCitations(answer, sources).map(citation => ({ ...citation })),
+                },
+            }),
+            prisma.chatThread.update({ where: { id: thread.id }, data: { updatedAt: new Date() } }),
+        ]);
+        if (!failure) {
+            yield { type: 'done', message: serializeChatMessage(message) };
+        }
+    } else if (!failure) {
+        failure = new AIError('failed', 'The AI service returned an empty answer. Please try again.');
+    }
+
+    if (failure) {
+        yield { type: 'error', error: failure.message, code: failure.code };
+    }
+}
+
+async function loadHistory(threadId: string): Promise<AIChatMessage[]> {
+    const messages = await prisma.chatMessage.findMany({
+        where: { threadId },
+        orderBy: { createdAt: 'desc' },
+        take: CHAT_HISTORY_LIMIT,
+        select: { role: true, content: true },
+    });
+    return messages.reverse().map(message => ({ role: message.role as ChatRole, content: message.content }));
+}
+
+function chatTitle(question: string): string {
+    const title = question.replace(/\s+/g, ' ').trim();
+    return title.length > CHAT_TITLE_LENGTH ? `${title.slice(0, CHAT_TITLE_LENGTH - 1).trimEnd()}…` : title;
+}
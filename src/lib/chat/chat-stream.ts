@@ -0,0 +1,54 @@
+/**
+ * Chat Stream
+ *
+ * Chat answers travel as newline-delimited JSON, one `ChatStreamEvent` per
+ * line. Used on both ends, so it only relies on web streams.
+ */
+
+import type { ChatStreamEvent } from './types';
+
+/**
+ * Encode chat events as a byte stream. Stops the answer if the reader
+ * goes away.
+ */
+export function encodeChatStream(events: AsyncGenerator<ChatStreamEvent>): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+
+    return new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            const { done, value } = await events.next();
+            if (done) {
+                controller.close();
+            } else {
+                controller.enqueue(encoder.encode(`${JSON.stringify(value)}\n`));
+            }
+        },
+        async cancel() {
+            await events.return(undefined);
+        },
+    });
+}
+
+/**
+ * Read chat events from a response body as they arrive
+ */
+export async function* readChatStream(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamEvent> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        let newline: number;
+        while ((newline = buffer.indexOf('\n')) !== -1) {
+            const line = buffer.slice(0, newline).trim();
+            buffer = buffer.slice(newline + 1);
+            if (line) yield JSON.parse(line) as ChatStreamEvent;
+        }
+    }
+
+    if (buffer.trim()) yield JSON.parse(buffer) as ChatStreamEvent;
+}
@@ -0,0 +1,27 @@
+/**
+ * Chat module exports.
+ */
+
+export * from './types';
+export {
+    buildChatSources,
+    buildChatSystemPrompt,
+    buildRetrievalQuery,
+    extractCitations,
+    toCitation,
+    CITATION_EXCERPT_LENGTH,
+} from './chat-prompt';
+export type { ChatSource } from './chat-prompt';
+export { encodeChatStream, readChatStream } from './chat-stream';
+export {
+    listChatThreads,
+    getChatThread,
+    listChatMessages,
+    deleteChatThread,
+    startChatAnswer,
+    serializeChatThread,
+    serializeChatMessage,
+    CHAT_HISTORY_LIMIT,
+    CHAT_PASSAGE_LIMIT,
+} from './chat-service';
+export type { ChatScope, StartChatAnswerOptions } from './chat-service';
@@ -0,0 +1,52 @@
+/**
+ * Chat Types
+ *
+ * Shapes shared by the chat API and the client. Kept free of server
+ * dependencies so client code can import them.
+ */
+
+import type { AIErrorCode } from '@/lib/ai/error-codes';
+
+export type ChatRole = 'user' | 'assistant';
+
+/**
+ * A note an answer draws on, numbered as the answer cites it ([1], [2], …).
+ */
+export interface ChatCitation {
+    index: number;
+    noteId: string;
+    title: string;
+    /** Passage of the note the answer was given */
+    excerpt: string;
+}
+
+export interface ChatMessageData {
+    id: string;
+    role: ChatRole;
+    content: string;
+    /** Notes cited by an assistant answer */
+    citations: ChatCitation[];
+    createdAt: string;
+}
+
+export interface ChatThreadData {
+    id: string;
+    title: string;
+    notebookId: string | null;
+    tagId: string | null;
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * One line of the newline-delimited JSON stream from POST /api/ai/chat.
+ * - start: the thread the question was added to, and the notes found for it
+ * - token: the next piece of the answer
+ * - done: the saved answer, with the citations it actually uses
+ * - error: the answer failed part way
+ */
+export type ChatStreamEvent =
+    | { type: 'start'; thread: ChatThreadData; question: ChatMessageData; sources: ChatCitation[] }
+    | { type: 'token'; text: string }
+    | { type: 'done'; message: ChatMessageData }
+    | { type: 'error'; error: string; code: AIErrorCode };
@@ -0,0 +1,17 @@
+/**
+ * Collaboration module exports.
+ */
+
+export {
+    NOTE_DOCUMENT_FIELD,
+    noteDocumentName,
+    parseNoteDocumentName,
+    getCollabServerUrl,
+    presenceColor,
+    presenceInitials,
+} from './presence';
+export type { PresenceUser } from './presence';
+export { htmlToDocumentState, documentToHtml, replaceDocumentContent } from './note-document';
+export { loadNoteDocument, storeNoteDocument } from './note-persistence';
+export { createSyncServer } from './sync-server';
+export type { SyncServerOptions } from './sync-server';
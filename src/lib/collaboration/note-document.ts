@@ -0,0 +1,55 @@
+/**
+ * Note Documents
+ *
+ * Converts between a note's HTML and the Yjs document collaborators edit,
+ * using the same schema as the editor.
+ */
+
+import * as Y from 'yjs';
+import { getSchema } from '@tiptap/core';
+import { generateHTML, generateJSON } from '@tiptap/html/server';
+import { prosemirrorJSONToYDoc, yXmlFragmentToProseMirrorRootNode } from '@tiptap/y-tiptap';
+import { getNoteExtensions } from '@/components/editor/extensions';
+import { parseHtml, renderHtml } from '@/lib/export/html-tree';
+import { NOTE_DOCUMENT_FIELD } from './presence';
+
+const extensions = getNoteExtensions({ undoRedo: false });
+const schema = getSchema(extensions);
+
+/**
+ * Yjs update that creates a document with the given HTML.
+ */
+export function htmlToDocumentState(html: string): Uint8Array {
+    const json = generateJSON(html || '<p></p>', extensions);
+    const document = prosemirrorJSONToYDoc(schema, json, NOTE_DOCUMENT_FIELD);
+    return Y.encodeStateAsUpdate(document);
+}
+
+/**
+ * Replace everything in a live document with the given HTML, as one edit
+ * that connected editors receive like any other.
+ */
+export function replaceDocumentContent(document: Y.Doc, html: string): void {
+    const fresh = new Y.Doc();
+    Y.applyUpdate(fresh, htmlToDocumentState(html));
+    // The editor's schema only produces elements and text, never hooks
+    const content = fresh.getXmlFragment(NOTE_DOCUMENT_FIELD).toArray()
+        .flatMap(item => item instanceof Y.XmlHook ? [] : [item.clone()]);
+
+    const fragment = document.getXmlFragment(NOTE_DOCUMENT_FIELD);
+    document.transact(() => {
+        fragment.delete(0, fragment.length);
+        fragment.insert(0, content);
+    });
+    fresh.destroy();
+}
+
+/**
+ * HTML of a collaborative document, as the editor would save it.
+ */
+export function documentToHtml(document: Y.Doc): string {
+    const node = yXmlFragmentToProseMirrorRootNode(document.getXmlFragment(NOTE_DOCUMENT_FIELD), schema);
+
+    // The server renderer emits XML (namespaces, `<br/>`); rewrite it as the editor's HTML
+    return renderHtml(parseHtml(generateHTML(node.toJSON(), extensions)));
+}
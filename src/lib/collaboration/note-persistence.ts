@@ -0,0 +1,109 @@
+/**
+ * Note Persistence
+ *
+ * Loads collaborative documents from notes and writes merged edits back to
+ * `Note.content`, with the same revision, link, task and embedding
+ * bookkeeping as a regular save. Content written outside the live document
+ * (a revision restore, task write-back, link rename or API save) is pulled
+ * into it instead of being overwritten.
+ */
+
+import * as Y from 'yjs';
+import { prisma } from '@/lib/db';
+import { recordRevision } from '@/lib/revisions';
+import { syncNoteLinks } from '@/lib/links';
+import { countTasks, syncNoteTasks } from '@/lib/tasks';
+import { indexNoteEmbeddings } from '@/lib/embeddings';
+import { documentToHtml, htmlToDocumentState, replaceDocumentContent } from './note-document';
+
+// `Note.content` as each live document last loaded or saved it
+const knownContent = new WeakMap<Y.Doc, string>();
+
+/**
+ * Fill a live document with the note's stored Yjs state, or with its
+ * content when it has none yet. Returns false when the note doesn't exist.
+ */
+export async function loadNoteDocument(noteId: string, document: Y.Doc): Promise<boolean> {
+    const note = await prisma.note.findUnique({
+        where: { id: noteId },
+        select: { content: true, collabState: true },
+    });
+
+    if (!note) return false;
+
+    Y.applyUpdate(document, note.collabState ? new Uint8Array(note.collabState) : htmlToDocumentState(note.content));
+    knownContent.set(document, note.content);
+    return true;
+}
+
+/**
+ * Save a collaborative document to its note. Returns false when the note is
+ * gone or in the trash.
+ *
+ * When the note's content changed since the document last loaded or saved
+ * it, the document takes the stored content instead, and editors see the
+ * change arrive. Edits made in the document since its last save are lost
+ * in that case, as with any save that loses a race.
+ */
+export async function storeNoteDocument(noteId: string, document: Y.Doc): Promise<boolean> {
+    const existing = await prisma.note.findUnique({
+        where: { id: noteId },
+        include: { notebook: { select: { userId: true } } },
+    });
+
+    if (!existing || existing.isTrash) return false;
+
+    const known = knownContent.get(document);
+    if (known !== undefined && known !== existing.content) {
+        replaceDocumentContent(document, existing.content);
+        knownContent.set(document, existing.content);
+        await prisma.note.update({
+            where: { id: noteId },
+            data: { collabState: Buffer.from(Y.encodeStateAsUpdate(document)), updatedAt: existing.updatedAt },
+        });
+        return true;
+    }
+
+    const content = documentToHtml(document);
+    const collabState = Buffer.from(Y.encodeStateAsUpdate(document));
+
+    if (content === existing.content) {
+        await prisma.note.update({
+            where: { id: noteId },
+            data: { collabState, updatedAt: existing.updatedAt },
+        });
+        return true;
+    }
+
+    const note = await prisma.note.update({
+        where: { id: noteId },
+        data: {
+            content,
+            contentPlaintext: extractPlainText(content),
+            ...countTasks(content),
+            collabState,
+        },
+    });
+    knownContent.set(document, content);
+
+    await recordRevision(noteId, note, { previous: existing });
+    await syncNoteLinks(noteId, existing.notebook.userId, content);
+    await syncNoteTasks(noteId, content);
+    await indexNoteEmbeddings(noteId);
+
+    return true;
+}
+
+/**
+ * Extract plain text from HTML content.
+ */
+function extractPlainText(html: string): string {
+    let text = html.replace(/<[^>]+>/g, ' ');
+    text = text
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&amp;/g, '&')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"');
+    return text.replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,75 @@
+/**
+ * Collaboration Presence
+ *
+ * Document names and presence details shared by the editor and the sync
+ * server. Safe to import from client components.
+ */
+
+/**
+ * Name of the Yjs fragment holding the note body
+ */
+export const NOTE_DOCUMENT_FIELD = 'default';
+
+const NOTE_DOCUMENT_PREFIX = 'note:';
+
+/**
+ * Caret and avatar colors, picked per user so everyone keeps theirs
+ */
+const PRESENCE_COLORS = [
+    '#EB7A53',
+    '#3B82F6',
+    '#10B981',
+    '#8B5CF6',
+    '#EC4899',
+    '#F59E0B',
+    '#06B6D4',
+    '#EF4444',
+];
+
+/**
+ * Someone with a note open, as shown in carets and avatars.
+ */
+export interface PresenceUser {
+    id: string;
+    name: string;
+    color: string;
+}
+
+export function noteDocumentName(noteId: string): string {
+    return `${NOTE_DOCUMENT_PREFIX}${noteId}`;
+}
+
+/**
+ * Note ID from a document name, or null for names the server doesn't serve.
+ */
+export function parseNoteDocumentName(documentName: string): string | null {
+    if (!documentName.startsWith(NOTE_DOCUMENT_PREFIX)) return null;
+    const noteId = documentName.slice(NOTE_DOCUMENT_PREFIX.length);
+    return noteId || null;
+}
+
+/**
+ * WebSocket URL of the sync server. Collaborative editing is off when unset.
+ */
+export function getCollabServerUrl(): string | null {
+    return process.env.NEXT_PUBLIC_COLLAB_URL || null;
+}
+
+export function presenceColor(userId: string): string {
+    let hash = 0;
+    for (const char of userId) {
+        hash = (hash * 31 + char.charCodeAt(0)) | 0;
+    }
+    return PRESENCE_COLORS[Math.abs(hash) % PRESENCE_COLORS.length]!;
+}
+
+/**
+ * Initials for a presence avatar.
+ */
+export function presenceInitials(name: string): string {
+    const parts = name.trim().split(/[\s@._-]+/).filter(Boolean);
+    const initials = parts.length > 1
+        ? `${parts[0]![0]}${parts[1]![0]}`
+        : (parts[0] ?? '?').slice(0, 2);
+    return initials.toUpperCase();
+}
@@ -0,0 +1,87 @@
+/**
+ * Collaboration Sync Server
+ *
+ * WebSocket server that merges concurrent edits to a note with Yjs and
+ * relays cursors between the people editing it. Clients authenticate with
+ * their Supabase access token; members without edit access join read-only.
+ */
+
+import { Server } from '@hocuspocus/server';
+import { createClient } from '@supabase/supabase-js';
+import { authorizeNote } from '@/lib/permissions/access';
+import { hasPermission } from '@/lib/permissions/roles';
+import { loadNoteDocument, storeNoteDocument } from './note-persistence';
+import { parseNoteDocumentName } from './presence';
+
+export interface SyncServerOptions {
+    port: number;
+    /** Wait this long after the last edit before saving (ms) */
+    debounce?: number;
+    /** Save at least this often during continuous editing (ms) */
+    maxDebounce?: number;
+}
+
+function requireNoteId(documentName: string): string {
+    const noteId = parseNoteDocumentName(documentName);
+    if (!noteId) {
+        throw new Error(`Unknown document: ${documentName}`);
+    }
+    return noteId;
+}
+
+/**
+ * Create the sync server. Call `listen()` on the result to start it.
+ */
+export function createSyncServer({ port, debounce = 2000, maxDebounce = 10000 }: SyncServerOptions): Server {
+    const supabase = createClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+        { auth: { persistSession: false, autoRefreshToken: false } }
+    );
+
+    return new Server({
+        name: 'notova-collab',
+        port,
+        debounce,
+        maxDebounce,
+        quiet: true,
+
+        async onAuthenticate({ token, documentName, connectionConfig }) {
+            const noteId = requireNoteId(documentName);
+
+            const { data: { user } } = await supabase.auth.getUser(token);
+            if (!user) {
+                throw new Error('Authentication required');
+            }
+
+            const auth = await authorizeNote(user.id, noteId, 'read');
+            if (auth.status !== 'ok') {
+                throw new Error('Note not found');
+            }
+
+            if (auth.record.isTrash || !hasPermission(auth.access, 'edit')) {
+                connectionConfig.readOnly = true;
+            }
+
+            return { userId: user.id };
+        },
+
+        async onLoadDocument({ documentName, document }) {
+            await loadNoteDocument(requireNoteId(documentName), document);
+            return document;
+        },
+
+        async onStoreDocument({ documentName, document }) {
+            const noteId = requireNoteId(documentName);
+            try {
+                await storeNoteDocument(noteId, document);
+            } catch (error) {
+                console.error(`Failed to save collaborative note ${noteId}:`, error);
+            }
+        },
+
+        async onListen({ port }) {
+            console.log(`Collaboration server listening on port ${port}`);
+        },
+    });
+}
@@ -0,0 +1,19 @@
+/**
+ * Console Email Service
+ *
+ * Logs messages instead of sending them. Used when no email provider is
+ * configured, matching how the issue digest falls back without Resend.
+ */
+
+import type { EmailMessage, EmailResult, EmailService } from './types';
+
+export class ConsoleEmailService implements EmailService {
+    readonly name = 'console';
+
+    async send(message: EmailMessage): Promise<EmailResult> {
+        console.log(`=== EMAIL to ${message.to}: ${message.subject} ===`);
+        console.log(message.text ?? message.html);
+        console.log('=== END EMAIL ===');
+        return {};
+    }
+}
@@ -0,0 +1,69 @@
+/**
+ * Email Service
+ *
+ * Picks the email provider from environment variables, in the same way
+ * `STORAGE_TYPE` selects the storage backend.
+ */
+
+import type { EmailService } from './types';
+import { ConsoleEmailService } from './console-email';
+import { ResendEmailService } from './resend-email';
+import { SmtpEmailService } from './smtp-email';
+
+type EmailProvider = 'resend' | 'smtp' | 'console';
+
+const DEFAULT_FROM = 'Notova <notifications@notova.app>';
+
+/**
+ * The configured provider. Without `EMAIL_PROVIDER`, Resend is used when
+ * `RESEND_API_KEY` is set and messages are logged otherwise.
+ */
+export function getEmailProvider(): EmailProvider {
+    const provider = process.env.EMAIL_PROVIDER;
+    if (provider === 'resend' || provider === 'smtp' || provider === 'console') {
+        return provider;
+    }
+    if (provider) {
+        throw new Error(`Unknown EMAIL_PROVIDER "${provider}" (expected resend, smtp or console)`);
+    }
+    return process.env.RESEND_API_KEY ? 'resend' : 'console';
+}
+
+/** Singleton instance of the email service */
+let emailInstance: EmailService | null = null;
+
+/**
+ * Get the configured email service instance.
+ */
+export function getEmailService(): EmailService {
+    if (!emailInstance) {
+        const from = process.env.EMAIL_FROM || DEFAULT_FROM;
+        const provider = getEmailProvider();
+
+        if (provider === 'resend') {
+            const apiKey = process.env.RESEND_API_KEY;
+            if (!apiKey) {
+                throw new Error('Resend email requires the RESEND_API_KEY environment variable');
+            }
+            emailInstance = new ResendEmailService(apiKey, from);
+        } else if (provider === 'smtp') {
+            emailInstance = new SmtpEmailService({
+                host: process.env.SMTP_HOST || 'localhost',
+                port: Number(process.env.SMTP_PORT) || 1025,
+                from,
+            });
+        } else {
+            emailInstance = new ConsoleEmailService();
+        }
+    }
+
+    return emailInstance;
+}
+
+/**
+ * Reset the email service instance.
+ * Useful for testing or when configuration changes.
+ */
+export function resetEmailService(): void {
+    emailInstance = null;
+}
@@ -0,0 +1,9 @@
+/**
+ * Email module exports.
+ */
+
+export * from './types';
+export * from './email-service';
+export { ConsoleEmailService } from './console-email';
+export { ResendEmailService } from './resend-email';
+export { SmtpEmailService, buildMimeMessage, type SmtpConfig } from './smtp-email';
@@ -0,0 +1,41 @@
+/**
+ * Resend Email Service
+ *
+ * Sends through the Resend HTTP API.
+ */
+
+import type { EmailMessage, EmailResult, EmailService } from './types';
+
+export class ResendEmailService implements EmailService {
+    readonly name = 'resend';
+
+    constructor(
+        private readonly apiKey: string,
+        private readonly from: string
+    ) {}
+
+    async send(message: EmailMessage): Promise<EmailResult> {
+        const response = await fetch('https://api.resend.com/emails', {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${this.apiKey}`,
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                from: this.from,
+                to: [message.to],
+                subject: message.subject,
+                html: message.html,
+                ...(message.text && { text: message.text }),
+            }),
+        });
+
+        if (!response.ok) {
+            const errorData = await response.json().catch(() => ({}));
+            throw new Error(`Resend rejected email: ${errorData.message || response.statusText}`);
+        }
+
+        const result = await response.json();
+        return { id: result.id };
+    }
+}
@@ -0,0 +1,161 @@
+/**
+ * SMTP Email Service
+ *
+ * A minimal SMTP client for unauthenticated relays such as Mailpit or
+ * MailHog during local development. It speaks plain SMTP only (no STARTTLS
+ * or AUTH); production deployments should use Resend.
+ */
+
+import { connect, type Socket } from 'net';
+import { randomUUID } from 'crypto';
+import type { EmailMessage, EmailResult, EmailService } from './types';
+
+export interface SmtpConfig {
+    host: string;
+    port: number;
+    /** Sender, either `address` or `Name <address>` */
+    from: string;
+    /** Give up on an unresponsive server after this long */
+    timeoutMs?: number;
+}
+
+interface SmtpReply {
+    code: number;
+    message: string;
+}
+
+/** Encode a header value when it isn't plain ASCII */
+function encodeHeader(value: string): string {
+    return /^[\x20-\x7e]*$/.test(value)
+        ? value
+        : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function base64Lines(value: string): string {
+    return Buffer.from(value, 'utf8').toString('base64').replace(/.{1,76}/g, '$&\r\n');
+}
+
+/** The bare address from `Name <address>` */
+function envelopeAddress(value: string): string {
+    return value.match(/<([^>]+)>/)?.[1] ?? value.trim();
+}
+
+/**
+ * Build the RFC 5322 message sent after DATA, with HTML and optional
+ * plain-text parts.
+ */
+export function buildMimeMessage(from: string, message: EmailMessage, date = new Date()): string {
+    const boundary = `notova-${randomUUID()}`;
+    const domain = envelopeAddress(from).split('@')[1] || 'localhost';
+
+    const headers = [
+        `From: ${from}`,
+        `To: ${message.to}`,
+        `Subject: ${encodeHeader(message.subject)}`,
+        `Date: ${date.toUTCString()}`,
+        `Message-ID: <${randomUUID()}@${domain}>`,
+        'MIME-Version: 1.0',
+        `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    ];
+
+    const parts = [
+        ...(message.text ? [{ type: 'text/plain', body: message.text }] : []),
+        { type: 'text/html', body: message.html },
+    ].map(part => [
+        `--${boundary}`,
+        `Content-Type: ${part.type}; charset=utf-8`,
+        'Content-Transfer-Encoding: base64',
+        '',
+        base64Lines(part.body),
+    ].join('\r\n'));
+
+    return `${headers.join('\r\n')}\r\n\r\n${parts.join('')}--${boundary}--\r\n`;
+}
+
+/**
+ * Collect complete (possibly multi-line) replies from the server in order.
+ */
+function createReplyReader(socket: Socket): () => Promise<SmtpReply> {
+    let buffer = '';
+    let lines: string[] = [];
+    let failure: Error | null = null;
+    const replies: SmtpReply[] = [];
+    const waiting: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = [];
+
+    socket.on('data', (chunk: Buffer) => {
+        buffer += chunk.toString('utf8');
+        let index: number;
+        while ((index = buffer.indexOf('\r\n')) !== -1) {
+            const line = buffer.slice(0, index);
+            buffer = buffer.slice(index + 2);
+            lines.push(line);
+
+            // `250-` continues a reply, `250 ` ends it
+            if (line.charAt(3) === '-') continue;
+
+            const reply = {
+                code: Number(line.slice(0, 3)),
+                message: lines.map(part => part.slice(4)).join('\n'),
+            };
+            lines = [];
+
+            const waiter = waiting.shift();
+            if (waiter) waiter.resolve(reply);
+            else replies.push(reply);
+        }
+    });
+
+    const fail = (error: Error) => {
+        failure ??= error;
+        waiting.splice(0).forEach(waiter => waiter.reject(failure!));
+    };
+    socket.on('error', fail);
+    socket.on('close', () => fail(new Error('SMTP connection closed')));
+
+    return () => new Promise((resolve, reject) => {
+        const reply = replies.shift();
+        if (reply) resolve(reply);
+        else if (failure) reject(failure);
+        else waiting.push({ resolve, reject });
+    });
+}
+
+export class SmtpEmailService implements EmailService {
+    readonly name = 'smtp';
+
+    constructor(private readonly config: SmtpConfig) {}
+
+    async send(message: EmailMessage): Promise<EmailResult> {
+        const { host, port, from, timeoutMs = 10_000 } = this.config;
+        const socket = connect({ host, port });
+        socket.setTimeout(timeoutMs, () => socket.destroy(new Error(`SMTP server ${host}:${port} timed out`)));
+
+        const nextReply = createReplyReader(socket);
+        const command = async (line: string | null, expected: number[]) => {
+            if (line !== null) socket.write(`${line}\r\n`);
+            const reply = await nextReply();
+            if (!expected.includes(reply.code)) {
+                const verb = line === null ? 'greeting' : line.split(/[ :]/)[0];
+                throw new Error(`SMTP ${verb} failed: ${reply.code} ${reply.message}`);
+            }
+            return reply;
+        };
+
+        try {
+            await command(null, [220]);
+            await command(`EHLO ${envelopeAddress(from).split('@')[1] || 'localhost'}`, [250]);
+            await command(`MAIL FROM:<${envelopeAddress(from)}>`, [250]);
+            await command(`RCPT TO:<${envelopeAddress(message.to)}>`, [250, 251]);
+            await command('DATA', [354]);
+
+            // Lines starting with a dot are escaped so they don't end DATA early
+            const data = buildMimeMessage(from, message).replace(/^\./gm, '..');
+            const accepted = await command(`${data}.`, [250]);
+
+            await command('QUIT', [221]).catch(() => undefined);
+            return { id: accepted.message.match(/(?:queued as |id=)\s*(\S+)/i)?.[1] };
+        } finally {
+            socket.destroy();
+        }
+    }
+}
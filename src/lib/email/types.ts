@@ -0,0 +1,28 @@
+/**
+ * Email abstraction types for outgoing notifications.
+ * Supports Resend, any SMTP server, and logging to the console.
+ */
+
+export interface EmailMessage {
+    /** Recipient address */
+    to: string;
+    subject: string;
+    html: string;
+    /** Plain-text alternative for clients that don't render HTML */
+    text?: string;
+}
+
+export interface EmailResult {
+    /** Provider message ID, when the provider returns one */
+    id?: string;
+}
+
+export interface EmailService {
+    /** Provider name, for logging */
+    readonly name: string;
+
+    /**
+     * Send a message. Throws when the provider rejects it.
+     */
+    send(message: EmailMessage): Promise<EmailResult>;
+}
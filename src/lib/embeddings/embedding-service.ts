@@ -0,0 +1,309 @@
+/**
+ * Note Embedding Service
+ *
+ * Stores an embedding per note passage in `NoteEmbedding` (pgvector) and
+ * ranks notes, or single passages for chat, by how close they are to a
+ * query or to another note. Notes are indexed after each save; passages whose text hasn't
+ * changed keep their vectors, so autosave only pays for the passages that
+ * were edited. Imported notes and notes saved before AI was configured are
+ * picked up by `indexMissingEmbeddings` when the user searches.
+ */
+
+import { randomUUID } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { getAIProvider, isAIAvailable } from '@/lib/ai';
+import {
+    MAX_PASSAGES_PER_NOTE,
+    hashEmbeddingText,
+    passageEmbeddingText,
+    splitIntoPassages,
+    toVectorLiteral,
+} from './passages';
+
+/** Notes indexed per `indexMissingEmbeddings` call */
+const BACKFILL_BATCH_SIZE = 25;
+
+/**
+ * Lowest cosine similarity for a passage to count as a match
+ */
+export const DEFAULT_MIN_SIMILARITY = 0.25;
+
+/**
+ * Embed a note's passages, replacing the vectors of passages that changed.
+ * Runs after the response has been sent, so failures are logged rather
+ * than thrown.
+ */
+export async function indexNoteEmbeddings(noteId: string): Promise<void> {
+    if (!isAIAvailable()) return;
+
+    try {
+        const provider = getAIProvider();
+        const model = provider.embeddingModel;
+
+        const note = await prisma.note.findUnique({
+            where: { id: noteId },
+            select: { title: true, contentPlaintext: true },
+        });
+        if (!note) return;
+
+        const passages = splitIntoPassages(note.contentPlaintext ?? '').slice(0, MAX_PASSAGES_PER_NOTE);
+        const hashes = passages.map(passage => hashEmbeddingText(passageEmbeddingText(note.title, passage)));
+
+        const existing = await prisma.noteEmbedding.findMany({
+            where: { noteId },
+            select: { id: true, chunkIndex: true, contentHash: true, model: true },
+        });
+
+        // Reuse the vector of each unchanged passage, wherever it moved to
+        const reusable = new Map<string, { id: string; chunkIndex: number }>();
+        for (const row of existing) {
+            if (row.model === model && !reusable.has(row.contentHash)) {
+                reusable.set(row.contentHash, row);
+            }
+        }
+
+        const kept: Array<{ id: string; chunkIndex: number; moved: boolean }> = [];
+        const missing: number[] = [];
+        hashes.forEach((hash, index) => {
+            const row = reusable.get(hash);
+            if (row) {
+                kept.push({ id: row.id, chunkIndex: index, moved: row.chunkIndex !== index });
+                reusable.delete(hash);
+            } else {
+                missing.push(index);
+            }
+        });
+
+        if (missing.length === 0 && kept.length === existing.length && !kept.some(row => row.moved)) {
+            return;
+        }
+
+        const vectors = missing.length > 0
+            ? await provider.embed(missing.map(index => passageEmbeddingText(note.title, passages[index]!)))
+            : [];
+
+        await prisma.$transaction([
+            prisma.noteEmbedding.deleteMany({
+                where: { noteId, id: { notIn: kept.map(row => row.id) } },
+            }),
+            ...kept
+                .filter(row => row.moved)
+                .map(row => prisma.noteEmbedding.update({
+                    where: { id: row.id },
+                    data: { chunkIndex: row.chunkIndex },
+                })),
+            // The vector column is unsupported by the Prisma client, so new rows go in as SQL
+            ...missing.map((index, i) => prisma.$executeRaw`
+                INSERT INTO "NoteEmbedding" ("id", "noteId", "chunkIndex", "content", "contentHash", "model", "embedding")
+                VALUES (
+                    ${randomUUID()}, ${noteId}, ${index}, ${passages[index]!}, ${hashes[index]!}, ${model},
+                    ${toVectorLiteral(vectors[i]!)}::vector
+                )
+            `),
+        ]);
+    } catch (error) {
+        console.error('Error indexing note embeddings:', error);
+    }
+}
+
+/**
+ * Index a batch of a user's notes that have no embeddings from the current
+ * model yet.
+ */
+export async function indexMissingEmbeddings(userId: string): Promise<void> {
+    if (!isAIAvailable()) return;
+
+    const notes = await prisma.note.findMany({
+        where: {
+            notebook: { userId },
+            isTrash: false,
+            contentPlaintext: { not: '' },
+            embeddings: { none: { model: getAIProvider().embeddingModel } },
+        },
+        select: { id: true },
+        orderBy: { updatedAt: 'desc' },
+        take: BACKFILL_BATCH_SIZE,
+    });
+
+    for (const note of notes) {
+        await indexNoteEmbeddings(note.id);
+    }
+}
+
+/**
+ * Options for a search by meaning.
+ */
+export interface SemanticSearchOptions {
+    /** Owner of the notes to search */
+    userId: string;
+    query: string;
+    notebookId?: string;
+    tagId?: string;
+    limit?: number;
+    minSimilarity?: number;
+}
+
+/**
+ * A note that matched by meaning, with its closest passage.
+ */
+export interface SemanticSearchHit {
+    id: string;
+    /** Cosine similarity of the closest passage, from -1 to 1 */
+    score: number;
+    passage: string;
+}
+
+/**
+ * A passage close to the query, for answering questions from notes.
+ */
+export interface RelevantPassage {
+    noteId: string;
+    title: string;
+    chunkIndex: number;
+    passage: string;
+    score: number;
+}
+
+/**
+ * Embed the query and build the filter shared by the similarity queries
+ */
+async function prepareSimilarityQuery(options: SemanticSearchOptions): Promise<{ vector: string; where: Prisma.Sql } | null> {
+    const { userId, query, notebookId, tagId } = options;
+
+    const provider = getAIProvider();
+    const [queryVector] = await provider.embed([query], 'query');
+    if (!queryVector) return null;
+
+    const conditions: Prisma.Sql[] = [
+        Prisma.sql`nb."userId" = ${userId}`,
+        Prisma.sql`n."isTrash" = false`,
+        Prisma.sql`e."model" = ${provider.embeddingModel}`,
+    ];
+    if (notebookId) {
+        conditions.push(Prisma.sql`n."notebookId" = ${notebookId}`);
+    }
+    if (tagId) {
+        conditions.push(Prisma.sql`EXISTS (SELECT 1 FROM "NoteTag" nt WHERE nt."noteId" = n.id AND nt."tagId" = ${tagId})`);
+    }
+
+    return { vector: toVectorLiteral(queryVector), where: Prisma.join(conditions, ' AND ') };
+}
+
+/**
+ * Rank a user's notes by how close their best passage is to the query.
+ * Trashed notes are left out.
+ */
+export async function searchNotesByMeaning(options: SemanticSearchOptions): Promise<SemanticSearchHit[]> {
+    const { limit = 20, minSimilarity = DEFAULT_MIN_SIMILARITY } = options;
+
+    const prepared = await prepareSimilarityQuery(options);
+    if (!prepared) return [];
+    const { vector, where } = prepared;
+
+    // <=> is cosine distance; keep each note's closest passage
+    return prisma.$queryRaw<SemanticSearchHit[]>`
+        SELECT ranked.id, ranked.score, ranked.passage
+        FROM (
+            SELECT e."noteId" AS id,
+                   e."content" AS passage,
+                   (1 - (e."embedding" <=> ${vector}::vector))::float8 AS score,
+                   ROW_NUMBER() OVER (
+                       PARTITION BY e."noteId"
+                       ORDER BY e."embedding" <=> ${vector}::vector
+                   ) AS position
+            FROM "NoteEmbedding" e
+            JOIN "Note" n ON n.id = e."noteId"
+            JOIN "Notebook" nb ON nb.id = n."notebookId"
+            WHERE ${where}
+        ) ranked
+        WHERE ranked.position = 1 AND ranked.score >= ${minSimilarity}
+        ORDER BY ranked.score DESC
+        LIMIT ${limit}
+    `;
+}
+
+/**
+ * The passages closest to the query across a user's notes, at most
+ * `maxPerNote` from any one note so a single long note can't crowd out the
+ * rest. Trashed notes are left out.
+ */
+export async function findRelevantPassages(
+    options: SemanticSearchOptions & { maxPerNote?: number }
+): Promise<RelevantPassage[]> {
+    const { limit = 8, maxPerNote = 2, minSimilarity = DEFAULT_MIN_SIMILARITY } = options;
+
+    const prepared = await prepareSimilarityQuery(options);
+    if (!prepared) return [];
+    const { vector, where } = prepared;
+
+    return prisma.$queryRaw<RelevantPassage[]>`
+        SELECT ranked."noteId", ranked.title, ranked."chunkIndex", ranked.passage, ranked.score
+        FROM (
+            SELECT e."noteId",
+                   n.title,
+                   e."chunkIndex",
+                   e."content" AS passage,
+                   (1 - (e."embedding" <=> ${vector}::vector))::float8 AS score,
+                   ROW_NUMBER() OVER (
+                       PARTITION BY e."noteId"
+                       ORDER BY e."embedding" <=> ${vector}::vector
+                   ) AS position
+            FROM "NoteEmbedding" e
+            JOIN "Note" n ON n.id = e."noteId"
+            JOIN "Notebook" nb ON nb.id = n."notebookId"
+            WHERE ${where}
+        ) ranked
+        WHERE ranked.position <= ${maxPerNote} AND ranked.score >= ${minSimilarity}
+        ORDER BY ranked.score DESC
+        LIMIT ${limit}
+    `;
+}
+
+/**
+ * Options for finding notes close in meaning to another note.
+ */
+export interface SimilarNotesOptions {
+    noteId: string;
+    /** Notebooks to look in, usually those the viewer can read */
+    notebookIds: string[];
+    limit?: number;
+    minSimilarity?: number;
+}
+
+/**
+ * A note close in meaning to another note.
+ */
+export interface SimilarNote {
+    id: string;
+    /** Cosine similarity of the closest pair of passages, from -1 to 1 */
+    score: number;
+}
+
+/**
+ * Rank notes by how close their passages come to any passage of the given
+ * note. Uses the stored vectors, so nothing is embedded; returns nothing
+ * until the note has been indexed with the current model.
+ */
+export async function findSimilarNotes(options: SimilarNotesOptions): Promise<SimilarNote[]> {
+    const { noteId, notebookIds, limit = 20, minSimilarity = DEFAULT_MIN_SIMILARITY } = options;
+    if (!isAIAvailable() || notebookIds.length === 0) return [];
+
+    const model = getAIProvider().embeddingModel;
+
+    return prisma.$queryRaw<SimilarNote[]>`
+        SELECT e."noteId" AS id,
+               MAX(1 - (e."embedding" <=> s."embedding"))::float8 AS score
+        FROM "NoteEmbedding" s
+        JOIN "NoteEmbedding" e ON e."model" = s."model" AND e."noteId" <> s."noteId"
+        JOIN "Note" n ON n.id = e."noteId"
+        WHERE s."noteId" = ${noteId}
+          AND s."model" = ${model}
+          AND n."isTrash" = false
+          AND n."notebookId" IN (${Prisma.join(notebookIds)})
+        GROUP BY e."noteId"
+        HAVING MAX(1 - (e."embedding" <=> s."embedding")) >= ${minSimilarity}
+        ORDER BY score DESC
+        LIMIT ${limit}
+    `;
+}
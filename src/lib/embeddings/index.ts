@@ -0,0 +1,27 @@
+/**
+ * Embeddings module exports.
+ */
+
+export {
+    PASSAGE_MAX_LENGTH,
+    MAX_PASSAGES_PER_NOTE,
+    splitIntoPassages,
+    passageEmbeddingText,
+    hashEmbeddingText,
+    toVectorLiteral,
+} from './passages';
+export {
+    indexNoteEmbeddings,
+    indexMissingEmbeddings,
+    searchNotesByMeaning,
+    findRelevantPassages,
+    findSimilarNotes,
+    DEFAULT_MIN_SIMILARITY,
+} from './embedding-service';
+export type {
+    SemanticSearchOptions,
+    SemanticSearchHit,
+    RelevantPassage,
+    SimilarNotesOptions,
+    SimilarNote,
+} from './embedding-service';
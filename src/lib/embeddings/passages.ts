@@ -0,0 +1,86 @@
+/**
+ * Note Passages
+ *
+ * Splits a note's plain text into passages for embedding. Passages break at
+ * sentence ends where possible, so a search hit can point at the part of the
+ * note that matched rather than the whole note.
+ */
+
+import { createHash } from 'crypto';
+
+/** Longest passage, in characters */
+export const PASSAGE_MAX_LENGTH = 800;
+
+/** Passages embedded per note; text after this is not searchable by meaning */
+export const MAX_PASSAGES_PER_NOTE = 50;
+
+const SENTENCE_PATTERN = /[^.!?]+(?:[.!?]+["')\]]*|$)/g;
+
+/**
+ * Split plain text into passages of whole sentences, at most `maxLength`
+ * characters each. Sentences longer than that are split between words.
+ */
+export function splitIntoPassages(text: string, maxLength = PASSAGE_MAX_LENGTH): string[] {
+    const sentences = (text.match(SENTENCE_PATTERN) ?? [])
+        .map(sentence => sentence.trim())
+        .filter(Boolean)
+        .flatMap(sentence => splitLongText(sentence, maxLength));
+
+    const passages: string[] = [];
+    let current = '';
+
+    for (const sentence of sentences) {
+        if (current && current.length + 1 + sentence.length > maxLength) {
+            passages.push(current);
+            current = '';
+        }
+        current = current ? `${current} ${sentence}` : sentence;
+    }
+    if (current) passages.push(current);
+
+    return passages;
+}
+
+/**
+ * Split text between words into pieces of at most `maxLength` characters
+ */
+function splitLongText(text: string, maxLength: number): string[] {
+    if (text.length <= maxLength) return [text];
+
+    const pieces: string[] = [];
+    let current = '';
+
+    for (const word of text.split(' ')) {
+        // A single word that doesn't fit is cut where it overflows
+        for (let start = 0; start < word.length; start += maxLength) {
+            const part = word.slice(start, start + maxLength);
+            if (current && current.length + 1 + part.length > maxLength) {
+                pieces.push(current);
+                current = '';
+            }
+            current = current ? `${current} ${part}` : part;
+        }
+    }
+    if (current) pieces.push(current);
+
+    return pieces;
+}
+
+/**
+ * Text sent to the embedding model for a passage. The title gives short
+ * passages the context of what the note is about.
+ */
+export function passageEmbeddingText(title: string, passage: string): string {
+    return title ? `${title}\n\n${passage}` : passage;
+}
+
+export function hashEmbeddingText(text: string): string {
+    return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Format a vector as a pgvector literal, e.g. `[0.1,0.2]`
+ */
+export function toVectorLiteral(vector: number[]): string {
+    return `[${vector.join(',')}]`;
+}
@@ -0,0 +1,204 @@
+/**
+ * Evernote Encrypted Text
+ *
+ * Evernote stores encrypted selections as `<en-crypt>` elements holding
+ * Base64 ciphertext. Notes keep them as
+ * `<span data-type="en-crypt" data-cipher="…" data-length="…" data-hint="…" data-ciphertext="…">`,
+ * written by the editor's encrypted content node, so they survive editing
+ * and export back to ENML unchanged.
+ *
+ * Decryption happens in the browser; passphrases never reach the server.
+ * Two schemes exist:
+ * - AES (current): "ENC0" + salt + HMAC salt + IV + AES-128-CBC ciphertext
+ *   + HMAC-SHA256, with keys derived by PBKDF2-SHA256 (50,000 rounds)
+ * - RC2 (legacy): RC2-ECB keyed with the MD5 of the passphrase, plaintext
+ *   prefixed with a CRC32 checksum and padded with NULs
+ * New content is always encrypted with the AES scheme.
+ */
+
+import { escapeHtml } from '@/lib/export/html-tree';
+import { md5 } from './md5';
+import { rc2DecryptEcb } from './rc2';
+
+export const EN_CRYPT_TYPE = 'en-crypt';
+
+/**
+ * An encrypted block as stored in note content.
+ */
+export interface EnCryptData {
+    /** AES or RC2 */
+    cipher: string;
+    /** Key length in bits */
+    length: number;
+    hint: string | null;
+    /** Base64 ciphertext */
+    ciphertext: string;
+}
+
+const AES_MAGIC = 'ENC0';
+const AES_KEY_BITS = 128;
+const AES_ITERATIONS = 50000;
+const SALT_BYTES = 16;
+const IV_BYTES = 16;
+const HMAC_BYTES = 32;
+const RC2_DEFAULT_KEY_BITS = 64;
+
+const encoder = new TextEncoder();
+
+/**
+ * Render an encrypted block as note HTML
+ */
+export function renderEnCrypt(data: EnCryptData): string {
+    const attributes = [
+        `data-type="${EN_CRYPT_TYPE}"`,
+        `data-cipher="${escapeHtml(data.cipher)}"`,
+        `data-length="${data.length}"`,
+        ...(data.hint ? [`data-hint="${escapeHtml(data.hint)}"`] : []),
+        `data-ciphertext="${escapeHtml(data.ciphertext)}"`,
+    ];
+    return `<span ${attributes.join(' ')}>Encrypted content</span>`;
+}
+
+function fromBase64(text: string): Uint8Array {
+    const binary = atob(text.replace(/\s+/g, ''));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+function toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    for (const byte of bytes) binary += String.fromCharCode(byte);
+    return btoa(binary);
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array, algorithm: AesKeyGenParams | HmacKeyGenParams) {
+    const baseKey = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    const usages: KeyUsage[] = algorithm.name === 'HMAC' ? ['sign', 'verify'] : ['encrypt', 'decrypt'];
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt: salt as BufferSource, iterations: AES_ITERATIONS, hash: 'SHA-256' },
+        baseKey,
+        algorithm,
+        false,
+        usages
+    );
+}
+
+async function decryptAes(data: Uint8Array, passphrase: string): Promise<string> {
+    const minimumLength = AES_MAGIC.length + 2 * SALT_BYTES + IV_BYTES + HMAC_BYTES;
+    if (data.length < minimumLength || new TextDecoder().decode(data.subarray(0, AES_MAGIC.length)) !== AES_MAGIC) {
+        throw new Error('Unrecognized encrypted content');
+    }
+
+    let offset = AES_MAGIC.length;
+    const salt = data.subarray(offset, offset += SALT_BYTES);
+    const hmacSalt = data.subarray(offset, offset += SALT_BYTES);
+    const iv = data.subarray(offset, offset += IV_BYTES);
+    const signed = data.subarray(0, data.length - HMAC_BYTES);
+    const signature = data.subarray(data.length - HMAC_BYTES);
+
+    const hmacKey = await deriveKey(passphrase, hmacSalt, { name: 'HMAC', hash: 'SHA-256', length: AES_KEY_BITS });
+    if (!await crypto.subtle.verify('HMAC', hmacKey, signature as BufferSource, signed as BufferSource)) {
+        throw new Error('Incorrect passphrase');
+    }
+
+    const key = await deriveKey(passphrase, salt, { name: 'AES-CBC', length: AES_KEY_BITS });
+    const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-CBC', iv: iv as BufferSource },
+        key,
+        data.subarray(offset, data.length - HMAC_BYTES) as BufferSource
+    );
+    return new TextDecoder().decode(plaintext);
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+
+function crc32(data: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function decryptRc2(data: Uint8Array, passphrase: string, keyBits: number): string {
+    if (data.length === 0 || data.length % 8 !== 0) {
+        throw new Error('Unrecognized encrypted content');
+    }
+
+    const plaintext = rc2DecryptEcb(data, md5(encoder.encode(passphrase)), keyBits);
+
+    let end = plaintext.length;
+    while (end > 4 && plaintext[end - 1] === 0) end--;
+    const text = plaintext.subarray(4, end);
+
+    // The first four characters are the start of the text's CRC32 in hex
+    const checksum = new TextDecoder().decode(plaintext.subarray(0, 4));
+    const expected = crc32(text).toString(16).padStart(8, '0').slice(0, 4);
+    if (checksum.toLowerCase() !== expected) {
+        throw new Error('Incorrect passphrase');
+    }
+
+    return new TextDecoder().decode(text);
+}
+
+/**
+ * Decrypt an encrypted block. Throws if the passphrase is wrong.
+ */
+export async function decryptEnCrypt(data: EnCryptData, passphrase: string): Promise<string> {
+    const bytes = fromBase64(data.ciphertext);
+
+    switch (data.cipher.toUpperCase()) {
+        case 'AES':
+            return decryptAes(bytes, passphrase);
+        case 'RC2':
+            return decryptRc2(bytes, passphrase, data.length || RC2_DEFAULT_KEY_BITS);
+        default:
+            throw new Error(`Unsupported cipher: ${data.cipher}`);
+    }
+}
+
+/**
+ * Encrypt content with Evernote's AES scheme
+ */
+export async function encryptEnCrypt(plaintext: string, passphrase: string, hint?: string): Promise<EnCryptData> {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const hmacSalt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+
+    const key = await deriveKey(passphrase, salt, { name: 'AES-CBC', length: AES_KEY_BITS });
+    const encrypted = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-CBC', iv }, key, encoder.encode(plaintext)));
+
+    const signed = new Uint8Array(AES_MAGIC.length + 2 * SALT_BYTES + IV_BYTES + encrypted.length);
+    let offset = 0;
+    for (const part of [encoder.encode(AES_MAGIC), salt, hmacSalt, iv, encrypted]) {
+        signed.set(part, offset);
+        offset += part.length;
+    }
+
+    const hmacKey = await deriveKey(passphrase, hmacSalt, { name: 'HMAC', hash: 'SHA-256', length: AES_KEY_BITS });
+    const signature = new Uint8Array(await crypto.subtle.sign('HMAC', hmacKey, signed));
+
+    const result = new Uint8Array(signed.length + signature.length);
+    result.set(signed);
+    result.set(signature, signed.length);
+
+    return {
+        cipher: 'AES',
+        length: AES_KEY_BITS,
+        hint: hint?.trim() || null,
+        ciphertext: toBase64(result),
+    };
+}
+
+/**
+ * Turn decrypted content into note HTML. Evernote encrypts HTML fragments;
+ * anything without markup is treated as plain text.
+ */
+export function decryptedContentToHtml(content: string): string {
+    if (/<[a-z][^>]*>/i.test(content)) return content;
+    return content
+        .split(/\r?\n/)
+        .map(line => `<p>${escapeHtml(line)}</p>`)
+        .join('');
+}
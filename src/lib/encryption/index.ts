@@ -0,0 +1,12 @@
+/**
+ * Encryption module exports.
+ */
+
+export {
+    EN_CRYPT_TYPE,
+    renderEnCrypt,
+    decryptEnCrypt,
+    encryptEnCrypt,
+    decryptedContentToHtml,
+} from './en-crypt';
+export type { EnCryptData } from './en-crypt';
@@ -0,0 +1,130 @@
+/**
+ * ENEX Export
+ *
+ * Writes notebooks as Evernote export documents so notes can be imported
+ * back into Evernote (or re-imported here). Each note carries its tags,
+ * attributes and base64-encoded attachments; content is converted back to
+ * ENML with <en-media> hashes matching the exported resources.
+ */
+
+import { createHash } from 'crypto';
+import { getStorageService, type StorageService } from '@/lib/storage';
+import type { EnexNote, EnexResource } from '@/types/enex';
+import { convertHtmlToEnml, type EnmlResource } from './html-to-enml';
+import { enexHeader, serializeEnexNote, formatEnexDate, ENEX_FOOTER } from './enex-writer';
+import { createZipStream, type ZipEntry } from './zip-writer';
+import { toFileName, createNameRegistry } from './file-names';
+import { iterateNotebookNotes, referencesAttachment, type ExportNote, type ExportNotebook } from './note-source';
+
+/**
+ * Build the ENEX representation of a stored note
+ */
+async function toEnexNote(note: ExportNote, storage: StorageService): Promise<EnexNote> {
+    const resources: EnexResource[] = [];
+    const references = new Map<string, EnmlResource>();
+
+    for (const attachment of note.attachments) {
+        const data = await storage.get(attachment.storageKey);
+        if (!data) continue;
+
+        const hash = createHash('md5').update(data).digest('hex');
+        references.set(attachment.id, { hash, mimeType: attachment.mimeType });
+        resources.push({
+            data: data.toString('base64'),
+            encoding: 'base64',
+            mime: attachment.mimeType,
+            width: attachment.width ?? undefined,
+            height: attachment.height ?? undefined,
+            resourceAttributes: {
+                fileName: attachment.originalName ?? attachment.filename,
+                attachment: !attachment.mimeType.startsWith('image/'),
+            },
+        });
+    }
+
+    const content = convertHtmlToEnml(note.content, {
+        resolveResource: (url) => {
+            const attachment = note.attachments.find(item => references.has(item.id) && referencesAttachment(url, item));
+            return attachment ? references.get(attachment.id) : undefined;
+        },
+        resources: [...references.values()],
+    });
+
+    return {
+        title: note.title,
+        content,
+        created: formatEnexDate(note.evernoteCreated ?? note.createdAt),
+        updated: formatEnexDate(note.updatedAt),
+        tags: note.tags.map(noteTag => noteTag.tag.name),
+        noteAttributes: {
+            sourceUrl: note.sourceUrl ?? undefined,
+            author: note.author ?? undefined,
+            latitude: note.latitude ?? undefined,
+            longitude: note.longitude ?? undefined,
+            altitude: note.altitude ?? undefined,
+            // Evernote lists reminders by reminder-order, a timestamp
+            reminderOrder: note.reminderAt?.getTime(),
+            reminderTime: note.reminderAt ? formatEnexDate(note.reminderAt) : undefined,
+            reminderDoneTime: note.reminderDoneAt ? formatEnexDate(note.reminderDoneAt) : undefined,
+        },
+        resources,
+    };
+}
+
+/**
+ * Generate the chunks of a notebook's en-export document
+ */
+async function* enexDocument(notebook: ExportNotebook): AsyncGenerator<string> {
+    const storage = getStorageService();
+
+    yield enexHeader();
+    for await (const note of iterateNotebookNotes(notebook.id)) {
+        yield serializeEnexNote(await toEnexNote(note, storage));
+    }
+    yield ENEX_FOOTER;
+}
+
+/**
+ * Stream a single notebook as an .enex document
+ */
+export function createEnexExport(notebook: ExportNotebook): ReadableStream<Uint8Array> {
+    const chunks = enexDocument(notebook);
+    const encoder = new TextEncoder();
+
+    return new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            const next = await chunks.next();
+            if (next.done) {
+                controller.close();
+            } else {
+                controller.enqueue(encoder.encode(next.value));
+            }
+        },
+        async cancel() {
+            await chunks.return(undefined);
+        },
+    });
+}
+
+/**
+ * Stream several notebooks as a ZIP with one .enex document per notebook.
+ * Each document is assembled in memory before it is added to the archive.
+ */
+export function createEnexArchive(notebooks: ExportNotebook[]): ReadableStream<Uint8Array> {
+    async function* entries(): AsyncGenerator<ZipEntry> {
+        const names = createNameRegistry();
+
+        for (const notebook of notebooks) {
+            const chunks: string[] = [];
+            for await (const chunk of enexDocument(notebook)) {
+                chunks.push(chunk);
+            }
+            yield {
+                path: names(toFileName(notebook.name, 'Notebook'), '.enex'),
+                data: chunks.join(''),
+            };
+        }
+    }
+
+    return createZipStream(entries());
+}
@@ -0,0 +1,126 @@
+/**
+ * ENEX Writer
+ *
+ * Serializes notes into the Evernote export format, the inverse of
+ * `parseEnexString`. Documents are produced as a sequence of chunks (header,
+ * one chunk per note, footer) so callers can stream large notebooks.
+ */
+
+import type { EnexNote, EnexNoteAttributes, EnexResource } from '@/types/enex';
+
+const ENEX_DOCTYPE = '<!DOCTYPE en-export SYSTEM "http://xml.evernote.com/pub/evernote-export4.dtd">';
+
+/** Line length for wrapped base64 resource data */
+const BASE64_LINE_LENGTH = 76;
+
+/**
+ * Format a date as an ENEX timestamp (e.g. 20240131T153000Z)
+ */
+export function formatEnexDate(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+}
+
+/**
+ * Wrap text in a CDATA section, splitting any `]]>` it contains
+ */
+function cdata(text: string): string {
+    return `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+function element(name: string, value: string | number | undefined | null): string {
+    if (value === undefined || value === null || value === '') return '';
+    return `<${name}>${escapeXml(String(value))}</${name}>`;
+}
+
+function serializeNoteAttributes(attributes: EnexNoteAttributes | undefined): string {
+    if (!attributes) return '';
+
+    const fields = [
+        element('subject-date', attributes.subjectDate),
+        element('latitude', attributes.latitude),
+        element('longitude', attributes.longitude),
+        element('altitude', attributes.altitude),
+        element('author', attributes.author),
+        element('source', attributes.source),
+        element('source-url', attributes.sourceUrl),
+        element('source-application', attributes.sourceApplication),
+        element('reminder-order', attributes.reminderOrder),
+        element('reminder-time', attributes.reminderTime),
+        element('reminder-done-time', attributes.reminderDoneTime),
+        element('place-name', attributes.placeName),
+        element('content-class', attributes.contentClass),
+    ].join('');
+
+    return fields ? `<note-attributes>${fields}</note-attributes>` : '';
+}
+
+function serializeResource(resource: EnexResource): string {
+    const data = resource.data.match(new RegExp(`.{1,${BASE64_LINE_LENGTH}}`, 'g'))?.join('\n') ?? '';
+    const attributes = resource.resourceAttributes;
+    const attributeFields = attributes
+        ? [
+            element('source-url', attributes.sourceUrl),
+            element('timestamp', attributes.timestamp),
+            element('file-name', attributes.fileName),
+            attributes.attachment ? element('attachment', 'true') : '',
+        ].join('')
+        : '';
+
+    return [
+        '<resource>',
+        `<data encoding="${escapeXml(resource.encoding)}">\n${data}\n</data>`,
+        element('mime', resource.mime),
+        element('width', resource.width),
+        element('height', resource.height),
+        element('duration', resource.duration),
+        attributeFields ? `<resource-attributes>${attributeFields}</resource-attributes>` : '',
+        '</resource>',
+    ].join('');
+}
+
+/**
+ * Serialize a single <note> element; `note.content` must be an ENML document
+ */
+export function serializeEnexNote(note: EnexNote): string {
+    return [
+        '<note>',
+        element('title', note.title),
+        `<content>${cdata(note.content)}</content>`,
+        element('created', note.created),
+        element('updated', note.updated),
+        ...note.tags.map(tag => element('tag', tag)),
+        serializeNoteAttributes(note.noteAttributes),
+        ...note.resources.map(serializeResource),
+        '</note>\n',
+    ].join('');
+}
+
+/**
+ * Opening of an en-export document
+ */
+export function enexHeader(exportDate: Date = new Date(), application: string = 'Notova'): string {
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        ENEX_DOCTYPE,
+        `<en-export export-date="${formatEnexDate(exportDate)}" application="${escapeXml(application)}" version="1.0">`,
+        '',
+    ].join('\n');
+}
+
+export const ENEX_FOOTER = '</en-export>\n';
+
+/**
+ * Serialize a complete en-export document
+ */
+export function serializeEnex(notes: EnexNote[], exportDate?: Date): string {
+    return `${enexHeader(exportDate)}${notes.map(serializeEnexNote).join('')}${ENEX_FOOTER}`;
+}
@@ -0,0 +1,54 @@
+/**
+ * Export File Names
+ *
+ * Turns note, notebook and attachment names into safe, unique file names
+ * for archive entries.
+ */
+
+const MAX_FILE_NAME_LENGTH = 100;
+
+/**
+ * Make a note or notebook title safe to use as a file name
+ */
+export function toFileName(title: string, fallback: string = 'Untitled'): string {
+    const name = title
+        .replace(/[\\/:*?"<>|\u0000-\u001f]/g, '-')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .replace(/^\.+|\.+$/g, '')
+        .slice(0, MAX_FILE_NAME_LENGTH)
+        .trim();
+    return name || fallback;
+}
+
+/**
+ * Hands out file names that are unique within a folder (case-insensitively)
+ */
+export function createNameRegistry() {
+    const used = new Set<string>();
+
+    return (base: string, extension: string = ''): string => {
+        let candidate = `${base}${extension}`;
+        for (let counter = 2; used.has(candidate.toLowerCase()); counter++) {
+            candidate = `${base} (${counter})${extension}`;
+        }
+        used.add(candidate.toLowerCase());
+        return candidate;
+    };
+}
+
+/**
+ * Split a file name into its base name and extension (including the dot)
+ */
+export function splitExtension(fileName: string): [string, string] {
+    const dot = fileName.lastIndexOf('.');
+    return dot > 0 ? [fileName.slice(0, dot), fileName.slice(dot)] : [fileName, ''];
+}
+
+/**
+ * Content-Disposition header for downloading a file, with an ASCII fallback name
+ */
+export function attachmentDisposition(fileName: string): string {
+    const fallback = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+    return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
@@ -0,0 +1,55 @@
+/**
+ * YAML Front Matter
+ *
+ * Serializes note metadata as a YAML front matter block. Only the value
+ * shapes exports need are supported; strings are always double-quoted (JSON
+ * strings are valid YAML) so titles and URLs never need further escaping.
+ */
+
+export type FrontMatterValue =
+    | string
+    | number
+    | boolean
+    | Date
+    | string[]
+    | { [key: string]: FrontMatterValue | null | undefined }
+    | null
+    | undefined;
+
+function formatScalar(value: string | number | boolean | Date): string {
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value === 'string') return JSON.stringify(value);
+    return String(value);
+}
+
+function formatEntries(fields: Record<string, FrontMatterValue>, depth: number): string[] {
+    const padding = '  '.repeat(depth);
+    const lines: string[] = [];
+
+    for (const [key, value] of Object.entries(fields)) {
+        if (value === null || value === undefined) continue;
+
+        if (Array.isArray(value)) {
+            if (value.length === 0) {
+                lines.push(`${padding}${key}: []`);
+            } else {
+                lines.push(`${padding}${key}:`, ...value.map(item => `${padding}  - ${formatScalar(item)}`));
+            }
+        } else if (typeof value === 'object' && !(value instanceof Date)) {
+            const nested = formatEntries(value, depth + 1);
+            if (nested.length > 0) lines.push(`${padding}${key}:`, ...nested);
+        } else {
+            lines.push(`${padding}${key}: ${formatScalar(value)}`);
+        }
+    }
+
+    return lines;
+}
+
+/**
+ * Build a `---` delimited front matter block (with trailing newline).
+ * Null and undefined fields are omitted.
+ */
+export function buildFrontMatter(fields: Record<string, FrontMatterValue>): string {
+    return ['---', ...formatEntries(fields, 0), '---', ''].join('\n');
+}
@@ -0,0 +1,281 @@
+/**
+ * HTML to ENML Converter
+ *
+ * The inverse of `convertEnmlToHtml`: turns stored note HTML back into
+ * Evernote Markup Language so notes can be exported as ENEX.
+ * - Images, media and attachment links that point at stored attachments
+ *   become <en-media hash="…" type="…"/> again
+ * - Checkboxes and editor task items become <en-todo checked="…"/>
+ * - Encrypted content becomes <en-crypt> with its original ciphertext
+ * - Highlights become Evernote highlight spans
+ * - Elements and attributes ENML prohibits are unwrapped or dropped
+ */
+
+import {
+    parseHtml,
+    findElement,
+    getTextContent,
+    isCheckbox,
+    type HtmlElement,
+    type HtmlNode,
+} from './html-tree';
+
+/**
+ * A stored resource referenced from note content.
+ */
+export interface EnmlResource {
+    /** MD5 hash of the resource data (hex) */
+    hash: string;
+    mimeType: string;
+}
+
+export interface HtmlToEnmlOptions {
+    /** Map a URL in the content to the resource it references */
+    resolveResource?: (url: string) => EnmlResource | undefined;
+    /** All resources of the note; any the content doesn't reference are appended after it */
+    resources?: EnmlResource[];
+}
+
+export const ENML_DOCTYPE = '<!DOCTYPE en-note SYSTEM "http://xml.evernote.com/pub/enml2.dtd">';
+
+const HIGHLIGHT_STYLE = 'background-color: rgb(255, 250, 165);-evernote-highlight:true;';
+
+/** XHTML elements permitted by the ENML DTD */
+const ENML_ELEMENTS: ReadonlySet<string> = new Set([
+    'a', 'abbr', 'acronym', 'address', 'area', 'b', 'bdo', 'big', 'blockquote', 'br',
+    'caption', 'center', 'cite', 'code', 'col', 'colgroup', 'dd', 'del', 'dfn', 'div',
+    'dl', 'dt', 'em', 'font', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'i', 'img',
+    'ins', 'kbd', 'li', 'map', 'ol', 'p', 'pre', 'q', 's', 'samp', 'small', 'span',
+    'strike', 'strong', 'sub', 'sup', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead',
+    'tr', 'tt', 'u', 'ul', 'var',
+]);
+
+/** HTML5 sectioning elements that map onto <div> */
+const DIV_ELEMENTS: ReadonlySet<string> = new Set([
+    'article', 'aside', 'details', 'figcaption', 'figure', 'footer', 'header',
+    'main', 'nav', 'section', 'summary',
+]);
+
+/** Elements dropped with their content */
+const DROPPED_ELEMENTS: ReadonlySet<string> = new Set([
+    'applet', 'button', 'canvas', 'embed', 'frame', 'frameset', 'iframe', 'input',
+    'noscript', 'object', 'select', 'svg', 'textarea', 'title',
+]);
+
+const EMPTY_ELEMENTS: ReadonlySet<string> = new Set(['area', 'br', 'col', 'hr', 'img']);
+
+const COMMON_ATTRIBUTES = ['style', 'title', 'lang', 'dir', 'align'];
+
+const ELEMENT_ATTRIBUTES: Record<string, string[]> = {
+    a: ['href', 'name', 'target', 'rel'],
+    img: ['src', 'alt', 'width', 'height', 'border', 'hspace', 'vspace'],
+    table: ['border', 'cellpadding', 'cellspacing', 'width', 'bgcolor', 'summary'],
+    td: ['colspan', 'rowspan', 'width', 'height', 'valign', 'bgcolor'],
+    th: ['colspan', 'rowspan', 'width', 'height', 'valign', 'bgcolor'],
+    tr: ['valign', 'bgcolor'],
+    col: ['span', 'width', 'valign'],
+    colgroup: ['span', 'width', 'valign'],
+    ol: ['start', 'type'],
+    ul: ['type'],
+    li: ['value', 'type'],
+    font: ['color', 'face', 'size'],
+    q: ['cite'],
+    blockquote: ['cite'],
+    area: ['shape', 'coords', 'href', 'alt'],
+    map: ['name'],
+};
+
+/**
+ * Escape text for XML content and attribute values
+ */
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/\u00a0/g, '&#160;')
+        // Control characters are not allowed in XML 1.0
+        .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+}
+
+function isSafeUrl(url: string): boolean {
+    return !/^\s*(javascript|vbscript|data):/i.test(url);
+}
+
+/**
+ * Render an <en-media> reference
+ */
+export function renderEnMedia(resource: EnmlResource, size?: { width?: string; height?: string }): string {
+    const attributes = [`hash="${escapeXml(resource.hash)}"`, `type="${escapeXml(resource.mimeType)}"`];
+    if (size?.width && /^\d+$/.test(size.width)) attributes.push(`width="${size.width}"`);
+    if (size?.height && /^\d+$/.test(size.height)) attributes.push(`height="${size.height}"`);
+    return `<en-media ${attributes.join(' ')}/>`;
+}
+
+function renderEnTodo(checked: boolean): string {
+    return `<en-todo checked="${checked ? 'true' : 'false'}"/>`;
+}
+
+function renderEnCrypt(attrs: Record<string, string>): string {
+    const attributes = [
+        `cipher="${escapeXml(attrs['data-cipher'] || 'RC2')}"`,
+        `length="${escapeXml(attrs['data-length'] || '64')}"`,
+        ...(attrs['data-hint'] ? [`hint="${escapeXml(attrs['data-hint'])}"`] : []),
+    ];
+    return `<en-crypt ${attributes.join(' ')}>${escapeXml(attrs['data-ciphertext']!)}</en-crypt>`;
+}
+
+function renderAttributes(element: HtmlElement, tag: string): string {
+    const allowed = [...COMMON_ATTRIBUTES, ...(ELEMENT_ATTRIBUTES[tag] ?? [])];
+    return allowed
+        .filter(name => element.attrs[name] !== undefined)
+        .filter(name => (name !== 'href' && name !== 'src') || isSafeUrl(element.attrs[name]!))
+        .map(name => ` ${name}="${escapeXml(element.attrs[name]!)}"`)
+        .join('');
+}
+
+function renderElement(tag: string, attributes: string, content: string): string {
+    return EMPTY_ELEMENTS.has(tag) ? `<${tag}${attributes}/>` : `<${tag}${attributes}>${content}</${tag}>`;
+}
+
+function renderNodes(nodes: HtmlNode[], options: HtmlToEnmlOptions): string {
+    return nodes.map(node => renderNode(node, options)).join('');
+}
+
+/**
+ * Strip wrapper blocks so a task item's text sits next to its checkbox
+ */
+function unwrapSingleBlock(nodes: HtmlNode[]): HtmlNode[] {
+    const meaningful = nodes.filter(node => node.type === 'text'
+        ? node.text.trim()
+        : getTextContent(node).trim() || findElement([node], element => element.tag === 'img'));
+    const only = meaningful[0];
+    if (meaningful.length === 1 && only?.type === 'element' && (only.tag === 'div' || only.tag === 'p' || only.tag === 'label')) {
+        return unwrapSingleBlock(only.children);
+    }
+    return meaningful;
+}
+
+function removeCheckboxes(nodes: HtmlNode[]): HtmlNode[] {
+    return nodes
+        .filter(node => !isCheckbox(node))
+        .map(node => (node.type === 'element' ? { ...node, children: removeCheckboxes(node.children) } : node));
+}
+
+/**
+ * Editor task lists have no ENML equivalent; each item becomes a line with a to-do
+ */
+function renderTaskList(list: HtmlElement, options: HtmlToEnmlOptions): string {
+    return list.children
+        .filter((child): child is HtmlElement => child.type === 'element' && child.tag === 'li')
+        .map(item => {
+            const checkbox = findElement(item.children, isCheckbox);
+            const checked = item.attrs['data-checked'] !== undefined
+                ? item.attrs['data-checked'] === 'true'
+                : checkbox?.attrs.checked !== undefined;
+            const content = unwrapSingleBlock(removeCheckboxes(item.children));
+            return `<div>${renderEnTodo(checked)}${renderNodes(content, options)}</div>`;
+        })
+        .join('');
+}
+
+/**
+ * Render a media element that references a stored resource, or null if it doesn't
+ */
+function renderMedia(element: HtmlElement, url: string | undefined, options: HtmlToEnmlOptions): string | null {
+    if (!url) return null;
+    const resource = options.resolveResource?.(url);
+    if (!resource) return null;
+    return renderEnMedia(resource, { width: element.attrs.width, height: element.attrs.height });
+}
+
+function renderNode(node: HtmlNode, options: HtmlToEnmlOptions): string {
+    if (node.type === 'text') return escapeXml(node.text);
+
+    const { tag, attrs } = node;
+    const classes = (attrs.class ?? '').split(/\s+/);
+
+    if (isCheckbox(node)) {
+        return renderEnTodo(attrs.checked !== undefined);
+    }
+
+    switch (tag) {
+        case 'img': {
+            const media = renderMedia(node, attrs.src, options);
+            if (media) return media;
+            if (!attrs.src || !isSafeUrl(attrs.src)) return '';
+            return renderElement('img', renderAttributes(node, 'img'), '');
+        }
+
+        case 'audio':
+        case 'video': {
+            const source = attrs.src ?? findElement(node.children, child => child.tag === 'source')?.attrs.src;
+            const media = renderMedia(node, source, options);
+            if (media) return media;
+            return source && isSafeUrl(source) ? `<a href="${escapeXml(source)}">${escapeXml(source)}</a>` : '';
+        }
+
+        case 'a': {
+            const media = renderMedia(node, attrs.href, options);
+            if (media && (classes.includes('en-media') || attrs.download !== undefined)) return media;
+            break;
+        }
+
+        case 'ul':
+            if (attrs['data-type'] === 'taskList') return renderTaskList(node, options);
+            break;
+
+        case 'mark':
+            return `<span style="${HIGHLIGHT_STYLE}">${renderNodes(node.children, options)}</span>`;
+
+        case 'span':
+            if (attrs['data-type'] === 'note-link') {
+                // Plain [[Title]] links are re-linked when the ENEX is imported again
+                return escapeXml(`[[${getTextContent(node).trim()}]]`);
+            }
+            if (attrs['data-type'] === 'en-crypt' && attrs['data-ciphertext']) {
+                return renderEnCrypt(attrs);
+            }
+            break;
+
+        case 'div':
+            if (classes.includes('en-note')) return renderNodes(node.children, options);
+            break;
+    }
+
+    if (DROPPED_ELEMENTS.has(tag)) return '';
+
+    const content = renderNodes(node.children, options);
+    if (DIV_ELEMENTS.has(tag)) return renderElement('div', renderAttributes(node, 'div'), content);
+    if (!ENML_ELEMENTS.has(tag)) return content;
+
+    return renderElement(tag, renderAttributes(node, tag), content);
+}
+
+/**
+ * Convert note HTML to a complete ENML document
+ */
+export function convertHtmlToEnml(html: string, options: HtmlToEnmlOptions = {}): string {
+    const referenced = new Set<string>();
+    const body = renderNodes(parseHtml(html), {
+        ...options,
+        resolveResource: (url) => {
+            const resource = options.resolveResource?.(url);
+            if (resource) referenced.add(resource.hash);
+            return resource;
+        },
+    });
+
+    // Evernote only shows resources that the content references
+    const trailing = (options.resources ?? [])
+        .filter(resource => !referenced.has(resource.hash))
+        .map(resource => `<div>${renderEnMedia(resource)}</div>`)
+        .join('');
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+        ENML_DOCTYPE,
+        `<en-note>${body}${trailing}</en-note>`,
+    ].join('\n');
+}
@@ -0,0 +1,245 @@
+/**
+ * HTML Tree
+ *
+ * A small, forgiving HTML parser for the export converters. Note content is
+ * editor- or ENML-generated markup, so this favours tolerance over spec
+ * completeness: unknown tags are kept, stray closing tags are ignored and
+ * unclosed elements are closed at the end of their parent.
+ */
+
+export interface HtmlElement {
+    type: 'element';
+    /** Lower-cased tag name */
+    tag: string;
+    /** Attributes with lower-cased names and decoded values */
+    attrs: Record<string, string>;
+    children: HtmlNode[];
+}
+
+export interface HtmlText {
+    type: 'text';
+    /** Decoded text */
+    text: string;
+}
+
+export type HtmlNode = HtmlElement | HtmlText;
+
+export const VOID_ELEMENTS: ReadonlySet<string> = new Set([
+    'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input',
+    'link', 'meta', 'param', 'source', 'track', 'wbr',
+]);
+
+/** Elements whose content is dropped entirely */
+const IGNORED_ELEMENTS: ReadonlySet<string> = new Set(['script', 'style', 'template']);
+
+/** Opening one of these closes an open sibling of the same kind */
+const SELF_CLOSING_SIBLINGS: Record<string, string[]> = {
+    li: ['li'],
+    p: ['p'],
+    tr: ['tr'],
+    td: ['td', 'th'],
+    th: ['td', 'th'],
+    option: ['option'],
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+    nbsp: '\u00a0',
+    ndash: '–',
+    mdash: '—',
+    hellip: '…',
+    lsquo: '‘',
+    rsquo: '’',
+    ldquo: '“',
+    rdquo: '”',
+    bull: '•',
+    middot: '·',
+    copy: '©',
+    reg: '®',
+    trade: '™',
+    times: '×',
+    deg: '°',
+    euro: '€',
+};
+
+const TOKEN_PATTERN = /<!--[\s\S]*?-->|<![^>]*>|<\?[^>]*>|<\/?([a-zA-Z][\w:-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>|[^<]+|</g;
+const ATTRIBUTE_PATTERN = /([^\s"'=<>/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+/**
+ * Decode named and numeric character references
+ */
+export function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+\d*);/gi, (match, entity: string) => {
+        if (entity[0] === '#') {
+            const codePoint = entity[1] === 'x' || entity[1] === 'X'
+                ? parseInt(entity.slice(2), 16)
+                : parseInt(entity.slice(1), 10);
+            return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : match;
+        }
+        return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+    });
+}
+
+/**
+ * Escape text for use in HTML/XML content or attribute values
+ */
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function parseAttributes(source: string): Record<string, string> {
+    const attrs: Record<string, string> = {};
+    for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+        const name = match[1]!.toLowerCase();
+        if (name in attrs) continue;
+        attrs[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+    }
+    return attrs;
+}
+
+/**
+ * Parse an HTML fragment into a list of nodes
+ */
+export function parseHtml(html: string): HtmlNode[] {
+    const root: HtmlElement = { type: 'element', tag: '#root', attrs: {}, children: [] };
+    const stack: HtmlElement[] = [root];
+    let ignoreUntil: string | null = null;
+
+    const current = () => stack[stack.length - 1]!;
+
+    for (const match of html.matchAll(TOKEN_PATTERN)) {
+        const [token, rawTag, rawAttrs] = match;
+
+        if (ignoreUntil) {
+            if (rawTag?.toLowerCase() === ignoreUntil && token.startsWith('</')) {
+                ignoreUntil = null;
+            }
+            continue;
+        }
+
+        if (!rawTag) {
+            // Comments, doctypes and processing instructions carry no content
+            if (token.startsWith('<!') || token.startsWith('<?')) continue;
+            current().children.push({ type: 'text', text: decodeEntities(token) });
+            continue;
+        }
+
+        const tag = rawTag.toLowerCase();
+
+        if (token.startsWith('</')) {
+            const index = stack.map(element => element.tag).lastIndexOf(tag);
+            if (index > 0) stack.length = index;
+            continue;
+        }
+
+        if (IGNORED_ELEMENTS.has(tag)) {
+            if (!token.endsWith('/>')) ignoreUntil = tag;
+            continue;
+        }
+
+        const siblings = SELF_CLOSING_SIBLINGS[tag];
+        if (siblings && siblings.includes(current().tag)) {
+            stack.pop();
+        }
+
+        const element: HtmlElement = {
+            type: 'element',
+            tag,
+            attrs: parseAttributes(rawAttrs ?? ''),
+            children: [],
+        };
+        current().children.push(element);
+
+        if (!VOID_ELEMENTS.has(tag) && !token.endsWith('/>')) {
+            stack.push(element);
+        }
+    }
+
+    return root.children;
+}
+
+function escapeText(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/\u00a0/g, '&nbsp;');
+}
+
+function escapeAttribute(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/"/g, '&quot;')
+        .replace(/\u00a0/g, '&nbsp;');
+}
+
+/**
+ * Serialize nodes back to HTML the way a browser's `innerHTML` would.
+ * Namespace declarations left by XML serializers are dropped.
+ */
+export function renderHtml(nodes: HtmlNode[]): string {
+    return nodes.map(node => {
+        if (node.type === 'text') return escapeText(node.text);
+
+        const attrs = Object.entries(node.attrs)
+            .filter(([name]) => name !== 'xmlns' && !name.startsWith('xmlns:'))
+            .map(([name, value]) => ` ${name}="${escapeAttribute(value)}"`)
+            .join('');
+        const open = `<${node.tag}${attrs}>`;
+        if (VOID_ELEMENTS.has(node.tag)) return open;
+        return `${open}${renderHtml(node.children)}</${node.tag}>`;
+    }).join('');
+}
+
+/**
+ * Concatenated text of a node and its descendants
+ */
+export function getTextContent(node: HtmlNode): string {
+    if (node.type === 'text') return node.text;
+    if (node.tag === 'br') return '\n';
+    return node.children.map(getTextContent).join('');
+}
+
+/**
+ * Depth-first search for the first element matching a predicate
+ */
+export function findElement(
+    nodes: HtmlNode[],
+    predicate: (element: HtmlElement) => boolean
+): HtmlElement | null {
+    for (const node of nodes) {
+        if (node.type !== 'element') continue;
+        if (predicate(node)) return node;
+        const found = findElement(node.children, predicate);
+        if (found) return found;
+    }
+    return null;
+}
+
+/**
+ * Whether an element is a checkbox input (editor task items and ENEX to-dos)
+ */
+export function isCheckbox(node: HtmlNode): boolean {
+    return node.type === 'element' && node.tag === 'input' && node.attrs.type?.toLowerCase() === 'checkbox';
+}
+
+/**
+ * Whether an element carries an inline style declaration (e.g. `-evernote-highlight: true`)
+ */
+export function hasStyle(element: HtmlElement, property: string, value?: string): boolean {
+    const style = element.attrs.style;
+    if (!style) return false;
+    return style.split(';').some(declaration => {
+        const [name, ...rest] = declaration.split(':');
+        if (name?.trim().toLowerCase() !== property) return false;
+        return value === undefined || rest.join(':').trim().toLowerCase() === value;
+    });
+}
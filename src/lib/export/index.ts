@@ -0,0 +1,20 @@
+/**
+ * Export module exports.
+ */
+
+export { htmlToMarkdown, escapeMarkdown } from './markdown';
+export type { MarkdownOptions } from './markdown';
+export { convertHtmlToEnml, renderEnMedia, ENML_DOCTYPE } from './html-to-enml';
+export type { EnmlResource, HtmlToEnmlOptions } from './html-to-enml';
+export { serializeEnex, serializeEnexNote, enexHeader, formatEnexDate, ENEX_FOOTER } from './enex-writer';
+export { buildFrontMatter } from './front-matter';
+export type { FrontMatterValue } from './front-matter';
+export { createZipStream, crc32 } from './zip-writer';
+export type { ZipEntry } from './zip-writer';
+export { toFileName, createNameRegistry, splitExtension, attachmentDisposition } from './file-names';
+export { createMarkdownExport, ATTACHMENTS_FOLDER } from './markdown-export';
+export type { MarkdownExportOptions } from './markdown-export';
+export { createEnexExport, createEnexArchive } from './enex-export';
+export type { ExportNotebook, ExportNote } from './note-source';
+export { parseHtml, renderHtml, decodeEntities, escapeHtml, getTextContent } from './html-tree';
+export type { HtmlNode, HtmlElement, HtmlText } from './html-tree';
@@ -0,0 +1,84 @@
+/**
+ * Markdown Export
+ *
+ * Builds a ZIP of Markdown files for a notebook or a whole account. Each
+ * note becomes a `.md` file with YAML front matter; its attachments are
+ * pulled from storage into an `attachments/` folder next to it and
+ * referenced by relative path. Account exports get one folder per notebook.
+ */
+
+import { getStorageService } from '@/lib/storage';
+import { htmlToMarkdown } from './markdown';
+import { buildFrontMatter } from './front-matter';
+import { createZipStream, type ZipEntry } from './zip-writer';
+import { toFileName, createNameRegistry, splitExtension } from './file-names';
+import { iterateNotebookNotes, referencesAttachment, type ExportNote, type ExportNotebook } from './note-source';
+
+export const ATTACHMENTS_FOLDER = 'attachments';
+
+export interface MarkdownExportOptions {
+    notebooks: ExportNotebook[];
+    /** Put each notebook in its own folder (account exports) */
+    notebookFolders: boolean;
+}
+
+function buildNoteFrontMatter(note: ExportNote): string {
+    const hasLocation = note.latitude !== null && note.longitude !== null;
+
+    return buildFrontMatter({
+        title: note.title,
+        tags: note.tags.map(noteTag => noteTag.tag.name),
+        created: note.evernoteCreated ?? note.createdAt,
+        updated: note.updatedAt,
+        sourceUrl: note.sourceUrl,
+        author: note.author,
+        location: hasLocation
+            ? { latitude: note.latitude, longitude: note.longitude, altitude: note.altitude }
+            : undefined,
+    });
+}
+
+async function* exportEntries(options: MarkdownExportOptions): AsyncGenerator<ZipEntry> {
+    const storage = getStorageService();
+    const notebookNames = createNameRegistry();
+
+    for (const notebook of options.notebooks) {
+        const folder = options.notebookFolders ? notebookNames(toFileName(notebook.name, 'Notebook'), '/') : '';
+        const noteNames = createNameRegistry();
+        const attachmentNames = createNameRegistry();
+
+        for await (const note of iterateNotebookNotes(notebook.id)) {
+            const files: ZipEntry[] = [];
+            const paths = new Map<string, string>();
+
+            for (const attachment of note.attachments) {
+                const data = await storage.get(attachment.storageKey);
+                if (!data) continue;
+                const name = attachmentNames(...splitExtension(toFileName(attachment.originalName ?? attachment.filename, 'attachment')));
+                paths.set(attachment.id, `${ATTACHMENTS_FOLDER}/${name}`);
+                files.push({ path: `${folder}${ATTACHMENTS_FOLDER}/${name}`, data, modifiedAt: attachment.createdAt });
+            }
+
+            const markdown = htmlToMarkdown(note.content, {
+                resolveUrl: (url) => {
+                    const attachment = note.attachments.find(item => paths.has(item.id) && referencesAttachment(url, item));
+                    return attachment ? paths.get(attachment.id) : undefined;
+                },
+            });
+
+            yield {
+                path: `${folder}${noteNames(toFileName(note.title), '.md')}`,
+                data: `${buildNoteFrontMatter(note)}\n${markdown}`,
+                modifiedAt: note.updatedAt,
+            };
+            yield* files;
+        }
+    }
+}
+
+/**
+ * Stream a Markdown export of the given notebooks as a ZIP archive
+ */
+export function createMarkdownExport(options: MarkdownExportOptions): ReadableStream<Uint8Array> {
+    return createZipStream(exportEntries(options));
+}
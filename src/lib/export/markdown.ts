@@ -0,0 +1,432 @@
+/**
+ * HTML to Markdown Converter
+ *
+ * Converts stored note HTML (editor output and converted ENML) to
+ * GitHub-flavored Markdown that Obsidian and other Markdown editors read:
+ * - Tables become GFM pipe tables (first row is the header)
+ * - Editor task items and ENEX to-dos become `- [ ]` / `- [x]`
+ * - Highlights (<mark>, Evernote highlight spans) become `==text==`
+ * - [[Note links]] stay as wiki links
+ * - Image and attachment URLs can be rewritten to relative paths
+ */
+
+import {
+    parseHtml,
+    findElement,
+    getTextContent,
+    hasStyle,
+    isCheckbox,
+    type HtmlElement,
+    type HtmlNode,
+} from './html-tree';
+
+export interface MarkdownOptions {
+    /**
+     * Rewrite a resource URL (image, media or link). Return a replacement
+     * such as `attachments/photo.png`, or undefined to keep the original.
+     */
+    resolveUrl?: (url: string) => string | undefined;
+}
+
+const BLOCK_ELEMENTS: ReadonlySet<string> = new Set([
+    'address', 'article', 'aside', 'blockquote', 'center', 'details', 'div', 'dl',
+    'en-note', 'fieldset', 'figcaption', 'figure', 'footer', 'form', 'h1', 'h2',
+    'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'nav', 'ol', 'p', 'pre',
+    'section', 'summary', 'table', 'ul', 'body', 'html',
+]);
+
+/** Placeholder for hard line breaks until the surrounding block decides how to render them */
+const LINE_BREAK = '\u0000';
+
+/**
+ * Convert an HTML fragment to Markdown
+ */
+export function htmlToMarkdown(html: string, options: MarkdownOptions = {}): string {
+    const markdown = joinBlocks(renderBlocks(parseHtml(html), options));
+    return markdown ? `${markdown}\n` : '';
+}
+
+/**
+ * Escape Markdown syntax in plain text
+ */
+export function escapeMarkdown(text: string): string {
+    return text.replace(/([\\`*_[\]<~])/g, '\\$1').replace(/==/g, '=\\=');
+}
+
+function isBlock(node: HtmlNode): boolean {
+    return node.type === 'element' && BLOCK_ELEMENTS.has(node.tag);
+}
+
+/**
+ * Render a mixed list of nodes as Markdown blocks; runs of inline content become paragraphs
+ */
+function renderBlocks(nodes: HtmlNode[], options: MarkdownOptions): string[] {
+    const blocks: string[] = [];
+    let inline: HtmlNode[] = [];
+
+    const flush = () => {
+        const paragraph = renderParagraph(inline, options);
+        if (paragraph) blocks.push(paragraph);
+        inline = [];
+    };
+
+    for (const node of nodes) {
+        if (!isBlock(node)) {
+            inline.push(node);
+            continue;
+        }
+        flush();
+        blocks.push(...renderBlock(node as HtmlElement, options));
+    }
+    flush();
+
+    return blocks;
+}
+
+function renderBlock(element: HtmlElement, options: MarkdownOptions): string[] {
+    switch (element.tag) {
+        case 'h1':
+        case 'h2':
+        case 'h3':
+        case 'h4':
+        case 'h5':
+        case 'h6': {
+            const text = renderInline(element.children, options).replaceAll(LINE_BREAK, ' ').trim();
+            return text ? [`${'#'.repeat(Number(element.tag[1]))} ${text}`] : [];
+        }
+
+        case 'p': {
+            if (element.children.some(isBlock)) return renderBlocks(element.children, options);
+            const paragraph = renderParagraph(element.children, options);
+            return paragraph ? [paragraph] : [];
+        }
+
+        case 'hr':
+            return ['---'];
+
+        case 'pre':
+            return [renderCodeBlock(element)];
+
+        case 'blockquote': {
+            const quoted = joinBlocks(renderBlocks(element.children, options));
+            if (!quoted) return [];
+            return [quoted.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n')];
+        }
+
+        case 'ul':
+        case 'ol': {
+            const list = renderList(element, options);
+            return list ? [list] : [];
+        }
+
+        case 'li': {
+            // A list item outside of a list; render it as a one-item list
+            const list = renderList({ ...element, tag: 'ul', children: [element] }, options);
+            return list ? [list] : [];
+        }
+
+        case 'table': {
+            const table = renderTable(element, options);
+            return table ? [table] : [];
+        }
+
+        default:
+            return renderBlocks(element.children, options);
+    }
+}
+
+/**
+ * Render inline nodes as a paragraph, turning a leading checkbox into a task item
+ */
+function renderParagraph(nodes: HtmlNode[], options: MarkdownOptions): string | null {
+    const checkbox = getLeadingCheckbox(nodes);
+    const text = trimLineBreaks(renderInline(nodes, options));
+    if (!text && !checkbox) return null;
+
+    const lines = text.split(LINE_BREAK).map(line => line.trim());
+    const body = lines.join('\\\n');
+
+    if (checkbox) {
+        return `- [${checkbox.attrs.checked !== undefined ? 'x' : ' '}] ${body.replace(/^\[[ x]\] ?/, '')}`.trimEnd();
+    }
+
+    // Escape text that would otherwise start a heading, quote, list or rule
+    return body
+        .replace(/^(#{1,6}(?=\s)|>|[-+](?=\s)|---)/, '\\$1')
+        .replace(/^(\d+)([.)])(?=\s)/, '$1\\$2');
+}
+
+/**
+ * The checkbox an inline run starts with, if any (ENEX to-dos are `<div><input type="checkbox"/>Task</div>`)
+ */
+function getLeadingCheckbox(nodes: HtmlNode[]): HtmlElement | null {
+    for (const node of nodes) {
+        if (node.type === 'text') {
+            if (node.text.trim()) return null;
+            continue;
+        }
+        if (isCheckbox(node)) return node;
+        if (node.tag === 'br' || node.tag === 'img') return null;
+        const nested = getLeadingCheckbox(node.children);
+        if (nested) return nested;
+        if (getTextContent(node).trim()) return null;
+    }
+    return null;
+}
+
+function renderInline(nodes: HtmlNode[], options: MarkdownOptions): string {
+    return nodes.map(node => renderInlineNode(node, options)).join('');
+}
+
+function renderInlineNode(node: HtmlNode, options: MarkdownOptions): string {
+    if (node.type === 'text') {
+        return escapeMarkdown(node.text.replace(/[\s\u00a0]+/g, ' '));
+    }
+
+    const { tag, attrs } = node;
+    const content = () => renderInline(node.children, options);
+
+    switch (tag) {
+        case 'br':
+            return LINE_BREAK;
+
+        case 'strong':
+        case 'b':
+            return wrap(content(), '**');
+
+        case 'em':
+        case 'i':
+            return wrap(content(), '*');
+
+        case 's':
+        case 'del':
+        case 'strike':
+            return wrap(content(), '~~');
+
+        case 'mark':
+            return wrap(content(), '==');
+
+        case 'u':
+        case 'sub':
+        case 'sup':
+            return wrap(content(), `<${tag}>`, `</${tag}>`);
+
+        case 'code':
+            return renderInlineCode(getTextContent(node));
+
+        case 'a':
+            return renderLink(node, content(), options);
+
+        case 'img': {
+            const src = attrs.src;
+            if (!src) return '';
+            return `![${escapeMarkdown(attrs.alt ?? '')}](${formatDestination(resolve(src, options))})`;
+        }
+
+        case 'audio':
+        case 'video': {
+            const source = attrs.src ?? findElement(node.children, child => child.tag === 'source')?.attrs.src;
+            if (!source) return '';
+            const label = attrs.title ?? source.split('/').pop()?.split('?')[0] ?? tag;
+            return `[${escapeMarkdown(decodeSafely(label))}](${formatDestination(resolve(source, options))})`;
+        }
+
+        case 'input':
+            return isCheckbox(node) ? `[${attrs.checked !== undefined ? 'x' : ' '}] ` : '';
+
+        case 'span':
+            if (attrs['data-type'] === 'note-link') {
+                const title = getTextContent(node).trim();
+                return title ? `[[${title.replace(/[[\]|]/g, '')}]]` : '';
+            }
+            if (hasStyle(node, '-evernote-highlight', 'true')) {
+                return wrap(content(), '==');
+            }
+            return content();
+
+        default:
+            // Block elements nested in inline content (e.g. <div> inside <span>) flatten to text
+            return content();
+    }
+}
+
+/**
+ * Wrap content in emphasis markers, keeping surrounding whitespace outside them
+ */
+function wrap(content: string, open: string, close: string = open): string {
+    const match = content.match(/^(\s*)([\s\S]*?)(\s*)$/);
+    const [, leading = '', inner = '', trailing = ''] = match ?? [];
+    if (!inner.replaceAll(LINE_BREAK, '').trim()) return content;
+    return `${leading}${open}${inner}${close}${trailing}`;
+}
+
+function renderInlineCode(text: string): string {
+    const code = text.replace(/\s+/g, ' ');
+    if (!code) return '';
+    const longestRun = Math.max(0, ...(code.match(/`+/g) ?? []).map(run => run.length));
+    const fence = '`'.repeat(longestRun + 1);
+    const padding = code.startsWith('`') || code.endsWith('`') ? ' ' : '';
+    return `${fence}${padding}${code}${padding}${fence}`;
+}
+
+function renderLink(element: HtmlElement, content: string, options: MarkdownOptions): string {
+    const href = element.attrs.href?.trim();
+    if (!href || href.startsWith('#') || href.toLowerCase().startsWith('javascript:')) {
+        return content;
+    }
+
+    const destination = resolve(href, options);
+    const text = content.replaceAll(LINE_BREAK, ' ').trim();
+    if (!text) return `<${destination}>`;
+    if (text === escapeMarkdown(href) && /^[a-z][a-z0-9+.-]*:\S+$/i.test(href)) return `<${href}>`;
+    return `[${text}](${formatDestination(destination)})`;
+}
+
+function resolve(url: string, options: MarkdownOptions): string {
+    return options.resolveUrl?.(url) ?? url;
+}
+
+/**
+ * Link destinations with spaces or parentheses need the angle-bracket form
+ */
+function formatDestination(url: string): string {
+    return /[\s()<>]/.test(url) ? `<${url.replace(/[<>]/g, encodeURIComponent)}>` : url;
+}
+
+function decodeSafely(text: string): string {
+    try {
+        return decodeURIComponent(text);
+    } catch {
+        return text;
+    }
+}
+
+function renderCodeBlock(element: HtmlElement): string {
+    const code = findElement(element.children, child => child.tag === 'code');
+    const language = (code?.attrs.class ?? '').match(/(?:^|\s)language-([\w+-]+)/)?.[1] ?? '';
+    const text = getTextContent(element).replace(/\u00a0/g, ' ').replace(/\n$/, '');
+    const longestRun = Math.max(0, ...(text.match(/^`{3,}/gm) ?? []).map(run => run.length));
+    const fence = '`'.repeat(Math.max(3, longestRun + 1));
+    return `${fence}${language}\n${text}\n${fence}`;
+}
+
+/**
+ * Whether an element is a task item; the checkbox state lives on `data-checked` or a nested input
+ */
+function getTaskState(item: HtmlElement, list: HtmlElement): boolean | null {
+    if (item.attrs['data-checked'] !== undefined) {
+        return item.attrs['data-checked'] === 'true';
+    }
+
+    const checkbox = item.attrs['data-type'] === 'taskItem' || list.attrs['data-type'] === 'taskList'
+        ? findElement(item.children, isCheckbox)
+        : getLeadingCheckbox(item.children);
+    if (checkbox) return checkbox.attrs.checked !== undefined;
+
+    return item.attrs['data-type'] === 'taskItem' ? false : null;
+}
+
+function removeCheckboxes(nodes: HtmlNode[]): HtmlNode[] {
+    return nodes
+        .filter(node => !isCheckbox(node))
+        .map(node => (node.type === 'element' ? { ...node, children: removeCheckboxes(node.children) } : node));
+}
+
+function renderList(list: HtmlElement, options: MarkdownOptions): string {
+    const ordered = list.tag === 'ol';
+    let number = ordered ? parseInt(list.attrs.start ?? '1', 10) || 1 : 0;
+    const items: string[] = [];
+
+    for (const child of list.children) {
+        // Stray content between items (or a nested list directly inside the list) joins the previous item
+        if (child.type !== 'element' || child.tag !== 'li') {
+            const extra = child.type === 'element' && (child.tag === 'ul' || child.tag === 'ol')
+                ? [renderList(child, options)]
+                : renderBlocks([child], options);
+            const content = extra.filter(Boolean).join('\n');
+            if (content && items.length > 0) {
+                items[items.length - 1] += `\n${indent(content, ordered ? 3 : 2)}`;
+            }
+            continue;
+        }
+
+        const taskState = getTaskState(child, list);
+        const marker = ordered ? `${number++}.` : '-';
+        const prefix = taskState === null ? `${marker} ` : `${marker} [${taskState ? 'x' : ' '}] `;
+        const children = taskState === null ? child.children : removeCheckboxes(child.children);
+
+        const blocks = renderBlocks(children, options);
+        const [first = '', ...rest] = blocks;
+        let item = `${prefix}${first}`.trimEnd();
+        for (const block of rest) {
+            const separator = /^(?:[-*+]|\d+\.) /.test(block) ? '\n' : '\n\n';
+            item += `${separator}${indent(block, marker.length + 1)}`;
+        }
+        items.push(item);
+    }
+
+    return items.join('\n');
+}
+
+function indent(text: string, width: number): string {
+    const padding = ' '.repeat(width);
+    return text.split('\n').map(line => (line ? padding + line : line)).join('\n');
+}
+
+function renderTable(table: HtmlElement, options: MarkdownOptions): string | null {
+    const rows: HtmlElement[] = [];
+    const collectRows = (nodes: HtmlNode[]) => {
+        for (const node of nodes) {
+            if (node.type !== 'element') continue;
+            if (node.tag === 'tr') rows.push(node);
+            else if (node.tag === 'thead' || node.tag === 'tbody' || node.tag === 'tfoot') collectRows(node.children);
+        }
+    };
+    collectRows(table.children);
+
+    const cells = rows
+        .map(row => row.children.filter((cell): cell is HtmlElement =>
+            cell.type === 'element' && (cell.tag === 'td' || cell.tag === 'th')
+        ))
+        .filter(row => row.length > 0)
+        .map(row => row.map(cell => renderTableCell(cell, options)));
+    if (cells.length === 0) return null;
+
+    const columns = Math.max(...cells.map(row => row.length));
+    const formatRow = (row: string[]) =>
+        `| ${Array.from({ length: columns }, (_, index) => row[index] ?? '').join(' | ')} |`;
+
+    const [header = [], ...body] = cells;
+    return [
+        formatRow(header),
+        `| ${Array.from({ length: columns }, () => '---').join(' | ')} |`,
+        ...body.map(formatRow),
+    ].join('\n');
+}
+
+/**
+ * Table cells must stay on one line; paragraphs and breaks become <br>
+ */
+function renderTableCell(cell: HtmlElement, options: MarkdownOptions): string {
+    return renderBlocks(cell.children, options)
+        .map(block => block.replace(/\\\n|\n/g, '<br>'))
+        .join('<br>')
+        .replace(/(?<!\\)\|/g, '\\|');
+}
+
+function trimLineBreaks(text: string): string {
+    return text.replace(new RegExp(`^[\\s${LINE_BREAK}]+|[\\s${LINE_BREAK}]+$`, 'g'), '');
+}
+
+/**
+ * Join blocks with blank lines, keeping consecutive task items in one list
+ */
+function joinBlocks(blocks: string[]): string {
+    const isTaskItem = (block: string) => /^- \[[ x]\] /.test(block) && !block.includes('\n\n');
+
+    return blocks.reduce((markdown, block, index) => {
+        if (index === 0) return block;
+        const separator = isTaskItem(blocks[index - 1]!) && isTaskItem(block) ? '\n' : '\n\n';
+        return `${markdown}${separator}${block}`;
+    }, '');
+}
@@ -0,0 +1,62 @@
+/**
+ * Export Note Source
+ *
+ * Loads the notes of a notebook for export in batches, with the tags and
+ * attachments every export format needs.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+
+/** Notes loaded per query while streaming */
+const NOTE_BATCH_SIZE = 50;
+
+const exportNoteInclude = {
+    tags: { include: { tag: { select: { name: true } } } },
+    attachments: true,
+} satisfies Prisma.NoteInclude;
+
+export interface ExportNotebook {
+    id: string;
+    name: string;
+}
+
+export type ExportNote = Prisma.NoteGetPayload<{ include: typeof exportNoteInclude }>;
+
+export type ExportAttachment = ExportNote['attachments'][number];
+
+/**
+ * Iterate the notes of a notebook (excluding trash) in stable order
+ */
+export async function* iterateNotebookNotes(notebookId: string): AsyncGenerator<ExportNote> {
+    let cursor: string | undefined;
+
+    while (true) {
+        const notes = await prisma.note.findMany({
+            where: { notebookId, isTrash: false },
+            include: exportNoteInclude,
+            orderBy: { id: 'asc' },
+            take: NOTE_BATCH_SIZE,
+            ...(cursor && { skip: 1, cursor: { id: cursor } }),
+        });
+
+        yield* notes;
+
+        if (notes.length < NOTE_BATCH_SIZE) return;
+        cursor = notes[notes.length - 1]!.id;
+    }
+}
+
+/**
+ * Whether a URL in note content points at a stored attachment
+ */
+export function referencesAttachment(url: string, attachment: Pick<ExportAttachment, 'id' | 'storageKey'>): boolean {
+    if (url.includes(`/api/attachments/${attachment.id}`)) return true;
+    let decoded = url;
+    try {
+        decoded = decodeURIComponent(url);
+    } catch {
+        // Keep the raw URL
+    }
+    return decoded.includes(attachment.storageKey);
+}
@@ -0,0 +1,177 @@
+/**
+ * ZIP Writer
+ *
+ * Streams a ZIP archive entry by entry so large exports never have to be
+ * held in memory at once. Entries are deflated when that saves space and
+ * stored otherwise. File names are written as UTF-8. ZIP64 is not
+ * supported, so archives are limited to 65,535 entries and 4 GiB.
+ */
+
+import { deflateRawSync } from 'zlib';
+
+export interface ZipEntry {
+    /** Path inside the archive, using `/` separators */
+    path: string;
+    data: Uint8Array | string;
+    modifiedAt?: Date;
+}
+
+interface CentralDirectoryRecord {
+    name: Buffer;
+    method: number;
+    time: number;
+    date: number;
+    crc: number;
+    compressedSize: number;
+    size: number;
+    offset: number;
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const VERSION = 20;
+const UTF8_FLAG = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const MAX_ENTRIES = 0xffff;
+const MAX_SIZE = 0xffffffff;
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+/**
+ * CRC-32 checksum as used by ZIP
+ */
+export function crc32(data: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = CRC_TABLE[(crc ^ data[i]!) & 0xff]! ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Encode a date in MS-DOS format (local time, two-second precision, 1980 onwards)
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+    const year = Math.max(1980, date.getFullYear());
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+        date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    };
+}
+
+function encodeEntry(entry: ZipEntry, offset: number): { chunk: Buffer; record: CentralDirectoryRecord } {
+    const name = Buffer.from(entry.path.replace(/^\/+/, ''), 'utf8');
+    const data = typeof entry.data === 'string' ? Buffer.from(entry.data, 'utf8') : Buffer.from(entry.data);
+    const deflated = deflateRawSync(data);
+    const useDeflate = deflated.length < data.length;
+    const body = useDeflate ? deflated : data;
+
+    if (data.length > MAX_SIZE || offset + body.length > MAX_SIZE) {
+        throw new Error('Export is too large for a ZIP archive');
+    }
+
+    const { time, date } = toDosDateTime(entry.modifiedAt ?? new Date());
+    const record: CentralDirectoryRecord = {
+        name,
+        method: useDeflate ? METHOD_DEFLATE : METHOD_STORE,
+        time,
+        date,
+        crc: crc32(data),
+        compressedSize: body.length,
+        size: data.length,
+        offset,
+    };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+    header.writeUInt16LE(VERSION, 4);
+    header.writeUInt16LE(UTF8_FLAG, 6);
+    header.writeUInt16LE(record.method, 8);
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    header.writeUInt32LE(record.crc, 14);
+    header.writeUInt32LE(record.compressedSize, 18);
+    header.writeUInt32LE(record.size, 22);
+    header.writeUInt16LE(name.length, 26);
+    header.writeUInt16LE(0, 28);
+
+    return { chunk: Buffer.concat([header, name, body]), record };
+}
+
+function encodeCentralDirectory(records: CentralDirectoryRecord[], offset: number): Buffer {
+    const headers = records.map(record => {
+        const header = Buffer.alloc(46);
+        header.writeUInt32LE(CENTRAL_DIRECTORY_HEADER, 0);
+        header.writeUInt16LE(VERSION, 4);
+        header.writeUInt16LE(VERSION, 6);
+        header.writeUInt16LE(UTF8_FLAG, 8);
+        header.writeUInt16LE(record.method, 10);
+        header.writeUInt16LE(record.time, 12);
+        header.writeUInt16LE(record.date, 14);
+        header.writeUInt32LE(record.crc, 16);
+        header.writeUInt32LE(record.compressedSize, 20);
+        header.writeUInt32LE(record.size, 24);
+        header.writeUInt16LE(record.name.length, 28);
+        // Extra field, comment, disk number, internal and external attributes stay zero
+        header.writeUInt32LE(record.offset, 42);
+        return Buffer.concat([header, record.name]);
+    });
+
+    const directory = Buffer.concat(headers);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+    end.writeUInt16LE(records.length, 8);
+    end.writeUInt16LE(records.length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([directory, end]);
+}
+
+/**
+ * Create a ZIP archive stream from a (possibly lazy) sequence of entries.
+ * Entries are pulled one at a time as the consumer reads.
+ */
+export function createZipStream(entries: AsyncIterable<ZipEntry> | Iterable<ZipEntry>): ReadableStream<Uint8Array> {
+    const iterator = Symbol.asyncIterator in entries
+        ? entries[Symbol.asyncIterator]()
+        : (async function* () { yield* entries; })();
+    const records: CentralDirectoryRecord[] = [];
+    let offset = 0;
+
+    return new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            const next = await iterator.next();
+
+            if (next.done) {
+                controller.enqueue(new Uint8Array(encodeCentralDirectory(records, offset)));
+                controller.close();
+                return;
+            }
+
+            if (records.length >= MAX_ENTRIES) {
+                throw new Error('Export has too many files for a ZIP archive');
+            }
+
+            const { chunk, record } = encodeEntry(next.value, offset);
+            records.push(record);
+            offset += chunk.length;
+            controller.enqueue(new Uint8Array(chunk));
+        },
+        async cancel() {
+            await iterator.return?.();
+        },
+    });
+}
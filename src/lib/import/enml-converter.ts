@@ -5,11 +5,14 @@
  * ENML is similar to XHTML but includes custom elements like:
  * - <en-note>: Root element (becomes <div>)
  * - <en-media>: Embedded resources (becomes <img>, <audio>, <video>, or <a>)
- * - <en-todo>: Checkboxes (becomes styled checkbox)
- * - <en-crypt>: Encrypted content (becomes placeholder)
+ * - <en-todo>: Checkboxes (becomes editor task list items)
+ * - <en-crypt>: Encrypted content (kept encrypted for the editor to decrypt)
  */
 
 import type { ResourceHashMap } from '@/types/enex';
+import { decodeEntities } from '@/lib/export/html-tree';
+import { renderEnCrypt } from '@/lib/encryption/en-crypt';
+import { renderTaskList, type TaskItemMarkup } from '@/lib/tasks/task-markup';
 
 /**
  * Options for ENML to HTML conversion.
@@ -47,10 +50,10 @@ export function convertEnmlToHtml(
     // Convert <en-media> to appropriate HTML elements
     html = convertEnMedia(html, resourceMap);
 
-    // Convert <en-todo> to checkboxes
+    // Convert <en-todo> to task lists
     html = convertEnTodo(html);
 
-    // Convert <en-crypt> to placeholder
+    // Keep <en-crypt> ciphertext for decryption in the editor
     html = convertEnCrypt(html);
 
     // Remove prohibited ENML elements that shouldn't appear in output
@@ -131,32 +134,70 @@ function convertEnMedia(html: string, resourceMap: ResourceHashMap): string {
     });
 }
 
+const EN_TODO = '<en-todo\\b[^>]*?\\/?>(?:<\\/en-todo>)?';
+
+/** A <div> or <p> (other than the note root) that starts with a to-do */
+const TODO_BLOCK = `<(div|p)\\b((?:(?!class="en-note")[^>])*)>\\s*(${EN_TODO}(?:(?!<\\/?(?:div|p)\\b)[\\s\\S])*?)<\\/\\1>`;
+
+/**
+ * Read a to-do from content that starts with <en-todo>.
+ */
+function parseTodo(content: string): TaskItemMarkup | null {
+    const match = content.match(/^\s*<en-todo\b([^>]*?)\/?>(?:<\/en-todo>)?([\s\S]*)$/i);
+    if (!match) return null;
+
+    return {
+        checked: /checked=["']true["']/i.test(match[1]!),
+        html: match[2]!.replace(/(?:\s*<br\s*\/?>)+\s*$/i, '').trim(),
+    };
+}
+
 /**
- * Convert <en-todo> elements to HTML checkboxes.
+ * Convert <en-todo> elements to editor task lists.
+ * - Lists where every item starts with a to-do become task lists
+ * - Consecutive lines that start with a to-do become one task list
+ * - To-dos in the middle of text can't be task items and become ☐/☑
  */
 function convertEnTodo(html: string): string {
-    // Match en-todo elements
-    const enTodoRegex = /<en-todo([^>]*)\/?>(?:<\/en-todo>)?/gi;
+    let converted = html.replace(/<ul\b[^>]*>((?:(?!<\/?ul\b)[\s\S])*?)<\/ul>/gi, (match, inner: string) => {
+        const items = [...inner.matchAll(/<li\b[^>]*>([\s\S]*?)<\/li>/gi)];
+        const todos = items.map(([, content]) => parseTodo(content!));
+        const strayContent = inner.replace(/<li\b[^>]*>[\s\S]*?<\/li>/gi, '').trim();
 
-    return html.replace(enTodoRegex, (_match, attributes) => {
-        const checkedMatch = attributes.match(/checked=["']true["']/i);
-        const isChecked = !!checkedMatch;
+        if (items.length === 0 || strayContent || todos.some(todo => !todo)) return match;
+        return renderTaskList(todos as TaskItemMarkup[]);
+    });
 
-        return `<input type="checkbox" class="en-todo" ${isChecked ? 'checked disabled' : 'disabled'} />`;
+    converted = converted.replace(new RegExp(`(?:${TODO_BLOCK}\\s*)+`, 'gi'), (run) => {
+        const todos = [...run.matchAll(new RegExp(TODO_BLOCK, 'gi'))].map(match => parseTodo(match[3]!)!);
+        return renderTaskList(todos);
     });
+
+    return converted.replace(/<en-todo\b([^>]*?)\/?>(?:<\/en-todo>)?/gi, (_match, attributes: string) =>
+        /checked=["']true["']/i.test(attributes) ? '☑ ' : '☐ '
+    );
 }
 
 /**
- * Convert <en-crypt> elements to placeholders.
+ * Convert <en-crypt> elements to encrypted content spans, keeping the
+ * ciphertext and the attributes needed to decrypt it.
  */
 function convertEnCrypt(html: string): string {
-    // Match en-crypt elements (they contain encrypted content)
-    const enCryptRegex = /<en-crypt[^>]*>[\s\S]*?<\/en-crypt>/gi;
-
-    return html.replace(
-        enCryptRegex,
-        '<div class="en-crypt-placeholder">🔒 [Encrypted content - not imported]</div>'
-    );
+    const enCryptRegex = /<en-crypt([^>]*)>([\s\S]*?)<\/en-crypt>/gi;
+
+    return html.replace(enCryptRegex, (_match, attributes: string, ciphertext: string) => {
+        const attribute = (name: string) => {
+            const match = attributes.match(new RegExp(`\\b${name}=(?:"([^"]*)"|'([^']*)')`, 'i'));
+            return match ? decodeEntities(match[1] ?? match[2] ?? '') : null;
+        };
+
+        return renderEnCrypt({
+            cipher: attribute('cipher') || 'RC2',
+            length: parseInt(attribute('length') ?? '', 10) || 64,
+            hint: attribute('hint'),
+            ciphertext: ciphertext.replace(/<!\[CDATA\[|\]\]>|\s+/g, ''),
+        });
+    });
 }
 
 /**
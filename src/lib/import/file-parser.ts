@@ -1,5 +1,6 @@
 
 import { parseEnexBuffer } from './enex-parser';
+import { parseMarkdownFile, parseMarkdownVault } from './markdown-parser';
 import type { EnexExport, EnexNote, EnexResource } from '@/types/enex';
 import * as mammoth from 'mammoth';
 
@@ -18,6 +19,14 @@ export async function parseFile(options: FileParseOptions): Promise<EnexExport>
         return parseEnexBuffer(buffer);
     }
 
+    // Handle Markdown files and zipped Markdown vaults
+    if (/\.(md|markdown)$/i.test(filename)) {
+        return parseMarkdownFile(options);
+    }
+    if (filename.toLowerCase().endsWith('.zip')) {
+        return parseMarkdownVault(buffer);
+    }
+
     let content = '';
     let resources: EnexResource[] = [];
     const sourceApp = 'Evernote Clone Import';
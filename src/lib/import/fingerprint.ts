@@ -0,0 +1,50 @@
+/**
+ * Import Fingerprints
+ *
+ * Identifies a note across exports so re-importing the same file can be
+ * detected. The fingerprint combines the note's original created time, its
+ * title and a hash of its content as exported, so a note only counts as a
+ * duplicate if none of those changed.
+ */
+
+import { createHash } from 'crypto';
+import type { EnexNote } from '@/types/enex';
+import { parseEvernoteDate } from '@/lib/utils';
+
+/**
+ * What to do with a note whose fingerprint matches an existing note.
+ * - skip: leave the existing note alone and don't import the copy
+ * - overwrite: replace the existing note's content, tags and attachments
+ * - keep-both: import the copy alongside the existing note
+ */
+export type DuplicateMode = 'skip' | 'overwrite' | 'keep-both';
+
+export const DUPLICATE_MODES: readonly DuplicateMode[] = ['skip', 'overwrite', 'keep-both'];
+
+export function isDuplicateMode(value: unknown): value is DuplicateMode {
+    return DUPLICATE_MODES.includes(value as DuplicateMode);
+}
+
+/**
+ * Normalize exported content so line endings and the XML prologue don't
+ * change the hash.
+ */
+function normalizeContent(content: string): string {
+    return content
+        .replace(/<\?xml[^?]*\?>/gi, '')
+        .replace(/<!DOCTYPE[^>]*>/gi, '')
+        .replace(/\r\n?/g, '\n')
+        .trim();
+}
+
+/**
+ * Compute the fingerprint of a note from an export
+ */
+export function computeImportFingerprint(note: Pick<EnexNote, 'title' | 'content' | 'created'>): string {
+    const created = parseEvernoteDate(note.created)?.toISOString() ?? note.created ?? '';
+    const contentHash = createHash('sha256').update(normalizeContent(note.content)).digest('hex');
+
+    return createHash('sha256')
+        .update([created, note.title.trim(), contentHash].join('\n'))
+        .digest('hex');
+}
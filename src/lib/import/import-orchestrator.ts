@@ -3,25 +3,33 @@
  * 
  * Coordinates the full ENEX import process:
  * 1. Parse ENEX file
- * 2. Create or get default notebook
+ * 2. Create or get default notebook (and per-note notebooks/stacks for vaults)
  * 3. Process notes in batches
  * 4. Extract and store resources
  * 5. Convert ENML to HTML
- * 6. Create database records
- * 7. Track progress and handle errors
+ * 6. Create database records, or skip/overwrite notes imported before
+ * 7. Resolve [[links]] between the imported notes
+ * 8. Track progress and handle errors
  */
 
+import type { ImportJob, Prisma } from '@prisma/client';
 import { prisma } from '@/lib/db';
 import { parseEnexString, parseEnexBuffer } from './enex-parser';
 import { convertEnmlToHtml, extractPlainText } from './enml-converter';
 import { extractResources } from './resource-extractor';
+import { computeImportFingerprint, type DuplicateMode } from './fingerprint';
+import { getStorageService } from '@/lib/storage';
+import { recordRevision } from '@/lib/revisions';
+import { resolveNoteLinkTitles, syncNoteLinks } from '@/lib/links';
+import { countTasks, syncNoteTasks } from '@/lib/tasks';
+import { recordDeletions } from '@/lib/sync';
 import type { EnexNote, EnexExport } from '@/types/enex';
 import { parseEvernoteDate } from '@/lib/utils';
 
 /**
  * Import job status.
  */
-export type ImportStatus = 'pending' | 'processing' | 'completed' | 'failed';
+export type ImportStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
 
 /**
  * Progress callback for import operations.
@@ -36,6 +44,8 @@ export interface ImportProgress {
     totalNotes: number;
     imported: number;
     failed: number;
+    skipped: number;
+    overwritten: number;
     currentNote?: string;
     errors: string[];
 }
@@ -56,6 +66,13 @@ export interface ImportOptions {
     onProgress?: ImportProgressCallback;
     /** Batch size for processing notes */
     batchSize?: number;
+    /** How to handle notes that were imported before (defaults to skip) */
+    duplicateMode?: DuplicateMode;
+    /**
+     * Checked between batches. Returning true stops the run with the job
+     * still processing, to be resumed from its checkpoint later.
+     */
+    shouldPause?: () => boolean | Promise<boolean>;
 }
 
 /**
@@ -67,10 +84,28 @@ export interface ImportResult {
     totalNotes: number;
     imported: number;
     failed: number;
+    skipped: number;
+    overwritten: number;
     errors: string[];
     notebookId: string;
 }
 
+/**
+ * Notes to import, read a batch at a time so a resumed job only loads the
+ * notes after its checkpoint.
+ */
+export interface ImportNoteSource {
+    totalNotes: number;
+    /** Notes from index `start` up to, not including, `end` */
+    readNotes(start: number, end: number): Promise<EnexNote[]>;
+}
+
+/**
+ * Per-note messages (errors and duplicate decisions) kept on a job.
+ * Counts stay exact past this; only the messages are dropped.
+ */
+const MAX_JOB_MESSAGES = 1000;
+
 /**
  * Import ENEX content into the database.
  */
@@ -115,6 +150,8 @@ export async function importEnex(
             totalNotes: 0,
             imported: 0,
             failed: 0,
+            skipped: 0,
+            overwritten: 0,
             errors: [errorMessage],
             notebookId: '',
         };
@@ -159,15 +196,38 @@ export async function importParsedData(
             totalNotes: 0,
             imported: 0,
             failed: 0,
+            skipped: 0,
+            overwritten: 0,
             errors: [errorMessage],
             notebookId: '',
         };
     }
 }
 
-async function importFromExport(
+/**
+ * Import the notes of a parsed export into a job, starting at the job's
+ * checkpoint.
+ */
+export async function importFromExport(
     enexExport: EnexExport,
-    importJob: any,
+    importJob: ImportJob,
+    options: ImportOptions
+): Promise<ImportResult> {
+    return importFromSource({
+        totalNotes: enexExport.notes.length,
+        readNotes: async (start, end) => enexExport.notes.slice(start, end),
+    }, importJob, options);
+}
+
+/**
+ * Import the notes of a source into a job, starting at the job's
+ * checkpoint. Progress and the checkpoint are saved after every note, so a
+ * run that stops (paused, cancelled or crashed) can be resumed with the
+ * same source and the job as it was last saved.
+ */
+export async function importFromSource(
+    source: ImportNoteSource,
+    importJob: ImportJob,
     options: ImportOptions
 ): Promise<ImportResult> {
     const {
@@ -175,15 +235,23 @@ async function importFromExport(
         notebookId,
         notebookName = 'Imported Notes',
         onProgress,
+        shouldPause,
         batchSize = 10,
+        duplicateMode = 'skip',
     } = options;
 
     const progress: ImportProgress = {
         status: 'processing',
-        totalNotes: enexExport.notes.length,
-        imported: 0,
-        failed: 0,
-        errors: [],
+        totalNotes: source.totalNotes,
+        imported: importJob.imported,
+        failed: importJob.failed,
+        skipped: importJob.skipped,
+        overwritten: importJob.overwritten,
+        errors: Array.isArray(importJob.errors) ? importJob.errors as string[] : [],
+    };
+
+    const report = (message: string) => {
+        if (progress.errors.length < MAX_JOB_MESSAGES) progress.errors.push(message);
     };
 
     const updateProgress = (updates: Partial<ImportProgress>) => {
@@ -191,85 +259,135 @@ async function importFromExport(
         onProgress?.(progress);
     };
 
-    updateProgress({ totalNotes: enexExport.notes.length });
+    updateProgress({ totalNotes: source.totalNotes });
+
+    const startedAt = importJob.startedAt ?? new Date();
 
     // Update job with total notes
     await prisma.importJob.update({
         where: { id: importJob.id },
         data: {
             status: 'processing',
-            totalNotes: enexExport.notes.length,
-            startedAt: new Date(),
+            totalNotes: source.totalNotes,
+            startedAt,
         },
     });
 
-    if (enexExport.notes.length === 0) {
-        await prisma.importJob.update({
+    // Notebooks are created on first use: vault notes carry their own folder
+    const notebooks = new Map<string, Promise<{ id: string }>>();
+    const resolveNotebook = (target: EnexNote['notebook']) => {
+        const key = target ? `${target.stack ?? ''}/${target.name}` : '';
+        let notebook = notebooks.get(key);
+        if (!notebook) {
+            notebook = target
+                ? getOrCreateStackNotebook(userId, target.name, target.stack)
+                : getOrCreateNotebook(userId, notebookId, notebookName);
+            notebooks.set(key, notebook);
+        }
+        return notebook;
+    };
+
+    let resultNotebookId = notebookId || '';
+    const result = (status: ImportStatus): ImportResult => ({
+        jobId: importJob.id,
+        status,
+        totalNotes: source.totalNotes,
+        imported: progress.imported,
+        failed: progress.failed,
+        skipped: progress.skipped,
+        overwritten: progress.overwritten,
+        errors: progress.errors,
+        notebookId: resultNotebookId,
+    });
+
+    // Process notes in batches, starting from the checkpoint
+    for (let i = importJob.cursor; i < source.totalNotes; i += batchSize) {
+        const current = await prisma.importJob.findUnique({
             where: { id: importJob.id },
-            data: {
-                status: 'completed',
-                completedAt: new Date(),
-            },
+            select: { status: true },
         });
+        if (current?.status === 'cancelled') {
+            updateProgress({ status: 'cancelled', currentNote: undefined });
+            return result('cancelled');
+        }
+        if (i > importJob.cursor && await shouldPause?.()) {
+            updateProgress({ currentNote: undefined });
+            return result('processing');
+        }
 
-        return {
-            jobId: importJob.id,
-            status: 'completed',
-            totalNotes: 0,
-            imported: 0,
-            failed: 0,
-            errors: [],
-            notebookId: notebookId || '',
-        };
-    }
-
-    // Get or create notebook
-    const notebook = await getOrCreateNotebook(userId, notebookId, notebookName);
+        const batch = await source.readNotes(i, Math.min(i + batchSize, source.totalNotes));
 
-    // Process notes in batches
-    for (let i = 0; i < enexExport.notes.length; i += batchSize) {
-        const batch = enexExport.notes.slice(i, i + batchSize);
+        for (const [offset, note] of batch.entries()) {
+            const cursor = i + offset + 1;
 
-        for (const note of batch) {
             try {
                 updateProgress({ currentNote: note.title });
-                await importNote(note, {
-                    userId,
-                    notebookId: notebook.id,
-                    importJobId: importJob.id,
-                });
-
-                progress.imported++;
-                updateProgress({});
-
-                // Update job progress
-                await prisma.importJob.update({
-                    where: { id: importJob.id },
-                    data: { imported: progress.imported },
-                });
+
+                const fingerprint = computeImportFingerprint(note);
+                const duplicate = duplicateMode === 'keep-both'
+                    ? null
+                    : await findDuplicateNote(userId, note, fingerprint);
+
+                if (duplicate && duplicateMode === 'skip') {
+                    progress.skipped++;
+                    report(`Skipped "${note.title}": already imported`);
+                } else if (duplicate) {
+                    await importNote(note, {
+                        userId,
+                        notebookId: duplicate.notebookId,
+                        importJobId: importJob.id,
+                        fingerprint,
+                        existingNoteId: duplicate.id,
+                    });
+                    progress.overwritten++;
+                    report(`Overwrote "${note.title}" with the imported version`);
+                } else {
+                    const notebook = await resolveNotebook(note.notebook);
+                    // Report the default notebook, or the first folder used
+                    if (!note.notebook || !resultNotebookId) resultNotebookId = notebook.id;
+                    await importNote(note, {
+                        userId,
+                        notebookId: notebook.id,
+                        importJobId: importJob.id,
+                        fingerprint,
+                    });
+                    progress.imported++;
+                }
             } catch (error) {
                 progress.failed++;
                 const errorMessage = `Failed to import "${note.title}": ${error instanceof Error ? error.message : 'Unknown error'
                     }`;
-                progress.errors.push(errorMessage);
-                updateProgress({});
-
-                // Update job with error
-                await prisma.importJob.update({
-                    where: { id: importJob.id },
-                    data: {
-                        failed: progress.failed,
-                        errors: progress.errors,
-                    },
-                });
-
+                report(errorMessage);
                 console.error(errorMessage);
             }
+
+            updateProgress({});
+
+            // Update job progress and checkpoint
+            await prisma.importJob.update({
+                where: { id: importJob.id },
+                data: {
+                    imported: progress.imported,
+                    failed: progress.failed,
+                    skipped: progress.skipped,
+                    overwritten: progress.overwritten,
+                    errors: progress.errors,
+                    cursor,
+                },
+            });
         }
     }
 
+    try {
+        await linkImportedNotes(userId, startedAt);
+    } catch (error) {
+        console.error('Failed to resolve links between imported notes:', error);
+    }
+
     // Mark job as completed
-    const finalStatus: ImportStatus = progress.failed === enexExport.notes.length ? 'failed' : 'completed';
+    const finalStatus: ImportStatus = source.totalNotes > 0 && progress.failed === source.totalNotes
+        ? 'failed'
+        : 'completed';
 
     await prisma.importJob.update({
         where: { id: importJob.id },
@@ -281,15 +399,7 @@ async function importFromExport(
 
     updateProgress({ status: finalStatus, currentNote: undefined });
 
-    return {
-        jobId: importJob.id,
-        status: finalStatus,
-        totalNotes: enexExport.notes.length,
-        imported: progress.imported,
-        failed: progress.failed,
-        errors: progress.errors,
-        notebookId: notebook.id,
-    };
+    return result(finalStatus);
 }
 
 /**
@@ -323,6 +433,120 @@ async function getOrCreateNotebook(
     });
 }
 
+/**
+ * Get or create a notebook for a vault folder, inside a stack when given.
+ */
+async function getOrCreateStackNotebook(userId: string, name: string, stackName?: string) {
+    let stackId: string | null = null;
+
+    if (stackName) {
+        const stack = await prisma.stack.findFirst({ where: { userId, name: stackName } })
+            ?? await prisma.stack.create({ data: { userId, name: stackName } });
+        stackId = stack.id;
+    }
+
+    const existing = await prisma.notebook.findFirst({
+        where: { userId, name, stackId },
+    });
+    if (existing) return existing;
+
+    return prisma.notebook.create({
+        data: { name, userId, stackId },
+    });
+}
+
+/**
+ * Point [[Title]] links in notes imported since `since` at the notes
+ * imported alongside them, then record the links. Titles not in the import
+ * are left for syncNoteLinks to match against the user's existing notes.
+ */
+async function linkImportedNotes(userId: string, since: Date) {
+    const where = { notebook: { userId }, importedAt: { gte: since } };
+
+    const imported = await prisma.note.findMany({
+        where,
+        select: { id: true, title: true },
+        orderBy: { importedAt: 'asc' },
+    });
+
+    const idsByTitle = new Map<string, string>();
+    for (const note of imported) {
+        const key = note.title.trim().toLowerCase();
+        if (!idsByTitle.has(key)) idsByTitle.set(key, note.id);
+    }
+
+    const linking = await prisma.note.findMany({
+        where: {
+            ...where,
+            OR: [{ content: { contains: '[[' } }, { content: { contains: 'note-link' } }],
+        },
+        select: { id: true, content: true },
+    });
+
+    for (const note of linking) {
+        const content = resolveNoteLinkTitles(note.content, title => idsByTitle.get(title.toLowerCase()) ?? null);
+        if (content !== note.content) {
+            await prisma.note.update({ where: { id: note.id }, data: { content } });
+        }
+        await syncNoteLinks(note.id, userId, content);
+    }
+}
+
+/**
+ * Replace a previously imported note with its re-imported version. The old
+ * state is kept in revision history; tags and attachments are replaced.
+ */
+async function overwriteNote(userId: string, noteId: string, data: Prisma.NoteUpdateInput) {
+    const existing = await prisma.note.findUniqueOrThrow({
+        where: { id: noteId },
+        include: { attachments: { select: { id: true, storageKey: true } } },
+    });
+
+    const note = await prisma.note.update({ where: { id: noteId }, data });
+    await recordRevision(noteId, note, { previous: existing, source: 'import' });
+
+    await prisma.$transaction([
+        prisma.noteTag.deleteMany({ where: { noteId } }),
+        prisma.attachment.deleteMany({ where: { noteId } }),
+    ]);
+    await recordDeletions(userId, 'attachment', existing.attachments.map(attachment => attachment.id));
+
+    const storage = getStorageService();
+    for (const attachment of existing.attachments) {
+        try {
+            await storage.delete(attachment.storageKey);
+        } catch (error) {
+            console.warn(`Failed to delete replaced attachment ${attachment.storageKey}:`, error);
+        }
+    }
+
+    return note;
+}
+
+/**
+ * The note a re-imported note duplicates, if any. Notes imported before
+ * fingerprints were recorded have none, so those match on their original
+ * created time and title instead.
+ */
+async function findDuplicateNote(userId: string, enexNote: EnexNote, fingerprint: string) {
+    const evernoteCreated = enexNote.created ? parseEvernoteDate(enexNote.created) : null;
+
+    return prisma.note.findFirst({
+        where: {
+            isTrash: false,
+            notebook: { userId },
+            OR: [
+                { fingerprint },
+                ...(evernoteCreated
+                    ? [{ fingerprint: null, importSource: 'enex', evernoteCreated, title: enexNote.title }]
+                    : []),
+            ],
+        },
+        select: { id: true, notebookId: true },
+        orderBy: { createdAt: 'asc' },
+    });
+}
+
 /**
  * Import a single note.
  */
@@ -332,9 +556,12 @@ async function importNote(
         userId: string;
         notebookId: string;
         importJobId: string;
+        fingerprint: string;
+        /** Replace this note instead of creating a new one */
+        existingNoteId?: string;
     }
 ) {
-    const { userId, notebookId, importJobId } = options;
+    const { userId, notebookId, importJobId, fingerprint, existingNoteId } = options;
 
     // Generate a temporary note ID for resource storage
     const tempNoteId = `import_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -360,26 +587,36 @@ async function importNote(
     // Parse Evernote dates
     const evernoteCreated = enexNote.created ? parseEvernoteDate(enexNote.created) : null;
     const evernoteUpdated = enexNote.updated ? parseEvernoteDate(enexNote.updated) : null;
+    const reminderAt = parseEvernoteDate(enexNote.noteAttributes?.reminderTime);
+    const importedAt = new Date();
+
+    const noteData = {
+        title: enexNote.title,
+        content: htmlContent,
+        contentPlaintext: plainTextContent,
+        ...countTasks(htmlContent),
+        originalEnml: enexNote.content,
+        sourceUrl: enexNote.noteAttributes?.sourceUrl,
+        author: enexNote.noteAttributes?.author,
+        latitude: enexNote.noteAttributes?.latitude,
+        longitude: enexNote.noteAttributes?.longitude,
+        altitude: enexNote.noteAttributes?.altitude,
+        evernoteCreated,
+        evernoteUpdated,
+        reminderAt,
+        reminderDoneAt: parseEvernoteDate(enexNote.noteAttributes?.reminderDoneTime),
+        // Reminders that came due before the import were already handled in Evernote
+        reminderSentAt: reminderAt && reminderAt <= importedAt ? importedAt : null,
+        importedAt,
+        importSource: 'enex',
+        fingerprint,
+    };
 
-    // Create note in database
-    const note = await prisma.note.create({
-        data: {
-            title: enexNote.title,
-            content: htmlContent,
-            contentPlaintext: plainTextContent,
-            originalEnml: enexNote.content,
-            notebookId,
-            sourceUrl: enexNote.noteAttributes?.sourceUrl,
-            author: enexNote.noteAttributes?.author,
-            latitude: enexNote.noteAttributes?.latitude,
-            longitude: enexNote.noteAttributes?.longitude,
-            altitude: enexNote.noteAttributes?.altitude,
-            evernoteCreated,
-            evernoteUpdated,
-            importedAt: new Date(),
-            importSource: 'enex',
-        },
-    });
+    const note = existingNoteId
+        ? await overwriteNote(userId, existingNoteId, noteData)
+        : await prisma.note.create({
+            data: { ...noteData, notebookId },
+        });
 
     // Create attachments in database (linked to the actual note)
     if (extracted.length > 0) {
@@ -423,6 +660,11 @@ async function importNote(
         }
     }
 
+    // Index checklist items (an overwritten note may have lost its tasks)
+    if (existingNoteId || noteData.openTasks + noteData.completedTasks > 0) {
+        await syncNoteTasks(note.id, htmlContent);
+    }
+
     return note;
 }
 
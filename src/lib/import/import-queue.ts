@@ -0,0 +1,382 @@
+/**
+ * Import Queue
+ *
+ * Runs imports outside the upload request so large files don't hit the
+ * serverless request timeout:
+ * 1. The browser uploads the file straight to storage, then it is queued
+ *    as a pending ImportJob by its storage key
+ * 2. A worker claims the job with a time-limited lease
+ * 3. The first run parses the upload and stores each note on its own, so
+ *    later runs read only the notes after the checkpoint
+ * 4. Notes are imported from the job's checkpoint until the worker's time
+ *    budget runs out, then the lease is released for the next run
+ * 5. A worker that crashes never releases its lease; once it expires the
+ *    job is claimed again and resumes from the last checkpoint
+ */
+
+import { randomUUID } from 'crypto';
+import type { ImportJob } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { getStorageService, type StorageUploadUrl } from '@/lib/storage';
+import { parseFile } from './file-parser';
+import { importFromSource, type ImportNoteSource, type ImportResult } from './import-orchestrator';
+import { isDuplicateMode, type DuplicateMode } from './fingerprint';
+import type { EnexNote } from '@/types/enex';
+
+/** How long a claimed job stays locked without a checkpoint */
+const LEASE_MS = 2 * 60 * 1000;
+
+/** Time a worker spends on a job before handing it back to the queue */
+export const IMPORT_TIME_BUDGET_MS = 45 * 1000;
+
+/** Runs that may end without releasing the job before it is failed */
+const MAX_ATTEMPTS = 3;
+
+const ACTIVE_STATUSES = ['pending', 'processing'];
+
+/** Parsed notes written to or removed from storage at a time */
+const STORAGE_CONCURRENCY = 10;
+
+/** Largest file that can be imported */
+export const MAX_IMPORT_SIZE = 100 * 1024 * 1024;
+
+/** File extensions the importer reads */
+export const IMPORT_EXTENSIONS = ['.enex', '.pdf', '.docx', '.txt', '.md', '.markdown', '.zip'];
+
+/**
+ * Whether a file has one of the formats the importer reads.
+ */
+export function isImportableFile(filename: string): boolean {
+    const lowerName = filename.toLowerCase();
+    return IMPORT_EXTENSIONS.some(ext => lowerName.endsWith(ext));
+}
+
+/**
+ * Whether a storage key is one handed out to the user for an import upload.
+ */
+export function isImportUploadKey(userId: string, storageKey: string): boolean {
+    const prefix = `imports/${userId}/`;
+    return storageKey.startsWith(prefix) && !storageKey.split('/').includes('..');
+}
+
+/**
+ * Where the browser uploads a file before queueing it.
+ */
+export interface ImportUpload {
+    storageKey: string;
+    upload: StorageUploadUrl;
+}
+
+/**
+ * Reserve a storage key for an import and get the URL to upload it to.
+ */
+export async function createImportUpload(userId: string, filename: string, mimeType: string): Promise<ImportUpload> {
+    const sanitized = filename.replace(/[^a-zA-Z0-9._-]/g, '_');
+    const storageKey = `imports/${userId}/${randomUUID()}/${sanitized}`;
+    const upload = await getStorageService().getUploadUrl(storageKey, { mimeType });
+
+    return { storageKey, upload };
+}
+
+/**
+ * Options for queueing an upload.
+ */
+export interface EnqueueImportOptions {
+    userId: string;
+    /** Key from `createImportUpload` the file was uploaded to */
+    storageKey: string;
+    filename: string;
+    mimeType: string;
+    lastModified?: number;
+    notebookName?: string;
+    duplicateMode?: DuplicateMode;
+}
+
+/**
+ * Queue an uploaded file for import.
+ */
+export async function enqueueImport(options: EnqueueImportOptions): Promise<ImportJob> {
+    const { userId, storageKey, filename, mimeType, lastModified, notebookName, duplicateMode } = options;
+
+    return prisma.importJob.create({
+        data: {
+            userId,
+            filename,
+            mimeType,
+            notebookName,
+            duplicateMode,
+            storageKey,
+            fileModifiedAt: lastModified ? new Date(lastModified) : null,
+            status: 'pending',
+        },
+    });
+}
+
+/**
+ * Whether a job is waiting for a worker: queued, released between runs,
+ * or left locked by a worker that stopped responding.
+ */
+export function isImportJobClaimable(job: Pick<ImportJob, 'status' | 'lockedUntil'>, now = new Date()): boolean {
+    return ACTIVE_STATUSES.includes(job.status) && (!job.lockedUntil || job.lockedUntil < now);
+}
+
+/**
+ * Take the lease on a job. The update only matches if nobody claimed the
+ * job since it was read, so two workers can never hold the same job.
+ */
+async function claimImportJob(jobId: string): Promise<ImportJob | null> {
+    const job = await prisma.importJob.findUnique({ where: { id: jobId } });
+    if (!job || !isImportJobClaimable(job)) return null;
+
+    // An expired lease means the previous run never released the job
+    const attempts = job.lockedUntil ? job.attempts + 1 : job.attempts;
+
+    const { count } = await prisma.importJob.updateMany({
+        where: { id: jobId, status: job.status, lockedUntil: job.lockedUntil },
+        data: {
+            status: 'processing',
+            lockedUntil: new Date(Date.now() + LEASE_MS),
+            attempts,
+        },
+    });
+
+    return count === 1 ? { ...job, status: 'processing', attempts } : null;
+}
+
+/**
+ * Mark a job finished and remove its stored upload.
+ */
+async function finishJob(job: ImportJob, status: 'failed' | 'cancelled', errors?: string[]) {
+    await prisma.importJob.updateMany({
+        where: { id: job.id, status: { in: [...ACTIVE_STATUSES, status] } },
+        data: {
+            status,
+            completedAt: new Date(),
+            lockedUntil: null,
+            ...(errors && { errors: [...(Array.isArray(job.errors) ? job.errors as string[] : []), ...errors] }),
+        },
+    });
+    await releaseUpload(job);
+}
+
+async function releaseUpload(job: Pick<ImportJob, 'id' | 'storageKey' | 'notesPrefix' | 'totalNotes'>) {
+    const { storageKey, notesPrefix } = job;
+    if (!storageKey && !notesPrefix) return;
+
+    const keys = notesPrefix
+        ? Array.from({ length: job.totalNotes ?? 0 }, (_, index) => parsedNoteKey(notesPrefix, index))
+        : [];
+    if (storageKey) keys.push(storageKey);
+
+    try {
+        const storage = getStorageService();
+        await inBatches(keys, key => storage.delete(key));
+    } catch (error) {
+        console.error(`Failed to delete upload for import ${job.id}:`, error);
+    }
+    await prisma.importJob.update({
+        where: { id: job.id },
+        data: { storageKey: null, notesPrefix: null },
+    });
+}
+
+/**
+ * Run a task over items, a few at a time.
+ */
+async function inBatches<T>(items: T[], task: (item: T, index: number) => Promise<unknown>): Promise<void> {
+    for (let i = 0; i < items.length; i += STORAGE_CONCURRENCY) {
+        await Promise.all(items.slice(i, i + STORAGE_CONCURRENCY).map((item, offset) => task(item, i + offset)));
+    }
+}
+
+function parsedNoteKey(notesPrefix: string, index: number): string {
+    return `${notesPrefix}/${index}.json`;
+}
+
+/**
+ * Parse a job's upload and store each note on its own, then remove the
+ * upload. Returns null if the upload is gone.
+ */
+async function storeParsedNotes(job: ImportJob): Promise<ImportJob | null> {
+    const { storageKey } = job;
+    const storage = getStorageService();
+    const buffer = storageKey && await storage.get(storageKey);
+    if (!storageKey || !buffer) return null;
+
+    const enexExport = await parseFile({
+        filename: job.filename,
+        mimeType: job.mimeType || 'application/octet-stream',
+        buffer,
+        lastModified: job.fileModifiedAt?.getTime(),
+    });
+
+    const notesPrefix = `imports/${job.userId}/${job.id}/notes`;
+    await inBatches(enexExport.notes, (note, index) => storage.upload(
+        Buffer.from(JSON.stringify(note)),
+        { key: parsedNoteKey(notesPrefix, index), mimeType: 'application/json' }
+    ));
+
+    // Parsing can take a while; renew the lease along with the checkpoint
+    const parsed = await prisma.importJob.update({
+        where: { id: job.id },
+        data: {
+            notesPrefix,
+            totalNotes: enexExport.notes.length,
+            storageKey: null,
+            lockedUntil: new Date(Date.now() + LEASE_MS),
+        },
+    });
+
+    try {
+        await storage.delete(storageKey);
+    } catch (error) {
+        console.error(`Failed to delete upload for import ${job.id}:`, error);
+    }
+
+    return parsed;
+}
+
+/**
+ * Notes stored by `storeParsedNotes`, read only as they are imported.
+ */
+function storedNoteSource(notesPrefix: string, totalNotes: number): ImportNoteSource {
+    return {
+        totalNotes,
+        readNotes: async (start, end) => {
+            const storage = getStorageService();
+            const indexes = Array.from({ length: end - start }, (_, offset) => start + offset);
+
+            return Promise.all(indexes.map(async index => {
+                const data = await storage.get(parsedNoteKey(notesPrefix, index));
+                if (!data) throw new Error('The uploaded file is no longer available');
+                const note: EnexNote = JSON.parse(data.toString('utf-8'));
+                return note;
+            }));
+        },
+    };
+}
+
+/**
+ * Claim a job and import as many notes as fit in the time budget.
+ * Returns null if the job isn't waiting for a worker.
+ */
+export async function runImportJob(
+    jobId: string,
+    timeBudgetMs = IMPORT_TIME_BUDGET_MS
+): Promise<ImportResult | null> {
+    const deadline = Date.now() + timeBudgetMs;
+    const claimed = await claimImportJob(jobId);
+    if (!claimed) return null;
+    let job = claimed;
+
+    const failWith = async (message: string): Promise<ImportResult> => {
+        await finishJob(job, 'failed', [message]);
+        return {
+            jobId: job.id,
+            status: 'failed',
+            totalNotes: job.totalNotes ?? 0,
+            imported: job.imported,
+            failed: job.failed,
+            skipped: job.skipped,
+            overwritten: job.overwritten,
+            errors: [message],
+            notebookId: '',
+        };
+    };
+
+    if (job.attempts >= MAX_ATTEMPTS) {
+        return failWith('Import stopped after the worker failed repeatedly');
+    }
+
+    try {
+        // The upload is parsed once; resumed runs read the stored notes
+        const parsed = job.notesPrefix ? job : await storeParsedNotes(job);
+        if (!parsed?.notesPrefix) {
+            return failWith('The uploaded file is no longer available');
+        }
+        job = parsed;
+
+        const source = storedNoteSource(parsed.notesPrefix, parsed.totalNotes ?? 0);
+        const result = await importFromSource(source, job, {
+            userId: job.userId,
+            filename: job.filename,
+            notebookName: job.notebookName || undefined,
+            duplicateMode: isDuplicateMode(job.duplicateMode) ? job.duplicateMode : undefined,
+            shouldPause: async () => {
+                if (Date.now() >= deadline) return true;
+                await prisma.importJob.update({
+                    where: { id: job.id },
+                    data: { lockedUntil: new Date(Date.now() + LEASE_MS) },
+                });
+                return false;
+            },
+        });
+
+        if (result.status === 'processing') {
+            // Out of time: hand the job back to the queue
+            await prisma.importJob.update({
+                where: { id: job.id },
+                data: { lockedUntil: null, attempts: 0 },
+            });
+        } else {
+            await prisma.importJob.update({
+                where: { id: job.id },
+                data: { lockedUntil: null },
+            });
+            await releaseUpload(job);
+        }
+
+        return result;
+    } catch (error) {
+        console.error(`Import ${job.id} failed:`, error);
+        return failWith(error instanceof Error ? error.message : 'Unknown error');
+    }
+}
+
+/**
+ * Work through queued jobs, oldest first, until the time budget runs out.
+ */
+export async function runImportQueue(timeBudgetMs = IMPORT_TIME_BUDGET_MS): Promise<ImportResult[]> {
+    const deadline = Date.now() + timeBudgetMs;
+    const results: ImportResult[] = [];
+    const attempted = new Set<string>();
+
+    while (Date.now() < deadline) {
+        const job = await prisma.importJob.findFirst({
+            where: {
+                id: { notIn: [...attempted] },
+                status: { in: ACTIVE_STATUSES },
+                OR: [{ lockedUntil: null }, { lockedUntil: { lt: new Date() } }],
+            },
+            orderBy: { createdAt: 'asc' },
+        });
+        if (!job) break;
+
+        attempted.add(job.id);
+        const result = await runImportJob(job.id, deadline - Date.now());
+        if (result) results.push(result);
+    }
+
+    return results;
+}
+
+/**
+ * Cancel a user's queued or running import. Notes imported so far are
+ * kept. A running worker stops at its next batch and cleans up the upload.
+ */
+export async function cancelImportJob(jobId: string, userId: string): Promise<ImportJob | null> {
+    const job = await prisma.importJob.findFirst({ where: { id: jobId, userId } });
+    if (!job) return null;
+    if (!ACTIVE_STATUSES.includes(job.status)) return job;
+
+    await prisma.importJob.updateMany({
+        where: { id: jobId, status: { in: ACTIVE_STATUSES } },
+        data: { status: 'cancelled', completedAt: new Date() },
+    });
+
+    if (isImportJobClaimable(job)) {
+        await releaseUpload(job);
+    }
+
+    return prisma.importJob.findUnique({ where: { id: jobId } });
+}
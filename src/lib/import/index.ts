@@ -16,6 +16,8 @@ export type { ExtractedResource, ExtractResourcesOptions } from './resource-extr
 export {
     importEnex,
     importParsedData,
+    importFromExport,
+    importFromSource,
     getImportJobStatus,
     listImportJobs,
 } from './import-orchestrator';
@@ -25,4 +27,21 @@ export type {
     ImportProgressCallback,
     ImportOptions,
     ImportResult,
+    ImportNoteSource,
 } from './import-orchestrator';
+export { computeImportFingerprint, isDuplicateMode, DUPLICATE_MODES } from './fingerprint';
+export type { DuplicateMode } from './fingerprint';
+export {
+    createImportUpload,
+    enqueueImport,
+    isImportableFile,
+    isImportUploadKey,
+    runImportJob,
+    runImportQueue,
+    cancelImportJob,
+    isImportJobClaimable,
+    IMPORT_TIME_BUDGET_MS,
+    IMPORT_EXTENSIONS,
+    MAX_IMPORT_SIZE,
+} from './import-queue';
+export type { EnqueueImportOptions, ImportUpload } from './import-queue';
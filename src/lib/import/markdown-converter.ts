@@ -0,0 +1,409 @@
+/**
+ * Markdown to ENML Converter
+ *
+ * Converts Markdown (CommonMark with the GFM and Obsidian extensions people
+ * actually use) into ENML-style note content, so imported Markdown goes
+ * through the same resource and conversion pipeline as ENEX notes:
+ * - Local images and attachments become <en-media> referencing resource hashes
+ * - Task list items become <en-todo>
+ * - [[Wikilinks]] and links to other .md files become note link markup
+ *
+ * All text is escaped; raw HTML in the Markdown is shown as text.
+ */
+
+import { escapeHtml } from '@/lib/export/html-tree';
+import { renderNoteLink } from '@/lib/links/note-links';
+
+/**
+ * A resource referenced from Markdown, already hashed by the caller.
+ */
+export interface MarkdownResource {
+    hash: string;
+    mimeType: string;
+}
+
+export interface MarkdownToHtmlOptions {
+    /** Look up a local file referenced by an image, embed or link */
+    resolveResource?: (path: string) => MarkdownResource | undefined;
+}
+
+type Resolver = MarkdownToHtmlOptions['resolveResource'];
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)/;
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const BLOCKQUOTE = /^ {0,3}> ?(.*)$/;
+const LIST_ITEM = /^([ \t]*)([-*+]|\d{1,9}[.)])(?:[ \t]+(.*))?$/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const TASK_MARKER = /^\[([ xX])\](?:[ \t]+|$)/;
+const EXTERNAL_URL = /^(?:https?:|mailto:)/i;
+
+function isBlank(line: string): boolean {
+    return line.trim() === '';
+}
+
+function indentOf(line: string): number {
+    const match = line.match(/^[ \t]*/)![0];
+    return match.replace(/\t/g, '    ').length;
+}
+
+/**
+ * Remove up to `columns` of leading indentation.
+ */
+function dedent(line: string, columns: number): string {
+    let index = 0;
+    let width = 0;
+    while (index < line.length && width < columns && (line[index] === ' ' || line[index] === '\t')) {
+        width += line[index] === '\t' ? 4 : 1;
+        index++;
+    }
+    return line.slice(index);
+}
+
+function startsBlock(line: string): boolean {
+    return FENCE.test(line) || ATX_HEADING.test(line) || THEMATIC_BREAK.test(line)
+        || BLOCKQUOTE.test(line) || LIST_ITEM.test(line);
+}
+
+function isTableStart(lines: string[], index: number): boolean {
+    const next = lines[index + 1];
+    return lines[index]!.includes('|') && next !== undefined && next.includes('-') && TABLE_DELIMITER.test(next);
+}
+
+function splitTableRow(line: string): string[] {
+    const trimmed = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+    return trimmed.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+}
+
+/**
+ * Split a link destination into its path and fragment, decoding %20 and
+ * friends (Obsidian URL-encodes spaces in Markdown links).
+ */
+function splitTarget(target: string): { path: string; fragment: string } {
+    const hashIndex = target.indexOf('#');
+    const path = hashIndex === -1 ? target : target.slice(0, hashIndex);
+    const fragment = hashIndex === -1 ? '' : target.slice(hashIndex + 1);
+    try {
+        return { path: decodeURIComponent(path), fragment };
+    } catch {
+        return { path, fragment };
+    }
+}
+
+function hasExtension(path: string): boolean {
+    return /\.[a-z0-9]{1,8}$/i.test(path);
+}
+
+function isNotePath(path: string): boolean {
+    return /\.(md|markdown)$/i.test(path);
+}
+
+function noteTitleFromPath(path: string): string {
+    return path.split('/').pop()!.replace(/\.(md|markdown)$/i, '').trim();
+}
+
+function renderMedia(resource: MarkdownResource, alt: string, size?: string): string {
+    const attrs = [`hash="${resource.hash}"`, `type="${escapeHtml(resource.mimeType)}"`];
+    const dimensions = size?.match(/^(\d+)(?:x(\d+))?$/);
+    if (dimensions) {
+        attrs.push(`width="${dimensions[1]}"`);
+        if (dimensions[2]) attrs.push(`height="${dimensions[2]}"`);
+    }
+    if (alt) attrs.push(`alt="${escapeHtml(alt)}"`);
+    return `<en-media ${attrs.join(' ')}/>`;
+}
+
+/**
+ * Inline formatting. Constructs whose content must not be formatted further
+ * (code, links, media) are rendered first and parked in a stash, then the
+ * remaining text is escaped and emphasis is applied around the placeholders.
+ */
+function renderInline(text: string, resolve: Resolver): string {
+    const stash: string[] = [];
+    const hold = (html: string) => `\u0000${stash.push(html) - 1}\u0000`;
+
+    const format = (value: string): string => escapeHtml(value)
+        .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong>$1</strong>')
+        .replace(/(^|[^\w])__(?=\S)([\s\S]*?\S)__(?!\w)/g, '$1<strong>$2</strong>')
+        .replace(/\*(?=[^\s*])([\s\S]*?[^\s*])\*/g, '<em>$1</em>')
+        .replace(/(^|[^\w])_(?=[^\s_])([\s\S]*?[^\s_])_(?!\w)/g, '$1<em>$2</em>')
+        .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<s>$1</s>')
+        .replace(/==(?=\S)([\s\S]*?\S)==/g, '<mark>$1</mark>')
+        .replace(/\n/g, '<br/>');
+
+    const noteLink = (target: string): string => {
+        const title = target.includes('/') || isNotePath(target) ? noteTitleFromPath(target) : target.trim();
+        return hold(renderNoteLink(null, title));
+    };
+
+    const linkTo = (label: string, destination: string): string => {
+        const href = destination.replace(/^<|>$/g, '');
+        if (EXTERNAL_URL.test(href)) {
+            return hold(`<a href="${escapeHtml(href)}">${format(label)}</a>`);
+        }
+
+        const { path } = splitTarget(href);
+        if (isNotePath(path)) return noteLink(path);
+
+        const resource = path ? resolve?.(path) : undefined;
+        return hold(resource ? renderMedia(resource, label) : format(label));
+    };
+
+    let value = text
+        .replace(/(`+)([^`]|[^`][\s\S]*?[^`])\1(?!`)/g, (_whole, _fence, code: string) => {
+            const trimmed = /^ .* $/.test(code) ? code.slice(1, -1) : code;
+            return hold(`<code>${escapeHtml(trimmed.replace(/\n/g, ' '))}</code>`);
+        })
+        .replace(/\\([!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~])/g, (_whole, char: string) => hold(escapeHtml(char)))
+        .replace(/ {2,}\n/g, '\n');
+
+    // Obsidian embeds: ![[image.png|300]] and ![[Other note]]
+    value = value.replace(/!\[\[([^\]\n]+)\]\]/g, (_whole, inner: string) => {
+        const [target = '', option] = inner.split('|').map(part => part.trim());
+        const { path } = splitTarget(target);
+        if (!hasExtension(path) || isNotePath(path)) return noteLink(path);
+
+        const resource = resolve?.(path);
+        return resource ? hold(renderMedia(resource, '', option)) : hold(escapeHtml(path));
+    });
+
+    // Wikilinks: [[Title]], [[Title#Heading]], [[Title|alias]]
+    value = value.replace(/\[\[([^\]\n]+)\]\]/g, (_whole, inner: string) => {
+        const { path } = splitTarget(inner.split('|')[0]!.trim());
+        return path ? noteLink(path) : hold(escapeHtml(inner));
+    });
+
+    // Images: ![alt](src "title")
+    value = value.replace(/!\[([^\]]*)\]\(\s*(<[^>]*>|[^\s)]+)(?:\s+"[^"]*")?\s*\)/g, (_whole, alt: string, destination: string) => {
+        const src = destination.replace(/^<|>$/g, '');
+        if (/^https?:/i.test(src)) {
+            return hold(`<img src="${escapeHtml(src)}" alt="${escapeHtml(alt)}"/>`);
+        }
+        const { path } = splitTarget(src);
+        const resource = path ? resolve?.(path) : undefined;
+        return hold(resource ? renderMedia(resource, alt) : format(alt));
+    });
+
+    // Links: [label](href "title")
+    value = value.replace(/\[([^\]]+)\]\(\s*(<[^>]*>|[^\s)]+)(?:\s+"[^"]*")?\s*\)/g, (_whole, label: string, destination: string) => {
+        return linkTo(label, destination);
+    });
+
+    // Autolinks and bare URLs
+    value = value
+        .replace(/<((?:https?|mailto):[^\s<>]+)>/gi, (_whole, url: string) => hold(`<a href="${escapeHtml(url)}">${escapeHtml(url)}</a>`))
+        .replace(/\bhttps?:\/\/[^\s<\u0000]*[^\s<.,:;"')\]*\u0000]/gi, url => hold(`<a href="${escapeHtml(url)}">${escapeHtml(url)}</a>`));
+
+    let html = format(value);
+    while (html.includes('\u0000')) {
+        html = html.replace(/\u0000(\d+)\u0000/g, (_whole, index: string) => stash[Number(index)]!);
+    }
+    return html;
+}
+
+interface ListItem {
+    lines: string[];
+    checked?: boolean;
+}
+
+/**
+ * Render an item's content: the leading paragraph inline (tight list style),
+ * anything after it (nested lists, code, quotes) as blocks.
+ */
+function renderItemContent(lines: string[], resolve: Resolver): { lead: string; blocks: string } {
+    let split = 1;
+    while (split < lines.length && !isBlank(lines[split]!) && !startsBlock(lines[split]!)) split++;
+
+    return {
+        lead: renderInline(lines.slice(0, split).join('\n').trim(), resolve),
+        blocks: renderBlocks(lines.slice(split), resolve),
+    };
+}
+
+function parseList(lines: string[], start: number, resolve: Resolver): { html: string; next: number } {
+    const first = LIST_ITEM.exec(lines[start]!)!;
+    const baseIndent = indentOf(first[1]!);
+    const ordered = /\d/.test(first[2]!);
+    const items: ListItem[] = [];
+    let contentIndent = baseIndent + first[2]!.length + 1;
+    let index = start;
+
+    while (index < lines.length) {
+        const line = lines[index]!;
+        const item = LIST_ITEM.exec(line);
+
+        if (item && indentOf(item[1]!) <= baseIndent + 1) {
+            if (indentOf(item[1]!) < baseIndent || /\d/.test(item[2]!) !== ordered) break;
+
+            let content = item[3] ?? '';
+            let checked: boolean | undefined;
+            const task = TASK_MARKER.exec(content);
+            if (task) {
+                checked = task[1] !== ' ';
+                content = content.slice(task[0].length);
+            }
+            items.push({ lines: [content], checked });
+            contentIndent = indentOf(item[1]!) + item[2]!.length + 1;
+            index++;
+            continue;
+        }
+
+        const current = items[items.length - 1]!;
+
+        if (isBlank(line)) {
+            let lookahead = index + 1;
+            while (lookahead < lines.length && isBlank(lines[lookahead]!)) lookahead++;
+            const following = lines[lookahead];
+            if (following === undefined || indentOf(following) <= baseIndent && !LIST_ITEM.test(following)) break;
+            current.lines.push('');
+        } else if (indentOf(line) > baseIndent) {
+            current.lines.push(dedent(line, contentIndent));
+        } else if (!isBlank(current.lines[current.lines.length - 1]!) && !startsBlock(line)) {
+            // Lazy continuation of the item's paragraph
+            current.lines.push(line.trim());
+        } else {
+            break;
+        }
+        index++;
+    }
+
+    // A bullet list of only tasks becomes Evernote-style checkbox lines
+    if (!ordered && items.every(item => item.checked !== undefined)) {
+        const html = items
+            .map(item => {
+                const { lead, blocks } = renderItemContent(item.lines, resolve);
+                return `<div><en-todo checked="${item.checked}"/>${lead}</div>${blocks}`;
+            })
+            .join('');
+        return { html, next: index };
+    }
+
+    const tag = ordered ? 'ol' : 'ul';
+    const startNumber = ordered ? parseInt(first[2]!, 10) : 1;
+    const open = ordered && startNumber !== 1 ? `<ol start="${startNumber}">` : `<${tag}>`;
+    const body = items
+        .map(item => {
+            const todo = item.checked === undefined ? '' : `<en-todo checked="${item.checked}"/>`;
+            const { lead, blocks } = renderItemContent(item.lines, resolve);
+            return `<li>${todo}${lead}${blocks}</li>`;
+        })
+        .join('');
+
+    return { html: `${open}${body}</${tag}>`, next: index };
+}
+
+function renderTable(lines: string[], start: number, resolve: Resolver): { html: string; next: number } {
+    const header = splitTableRow(lines[start]!);
+    const rows: string[][] = [];
+    let index = start + 2;
+
+    while (index < lines.length && !isBlank(lines[index]!) && lines[index]!.includes('|')) {
+        rows.push(splitTableRow(lines[index]!));
+        index++;
+    }
+
+    const cell = (tag: string, value: string | undefined) => `<${tag}>${renderInline(value ?? '', resolve)}</${tag}>`;
+    const head = `<thead><tr>${header.map(value => cell('th', value)).join('')}</tr></thead>`;
+    const body = rows.length > 0
+        ? `<tbody>${rows.map(row => `<tr>${header.map((_value, column) => cell('td', row[column])).join('')}</tr>`).join('')}</tbody>`
+        : '';
+
+    return { html: `<table>${head}${body}</table>`, next: index };
+}
+
+function renderBlocks(lines: string[], resolve: Resolver): string {
+    const out: string[] = [];
+    let index = 0;
+
+    while (index < lines.length) {
+        const line = lines[index]!;
+
+        if (isBlank(line)) {
+            index++;
+            continue;
+        }
+
+        const fence = FENCE.exec(line);
+        if (fence) {
+            const marker = fence[1]!;
+            const code: string[] = [];
+            index++;
+            while (index < lines.length && !new RegExp(`^ {0,3}${marker[0]}{${marker.length},}\\s*$`).test(lines[index]!)) {
+                code.push(lines[index]!);
+                index++;
+            }
+            index++;
+            const language = fence[2] ? ` class="language-${escapeHtml(fence[2])}"` : '';
+            out.push(`<pre><code${language}>${escapeHtml(code.join('\n'))}</code></pre>`);
+            continue;
+        }
+
+        const heading = ATX_HEADING.exec(line);
+        if (heading) {
+            const level = heading[1]!.length;
+            out.push(`<h${level}>${renderInline(heading[2] ?? '', resolve)}</h${level}>`);
+            index++;
+            continue;
+        }
+
+        if (THEMATIC_BREAK.test(line)) {
+            out.push('<hr/>');
+            index++;
+            continue;
+        }
+
+        if (BLOCKQUOTE.test(line)) {
+            const quoted: string[] = [];
+            while (index < lines.length && !isBlank(lines[index]!)) {
+                const match = BLOCKQUOTE.exec(lines[index]!);
+                quoted.push(match ? match[1]! : lines[index]!);
+                index++;
+            }
+            out.push(`<blockquote>${renderBlocks(quoted, resolve)}</blockquote>`);
+            continue;
+        }
+
+        if (LIST_ITEM.test(line) && LIST_ITEM.exec(line)![3] !== undefined) {
+            const list = parseList(lines, index, resolve);
+            out.push(list.html);
+            index = list.next;
+            continue;
+        }
+
+        if (isTableStart(lines, index)) {
+            const table = renderTable(lines, index, resolve);
+            out.push(table.html);
+            index = table.next;
+            continue;
+        }
+
+        const paragraph: string[] = [line];
+        index++;
+        while (index < lines.length && !isBlank(lines[index]!) && !startsBlock(lines[index]!) && !isTableStart(lines, index)) {
+            if (SETEXT_UNDERLINE.test(lines[index]!)) break;
+            paragraph.push(lines[index]!);
+            index++;
+        }
+
+        const setext = index < lines.length ? SETEXT_UNDERLINE.exec(lines[index]!) : null;
+        if (setext) {
+            const level = setext[1]!.startsWith('=') ? 1 : 2;
+            out.push(`<h${level}>${renderInline(paragraph.join('\n').trim(), resolve)}</h${level}>`);
+            index++;
+            continue;
+        }
+
+        out.push(`<p>${renderInline(paragraph.join('\n').trim(), resolve)}</p>`);
+    }
+
+    return out.join('');
+}
+
+/**
+ * Convert Markdown to ENML-style note content (without the en-note wrapper)
+ */
+export function markdownToHtml(markdown: string, options: MarkdownToHtmlOptions = {}): string {
+    const lines = markdown.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+    return renderBlocks(lines, options.resolveResource);
+}
@@ -0,0 +1,315 @@
+/**
+ * Markdown Parser
+ *
+ * Parses single Markdown files and zipped Markdown vaults (Obsidian, Bear,
+ * Joplin and similar exports) into the same EnexExport shape the ENEX
+ * parser produces, so both go through one import pipeline:
+ * - YAML front matter supplies the title, tags, dates and source attributes
+ * - Folders become notebooks; a top-level folder with subfolders becomes a stack
+ * - Relative images and attachments become resources referenced by hash
+ */
+
+import type { EnexExport, EnexNote, EnexResource } from '@/types/enex';
+import { calculateMd5Hash } from './resource-extractor';
+import { markdownToHtml, type MarkdownResource } from './markdown-converter';
+import { readZip, type ZipFileEntry } from './zip-reader';
+
+export type FrontMatterValue = string | string[];
+
+export interface ParsedFrontMatter {
+    data: Record<string, FrontMatterValue>;
+    body: string;
+}
+
+export interface MarkdownFileOptions {
+    filename: string;
+    buffer: Buffer;
+    lastModified?: number;
+}
+
+const SOURCE_APPLICATION = 'Markdown Import';
+const NOTE_EXTENSION = /\.(md|markdown)$/i;
+
+const MIME_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    svg: 'image/svg+xml',
+    bmp: 'image/bmp',
+    heic: 'image/heic',
+    pdf: 'application/pdf',
+    mp3: 'audio/mpeg',
+    m4a: 'audio/mp4',
+    wav: 'audio/wav',
+    ogg: 'audio/ogg',
+    mp4: 'video/mp4',
+    mov: 'video/quicktime',
+    webm: 'video/webm',
+    txt: 'text/plain',
+    csv: 'text/csv',
+    json: 'application/json',
+    zip: 'application/zip',
+    docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+};
+
+function mimeTypeFor(path: string): string {
+    const extension = path.split('.').pop()?.toLowerCase() ?? '';
+    return MIME_TYPES[extension] ?? 'application/octet-stream';
+}
+
+function basename(path: string): string {
+    return path.split('/').pop()!;
+}
+
+function dirname(path: string): string {
+    const index = path.lastIndexOf('/');
+    return index === -1 ? '' : path.slice(0, index);
+}
+
+/**
+ * Join a relative path onto a directory, resolving `.` and `..` segments
+ */
+function joinPath(directory: string, relative: string): string {
+    const segments = relative.startsWith('/') ? [] : directory.split('/').filter(Boolean);
+    for (const segment of relative.split('/')) {
+        if (segment === '..') segments.pop();
+        else if (segment && segment !== '.') segments.push(segment);
+    }
+    return segments.join('/');
+}
+
+function unquote(value: string): string {
+    const trimmed = value.trim();
+    if (/^(["']).*\1$/.test(trimmed)) return trimmed.slice(1, -1);
+    return trimmed;
+}
+
+/**
+ * Split YAML front matter from a Markdown document. Supports the subset
+ * note apps write: scalars, inline `[a, b]` lists, block `- item` lists and
+ * one level of nested mappings.
+ */
+export function parseFrontMatter(markdown: string): ParsedFrontMatter {
+    const text = markdown.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+    const match = text.match(/^---\n([\s\S]*?)\n(?:---|\.\.\.)[ \t]*(?:\n|$)/);
+    if (!match) return { data: {}, body: text };
+
+    const data: Record<string, FrontMatterValue> = {};
+    let listKey: string | null = null;
+
+    for (const line of match[1]!.split('\n')) {
+        const item = line.match(/^\s+-\s+(.*)$|^-\s+(.*)$/);
+        if (item && listKey) {
+            const list = data[listKey];
+            const value = unquote(item[1] ?? item[2] ?? '');
+            data[listKey] = Array.isArray(list) ? [...list, value] : [value];
+            continue;
+        }
+
+        // One level of nesting is flattened to `parent.child` keys
+        const nested = line.match(/^\s+([A-Za-z_][\w-]*)\s*:\s*(.+)$/);
+        if (nested && listKey) {
+            data[`${listKey}.${nested[1]!.toLowerCase()}`] = unquote(nested[2]!);
+            continue;
+        }
+
+        const entry = line.match(/^([A-Za-z_][\w-]*)\s*:\s*(.*)$/);
+        if (!entry) {
+            if (!/^\s/.test(line)) listKey = null;
+            continue;
+        }
+
+        const key = entry[1]!.toLowerCase();
+        const value = entry[2]!.replace(/\s+#.*$/, '').trim();
+        listKey = null;
+
+        if (value === '') {
+            listKey = key;
+            data[key] = [];
+        } else if (value.startsWith('[') && value.endsWith(']')) {
+            data[key] = value.slice(1, -1).split(',').map(unquote).filter(Boolean);
+        } else {
+            data[key] = unquote(value);
+        }
+    }
+
+    return { data, body: text.slice(match[0].length) };
+}
+
+function firstString(data: Record<string, FrontMatterValue>, keys: string[]): string | undefined {
+    for (const key of keys) {
+        const value = data[key];
+        const text = Array.isArray(value) ? value[0] : value;
+        if (text) return text;
+    }
+    return undefined;
+}
+
+function toIsoDate(value: string | undefined): string | undefined {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function toNumber(value: string | undefined): number | undefined {
+    const number = value === undefined ? NaN : parseFloat(value);
+    return isNaN(number) ? undefined : number;
+}
+
+function frontMatterTags(data: Record<string, FrontMatterValue>): string[] {
+    const raw = data.tags ?? data.tag ?? [];
+    const values = Array.isArray(raw) ? raw : raw.split(/[,\s]+/);
+    const tags = values.map(tag => tag.trim().replace(/^#/, '')).filter(Boolean);
+    return [...new Set(tags)];
+}
+
+/**
+ * Build a note from a Markdown document. `lookup` finds local files the
+ * document references; each distinct file becomes one resource.
+ */
+function buildNote(
+    path: string,
+    markdown: string,
+    modifiedAt: Date | undefined,
+    lookup: (target: string) => ZipFileEntry | undefined,
+    source: string
+): EnexNote {
+    const { data, body } = parseFrontMatter(markdown);
+    const resources: EnexResource[] = [];
+    const byPath = new Map<string, MarkdownResource>();
+
+    const content = markdownToHtml(body, {
+        resolveResource: (target) => {
+            const file = lookup(target.split('?')[0]!);
+            if (!file) return undefined;
+
+            const known = byPath.get(file.path);
+            if (known) return known;
+
+            const mimeType = mimeTypeFor(file.path);
+            const resource = { hash: calculateMd5Hash(file.data), mimeType };
+            byPath.set(file.path, resource);
+            resources.push({
+                data: file.data.toString('base64'),
+                encoding: 'base64',
+                mime: mimeType,
+                resourceAttributes: {
+                    fileName: basename(file.path),
+                    attachment: !mimeType.startsWith('image/'),
+                },
+            });
+            return resource;
+        },
+    });
+
+    const fallbackDate = (modifiedAt ?? new Date()).toISOString();
+    const created = toIsoDate(firstString(data, ['created', 'date', 'created_at', 'creation_date']));
+    const updated = toIsoDate(firstString(data, ['updated', 'modified', 'updated_at', 'last_modified']));
+
+    return {
+        title: firstString(data, ['title']) || basename(path).replace(NOTE_EXTENSION, '') || 'Untitled',
+        content: `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE en-note SYSTEM "http://xml.evernote.com/pub/enml2.dtd">
+<en-note>${content}</en-note>`,
+        created: created ?? fallbackDate,
+        updated: updated ?? created ?? fallbackDate,
+        tags: frontMatterTags(data),
+        resources,
+        noteAttributes: {
+            sourceApplication: SOURCE_APPLICATION,
+            source,
+            sourceUrl: firstString(data, ['source', 'source_url', 'sourceurl', 'url']),
+            author: firstString(data, ['author']),
+            latitude: toNumber(firstString(data, ['location.latitude', 'latitude'])),
+            longitude: toNumber(firstString(data, ['location.longitude', 'longitude'])),
+            altitude: toNumber(firstString(data, ['location.altitude', 'altitude'])),
+        },
+    };
+}
+
+/**
+ * Parse a single Markdown file. Only external images can be kept, since
+ * relative paths have nothing to resolve against.
+ */
+export function parseMarkdownFile(options: MarkdownFileOptions): EnexExport {
+    const modifiedAt = options.lastModified ? new Date(options.lastModified) : undefined;
+    const note = buildNote(options.filename, options.buffer.toString('utf-8'), modifiedAt, () => undefined, 'import-file');
+
+    return {
+        exportDate: new Date().toISOString(),
+        application: SOURCE_APPLICATION,
+        notes: [note],
+    };
+}
+
+/**
+ * Pick the notebook (and stack) for a note from its folder. Root-level
+ * notes are left to the import's default notebook.
+ */
+function notebookFor(directory: string, foldersWithSubfolders: Set<string>): EnexNote['notebook'] {
+    if (!directory) return undefined;
+
+    const [top, ...rest] = directory.split('/');
+    if (rest.length === 0) {
+        return { name: top!, stack: foldersWithSubfolders.has(top!) ? top : undefined };
+    }
+    return { name: rest.join(' / '), stack: top };
+}
+
+/**
+ * Parse a zipped Markdown vault
+ */
+export function parseMarkdownVault(buffer: Buffer): EnexExport {
+    // Skip app settings and trash (.obsidian, .trash) and macOS metadata
+    const entries = readZip(buffer, {
+        filter: path => !path.split('/').some(segment => segment.startsWith('.') || segment === '__MACOSX'),
+    });
+
+    // Exports are often wrapped in a single folder named after the vault
+    const roots = new Set(entries.map(entry => (entry.path.includes('/') ? entry.path.split('/')[0] : '')));
+    const [root] = roots;
+    const files = roots.size === 1 && root
+        ? entries.map(entry => ({ ...entry, path: entry.path.slice(root.length + 1) }))
+        : entries;
+
+    const byPath = new Map<string, ZipFileEntry>();
+    const byName = new Map<string, ZipFileEntry>();
+    for (const file of files) {
+        byPath.set(file.path.toLowerCase(), file);
+        if (!byName.has(basename(file.path).toLowerCase())) {
+            byName.set(basename(file.path).toLowerCase(), file);
+        }
+    }
+
+    const notes = files
+        .filter(file => NOTE_EXTENSION.test(file.path))
+        .sort((a, b) => a.path.localeCompare(b.path));
+
+    const foldersWithSubfolders = new Set<string>();
+    for (const note of notes) {
+        const segments = dirname(note.path).split('/');
+        if (segments.length > 1) foldersWithSubfolders.add(segments[0]!);
+    }
+
+    return {
+        exportDate: new Date().toISOString(),
+        application: SOURCE_APPLICATION,
+        notes: notes.map(file => {
+            const directory = dirname(file.path);
+
+            // Relative to the note, then the vault root, then anywhere by name
+            const lookup = (target: string) => byPath.get(joinPath(directory, target).toLowerCase())
+                ?? byPath.get(joinPath('', target).toLowerCase())
+                ?? byName.get(basename(target).toLowerCase());
+
+            return {
+                ...buildNote(file.path, file.data.toString('utf-8'), file.modifiedAt, lookup, 'import-vault'),
+                notebook: notebookFor(directory, foldersWithSubfolders),
+            };
+        }),
+    };
+}
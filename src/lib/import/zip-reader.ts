@@ -0,0 +1,125 @@
+/**
+ * ZIP Reader
+ *
+ * Reads the entries of a ZIP archive held in memory (e.g. a zipped
+ * Markdown vault). Supports stored and deflated entries; ZIP64 and
+ * encrypted archives are rejected.
+ */
+
+import { inflateRawSync } from 'zlib';
+
+export interface ZipFileEntry {
+    /** Path inside the archive, using `/` separators */
+    path: string;
+    data: Buffer;
+    modifiedAt?: Date;
+}
+
+export interface ReadZipOptions {
+    /** Maximum total uncompressed size, guarding against zip bombs */
+    maxTotalSize?: number;
+    /** Skip entries for which this returns false (data is never inflated) */
+    filter?: (path: string) => boolean;
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ENCRYPTED_FLAG = 0x0001;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const DEFAULT_MAX_TOTAL_SIZE = 1024 * 1024 * 1024;
+
+/**
+ * Whether a buffer starts like a ZIP archive
+ */
+export function isZipArchive(buffer: Buffer): boolean {
+    return buffer.length >= 4 && buffer.readUInt32LE(0) === LOCAL_FILE_HEADER;
+}
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+    // The record is 22 bytes plus a comment of up to 64 KiB
+    const lowest = Math.max(0, buffer.length - 22 - 0xffff);
+    for (let offset = buffer.length - 22; offset >= lowest; offset--) {
+        if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) return offset;
+    }
+    throw new Error('Invalid ZIP archive: end of central directory not found');
+}
+
+function fromDosDateTime(time: number, date: number): Date | undefined {
+    if (date === 0) return undefined;
+    return new Date(
+        ((date >> 9) & 0x7f) + 1980,
+        ((date >> 5) & 0x0f) - 1,
+        date & 0x1f,
+        (time >> 11) & 0x1f,
+        (time >> 5) & 0x3f,
+        (time & 0x1f) * 2
+    );
+}
+
+/**
+ * Read the file entries of a ZIP archive (directories are skipped)
+ */
+export function readZip(buffer: Buffer, options: ReadZipOptions = {}): ZipFileEntry[] {
+    const { maxTotalSize = DEFAULT_MAX_TOTAL_SIZE, filter } = options;
+
+    const end = findEndOfCentralDirectory(buffer);
+    const entryCount = buffer.readUInt16LE(end + 10);
+    let offset = buffer.readUInt32LE(end + 16);
+
+    if (entryCount === 0xffff || offset === 0xffffffff) {
+        throw new Error('ZIP64 archives are not supported');
+    }
+
+    const entries: ZipFileEntry[] = [];
+    let totalSize = 0;
+
+    for (let index = 0; index < entryCount; index++) {
+        if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+            throw new Error('Invalid ZIP archive: corrupt central directory');
+        }
+
+        const flags = buffer.readUInt16LE(offset + 8);
+        const method = buffer.readUInt16LE(offset + 10);
+        const time = buffer.readUInt16LE(offset + 12);
+        const date = buffer.readUInt16LE(offset + 14);
+        const compressedSize = buffer.readUInt32LE(offset + 20);
+        const size = buffer.readUInt32LE(offset + 24);
+        const nameLength = buffer.readUInt16LE(offset + 28);
+        const extraLength = buffer.readUInt16LE(offset + 30);
+        const commentLength = buffer.readUInt16LE(offset + 32);
+        const localOffset = buffer.readUInt32LE(offset + 42);
+        const path = buffer.subarray(offset + 46, offset + 46 + nameLength).toString('utf8').replace(/\\/g, '/');
+
+        offset += 46 + nameLength + extraLength + commentLength;
+
+        if (path.endsWith('/') || (filter && !filter(path))) continue;
+
+        if (flags & ENCRYPTED_FLAG) {
+            throw new Error('Encrypted ZIP archives are not supported');
+        }
+        if (method !== METHOD_STORE && method !== METHOD_DEFLATE) {
+            throw new Error(`Unsupported ZIP compression method ${method} for "${path}"`);
+        }
+
+        totalSize += size;
+        if (totalSize > maxTotalSize) {
+            throw new Error('ZIP archive is too large to import');
+        }
+
+        if (buffer.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+            throw new Error(`Invalid ZIP archive: missing local header for "${path}"`);
+        }
+        const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+        const raw = buffer.subarray(dataStart, dataStart + compressedSize);
+
+        entries.push({
+            path,
+            data: method === METHOD_DEFLATE ? inflateRawSync(raw) : Buffer.from(raw),
+            modifiedAt: fromDosDateTime(time, date),
+        });
+    }
+
+    return entries;
+}
@@ -0,0 +1,8 @@
+/**
+ * Note links module exports.
+ */
+
+export { syncNoteLinks, updateLinkedTitles, listBacklinks } from './link-service';
+export type { Backlink } from './link-service';
+export { extractNoteLinks, renameNoteLinks, resolveNoteLinkTitles, renderNoteLink, NOTE_LINK_TYPE } from './note-links';
+export type { NoteLinkRef } from './note-links';
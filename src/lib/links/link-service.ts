@@ -0,0 +1,165 @@
+/**
+ * Note Link Service
+ *
+ * Maintains the `NoteLink` graph from note content and keeps link text in
+ * sync when a linked note is renamed.
+ */
+
+import { prisma } from '@/lib/db';
+import { noteAccessWhere } from '@/lib/permissions/access';
+import { extractNoteLinks, renameNoteLinks } from './note-links';
+
+/**
+ * A note that links to another note.
+ */
+export interface Backlink {
+    id: string;
+    title: string;
+    icon: string | null;
+    notebook: { id: string; name: string };
+    updatedAt: Date;
+    /** Text around the link in the linking note */
+    excerpt: string;
+}
+
+const EXCERPT_RADIUS = 80;
+
+/**
+ * Rebuild the outgoing links of a note from its content.
+ * Links by ID must point at the user's notes; title-only links resolve to the
+ * most recently updated note with that title.
+ */
+export async function syncNoteLinks(noteId: string, userId: string, content: string): Promise<void> {
+    const refs = extractNoteLinks(content);
+    const linkedIds = refs.flatMap(ref => (ref.noteId ? [ref.noteId] : []));
+    const linkedTitles = refs.filter(ref => !ref.noteId).map(ref => ref.title);
+
+    const targetIds = new Set<string>();
+
+    if (refs.length > 0) {
+        const candidates = await prisma.note.findMany({
+            where: {
+                id: { not: noteId },
+                notebook: { userId },
+                OR: [
+                    { id: { in: linkedIds } },
+                    ...linkedTitles.map(title => ({
+                        isTrash: false,
+                        title: { equals: title, mode: 'insensitive' as const },
+                    })),
+                ],
+            },
+            select: { id: true, title: true },
+            orderBy: { updatedAt: 'desc' },
+        });
+
+        for (const id of linkedIds) {
+            if (candidates.some(candidate => candidate.id === id)) targetIds.add(id);
+        }
+        for (const title of linkedTitles) {
+            const match = candidates.find(candidate => candidate.title.toLowerCase() === title.toLowerCase());
+            if (match) targetIds.add(match.id);
+        }
+    }
+
+    await prisma.$transaction([
+        prisma.noteLink.deleteMany({
+            where: { sourceId: noteId, targetId: { notIn: [...targetIds] } },
+        }),
+        prisma.noteLink.createMany({
+            data: [...targetIds].map(targetId => ({ sourceId: noteId, targetId })),
+            skipDuplicates: true,
+        }),
+    ]);
+}
+
+/**
+ * Rewrite link text in every note linking to a renamed note.
+ * Linking notes get a new `updatedAt`, so sync pulls and version checks
+ * see the rewritten text.
+ */
+export async function updateLinkedTitles(noteId: string, title: string): Promise<void> {
+    const links = await prisma.noteLink.findMany({
+        where: { targetId: noteId },
+        select: {
+            source: { select: { id: true, content: true } },
+        },
+    });
+
+    for (const { source } of links) {
+        const content = renameNoteLinks(source.content, noteId, title);
+        if (content === source.content) continue;
+
+        await prisma.note.update({
+            where: { id: source.id },
+            data: {
+                content,
+                contentPlaintext: extractPlainText(content),
+                collabState: null,
+            },
+        });
+    }
+}
+
+/**
+ * List notes linking to a note that the user can open, most recently
+ * updated first.
+ */
+export async function listBacklinks(note: { id: string; title: string }, userId: string): Promise<Backlink[]> {
+    const links = await prisma.noteLink.findMany({
+        where: {
+            targetId: note.id,
+            source: { isTrash: false, ...noteAccessWhere(userId) },
+        },
+        select: {
+            source: {
+                select: {
+                    id: true,
+                    title: true,
+                    icon: true,
+                    contentPlaintext: true,
+                    updatedAt: true,
+                    notebook: { select: { id: true, name: true } },
+                },
+            },
+        },
+        orderBy: { source: { updatedAt: 'desc' } },
+    });
+
+    return links.map(({ source }) => ({
+        id: source.id,
+        title: source.title,
+        icon: source.icon,
+        notebook: source.notebook,
+        updatedAt: source.updatedAt,
+        excerpt: getExcerpt(source.contentPlaintext ?? '', note.title),
+    }));
+}
+
+/**
+ * Text surrounding the first mention of a title
+ */
+function getExcerpt(text: string, title: string): string {
+    const index = title ? text.toLowerCase().indexOf(title.toLowerCase()) : -1;
+    if (index === -1) {
+        return text.length > EXCERPT_RADIUS * 2 ? `${text.slice(0, EXCERPT_RADIUS * 2)}…` : text;
+    }
+
+    const start = Math.max(0, index - EXCERPT_RADIUS);
+    const end = Math.min(text.length, index + title.length + EXCERPT_RADIUS);
+    return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Extract plain text from HTML content.
+ */
+function extractPlainText(html: string): string {
+    let text = html.replace(/<[^>]+>/g, ' ');
+    text = text
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&amp;/g, '&')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"');
+    return text.replace(/\s+/g, ' ').trim();
+}
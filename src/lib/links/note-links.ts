@@ -0,0 +1,116 @@
+/**
+ * Note Link Markup
+ *
+ * Links between notes are stored in note HTML as
+ * `<span data-type="note-link" data-note-id="…">Title</span>`, written by the
+ * editor's note link node. Plain `[[Title]]` text (typed before the target
+ * existed, or imported from Markdown) also counts as a link and is resolved
+ * by title. Shared by the editor and the server, so no database access here.
+ */
+
+export const NOTE_LINK_TYPE = 'note-link';
+
+/**
+ * A link found in note content.
+ */
+export interface NoteLinkRef {
+    /** Target note ID, or null when the link only names a title */
+    noteId: string | null;
+    title: string;
+}
+
+const NOTE_LINK_PATTERN = /<span\b([^>]*\bdata-type=["']note-link["'][^>]*)>([\s\S]*?)<\/span>/gi;
+const WIKI_LINK_PATTERN = /\[\[([^[\]|]+?)(?:\|[^[\]]*)?\]\]/g;
+
+function getAttribute(attributes: string, name: string): string | null {
+    const match = attributes.match(new RegExp(`\\b${name}=["']([^"']*)["']`, 'i'));
+    return match ? decodeEntities(match[1]!) : null;
+}
+
+function decodeEntities(text: string): string {
+    return text
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, '&');
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;');
+}
+
+/**
+ * Find all note links in HTML content, de-duplicated.
+ */
+export function extractNoteLinks(html: string): NoteLinkRef[] {
+    const refs: NoteLinkRef[] = [];
+    const seen = new Set<string>();
+
+    const add = (ref: NoteLinkRef) => {
+        const key = ref.noteId ?? `title:${ref.title.toLowerCase()}`;
+        if (seen.has(key) || (!ref.noteId && !ref.title)) return;
+        seen.add(key);
+        refs.push(ref);
+    };
+
+    for (const match of html.matchAll(NOTE_LINK_PATTERN)) {
+        const attributes = match[1]!;
+        const title = decodeEntities(match[2]!.replace(/<[^>]+>/g, '')).trim();
+        add({ noteId: getAttribute(attributes, 'data-note-id') || null, title });
+    }
+
+    const text = decodeEntities(html.replace(NOTE_LINK_PATTERN, ' ').replace(/<[^>]+>/g, ''));
+    for (const match of text.matchAll(WIKI_LINK_PATTERN)) {
+        add({ noteId: null, title: match[1]!.trim() });
+    }
+
+    return refs;
+}
+
+/**
+ * Replace the visible title of every link to a note.
+ */
+export function renameNoteLinks(html: string, noteId: string, title: string): string {
+    return html.replace(NOTE_LINK_PATTERN, (whole, attributes: string) => {
+        if (getAttribute(attributes, 'data-note-id') !== noteId) return whole;
+        return `<span${attributes}>${escapeHtml(title)}</span>`;
+    });
+}
+
+/**
+ * Render the markup for a link to a note.
+ */
+export function renderNoteLink(noteId: string | null, title: string): string {
+    return `<span data-type="${NOTE_LINK_TYPE}" class="note-link" data-note-id="${escapeHtml(noteId ?? '')}">${escapeHtml(title)}</span>`;
+}
+
+/**
+ * Point title-only links at note IDs and turn plain `[[Title]]` text into
+ * link markup. Titles the resolver doesn't know are left unchanged.
+ */
+export function resolveNoteLinkTitles(html: string, resolve: (title: string) => string | null): string {
+    const linked = html.replace(NOTE_LINK_PATTERN, (whole, attributes: string, inner: string) => {
+        if (getAttribute(attributes, 'data-note-id')) return whole;
+        const title = decodeEntities(inner.replace(/<[^>]+>/g, '')).trim();
+        const noteId = resolve(title);
+        return noteId ? renderNoteLink(noteId, title) : whole;
+    });
+
+    // Only rewrite text between tags so attribute values are never touched
+    return linked
+        .split(/(<[^>]*>)/)
+        .map(part => {
+            if (part.startsWith('<')) return part;
+            return part.replace(WIKI_LINK_PATTERN, (whole, rawTitle: string) => {
+                const title = decodeEntities(rawTitle).trim();
+                const noteId = resolve(title);
+                return noteId ? renderNoteLink(noteId, title) : whole;
+            });
+        })
+        .join('');
+}
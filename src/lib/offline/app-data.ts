@@ -0,0 +1,212 @@
+/**
+ * Offline App Data
+ *
+ * Rebuilds the note lists served by `/api/app-data` from the notes cached
+ * on the device, so the app keeps working without a connection.
+ */
+
+/**
+ * A notebook, stack, tag or saved search as kept on the device. Records
+ * are stored as the API returned them; these are the fields read offline.
+ */
+export interface OfflineRecord {
+    id: string;
+    name?: string;
+    stackId?: string | null;
+}
+
+/**
+ * A note as kept on the device: the list preview, plus the full content
+ * once the note has been opened.
+ */
+export interface OfflineNote extends OfflineRecord {
+    title: string;
+    icon?: string | null;
+    cardColor?: string | null;
+    preview?: string;
+    content?: string;
+    notebookId?: string;
+    tags: Array<{ id: string; name: string }>;
+    isTrash: boolean;
+    isFavorite?: boolean;
+    createdAt: string;
+    updatedAt: string;
+    /** Created on this device and not yet sent to the server */
+    pendingCreate?: boolean;
+}
+
+export interface OfflineAppData {
+    notebooks: OfflineRecord[];
+    stacks: OfflineRecord[];
+    tags: OfflineRecord[];
+    notes: OfflineNote[];
+    trashCount: number;
+    savedSearches?: OfflineRecord[];
+    sharedNotebooks?: OfflineRecord[];
+}
+
+/**
+ * A note as `/api/sync` hands it out, with its full content.
+ */
+export interface SyncedNote extends OfflineRecord {
+    title: string;
+    content: string;
+    notebookId: string;
+    tagIds: string[];
+    isTrash: boolean;
+    isFavorite: boolean;
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * One page of changes from `/api/sync`.
+ */
+export interface SyncPage {
+    reset: boolean;
+    notes: SyncedNote[];
+    notebooks: OfflineRecord[];
+    stacks: OfflineRecord[];
+    tags: OfflineRecord[];
+    deleted: Record<'note' | 'notebook' | 'stack' | 'tag' | 'attachment', string[]>;
+    cursor: string;
+    hasMore: boolean;
+}
+
+export type OfflineSort = 'relevance' | 'updatedAt' | 'createdAt' | 'title';
+
+export interface OfflineListOptions {
+    notebookId?: string;
+    tagId?: string;
+    isTrash: boolean;
+    search?: string;
+    sort: OfflineSort;
+}
+
+// Same cap as the list previews built by the server
+const PREVIEW_LENGTH = 200;
+
+/**
+ * Read the list filters back out of an app-data cache key.
+ */
+export function parseAppDataKey(key: string): OfflineListOptions {
+    const params = new URL(key, 'http://localhost').searchParams;
+    const sort = params.get('sort');
+
+    return {
+        notebookId: params.get('notebookId') || undefined,
+        tagId: params.get('tagId') || undefined,
+        isTrash: params.get('isTrash') === 'true',
+        search: params.get('search')?.trim() || undefined,
+        sort: sort === 'updatedAt' || sort === 'createdAt' || sort === 'title' ? sort : 'relevance',
+    };
+}
+
+/**
+ * Plain-text list preview of note HTML.
+ */
+export function previewFromHtml(html: string): string {
+    return html
+        .replace(/<[^>]+>/g, ' ')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&amp;/g, '&')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/\s+/g, ' ')
+        .trim()
+        .substring(0, PREVIEW_LENGTH);
+}
+
+/**
+ * Apply the fields of a note update to a cached note. Only fields the
+ * device can show are applied; the server's copy wins after the next sync.
+ */
+export function applyNoteChanges(note: OfflineNote, changes: Record<string, unknown>): OfflineNote {
+    const updated: OfflineNote = { ...note };
+
+    for (const field of ['title', 'icon', 'cardColor', 'notebookId', 'isTrash', 'isFavorite']) {
+        if (changes[field] !== undefined) {
+            Object.assign(updated, { [field]: changes[field] });
+        }
+    }
+
+    if (typeof changes.content === 'string') {
+        updated.content = changes.content;
+        updated.preview = previewFromHtml(changes.content);
+    }
+
+    return updated;
+}
+
+/**
+ * The cached notes matching a list's filters, in its sort order. Offline
+ * search matches the words in titles and previews; there's no ranking, so
+ * relevance sorts by last update like the server does for plain lists.
+ */
+export function listOfflineNotes(notes: OfflineNote[], options: OfflineListOptions): OfflineNote[] {
+    const words = options.search?.toLowerCase().split(/\s+/).filter(Boolean) ?? [];
+
+    const matches = notes.filter((note) => {
+        if (note.isTrash !== options.isTrash) return false;
+        if (options.notebookId && note.notebookId !== options.notebookId) return false;
+        if (options.tagId && !note.tags.some(tag => tag.id === options.tagId)) return false;
+        if (words.length > 0) {
+            const text = `${note.title} ${note.preview ?? ''}`.toLowerCase();
+            return words.every(word => text.includes(word));
+        }
+        return true;
+    });
+
+    return matches.sort((a, b) => {
+        switch (options.sort) {
+            case 'title':
+                return a.title.localeCompare(b.title);
+            case 'createdAt':
+                return b.createdAt.localeCompare(a.createdAt);
+            default:
+                return b.updatedAt.localeCompare(a.updatedAt);
+        }
+    });
+}
+
+/**
+ * Build an app-data response for a list from the cached data.
+ */
+export function buildOfflineAppData(
+    snapshot: Omit<OfflineAppData, 'notes'>,
+    notes: OfflineNote[],
+    options: OfflineListOptions
+): OfflineAppData {
+    return {
+        ...snapshot,
+        notes: listOfflineNotes(notes, options).map(toNotePreview),
+    };
+}
+
+/**
+ * A cached note without its content, as lists show it.
+ */
+export function toNotePreview(note: OfflineNote): OfflineNote {
+    const preview = { ...note };
+    delete preview.content;
+    delete preview.pendingCreate;
+    return preview;
+}
+
+/**
+ * A synced note as kept on the device. Tags the device doesn't know yet
+ * are left off until they arrive.
+ */
+export function fromSyncedNote(note: SyncedNote, tagNames: Map<string, string>): OfflineNote {
+    const { tagIds, ...fields } = note;
+    return {
+        ...fields,
+        preview: previewFromHtml(note.content),
+        tags: tagIds.flatMap((id) => {
+            const name = tagNames.get(id);
+            return name === undefined ? [] : [{ id, name }];
+        }),
+    };
+}
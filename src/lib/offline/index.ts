@@ -0,0 +1,50 @@
+/**
+ * Offline module exports.
+ */
+
+export {
+    parseAppDataKey,
+    previewFromHtml,
+    applyNoteChanges,
+    listOfflineNotes,
+    buildOfflineAppData,
+    toNotePreview,
+    fromSyncedNote,
+} from './app-data';
+export type {
+    OfflineRecord,
+    OfflineNote,
+    OfflineAppData,
+    OfflineSort,
+    OfflineListOptions,
+    SyncedNote,
+    SyncPage,
+} from './app-data';
+export { planQueuedMutation, pendingNoteIds, rebaseMutation, recordReplayedVersion } from './mutations';
+export type { MutationMethod, OfflineMutation, QueuePlan, ReplayConflict, FailedMutation } from './mutations';
+export {
+    isOfflineStoreAvailable,
+    cacheAppData,
+    readCachedAppData,
+    cacheNote,
+    getCachedNote,
+    clearOfflineData,
+} from './local-store';
+export {
+    getOfflineSyncState,
+    subscribeOfflineSync,
+    dismissReplayConflict,
+    retryFailedMutations,
+    discardFailedMutations,
+    isOffline,
+    isNetworkError,
+    claimOfflineData,
+    queueNoteUpdate,
+    queueNoteDelete,
+    queueNoteCreate,
+    queueRecordUpdate,
+    queueStackDelete,
+    replayQueuedMutations,
+    pullServerChanges,
+} from './sync';
+export type { OfflineSyncState } from './sync';
@@ -0,0 +1,442 @@
+/**
+ * Offline Store
+ *
+ * IndexedDB copy of the signed-in user's notebooks, notes and tags, plus
+ * the queue of changes waiting to be sent. Browser only.
+ */
+
+import {
+    applyNoteChanges,
+    buildOfflineAppData,
+    fromSyncedNote,
+    parseAppDataKey,
+    type OfflineAppData,
+    type OfflineNote,
+    type OfflineRecord,
+    type SyncPage,
+} from './app-data';
+import {
+    pendingNoteIds,
+    planQueuedMutation,
+    type FailedMutation,
+    type OfflineMutation,
+    type ReplayConflict,
+} from './mutations';
+
+const DB_NAME = 'notova-offline';
+const DB_VERSION = 1;
+
+const NOTES = 'notes';
+const NOTEBOOKS = 'notebooks';
+const TAGS = 'tags';
+const META = 'meta';
+const MUTATIONS = 'mutations';
+
+// Parts of app data that are kept whole rather than per record
+type OfflineMeta = Omit<OfflineAppData, 'notebooks' | 'tags' | 'notes'>;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                db.createObjectStore(NOTES, { keyPath: 'id' });
+                db.createObjectStore(NOTEBOOKS, { keyPath: 'id' });
+                db.createObjectStore(TAGS, { keyPath: 'id' });
+                db.createObjectStore(META);
+                db.createObjectStore(MUTATIONS, { keyPath: 'seq', autoIncrement: true });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Run `work` in one transaction and resolve with its result once the
+ * transaction has committed.
+ */
+async function withStores<T>(
+    storeNames: string[],
+    mode: IDBTransactionMode,
+    work: (transaction: IDBTransaction) => Promise<T> | T
+): Promise<T> {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeNames, mode);
+    const done = new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+
+    const result = await work(transaction);
+    await done;
+    return result;
+}
+
+/**
+ * Whether this browser can keep data offline.
+ */
+export function isOfflineStoreAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+}
+
+// ============================================================================
+// Cached data
+// ============================================================================
+
+/**
+ * Keep the data from an app-data response. Notes with queued changes keep
+ * their local copy.
+ */
+export async function cacheAppData(data: OfflineAppData): Promise<void> {
+    const queue = await listQueuedMutations();
+    const pending = pendingNoteIds(queue);
+
+    await withStores([NOTES, NOTEBOOKS, TAGS, META], 'readwrite', async (transaction) => {
+        await requestResult(transaction.objectStore(NOTEBOOKS).clear());
+        data.notebooks.forEach(notebook => transaction.objectStore(NOTEBOOKS).put(notebook));
+        await requestResult(transaction.objectStore(TAGS).clear());
+        data.tags.forEach(tag => transaction.objectStore(TAGS).put(tag));
+
+        const meta: OfflineMeta = {
+            stacks: data.stacks,
+            trashCount: data.trashCount,
+            savedSearches: data.savedSearches,
+            sharedNotebooks: data.sharedNotebooks,
+        };
+        transaction.objectStore(META).put(meta, 'appData');
+
+        for (const note of data.notes) {
+            if (pending.has(note.id)) continue;
+            const cached = await requestResult(transaction.objectStore(NOTES).get(note.id)) as OfflineNote | undefined;
+            // Keep the content of opened notes unless the note changed since
+            transaction.objectStore(NOTES).put(cached?.content !== undefined && cached.updatedAt === note.updatedAt
+                ? { ...note, content: cached.content }
+                : note);
+        }
+    });
+}
+
+/**
+ * Build a note list from the cached data, for when the server can't be
+ * reached. Resolves to null when nothing has been cached yet.
+ */
+export async function readCachedAppData(key: string): Promise<OfflineAppData | null> {
+    return withStores([NOTES, NOTEBOOKS, TAGS, META], 'readonly', async (transaction) => {
+        const meta = await requestResult(transaction.objectStore(META).get('appData')) as OfflineMeta | undefined;
+        if (!meta) return null;
+
+        const [notebooks, tags, notes] = await Promise.all([
+            requestResult(transaction.objectStore(NOTEBOOKS).getAll()) as Promise<OfflineRecord[]>,
+            requestResult(transaction.objectStore(TAGS).getAll()) as Promise<OfflineRecord[]>,
+            requestResult(transaction.objectStore(NOTES).getAll()) as Promise<OfflineNote[]>,
+        ]);
+
+        return buildOfflineAppData({ ...meta, notebooks, tags }, notes, parseAppDataKey(key));
+    });
+}
+
+/**
+ * Keep an opened note, including its content.
+ */
+export async function cacheNote(note: OfflineNote): Promise<void> {
+    const pending = pendingNoteIds(await listQueuedMutations());
+    if (pending.has(note.id)) return;
+
+    await withStores([NOTES], 'readwrite', async (transaction) => {
+        const cached = await requestResult(transaction.objectStore(NOTES).get(note.id)) as OfflineNote | undefined;
+        transaction.objectStore(NOTES).put({ ...cached, ...note });
+    });
+}
+
+export async function getCachedNote(noteId: string): Promise<OfflineNote | null> {
+    return withStores([NOTES], 'readonly', async (transaction) =>
+        (await requestResult(transaction.objectStore(NOTES).get(noteId)) as OfflineNote | undefined) ?? null
+    );
+}
+
+/**
+ * Apply a change made on this device to the cached note.
+ */
+export async function updateCachedNote(noteId: string, changes: Record<string, unknown>): Promise<OfflineNote | null> {
+    return withStores([NOTES], 'readwrite', async (transaction) => {
+        const cached = await requestResult(transaction.objectStore(NOTES).get(noteId)) as OfflineNote | undefined;
+        if (!cached) return null;
+
+        const updated = applyNoteChanges(cached, changes);
+        transaction.objectStore(NOTES).put(updated);
+        return updated;
+    });
+}
+
+export async function putCachedNote(note: OfflineNote): Promise<void> {
+    await withStores([NOTES], 'readwrite', (transaction) => {
+        transaction.objectStore(NOTES).put(note);
+    });
+}
+
+export async function removeCachedNote(noteId: string): Promise<void> {
+    await withStores([NOTES], 'readwrite', (transaction) => {
+        transaction.objectStore(NOTES).delete(noteId);
+    });
+}
+
+/**
+ * Apply a change made on this device to a cached notebook or stack.
+ */
+export async function updateCachedRecord(
+    kind: 'notebook' | 'stack',
+    id: string,
+    changes: Record<string, unknown> | null
+): Promise<void> {
+    if (kind === 'notebook') {
+        await withStores([NOTEBOOKS], 'readwrite', async (transaction) => {
+            const cached = await requestResult(transaction.objectStore(NOTEBOOKS).get(id)) as OfflineRecord | undefined;
+            if (cached && changes) transaction.objectStore(NOTEBOOKS).put({ ...cached, ...changes });
+        });
+        return;
+    }
+
+    await withStores([META, NOTEBOOKS], 'readwrite', async (transaction) => {
+        const meta = await requestResult(transaction.objectStore(META).get('appData')) as OfflineMeta | undefined;
+        if (!meta) return;
+
+        const stacks = changes
+            ? meta.stacks.map(stack => stack.id === id ? { ...stack, ...changes } : stack)
+            : meta.stacks.filter(stack => stack.id !== id);
+        transaction.objectStore(META).put({ ...meta, stacks }, 'appData');
+
+        // Deleting a stack unstacks its notebooks
+        if (!changes) {
+            const notebooks = await requestResult(transaction.objectStore(NOTEBOOKS).getAll()) as OfflineRecord[];
+            notebooks
+                .filter(notebook => notebook.stackId === id)
+                .forEach(notebook => transaction.objectStore(NOTEBOOKS).put({ ...notebook, stackId: null }));
+        }
+    });
+}
+
+/**
+ * Where the last pull from `/api/sync` left off.
+ */
+export async function getSyncCursor(): Promise<string | null> {
+    return withStores([META], 'readonly', async (transaction) =>
+        (await requestResult(transaction.objectStore(META).get('syncCursor')) as string | undefined) ?? null
+    );
+}
+
+/**
+ * Apply a page of changes from `/api/sync`. Notes with queued changes keep
+ * their local copy.
+ */
+export async function applySyncPage(page: SyncPage): Promise<void> {
+    const pending = pendingNoteIds(await listQueuedMutations());
+
+    await withStores([NOTES, NOTEBOOKS, TAGS, META], 'readwrite', async (transaction) => {
+        const notes = transaction.objectStore(NOTES);
+        const notebooks = transaction.objectStore(NOTEBOOKS);
+        const tags = transaction.objectStore(TAGS);
+
+        const cachedNotes = await requestResult(notes.getAll()) as OfflineNote[];
+        const deletedNotebooks = new Set(page.deleted.notebook);
+        for (const note of cachedNotes) {
+            // A full sync replaces everything; deleted notebooks take their notes along
+            if (!pending.has(note.id) && (page.reset || (note.notebookId && deletedNotebooks.has(note.notebookId)))) {
+                notes.delete(note.id);
+            }
+        }
+
+        // Keep fields the app-data lists added, like note counts
+        const merge = async (store: IDBObjectStore, record: OfflineRecord) => {
+            const cached = await requestResult(store.get(record.id)) as OfflineRecord | undefined;
+            store.put({ ...cached, ...record });
+        };
+        for (const notebook of page.notebooks) await merge(notebooks, notebook);
+        page.deleted.notebook.forEach(id => notebooks.delete(id));
+        for (const tag of page.tags) await merge(tags, tag);
+        page.deleted.tag.forEach(id => tags.delete(id));
+
+        const meta = await requestResult(transaction.objectStore(META).get('appData')) as OfflineMeta | undefined;
+        if (meta && (page.stacks.length > 0 || page.deleted.stack.length > 0)) {
+            const updated = new Map(page.stacks.map(stack => [stack.id, stack]));
+            const stacks = meta.stacks
+                .filter(stack => !page.deleted.stack.includes(stack.id))
+                .map(stack => ({ ...stack, ...updated.get(stack.id) }));
+            const known = new Set(stacks.map(stack => stack.id));
+            stacks.push(...page.stacks.filter(stack => !known.has(stack.id)));
+            transaction.objectStore(META).put({ ...meta, stacks }, 'appData');
+        }
+
+        const tagNames = new Map(
+            (await requestResult(tags.getAll()) as OfflineRecord[]).map(tag => [tag.id, String(tag.name)])
+        );
+        for (const note of page.notes) {
+            if (!pending.has(note.id)) notes.put(fromSyncedNote(note, tagNames));
+        }
+        page.deleted.note
+            .filter(id => !pending.has(id))
+            .forEach(id => notes.delete(id));
+
+        transaction.objectStore(META).put(page.cursor, 'syncCursor');
+    });
+}
+
+// ============================================================================
+// Mutation queue
+// ============================================================================
+
+export async function listQueuedMutations(): Promise<OfflineMutation[]> {
+    return withStores([MUTATIONS], 'readonly', (transaction) =>
+        requestResult(transaction.objectStore(MUTATIONS).getAll()) as Promise<OfflineMutation[]>
+    );
+}
+
+/**
+ * Add a change to the queue, folding it into earlier changes to the same
+ * record where possible.
+ */
+export async function enqueueMutation(mutation: OfflineMutation): Promise<void> {
+    await withStores([MUTATIONS], 'readwrite', async (transaction) => {
+        const queue = await requestResult(transaction.objectStore(MUTATIONS).getAll()) as OfflineMutation[];
+        const plan = planQueuedMutation(queue, mutation);
+
+        if (plan.type === 'merge') {
+            transaction.objectStore(MUTATIONS).put(plan.mutation);
+        } else if (plan.type === 'cancel') {
+            plan.seqs.forEach(seq => transaction.objectStore(MUTATIONS).delete(seq));
+        } else {
+            transaction.objectStore(MUTATIONS).add(mutation);
+        }
+    });
+}
+
+export async function removeQueuedMutation(seq: number): Promise<void> {
+    await withStores([MUTATIONS], 'readwrite', (transaction) => {
+        transaction.objectStore(MUTATIONS).delete(seq);
+    });
+}
+
+// ============================================================================
+// Replay conflicts
+// ============================================================================
+
+/**
+ * Conflicts waiting for the user, by note ID.
+ */
+export async function listReplayConflicts(): Promise<Record<string, ReplayConflict>> {
+    return withStores([META], 'readonly', async (transaction) =>
+        (await requestResult(transaction.objectStore(META).get('conflicts')) as Record<string, ReplayConflict> | undefined) ?? {}
+    );
+}
+
+/**
+ * Swap a queued mutation the server turned back for its conflict, in one
+ * transaction so the edit is never in neither place.
+ */
+export async function keepReplayConflict(seq: number, noteId: string, conflict: ReplayConflict): Promise<void> {
+    await withStores([MUTATIONS, META], 'readwrite', async (transaction) => {
+        const meta = transaction.objectStore(META);
+        const conflicts = await requestResult(meta.get('conflicts')) as Record<string, ReplayConflict> | undefined;
+        meta.put({ ...conflicts, [noteId]: conflict }, 'conflicts');
+        transaction.objectStore(MUTATIONS).delete(seq);
+    });
+}
+
+export async function removeReplayConflict(noteId: string): Promise<void> {
+    await withStores([META], 'readwrite', async (transaction) => {
+        const meta = transaction.objectStore(META);
+        const conflicts = await requestResult(meta.get('conflicts')) as Record<string, ReplayConflict> | undefined;
+        if (!conflicts?.[noteId]) return;
+
+        delete conflicts[noteId];
+        meta.put(conflicts, 'conflicts');
+    });
+}
+
+// ============================================================================
+// Failed mutations
+// ============================================================================
+
+/**
+ * Changes the server refused, oldest first.
+ */
+export async function listFailedMutations(): Promise<FailedMutation[]> {
+    return withStores([META], 'readonly', async (transaction) =>
+        (await requestResult(transaction.objectStore(META).get('failed')) as FailedMutation[] | undefined) ?? []
+    );
+}
+
+/**
+ * Move a queued mutation the server refused out of the queue, in one
+ * transaction so the change is never in neither place.
+ */
+export async function keepFailedMutation(failure: FailedMutation): Promise<void> {
+    await withStores([MUTATIONS, META], 'readwrite', async (transaction) => {
+        const meta = transaction.objectStore(META);
+        const failed = await requestResult(meta.get('failed')) as FailedMutation[] | undefined;
+        meta.put([...(failed ?? []), failure], 'failed');
+        transaction.objectStore(MUTATIONS).delete(failure.mutation.seq!);
+    });
+}
+
+/**
+ * Drop the failed mutations, putting them back at the end of the queue
+ * when `requeue` is set.
+ */
+export async function clearFailedMutations(requeue: boolean): Promise<void> {
+    await withStores([MUTATIONS, META], 'readwrite', async (transaction) => {
+        const meta = transaction.objectStore(META);
+        const failed = await requestResult(meta.get('failed')) as FailedMutation[] | undefined;
+
+        if (requeue) {
+            for (const { mutation } of failed ?? []) {
+                const queued = { ...mutation };
+                delete queued.seq;
+                transaction.objectStore(MUTATIONS).add(queued);
+            }
+        }
+        meta.delete('failed');
+    });
+}
+
+/**
+ * Forget everything kept for the signed-in user, e.g. on sign out.
+ */
+export async function clearOfflineData(): Promise<void> {
+    if (!isOfflineStoreAvailable()) return;
+
+    const storeNames = [NOTES, NOTEBOOKS, TAGS, META, MUTATIONS];
+    await withStores(storeNames, 'readwrite', (transaction) => {
+        storeNames.forEach(name => transaction.objectStore(name).clear());
+    });
+}
+
+/**
+ * The user the cached data belongs to.
+ */
+export async function getOfflineOwner(): Promise<string | null> {
+    return withStores([META], 'readonly', async (transaction) =>
+        (await requestResult(transaction.objectStore(META).get('owner')) as string | undefined) ?? null
+    );
+}
+
+export async function setOfflineOwner(userId: string): Promise<void> {
+    await withStores([META], 'readwrite', (transaction) => {
+        transaction.objectStore(META).put(userId, 'owner');
+    });
+}
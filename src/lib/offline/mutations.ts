@@ -0,0 +1,128 @@
+/**
+ * Offline Mutations
+ *
+ * Changes made without a connection are queued as the API requests they
+ * stand for and sent in order once the device is back online. Note content
+ * changes carry the version they were made against, so replaying them goes
+ * through the same conflict check as a live save.
+ */
+
+export type MutationMethod = 'POST' | 'PATCH' | 'PUT' | 'DELETE';
+
+export interface OfflineMutation {
+    /** Queue position, assigned when stored */
+    seq?: number;
+    method: MutationMethod;
+    url: string;
+    body?: Record<string, unknown>;
+    /** The note this changes */
+    noteId?: string;
+    /** The note's version on this device when the change was made */
+    version?: string;
+    queuedAt: string;
+}
+
+/**
+ * A queued edit that was turned back because the note changed on the
+ * server while this device was offline.
+ */
+export interface ReplayConflict {
+    mine: { title: string; content: string };
+    theirs: { id: string; title: string; content: string; updatedAt: string };
+}
+
+/**
+ * A queued change the server refused for a reason other than a conflict,
+ * e.g. the note is gone or access was revoked while offline.
+ */
+export interface FailedMutation {
+    mutation: OfflineMutation;
+    status: number;
+    /** The server's explanation, when it gave one */
+    error: string | null;
+    failedAt: string;
+}
+
+/**
+ * How to fit a new mutation into the queue:
+ * - append: queue it as is
+ * - merge: replace the queued mutation with the same seq by this one
+ * - cancel: drop these queued mutations, and the new one with them
+ */
+export type QueuePlan =
+    | { type: 'append' }
+    | { type: 'merge'; mutation: OfflineMutation }
+    | { type: 'cancel'; seqs: number[] };
+
+/**
+ * Decide how a new mutation joins the queue. Repeated updates to the same
+ * record collapse into one request, and a note created and then deleted
+ * on this device never reaches the server.
+ */
+export function planQueuedMutation(queue: OfflineMutation[], next: OfflineMutation): QueuePlan {
+    if (next.method === 'DELETE' && next.noteId && next.url.includes('permanent=true')) {
+        const related = queue.filter(mutation => mutation.noteId === next.noteId);
+        if (related.some(mutation => mutation.method === 'POST') && related.every(mutation => mutation.seq !== undefined)) {
+            return { type: 'cancel', seqs: related.map(mutation => mutation.seq!) };
+        }
+    }
+
+    if (next.method === 'PATCH' || next.method === 'PUT') {
+        const previous = [...queue].reverse().find(mutation => mutation.url === next.url);
+        if (previous?.method === next.method && previous.seq !== undefined) {
+            const baseUpdatedAt = previous.body?.baseUpdatedAt ?? next.body?.baseUpdatedAt;
+            return {
+                type: 'merge',
+                mutation: {
+                    ...previous,
+                    body: {
+                        ...previous.body,
+                        ...next.body,
+                        ...(baseUpdatedAt !== undefined ? { baseUpdatedAt } : {}),
+                    },
+                    version: previous.version ?? next.version,
+                },
+            };
+        }
+    }
+
+    return { type: 'append' };
+}
+
+/**
+ * Notes with queued changes. Their cached copy is newer than the server's
+ * until the queue is sent.
+ */
+export function pendingNoteIds(queue: OfflineMutation[]): Set<string> {
+    return new Set(queue.flatMap(mutation => mutation.noteId ? [mutation.noteId] : []));
+}
+
+function versionKey(noteId: string, version: string): string {
+    return `${noteId}@${version}`;
+}
+
+/**
+ * Body to send for a queued mutation. Earlier mutations in the same replay
+ * move a note to new versions; a content change made against the version
+ * they started from is sent against the version they produced instead.
+ */
+export function rebaseMutation(mutation: OfflineMutation, versions: Map<string, string>): Record<string, unknown> | undefined {
+    const baseUpdatedAt = mutation.body?.baseUpdatedAt;
+    if (!mutation.noteId || typeof baseUpdatedAt !== 'string') {
+        return mutation.body;
+    }
+
+    return {
+        ...mutation.body,
+        baseUpdatedAt: versions.get(versionKey(mutation.noteId, baseUpdatedAt)) ?? baseUpdatedAt,
+    };
+}
+
+/**
+ * Remember the version the server gave a note after a replayed mutation.
+ */
+export function recordReplayedVersion(versions: Map<string, string>, mutation: OfflineMutation, serverVersion: string) {
+    if (mutation.noteId && mutation.version) {
+        versions.set(versionKey(mutation.noteId, mutation.version), serverVersion);
+    }
+}
@@ -0,0 +1,355 @@
+/**
+ * Offline Sync
+ *
+ * Queues changes made without a connection, applies them to the cached
+ * data right away and sends them in order once the device is back online.
+ * A queued content change that collides with a newer server version is
+ * kept as a conflict for the user to resolve, and a change the server
+ * refuses outright is kept until the user retries or discards it.
+ * Browser only.
+ */
+
+import type { OfflineNote, SyncPage } from './app-data';
+import {
+    applySyncPage,
+    clearFailedMutations,
+    clearOfflineData,
+    enqueueMutation,
+    getCachedNote,
+    getOfflineOwner,
+    getSyncCursor,
+    keepFailedMutation,
+    keepReplayConflict,
+    listFailedMutations,
+    listQueuedMutations,
+    listReplayConflicts,
+    putCachedNote,
+    removeCachedNote,
+    removeQueuedMutation,
+    removeReplayConflict,
+    setOfflineOwner,
+    updateCachedNote,
+    updateCachedRecord,
+} from './local-store';
+import {
+    rebaseMutation,
+    recordReplayedVersion,
+    type FailedMutation,
+    type OfflineMutation,
+    type ReplayConflict,
+} from './mutations';
+
+export interface OfflineSyncState {
+    /** Changes waiting to be sent */
+    pending: number;
+    syncing: boolean;
+    /** Unresolved conflicts by note ID */
+    conflicts: Record<string, ReplayConflict>;
+    /** Changes the server refused, oldest first */
+    failed: FailedMutation[];
+}
+
+let state: OfflineSyncState = { pending: 0, syncing: false, conflicts: {}, failed: [] };
+const listeners = new Set<() => void>();
+
+function setState(changes: Partial<OfflineSyncState>) {
+    state = { ...state, ...changes };
+    listeners.forEach(listener => listener());
+}
+
+export function getOfflineSyncState(): OfflineSyncState {
+    return state;
+}
+
+export function subscribeOfflineSync(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+}
+
+/**
+ * Forget a conflict once the user has settled it.
+ */
+export async function dismissReplayConflict(noteId: string): Promise<void> {
+    if (state.conflicts[noteId]) {
+        const conflicts = { ...state.conflicts };
+        delete conflicts[noteId];
+        setState({ conflicts });
+    }
+    await removeReplayConflict(noteId);
+}
+
+/**
+ * Put the refused changes back in the queue and try them again.
+ */
+export async function retryFailedMutations(): Promise<number> {
+    await clearFailedMutations(true);
+    setState({ failed: [] });
+    await refreshPendingCount();
+    return replayQueuedMutations();
+}
+
+/**
+ * Give up on the refused changes.
+ */
+export async function discardFailedMutations(): Promise<void> {
+    await clearFailedMutations(false);
+    setState({ failed: [] });
+}
+
+/**
+ * Whether the browser knows it has no connection.
+ */
+export function isOffline(): boolean {
+    return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+/**
+ * fetch rejects with a TypeError when the request never reached the server.
+ */
+export function isNetworkError(error: unknown): boolean {
+    return error instanceof TypeError;
+}
+
+async function refreshPendingCount() {
+    setState({ pending: (await listQueuedMutations()).length });
+}
+
+/**
+ * Make the cached data the given user's, dropping anything left behind by
+ * another account on this device.
+ */
+export async function claimOfflineData(userId: string): Promise<void> {
+    const owner = await getOfflineOwner();
+    if (owner !== userId) {
+        if (owner) await clearOfflineData();
+        await setOfflineOwner(userId);
+    }
+    // Conflicts and refused changes left when the app was last closed
+    setState({ conflicts: await listReplayConflicts(), failed: await listFailedMutations() });
+    await refreshPendingCount();
+}
+
+async function queueMutation(mutation: Omit<OfflineMutation, 'queuedAt' | 'seq'>) {
+    await enqueueMutation({ ...mutation, queuedAt: new Date().toISOString() });
+    await refreshPendingCount();
+}
+
+// ============================================================================
+// Queuing changes
+// ============================================================================
+
+/**
+ * Queue an update to a note. Resolves to the updated cached note, or null
+ * when the note isn't cached on this device.
+ */
+export async function queueNoteUpdate(noteId: string, changes: Record<string, unknown>): Promise<OfflineNote | null> {
+    const cached = await getCachedNote(noteId);
+    await queueMutation({
+        method: 'PATCH',
+        url: `/api/notes/${noteId}`,
+        body: changes,
+        noteId,
+        version: cached?.updatedAt,
+    });
+    return updateCachedNote(noteId, changes);
+}
+
+/**
+ * Queue moving a note to the trash, or deleting it for good.
+ */
+export async function queueNoteDelete(noteId: string, permanent: boolean): Promise<void> {
+    const cached = await getCachedNote(noteId);
+    await queueMutation({
+        method: 'DELETE',
+        url: `/api/notes/${noteId}${permanent ? '?permanent=true' : ''}`,
+        noteId,
+        version: cached?.updatedAt,
+    });
+
+    if (permanent) {
+        await removeCachedNote(noteId);
+    } else {
+        await updateCachedNote(noteId, { isTrash: true });
+    }
+}
+
+/**
+ * Queue creating a note. The note gets its ID on this device so later
+ * changes can refer to it before the server has seen it.
+ */
+export async function queueNoteCreate(note: OfflineNote): Promise<void> {
+    await queueMutation({
+        method: 'POST',
+        url: '/api/notes',
+        body: { id: note.id, title: note.title, content: note.content ?? '', notebookId: note.notebookId },
+        noteId: note.id,
+        version: note.updatedAt,
+    });
+    await putCachedNote({ ...note, pendingCreate: true });
+}
+
+/**
+ * Queue an update to a notebook or stack.
+ */
+export async function queueRecordUpdate(kind: 'notebook' | 'stack', id: string, changes: Record<string, unknown>): Promise<void> {
+    await queueMutation(kind === 'notebook'
+        ? { method: 'PATCH', url: `/api/notebooks/${id}`, body: changes }
+        : { method: 'PUT', url: `/api/stacks/${id}`, body: changes });
+    await updateCachedRecord(kind, id, changes);
+}
+
+export async function queueStackDelete(id: string): Promise<void> {
+    await queueMutation({ method: 'DELETE', url: `/api/stacks/${id}` });
+    await updateCachedRecord('stack', id, null);
+}
+
+// ============================================================================
+// Replay
+// ============================================================================
+
+function send(mutation: OfflineMutation, body: Record<string, unknown> | undefined): Promise<Response> {
+    return fetch(mutation.url, {
+        method: mutation.method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+    });
+}
+
+async function runReplay(): Promise<number> {
+    setState({ syncing: true });
+    const versions = new Map<string, string>();
+    const conflicts = { ...state.conflicts };
+    const failed = [...state.failed];
+    let applied = 0;
+
+    try {
+        for (const mutation of await listQueuedMutations()) {
+            const body = rebaseMutation(mutation, versions);
+            let conflict: ReplayConflict | null = null;
+            let response: Response;
+
+            try {
+                response = await send(mutation, body);
+
+                if (response.status === 409 && mutation.method === 'PATCH' && mutation.noteId && body) {
+                    const { note: theirs } = await response.json() as { note: ReplayConflict['theirs'] };
+                    const { title, content, ...rest } = body;
+                    delete rest.baseUpdatedAt;
+                    conflict = {
+                        mine: { title: typeof title === 'string' ? title : theirs.title, content: String(content) },
+                        theirs,
+                    };
+
+                    // The rest of the change doesn't depend on the content
+                    if (Object.keys(rest).length > 0) {
+                        response = await send(mutation, rest);
+                    }
+                }
+            } catch (error) {
+                if (isNetworkError(error)) break;
+                throw error;
+            }
+
+            // Still unreachable, or signed out: try again later
+            if (response.status === 401 || response.status >= 500) break;
+
+            if (response.ok && mutation.noteId) {
+                const result = await response.json().catch(() => null) as { updatedAt?: string } | null;
+                if (result?.updatedAt) {
+                    recordReplayedVersion(versions, mutation, result.updatedAt);
+                }
+            }
+
+            // Turned-back changes stay on the device until the user settles them
+            if (conflict && mutation.noteId) {
+                await keepReplayConflict(mutation.seq!, mutation.noteId, conflict);
+                conflicts[mutation.noteId] = conflict;
+            } else if (!response.ok) {
+                const result = await response.json().catch(() => null) as { error?: string } | null;
+                const failure: FailedMutation = {
+                    mutation,
+                    status: response.status,
+                    error: typeof result?.error === 'string' ? result.error : null,
+                    failedAt: new Date().toISOString(),
+                };
+                await keepFailedMutation(failure);
+                failed.push(failure);
+            } else {
+                await removeQueuedMutation(mutation.seq!);
+            }
+            applied++;
+        }
+    } finally {
+        setState({ syncing: false, conflicts, failed, pending: (await listQueuedMutations()).length });
+    }
+
+    return applied;
+}
+
+let replay: Promise<number> | null = null;
+
+/**
+ * Send the queued changes in order. Stops at the first one that can't
+ * reach the server and leaves the rest for the next attempt. Resolves to
+ * the number of changes sent.
+ */
+export function replayQueuedMutations(): Promise<number> {
+    if (!replay) {
+        replay = runReplay().finally(() => {
+            replay = null;
+        });
+    }
+    return replay;
+}
+
+// ============================================================================
+// Pulling server changes
+// ============================================================================
+
+function syncUrl(cursor: string | null): string {
+    return cursor ? `/api/sync?cursor=${encodeURIComponent(cursor)}` : '/api/sync';
+}
+
+async function runPull(): Promise<number> {
+    let cursor = await getSyncCursor();
+    let received = 0;
+    let hasMore = true;
+
+    while (hasMore) {
+        let response = await fetch(syncUrl(cursor));
+
+        // A cursor the server no longer understands: start over
+        if (response.status === 400 && cursor) {
+            cursor = null;
+            response = await fetch(syncUrl(cursor));
+        }
+        if (!response.ok) {
+            throw new Error(`Failed to pull changes: ${response.status}`);
+        }
+
+        const page = await response.json() as SyncPage;
+        await applySyncPage(page);
+        received += page.notes.length;
+        cursor = page.cursor;
+        hasMore = page.hasMore;
+    }
+
+    return received;
+}
+
+let pull: Promise<number> | null = null;
+
+/**
+ * Bring the cached notes up to date with the server, content included, so
+ * notes that were never opened on this device can be read offline too.
+ * The first pull copies everything; later ones only what changed since.
+ * Resolves to the number of notes received.
+ */
+export function pullServerChanges(): Promise<number> {
+    if (!pull) {
+        pull = runPull().finally(() => {
+            pull = null;
+        });
+    }
+    return pull;
+}
@@ -0,0 +1,164 @@
+/**
+ * Notebook Access
+ *
+ * Decides who may see or change a notebook, its notes and their
+ * attachments. List queries filter with the `*AccessWhere` clauses; single
+ * records are checked with the `authorize*` helpers, which tell "doesn't
+ * exist for you" (404) apart from "you can see it but not do that" (403).
+ */
+
+import { NextResponse } from 'next/server';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import {
+    hasPermission,
+    isNotebookRole,
+    rolesWithPermission,
+    type NotebookAccess,
+    type NotebookPermission,
+} from './roles';
+
+/**
+ * Notebooks the user owns, or is a member of with a role that grants the
+ * permission.
+ */
+export function notebookAccessWhere(
+    userId: string,
+    permission: NotebookPermission = 'read'
+): Prisma.NotebookWhereInput {
+    const roles = rolesWithPermission(permission);
+    if (roles.length === 0) return { userId };
+
+    return {
+        OR: [
+            { userId },
+            { members: { some: { userId, role: { in: roles } } } },
+        ],
+    };
+}
+
+/**
+ * Notes in notebooks the user has the permission on.
+ */
+export function noteAccessWhere(
+    userId: string,
+    permission: NotebookPermission = 'read'
+): Prisma.NoteWhereInput {
+    return { notebook: notebookAccessWhere(userId, permission) };
+}
+
+/**
+ * Notebook fields `resolveNotebookAccess` needs, for use in a select or
+ * include.
+ */
+export function notebookAccessSelect(userId: string) {
+    return {
+        userId: true,
+        members: { where: { userId }, select: { role: true } },
+    } satisfies Prisma.NotebookSelect;
+}
+
+interface NotebookAccessFields {
+    userId: string;
+    members: Array<{ role: string }>;
+}
+
+/**
+ * The user's access to a notebook loaded with `notebookAccessSelect`, or
+ * null when they have none.
+ */
+export function resolveNotebookAccess(userId: string, notebook: NotebookAccessFields): NotebookAccess | null {
+    if (notebook.userId === userId) return 'owner';
+    const role = notebook.members[0]?.role;
+    return role && isNotebookRole(role) ? role : null;
+}
+
+/**
+ * Outcome of authorizing one record. `ownerId` is the notebook owner, whose
+ * tags and storage prefix shared notes keep using.
+ */
+export type Authorization<T> =
+    | { status: 'ok'; record: T; access: NotebookAccess; ownerId: string }
+    | { status: 'not-found' }
+    | { status: 'forbidden'; access: NotebookAccess; permission: NotebookPermission };
+
+function authorize<T>(
+    userId: string,
+    record: T | null,
+    notebook: (record: T) => NotebookAccessFields,
+    permission: NotebookPermission
+): Authorization<T> {
+    if (!record) return { status: 'not-found' };
+
+    const fields = notebook(record);
+    const access = resolveNotebookAccess(userId, fields);
+    if (!access) return { status: 'not-found' };
+    if (!hasPermission(access, permission)) return { status: 'forbidden', access, permission };
+
+    return { status: 'ok', record, access, ownerId: fields.userId };
+}
+
+/**
+ * Check the user's permission on a notebook.
+ */
+export async function authorizeNotebook(userId: string, notebookId: string, permission: NotebookPermission) {
+    const notebook = await prisma.notebook.findFirst({
+        where: { id: notebookId, ...notebookAccessWhere(userId) },
+        include: { members: { where: { userId }, select: { role: true } } },
+    });
+
+    return authorize(userId, notebook, record => record, permission);
+}
+
+/**
+ * Check the user's permission on a note's notebook.
+ */
+export async function authorizeNote(userId: string, noteId: string, permission: NotebookPermission) {
+    const note = await prisma.note.findFirst({
+        where: { id: noteId, ...noteAccessWhere(userId) },
+        include: { notebook: { select: notebookAccessSelect(userId) } },
+    });
+
+    return authorize(userId, note, record => record.notebook, permission);
+}
+
+/**
+ * Check the user's permission on the notebook an attachment's note is in.
+ */
+export async function authorizeAttachment(userId: string, attachmentId: string, permission: NotebookPermission) {
+    const attachment = await prisma.attachment.findFirst({
+        where: { id: attachmentId, note: noteAccessWhere(userId) },
+        include: {
+            note: {
+                select: { id: true, title: true, notebook: { select: notebookAccessSelect(userId) } },
+            },
+        },
+    });
+
+    return authorize(userId, attachment, record => record.note.notebook, permission);
+}
+
+/**
+ * Response for a failed authorization: 404 when the user can't see the
+ * record at all, 403 when their role doesn't allow the action.
+ */
+export function accessErrorResponse(
+    result: Exclude<Authorization<unknown>, { status: 'ok' }>,
+    resource: 'Note' | 'Notebook' | 'Attachment'
+): NextResponse {
+    if (result.status === 'not-found') {
+        return NextResponse.json(
+            { error: `${resource} not found` },
+            { status: 404 }
+        );
+    }
+
+    return NextResponse.json(
+        {
+            error: result.permission === 'manage'
+                ? 'Only the notebook owner can do this'
+                : 'You only have view access to this notebook',
+        },
+        { status: 403 }
+    );
+}
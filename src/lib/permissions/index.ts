@@ -0,0 +1,36 @@
+/**
+ * Permissions module exports.
+ */
+
+export {
+    NOTEBOOK_ROLES,
+    ROLE_LABELS,
+    isNotebookRole,
+    hasPermission,
+    rolesWithPermission,
+} from './roles';
+export type { NotebookRole, NotebookAccess, NotebookPermission } from './roles';
+export {
+    notebookAccessWhere,
+    noteAccessWhere,
+    notebookAccessSelect,
+    resolveNotebookAccess,
+    authorizeNotebook,
+    authorizeNote,
+    authorizeAttachment,
+    accessErrorResponse,
+} from './access';
+export type { Authorization } from './access';
+export {
+    normalizeEmail,
+    serializeMember,
+    listNotebookMembers,
+    inviteNotebookMember,
+    updateNotebookMemberRole,
+    removeNotebookMember,
+    claimNotebookInvitations,
+    listSharedNotebooks,
+} from './members';
+export type { NotebookMemberWithUser, InviteMemberResult } from './members';
+export { renderInvitationEmail } from './invitation-email';
+export type { NotebookInvitation } from './invitation-email';
@@ -0,0 +1,67 @@
+/**
+ * Invitation Email
+ *
+ * Renders the email sent when someone is invited to a notebook.
+ */
+
+import type { EmailMessage } from '@/lib/email/types';
+import { ROLE_LABELS, type NotebookRole } from './roles';
+
+export interface NotebookInvitation {
+    notebookName: string;
+    inviterName: string;
+    role: NotebookRole;
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * Build the invitation email. New users land on sign-up and see the
+ * notebook under "Shared with me" once their account uses this address.
+ */
+export function renderInvitationEmail(invitation: NotebookInvitation, to: string, appUrl: string): EmailMessage {
+    const notebookName = invitation.notebookName || 'Untitled';
+    const access = ROLE_LABELS[invitation.role].toLowerCase();
+    const subject = `${invitation.inviterName} shared "${notebookName}" with you`;
+
+    const text = [
+        subject,
+        '',
+        `You ${access} notes in this notebook. Sign in (or sign up with ${to}) to find it under "Shared with me".`,
+        '',
+        `Open Notova: ${appUrl}`,
+    ].join('\n');
+
+    const html = `
+        <!DOCTYPE html>
+        <html>
+        <head>
+            <meta charset="utf-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; margin: 0; padding: 20px; background: #f9fafb;">
+            <div style="max-width: 560px; margin: 0 auto; background: white; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 6px rgba(0,0,0,0.1);">
+                <div style="background: linear-gradient(135deg, #3b82f6, #8b5cf6); padding: 24px; color: white;">
+                    <p style="margin: 0; opacity: 0.9;">📓 ${escapeHtml(invitation.inviterName)} shared a notebook</p>
+                    <h1 style="margin: 8px 0 0 0; font-size: 22px;">${escapeHtml(notebookName)}</h1>
+                </div>
+                <div style="padding: 24px;">
+                    <p style="margin: 0 0 20px 0; color: #374151;">
+                        You ${escapeHtml(access)} notes in this notebook. Sign in, or sign up with
+                        <strong>${escapeHtml(to)}</strong>, to find it under “Shared with me”.
+                    </p>
+                    <a href="${escapeHtml(appUrl)}" style="display: inline-block; padding: 10px 16px; border-radius: 8px; background: #111827; color: white; text-decoration: none;">Open Notova</a>
+                </div>
+            </div>
+        </body>
+        </html>
+    `;
+
+    return { to, subject, html, text };
+}
@@ -0,0 +1,185 @@
+/**
+ * Notebook Members
+ *
+ * Invites people to a notebook by email, changes their roles and lists the
+ * notebooks shared with a user. Invitations to addresses without an account
+ * stay pending until someone signs up with that address.
+ */
+
+import type { NotebookMember, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { getEmailService } from '@/lib/email';
+import { renderInvitationEmail } from './invitation-email';
+import { NOTEBOOK_ROLES, isNotebookRole, type NotebookRole } from './roles';
+
+const memberInclude = {
+    user: { select: { name: true, email: true } },
+} satisfies Prisma.NotebookMemberInclude;
+
+export type NotebookMemberWithUser = Prisma.NotebookMemberGetPayload<{ include: typeof memberInclude }>;
+
+/**
+ * Outcome of an invitation. Inviting an existing member changes their role
+ * instead of emailing them again.
+ */
+export type InviteMemberResult =
+    | { status: 'ok'; member: NotebookMemberWithUser; created: boolean; emailed: boolean }
+    | { status: 'owner' };
+
+export function normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+}
+
+/**
+ * API shape of a member. Pending members haven't signed up yet.
+ */
+export function serializeMember(member: NotebookMemberWithUser) {
+    return {
+        id: member.id,
+        email: member.email,
+        name: member.user?.name ?? null,
+        role: isNotebookRole(member.role) ? member.role : 'viewer',
+        status: member.userId ? 'active' as const : 'pending' as const,
+        userId: member.userId,
+        createdAt: member.createdAt,
+    };
+}
+
+/**
+ * Members of a notebook in the order they were invited.
+ */
+export async function listNotebookMembers(notebookId: string): Promise<NotebookMemberWithUser[]> {
+    return prisma.notebookMember.findMany({
+        where: { notebookId },
+        include: memberInclude,
+        orderBy: { createdAt: 'asc' },
+    });
+}
+
+/**
+ * Invite an email address to a notebook, or change the role of someone
+ * already invited. New invitees are emailed; a failed email is logged and
+ * reported but keeps the invitation.
+ */
+export async function inviteNotebookMember(
+    notebook: { id: string; name: string; userId: string },
+    inviterId: string,
+    emailAddress: string,
+    role: NotebookRole
+): Promise<InviteMemberResult> {
+    const email = normalizeEmail(emailAddress);
+
+    const [owner, inviter, invitee, existing] = await Promise.all([
+        prisma.user.findUnique({ where: { id: notebook.userId }, select: { email: true } }),
+        prisma.user.findUnique({ where: { id: inviterId }, select: { name: true, email: true } }),
+        prisma.user.findFirst({ where: { email: { equals: email, mode: 'insensitive' } }, select: { id: true } }),
+        prisma.notebookMember.findUnique({ where: { notebookId_email: { notebookId: notebook.id, email } } }),
+    ]);
+
+    if (invitee?.id === notebook.userId || (owner && normalizeEmail(owner.email) === email)) {
+        return { status: 'owner' };
+    }
+
+    const member = await prisma.notebookMember.upsert({
+        where: { notebookId_email: { notebookId: notebook.id, email } },
+        create: {
+            notebookId: notebook.id,
+            email,
+            role,
+            userId: invitee?.id ?? null,
+            invitedById: inviterId,
+        },
+        update: {
+            role,
+            ...(invitee && { userId: invitee.id }),
+        },
+        include: memberInclude,
+    });
+
+    if (existing) return { status: 'ok', member, created: false, emailed: false };
+
+    let emailed = true;
+    try {
+        const appUrl = process.env.NEXT_PUBLIC_APP_URL ?? 'http://localhost:3000';
+        await getEmailService().send(renderInvitationEmail({
+            notebookName: notebook.name,
+            inviterName: inviter?.name || inviter?.email || 'Someone',
+            role,
+        }, email, appUrl));
+    } catch (error) {
+        console.error(`Failed to email invitation for notebook ${notebook.id}:`, error);
+        emailed = false;
+    }
+
+    return { status: 'ok', member, created: true, emailed };
+}
+
+/**
+ * Change a member's role. Returns null when the member isn't in the notebook.
+ */
+export async function updateNotebookMemberRole(
+    notebookId: string,
+    memberId: string,
+    role: NotebookRole
+): Promise<NotebookMemberWithUser | null> {
+    const member = await prisma.notebookMember.findFirst({ where: { id: memberId, notebookId } });
+    if (!member) return null;
+
+    return prisma.notebookMember.update({
+        where: { id: member.id },
+        data: { role },
+        include: memberInclude,
+    });
+}
+
+/**
+ * Remove a member or withdraw a pending invitation.
+ */
+export async function removeNotebookMember(notebookId: string, memberId: string): Promise<NotebookMember | null> {
+    const member = await prisma.notebookMember.findFirst({ where: { id: memberId, notebookId } });
+    if (!member) return null;
+
+    return prisma.notebookMember.delete({ where: { id: member.id } });
+}
+
+/**
+ * Link pending invitations for an email address to a newly created account.
+ */
+export async function claimNotebookInvitations(userId: string, email: string): Promise<number> {
+    const { count } = await prisma.notebookMember.updateMany({
+        where: { email: normalizeEmail(email), userId: null },
+        data: { userId },
+    });
+    return count;
+}
+
+/**
+ * Notebooks other people have shared with the user, by name, with the
+ * user's role and the owner's name.
+ */
+export async function listSharedNotebooks(userId: string) {
+    const memberships = await prisma.notebookMember.findMany({
+        where: { userId, role: { in: [...NOTEBOOK_ROLES] } },
+        include: {
+            notebook: {
+                include: {
+                    user: { select: { name: true, email: true } },
+                    _count: { select: { notes: { where: { isTrash: false } } } },
+                },
+            },
+        },
+        orderBy: { notebook: { name: 'asc' } },
+    });
+
+    return memberships.map(({ role, notebook }) => ({
+        id: notebook.id,
+        name: notebook.name,
+        icon: notebook.icon,
+        cardColor: notebook.cardColor,
+        noteCount: notebook._count.notes,
+        role: role as NotebookRole,
+        owner: { name: notebook.user.name, email: notebook.user.email },
+        createdAt: notebook.createdAt,
+        updatedAt: notebook.updatedAt,
+    }));
+}
@@ -0,0 +1,59 @@
+/**
+ * Notebook Roles
+ *
+ * What owners and invited members may do in a notebook. Safe to import
+ * from client components.
+ */
+
+export const NOTEBOOK_ROLES = ['viewer', 'commenter', 'editor'] as const;
+
+/**
+ * Role of an invited member.
+ */
+export type NotebookRole = typeof NOTEBOOK_ROLES[number];
+
+/**
+ * How the current user reaches a notebook: as its owner or as a member.
+ */
+export type NotebookAccess = 'owner' | NotebookRole;
+
+/**
+ * - read: open notes, attachments and history
+ * - comment: read, and leave comments once notes support them
+ * - edit: change, create, move and trash notes and attachments
+ * - manage: rename or delete the notebook and decide who it is shared with
+ */
+export type NotebookPermission = 'read' | 'comment' | 'edit' | 'manage';
+
+const ACCESS_PERMISSIONS: Record<NotebookAccess, readonly NotebookPermission[]> = {
+    viewer: ['read'],
+    commenter: ['read', 'comment'],
+    editor: ['read', 'comment', 'edit'],
+    owner: ['read', 'comment', 'edit', 'manage'],
+};
+
+export const ROLE_LABELS: Record<NotebookAccess, string> = {
+    owner: 'Owner',
+    viewer: 'Can view',
+    commenter: 'Can comment',
+    editor: 'Can edit',
+};
+
+export function isNotebookRole(value: string): value is NotebookRole {
+    return (NOTEBOOK_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Whether the access level grants a permission.
+ */
+export function hasPermission(access: NotebookAccess, permission: NotebookPermission): boolean {
+    return ACCESS_PERMISSIONS[access].includes(permission);
+}
+
+/**
+ * Member roles that grant a permission. Empty for `manage`, which only the
+ * owner has.
+ */
+export function rolesWithPermission(permission: NotebookPermission): NotebookRole[] {
+    return NOTEBOOK_ROLES.filter(role => hasPermission(role, permission));
+}
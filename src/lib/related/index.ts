@@ -0,0 +1,16 @@
+/**
+ * Related notes module exports.
+ */
+
+export {
+    extractKeyTerms,
+    buildTermQuery,
+    scoreRelatedNote,
+    relatedReasons,
+    rankRelatedNotes,
+    MAX_KEY_TERMS,
+    RELATED_MIN_SIMILARITY,
+} from './related-score';
+export type { RelatedReason, RelatedSignals, RankedRelatedNote } from './related-score';
+export { findRelatedNotes, DEFAULT_RELATED_LIMIT } from './related-service';
+export type { RelatedNote } from './related-service';
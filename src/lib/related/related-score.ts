@@ -0,0 +1,147 @@
+/**
+ * Related Note Scoring
+ *
+ * Combines the signals that two notes are about the same thing into one
+ * score. Kept free of database access so the weighting can be tested.
+ */
+
+/**
+ * Why a note was suggested as related
+ */
+export type RelatedReason = 'tags' | 'links' | 'terms' | 'meaning';
+
+/**
+ * What a candidate note has in common with the note being edited.
+ */
+export interface RelatedSignals {
+    /** Names of tags both notes have */
+    sharedTags: string[];
+    /** Number of notes both notes link to */
+    sharedLinks: number;
+    /** Full-text rank of the candidate for the note's key terms */
+    termRank: number;
+    /** Cosine similarity of the closest passages, when both notes are embedded */
+    similarity: number | null;
+}
+
+export interface RankedRelatedNote {
+    id: string;
+    score: number;
+    reasons: RelatedReason[];
+    sharedTags: string[];
+}
+
+/** Key terms taken from a note to find notes using the same words */
+export const MAX_KEY_TERMS = 12;
+
+/** Similarity at which passages start counting as about the same thing */
+export const RELATED_MIN_SIMILARITY = 0.5;
+
+const TAG_WEIGHT = 0.3;
+const LINK_WEIGHT = 0.25;
+const TERM_WEIGHT = 0.6;
+const MEANING_WEIGHT = 1;
+
+/** Shared tags or links beyond this many add nothing more */
+const MAX_COUNTED_SHARES = 3;
+
+/** Title words count this many times as often as body words */
+const TITLE_TERM_BOOST = 3;
+
+const MIN_TERM_LENGTH = 3;
+
+const TERM_PATTERN = /[\p{L}\p{N}]+/gu;
+
+const STOP_WORDS = new Set([
+    'about', 'after', 'again', 'all', 'also', 'and', 'any', 'are', 'because', 'been', 'before',
+    'being', 'but', 'can', 'could', 'did', 'does', 'doing', 'done', 'down', 'each', 'for', 'from',
+    'get', 'got', 'had', 'has', 'have', 'her', 'here', 'him', 'his', 'how', 'into', 'its', 'just',
+    'like', 'make', 'more', 'most', 'much', 'must', 'need', 'not', 'now', 'off', 'once', 'one',
+    'only', 'other', 'our', 'out', 'over', 'own', 'same', 'she', 'should', 'some', 'still', 'such',
+    'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those',
+    'through', 'too', 'under', 'until', 'use', 'very', 'was', 'way', 'were', 'what', 'when',
+    'where', 'which', 'while', 'who', 'why', 'will', 'with', 'would', 'yes', 'you', 'your',
+    'untitled',
+]);
+
+/**
+ * The words that best describe a note: its most frequent meaningful words,
+ * with title words counted extra. Ties keep the order words first appear in.
+ */
+export function extractKeyTerms(title: string, text: string, limit = MAX_KEY_TERMS): string[] {
+    const counts = new Map<string, number>();
+
+    const addWords = (value: string, weight: number) => {
+        for (const match of value.toLowerCase().matchAll(TERM_PATTERN)) {
+            const word = match[0];
+            if (word.length < MIN_TERM_LENGTH || STOP_WORDS.has(word) || /^\d+$/.test(word)) continue;
+            counts.set(word, (counts.get(word) ?? 0) + weight);
+        }
+    };
+
+    addWords(title, TITLE_TERM_BOOST);
+    addWords(text, 1);
+
+    return [...counts.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, limit)
+        .map(([word]) => word);
+}
+
+/**
+ * A `to_tsquery` expression matching notes that use any of the terms.
+ * Returns null when there are no terms.
+ */
+export function buildTermQuery(terms: string[]): string | null {
+    return terms.length > 0 ? terms.join(' | ') : null;
+}
+
+/**
+ * Score a candidate from its signals. Term ranks are scaled against the
+ * best rank among all candidates, since `ts_rank` values have no fixed range.
+ */
+export function scoreRelatedNote(signals: RelatedSignals, maxTermRank: number): number {
+    let score = 0;
+
+    score += TAG_WEIGHT * Math.min(signals.sharedTags.length, MAX_COUNTED_SHARES);
+    score += LINK_WEIGHT * Math.min(signals.sharedLinks, MAX_COUNTED_SHARES);
+    if (maxTermRank > 0) {
+        score += TERM_WEIGHT * (signals.termRank / maxTermRank);
+    }
+    if (signals.similarity !== null && signals.similarity > RELATED_MIN_SIMILARITY) {
+        score += MEANING_WEIGHT * (signals.similarity - RELATED_MIN_SIMILARITY) / (1 - RELATED_MIN_SIMILARITY);
+    }
+
+    return score;
+}
+
+/**
+ * Signals that contributed to a candidate's score
+ */
+export function relatedReasons(signals: RelatedSignals): RelatedReason[] {
+    const reasons: RelatedReason[] = [];
+    if (signals.sharedTags.length > 0) reasons.push('tags');
+    if (signals.sharedLinks > 0) reasons.push('links');
+    if (signals.termRank > 0) reasons.push('terms');
+    if (signals.similarity !== null && signals.similarity > RELATED_MIN_SIMILARITY) reasons.push('meaning');
+    return reasons;
+}
+
+/**
+ * Order candidates by score, best first, dropping those with nothing in
+ * common. Ties go to the candidate with more kinds of evidence.
+ */
+export function rankRelatedNotes(candidates: Map<string, RelatedSignals>, limit: number): RankedRelatedNote[] {
+    const maxTermRank = Math.max(0, ...[...candidates.values()].map(signals => signals.termRank));
+
+    return [...candidates.entries()]
+        .map(([id, signals]) => ({
+            id,
+            score: scoreRelatedNote(signals, maxTermRank),
+            reasons: relatedReasons(signals),
+            sharedTags: signals.sharedTags,
+        }))
+        .filter(note => note.score > 0)
+        .sort((a, b) => b.score - a.score || b.reasons.length - a.reasons.length)
+        .slice(0, limit);
+}
@@ -0,0 +1,171 @@
+/**
+ * Related Note Service
+ *
+ * Finds notes about the same thing as a given note, among the notes the
+ * viewer can read: notes sharing its tags, notes linking to the same
+ * notes, notes using its key terms (ranked with the full-text index) and,
+ * once the note has embeddings, notes close in meaning.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { notebookAccessWhere } from '@/lib/permissions/access';
+import { SEARCH_CONFIG } from '@/lib/search/full-text';
+import { findSimilarNotes } from '@/lib/embeddings';
+import {
+    RELATED_MIN_SIMILARITY,
+    buildTermQuery,
+    extractKeyTerms,
+    rankRelatedNotes,
+    type RelatedReason,
+    type RelatedSignals,
+} from './related-score';
+
+/**
+ * A note suggested as related, with why it was suggested.
+ */
+export interface RelatedNote {
+    id: string;
+    title: string;
+    icon: string | null;
+    notebook: { id: string; name: string };
+    updatedAt: Date;
+    score: number;
+    reasons: RelatedReason[];
+    sharedTags: string[];
+}
+
+export const DEFAULT_RELATED_LIMIT = 8;
+
+/** Candidates fetched from each signal before ranking */
+const CANDIDATES_PER_SIGNAL = 30;
+
+/**
+ * Notes related to a note, best match first. The note itself, trashed notes
+ * and notes the user can't read are left out.
+ */
+export async function findRelatedNotes(
+    noteId: string,
+    userId: string,
+    limit = DEFAULT_RELATED_LIMIT
+): Promise<RelatedNote[]> {
+    const note = await prisma.note.findUnique({
+        where: { id: noteId },
+        select: {
+            title: true,
+            contentPlaintext: true,
+            tags: { select: { tagId: true } },
+            outgoingLinks: { select: { targetId: true } },
+        },
+    });
+    if (!note) return [];
+
+    const notebooks = await prisma.notebook.findMany({
+        where: notebookAccessWhere(userId),
+        select: { id: true },
+    });
+    const notebookIds = notebooks.map(notebook => notebook.id);
+    if (notebookIds.length === 0) return [];
+
+    const candidateWhere: Prisma.NoteWhereInput = {
+        id: { not: noteId },
+        isTrash: false,
+        notebookId: { in: notebookIds },
+    };
+    const tagIds = note.tags.map(tag => tag.tagId);
+    const targetIds = note.outgoingLinks.map(link => link.targetId);
+
+    const [tagMatches, linkMatches, termMatches, similarNotes] = await Promise.all([
+        tagIds.length > 0
+            ? prisma.noteTag.findMany({
+                where: { tagId: { in: tagIds }, note: candidateWhere },
+                select: { noteId: true, tag: { select: { name: true } } },
+            })
+            : [],
+        targetIds.length > 0
+            ? prisma.noteLink.findMany({
+                where: { targetId: { in: targetIds }, sourceId: { not: noteId }, source: candidateWhere },
+                select: { sourceId: true },
+            })
+            : [],
+        findTermMatches(noteId, extractKeyTerms(note.title, note.contentPlaintext ?? ''), notebookIds),
+        // Embeddings only sharpen the ranking; without them the other signals still work
+        findSimilarNotes({
+            noteId,
+            notebookIds,
+            limit: CANDIDATES_PER_SIGNAL,
+            minSimilarity: RELATED_MIN_SIMILARITY,
+        }).catch((error) => {
+            console.error('Error finding similar notes:', error);
+            return [];
+        }),
+    ]);
+
+    const candidates = new Map<string, RelatedSignals>();
+    const signalsFor = (id: string) => {
+        let signals = candidates.get(id);
+        if (!signals) {
+            signals = { sharedTags: [], sharedLinks: 0, termRank: 0, similarity: null };
+            candidates.set(id, signals);
+        }
+        return signals;
+    };
+
+    for (const match of tagMatches) {
+        signalsFor(match.noteId).sharedTags.push(match.tag.name);
+    }
+    for (const match of linkMatches) {
+        signalsFor(match.sourceId).sharedLinks += 1;
+    }
+    for (const match of termMatches) {
+        signalsFor(match.id).termRank = match.rank;
+    }
+    for (const match of similarNotes) {
+        signalsFor(match.id).similarity = match.score;
+    }
+
+    const ranked = rankRelatedNotes(candidates, limit);
+    if (ranked.length === 0) return [];
+
+    const details = await prisma.note.findMany({
+        where: { id: { in: ranked.map(item => item.id) } },
+        select: {
+            id: true,
+            title: true,
+            icon: true,
+            updatedAt: true,
+            notebook: { select: { id: true, name: true } },
+        },
+    });
+    const detailsById = new Map(details.map(detail => [detail.id, detail]));
+
+    return ranked.flatMap((item) => {
+        const detail = detailsById.get(item.id);
+        return detail ? [{ ...detail, ...item }] : [];
+    });
+}
+
+/**
+ * Notes using any of the key terms, ranked by the full-text index so title
+ * matches count most.
+ */
+async function findTermMatches(
+    noteId: string,
+    terms: string[],
+    notebookIds: string[]
+): Promise<Array<{ id: string; rank: number }>> {
+    const tsQuery = buildTermQuery(terms);
+    if (!tsQuery) return [];
+
+    return prisma.$queryRaw<Array<{ id: string; rank: number }>>`
+        SELECT n.id,
+               ts_rank(n."searchVector", to_tsquery(${SEARCH_CONFIG}::regconfig, ${tsQuery}))::float8 AS rank
+        FROM "Note" n
+        WHERE n.id <> ${noteId}
+          AND n."isTrash" = false
+          AND n."notebookId" IN (${Prisma.join(notebookIds)})
+          AND n."searchVector" @@ to_tsquery(${SEARCH_CONFIG}::regconfig, ${tsQuery})
+        ORDER BY rank DESC
+        LIMIT ${CANDIDATES_PER_SIGNAL}
+    `;
+}
@@ -0,0 +1,8 @@
+/**
+ * Reminders module exports.
+ */
+
+export { listReminders, deliverDueReminders } from './reminder-service';
+export type { NoteReminder, ReminderDeliveryResult } from './reminder-service';
+export { renderReminderEmail } from './reminder-email';
+export type { ReminderEmailNote } from './reminder-email';
@@ -0,0 +1,72 @@
+/**
+ * Reminder Email
+ *
+ * Renders the email sent when a note's reminder comes due.
+ */
+
+import type { EmailMessage } from '@/lib/email/types';
+
+export interface ReminderEmailNote {
+    title: string;
+    contentPlaintext: string | null;
+    notebook: { name: string };
+}
+
+// Characters of note text quoted in the email
+const EXCERPT_LENGTH = 280;
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function excerpt(text: string | null): string {
+    const collapsed = (text ?? '').replace(/\s+/g, ' ').trim();
+    return collapsed.length > EXCERPT_LENGTH
+        ? `${collapsed.slice(0, EXCERPT_LENGTH).trimEnd()}…`
+        : collapsed;
+}
+
+/**
+ * Build the reminder email for a note.
+ */
+export function renderReminderEmail(note: ReminderEmailNote, to: string, appUrl: string): EmailMessage {
+    const title = note.title || 'Untitled';
+    const preview = excerpt(note.contentPlaintext);
+
+    const text = [
+        `Reminder: ${title}`,
+        `Notebook: ${note.notebook.name}`,
+        ...(preview ? ['', preview] : []),
+        '',
+        `Open Notova: ${appUrl}`,
+    ].join('\n');
+
+    const html = `
+        <!DOCTYPE html>
+        <html>
+        <head>
+            <meta charset="utf-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; margin: 0; padding: 20px; background: #f9fafb;">
+            <div style="max-width: 560px; margin: 0 auto; background: white; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 6px rgba(0,0,0,0.1);">
+                <div style="background: linear-gradient(135deg, #f59e0b, #ec4899); padding: 24px; color: white;">
+                    <p style="margin: 0; opacity: 0.9;">⏰ Reminder</p>
+                    <h1 style="margin: 8px 0 0 0; font-size: 22px;">${escapeHtml(title)}</h1>
+                </div>
+                <div style="padding: 24px;">
+                    <p style="margin: 0 0 12px 0; font-size: 13px; color: #6b7280;">${escapeHtml(note.notebook.name)}</p>
+                    ${preview ? `<p style="margin: 0 0 20px 0; white-space: pre-wrap; color: #374151;">${escapeHtml(preview)}</p>` : ''}
+                    <a href="${escapeHtml(appUrl)}" style="display: inline-block; padding: 10px 16px; border-radius: 8px; background: #111827; color: white; text-decoration: none;">Open Notova</a>
+                </div>
+            </div>
+        </body>
+        </html>
+    `;
+
+    return { to, subject: `Reminder: ${title}`, html, text };
+}
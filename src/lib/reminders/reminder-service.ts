@@ -0,0 +1,106 @@
+/**
+ * Reminder Service
+ *
+ * Lists a user's note reminders and emails the ones that have come due.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { getEmailService } from '@/lib/email';
+import { renderReminderEmail } from './reminder-email';
+
+const reminderSelect = {
+    id: true,
+    title: true,
+    icon: true,
+    reminderAt: true,
+    reminderSentAt: true,
+    notebook: { select: { id: true, name: true } },
+} satisfies Prisma.NoteSelect;
+
+/**
+ * A note with a pending reminder.
+ */
+export type NoteReminder = Prisma.NoteGetPayload<{ select: typeof reminderSelect }>;
+
+/**
+ * Outcome of a delivery run.
+ */
+export interface ReminderDeliveryResult {
+    sent: number;
+    failed: number;
+}
+
+// Reminders emailed per run; the rest are picked up by the next one
+const DELIVERY_BATCH = 100;
+
+/**
+ * A user's reminders that aren't done yet, soonest first.
+ * Reminders on trashed notes are left out.
+ */
+export async function listReminders(userId: string): Promise<NoteReminder[]> {
+    return prisma.note.findMany({
+        where: {
+            notebook: { userId },
+            isTrash: false,
+            reminderAt: { not: null },
+            reminderDoneAt: null,
+        },
+        select: reminderSelect,
+        orderBy: { reminderAt: 'asc' },
+    });
+}
+
+/**
+ * Email every reminder due at `now` that hasn't been sent or marked done.
+ *
+ * Each reminder is claimed by stamping `reminderSentAt` before sending, so
+ * overlapping runs don't email twice; the stamp is cleared again if the
+ * provider fails so the next run retries it.
+ */
+export async function deliverDueReminders(now = new Date()): Promise<ReminderDeliveryResult> {
+    const notes = await prisma.note.findMany({
+        where: {
+            isTrash: false,
+            reminderAt: { lte: now },
+            reminderDoneAt: null,
+            reminderSentAt: null,
+        },
+        select: {
+            id: true,
+            title: true,
+            contentPlaintext: true,
+            updatedAt: true,
+            notebook: { select: { name: true, user: { select: { email: true } } } },
+        },
+        orderBy: { reminderAt: 'asc' },
+        take: DELIVERY_BATCH,
+    });
+
+    const email = getEmailService();
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL ?? 'http://localhost:3000';
+    const result: ReminderDeliveryResult = { sent: 0, failed: 0 };
+
+    for (const note of notes) {
+        // Delivery bookkeeping shouldn't count as editing the note
+        const claimed = await prisma.note.updateMany({
+            where: { id: note.id, reminderSentAt: null },
+            data: { reminderSentAt: now, updatedAt: note.updatedAt },
+        });
+        if (claimed.count === 0) continue;
+
+        try {
+            await email.send(renderReminderEmail(note, note.notebook.user.email, appUrl));
+            result.sent++;
+        } catch (error) {
+            console.error(`Failed to send reminder for note ${note.id}:`, error);
+            await prisma.note.updateMany({
+                where: { id: note.id, reminderSentAt: now },
+                data: { reminderSentAt: null, updatedAt: note.updatedAt },
+            });
+            result.failed++;
+        }
+    }
+
+    return result;
+}
@@ -0,0 +1,228 @@
+/**
+ * Revision Diff
+ *
+ * Word-level diffing for note revisions using Myers' O(ND) algorithm.
+ * Text diffs operate on plain-text snapshots; HTML diffs treat each tag
+ * as a single token so markup is never split mid-tag.
+ */
+
+export type DiffOperation = 'equal' | 'insert' | 'delete';
+
+export interface DiffPart {
+    type: DiffOperation;
+    value: string;
+}
+
+export interface DiffStats {
+    insertions: number;
+    deletions: number;
+}
+
+/**
+ * Upper bound on edit distance before falling back to a full replace.
+ * Keeps memory bounded for wildly different revisions.
+ */
+const MAX_EDIT_DISTANCE = 2000;
+
+const TEXT_TOKEN_PATTERN = /\s+|[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu;
+const HTML_TOKEN_PATTERN = /<[^>]*>|&[a-zA-Z0-9#]+;|\s+|[\p{L}\p{N}_]+|[^\s<&\p{L}\p{N}_]|[<&]/gu;
+
+/**
+ * Split plain text into word, whitespace and punctuation tokens
+ */
+export function tokenizeText(text: string): string[] {
+    return text.match(TEXT_TOKEN_PATTERN) ?? [];
+}
+
+/**
+ * Split HTML into tag, entity, word, whitespace and punctuation tokens
+ */
+export function tokenizeHtml(html: string): string[] {
+    return html.match(HTML_TOKEN_PATTERN) ?? [];
+}
+
+/**
+ * Append a token to the diff, merging with the previous part when the operation matches
+ */
+function pushPart(parts: DiffPart[], type: DiffOperation, value: string): void {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+        last.value += value;
+    } else {
+        parts.push({ type, value });
+    }
+}
+
+/**
+ * Compute the shortest edit script between two token arrays.
+ * Returns edits in forward order, or null when the edit distance exceeds the limit.
+ */
+function myersDiff(a: string[], b: string[]): Array<{ type: DiffOperation; token: string }> | null {
+    const n = a.length;
+    const m = b.length;
+    const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+    const offset = max + 1;
+    const v = new Int32Array(2 * max + 3);
+    // Snapshot of the k-range [-d-1, d+1] taken before each round d
+    const trace: Int32Array[] = [];
+
+    let found = false;
+    for (let d = 0; d <= max && !found; d++) {
+        trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+        for (let k = -d; k <= d; k += 2) {
+            let x: number;
+            if (k === -d || (k !== d && v[offset + k - 1]! < v[offset + k + 1]!)) {
+                x = v[offset + k + 1]!;
+            } else {
+                x = v[offset + k - 1]! + 1;
+            }
+            let y = x - k;
+            while (x < n && y < m && a[x] === b[y]) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+            if (x >= n && y >= m) {
+                found = true;
+                break;
+            }
+        }
+    }
+
+    if (!found) return null;
+
+    const edits: Array<{ type: DiffOperation; token: string }> = [];
+    let x = n;
+    let y = m;
+
+    for (let d = trace.length - 1; d >= 0; d--) {
+        const snapshot = trace[d]!;
+        const at = (k: number) => snapshot[k + d + 1]!;
+        const k = x - y;
+
+        const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+        const prevX = at(prevK);
+        const prevY = prevX - prevK;
+
+        while (x > prevX && y > prevY) {
+            edits.push({ type: 'equal', token: a[x - 1]! });
+            x--;
+            y--;
+        }
+
+        if (d > 0) {
+            if (x === prevX) {
+                edits.push({ type: 'insert', token: b[y - 1]! });
+            } else {
+                edits.push({ type: 'delete', token: a[x - 1]! });
+            }
+        }
+
+        x = prevX;
+        y = prevY;
+    }
+
+    return edits.reverse();
+}
+
+/**
+ * Diff two token arrays, trimming the common prefix and suffix first
+ */
+export function diffTokens(a: string[], b: string[]): DiffPart[] {
+    const parts: DiffPart[] = [];
+
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) {
+        start++;
+    }
+
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--;
+        endB--;
+    }
+
+    if (start > 0) {
+        pushPart(parts, 'equal', a.slice(0, start).join(''));
+    }
+
+    const middleA = a.slice(start, endA);
+    const middleB = b.slice(start, endB);
+    const edits = myersDiff(middleA, middleB);
+
+    if (edits) {
+        for (const edit of edits) {
+            pushPart(parts, edit.type, edit.token);
+        }
+    } else {
+        if (middleA.length > 0) pushPart(parts, 'delete', middleA.join(''));
+        if (middleB.length > 0) pushPart(parts, 'insert', middleB.join(''));
+    }
+
+    if (endA < a.length) {
+        pushPart(parts, 'equal', a.slice(endA).join(''));
+    }
+
+    return parts;
+}
+
+/**
+ * Word-level diff of two plain-text strings
+ */
+export function diffText(oldText: string, newText: string): DiffPart[] {
+    return diffTokens(tokenizeText(oldText), tokenizeText(newText));
+}
+
+/**
+ * Word-level diff of two HTML strings (tags are atomic tokens)
+ */
+export function diffHtml(oldHtml: string, newHtml: string): DiffPart[] {
+    return diffTokens(tokenizeHtml(oldHtml), tokenizeHtml(newHtml));
+}
+
+/**
+ * Render an HTML diff as markup with <ins>/<del> around changed text.
+ * Inserted tags are kept so the result reflects the new structure;
+ * deleted tags are dropped so the result stays well-formed.
+ */
+export function renderHtmlDiff(parts: DiffPart[]): string {
+    let html = '';
+
+    for (const part of parts) {
+        if (part.type === 'equal') {
+            html += part.value;
+            continue;
+        }
+
+        const wrapper = part.type === 'insert' ? 'ins' : 'del';
+        for (const segment of part.value.split(/(<[^>]*>)/)) {
+            if (!segment) continue;
+            if (segment.startsWith('<')) {
+                if (part.type === 'insert') html += segment;
+                continue;
+            }
+            html += `<${wrapper} class="diff-${part.type}">${segment}</${wrapper}>`;
+        }
+    }
+
+    return html;
+}
+
+/**
+ * Count inserted and deleted words in a diff
+ */
+export function getDiffStats(parts: DiffPart[]): DiffStats {
+    const countWords = (value: string) =>
+        value.replace(/<[^>]*>/g, ' ').split(/\s+/).filter(Boolean).length;
+
+    return parts.reduce<DiffStats>(
+        (stats, part) => {
+            if (part.type === 'insert') stats.insertions += countWords(part.value);
+            if (part.type === 'delete') stats.deletions += countWords(part.value);
+            return stats;
+        },
+        { insertions: 0, deletions: 0 }
+    );
+}
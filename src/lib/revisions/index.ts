@@ -0,0 +1,23 @@
+/**
+ * Revisions module exports.
+ */
+
+export {
+    recordRevision,
+    listRevisions,
+    getRevision,
+    REVISION_COALESCE_WINDOW_MS,
+    MAX_REVISIONS_PER_NOTE,
+} from './revision-service';
+export type { RevisionSource, NoteSnapshot, RecordRevisionOptions } from './revision-service';
+export { noteETag, parseBaseVersion, isSameVersion } from './note-version';
+export {
+    diffText,
+    diffHtml,
+    diffTokens,
+    tokenizeText,
+    tokenizeHtml,
+    renderHtmlDiff,
+    getDiffStats,
+} from './diff';
+export type { DiffOperation, DiffPart, DiffStats } from './diff';
@@ -0,0 +1,32 @@
+/**
+ * Note Versions
+ *
+ * Optimistic concurrency for note saves. A note's version is its
+ * `updatedAt`: clients send the version their edit started from, as an
+ * `If-Match` header or a `baseUpdatedAt` field, and a save based on an
+ * older version is turned back instead of overwriting newer content.
+ */
+
+/**
+ * ETag for a note version, accepted back in `If-Match`.
+ */
+export function noteETag(updatedAt: Date): string {
+    return `"${updatedAt.toISOString()}"`;
+}
+
+/**
+ * Version a save is based on. `If-Match` wins over `baseUpdatedAt`; returns
+ * null when neither is given. Unreadable values give an invalid date, which
+ * matches no version.
+ */
+export function parseBaseVersion(ifMatch: string | null, baseUpdatedAt?: string): Date | null {
+    const raw = ifMatch?.trim()
+        ? ifMatch.trim().replace(/^W\//, '').replace(/^"(.*)"$/, '$1')
+        : baseUpdatedAt;
+
+    return raw ? new Date(raw) : null;
+}
+
+export function isSameVersion(updatedAt: Date, baseVersion: Date): boolean {
+    return updatedAt.getTime() === baseVersion.getTime();
+}
@@ -0,0 +1,161 @@
+/**
+ * Revision Service
+ *
+ * Records point-in-time snapshots of notes so earlier versions can be
+ * browsed, compared and restored. Rapid auto-saves are coalesced into the
+ * most recent revision to keep history readable.
+ */
+
+import { prisma } from '@/lib/db';
+
+/**
+ * How a revision came to exist.
+ * - baseline: state of the note before its first tracked edit
+ * - edit: regular save from the editor
+ * - restore: note content replaced by an earlier revision
+ * - import: note content replaced by re-importing it
+ */
+export type RevisionSource = 'baseline' | 'edit' | 'restore' | 'import';
+
+/**
+ * Edits made within this window of the latest revision update it in place
+ */
+export const REVISION_COALESCE_WINDOW_MS = 10 * 60 * 1000;
+
+/**
+ * Maximum number of revisions kept per note. Oldest are pruned first.
+ */
+export const MAX_REVISIONS_PER_NOTE = 100;
+
+/**
+ * Note fields captured in a revision.
+ */
+export interface NoteSnapshot {
+    title: string;
+    content: string;
+    contentPlaintext: string | null;
+}
+
+/**
+ * Options for recording a revision.
+ */
+export interface RecordRevisionOptions {
+    /** Note state before the change, stored as a baseline if the note has no history yet */
+    previous?: NoteSnapshot & { updatedAt: Date };
+    /** Why the revision is being recorded */
+    source?: RevisionSource;
+}
+
+/**
+ * Record a new revision for a note.
+ * Returns the created or updated revision, or null if nothing changed.
+ */
+export async function recordRevision(
+    noteId: string,
+    snapshot: NoteSnapshot,
+    options: RecordRevisionOptions = {}
+) {
+    const { previous, source = 'edit' } = options;
+
+    const latest = await prisma.noteRevision.findFirst({
+        where: { noteId },
+        orderBy: { createdAt: 'desc' },
+    });
+
+    // First tracked change: keep what the note looked like before it
+    if (!latest && previous && !isSameSnapshot(previous, snapshot)) {
+        await prisma.noteRevision.create({
+            data: {
+                noteId,
+                title: previous.title,
+                content: previous.content,
+                contentPlaintext: previous.contentPlaintext,
+                source: 'baseline',
+                createdAt: previous.updatedAt,
+            },
+        });
+    }
+
+    if (latest && isSameSnapshot(latest, snapshot)) {
+        return null;
+    }
+
+    const canCoalesce = latest
+        && source === 'edit'
+        && latest.source === 'edit'
+        && Date.now() - latest.createdAt.getTime() < REVISION_COALESCE_WINDOW_MS;
+
+    if (latest && canCoalesce) {
+        return prisma.noteRevision.update({
+            where: { id: latest.id },
+            data: {
+                title: snapshot.title,
+                content: snapshot.content,
+                contentPlaintext: snapshot.contentPlaintext,
+            },
+        });
+    }
+
+    const revision = await prisma.noteRevision.create({
+        data: {
+            noteId,
+            title: snapshot.title,
+            content: snapshot.content,
+            contentPlaintext: snapshot.contentPlaintext,
+            source,
+        },
+    });
+
+    await pruneRevisions(noteId);
+
+    return revision;
+}
+
+/**
+ * List revisions for a note, newest first (content omitted)
+ */
+export async function listRevisions(noteId: string, limit = MAX_REVISIONS_PER_NOTE) {
+    return prisma.noteRevision.findMany({
+        where: { noteId },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        select: {
+            id: true,
+            title: true,
+            source: true,
+            createdAt: true,
+            updatedAt: true,
+        },
+    });
+}
+
+/**
+ * Get a single revision belonging to a note
+ */
+export async function getRevision(noteId: string, revisionId: string) {
+    return prisma.noteRevision.findFirst({
+        where: { id: revisionId, noteId },
+    });
+}
+
+/**
+ * Delete revisions beyond the per-note limit
+ */
+async function pruneRevisions(noteId: string): Promise<void> {
+    const stale = await prisma.noteRevision.findMany({
+        where: { noteId },
+        orderBy: { createdAt: 'desc' },
+        skip: MAX_REVISIONS_PER_NOTE,
+        select: { id: true },
+    });
+
+    if (stale.length > 0) {
+        await prisma.noteRevision.deleteMany({
+            where: { id: { in: stale.map(r => r.id) } },
+        });
+    }
+}
+
+function isSameSnapshot(a: NoteSnapshot, b: NoteSnapshot): boolean {
+    return a.title === b.title && a.content === b.content;
+}
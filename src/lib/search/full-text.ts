@@ -0,0 +1,236 @@
+/**
+ * Full-Text Search
+ *
+ * Ranked note search backed by the generated `Note.searchVector` tsvector
+ * column. Title lexemes carry weight A and body lexemes weight B, so title
+ * matches rank above body matches. Snippets come from `ts_headline` with
+ * matched terms wrapped in <mark> tags.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+
+/**
+ * Text search configuration used by the generated column and all queries.
+ * Must match the migration that creates `searchVector`.
+ */
+export const SEARCH_CONFIG = 'english';
+
+export const HIGHLIGHT_START = '<mark>';
+export const HIGHLIGHT_END = '</mark>';
+
+const HEADLINE_OPTIONS = [
+    `StartSel=${HIGHLIGHT_START}`,
+    `StopSel=${HIGHLIGHT_END}`,
+    'MaxWords=35',
+    'MinWords=15',
+    'ShortWord=3',
+    'MaxFragments=2',
+    'FragmentDelimiter=" … "',
+].join(', ');
+
+const LEXEME_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Convert user input into a `to_tsquery` expression.
+ *
+ * Supported syntax:
+ * - `word` — all terms must match
+ * - `"exact phrase"` — terms must appear adjacent and in order
+ * - `prefix*` — matches words starting with prefix
+ * - `-word` / `-"phrase"` — excludes matching notes, even with no other terms
+ *
+ * Returns null when the input contains no searchable terms.
+ */
+export function buildTsQuery(input: string): string | null {
+    const terms: string[] = [];
+    const termPattern = /(-?)(?:"([^"]*)"?|(\S+))/g;
+
+    for (const match of input.matchAll(termPattern)) {
+        const negated = match[1] === '-';
+        const phrase = match[2];
+        const word = match[3];
+
+        let expression: string | null;
+        if (phrase !== undefined) {
+            expression = toPhrase(phrase, false);
+        } else if (word !== undefined) {
+            const isPrefix = word.endsWith('*');
+            expression = toPhrase(isPrefix ? word.slice(0, -1) : word, isPrefix);
+        } else {
+            expression = null;
+        }
+
+        if (!expression) continue;
+        terms.push(negated ? `!${expression}` : expression);
+    }
+
+    // A query of only exclusions matches every note without those terms
+    return terms.length > 0 ? terms.join(' & ') : null;
+}
+
+/**
+ * Join the lexemes of a fragment with the followed-by operator
+ */
+function toPhrase(text: string, isPrefix: boolean): string | null {
+    const lexemes = (text.match(LEXEME_PATTERN) ?? []).map(lexeme => lexeme.toLowerCase());
+    if (lexemes.length === 0) return null;
+
+    if (isPrefix) {
+        lexemes[lexemes.length - 1] += ':*';
+    }
+
+    return lexemes.length === 1 ? lexemes[0]! : `(${lexemes.join(' <-> ')})`;
+}
+
+/**
+ * Result orderings for a search. Relevance ranks title matches first.
+ */
+export const NOTE_SEARCH_SORTS = ['relevance', 'updatedAt', 'createdAt', 'title'] as const;
+
+export type NoteSearchSort = typeof NOTE_SEARCH_SORTS[number];
+
+/**
+ * Options for a full-text note search.
+ */
+export interface NoteSearchOptions {
+    userId: string;
+    /** Raw user query */
+    query: string;
+    notebookId?: string;
+    tagId?: string;
+    isTrash?: boolean;
+    /** Restrict the search to these notes (e.g. pre-filtered by search operators) */
+    noteIds?: string[];
+    sort?: NoteSearchSort;
+    limit?: number;
+    offset?: number;
+}
+
+/**
+ * A single ranked search hit.
+ */
+export interface NoteSearchHit {
+    id: string;
+    rank: number;
+    /** Body excerpt with matched terms wrapped in <mark> */
+    snippet: string;
+}
+
+/**
+ * Result of a full-text note search.
+ */
+export interface NoteSearchResult {
+    hits: NoteSearchHit[];
+    total: number;
+}
+
+/**
+ * Build the SQL filter shared by search and count queries.
+ * Returns null when nothing can match.
+ */
+function buildSearchFilter(options: NoteSearchOptions, tsQuery: string): Prisma.Sql | null {
+    const { userId, notebookId, tagId, isTrash = false, noteIds } = options;
+
+    const conditions: Prisma.Sql[] = [
+        Prisma.sql`nb."userId" = ${userId}`,
+        Prisma.sql`n."isTrash" = ${isTrash}`,
+        Prisma.sql`n."searchVector" @@ to_tsquery(${SEARCH_CONFIG}::regconfig, ${tsQuery})`,
+    ];
+    if (notebookId) {
+        conditions.push(Prisma.sql`n."notebookId" = ${notebookId}`);
+    }
+    if (tagId) {
+        conditions.push(Prisma.sql`EXISTS (SELECT 1 FROM "NoteTag" nt WHERE nt."noteId" = n.id AND nt."tagId" = ${tagId})`);
+    }
+    if (noteIds) {
+        if (noteIds.length === 0) return null;
+        conditions.push(Prisma.sql`n.id = ANY(${noteIds})`);
+    }
+
+    return Prisma.join(conditions, ' AND ');
+}
+
+/**
+ * ORDER BY clause for a sort, against either the note table or the ranked subquery
+ */
+function orderBySql(alias: 'n' | 'ranked', sort: NoteSearchSort): Prisma.Sql {
+    const column = (name: string) => Prisma.raw(`${alias}."${name}"`);
+
+    switch (sort) {
+        case 'updatedAt':
+            return Prisma.sql`${column('updatedAt')} DESC`;
+        case 'createdAt':
+            return Prisma.sql`${column('createdAt')} DESC`;
+        case 'title':
+            return Prisma.sql`${column('title')} ASC, ${column('updatedAt')} DESC`;
+        default:
+            return Prisma.sql`${Prisma.raw(alias === 'n' ? 'rank' : 'ranked.rank')} DESC, ${column('updatedAt')} DESC`;
+    }
+}
+
+/**
+ * Search notes by relevance (or another sort).
+ * Returns null if the query has no searchable terms.
+ */
+export async function searchNotes(options: NoteSearchOptions): Promise<NoteSearchResult | null> {
+    const { sort = 'relevance', limit = 20, offset = 0 } = options;
+
+    const tsQuery = buildTsQuery(options.query);
+    if (!tsQuery) return null;
+
+    const where = buildSearchFilter(options, tsQuery);
+    if (!where) return { hits: [], total: 0 };
+
+    const [total, hits] = await Promise.all([
+        countSearchNotes(options),
+        // Rank and paginate first so ts_headline only runs on the returned page
+        prisma.$queryRaw<NoteSearchHit[]>`
+            SELECT ranked.id,
+                   ranked.rank,
+                   ts_headline(
+                       ${SEARCH_CONFIG}::regconfig,
+                       coalesce(n."contentPlaintext", ''),
+                       to_tsquery(${SEARCH_CONFIG}::regconfig, ${tsQuery}),
+                       ${HEADLINE_OPTIONS}
+                   ) AS snippet
+            FROM (
+                SELECT n.id,
+                       n.title,
+                       n."createdAt",
+                       n."updatedAt",
+                       ts_rank(n."searchVector", to_tsquery(${SEARCH_CONFIG}::regconfig, ${tsQuery}))::float8 AS rank
+                FROM "Note" n
+                JOIN "Notebook" nb ON nb.id = n."notebookId"
+                WHERE ${where}
+                ORDER BY ${orderBySql('n', sort)}
+                LIMIT ${limit} OFFSET ${offset}
+            ) ranked
+            JOIN "Note" n ON n.id = ranked.id
+            ORDER BY ${orderBySql('ranked', sort)}
+        `,
+    ]);
+
+    return { hits, total: total ?? 0 };
+}
+
+/**
+ * Count notes matching a full-text query without ranking or snippets.
+ * Returns null if the query has no searchable terms.
+ */
+export async function countSearchNotes(options: NoteSearchOptions): Promise<number | null> {
+    const tsQuery = buildTsQuery(options.query);
+    if (!tsQuery) return null;
+
+    const where = buildSearchFilter(options, tsQuery);
+    if (!where) return 0;
+
+    const rows = await prisma.$queryRaw<Array<{ total: number }>>`
+        SELECT COUNT(*)::int AS total
+        FROM "Note" n
+        JOIN "Notebook" nb ON nb.id = n."notebookId"
+        WHERE ${where}
+    `;
+
+    return rows[0]?.total ?? 0;
+}
@@ -0,0 +1,19 @@
+/**
+ * Search module exports.
+ */
+
+export {
+    buildTsQuery,
+    searchNotes,
+    countSearchNotes,
+    NOTE_SEARCH_SORTS,
+    SEARCH_CONFIG,
+    HIGHLIGHT_START,
+    HIGHLIGHT_END,
+} from './full-text';
+export type { NoteSearchOptions, NoteSearchHit, NoteSearchResult, NoteSearchSort } from './full-text';
+export { parseSearchQuery, parseSearchDate, buildSearchWhere } from './query-parser';
+export type { SearchOperator, SearchFilter, ParsedSearchQuery } from './query-parser';
+export { resolveNoteSearch, countNoteSearch } from './note-search';
+export type { ResolveNoteSearchOptions, ResolvedNoteSearch, CountNoteSearchOptions } from './note-search';
+export { serializeSavedSearch } from './saved-search';
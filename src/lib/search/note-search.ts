@@ -0,0 +1,115 @@
+/**
+ * Note Search
+ *
+ * Combines search operators with full-text ranking for the note list
+ * endpoints. Operators narrow the candidate set through Prisma; remaining
+ * free text is ranked by Postgres full-text search.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { searchNotes, countSearchNotes, type NoteSearchHit, type NoteSearchSort } from './full-text';
+import { parseSearchQuery, buildSearchWhere, type ParsedSearchQuery } from './query-parser';
+
+/**
+ * Options for resolving a note search.
+ */
+export interface ResolveNoteSearchOptions {
+    userId: string;
+    /** Raw search string, may contain operators */
+    search: string;
+    /** Ownership and view filters already built by the route */
+    where: Prisma.NoteWhereInput;
+    notebookId?: string;
+    tagId?: string;
+    isTrash: boolean;
+    sort?: NoteSearchSort;
+    limit: number;
+    offset: number;
+}
+
+/**
+ * Options for counting a note search.
+ */
+export type CountNoteSearchOptions = Pick<ResolveNoteSearchOptions, 'userId' | 'search' | 'where' | 'isTrash'>;
+
+/**
+ * Resolved search for a note list.
+ */
+export interface ResolvedNoteSearch {
+    /** Route filters combined with the operator filters */
+    where: Prisma.NoteWhereInput;
+    /** Ranked page of hits when the query has free text, otherwise null */
+    hits: NoteSearchHit[] | null;
+    /** Total ranked matches (null when hits is null) */
+    total: number | null;
+}
+
+/**
+ * Apply a search string to a note list query.
+ */
+export async function resolveNoteSearch(options: ResolveNoteSearchOptions): Promise<ResolvedNoteSearch> {
+    const { userId, search, notebookId, tagId, isTrash, sort, limit, offset } = options;
+
+    const parsed = parseSearchQuery(search);
+    const where = combineWhere(options.where, parsed);
+
+    if (!parsed.text) {
+        return { where, hits: null, total: null };
+    }
+
+    const noteIds = await getCandidateIds(where, parsed);
+
+    const result = await searchNotes({
+        userId,
+        query: parsed.text,
+        notebookId,
+        tagId,
+        isTrash,
+        noteIds,
+        sort,
+        limit,
+        offset,
+    });
+
+    if (!result) {
+        return { where, hits: null, total: null };
+    }
+
+    return { where, hits: result.hits, total: result.total };
+}
+
+/**
+ * Count the notes a search matches (used for saved search badges).
+ */
+export async function countNoteSearch(options: CountNoteSearchOptions): Promise<number> {
+    const { userId, search, isTrash } = options;
+
+    const parsed = parseSearchQuery(search);
+    const where = combineWhere(options.where, parsed);
+
+    if (parsed.text) {
+        const count = await countSearchNotes({
+            userId,
+            query: parsed.text,
+            isTrash,
+            noteIds: await getCandidateIds(where, parsed),
+        });
+        if (count !== null) return count;
+    }
+
+    return prisma.note.count({ where });
+}
+
+function combineWhere(where: Prisma.NoteWhereInput, parsed: ParsedSearchQuery): Prisma.NoteWhereInput {
+    return parsed.filters.length > 0 ? { AND: [where, buildSearchWhere(parsed)] } : where;
+}
+
+/**
+ * Operators can't be expressed in the raw ranking query, so pre-filter to candidate IDs
+ */
+async function getCandidateIds(where: Prisma.NoteWhereInput, parsed: ParsedSearchQuery): Promise<string[] | undefined> {
+    if (parsed.filters.length === 0) return undefined;
+    const notes = await prisma.note.findMany({ where, select: { id: true } });
+    return notes.map(note => note.id);
+}
@@ -0,0 +1,242 @@
+/**
+ * Search Query Parser
+ *
+ * Parses Evernote-style search grammar so users migrating from Evernote can
+ * keep their search habits. Structured operators become a Prisma `where`
+ * clause; everything else is left as free text for full-text search.
+ *
+ * Supported operators (all may be negated with a leading `-`):
+ * - notebook:Work / notebook:"Work Projects"
+ * - tag:urgent / tag:proj* / -tag:done
+ * - created:20240131 / created:day-7 / updated:week / -created:year
+ * - todo:true / todo:false / todo:*
+ * - resource:image/* / resource:application/pdf
+ * - sourceurl:https://example.com* (prefix match by default)
+ * - intitle:budget / intitle:"quarterly budget"
+ */
+
+import type { Prisma } from '@prisma/client';
+
+export type SearchOperator =
+    | 'notebook'
+    | 'tag'
+    | 'created'
+    | 'updated'
+    | 'todo'
+    | 'resource'
+    | 'sourceurl'
+    | 'intitle';
+
+const OPERATORS: ReadonlySet<string> = new Set<SearchOperator>([
+    'notebook',
+    'tag',
+    'created',
+    'updated',
+    'todo',
+    'resource',
+    'sourceurl',
+    'intitle',
+]);
+
+/**
+ * A single structured filter from the query.
+ */
+export interface SearchFilter {
+    operator: SearchOperator;
+    value: string;
+    negated: boolean;
+}
+
+/**
+ * Result of parsing a search query.
+ */
+export interface ParsedSearchQuery {
+    /** Free text (words, quoted phrases, exclusions) for full-text search */
+    text: string;
+    filters: SearchFilter[];
+}
+
+const TOKEN_PATTERN = /(-?)(?:([a-zA-Z]+):(?:"([^"]*)"?|(\S*))|"([^"]*)"?|(\S+))/g;
+
+/**
+ * Markers written into note HTML for checkboxes.
+ * Task items (from the editor or imported to-dos) use `data-checked`; notes
+ * imported before task lists existed may still hold `class="en-todo"` inputs.
+ */
+const TODO_MARKERS = {
+    any: ['class="en-todo"', 'data-type="taskItem"'],
+    checked: ['class="en-todo" checked', 'data-checked="true"'],
+    unchecked: ['class="en-todo" disabled', 'data-checked="false"'],
+};
+
+/**
+ * Split a search string into free text and structured filters
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+    const textParts: string[] = [];
+    const filters: SearchFilter[] = [];
+
+    for (const match of input.matchAll(TOKEN_PATTERN)) {
+        const [raw, negation, name, quotedValue, bareValue, phrase] = match;
+        const operator = name?.toLowerCase();
+
+        if (operator && OPERATORS.has(operator)) {
+            const value = (quotedValue ?? bareValue ?? '').trim();
+            if (value) {
+                filters.push({
+                    operator: operator as SearchOperator,
+                    value,
+                    negated: negation === '-',
+                });
+            }
+            continue;
+        }
+
+        // Unknown operators (e.g. "http://...") and plain words stay as text
+        if (phrase !== undefined) {
+            if (phrase.trim()) textParts.push(`${negation}"${phrase.trim()}"`);
+        } else {
+            textParts.push(raw);
+        }
+    }
+
+    return { text: textParts.join(' '), filters };
+}
+
+/**
+ * Parse an Evernote date value into the start of the period it names.
+ *
+ * Accepts absolute dates (`20240131`, `20240131T153000Z`, `2024-01-31`) and
+ * relative periods (`day`, `week`, `month`, `year`, optionally `-N` or `+N`).
+ * Relative periods are computed in UTC.
+ */
+export function parseSearchDate(value: string, now: Date = new Date()): Date | null {
+    const relative = value.toLowerCase().match(/^(day|today|week|month|year)([+-]\d+)?$/);
+    if (relative) {
+        const unit = relative[1] === 'today' ? 'day' : relative[1];
+        const offset = relative[2] ? parseInt(relative[2], 10) : 0;
+        const year = now.getUTCFullYear();
+        const month = now.getUTCMonth();
+        const day = now.getUTCDate();
+
+        switch (unit) {
+            case 'day':
+                return new Date(Date.UTC(year, month, day + offset));
+            case 'week':
+                return new Date(Date.UTC(year, month, day - now.getUTCDay() + offset * 7));
+            case 'month':
+                return new Date(Date.UTC(year, month + offset, 1));
+            default:
+                return new Date(Date.UTC(year + offset, 0, 1));
+        }
+    }
+
+    const absolute = value.match(/^(\d{4})-?(\d{2})-?(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/i);
+    if (absolute) {
+        const [, year, month, day, hour = '0', minute = '0', second = '0'] = absolute;
+        const date = new Date(Date.UTC(
+            Number(year),
+            Number(month) - 1,
+            Number(day),
+            Number(hour),
+            Number(minute),
+            Number(second)
+        ));
+        return isNaN(date.getTime()) ? null : date;
+    }
+
+    return null;
+}
+
+/**
+ * Build a case-insensitive string match honouring `*` wildcards.
+ * Without wildcards the default mode is used.
+ */
+function wildcardFilter(value: string, defaultMode: 'equals' | 'startsWith' | 'contains'): Prisma.StringFilter {
+    const leading = value.startsWith('*');
+    const trailing = value.length > 1 && value.endsWith('*');
+    const term = value.replace(/^\*|\*$/g, '');
+
+    if (leading && trailing) return { contains: term, mode: 'insensitive' };
+    if (trailing) return { startsWith: term, mode: 'insensitive' };
+    if (leading) return { endsWith: term, mode: 'insensitive' };
+    return { [defaultMode]: term, mode: 'insensitive' };
+}
+
+function contentContainsAny(markers: string[]): Prisma.NoteWhereInput {
+    return { OR: markers.map(marker => ({ content: { contains: marker } })) };
+}
+
+/**
+ * Translate a single filter into a Prisma condition (before negation).
+ * Returns null for values that can't be interpreted.
+ */
+function buildFilterCondition(filter: SearchFilter, now: Date): Prisma.NoteWhereInput | null {
+    const { operator, value } = filter;
+
+    switch (operator) {
+        case 'notebook':
+            return { notebook: { name: wildcardFilter(value, 'equals') } };
+
+        case 'tag':
+            return { tags: { some: { tag: { name: wildcardFilter(value, 'equals') } } } };
+
+        case 'intitle':
+            return { title: { contains: value, mode: 'insensitive' } };
+
+        case 'sourceurl':
+            return { sourceUrl: wildcardFilter(value, 'startsWith') };
+
+        case 'resource': {
+            const mimeType = value.endsWith('/*')
+                ? { startsWith: value.slice(0, -1), mode: 'insensitive' as const }
+                : wildcardFilter(value, 'equals');
+            return { attachments: { some: { mimeType } } };
+        }
+
+        case 'todo': {
+            const normalized = value.toLowerCase();
+            if (normalized === 'true') return contentContainsAny(TODO_MARKERS.checked);
+            if (normalized === 'false') return contentContainsAny(TODO_MARKERS.unchecked);
+            if (normalized === '*') return contentContainsAny(TODO_MARKERS.any);
+            return null;
+        }
+
+        case 'created': {
+            const date = parseSearchDate(value, now);
+            if (!date) return null;
+            // Imported notes keep their original Evernote creation date
+            return {
+                OR: [
+                    { evernoteCreated: { gte: date } },
+                    { evernoteCreated: null, createdAt: { gte: date } },
+                ],
+            };
+        }
+
+        case 'updated': {
+            const date = parseSearchDate(value, now);
+            if (!date) return null;
+            return { updatedAt: { gte: date } };
+        }
+    }
+}
+
+/**
+ * Build the Prisma `where` clause for a query's structured filters.
+ * Negated filters exclude matches (for dates, `-created:X` means before X).
+ */
+export function buildSearchWhere(
+    parsed: ParsedSearchQuery,
+    now: Date = new Date()
+): Prisma.NoteWhereInput {
+    const conditions: Prisma.NoteWhereInput[] = [];
+
+    for (const filter of parsed.filters) {
+        const condition = buildFilterCondition(filter, now);
+        if (!condition) continue;
+        conditions.push(filter.negated ? { NOT: condition } : condition);
+    }
+
+    return conditions.length > 0 ? { AND: conditions } : {};
+}
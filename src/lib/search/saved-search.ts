@@ -0,0 +1,32 @@
+/**
+ * Saved Searches
+ *
+ * Response shape shared by the saved search routes and the app data
+ * endpoint.
+ */
+
+import type { SavedSearch } from '@prisma/client';
+import { countNoteSearch } from './note-search';
+
+/**
+ * API shape of a saved search, with the number of notes it matches now.
+ */
+export async function serializeSavedSearch(savedSearch: SavedSearch) {
+    const { userId } = savedSearch;
+
+    return {
+        id: savedSearch.id,
+        name: savedSearch.name,
+        query: savedSearch.query,
+        sort: savedSearch.sort,
+        icon: savedSearch.icon,
+        noteCount: await countNoteSearch({
+            userId,
+            search: savedSearch.query,
+            where: { notebook: { userId }, isTrash: false },
+            isTrash: false,
+        }),
+        createdAt: savedSearch.createdAt,
+        updatedAt: savedSearch.updatedAt,
+    };
+}
@@ -0,0 +1,46 @@
+/**
+ * Sharing module exports.
+ */
+
+export {
+    SHARE_TOKEN_PATTERN,
+    SHARE_PASSWORD_MIN_LENGTH,
+    generateShareToken,
+    hashSharePassword,
+    verifySharePassword,
+    shareAccessKey,
+    hasShareAccess,
+    shareCookieName,
+} from './share-crypto';
+export { sanitizeShareHtml } from './sanitize-html';
+export type { SanitizeOptions } from './sanitize-html';
+export {
+    shareUrl,
+    sharedAttachmentUrl,
+    serializeShareLink,
+    createShareLink,
+    listShareLinks,
+    revokeShareLink,
+    resolveShareLink,
+    recordShareView,
+    listSharedNotebookNotes,
+    loadSharedNote,
+    loadSharedAttachment,
+} from './share-service';
+export type {
+    ShareTarget,
+    CreateShareLinkOptions,
+    ShareLinkLookup,
+    ShareLinkWithTarget,
+    SharedNoteView,
+} from './share-service';
+export {
+    UNLOCK_WINDOW_MS,
+    MAX_FAILURES_PER_LINK,
+    MAX_FAILURES_PER_IP,
+    unlockRetryAfter,
+    visitorIp,
+    checkUnlockThrottle,
+    recordUnlockFailure,
+    clearUnlockFailures,
+} from './unlock-throttle';
@@ -0,0 +1,159 @@
+/**
+ * Share HTML Sanitizer
+ *
+ * Rebuilds note HTML from an allowlist of tags and attributes before it is
+ * shown on a public share page. Anything not listed is dropped, so scripts,
+ * event handlers, frames and forms never reach a visitor, whatever an
+ * import or the editor stored.
+ */
+
+import { escapeHtml, getTextContent, parseHtml, VOID_ELEMENTS, type HtmlElement, type HtmlNode } from '@/lib/export/html-tree';
+import { EN_CRYPT_TYPE } from '@/lib/encryption/en-crypt';
+import { NOTE_LINK_TYPE } from '@/lib/links/note-links';
+
+export interface SanitizeOptions {
+    /** Replace an image or link URL, e.g. with a signed attachment URL */
+    resolveUrl?: (url: string) => string | undefined;
+    /** URL for a `[[note link]]`, or undefined to show it as plain text */
+    resolveNoteLink?: (noteId: string) => string | undefined;
+}
+
+const ALLOWED_TAGS: ReadonlySet<string> = new Set([
+    'p', 'br', 'hr', 'div', 'span', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+    'strong', 'b', 'em', 'i', 'u', 's', 'strike', 'del', 'sub', 'sup', 'mark', 'small',
+    'blockquote', 'pre', 'code', 'ul', 'ol', 'li', 'label', 'input', 'a', 'img',
+    'table', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td', 'colgroup', 'col', 'caption',
+    'figure', 'figcaption',
+]);
+
+/** Elements dropped together with their content */
+const DROPPED_TAGS: ReadonlySet<string> = new Set([
+    'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'form', 'button',
+    'select', 'textarea', 'svg', 'math', 'head', 'title', 'meta', 'link', 'base', 'noscript',
+]);
+
+const GLOBAL_ATTRIBUTES = ['style', 'data-type', 'data-checked', 'data-due-date'];
+
+const TAG_ATTRIBUTES: Record<string, string[]> = {
+    a: ['href', 'title'],
+    img: ['src', 'alt', 'title', 'width', 'height'],
+    ol: ['start'],
+    td: ['colspan', 'rowspan', 'align'],
+    th: ['colspan', 'rowspan', 'align'],
+    col: ['span', 'width'],
+    p: ['align'],
+    div: ['align'],
+};
+
+/** Inline style properties kept; layout and positioning are dropped */
+const ALLOWED_STYLES: ReadonlySet<string> = new Set([
+    'color', 'background-color', 'text-align', 'text-decoration', 'font-weight',
+    'font-style', 'font-size', 'font-family', 'padding-left', 'margin-left', 'width',
+]);
+
+// Browsers read `/\host` like `//host`, so neither counts as same-site
+const SAFE_URL_PATTERN = /^(https?:|mailto:|tel:|\/(?![/\\])|#)/i;
+
+/** Keep only http(s), mailto, tel, same-site and fragment URLs */
+function safeUrl(url: string): string | null {
+    const trimmed = url.trim();
+    return SAFE_URL_PATTERN.test(trimmed) ? trimmed : null;
+}
+
+function sanitizeStyle(style: string): string {
+    return style
+        .split(';')
+        .map(declaration => {
+            const [name, ...rest] = declaration.split(':');
+            const property = name?.trim().toLowerCase() ?? '';
+            const value = rest.join(':').trim();
+            if (!ALLOWED_STYLES.has(property) || !value) return null;
+            // No url(), expression() or escapes that could smuggle them in
+            if (/[\\<>]|url\s*\(|expression\s*\(/i.test(value)) return null;
+            return `${property}: ${value}`;
+        })
+        .filter(Boolean)
+        .join('; ');
+}
+
+function renderAttributes(attrs: Record<string, string>): string {
+    return Object.entries(attrs)
+        .map(([name, value]) => ` ${name}="${escapeHtml(value)}"`)
+        .join('');
+}
+
+function sanitizeAttributes(element: HtmlElement, options: SanitizeOptions): Record<string, string> | null {
+    const allowed = [...GLOBAL_ATTRIBUTES, ...(TAG_ATTRIBUTES[element.tag] ?? [])];
+    const attrs: Record<string, string> = {};
+
+    for (const name of allowed) {
+        const value = element.attrs[name];
+        if (value === undefined) continue;
+
+        if (name === 'href' || name === 'src') {
+            const url = safeUrl(options.resolveUrl?.(value) ?? value);
+            if (url) attrs[name] = url;
+        } else if (name === 'style') {
+            const style = sanitizeStyle(value);
+            if (style) attrs.style = style;
+        } else {
+            attrs[name] = value;
+        }
+    }
+
+    if (element.tag === 'img' && !attrs.src) return null;
+    if (element.tag === 'a' && attrs.href && !attrs.href.startsWith('#')) {
+        attrs.target = '_blank';
+        attrs.rel = 'noopener noreferrer nofollow';
+    }
+
+    return attrs;
+}
+
+function sanitizeNodes(nodes: HtmlNode[], options: SanitizeOptions): string {
+    return nodes.map(node => sanitizeNode(node, options)).join('');
+}
+
+function sanitizeNode(node: HtmlNode, options: SanitizeOptions): string {
+    if (node.type === 'text') return escapeHtml(node.text);
+
+    const { tag } = node;
+    if (DROPPED_TAGS.has(tag)) return '';
+
+    // Encrypted blocks stay encrypted; only the owner can decrypt them in the editor
+    if (node.attrs['data-type'] === EN_CRYPT_TYPE) {
+        return '<span class="share-encrypted">🔒 Encrypted content</span>';
+    }
+
+    if (node.attrs['data-type'] === NOTE_LINK_TYPE) {
+        const text = escapeHtml(getTextContent(node));
+        const noteId = node.attrs['data-note-id'];
+        const href = noteId ? options.resolveNoteLink?.(noteId) : undefined;
+        return href
+            ? `<a class="note-link" href="${escapeHtml(href)}">${text}</a>`
+            : `<span class="note-link">${text}</span>`;
+    }
+
+    // Unknown elements are unwrapped so their text still shows
+    if (!ALLOWED_TAGS.has(tag)) return sanitizeNodes(node.children, options);
+
+    if (tag === 'input') {
+        // Only read-only checkboxes from task lists
+        if (node.attrs.type?.toLowerCase() !== 'checkbox') return '';
+        return `<input type="checkbox"${'checked' in node.attrs ? ' checked' : ''} disabled>`;
+    }
+
+    const attrs = sanitizeAttributes(node, options);
+    if (!attrs) return '';
+
+    const open = `<${tag}${renderAttributes(attrs)}>`;
+    if (VOID_ELEMENTS.has(tag)) return open;
+    return `${open}${sanitizeNodes(node.children, options)}</${tag}>`;
+}
+
+/**
+ * Sanitize note HTML for a public share page.
+ */
+export function sanitizeShareHtml(html: string, options: SanitizeOptions = {}): string {
+    return sanitizeNodes(parseHtml(html), options);
+}
@@ -0,0 +1,73 @@
+/**
+ * Share Link Crypto
+ *
+ * Unguessable share tokens, password hashing for protected links and the
+ * cookie value that proves a visitor entered the password.
+ */
+
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+// 192 bits of randomness, 32 URL-safe characters
+const TOKEN_BYTES = 24;
+const SALT_BYTES = 16;
+const KEY_LENGTH = 32;
+
+/** Shortest password a link can be protected with */
+export const SHARE_PASSWORD_MIN_LENGTH = 8;
+
+/** Share tokens as they appear in `/s/[token]` */
+export const SHARE_TOKEN_PATTERN = /^[A-Za-z0-9_-]{32}$/;
+
+/**
+ * Generate a new random share token.
+ */
+export function generateShareToken(): string {
+    return randomBytes(TOKEN_BYTES).toString('base64url');
+}
+
+/**
+ * Hash a share link password as `scrypt$<salt>$<key>`.
+ */
+export async function hashSharePassword(password: string): Promise<string> {
+    const salt = randomBytes(SALT_BYTES);
+    const key = await scryptAsync(password, salt, KEY_LENGTH);
+    return `scrypt$${salt.toString('base64url')}$${key.toString('base64url')}`;
+}
+
+/**
+ * Check a password against a hash from `hashSharePassword`.
+ */
+export async function verifySharePassword(password: string, passwordHash: string): Promise<boolean> {
+    const [scheme, salt, expected] = passwordHash.split('$');
+    if (scheme !== 'scrypt' || !salt || !expected) return false;
+
+    const expectedKey = Buffer.from(expected, 'base64url');
+    const key = await scryptAsync(password, Buffer.from(salt, 'base64url'), expectedKey.length);
+    return timingSafeEqual(key, expectedKey);
+}
+
+/**
+ * Cookie value granting access to a password-protected link. It is keyed
+ * on the password hash, so changing or removing the password invalidates it.
+ */
+export function shareAccessKey(token: string, passwordHash: string): string {
+    return createHmac('sha256', passwordHash).update(token).digest('base64url');
+}
+
+/**
+ * Compare a cookie value with the expected access key.
+ */
+export function hasShareAccess(token: string, passwordHash: string, cookieValue: string | undefined): boolean {
+    if (!cookieValue) return false;
+    const expected = Buffer.from(shareAccessKey(token, passwordHash));
+    const actual = Buffer.from(cookieValue);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/** Name of the access cookie for a link */
+export function shareCookieName(token: string): string {
+    return `share_${token}`;
+}
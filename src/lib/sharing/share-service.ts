@@ -0,0 +1,261 @@
+/**
+ * Share Service
+ *
+ * Creates and revokes public read-only links to notes and notebooks, and
+ * loads what a visitor to `/s/[token]` may see.
+ */
+
+import type { Prisma, ShareLink } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { getStorageService } from '@/lib/storage';
+import { referencesAttachment } from '@/lib/export/note-source';
+import { generateShareToken, hashSharePassword } from './share-crypto';
+import { sanitizeShareHtml } from './sanitize-html';
+
+/**
+ * What a link shares: one note or a whole notebook.
+ */
+export type ShareTarget = { noteId: string } | { notebookId: string };
+
+export interface CreateShareLinkOptions {
+    password?: string;
+    expiresAt?: Date | null;
+}
+
+/**
+ * Outcome of looking up a token. Expired and revoked links are told apart
+ * so the page can explain why the link stopped working.
+ */
+export type ShareLinkLookup =
+    | { status: 'ok'; link: ShareLinkWithTarget }
+    | { status: 'not-found' | 'expired' | 'revoked' };
+
+const shareTargetInclude = {
+    note: { select: { id: true, title: true, isTrash: true } },
+    notebook: { select: { id: true, name: true } },
+} satisfies Prisma.ShareLinkInclude;
+
+export type ShareLinkWithTarget = Prisma.ShareLinkGetPayload<{ include: typeof shareTargetInclude }>;
+
+/**
+ * A shared note as shown to visitors, with sanitized HTML and attachment
+ * URLs served through the link.
+ */
+export interface SharedNoteView {
+    id: string;
+    title: string;
+    icon: string | null;
+    html: string;
+    updatedAt: Date;
+    attachments: Array<{ id: string; name: string; mimeType: string; size: number; url: string }>;
+}
+
+/**
+ * Public URL of a share link.
+ */
+export function shareUrl(token: string): string {
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL ?? 'http://localhost:3000';
+    return `${appUrl}/s/${token}`;
+}
+
+/**
+ * URL visitors fetch an attachment from. It sits under the page's path so
+ * the cookie that unlocks a protected link is sent with it.
+ */
+export function sharedAttachmentUrl(token: string, attachmentId: string): string {
+    return `/s/${token}/attachments/${encodeURIComponent(attachmentId)}`;
+}
+
+/**
+ * API shape of a share link. The token is only useful to the owner, who
+ * already has it; the password hash never leaves the server.
+ */
+export function serializeShareLink(link: ShareLink) {
+    return {
+        id: link.id,
+        token: link.token,
+        url: shareUrl(link.token),
+        noteId: link.noteId,
+        notebookId: link.notebookId,
+        hasPassword: link.passwordHash !== null,
+        expiresAt: link.expiresAt,
+        revokedAt: link.revokedAt,
+        viewCount: link.viewCount,
+        lastViewedAt: link.lastViewedAt,
+        createdAt: link.createdAt,
+    };
+}
+
+/**
+ * Where-clause for a share target owned by the user.
+ */
+function ownedTarget(userId: string, target: ShareTarget): Prisma.ShareLinkWhereInput {
+    return 'noteId' in target
+        ? { noteId: target.noteId, note: { notebook: { userId } } }
+        : { notebookId: target.notebookId, notebook: { userId } };
+}
+
+/**
+ * Create a link to a note or notebook the user owns.
+ * Returns null when the target doesn't exist or belongs to someone else.
+ */
+export async function createShareLink(
+    userId: string,
+    target: ShareTarget,
+    options: CreateShareLinkOptions = {}
+): Promise<ShareLink | null> {
+    const owned = 'noteId' in target
+        ? await prisma.note.count({ where: { id: target.noteId, notebook: { userId } } })
+        : await prisma.notebook.count({ where: { id: target.notebookId, userId } });
+
+    if (owned === 0) return null;
+
+    return prisma.shareLink.create({
+        data: {
+            ...target,
+            userId,
+            token: generateShareToken(),
+            passwordHash: options.password ? await hashSharePassword(options.password) : null,
+            expiresAt: options.expiresAt ?? null,
+        },
+    });
+}
+
+/**
+ * The user's links to a note or notebook, newest first, including revoked
+ * and expired ones so their view counts stay visible.
+ */
+export async function listShareLinks(userId: string, target: ShareTarget): Promise<ShareLink[]> {
+    return prisma.shareLink.findMany({
+        where: ownedTarget(userId, target),
+        orderBy: { createdAt: 'desc' },
+    });
+}
+
+/**
+ * Revoke a link. Returns null when the link isn't the user's.
+ */
+export async function revokeShareLink(userId: string, linkId: string): Promise<ShareLink | null> {
+    const link = await prisma.shareLink.findFirst({ where: { id: linkId, userId } });
+    if (!link) return null;
+    if (link.revokedAt) return link;
+
+    return prisma.shareLink.update({
+        where: { id: link.id },
+        data: { revokedAt: new Date() },
+    });
+}
+
+/**
+ * Look up a token for a visitor. Links to trashed notes count as gone.
+ */
+export async function resolveShareLink(token: string, now = new Date()): Promise<ShareLinkLookup> {
+    const link = await prisma.shareLink.findUnique({
+        where: { token },
+        include: shareTargetInclude,
+    });
+
+    if (!link || (!link.note && !link.notebook) || link.note?.isTrash) {
+        return { status: 'not-found' };
+    }
+    if (link.revokedAt) return { status: 'revoked' };
+    if (link.expiresAt && link.expiresAt <= now) return { status: 'expired' };
+
+    return { status: 'ok', link };
+}
+
+/**
+ * Count a visit to a link.
+ */
+export async function recordShareView(linkId: string): Promise<void> {
+    await prisma.shareLink.update({
+        where: { id: linkId },
+        data: { viewCount: { increment: 1 }, lastViewedAt: new Date() },
+    });
+}
+
+/**
+ * Notes visible through a notebook link, most recently updated first.
+ */
+export async function listSharedNotebookNotes(notebookId: string) {
+    return prisma.note.findMany({
+        where: { notebookId, isTrash: false },
+        select: { id: true, title: true, icon: true, updatedAt: true },
+        orderBy: { updatedAt: 'desc' },
+    });
+}
+
+/**
+ * Load a note for the share page reached through `token`. `linkHref`
+ * builds the URL of another note reachable through the same link;
+ * `[[links]]` to other notes are shown as plain text.
+ */
+export async function loadSharedNote(
+    noteId: string,
+    options: { token: string; notebookId?: string; linkHref?: (noteId: string) => string | undefined }
+): Promise<SharedNoteView | null> {
+    const note = await prisma.note.findFirst({
+        where: {
+            id: noteId,
+            isTrash: false,
+            ...(options.notebookId && { notebookId: options.notebookId }),
+        },
+        include: { attachments: true },
+    });
+
+    if (!note) return null;
+
+    const attachments = note.attachments.map(attachment => ({
+        attachment,
+        url: sharedAttachmentUrl(options.token, attachment.id),
+    }));
+
+    // Attachments referenced from the content are shown inline
+    const inline = new Set<string>();
+    const html = sanitizeShareHtml(note.content, {
+        resolveUrl: (url) => {
+            const match = attachments.find(({ attachment }) => referencesAttachment(url, attachment));
+            if (match) inline.add(match.attachment.id);
+            return match?.url;
+        },
+        resolveNoteLink: options.linkHref,
+    });
+
+    return {
+        id: note.id,
+        title: note.title,
+        icon: note.icon,
+        html,
+        updatedAt: note.updatedAt,
+        // The rest are offered as downloads
+        attachments: attachments
+            .filter(({ attachment }) => !inline.has(attachment.id))
+            .map(({ attachment, url }) => ({
+                id: attachment.id,
+                name: attachment.originalName || attachment.filename,
+                mimeType: attachment.mimeType,
+                size: attachment.size,
+                url,
+            })),
+    };
+}
+
+/**
+ * An attachment of a note visible through a link, with its file. Returns
+ * null when the attachment isn't reachable through the link or its file
+ * is missing.
+ */
+export async function loadSharedAttachment(link: ShareLinkWithTarget, attachmentId: string) {
+    const attachment = await prisma.attachment.findFirst({
+        where: {
+            id: attachmentId,
+            note: link.noteId
+                ? { id: link.noteId, isTrash: false }
+                : { notebookId: link.notebookId!, isTrash: false },
+        },
+    });
+    if (!attachment) return null;
+
+    const data = await getStorageService().get(attachment.storageKey);
+    return data ? { attachment, data } : null;
+}
@@ -0,0 +1,79 @@
+/**
+ * Share Unlock Throttle
+ *
+ * Limits password guesses on protected links. Wrong passwords are counted
+ * per link and per visitor IP; once either has too many within the window,
+ * further attempts are refused until the oldest of them ages out.
+ */
+
+import { prisma } from '@/lib/db';
+
+export const UNLOCK_WINDOW_MS = 15 * 60 * 1000;
+export const MAX_FAILURES_PER_LINK = 10;
+export const MAX_FAILURES_PER_IP = 20;
+
+/**
+ * Seconds until another attempt is allowed after these failures, or 0 if
+ * one is allowed now.
+ */
+export function unlockRetryAfter(failures: Date[], limit: number, now = new Date()): number {
+    const recent = failures
+        .filter(failedAt => now.getTime() - failedAt.getTime() < UNLOCK_WINDOW_MS)
+        .sort((a, b) => a.getTime() - b.getTime());
+    if (recent.length < limit) return 0;
+
+    const freedAt = recent[recent.length - limit]!.getTime() + UNLOCK_WINDOW_MS;
+    return Math.max(1, Math.ceil((freedAt - now.getTime()) / 1000));
+}
+
+/**
+ * The visitor's IP as reported by the proxy in front of the app.
+ */
+export function visitorIp(headers: Headers): string {
+    return headers.get('x-forwarded-for')?.split(',')[0]?.trim()
+        || headers.get('x-real-ip')
+        || 'unknown';
+}
+
+/**
+ * Seconds the visitor must wait before trying a password on the link, or 0.
+ */
+export async function checkUnlockThrottle(shareLinkId: string, ipAddress: string, now = new Date()): Promise<number> {
+    const since = new Date(now.getTime() - UNLOCK_WINDOW_MS);
+    const recentFailures = (where: { shareLinkId: string } | { ipAddress: string }, limit: number) =>
+        prisma.shareUnlockFailure.findMany({
+            where: { ...where, createdAt: { gt: since } },
+            select: { createdAt: true },
+            orderBy: { createdAt: 'desc' },
+            take: limit,
+        });
+
+    const [forLink, forIp] = await Promise.all([
+        recentFailures({ shareLinkId }, MAX_FAILURES_PER_LINK),
+        recentFailures({ ipAddress }, MAX_FAILURES_PER_IP),
+    ]);
+
+    return Math.max(
+        unlockRetryAfter(forLink.map(failure => failure.createdAt), MAX_FAILURES_PER_LINK, now),
+        unlockRetryAfter(forIp.map(failure => failure.createdAt), MAX_FAILURES_PER_IP, now)
+    );
+}
+
+/**
+ * Count a wrong password, dropping the link's failures that no longer count.
+ */
+export async function recordUnlockFailure(shareLinkId: string, ipAddress: string, now = new Date()): Promise<void> {
+    await prisma.$transaction([
+        prisma.shareUnlockFailure.deleteMany({
+            where: { shareLinkId, createdAt: { lte: new Date(now.getTime() - UNLOCK_WINDOW_MS) } },
+        }),
+        prisma.shareUnlockFailure.create({ data: { shareLinkId, ipAddress, createdAt: now } }),
+    ]);
+}
+
+/**
+ * Forget the visitor's failures on a link once they got the password right.
+ */
+export async function clearUnlockFailures(shareLinkId: string, ipAddress: string): Promise<void> {
+    await prisma.shareUnlockFailure.deleteMany({ where: { shareLinkId, ipAddress } });
+}
@@ -1,16 +1,35 @@
 import { mkdir, readFile, writeFile, unlink, stat, readdir } from "fs/promises";
 import { join, dirname, relative } from "path";
-import { existsSync } from "fs";
+import { existsSync, createWriteStream } from "fs";
+import { pipeline } from "stream/promises";
 import { randomUUID } from "crypto";
 import type {
   StorageService,
   StorageFile,
   StorageUploadOptions,
   StorageGetOptions,
+  StorageUploadUrlOptions,
+  StorageUploadUrl,
   StorageListOptions,
   StorageListResult,
 } from "./types";
 
+/**
+ * Chunks of a web stream as an async iterable, for piping to a file.
+ */
+async function* readChunks(stream: ReadableStream<Uint8Array>): AsyncGenerator<Uint8Array> {
+  const reader = stream.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
 /**
  * Local filesystem storage implementation.
  * Stores files in a specified directory on the local filesystem.
@@ -18,10 +37,16 @@ import type {
 export class LocalStorageService implements StorageService {
   private readonly basePath: string;
   private readonly baseUrl: string;
+  private readonly uploadBaseUrl: string;
 
-  constructor(basePath: string, baseUrl: string = "/api/attachments") {
+  constructor(
+    basePath: string,
+    baseUrl: string = "/api/attachments",
+    uploadBaseUrl: string = "/api/import/uploads"
+  ) {
     this.basePath = basePath;
     this.baseUrl = baseUrl;
+    this.uploadBaseUrl = uploadBaseUrl;
   }
 
   /**
@@ -70,6 +95,21 @@ export class LocalStorageService implements StorageService {
     };
   }
 
+  /**
+   * Write a file from a stream without holding it in memory, for uploads
+   * sent to the URL from `getUploadUrl`.
+   * @returns Number of bytes written
+   */
+  async writeStream(key: string, stream: ReadableStream<Uint8Array>): Promise<number> {
+    const fullPath = join(this.basePath, key);
+
+    await this.ensureDir(fullPath);
+    const file = createWriteStream(fullPath);
+    await pipeline(readChunks(stream), file);
+
+    return file.bytesWritten;
+  }
+
   async get(key: string): Promise<Buffer | null> {
     try {
       const fullPath = join(this.basePath, key);
@@ -85,6 +125,15 @@ export class LocalStorageService implements StorageService {
     return `${this.baseUrl}/${encodeURIComponent(key)}`;
   }
 
+  async getUploadUrl(key: string, options: StorageUploadUrlOptions): Promise<StorageUploadUrl> {
+    // There is no separate storage server; the upload route writes the file
+    return {
+      url: `${this.uploadBaseUrl}/${encodeURIComponent(key)}`,
+      method: "PUT",
+      headers: { "Content-Type": options.mimeType },
+    };
+  }
+
   async delete(key: string): Promise<boolean> {
     try {
       const fullPath = join(this.basePath, key);
@@ -13,6 +13,8 @@ import type {
   StorageFile,
   StorageUploadOptions,
   StorageGetOptions,
+  StorageUploadUrlOptions,
+  StorageUploadUrl,
   StorageListOptions,
   StorageListResult,
 } from "./types";
@@ -135,6 +137,25 @@ export class S3StorageService implements StorageService {
     return `https://${this.bucket}.s3.amazonaws.com/${key}`;
   }
 
+  async getUploadUrl(key: string, options: StorageUploadUrlOptions): Promise<StorageUploadUrl> {
+    const command = new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      ContentType: options.mimeType,
+    });
+
+    // The bucket's CORS rules must allow PUT from the app's origin
+    const url = await getSignedUrl(this.client, command, {
+      expiresIn: options.expiresIn ?? 3600,
+    });
+
+    return {
+      url,
+      method: "PUT",
+      headers: { "Content-Type": options.mimeType },
+    };
+  }
+
   async delete(key: string): Promise<boolean> {
     try {
       await this.client.send(
@@ -12,6 +12,7 @@ interface StorageConfig {
   local?: {
     path: string;
     baseUrl?: string;
+    uploadBaseUrl?: string;
   };
   s3?: {
     bucket: string;
@@ -84,6 +85,7 @@ function getStorageConfig(): StorageConfig {
     local: {
       path: localPath.startsWith("/") ? localPath : join(process.cwd(), localPath),
       baseUrl: `${appUrl}/api/attachments`,
+      uploadBaseUrl: `${appUrl}/api/import/uploads`,
     },
   };
 }
@@ -106,7 +108,8 @@ export function getStorageService(): StorageService {
     } else if (config.local) {
       storageInstance = new LocalStorageService(
         config.local.path,
-        config.local.baseUrl
+        config.local.baseUrl,
+        config.local.uploadBaseUrl
       );
     } else {
       throw new Error("Invalid storage configuration");
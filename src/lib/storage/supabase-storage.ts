@@ -11,6 +11,8 @@ import type {
     StorageFile,
     StorageUploadOptions,
     StorageGetOptions,
+    StorageUploadUrlOptions,
+    StorageUploadUrl,
     StorageListOptions,
     StorageListResult
 } from './types';
@@ -148,6 +150,29 @@ export class SupabaseStorageService implements StorageService {
         return data.publicUrl;
     }
 
+    /**
+     * Get a signed URL the browser can upload a file to. Supabase signed
+     * upload URLs are valid for two hours, whatever `expiresIn` asks for.
+     */
+    async getUploadUrl(key: string, options: StorageUploadUrlOptions): Promise<StorageUploadUrl> {
+        const { data, error } = await this.client.storage
+            .from(BUCKET_NAME)
+            .createSignedUploadUrl(key, { upsert: true });
+
+        if (error) {
+            throw new Error(`Failed to create upload URL: ${error.message}`);
+        }
+
+        return {
+            url: data.signedUrl,
+            method: 'PUT',
+            headers: {
+                'Content-Type': options.mimeType,
+                'x-upsert': 'true',
+            },
+        };
+    }
+
     /**
      * List files in storage
      */
@@ -30,6 +30,22 @@ export interface StorageGetOptions {
   expiresIn?: number;
 }
 
+export interface StorageUploadUrlOptions {
+  /** MIME type the file must be uploaded with */
+  mimeType: string;
+  /** Expiration time for the URL in seconds */
+  expiresIn?: number;
+}
+
+export interface StorageUploadUrl {
+  /** URL the client sends the file to */
+  url: string;
+  /** HTTP method of the upload request */
+  method: "PUT";
+  /** Headers the upload request must include */
+  headers: Record<string, string>;
+}
+
 export interface StorageListOptions {
   /** Prefix to filter files */
   prefix?: string;
@@ -73,6 +89,15 @@ export interface StorageService {
    */
   getUrl(key: string, options?: StorageGetOptions): Promise<string>;
 
+  /**
+   * Get a URL a client can upload a file to without sending it through
+   * the app.
+   * @param key - Storage key the file is stored under
+   * @param options - Upload URL options
+   * @returns URL and the request details to upload with
+   */
+  getUploadUrl(key: string, options: StorageUploadUrlOptions): Promise<StorageUploadUrl>;
+
   /**
    * Delete a file from storage.
    * @param key - Storage key of the file
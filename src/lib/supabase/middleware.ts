@@ -35,8 +35,8 @@ export async function updateSession(request: NextRequest) {
         data: { user },
     } = await supabase.auth.getUser()
 
-    // Public routes that don't require authentication
-    const publicRoutes = ['/login', '/signup', '/auth/callback']
+    // Public routes that don't require authentication (/s/ is for share links)
+    const publicRoutes = ['/login', '/signup', '/auth/callback', '/s/']
     const isPublicRoute = publicRoutes.some(route =>
         request.nextUrl.pathname.startsWith(route)
     )
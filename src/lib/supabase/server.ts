@@ -1,6 +1,7 @@
 import { createServerClient } from '@supabase/ssr'
 import { cookies } from 'next/headers'
 import { prisma } from '@/lib/db'
+import { claimNotebookInvitations } from '@/lib/permissions/members'
 
 export async function createClient() {
     const cookieStore = await cookies()
@@ -66,6 +67,11 @@ export async function ensureDbUser(): Promise<string | null> {
                 name: user.user_metadata?.full_name || user.email?.split('@')[0] || null,
             }
         })
+
+        // Notebooks shared with this address before the account existed
+        if (user.email) {
+            await claimNotebookInvitations(user.id, user.email)
+        }
     }
 
     return user.id
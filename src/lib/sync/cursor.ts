@@ -0,0 +1,76 @@
+/**
+ * Sync Cursor
+ *
+ * Opaque position in a user's change history handed back and forth by
+ * `/api/sync`. A sync pass covers a fixed time window, `[since, until]`,
+ * so records changed while a client is paging through it land in the
+ * next window instead of shifting the pages. Within a window, notes are
+ * paged by `(updatedAt, id)`.
+ */
+
+/**
+ * Windows start this long before the previous one ended, so changes that
+ * were still being written when it was read aren't missed. Clients apply
+ * records by id, so seeing one twice is harmless.
+ */
+export const SYNC_WINDOW_OVERLAP_MS = 5_000;
+
+export interface SyncCursor {
+    /** Start of the window in ms; absent for a full sync */
+    since?: number;
+    /** End of the window in ms; absent until the first page of it is read */
+    until?: number;
+    /** Last note handed out in this window, as `[updatedAt ms, id]` */
+    after?: [number, string];
+}
+
+function isTimestamp(value: unknown): value is number {
+    return typeof value === 'number' && Number.isSafeInteger(value) && value >= 0;
+}
+
+export function encodeSyncCursor(cursor: SyncCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Read a cursor sent by a client. Returns null if it isn't one we handed out.
+ */
+export function decodeSyncCursor(value: string): SyncCursor | null {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    } catch {
+        return null;
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
+
+    const { since, until, after } = parsed as Record<string, unknown>;
+    if (since !== undefined && !isTimestamp(since)) return null;
+    if (until !== undefined && !isTimestamp(until)) return null;
+    if (after !== undefined) {
+        if (until === undefined || !Array.isArray(after) || after.length !== 2) return null;
+        if (!isTimestamp(after[0]) || typeof after[1] !== 'string') return null;
+    }
+    if (isTimestamp(since) && isTimestamp(until) && since > until) return null;
+
+    const cursor: SyncCursor = {};
+    if (since !== undefined) cursor.since = since;
+    if (until !== undefined) cursor.until = until;
+    if (after !== undefined) cursor.after = after as [number, string];
+    return cursor;
+}
+
+/**
+ * Cursor for the page after one that handed out `lastNote`: the rest of
+ * the window if the page was full, otherwise the start of the next window.
+ */
+export function nextSyncCursor(
+    window: { since?: number; until: number },
+    lastNote: { updatedAt: Date; id: string } | null,
+    pageFull: boolean
+): SyncCursor {
+    if (pageFull && lastNote) {
+        return { ...window, after: [lastNote.updatedAt.getTime(), lastNote.id] };
+    }
+    return { since: Math.max(0, window.until - SYNC_WINDOW_OVERLAP_MS) };
+}
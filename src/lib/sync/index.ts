@@ -0,0 +1,10 @@
+/**
+ * Sync module exports.
+ */
+
+export { getSyncChanges, SYNC_PAGE_SIZE, MAX_SYNC_PAGE_SIZE } from './sync-service';
+export type { SyncChanges, SyncNote } from './sync-service';
+export { encodeSyncCursor, decodeSyncCursor, nextSyncCursor, SYNC_WINDOW_OVERLAP_MS } from './cursor';
+export type { SyncCursor } from './cursor';
+export { recordDeletions, SYNC_ENTITY_TYPES } from './tombstones';
+export type { SyncEntityType } from './tombstones';
@@ -0,0 +1,173 @@
+/**
+ * Sync Service
+ *
+ * Reads what changed in a user's notes, notebooks, stacks, tags and
+ * attachments since a sync cursor, so clients can keep a local replica
+ * without reloading everything. Covers the user's own notebooks; notebooks
+ * shared with them are read through the regular APIs.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { nextSyncCursor, type SyncCursor } from './cursor';
+import { SYNC_ENTITY_TYPES, type SyncEntityType } from './tombstones';
+
+/**
+ * Default and maximum number of notes per page
+ */
+export const SYNC_PAGE_SIZE = 200;
+export const MAX_SYNC_PAGE_SIZE = 500;
+
+const noteSelect = {
+    id: true,
+    title: true,
+    icon: true,
+    cardColor: true,
+    content: true,
+    notebookId: true,
+    sourceUrl: true,
+    author: true,
+    isTrash: true,
+    isFavorite: true,
+    trashedAt: true,
+    reminderAt: true,
+    reminderDoneAt: true,
+    createdAt: true,
+    updatedAt: true,
+    tags: { select: { tagId: true } },
+} satisfies Prisma.NoteSelect;
+
+const attachmentSelect = {
+    id: true,
+    noteId: true,
+    filename: true,
+    originalName: true,
+    mimeType: true,
+    size: true,
+    width: true,
+    height: true,
+    createdAt: true,
+} satisfies Prisma.AttachmentSelect;
+
+type SyncNoteRecord = Prisma.NoteGetPayload<{ select: typeof noteSelect }>;
+
+export type SyncNote = Omit<SyncNoteRecord, 'tags'> & { tagIds: string[] };
+
+/**
+ * One page of changes.
+ */
+export interface SyncChanges {
+    /** The client should drop its replica and rebuild it from these pages */
+    reset: boolean;
+    notes: SyncNote[];
+    notebooks: Prisma.NotebookGetPayload<object>[];
+    stacks: Prisma.StackGetPayload<object>[];
+    tags: Prisma.TagGetPayload<object>[];
+    /** Attachment details; `url` downloads the file */
+    attachments: Array<Prisma.AttachmentGetPayload<{ select: typeof attachmentSelect }> & { url: string }>;
+    /** Ids of permanently deleted records, by type */
+    deleted: Record<SyncEntityType, string[]>;
+    /** Where to continue from, both for the next page and the next sync */
+    cursor: SyncCursor;
+    /** More pages of this window are waiting */
+    hasMore: boolean;
+}
+
+function emptyDeletions(): Record<SyncEntityType, string[]> {
+    const deletions = {} as Record<SyncEntityType, string[]>;
+    for (const type of SYNC_ENTITY_TYPES) {
+        deletions[type] = [];
+    }
+    return deletions;
+}
+
+/**
+ * Read the page of changes at `cursor`. Records other than notes are all
+ * handed out with the first page of a window.
+ */
+export async function getSyncChanges(
+    userId: string,
+    cursor: SyncCursor,
+    limit: number = SYNC_PAGE_SIZE,
+    now: Date = new Date()
+): Promise<SyncChanges> {
+    const since = cursor.since !== undefined ? new Date(cursor.since) : undefined;
+    const until = new Date(cursor.until ?? now.getTime());
+    const changedIn = { ...(since ? { gte: since } : {}), lte: until };
+    const firstPage = !cursor.after;
+
+    const noteWhere: Prisma.NoteWhereInput = {
+        notebook: { userId },
+        updatedAt: changedIn,
+    };
+    if (cursor.after) {
+        const [afterTime, afterId] = cursor.after;
+        noteWhere.OR = [
+            { updatedAt: { gt: new Date(afterTime) } },
+            { updatedAt: new Date(afterTime), id: { gt: afterId } },
+        ];
+    }
+
+    const [noteRecords, notebooks, stacks, tags, attachments, tombstones] = await Promise.all([
+        prisma.note.findMany({
+            where: noteWhere,
+            select: noteSelect,
+            orderBy: [{ updatedAt: 'asc' }, { id: 'asc' }],
+            take: limit + 1,
+        }),
+        firstPage
+            ? prisma.notebook.findMany({ where: { userId, updatedAt: changedIn }, orderBy: { updatedAt: 'asc' } })
+            : [],
+        firstPage
+            ? prisma.stack.findMany({ where: { userId, updatedAt: changedIn }, orderBy: { updatedAt: 'asc' } })
+            : [],
+        firstPage
+            ? prisma.tag.findMany({ where: { userId, updatedAt: changedIn }, orderBy: { updatedAt: 'asc' } })
+            : [],
+        // Attachments never change once uploaded
+        firstPage
+            ? prisma.attachment.findMany({
+                where: { note: { notebook: { userId } }, createdAt: changedIn },
+                select: attachmentSelect,
+                orderBy: { createdAt: 'asc' },
+            })
+            : [],
+        // Nothing to delete from a replica that is being rebuilt
+        firstPage && since
+            ? prisma.syncTombstone.findMany({
+                where: { userId, deletedAt: changedIn },
+                select: { entityType: true, entityId: true },
+            })
+            : [],
+    ]);
+
+    const hasMore = noteRecords.length > limit;
+    const page = hasMore ? noteRecords.slice(0, limit) : noteRecords;
+
+    const deleted = emptyDeletions();
+    for (const tombstone of tombstones) {
+        deleted[tombstone.entityType as SyncEntityType]?.push(tombstone.entityId);
+    }
+
+    return {
+        reset: !since && firstPage,
+        notes: page.map(({ tags: noteTags, ...note }) => ({
+            ...note,
+            tagIds: noteTags.map(noteTag => noteTag.tagId),
+        })),
+        notebooks,
+        stacks,
+        tags,
+        attachments: attachments.map(attachment => ({
+            ...attachment,
+            url: `/api/attachments/${attachment.id}?download=true`,
+        })),
+        deleted,
+        cursor: nextSyncCursor(
+            { since: cursor.since, until: until.getTime() },
+            page[page.length - 1] ?? null,
+            hasMore
+        ),
+        hasMore,
+    };
+}
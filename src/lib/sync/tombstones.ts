@@ -0,0 +1,33 @@
+/**
+ * Sync Tombstones
+ *
+ * Hard deletes leave nothing behind for a sync client to notice, so each
+ * one is recorded here for `/api/sync` to hand out. Only the record that
+ * was deleted gets a tombstone: the notes of a deleted notebook and the
+ * attachments of a deleted note go with it, and a deleted tag comes off
+ * its notes.
+ */
+
+import { prisma } from '@/lib/db';
+
+/**
+ * Kinds of records a sync client keeps.
+ */
+export type SyncEntityType = 'note' | 'notebook' | 'stack' | 'tag' | 'attachment';
+
+export const SYNC_ENTITY_TYPES: SyncEntityType[] = ['note', 'notebook', 'stack', 'tag', 'attachment'];
+
+/**
+ * Record that records owned by `userId` were permanently deleted.
+ */
+export async function recordDeletions(
+    userId: string,
+    entityType: SyncEntityType,
+    entityIds: string[]
+): Promise<void> {
+    if (entityIds.length === 0) return;
+
+    await prisma.syncTombstone.createMany({
+        data: entityIds.map(entityId => ({ userId, entityType, entityId })),
+    });
+}
@@ -0,0 +1,17 @@
+/**
+ * Tasks module exports.
+ */
+
+export {
+    TASK_LIST_TYPE,
+    TASK_ITEM_TYPE,
+    DUE_DATE_PATTERN,
+    renderTaskList,
+    countTasks,
+    extractTasks,
+    updateTaskMarkup,
+    planTaskSync,
+} from './task-markup';
+export type { TaskCounts, TaskItemMarkup, ExtractedTask, TaskChanges, IndexedTask, TaskSyncPlan } from './task-markup';
+export { syncNoteTasks, listTasks, updateTask, serializeTask } from './task-service';
+export type { TaskFilters, TaskWithNote, TaskUpdateResult } from './task-service';
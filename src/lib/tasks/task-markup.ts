@@ -0,0 +1,255 @@
+/**
+ * Task Markup
+ *
+ * Checklists are stored in note HTML as the editor's task lists:
+ * `<ul data-type="taskList"><li data-type="taskItem" data-checked="…"><p>…</p></li></ul>`.
+ * Notes imported before task lists existed may still contain disabled
+ * `<input type="checkbox" class="en-todo">` checkboxes, which count as tasks
+ * too. Either form may carry a `data-due-date="YYYY-MM-DD"` attribute.
+ * Shared by the import converter and the note routes, so no database access
+ * here.
+ */
+
+import { parseHtml, getTextContent, type HtmlElement, type HtmlNode } from '@/lib/export/html-tree';
+
+export const TASK_LIST_TYPE = 'taskList';
+export const TASK_ITEM_TYPE = 'taskItem';
+
+/**
+ * Open and completed tasks in a note, as stored on the Note row.
+ */
+export interface TaskCounts {
+    openTasks: number;
+    completedTasks: number;
+}
+
+/**
+ * A task item's checked state and HTML content.
+ */
+export interface TaskItemMarkup {
+    checked: boolean;
+    html: string;
+}
+
+/**
+ * A task item found in note HTML.
+ */
+export interface ExtractedTask {
+    text: string;
+    checked: boolean;
+    /** `YYYY-MM-DD`, or null without a due date */
+    dueDate: string | null;
+    /** Index among the note's task items, in document order */
+    position: number;
+}
+
+/**
+ * Changes written back into a task item.
+ */
+export interface TaskChanges {
+    checked?: boolean;
+    /** `YYYY-MM-DD`, or null to clear the due date */
+    dueDate?: string | null;
+}
+
+const TASK_ITEM_PATTERN = /<li\b[^>]*\bdata-type=["']taskItem["'][^>]*>/gi;
+const LEGACY_TODO_PATTERN = /<input\b[^>]*\bclass=["']en-todo["'][^>]*>/gi;
+// Both forms in document order, matching the positions from extractTasks
+const ANY_TASK_PATTERN = /<li\b[^>]*\bdata-type=["']taskItem["'][^>]*>|<input\b[^>]*\bclass=["']en-todo["'][^>]*>/gi;
+
+export const DUE_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Render task items as a task list
+ */
+export function renderTaskList(items: TaskItemMarkup[]): string {
+    const rendered = items.map(item =>
+        `<li data-type="${TASK_ITEM_TYPE}" data-checked="${item.checked}"><p>${item.html}</p></li>`
+    );
+    return `<ul data-type="${TASK_LIST_TYPE}">${rendered.join('')}</ul>`;
+}
+
+/**
+ * Count the open and completed tasks in note HTML
+ */
+export function countTasks(html: string): TaskCounts {
+    const counts: TaskCounts = { openTasks: 0, completedTasks: 0 };
+
+    for (const [item] of html.matchAll(TASK_ITEM_PATTERN)) {
+        if (/\bdata-checked=["']true["']/i.test(item)) counts.completedTasks++;
+        else counts.openTasks++;
+    }
+
+    for (const [input] of html.matchAll(LEGACY_TODO_PATTERN)) {
+        if (/\schecked\b/i.test(input)) counts.completedTasks++;
+        else counts.openTasks++;
+    }
+
+    return counts;
+}
+
+function isTaskItem(node: HtmlNode): boolean {
+    return node.type === 'element' && node.tag === 'li' && node.attrs['data-type'] === TASK_ITEM_TYPE;
+}
+
+function isLegacyTodo(node: HtmlNode): boolean {
+    return node.type === 'element' && node.tag === 'input'
+        && (node.attrs.class ?? '').split(/\s+/).includes('en-todo');
+}
+
+function readDueDate(element: HtmlElement): string | null {
+    const value = element.attrs['data-due-date'];
+    return value && DUE_DATE_PATTERN.test(value) ? value : null;
+}
+
+function collapseText(nodes: HtmlNode[]): string {
+    return nodes.map(getTextContent).join(' ').replace(/\s+/g, ' ').trim();
+}
+
+// Leave out the checkbox label and nested task lists, which are tasks of their own
+function taskItemContent(nodes: HtmlNode[]): HtmlNode[] {
+    return nodes.flatMap((node): HtmlNode[] => {
+        if (node.type !== 'element') return [node];
+        if (node.tag === 'label' || node.attrs['data-type'] === TASK_LIST_TYPE) return [];
+        return [{ ...node, children: taskItemContent(node.children) }];
+    });
+}
+
+/**
+ * List the task items in note HTML.
+ * A task item's text leaves out its checkbox and nested task lists; a legacy
+ * to-do's text runs to the next to-do in the same block.
+ */
+export function extractTasks(html: string): ExtractedTask[] {
+    const tasks: ExtractedTask[] = [];
+
+    const visit = (nodes: HtmlNode[]) => {
+        nodes.forEach((node, index) => {
+            if (node.type !== 'element') return;
+
+            if (isTaskItem(node)) {
+                tasks.push({
+                    text: collapseText(taskItemContent(node.children)),
+                    checked: node.attrs['data-checked'] === 'true',
+                    dueDate: readDueDate(node),
+                    position: tasks.length,
+                });
+            } else if (isLegacyTodo(node)) {
+                const following = nodes.slice(index + 1);
+                const next = following.findIndex(isLegacyTodo);
+                tasks.push({
+                    text: collapseText(next === -1 ? following : following.slice(0, next)),
+                    checked: 'checked' in node.attrs,
+                    dueDate: readDueDate(node),
+                    position: tasks.length,
+                });
+            }
+
+            visit(node.children);
+        });
+    };
+
+    visit(parseHtml(html));
+    return tasks;
+}
+
+function setAttribute(tag: string, name: string, value: string | null): string {
+    const existing = new RegExp(`\\s${name}(?:\\s*=\\s*(?:"[^"]*"|'[^']*'|[^\\s>]+))?(?=[\\s/>])`, 'i');
+    const stripped = tag.replace(existing, '');
+    if (value === null) return stripped;
+
+    const attribute = value === '' ? ` ${name}` : ` ${name}="${value}"`;
+    return stripped.replace(/\s*(\/?)>$/, (_, slash: string) => `${attribute}${slash ? ' /' : ''}>`);
+}
+
+/**
+ * Write a task's checked state or due date back into note HTML.
+ * Returns null if the note has no task at that position.
+ */
+export function updateTaskMarkup(html: string, position: number, changes: TaskChanges): string | null {
+    let index = 0;
+    let found = false;
+
+    const updated = html.replace(ANY_TASK_PATTERN, (tag) => {
+        if (index++ !== position) return tag;
+        found = true;
+
+        const isItem = /^<li\b/i.test(tag);
+        let result = tag;
+        if (changes.checked !== undefined) {
+            result = isItem
+                ? setAttribute(result, 'data-checked', String(changes.checked))
+                : setAttribute(result, 'checked', changes.checked ? '' : null);
+        }
+        if (changes.dueDate !== undefined) {
+            result = setAttribute(result, 'data-due-date', changes.dueDate);
+        }
+        return result;
+    });
+
+    return found ? updated : null;
+}
+
+/**
+ * A task already in the index, with its due date as `YYYY-MM-DD`.
+ */
+export interface IndexedTask extends ExtractedTask {
+    id: string;
+}
+
+/**
+ * Changes that bring a note's indexed tasks in line with its items.
+ * `moved` lists the updated tasks whose position changes.
+ */
+export interface TaskSyncPlan {
+    create: ExtractedTask[];
+    update: IndexedTask[];
+    moved: string[];
+    remove: string[];
+}
+
+function sameTask(a: ExtractedTask, b: ExtractedTask): boolean {
+    return a.text === b.text && a.checked === b.checked && a.dueDate === b.dueDate && a.position === b.position;
+}
+
+/**
+ * Match a note's items to its indexed tasks so tasks keep their IDs across
+ * saves. An item takes the task with the same text, nearest in position;
+ * items left over take the task at their position, as when an item's text
+ * was edited. Anything still unmatched is created or removed.
+ */
+export function planTaskSync(indexed: IndexedTask[], tasks: ExtractedTask[]): TaskSyncPlan {
+    const unmatched = new Set(indexed);
+    const matches = new Map<ExtractedTask, IndexedTask>();
+
+    const claim = (task: ExtractedTask, candidates: IndexedTask[]) => {
+        const nearest = candidates.reduce<IndexedTask | null>((best, candidate) =>
+            !best || Math.abs(candidate.position - task.position) < Math.abs(best.position - task.position)
+                ? candidate
+                : best, null);
+        if (!nearest) return;
+        unmatched.delete(nearest);
+        matches.set(task, nearest);
+    };
+
+    for (const task of tasks) {
+        claim(task, [...unmatched].filter(existing => existing.text === task.text));
+    }
+    for (const task of tasks) {
+        if (matches.has(task)) continue;
+        claim(task, [...unmatched].filter(existing => existing.position === task.position));
+    }
+
+    const plan: TaskSyncPlan = { create: [], update: [], moved: [], remove: [] };
+    for (const task of tasks) {
+        const existing = matches.get(task);
+        if (!existing) {
+            plan.create.push(task);
+        } else if (!sameTask(existing, task)) {
+            plan.update.push({ ...task, id: existing.id });
+            if (existing.position !== task.position) plan.moved.push(existing.id);
+        }
+    }
+    plan.remove = [...unmatched].map(existing => existing.id);
+    return plan;
+}
@@ -0,0 +1,211 @@
+/**
+ * Task Service
+ *
+ * Maintains the `Task` index of checklist items across notes and writes
+ * changes made from the task inbox back into the source note's HTML.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { recordRevision } from '@/lib/revisions';
+import { countTasks, extractTasks, planTaskSync, updateTaskMarkup, type TaskChanges } from './task-markup';
+
+/**
+ * Filters for the task inbox.
+ */
+export interface TaskFilters {
+    status?: 'open' | 'completed' | 'all';
+    /** Only open tasks due before `today` */
+    overdue?: boolean;
+    notebookId?: string;
+    tagId?: string;
+    /** The user's local date as `YYYY-MM-DD`; defaults to the UTC date */
+    today?: string;
+    limit?: number;
+}
+
+const taskInclude = {
+    note: {
+        select: {
+            id: true,
+            title: true,
+            icon: true,
+            notebook: { select: { id: true, name: true } },
+        },
+    },
+} satisfies Prisma.TaskInclude;
+
+/**
+ * A task with the note it comes from.
+ */
+export type TaskWithNote = Prisma.TaskGetPayload<{ include: typeof taskInclude }>;
+
+/**
+ * Outcome of a task update. `stale` means the note changed since the task
+ * was indexed and the item at that position is no longer the same task.
+ */
+export type TaskUpdateResult =
+    | { task: TaskWithNote }
+    | { error: 'not-found' | 'stale' };
+
+// Notes indexed per request when catching up on notes saved before the index existed
+const BACKFILL_BATCH = 50;
+
+function toDueDate(value: string | null): Date | null {
+    return value ? new Date(`${value}T00:00:00.000Z`) : null;
+}
+
+/**
+ * API shape of a task, with the due date as `YYYY-MM-DD`.
+ */
+export function serializeTask(task: TaskWithNote) {
+    return {
+        id: task.id,
+        text: task.text,
+        checked: task.checked,
+        dueDate: task.dueDate ? task.dueDate.toISOString().slice(0, 10) : null,
+        position: task.position,
+        note: task.note,
+        updatedAt: task.updatedAt,
+    };
+}
+
+/**
+ * Bring a note's tasks in line with its content. Tasks whose item is still
+ * there keep their ID; only new, changed and removed items are written.
+ */
+export async function syncNoteTasks(noteId: string, content: string): Promise<void> {
+    const indexed = await prisma.task.findMany({
+        where: { noteId },
+        select: { id: true, text: true, checked: true, dueDate: true, position: true },
+    });
+    const plan = planTaskSync(
+        indexed.map(task => ({ ...task, dueDate: task.dueDate ? task.dueDate.toISOString().slice(0, 10) : null })),
+        extractTasks(content)
+    );
+    if (plan.create.length === 0 && plan.update.length === 0 && plan.remove.length === 0) return;
+
+    await prisma.$transaction([
+        prisma.task.deleteMany({ where: { id: { in: plan.remove } } }),
+        // Moved tasks step aside first so no two share a position mid-update
+        ...plan.moved.map((id, index) => prisma.task.update({
+            where: { id },
+            data: { position: -1 - index },
+        })),
+        ...plan.update.map(task => prisma.task.update({
+            where: { id: task.id },
+            data: {
+                text: task.text,
+                checked: task.checked,
+                dueDate: toDueDate(task.dueDate),
+                position: task.position,
+            },
+        })),
+        prisma.task.createMany({
+            data: plan.create.map(task => ({
+                noteId,
+                text: task.text,
+                checked: task.checked,
+                dueDate: toDueDate(task.dueDate),
+                position: task.position,
+            })),
+        }),
+    ]);
+}
+
+/**
+ * Index notes that have task counts but no indexed tasks yet.
+ */
+async function indexMissingTasks(userId: string): Promise<void> {
+    const notes = await prisma.note.findMany({
+        where: {
+            notebook: { userId },
+            OR: [{ openTasks: { gt: 0 } }, { completedTasks: { gt: 0 } }],
+            tasks: { none: {} },
+        },
+        select: { id: true, content: true },
+        take: BACKFILL_BATCH,
+    });
+
+    for (const note of notes) {
+        await syncNoteTasks(note.id, note.content);
+    }
+}
+
+/**
+ * List a user's tasks across notes, soonest due first.
+ * Tasks in trashed notes are left out.
+ */
+export async function listTasks(userId: string, filters: TaskFilters = {}): Promise<TaskWithNote[]> {
+    const { status = 'open', overdue = false, notebookId, tagId, today, limit = 200 } = filters;
+
+    await indexMissingTasks(userId);
+
+    const where: Prisma.TaskWhereInput = {
+        note: {
+            notebook: { userId },
+            isTrash: false,
+            ...(notebookId && { notebookId }),
+            ...(tagId && { tags: { some: { tagId } } }),
+        },
+    };
+
+    if (status !== 'all') {
+        where.checked = status === 'completed';
+    }
+
+    if (overdue) {
+        where.checked = false;
+        where.dueDate = { lt: toDueDate(today ?? new Date().toISOString().slice(0, 10))! };
+    }
+
+    return prisma.task.findMany({
+        where,
+        include: taskInclude,
+        orderBy: [
+            { dueDate: { sort: 'asc', nulls: 'last' } },
+            { note: { updatedAt: 'desc' } },
+            { position: 'asc' },
+        ],
+        take: limit,
+    });
+}
+
+/**
+ * Check, uncheck or reschedule a task by editing its source note.
+ * The edit is recorded in the note's revision history like any other save.
+ */
+export async function updateTask(
+    userId: string,
+    taskId: string,
+    changes: TaskChanges
+): Promise<TaskUpdateResult> {
+    const task = await prisma.task.findFirst({
+        where: { id: taskId, note: { notebook: { userId } } },
+        include: { note: true },
+    });
+
+    if (!task) return { error: 'not-found' };
+
+    const existing = task.note;
+    const current = extractTasks(existing.content)[task.position];
+    if (!current || current.text !== task.text) return { error: 'stale' };
+
+    const content = updateTaskMarkup(existing.content, task.position, changes);
+    if (content === null) return { error: 'stale' };
+
+    const note = await prisma.note.update({
+        where: { id: existing.id },
+        data: { content, ...countTasks(content), collabState: null },
+    });
+
+    await recordRevision(note.id, note, { previous: existing });
+    await syncNoteTasks(note.id, content);
+
+    const updated = await prisma.task.findUniqueOrThrow({
+        where: { noteId_position: { noteId: note.id, position: task.position } },
+        include: taskInclude,
+    });
+
+    return { task: updated };
+}
@@ -104,6 +104,15 @@ export interface EnexNote {
   noteAttributes?: EnexNoteAttributes;
   /** Resources (attachments) */
   resources: EnexResource[];
+  /**
+   * Destination notebook for formats that carry folder structure
+   * (e.g. Markdown vaults). ENEX notes leave this unset.
+   */
+  notebook?: {
+    name: string;
+    /** Stack the notebook belongs to */
+    stack?: string;
+  };
 }
 
 /**
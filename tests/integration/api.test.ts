@@ -6,6 +6,8 @@
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { NextRequest } from 'next/server';
+import type { Prisma } from '@prisma/client';
+import type { User, UserResponse } from '@supabase/supabase-js';
 
 // Mock the dependencies before importing the routes
 vi.mock('@/lib/db', () => ({
@@ -13,8 +15,11 @@ vi.mock('@/lib/db', () => ({
         note: {
             findMany: vi.fn(),
             findFirst: vi.fn(),
+            findUnique: vi.fn(),
+            findUniqueOrThrow: vi.fn(),
             create: vi.fn(),
             update: vi.fn(),
+            updateMany: vi.fn(),
             delete: vi.fn(),
             count: vi.fn(),
         },
@@ -42,17 +47,31 @@ vi.mock('@/lib/db', () => ({
             findUnique: vi.fn(),
             create: vi.fn(),
         },
+        shareLink: {
+            findUnique: vi.fn(),
+        },
+        attachment: {
+            findFirst: vi.fn(),
+        },
+        $transaction: vi.fn(),
     },
 }));
 
+vi.mock('@/lib/storage', () => {
+    const storage = { get: vi.fn() };
+    return { getStorageService: () => storage };
+});
+
 vi.mock('@/lib/supabase/server', () => ({
     getAuthUserId: vi.fn(),
     ensureDbUser: vi.fn(),
+    createClient: vi.fn(),
 }));
 
 // Import after mocks
 import { prisma } from '@/lib/db';
-import { getAuthUserId, ensureDbUser } from '@/lib/supabase/server';
+import { getAuthUserId, ensureDbUser, createClient } from '@/lib/supabase/server';
+import { getStorageService } from '@/lib/storage';
 
 // Helper to create NextRequest
 function createRequest(
@@ -70,6 +89,20 @@ function createRequest(
     return new NextRequest(new URL(url, 'http://localhost:3000'), init);
 }
 
+// Routes that read the session through the Supabase client directly
+function mockSession() {
+    const user: User = {
+        id: 'test-user-id',
+        aud: 'authenticated',
+        app_metadata: {},
+        user_metadata: {},
+        created_at: new Date().toISOString(),
+    };
+    vi.mocked(createClient).mockResolvedValue({
+        auth: { getUser: async (): Promise<UserResponse> => ({ data: { user }, error: null }) },
+    } as never);
+}
+
 describe('Notes API Integration', () => {
     beforeEach(() => {
         vi.clearAllMocks();
@@ -322,3 +355,184 @@ describe('Tags API Integration', () => {
         });
     });
 });
+
+describe('Notebooks API Integration', () => {
+    const notebookFields = {
+        name: 'Trips',
+        icon: null,
+        cardColor: null,
+        isDefault: false,
+        _count: { notes: 3 },
+        createdAt: new Date(),
+        updatedAt: new Date(),
+    };
+
+    // Prisma rejects scalar fields in `include`
+    function findNotebook(notebook: object) {
+        return (args?: Prisma.NotebookFindFirstArgs) => {
+            if (args?.include && 'userId' in args.include) {
+                throw new Error('Invalid scalar field `userId` for include statement');
+            }
+            return Promise.resolve(notebook) as never;
+        };
+    }
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockSession();
+    });
+
+    describe('GET /api/notebooks/[id]', () => {
+        it('returns an owned notebook', async () => {
+            vi.mocked(prisma.notebook.findFirst).mockImplementation(
+                findNotebook({ id: 'nb-1', userId: 'test-user-id', members: [], ...notebookFields })
+            );
+
+            const { GET } = await import('@/app/api/notebooks/[id]/route');
+            const response = await GET(
+                createRequest('http://localhost:3000/api/notebooks/nb-1'),
+                { params: Promise.resolve({ id: 'nb-1' }) }
+            );
+
+            expect(response.status).toBe(200);
+            const data = await response.json();
+            expect(data).toMatchObject({ id: 'nb-1', noteCount: 3, access: 'owner' });
+        });
+
+        it('returns a shared notebook with the member role', async () => {
+            vi.mocked(prisma.notebook.findFirst).mockImplementation(
+                findNotebook({ id: 'nb-2', userId: 'owner-id', members: [{ role: 'editor' }], ...notebookFields })
+            );
+
+            const { GET } = await import('@/app/api/notebooks/[id]/route');
+            const response = await GET(
+                createRequest('http://localhost:3000/api/notebooks/nb-2'),
+                { params: Promise.resolve({ id: 'nb-2' }) }
+            );
+
+            expect(response.status).toBe(200);
+            const data = await response.json();
+            expect(data).toMatchObject({ id: 'nb-2', access: 'editor' });
+            expect(prisma.notebook.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+                include: expect.objectContaining({
+                    members: { where: { userId: 'test-user-id' }, select: { role: true } },
+                }),
+            }));
+        });
+    });
+});
+
+describe('Note updates', () => {
+    const readAt = new Date('2026-10-01T10:00:00.000Z');
+    const savedAt = new Date('2026-10-01T10:05:00.000Z');
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockSession();
+        vi.mocked(prisma.note.findFirst).mockResolvedValue({
+            id: 'note-1',
+            title: 'Plan',
+            content: '<p>Draft</p>',
+            contentPlaintext: 'Draft',
+            notebookId: 'nb-1',
+            updatedAt: readAt,
+            notebook: { userId: 'test-user-id', members: [] },
+        } as never);
+        vi.mocked(prisma.$transaction).mockImplementation(((run: (tx: typeof prisma) => unknown) => run(prisma)) as never);
+    });
+
+    it('reports a conflict when another save lands between the check and the write', async () => {
+        // The other client's save moved updatedAt after this request read the note
+        vi.mocked(prisma.note.updateMany).mockResolvedValue({ count: 0 });
+        vi.mocked(prisma.note.findUnique).mockResolvedValue({
+            id: 'note-1',
+            title: 'Plan',
+            content: '<p>Their edit</p>',
+            updatedAt: savedAt,
+        } as never);
+
+        const { PATCH } = await import('@/app/api/notes/[id]/route');
+        const response = await PATCH(
+            createRequest('http://localhost:3000/api/notes/note-1', {
+                method: 'PATCH',
+                body: { content: '<p>My edit</p>', baseUpdatedAt: readAt.toISOString() },
+            }),
+            { params: Promise.resolve({ id: 'note-1' }) }
+        );
+
+        expect(response.status).toBe(409);
+        const data = await response.json();
+        expect(data.note).toMatchObject({ content: '<p>Their edit</p>', updatedAt: savedAt.toISOString() });
+        expect(prisma.note.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+            where: { id: 'note-1', updatedAt: readAt },
+        }));
+        expect(prisma.note.update).not.toHaveBeenCalled();
+    });
+});
+
+describe('Shared attachments', () => {
+    const token = 'a'.repeat(32);
+    const image = Buffer.from('image bytes');
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(prisma.shareLink.findUnique).mockResolvedValue({
+            id: 'link-1',
+            token,
+            noteId: 'note-1',
+            notebookId: null,
+            passwordHash: null,
+            expiresAt: null,
+            revokedAt: null,
+            note: { id: 'note-1', title: 'Trip', isTrash: false },
+            notebook: null,
+        } as never);
+        vi.mocked(prisma.attachment.findFirst).mockResolvedValue({
+            id: 'att-1',
+            storageKey: 'owner/note-1/photo.png',
+            filename: 'photo.png',
+            originalName: 'Photo.png',
+            mimeType: 'image/png',
+        } as never);
+        vi.mocked(getStorageService().get).mockResolvedValue(image);
+    });
+
+    it('lets a visitor without an account fetch a shared image', async () => {
+        const { GET } = await import('@/app/s/[token]/attachments/[id]/route');
+        const response = await GET(
+            createRequest(`http://localhost:3000/s/${token}/attachments/att-1`),
+            { params: Promise.resolve({ token, id: 'att-1' }) }
+        );
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get('Content-Type')).toBe('image/png');
+        expect(Buffer.from(await response.arrayBuffer())).toEqual(image);
+        expect(prisma.attachment.findFirst).toHaveBeenCalledWith({
+            where: { id: 'att-1', note: { id: 'note-1', isTrash: false } },
+        });
+        expect(getAuthUserId).not.toHaveBeenCalled();
+    });
+
+    it('asks for the password of a protected link', async () => {
+        vi.mocked(prisma.shareLink.findUnique).mockResolvedValue({
+            id: 'link-1',
+            token,
+            noteId: 'note-1',
+            notebookId: null,
+            passwordHash: 'scrypt$salt$key',
+            expiresAt: null,
+            revokedAt: null,
+            note: { id: 'note-1', title: 'Trip', isTrash: false },
+            notebook: null,
+        } as never);
+
+        const { GET } = await import('@/app/s/[token]/attachments/[id]/route');
+        const response = await GET(
+            createRequest(`http://localhost:3000/s/${token}/attachments/att-1`),
+            { params: Promise.resolve({ token, id: 'att-1' }) }
+        );
+
+        expect(response.status).toBe(403);
+        expect(getStorageService().get).not.toHaveBeenCalled();
+    });
+});
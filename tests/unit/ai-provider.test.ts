@@ -0,0 +1,302 @@
+/**
+ * Unit Tests for AI Providers
+ *
+ * Tests provider selection, the deterministic fake provider, the
+ * OpenAI-compatible provider against a stubbed server, checking answers
+ * against their schemas and classifying failures
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+    AIError,
+    AIRequestError,
+    FAKE_EMBEDDING_DIMENSIONS,
+    FakeAIProvider,
+    OpenAICompatibleProvider,
+    aiErrorResponse,
+    getAIProvider,
+    getAIProviderType,
+    isAIAvailable,
+    isRetryableAIError,
+    parseStructuredOutput,
+    resetAIProvider,
+    tagSuggestionsSchema,
+    toAIError,
+} from '@/lib/ai';
+
+async function collect(stream: AsyncIterable<string>): Promise<string[]> {
+    const chunks: string[] = [];
+    for await (const chunk of stream) chunks.push(chunk);
+    return chunks;
+}
+
+function dot(a: number[], b: number[]): number {
+    return a.reduce((sum, value, i) => sum + value * b[i]!, 0);
+}
+
+describe('getAIProviderType', () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+        resetAIProvider();
+    });
+
+    it('defaults to Gemini', () => {
+        vi.stubEnv('AI_PROVIDER', '');
+        vi.stubEnv('AI_BASE_URL', '');
+        expect(getAIProviderType()).toBe('gemini');
+    });
+
+    it('uses an OpenAI-compatible server when only that is configured', () => {
+        vi.stubEnv('AI_PROVIDER', '');
+        vi.stubEnv('GOOGLE_AI_API_KEY', '');
+        vi.stubEnv('AI_BASE_URL', 'http://localhost:11434/v1');
+        expect(getAIProviderType()).toBe('openai');
+    });
+
+    it('rejects unknown providers', () => {
+        vi.stubEnv('AI_PROVIDER', 'skynet');
+        expect(() => getAIProviderType()).toThrow('Unknown AI_PROVIDER');
+        expect(isAIAvailable()).toBe(false);
+    });
+
+    it('reports whether the provider is configured', () => {
+        vi.stubEnv('AI_PROVIDER', 'gemini');
+        vi.stubEnv('GOOGLE_AI_API_KEY', '');
+        expect(isAIAvailable()).toBe(false);
+
+        vi.stubEnv('AI_PROVIDER', 'openai');
+        vi.stubEnv('AI_BASE_URL', 'http://localhost:8080/v1');
+        expect(isAIAvailable()).toBe(true);
+
+        vi.stubEnv('AI_PROVIDER', 'fake');
+        expect(isAIAvailable()).toBe(true);
+    });
+
+    it('creates the configured provider once', () => {
+        vi.stubEnv('AI_PROVIDER', 'fake');
+        const provider = getAIProvider();
+        expect(provider).toBeInstanceOf(FakeAIProvider);
+        expect(getAIProvider()).toBe(provider);
+    });
+});
+
+describe('FakeAIProvider', () => {
+    const provider = new FakeAIProvider();
+    const notes = [
+        { title: 'Garden', content: 'Plant tomatoes in spring. Water the tomatoes daily.' },
+        { title: 'Recipes', content: 'Tomatoes and basil make a good sauce.' },
+        { title: 'Budget', content: 'Rent is due on the first.' },
+    ];
+
+    it('summarizes a note from its first sentences', async () => {
+        const result = await provider.summarizeNote({
+            title: 'Trip',
+            content: 'We leave Monday. Pack light. Book the hotel. Call mum.',
+        });
+
+        expect(result).toEqual({
+            summary: 'We leave Monday. Pack light.',
+            keyPoints: ['We leave Monday.', 'Pack light.', 'Book the hotel.'],
+        });
+    });
+
+    it('suggests common words as tags, reusing existing tags first', async () => {
+        const { suggestedTags } = await provider.suggestTags(notes, ['Rent', 'travel']);
+
+        expect(suggestedTags[0]).toEqual({ name: 'rent', reason: 'Appears in 1 of 3 notes', noteCount: 1 });
+        expect(suggestedTags[1]).toMatchObject({ name: 'tomatoes', noteCount: 2 });
+        expect(suggestedTags.map(tag => tag.name)).not.toContain('travel');
+    });
+
+    it('gives the same answer every time', async () => {
+        expect(await provider.summarizeNotebook('Home', notes)).toEqual(await provider.summarizeNotebook('Home', notes));
+        expect((await provider.generateSearchInsights('tomatoes', notes)).connections).toEqual(['2 notes talk about tomatoes']);
+    });
+
+    it('embeds texts as unit vectors that are closer for shared words', async () => {
+        const [garden, recipes, budget] = await provider.embed(notes.map(note => note.content));
+
+        expect(garden).toHaveLength(FAKE_EMBEDDING_DIMENSIONS);
+        expect(dot(garden!, garden!)).toBeCloseTo(1);
+        expect(dot(garden!, recipes!)).toBeGreaterThan(dot(garden!, budget!));
+    });
+
+    it('streams an echo of the last question', async () => {
+        const chunks = await collect(provider.streamChat([
+            { role: 'user', content: 'First?' },
+            { role: 'assistant', content: 'Answer' },
+            { role: 'user', content: 'What is due?' },
+        ]));
+
+        expect(chunks.length).toBeGreaterThan(1);
+        expect(chunks.join('')).toBe('You asked: "What is due?"');
+    });
+});
+
+describe('OpenAICompatibleProvider', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    const provider = new OpenAICompatibleProvider({
+        baseUrl: 'http://localhost:11434/v1/',
+        model: 'llama3',
+        embeddingModel: 'nomic-embed-text',
+    });
+
+    function stubFetch(response: Response) {
+        const fetchMock = vi.fn().mockResolvedValue(response);
+        vi.stubGlobal('fetch', fetchMock);
+        return fetchMock;
+    }
+
+    it('reads the JSON answer out of a chat completion', async () => {
+        const fetchMock = stubFetch(Response.json({
+            choices: [{ message: { content: 'Sure! {"summary": "Short", "keyPoints": ["a"]}' } }],
+        }));
+
+        const result = await provider.summarizeNote({ title: 'T', content: 'Body' });
+
+        expect(result).toEqual({ summary: 'Short', keyPoints: ['a'] });
+        const [url, init] = fetchMock.mock.calls[0]!;
+        expect(url).toBe('http://localhost:11434/v1/chat/completions');
+        expect(init.headers).not.toHaveProperty('Authorization');
+        expect(JSON.parse(init.body)).toMatchObject({ model: 'llama3', max_tokens: 1024 });
+    });
+
+    it('asks for JSON matching the schema', async () => {
+        const fetchMock = stubFetch(Response.json({
+            choices: [{ message: { content: '{"suggestedTags": []}' } }],
+        }));
+
+        await provider.suggestTags([{ title: 'T', content: 'Body' }], []);
+
+        const { response_format } = JSON.parse(fetchMock.mock.calls[0]![1].body);
+        expect(response_format.type).toBe('json_schema');
+        expect(response_format.json_schema.name).toBe('tag_suggestions');
+        expect(response_format.json_schema.schema.required).toEqual(['suggestedTags']);
+    });
+
+    it('sends an answer that does not fit back for repair', async () => {
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(Response.json({ choices: [{ message: { content: '{"summary": ""}' } }] }))
+            .mockResolvedValueOnce(Response.json({ choices: [{ message: { content: '{"summary": "Fixed", "keyPoints": []}' } }] }));
+        vi.stubGlobal('fetch', fetchMock);
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        expect(await provider.summarizeNote({ title: 'T', content: 'Body' })).toEqual({ summary: 'Fixed', keyPoints: [] });
+
+        const repair = JSON.parse(fetchMock.mock.calls[1]![1].body).messages[0].content;
+        expect(repair).toContain('Your previous answer was:\n{"summary": ""}');
+        expect(repair).toContain('keyPoints');
+    });
+
+    it('gives up with a malformed_response error after the repair attempt', async () => {
+        vi.stubGlobal('fetch', vi.fn().mockImplementation(async () =>
+            Response.json({ choices: [{ message: { content: 'I cannot answer that in JSON.' } }] })
+        ));
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        await expect(provider.summarizeNote({ title: 'T', content: 'Body' }))
+            .rejects.toMatchObject({ name: 'AIError', code: 'malformed_response' });
+    });
+
+    it('reports refused and filtered requests by code', async () => {
+        stubFetch(Response.json({ error: { message: 'Rate limit reached' } }, { status: 429 }));
+        await expect(provider.suggestTags([{ title: 'T', content: 'Body' }], []))
+            .rejects.toMatchObject({ code: 'quota_exceeded' });
+
+        stubFetch(Response.json({ choices: [{ finish_reason: 'content_filter', message: { content: '' } }] }));
+        await expect(provider.suggestTags([{ title: 'T', content: 'Body' }], []))
+            .rejects.toMatchObject({ code: 'safety_blocked' });
+    });
+
+    it('returns embeddings in input order', async () => {
+        const fetchMock = stubFetch(Response.json({
+            data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }],
+        }));
+
+        expect(await provider.embed(['a', 'b'])).toEqual([[1, 0], [0, 1]]);
+        expect(JSON.parse(fetchMock.mock.calls[0]![1].body)).toEqual({ model: 'nomic-embed-text', input: ['a', 'b'] });
+    });
+
+    it('streams chat deltas split across network chunks', async () => {
+        const events = [
+            'data: {"choices":[{"delta":{"role":"assistant"}}]}\n\n',
+            'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\ndata: {"choices":[{"del',
+            'ta":{"content":"lo"}}]}\n\n',
+            'data: [DONE]\n\n',
+        ];
+        const body = new ReadableStream({
+            start(controller) {
+                events.forEach(event => controller.enqueue(new TextEncoder().encode(event)));
+                controller.close();
+            },
+        });
+        const fetchMock = stubFetch(new Response(body));
+
+        const chunks = await collect(provider.streamChat([{ role: 'user', content: 'Hi' }], { system: 'Be brief' }));
+
+        expect(chunks).toEqual(['Hel', 'lo']);
+        expect(JSON.parse(fetchMock.mock.calls[0]![1].body).messages).toEqual([
+            { role: 'system', content: 'Be brief' },
+            { role: 'user', content: 'Hi' },
+        ]);
+    });
+});
+
+describe('parseStructuredOutput', () => {
+    it('reads JSON wrapped in a code fence and tidies values', () => {
+        const text = '```json\n{"suggestedTags": [{"name": " Travel ", "reason": "Trips", "noteCount": "2"}]}\n```';
+
+        expect(parseStructuredOutput(tagSuggestionsSchema, text)).toEqual({
+            success: true,
+            data: { suggestedTags: [{ name: 'travel', reason: 'Trips', noteCount: 2 }] },
+        });
+    });
+
+    it('explains what does not fit', () => {
+        const result = parseStructuredOutput(tagSuggestionsSchema, '{"suggestedTags": [{"name": "x"}]}');
+
+        expect(result.success).toBe(false);
+        expect(!result.success && result.error).toContain('suggestedTags[0].reason');
+    });
+
+    it('rejects answers without a JSON object', () => {
+        expect(parseStructuredOutput(tagSuggestionsSchema, 'No tags.')).toEqual({
+            success: false,
+            error: 'The answer did not contain a JSON object.',
+        });
+        expect(parseStructuredOutput(tagSuggestionsSchema, '{"suggestedTags": [}').success).toBe(false);
+    });
+});
+
+describe('AI errors', () => {
+    it('classifies provider failures', () => {
+        expect(toAIError(Object.assign(new Error('Too many'), { status: 429 })).code).toBe('quota_exceeded');
+        expect(toAIError(new Error('[GoogleGenerativeAI Error]: Resource has been exhausted (e.g. check quota).')).code).toBe('quota_exceeded');
+        expect(toAIError(new Error('API key not valid. Please pass a valid API key.')).code).toBe('not_configured');
+        expect(toAIError(new Error('Text not available. Response was blocked due to SAFETY')).code).toBe('safety_blocked');
+        expect(toAIError(new Error('socket hang up')).code).toBe('failed');
+    });
+
+    it('turns errors into responses with a code and status', async () => {
+        const quota = aiErrorResponse(new AIError('quota_exceeded'));
+        expect(quota.status).toBe(429);
+        expect(await quota.json()).toMatchObject({ code: 'quota_exceeded' });
+
+        const failed = aiErrorResponse(new Error('connect ECONNREFUSED'), 'Failed to suggest tags.');
+        expect(failed.status).toBe(500);
+        expect(await failed.json()).toEqual({ error: 'Failed to suggest tags.', code: 'failed' });
+    });
+
+    it('reads error responses on the client', () => {
+        expect(AIRequestError.fromResponse({ error: 'Blocked', code: 'safety_blocked' }, 'Failed')).toMatchObject({
+            message: 'Blocked',
+            code: 'safety_blocked',
+        });
+        expect(AIRequestError.fromResponse({ code: 'bogus' }, 'Failed')).toMatchObject({ message: 'Failed', code: 'failed' });
+        expect(isRetryableAIError('quota_exceeded')).toBe(true);
+        expect(isRetryableAIError('not_configured')).toBe(false);
+    });
+});
@@ -0,0 +1,117 @@
+/**
+ * Unit Tests for Ask-your-notes Chat
+ *
+ * Tests numbering retrieved notes as sources, reading citations back out
+ * of answers, and the newline-delimited event stream
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    buildChatSources,
+    buildChatSystemPrompt,
+    buildRetrievalQuery,
+    extractCitations,
+} from '@/lib/chat/chat-prompt';
+import { encodeChatStream, readChatStream } from '@/lib/chat/chat-stream';
+import type { ChatStreamEvent } from '@/lib/chat/types';
+
+const passages = [
+    { noteId: 'trip', title: 'Japan trip', chunkIndex: 2, passage: 'Flights land at Haneda.', score: 0.9 },
+    { noteId: 'budget', title: 'Budget', chunkIndex: 0, passage: 'Travel fund is 2000.', score: 0.8 },
+    { noteId: 'trip', title: 'Japan trip', chunkIndex: 0, passage: 'We go in April.', score: 0.7 },
+];
+
+describe('buildChatSources', () => {
+    it('numbers notes by their closest passage and keeps passages in note order', () => {
+        const sources = buildChatSources(passages);
+
+        expect(sources.map(source => [source.index, source.noteId])).toEqual([[1, 'trip'], [2, 'budget']]);
+        expect(sources[0]!.passages).toEqual(['We go in April.', 'Flights land at Haneda.']);
+        expect(sources[0]!.excerpt).toBe('Flights land at Haneda.');
+    });
+
+    it('shortens long excerpts', () => {
+        const [source] = buildChatSources([{ ...passages[0]!, passage: 'word '.repeat(100) }]);
+
+        expect(source!.excerpt.length).toBeLessThanOrEqual(300);
+        expect(source!.excerpt.endsWith('…')).toBe(true);
+    });
+});
+
+describe('buildChatSystemPrompt', () => {
+    it('lists the numbered notes', () => {
+        const prompt = buildChatSystemPrompt(buildChatSources(passages));
+
+        expect(prompt).toContain('[1] Japan trip\nWe go in April.\n…\nFlights land at Haneda.');
+        expect(prompt).toContain('[2] Budget\nTravel fund is 2000.');
+    });
+
+    it('says when nothing matched', () => {
+        expect(buildChatSystemPrompt([])).toContain('No notes matched this question.');
+    });
+});
+
+describe('buildRetrievalQuery', () => {
+    it('adds the previous question to follow-ups', () => {
+        expect(buildRetrievalQuery([], 'When do we fly?')).toBe('When do we fly?');
+        expect(buildRetrievalQuery([
+            { role: 'user', content: 'Japan trip plans' },
+            { role: 'assistant', content: 'You go in April [1].' },
+        ], 'And the budget?')).toBe('Japan trip plans\nAnd the budget?');
+    });
+});
+
+describe('extractCitations', () => {
+    const sources = buildChatSources(passages);
+
+    it('returns the cited notes in source order', () => {
+        const citations = extractCitations('The fund is 2000 [2]. You land at Haneda [1, 2].', sources);
+
+        expect(citations).toEqual([
+            { index: 1, noteId: 'trip', title: 'Japan trip', excerpt: 'Flights land at Haneda.' },
+            { index: 2, noteId: 'budget', title: 'Budget', excerpt: 'Travel fund is 2000.' },
+        ]);
+    });
+
+    it('ignores numbers without a source', () => {
+        expect(extractCitations('Nothing here [7]. Not a citation: [a].', sources)).toEqual([]);
+    });
+});
+
+describe('chat stream', () => {
+    it('reads back the events it encodes', async () => {
+        const events: ChatStreamEvent[] = [
+            { type: 'token', text: 'Hello\nthere' },
+            { type: 'error', error: 'Quota', code: 'quota_exceeded' },
+        ];
+        async function* generate() {
+            yield* events;
+        }
+
+        const received: ChatStreamEvent[] = [];
+        for await (const event of readChatStream(encodeChatStream(generate()))) {
+            received.push(event);
+        }
+
+        expect(received).toEqual(events);
+    });
+
+    it('joins events split across chunks', async () => {
+        const bytes = new TextEncoder().encode('{"type":"token","text":"a"}\n{"type":"tok');
+        const rest = new TextEncoder().encode('en","text":"b"}');
+        const body = new ReadableStream<Uint8Array>({
+            start(controller) {
+                controller.enqueue(bytes);
+                controller.enqueue(rest);
+                controller.close();
+            },
+        });
+
+        const received: ChatStreamEvent[] = [];
+        for await (const event of readChatStream(body)) {
+            received.push(event);
+        }
+
+        expect(received).toEqual([{ type: 'token', text: 'a' }, { type: 'token', text: 'b' }]);
+    });
+});
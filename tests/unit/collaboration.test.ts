@@ -0,0 +1,176 @@
+/**
+ * Unit Tests for Collaborative Editing
+ *
+ * Tests converting notes to and from Yjs documents, merging concurrent
+ * edits, saving around writes made outside the live document and the
+ * presence helpers shared with the editor
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as Y from 'yjs';
+
+vi.mock('@/lib/db', () => ({
+    prisma: {
+        note: {
+            findUnique: vi.fn(),
+            update: vi.fn(),
+        },
+    },
+}));
+vi.mock('@/lib/revisions', () => ({ recordRevision: vi.fn() }));
+vi.mock('@/lib/links', () => ({ syncNoteLinks: vi.fn() }));
+vi.mock('@/lib/embeddings', () => ({ indexNoteEmbeddings: vi.fn() }));
+vi.mock('@/lib/tasks', async (importOriginal) => ({
+    ...await importOriginal<typeof import('@/lib/tasks')>(),
+    syncNoteTasks: vi.fn(),
+}));
+
+import { prisma } from '@/lib/db';
+import { htmlToDocumentState, documentToHtml, replaceDocumentContent } from '@/lib/collaboration/note-document';
+import { loadNoteDocument, storeNoteDocument } from '@/lib/collaboration/note-persistence';
+import {
+    NOTE_DOCUMENT_FIELD,
+    noteDocumentName,
+    parseNoteDocumentName,
+    presenceColor,
+    presenceInitials,
+} from '@/lib/collaboration/presence';
+
+function documentFromHtml(html: string): Y.Doc {
+    const document = new Y.Doc();
+    Y.applyUpdate(document, htmlToDocumentState(html));
+    return document;
+}
+
+function appendParagraph(document: Y.Doc, text: string) {
+    const paragraph = new Y.XmlElement('paragraph');
+    paragraph.insert(0, [new Y.XmlText(text)]);
+    const fragment = document.getXmlFragment(NOTE_DOCUMENT_FIELD);
+    fragment.insert(fragment.length, [paragraph]);
+}
+
+describe('note documents', () => {
+    it('round-trips note HTML including links and tasks', () => {
+        const html = '<h2>Plan</h2><p>Hello <strong>world</strong> ' +
+            '<span data-type="note-link" class="note-link" data-note-id="n1">Other</span></p>' +
+            '<ul data-type="taskList"><li data-checked="true" data-type="taskItem"><label><input type="checkbox" checked="checked"><span></span></label><div><p>Done</p></div></li></ul>';
+
+        const result = documentToHtml(documentFromHtml(html));
+
+        expect(result).toContain('<h2>Plan</h2>');
+        expect(result).toContain('<strong>world</strong>');
+        expect(result).toContain('data-note-id="n1"');
+        expect(result).toContain('data-checked="true"');
+        expect(result).not.toContain('xmlns');
+    });
+
+    it('writes HTML rather than XML', () => {
+        const html = '<p>One<br>two &lt;tag&gt; &amp; "quotes"</p><hr><p>Last</p>';
+
+        expect(documentToHtml(documentFromHtml(html))).toBe(html);
+    });
+
+    it('creates an empty paragraph for empty notes', () => {
+        expect(documentToHtml(documentFromHtml(''))).toBe('<p></p>');
+    });
+
+    it('merges concurrent edits from two people', () => {
+        const server = documentFromHtml('<p>Start</p>');
+        const alice = new Y.Doc();
+        const bob = new Y.Doc();
+        Y.applyUpdate(alice, Y.encodeStateAsUpdate(server));
+        Y.applyUpdate(bob, Y.encodeStateAsUpdate(server));
+
+        appendParagraph(alice, 'From Alice');
+        appendParagraph(bob, 'From Bob');
+
+        Y.applyUpdate(server, Y.encodeStateAsUpdate(alice));
+        Y.applyUpdate(server, Y.encodeStateAsUpdate(bob));
+
+        const html = documentToHtml(server);
+        expect(html).toContain('<p>Start</p>');
+        expect(html).toContain('<p>From Alice</p>');
+        expect(html).toContain('<p>From Bob</p>');
+    });
+});
+
+describe('replaceDocumentContent', () => {
+    it('replaces the content for connected editors without duplicating it', () => {
+        const server = documentFromHtml('<p>Old</p>');
+        const client = new Y.Doc();
+        Y.applyUpdate(client, Y.encodeStateAsUpdate(server));
+
+        replaceDocumentContent(server, '<p>Restored</p>');
+        Y.applyUpdate(client, Y.encodeStateAsUpdate(server, Y.encodeStateVector(client)));
+
+        expect(documentToHtml(server)).toBe('<p>Restored</p>');
+        expect(documentToHtml(client)).toBe('<p>Restored</p>');
+    });
+});
+
+describe('storeNoteDocument', () => {
+    const updatedAt = new Date('2026-10-19T08:00:00.000Z');
+
+    function storedNote(content: string) {
+        return { id: 'n1', content, collabState: null, isTrash: false, updatedAt, notebook: { userId: 'u1' } };
+    }
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('saves edits made in the live document', async () => {
+        vi.mocked(prisma.note.findUnique).mockResolvedValue(storedNote('<p>Start</p>') as never);
+        vi.mocked(prisma.note.update).mockResolvedValue(storedNote('<p>Start</p><p>More</p>') as never);
+        const document = new Y.Doc();
+        await loadNoteDocument('n1', document);
+
+        appendParagraph(document, 'More');
+        await storeNoteDocument('n1', document);
+
+        expect(prisma.note.update).toHaveBeenCalledWith(expect.objectContaining({
+            data: expect.objectContaining({ content: '<p>Start</p><p>More</p>' }),
+        }));
+    });
+
+    it('takes content written elsewhere instead of overwriting it', async () => {
+        vi.mocked(prisma.note.findUnique).mockResolvedValue(storedNote('<p>Start</p>') as never);
+        const document = new Y.Doc();
+        await loadNoteDocument('n1', document);
+
+        // A revision restore lands while the document is open
+        vi.mocked(prisma.note.findUnique).mockResolvedValue(storedNote('<p>Restored</p>') as never);
+        await storeNoteDocument('n1', document);
+
+        expect(documentToHtml(document)).toBe('<p>Restored</p>');
+        expect(prisma.note.update).toHaveBeenCalledTimes(1);
+        expect(prisma.note.update).toHaveBeenCalledWith(expect.objectContaining({
+            data: expect.not.objectContaining({ content: expect.anything() }),
+        }));
+    });
+});
+
+describe('document names', () => {
+    it('maps note IDs to document names and back', () => {
+        expect(parseNoteDocumentName(noteDocumentName('note-1'))).toBe('note-1');
+    });
+
+    it('rejects names for other documents', () => {
+        expect(parseNoteDocumentName('notebook:1')).toBeNull();
+        expect(parseNoteDocumentName('note:')).toBeNull();
+    });
+});
+
+describe('presence', () => {
+    it('gives each user a stable color', () => {
+        expect(presenceColor('user-1')).toBe(presenceColor('user-1'));
+        expect(presenceColor('user-1')).toMatch(/^#[0-9A-F]{6}$/);
+    });
+
+    it('builds initials from names and emails', () => {
+        expect(presenceInitials('Ada Lovelace')).toBe('AL');
+        expect(presenceInitials('ada.lovelace@example.com')).toBe('AL');
+        expect(presenceInitials('Ada')).toBe('AD');
+        expect(presenceInitials('')).toBe('?');
+    });
+});
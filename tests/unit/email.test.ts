@@ -0,0 +1,181 @@
+/**
+ * Unit Tests for Email Delivery
+ *
+ * Tests provider selection, the SMTP stand-in against a fake server and
+ * the reminder email
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createServer, type AddressInfo, type Server } from 'net';
+import {
+    getEmailProvider,
+    getEmailService,
+    resetEmailService,
+    buildMimeMessage,
+    SmtpEmailService,
+} from '@/lib/email';
+import { renderReminderEmail } from '@/lib/reminders/reminder-email';
+
+interface FakeSmtpServer {
+    server: Server;
+    port: number;
+    commands: string[];
+    messages: string[];
+}
+
+/**
+ * Start a fake SMTP server on an ephemeral port that accepts everything,
+ * or rejects the recipient when `rejectRecipient` is set.
+ */
+async function startSmtpServer({ rejectRecipient = false } = {}): Promise<FakeSmtpServer> {
+    const commands: string[] = [];
+    const messages: string[] = [];
+
+    const server = createServer(socket => {
+        let buffer = '';
+        let inData = false;
+
+        socket.write('220 fake.test ESMTP\r\n');
+        socket.on('data', chunk => {
+            buffer += chunk.toString('utf8');
+
+            if (inData) {
+                const end = buffer.indexOf('\r\n.\r\n');
+                if (end === -1) return;
+                messages.push(buffer.slice(0, end + 2));
+                buffer = buffer.slice(end + 5);
+                inData = false;
+                socket.write('250 OK queued as ABC123\r\n');
+            }
+
+            let index: number;
+            while (!inData && (index = buffer.indexOf('\r\n')) !== -1) {
+                const line = buffer.slice(0, index);
+                buffer = buffer.slice(index + 2);
+                commands.push(line);
+
+                if (line.startsWith('EHLO')) socket.write('250-fake.test\r\n250 SIZE 1000000\r\n');
+                else if (line.startsWith('RCPT') && rejectRecipient) socket.write('550 No such user\r\n');
+                else if (line === 'DATA') {
+                    inData = true;
+                    socket.write('354 Go ahead\r\n');
+                } else if (line === 'QUIT') {
+                    socket.end('221 Bye\r\n');
+                } else socket.write('250 OK\r\n');
+            }
+        });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    return { server, port: (server.address() as AddressInfo).port, commands, messages };
+}
+
+function decodeParts(message: string): string[] {
+    return [...message.matchAll(/Content-Transfer-Encoding: base64\r\n\r\n([\s\S]*?)--/g)]
+        .map(match => Buffer.from(match[1]!.replace(/\s/g, ''), 'base64').toString('utf8'));
+}
+
+describe('getEmailProvider', () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+        resetEmailService();
+    });
+
+    it('uses Resend when an API key is set and the console otherwise', () => {
+        vi.stubEnv('EMAIL_PROVIDER', '');
+        vi.stubEnv('RESEND_API_KEY', 're_test');
+        expect(getEmailProvider()).toBe('resend');
+
+        vi.stubEnv('RESEND_API_KEY', '');
+        expect(getEmailProvider()).toBe('console');
+        expect(getEmailService().name).toBe('console');
+    });
+
+    it('honours EMAIL_PROVIDER', () => {
+        vi.stubEnv('EMAIL_PROVIDER', 'smtp');
+        vi.stubEnv('RESEND_API_KEY', 're_test');
+        expect(getEmailService().name).toBe('smtp');
+    });
+
+    it('rejects unknown providers', () => {
+        vi.stubEnv('EMAIL_PROVIDER', 'carrier-pigeon');
+        expect(() => getEmailProvider()).toThrow('Unknown EMAIL_PROVIDER');
+    });
+});
+
+describe('buildMimeMessage', () => {
+    it('encodes non-ASCII subjects and both body parts', () => {
+        const message = buildMimeMessage('Notova <reminders@notova.app>', {
+            to: 'ana@example.com',
+            subject: 'Reminder: Café ☕',
+            html: '<p>Hi</p>',
+            text: 'Hi',
+        });
+
+        expect(message).toContain('From: Notova <reminders@notova.app>');
+        expect(message).toContain(`Subject: =?UTF-8?B?${Buffer.from('Reminder: Café ☕').toString('base64')}?=`);
+        expect(message).toMatch(/Message-ID: <[^@]+@notova\.app>/);
+        expect(decodeParts(message)).toEqual(['Hi', '<p>Hi</p>']);
+    });
+});
+
+describe('SmtpEmailService', () => {
+    let fake: FakeSmtpServer | null = null;
+
+    afterEach(async () => {
+        await new Promise(resolve => fake?.server.close(resolve) ?? resolve(undefined));
+        fake = null;
+    });
+
+    it('delivers a message through the SMTP conversation', async () => {
+        fake = await startSmtpServer();
+        const smtp = new SmtpEmailService({ host: '127.0.0.1', port: fake.port, from: 'Notova <reminders@notova.app>' });
+
+        const result = await smtp.send({ to: 'ana@example.com', subject: 'Hello', html: '<p>.leading dot</p>' });
+
+        expect(result.id).toBe('ABC123');
+        expect(fake.commands).toEqual([
+            'EHLO notova.app',
+            'MAIL FROM:<reminders@notova.app>',
+            'RCPT TO:<ana@example.com>',
+            'DATA',
+            'QUIT',
+        ]);
+        expect(fake.messages).toHaveLength(1);
+        expect(decodeParts(fake.messages[0]!)).toEqual(['<p>.leading dot</p>']);
+    });
+
+    it('fails when the server rejects the recipient', async () => {
+        fake = await startSmtpServer({ rejectRecipient: true });
+        const smtp = new SmtpEmailService({ host: '127.0.0.1', port: fake.port, from: 'reminders@notova.app' });
+
+        await expect(smtp.send({ to: 'nobody@example.com', subject: 'Hello', html: 'x' }))
+            .rejects.toThrow('SMTP RCPT failed: 550 No such user');
+    });
+
+    it('fails when nothing is listening', async () => {
+        fake = await startSmtpServer();
+        const { port } = fake;
+        await new Promise(resolve => fake!.server.close(resolve));
+        fake = null;
+
+        const smtp = new SmtpEmailService({ host: '127.0.0.1', port, from: 'reminders@notova.app' });
+        await expect(smtp.send({ to: 'ana@example.com', subject: 'Hello', html: 'x' })).rejects.toThrow();
+    });
+});
+
+describe('renderReminderEmail', () => {
+    it('addresses the note owner and escapes note text', () => {
+        const email = renderReminderEmail(
+            { title: 'Call <Sam>', contentPlaintext: 'Ask   about\n the lease', notebook: { name: 'Home' } },
+            'ana@example.com',
+            'https://notova.test'
+        );
+
+        expect(email.to).toBe('ana@example.com');
+        expect(email.subject).toBe('Reminder: Call <Sam>');
+        expect(email.html).toContain('Call &lt;Sam&gt;');
+        expect(email.html).toContain('Ask about the lease');
+        expect(email.text).toContain('Open Notova: https://notova.test');
+    });
+});
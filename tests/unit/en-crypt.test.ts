@@ -0,0 +1,87 @@
+/**
+ * Unit Tests for Evernote Encrypted Content
+ *
+ * Tests that <en-crypt> blocks survive import and export, and that
+ * content encrypted with either of Evernote's schemes can be decrypted
+ */
+
+import { describe, it, expect } from 'vitest';
+import { rc2DecryptEcb } from '@/lib/encryption/rc2';
+import { md5 } from '@/lib/encryption/md5';
+import { decryptEnCrypt, encryptEnCrypt, decryptedContentToHtml } from '@/lib/encryption/en-crypt';
+import { convertEnmlToHtml } from '@/lib/import/enml-converter';
+import { convertHtmlToEnml } from '@/lib/export/html-to-enml';
+
+const hex = (value: string) => Uint8Array.from(Buffer.from(value, 'hex'));
+
+describe('rc2DecryptEcb', () => {
+    it('matches the RFC 2268 test vectors', () => {
+        const vectors: [key: string, bits: number, plaintext: string, ciphertext: string][] = [
+            ['0000000000000000', 63, '0000000000000000', 'ebb773f993278eff'],
+            ['ffffffffffffffff', 64, 'ffffffffffffffff', '278b27e42e2f0d49'],
+            ['3000000000000000', 64, '1000000000000001', '30649edf9be7d2c2'],
+            ['88bca90e90875a7f0f79c384627bafb2', 64, '0000000000000000', '1a807d272bbe5db1'],
+            ['88bca90e90875a7f0f79c384627bafb2', 128, '0000000000000000', '2269552ab0f85ca6'],
+        ];
+
+        for (const [key, bits, plaintext, ciphertext] of vectors) {
+            expect(Buffer.from(rc2DecryptEcb(hex(ciphertext), hex(key), bits)).toString('hex')).toBe(plaintext);
+        }
+    });
+});
+
+describe('md5', () => {
+    it('hashes like the reference implementation', () => {
+        expect(Buffer.from(md5(new TextEncoder().encode('The quick brown fox jumps over the lazy dog'))).toString('hex'))
+            .toBe('9e107d9d372bb6826bd81d3542a419d6');
+        expect(Buffer.from(md5(new Uint8Array())).toString('hex')).toBe('d41d8cd98f00b204e9800998ecf8427e');
+    });
+});
+
+describe('decryptEnCrypt', () => {
+    it('decrypts content encrypted with the AES scheme', async () => {
+        const data = await encryptEnCrypt('<div>PIN: 1234</div>', 'correct horse', 'the usual');
+
+        expect(data).toMatchObject({ cipher: 'AES', length: 128, hint: 'the usual' });
+        expect(Buffer.from(data.ciphertext, 'base64').subarray(0, 4).toString()).toBe('ENC0');
+        await expect(decryptEnCrypt(data, 'correct horse')).resolves.toBe('<div>PIN: 1234</div>');
+    });
+
+    it('rejects a wrong passphrase', async () => {
+        const data = await encryptEnCrypt('secret', 'correct horse');
+        await expect(decryptEnCrypt(data, 'battery staple')).rejects.toThrow('Incorrect passphrase');
+    });
+
+    it('rejects unknown ciphers', async () => {
+        await expect(decryptEnCrypt({ cipher: 'DES', length: 56, hint: null, ciphertext: 'AAAA' }, 'x'))
+            .rejects.toThrow('Unsupported cipher: DES');
+    });
+});
+
+describe('decryptedContentToHtml', () => {
+    it('keeps HTML and wraps plain text lines in paragraphs', () => {
+        expect(decryptedContentToHtml('<div>a</div>')).toBe('<div>a</div>');
+        expect(decryptedContentToHtml('user\npass & word')).toBe('<p>user</p><p>pass &amp; word</p>');
+    });
+});
+
+describe('en-crypt import and export', () => {
+    const enml = '<en-note><div>Login:</div><en-crypt cipher="RC2" length="64" hint="dog&apos;s name">\n  3X5w/zbPfk8=\n</en-crypt></en-note>';
+
+    it('keeps the ciphertext and its attributes on import', () => {
+        const html = convertEnmlToHtml(enml);
+
+        expect(html).toContain('data-type="en-crypt"');
+        expect(html).toContain('data-cipher="RC2"');
+        expect(html).toContain('data-length="64"');
+        expect(html).toContain('data-hint="dog\'s name"');
+        expect(html).toContain('data-ciphertext="3X5w/zbPfk8="');
+        expect(html).not.toContain('not imported');
+    });
+
+    it('exports the original <en-crypt> element', () => {
+        const exported = convertHtmlToEnml(convertEnmlToHtml(enml));
+
+        expect(exported).toContain('<en-crypt cipher="RC2" length="64" hint="dog\'s name">3X5w/zbPfk8=</en-crypt>');
+    });
+});
@@ -0,0 +1,96 @@
+/**
+ * Unit Tests for ENEX Export
+ *
+ * Tests HTML to ENML conversion and that written ENEX documents
+ * round-trip through the importer's parser and converter
+ */
+
+import { describe, it, expect } from 'vitest';
+import { convertHtmlToEnml } from '@/lib/export/html-to-enml';
+import { serializeEnex, formatEnexDate } from '@/lib/export/enex-writer';
+import { parseEnexString } from '@/lib/import/enex-parser';
+import { convertEnmlToHtml } from '@/lib/import/enml-converter';
+
+const PHOTO = { hash: '0123456789abcdef0123456789abcdef', mimeType: 'image/png' };
+
+function body(enml: string): string {
+    return enml.slice(enml.indexOf('<en-note>') + '<en-note>'.length, enml.lastIndexOf('</en-note>'));
+}
+
+describe('convertHtmlToEnml', () => {
+    it('wraps content in an ENML document', () => {
+        const enml = convertHtmlToEnml('<p>Hello</p>');
+        expect(enml).toContain('<!DOCTYPE en-note SYSTEM "http://xml.evernote.com/pub/enml2.dtd">');
+        expect(body(enml)).toBe('<p>Hello</p>');
+    });
+
+    it('restores en-media for stored attachments and keeps external images', () => {
+        const html = '<div class="en-note"><img src="/api/attachments/a1?download=true" alt="Photo" width="320" class="en-media" loading="lazy"><img src="https://example.com/x.png"></div>';
+        const enml = convertHtmlToEnml(html, {
+            resolveResource: url => (url.includes('/api/attachments/a1') ? PHOTO : undefined),
+        });
+        expect(body(enml)).toBe(
+            `<en-media hash="${PHOTO.hash}" type="image/png" width="320"/><img src="https://example.com/x.png"/>`
+        );
+    });
+
+    it('appends resources the content does not reference', () => {
+        const enml = convertHtmlToEnml('<p>Text</p>', { resources: [PHOTO] });
+        expect(body(enml)).toBe(`<p>Text</p><div><en-media hash="${PHOTO.hash}" type="image/png"/></div>`);
+    });
+
+    it('converts checkboxes and editor task items to en-todo', () => {
+        const enexTodo = '<div><input type="checkbox" class="en-todo" checked disabled />Milk</div>';
+        expect(body(convertHtmlToEnml(enexTodo))).toBe('<div><en-todo checked="true"/>Milk</div>');
+
+        const taskList = '<ul data-type="taskList"><li data-type="taskItem" data-checked="false"><label><input type="checkbox"><span></span></label><div><p>Call Sam</p></div></li></ul>';
+        expect(body(convertHtmlToEnml(taskList))).toBe('<div><en-todo checked="false"/>Call Sam</div>');
+    });
+
+    it('drops prohibited elements and attributes', () => {
+        const html = '<section id="s" class="x" data-foo="1"><p onclick="evil()" style="color: red">Hi&nbsp;<mark>there</mark></p><iframe src="https://x"></iframe><script>alert(1)</script></section>';
+        expect(body(convertHtmlToEnml(html))).toBe(
+            '<div><p style="color: red">Hi&#160;<span style="background-color: rgb(255, 250, 165);-evernote-highlight:true;">there</span></p></div>'
+        );
+    });
+
+    it('round-trips through the ENML importer', () => {
+        const enml = '<en-note><div><en-todo checked="true"/>Done</div><div><b>Bold</b> &amp; plain</div></en-note>';
+        const html = convertEnmlToHtml(enml);
+        expect(body(convertHtmlToEnml(html))).toBe('<div><en-todo checked="true"/>Done</div><div><b>Bold</b> &amp; plain</div>');
+    });
+});
+
+describe('serializeEnex', () => {
+    it('writes documents the ENEX parser reads back', () => {
+        const created = new Date('2024-01-31T15:30:00.000Z');
+        const xml = serializeEnex([{
+            title: 'Groceries & more',
+            content: convertHtmlToEnml('<p>Contains ]]&gt; marker</p>', { resources: [PHOTO] }),
+            created: formatEnexDate(created),
+            updated: formatEnexDate(created),
+            tags: ['home', 'list'],
+            noteAttributes: { sourceUrl: 'https://example.com/?a=1&b=2', latitude: 48.85 },
+            resources: [{
+                data: Buffer.from('png-bytes').toString('base64'),
+                encoding: 'base64',
+                mime: 'image/png',
+                resourceAttributes: { fileName: 'photo.png' },
+            }],
+        }], created);
+
+        const parsed = parseEnexString(xml);
+        expect(parsed.exportDate).toBe('20240131T153000Z');
+        expect(parsed.notes).toHaveLength(1);
+
+        const [note] = parsed.notes;
+        expect(note!.title).toBe('Groceries & more');
+        expect(note!.tags).toEqual(['home', 'list']);
+        expect(note!.created).toBe('20240131T153000Z');
+        expect(note!.content).toContain('Contains ]]&gt; marker');
+        expect(note!.noteAttributes?.sourceUrl).toBe('https://example.com/?a=1&b=2');
+        expect(note!.resources[0]!.mime).toBe('image/png');
+        expect(Buffer.from(note!.resources[0]!.data, 'base64').toString()).toBe('png-bytes');
+        expect(note!.resources[0]!.resourceAttributes?.fileName).toBe('photo.png');
+    });
+});
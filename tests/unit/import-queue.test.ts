@@ -0,0 +1,320 @@
+/**
+ * Unit Tests for the Import Queue
+ *
+ * Tests that imports resume from their checkpoint, pause when asked,
+ * stop when cancelled, skip notes imported before, that workers respect
+ * job leases, that uploads are parsed only once and that uploads go
+ * straight to the user's storage keys
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { ImportJob } from '@prisma/client';
+import type { EnexExport } from '@/types/enex';
+
+vi.mock('@/lib/db', () => ({
+    prisma: {
+        importJob: {
+            findUnique: vi.fn(),
+            update: vi.fn(),
+            updateMany: vi.fn(),
+        },
+        notebook: {
+            findFirst: vi.fn(),
+            create: vi.fn(),
+        },
+        note: {
+            create: vi.fn(),
+            findFirst: vi.fn(),
+            findMany: vi.fn(),
+            update: vi.fn(),
+        },
+    },
+}));
+
+vi.mock('@/lib/storage', () => {
+    const storage = { get: vi.fn(), delete: vi.fn(), upload: vi.fn(), getUploadUrl: vi.fn() };
+    return { getStorageService: () => storage };
+});
+
+vi.mock('@/lib/import/file-parser', () => ({ parseFile: vi.fn() }));
+
+import { prisma } from '@/lib/db';
+import { getStorageService } from '@/lib/storage';
+import { parseFile } from '@/lib/import/file-parser';
+import { importFromExport } from '@/lib/import/import-orchestrator';
+import { computeImportFingerprint } from '@/lib/import/fingerprint';
+import { createImportUpload, isImportJobClaimable, isImportUploadKey, runImportJob } from '@/lib/import/import-queue';
+
+function makeJob(overrides: Partial<ImportJob> = {}): ImportJob {
+    return {
+        id: 'job-1',
+        userId: 'user-1',
+        filename: 'notes.enex',
+        status: 'processing',
+        totalNotes: 5,
+        imported: 2,
+        failed: 0,
+        skipped: 0,
+        overwritten: 0,
+        duplicateMode: 'skip',
+        errors: [],
+        notebookName: null,
+        storageKey: 'imports/user-1/job-1/notes.enex',
+        notesPrefix: null,
+        mimeType: null,
+        fileModifiedAt: null,
+        cursor: 2,
+        attempts: 0,
+        lockedUntil: null,
+        startedAt: new Date('2024-01-01T00:00:00Z'),
+        completedAt: null,
+        createdAt: new Date('2024-01-01T00:00:00Z'),
+        ...overrides,
+    };
+}
+
+const enexExport: EnexExport = {
+    notes: [1, 2, 3, 4, 5].map(n => ({
+        title: `Note ${n}`,
+        content: `<en-note><div>Body ${n}</div></en-note>`,
+        tags: [],
+        resources: [],
+    })),
+};
+
+describe('importFromExport', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(prisma.importJob.findUnique).mockResolvedValue({ status: 'processing' } as never);
+        vi.mocked(prisma.notebook.findFirst).mockResolvedValue({ id: 'nb-1' } as never);
+        vi.mocked(prisma.note.create).mockImplementation((args) => Promise.resolve({ id: `id-${args.data.title}` }) as never);
+        vi.mocked(prisma.note.findMany).mockResolvedValue([]);
+        vi.mocked(prisma.note.findFirst).mockResolvedValue(null);
+    });
+
+    it('resumes from the checkpoint and pauses between batches', async () => {
+        const result = await importFromExport(enexExport, makeJob(), {
+            userId: 'user-1',
+            filename: 'notes.enex',
+            batchSize: 1,
+            shouldPause: () => true,
+        });
+
+        expect(result.status).toBe('processing');
+        expect(result.imported).toBe(3);
+        expect(prisma.note.create).toHaveBeenCalledTimes(1);
+        expect(vi.mocked(prisma.note.create).mock.calls[0]![0].data.title).toBe('Note 3');
+        expect(prisma.importJob.update).toHaveBeenCalledWith({
+            where: { id: 'job-1' },
+            data: { imported: 3, failed: 0, skipped: 0, overwritten: 0, errors: [], cursor: 3 },
+        });
+    });
+
+    it('completes the remaining notes when not paused', async () => {
+        const result = await importFromExport(enexExport, makeJob(), { userId: 'user-1', filename: 'notes.enex' });
+
+        expect(result.status).toBe('completed');
+        expect(result.imported).toBe(5);
+        expect(prisma.note.create).toHaveBeenCalledTimes(3);
+    });
+
+    it('stops when the job was cancelled', async () => {
+        vi.mocked(prisma.importJob.findUnique).mockResolvedValue({ status: 'cancelled' } as never);
+
+        const result = await importFromExport(enexExport, makeJob(), { userId: 'user-1', filename: 'notes.enex' });
+
+        expect(result.status).toBe('cancelled');
+        expect(prisma.note.create).not.toHaveBeenCalled();
+    });
+
+    it('skips notes that were imported before', async () => {
+        vi.mocked(prisma.note.findFirst).mockImplementation((args) => Promise.resolve(
+            args?.where?.OR?.[0]?.fingerprint === computeImportFingerprint(enexExport.notes[3]!)
+                ? { id: 'existing', notebookId: 'nb-1' }
+                : null
+        ) as never);
+
+        const result = await importFromExport(enexExport, makeJob(), { userId: 'user-1', filename: 'notes.enex' });
+
+        expect(result.imported).toBe(4);
+        expect(result.skipped).toBe(1);
+        expect(result.errors).toEqual(['Skipped "Note 4": already imported']);
+        expect(prisma.note.create).toHaveBeenCalledTimes(2);
+    });
+
+    it('matches notes imported before fingerprints by created time and title', async () => {
+        const legacyExport: EnexExport = {
+            notes: [{ ...enexExport.notes[0]!, created: '20240101T120000Z' }],
+        };
+        vi.mocked(prisma.note.findFirst).mockResolvedValue({ id: 'existing', notebookId: 'nb-1' } as never);
+
+        const result = await importFromExport(legacyExport, makeJob({ cursor: 0, totalNotes: 1 }), {
+            userId: 'user-1',
+            filename: 'notes.enex',
+        });
+
+        expect(result.skipped).toBe(1);
+        expect(vi.mocked(prisma.note.findFirst).mock.calls[0]![0]!.where!.OR).toEqual([
+            { fingerprint: computeImportFingerprint(legacyExport.notes[0]!) },
+            {
+                fingerprint: null,
+                importSource: 'enex',
+                evernoteCreated: new Date('2024-01-01T12:00:00Z'),
+                title: 'Note 1',
+            },
+        ]);
+    });
+
+    it('imports duplicates again in keep-both mode', async () => {
+        vi.mocked(prisma.note.findFirst).mockResolvedValue({ id: 'existing', notebookId: 'nb-1' } as never);
+
+        const result = await importFromExport(enexExport, makeJob(), {
+            userId: 'user-1',
+            filename: 'notes.enex',
+            duplicateMode: 'keep-both',
+        });
+
+        expect(result.imported).toBe(5);
+        expect(result.skipped).toBe(0);
+        expect(prisma.note.findFirst).not.toHaveBeenCalled();
+    });
+});
+
+describe('computeImportFingerprint', () => {
+    const note = {
+        title: 'Groceries',
+        content: '<?xml version="1.0" encoding="UTF-8"?>\n<en-note><div>Milk</div></en-note>',
+        created: '20240101T120000Z',
+    };
+
+    it('is stable across exports of the same note', () => {
+        expect(computeImportFingerprint(note)).toBe(computeImportFingerprint({
+            ...note,
+            content: '<en-note><div>Milk</div></en-note>\r\n',
+        }));
+    });
+
+    it('changes when the title, content or created time changes', () => {
+        const fingerprint = computeImportFingerprint(note);
+        expect(computeImportFingerprint({ ...note, title: 'Shopping' })).not.toBe(fingerprint);
+        expect(computeImportFingerprint({ ...note, content: '<en-note><div>Eggs</div></en-note>' })).not.toBe(fingerprint);
+        expect(computeImportFingerprint({ ...note, created: '20240102T120000Z' })).not.toBe(fingerprint);
+    });
+});
+
+describe('runImportJob', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('only claims jobs without a live lease', () => {
+        const now = new Date('2024-01-01T12:00:00Z');
+        expect(isImportJobClaimable({ status: 'pending', lockedUntil: null }, now)).toBe(true);
+        expect(isImportJobClaimable({ status: 'processing', lockedUntil: new Date('2024-01-01T12:01:00Z') }, now)).toBe(false);
+        expect(isImportJobClaimable({ status: 'processing', lockedUntil: new Date('2024-01-01T11:59:00Z') }, now)).toBe(true);
+        expect(isImportJobClaimable({ status: 'completed', lockedUntil: null }, now)).toBe(false);
+    });
+
+    it('skips a job another worker holds', async () => {
+        vi.mocked(prisma.importJob.findUnique).mockResolvedValue(makeJob({
+            lockedUntil: new Date(Date.now() + 60_000),
+        }));
+
+        expect(await runImportJob('job-1')).toBeNull();
+        expect(prisma.importJob.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('fails a job whose workers keep crashing', async () => {
+        vi.mocked(prisma.importJob.findUnique).mockResolvedValue(makeJob({
+            attempts: 2,
+            lockedUntil: new Date(Date.now() - 1000),
+        }));
+        vi.mocked(prisma.importJob.updateMany).mockResolvedValue({ count: 1 });
+
+        const result = await runImportJob('job-1');
+
+        expect(result?.status).toBe('failed');
+        expect(vi.mocked(prisma.importJob.updateMany).mock.calls[0]![0].data).toMatchObject({ attempts: 3 });
+        expect(vi.mocked(prisma.importJob.updateMany).mock.calls[1]![0].data).toMatchObject({ status: 'failed' });
+    });
+});
+
+describe('parsed notes', () => {
+    const storage = getStorageService();
+    const storedNotes = new Map(enexExport.notes.map((note, index) => [
+        `imports/user-1/job-1/notes/${index}.json`,
+        Buffer.from(JSON.stringify(note)),
+    ]));
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(prisma.importJob.updateMany).mockResolvedValue({ count: 1 });
+        vi.mocked(prisma.importJob.update).mockImplementation((args) => Promise.resolve({ ...makeJob(), ...args.data }) as never);
+        vi.mocked(prisma.notebook.findFirst).mockResolvedValue({ id: 'nb-1' } as never);
+        vi.mocked(prisma.note.create).mockImplementation((args) => Promise.resolve({ id: `id-${args.data.title}` }) as never);
+        vi.mocked(prisma.note.findMany).mockResolvedValue([]);
+        vi.mocked(prisma.note.findFirst).mockResolvedValue(null);
+        vi.mocked(storage.get).mockImplementation(async (key) => storedNotes.get(key) ?? Buffer.from('<en-export/>'));
+    });
+
+    it('parses the upload on the first run and stores each note', async () => {
+        vi.mocked(prisma.importJob.findUnique).mockResolvedValue(makeJob({ status: 'pending', cursor: 0, imported: 0, totalNotes: null }));
+        vi.mocked(parseFile).mockResolvedValue(enexExport);
+
+        const result = await runImportJob('job-1');
+
+        expect(result?.status).toBe('completed');
+        expect(vi.mocked(storage.upload).mock.calls.map(([, options]) => options.key)).toEqual(
+            [...storedNotes.keys()]
+        );
+        expect(prisma.importJob.update).toHaveBeenCalledWith(expect.objectContaining({
+            data: expect.objectContaining({ notesPrefix: 'imports/user-1/job-1/notes', totalNotes: 5, storageKey: null }),
+        }));
+        expect(storage.delete).toHaveBeenCalledWith('imports/user-1/job-1/notes.enex');
+    });
+
+    it('resumes from the stored notes after the checkpoint without parsing again', async () => {
+        vi.mocked(prisma.importJob.findUnique).mockResolvedValue(makeJob({
+            status: 'pending',
+            storageKey: null,
+            notesPrefix: 'imports/user-1/job-1/notes',
+        }));
+
+        const result = await runImportJob('job-1');
+
+        expect(result?.status).toBe('completed');
+        expect(parseFile).not.toHaveBeenCalled();
+        expect(vi.mocked(storage.get).mock.calls.map(([key]) => key)).toEqual([
+            'imports/user-1/job-1/notes/2.json',
+            'imports/user-1/job-1/notes/3.json',
+            'imports/user-1/job-1/notes/4.json',
+        ]);
+        expect(prisma.note.create).toHaveBeenCalledTimes(3);
+        // Finished jobs remove their stored notes
+        expect(storage.delete).toHaveBeenCalledTimes(5);
+    });
+});
+
+describe('import uploads', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('reserves a key under the user and asks storage for an upload URL', async () => {
+        const upload = { url: 'https://storage.test/put', method: 'PUT' as const, headers: { 'Content-Type': 'application/zip' } };
+        vi.mocked(getStorageService().getUploadUrl).mockResolvedValue(upload);
+
+        const result = await createImportUpload('user-1', 'My Vault (1).zip', 'application/zip');
+
+        expect(result.storageKey).toMatch(/^imports\/user-1\/[0-9a-f-]+\/My_Vault__1_\.zip$/);
+        expect(result.upload).toBe(upload);
+        expect(getStorageService().getUploadUrl).toHaveBeenCalledWith(result.storageKey, { mimeType: 'application/zip' });
+    });
+
+    it('only accepts keys handed out to the user', () => {
+        expect(isImportUploadKey('user-1', 'imports/user-1/abc/notes.enex')).toBe(true);
+        expect(isImportUploadKey('user-1', 'imports/user-2/abc/notes.enex')).toBe(false);
+        expect(isImportUploadKey('user-1', 'imports/user-1/../user-2/notes.enex')).toBe(false);
+        expect(isImportUploadKey('user-1', 'uploads/user-1/notes.enex')).toBe(false);
+    });
+});
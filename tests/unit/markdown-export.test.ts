@@ -0,0 +1,110 @@
+/**
+ * Unit Tests for Markdown Export
+ *
+ * Tests HTML to Markdown conversion, front matter and the ZIP writer
+ */
+
+import { describe, it, expect } from 'vitest';
+import { inflateRawSync } from 'zlib';
+import { htmlToMarkdown } from '@/lib/export/markdown';
+import { buildFrontMatter } from '@/lib/export/front-matter';
+import { createZipStream, crc32 } from '@/lib/export/zip-writer';
+
+describe('htmlToMarkdown', () => {
+    it('converts headings, emphasis and links', () => {
+        const html = '<h2>Plan</h2><p>Some <strong>bold</strong>, <em>italic</em> and <a href="https://example.com">a link</a>.</p>';
+        expect(htmlToMarkdown(html)).toBe('## Plan\n\nSome **bold**, *italic* and [a link](https://example.com).\n');
+    });
+
+    it('converts tables to GFM with the first row as header', () => {
+        const html = '<table><tbody><tr><th><p>Name</p></th><th><p>Qty</p></th></tr><tr><td><p>Apples | pears</p></td><td><p>3</p></td></tr></tbody></table>';
+        expect(htmlToMarkdown(html)).toBe('| Name | Qty |\n| --- | --- |\n| Apples \\| pears | 3 |\n');
+    });
+
+    it('converts editor task items and ENEX to-dos to task lists', () => {
+        const editor = '<ul data-type="taskList"><li data-type="taskItem" data-checked="true"><label><input type="checkbox" checked="checked"><span></span></label><div><p>Done</p></div></li><li data-type="taskItem" data-checked="false"><label><input type="checkbox"><span></span></label><div><p>Todo</p></div></li></ul>';
+        expect(htmlToMarkdown(editor)).toBe('- [x] Done\n- [ ] Todo\n');
+
+        const enex = '<div><input type="checkbox" class="en-todo" checked disabled />Milk</div><div><input type="checkbox" class="en-todo" disabled />Bread</div>';
+        expect(htmlToMarkdown(enex)).toBe('- [x] Milk\n- [ ] Bread\n');
+    });
+
+    it('converts highlights and note links', () => {
+        const html = '<p><mark>key</mark> point, <span style="background-color: yellow;-evernote-highlight:true;">marked</span> and <span data-type="note-link" data-note-id="n1">Ideas</span></p>';
+        expect(htmlToMarkdown(html)).toBe('==key== point, ==marked== and [[Ideas]]\n');
+    });
+
+    it('rewrites image sources through resolveUrl', () => {
+        const html = '<p><img src="/api/attachments/abc?download=true" alt="Photo"></p><p><img src="https://cdn.example.com/x.png" alt=""></p>';
+        const markdown = htmlToMarkdown(html, {
+            resolveUrl: url => (url.includes('/api/attachments/abc') ? 'attachments/My photo.png' : undefined),
+        });
+        expect(markdown).toBe('![Photo](<attachments/My photo.png>)\n\n![](https://cdn.example.com/x.png)\n');
+    });
+
+    it('renders nested lists, code blocks and line breaks', () => {
+        const html = '<ol><li><p>One</p><ul><li><p>Sub</p></li></ul></li><li><p>Two</p></li></ol><pre><code class="language-ts">const a = 1;</code></pre><p>line one<br>line two</p>';
+        expect(htmlToMarkdown(html)).toBe('1. One\n   - Sub\n2. Two\n\n```ts\nconst a = 1;\n```\n\nline one\\\nline two\n');
+    });
+
+    it('escapes text that would be read as Markdown', () => {
+        expect(htmlToMarkdown('<p># not a heading *or* emphasis</p><p>1. not a list</p>'))
+            .toBe('\\# not a heading \\*or\\* emphasis\n\n1\\. not a list\n');
+    });
+});
+
+describe('buildFrontMatter', () => {
+    it('quotes strings, lists tags and nests location', () => {
+        const frontMatter = buildFrontMatter({
+            title: 'Trip: "Day 1"',
+            tags: ['travel', 'europe'],
+            created: new Date('2024-03-01T10:00:00.000Z'),
+            sourceUrl: null,
+            location: { latitude: 48.85, longitude: 2.35, altitude: undefined },
+        });
+
+        expect(frontMatter).toBe([
+            '---',
+            'title: "Trip: \\"Day 1\\""',
+            'tags:',
+            '  - "travel"',
+            '  - "europe"',
+            'created: 2024-03-01T10:00:00.000Z',
+            'location:',
+            '  latitude: 48.85',
+            '  longitude: 2.35',
+            '---',
+            '',
+        ].join('\n'));
+    });
+});
+
+describe('createZipStream', () => {
+    it('computes the standard CRC-32', () => {
+        expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+    });
+
+    it('writes readable entries and a central directory', async () => {
+        const text = 'Hello, world! '.repeat(50);
+        const stream = createZipStream([
+            { path: 'Notes/Hello.md', data: text },
+            { path: 'Notes/attachments/tiny.bin', data: new Uint8Array([1, 2, 3]) },
+        ]);
+        const archive = Buffer.from(await new Response(stream).arrayBuffer());
+
+        // First local header: deflated because the text compresses well
+        expect(archive.readUInt32LE(0)).toBe(0x04034b50);
+        expect(archive.readUInt16LE(8)).toBe(8);
+        const compressedSize = archive.readUInt32LE(18);
+        const nameLength = archive.readUInt16LE(26);
+        expect(archive.subarray(30, 30 + nameLength).toString()).toBe('Notes/Hello.md');
+        const body = archive.subarray(30 + nameLength, 30 + nameLength + compressedSize);
+        expect(inflateRawSync(body).toString()).toBe(text);
+
+        // End of central directory lists both entries
+        const end = archive.subarray(archive.length - 22);
+        expect(end.readUInt32LE(0)).toBe(0x06054b50);
+        expect(end.readUInt16LE(10)).toBe(2);
+        expect(archive.readUInt32LE(end.readUInt32LE(16))).toBe(0x02014b50);
+    });
+});
@@ -0,0 +1,158 @@
+/**
+ * Unit Tests for Markdown Import
+ *
+ * Tests front matter parsing, Markdown to ENML conversion and reading
+ * zipped vaults into notes, notebooks and resources
+ */
+
+import { describe, it, expect } from 'vitest';
+import { markdownToHtml } from '@/lib/import/markdown-converter';
+import { parseFrontMatter, parseMarkdownVault } from '@/lib/import/markdown-parser';
+import { readZip } from '@/lib/import/zip-reader';
+import { createZipStream, type ZipEntry } from '@/lib/export/zip-writer';
+import { resolveNoteLinkTitles } from '@/lib/links/note-links';
+
+async function zip(entries: ZipEntry[]): Promise<Buffer> {
+    const response = new Response(createZipStream(entries));
+    return Buffer.from(await response.arrayBuffer());
+}
+
+const IMAGE = { hash: '0123456789abcdef0123456789abcdef', mimeType: 'image/png' };
+
+describe('parseFrontMatter', () => {
+    it('reads scalars, lists and nested maps', () => {
+        const { data, body } = parseFrontMatter([
+            '---',
+            'title: "Trip: Paris"',
+            'tags: [travel, "#europe"]',
+            'aliases:',
+            '  - Paris',
+            'location:',
+            '  latitude: 48.85',
+            '---',
+            '# Body',
+        ].join('\n'));
+
+        expect(data.title).toBe('Trip: Paris');
+        expect(data.tags).toEqual(['travel', '#europe']);
+        expect(data.aliases).toEqual(['Paris']);
+        expect(data['location.latitude']).toBe('48.85');
+        expect(body).toBe('# Body');
+    });
+
+    it('leaves documents without front matter untouched', () => {
+        expect(parseFrontMatter('Just text\n---\nmore')).toEqual({ data: {}, body: 'Just text\n---\nmore' });
+    });
+});
+
+describe('markdownToHtml', () => {
+    it('converts block structure', () => {
+        const html = markdownToHtml([
+            'Title',
+            '=====',
+            '',
+            '> quoted *text*',
+            '',
+            '```ts',
+            'const a = "<b>";',
+            '```',
+            '',
+            '| A | B |',
+            '|---|:-:|',
+            '| 1 | x \\| y |',
+            '',
+            '1. one',
+            '   - nested',
+            '2. two',
+        ].join('\n'));
+
+        expect(html).toBe(
+            '<h1>Title</h1>'
+            + '<blockquote><p>quoted <em>text</em></p></blockquote>'
+            + '<pre><code class="language-ts">const a = &quot;&lt;b&gt;&quot;;</code></pre>'
+            + '<table><thead><tr><th>A</th><th>B</th></tr></thead><tbody><tr><td>1</td><td>x | y</td></tr></tbody></table>'
+            + '<ol><li>one<ul><li>nested</li></ul></li><li>two</li></ol>'
+        );
+    });
+
+    it('formats inline text and escapes HTML', () => {
+        expect(markdownToHtml('**bold** _em_ ~~gone~~ ==hi== `a*b*` <script> \\*lit\\*'))
+            .toBe('<p><strong>bold</strong> <em>em</em> <s>gone</s> <mark>hi</mark> <code>a*b*</code> &lt;script&gt; *lit*</p>');
+        expect(markdownToHtml('See [docs](https://example.com/a_b) and https://x.io/page.'))
+            .toBe('<p>See <a href="https://example.com/a_b">docs</a> and <a href="https://x.io/page">https://x.io/page</a>.</p>');
+        expect(markdownToHtml('[bad](javascript:void)')).toBe('<p>bad</p>');
+    });
+
+    it('turns task lists into en-todo', () => {
+        expect(markdownToHtml('- [x] Done\n- [ ] Open')).toBe(
+            '<div><en-todo checked="true"/>Done</div><div><en-todo checked="false"/>Open</div>'
+        );
+        expect(markdownToHtml('- plain\n- [ ] task')).toBe(
+            '<ul><li>plain</li><li><en-todo checked="false"/>task</li></ul>'
+        );
+    });
+
+    it('links notes and embeds resolved resources', () => {
+        const html = markdownToHtml('![[photo.png|300]] ![alt](img/a%20b.png) ![x](missing.png) [[Other Note#Part|alias]] [next](sub/Next.md)', {
+            resolveResource: path => (path === 'photo.png' || path === 'img/a b.png' ? IMAGE : undefined),
+        });
+
+        expect(html).toBe(
+            `<p><en-media hash="${IMAGE.hash}" type="image/png" width="300"/> `
+            + `<en-media hash="${IMAGE.hash}" type="image/png" alt="alt"/> x `
+            + '<span data-type="note-link" class="note-link" data-note-id="">Other Note</span> '
+            + '<span data-type="note-link" class="note-link" data-note-id="">Next</span></p>'
+        );
+    });
+});
+
+describe('resolveNoteLinkTitles', () => {
+    it('fills in IDs for known titles only', () => {
+        const html = '<p><span data-type="note-link" class="note-link" data-note-id="">Known</span> [[Other]] [[Missing]]</p>';
+        const ids: Record<string, string> = { known: 'n1', other: 'n2' };
+
+        expect(resolveNoteLinkTitles(html, title => ids[title.toLowerCase()] ?? null)).toBe(
+            '<p><span data-type="note-link" class="note-link" data-note-id="n1">Known</span> '
+            + '<span data-type="note-link" class="note-link" data-note-id="n2">Other</span> [[Missing]]</p>'
+        );
+    });
+});
+
+describe('parseMarkdownVault', () => {
+    it('maps folders, front matter and attachments', async () => {
+        const buffer = await zip([
+            { path: 'Vault/.obsidian/app.json', data: '{}' },
+            { path: 'Vault/Inbox.md', data: '---\ntags: [a, b]\ncreated: 2024-01-31T15:30:00Z\n---\nSee [[Plan]]' },
+            { path: 'Vault/Work/Plan.md', data: '![[diagram.png]]' },
+            { path: 'Vault/Work/Projects/Alpha.md', data: '---\ntitle: Alpha project\nsource: https://example.com\n---\nBody' },
+            { path: 'Vault/attachments/diagram.png', data: new Uint8Array([137, 80, 78, 71]) },
+        ]);
+
+        const result = parseMarkdownVault(buffer);
+        const byTitle = Object.fromEntries(result.notes.map(note => [note.title, note]));
+
+        expect(Object.keys(byTitle).sort()).toEqual(['Alpha project', 'Inbox', 'Plan']);
+
+        expect(byTitle.Inbox!.notebook).toBeUndefined();
+        expect(byTitle.Inbox!.tags).toEqual(['a', 'b']);
+        expect(byTitle.Inbox!.created).toBe('2024-01-31T15:30:00.000Z');
+        expect(byTitle.Inbox!.content).toContain('<span data-type="note-link" class="note-link" data-note-id="">Plan</span>');
+
+        expect(byTitle.Plan!.notebook).toEqual({ name: 'Work', stack: 'Work' });
+        expect(byTitle.Plan!.resources).toHaveLength(1);
+        expect(byTitle.Plan!.resources[0]!.mime).toBe('image/png');
+        expect(byTitle.Plan!.content).toMatch(/<en-media hash="[0-9a-f]{32}" type="image\/png"\/>/);
+
+        expect(byTitle['Alpha project']!.notebook).toEqual({ name: 'Projects', stack: 'Work' });
+        expect(byTitle['Alpha project']!.noteAttributes?.sourceUrl).toBe('https://example.com');
+    });
+
+    it('reads archives written by the exporter', async () => {
+        const buffer = await zip([{ path: 'a/b.txt', data: 'hello', modifiedAt: new Date(2024, 0, 31, 10, 0, 0) }]);
+        const [entry] = readZip(buffer);
+
+        expect(entry!.path).toBe('a/b.txt');
+        expect(entry!.data.toString()).toBe('hello');
+        expect(entry!.modifiedAt).toEqual(new Date(2024, 0, 31, 10, 0, 0));
+    });
+});
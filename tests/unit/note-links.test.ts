@@ -0,0 +1,62 @@
+/**
+ * Unit Tests for Note Link Parsing
+ *
+ * Tests extraction and renaming of [[note links]] in note HTML
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractNoteLinks, renameNoteLinks } from '@/lib/links/note-links';
+
+describe('extractNoteLinks', () => {
+    it('extracts editor link nodes with note IDs', () => {
+        const html = '<p>See <span data-type="note-link" data-note-id="note-1" class="note-link">Project Plan</span></p>';
+        expect(extractNoteLinks(html)).toEqual([
+            { noteId: 'note-1', title: 'Project Plan' },
+        ]);
+    });
+
+    it('treats link nodes without an ID as title links', () => {
+        const html = '<span class="note-link" data-type="note-link" data-note-id="">Q&amp;A</span>';
+        expect(extractNoteLinks(html)).toEqual([
+            { noteId: null, title: 'Q&A' },
+        ]);
+    });
+
+    it('extracts plain [[wiki links]] including aliases', () => {
+        const html = '<p>Links to [[Reading List]] and [[Ideas|my ideas]].</p>';
+        expect(extractNoteLinks(html)).toEqual([
+            { noteId: null, title: 'Reading List' },
+            { noteId: null, title: 'Ideas' },
+        ]);
+    });
+
+    it('removes duplicate links', () => {
+        const html = [
+            '<span data-type="note-link" data-note-id="a">One</span>',
+            '<span data-type="note-link" data-note-id="a">One</span>',
+            '<p>[[two]] and [[Two]]</p>',
+        ].join('');
+        expect(extractNoteLinks(html)).toEqual([
+            { noteId: 'a', title: 'One' },
+            { noteId: null, title: 'two' },
+        ]);
+    });
+
+    it('returns nothing for content without links', () => {
+        expect(extractNoteLinks('<p>No [links] here</p>')).toEqual([]);
+    });
+});
+
+describe('renameNoteLinks', () => {
+    it('updates the text of links to the renamed note only', () => {
+        const html = [
+            '<p><span data-type="note-link" data-note-id="a" class="note-link">Old</span> ',
+            '<span data-type="note-link" data-note-id="b" class="note-link">Other</span></p>',
+        ].join('');
+
+        expect(renameNoteLinks(html, 'a', 'New <Name>')).toBe([
+            '<p><span data-type="note-link" data-note-id="a" class="note-link">New &lt;Name&gt;</span> ',
+            '<span data-type="note-link" data-note-id="b" class="note-link">Other</span></p>',
+        ].join(''));
+    });
+});
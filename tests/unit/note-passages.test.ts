@@ -0,0 +1,65 @@
+/**
+ * Unit Tests for Note Passages
+ *
+ * Tests splitting note text into passages for embedding and the helpers
+ * used to store their vectors
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    hashEmbeddingText,
+    passageEmbeddingText,
+    splitIntoPassages,
+    toVectorLiteral,
+} from '@/lib/embeddings/passages';
+
+describe('splitIntoPassages', () => {
+    it('keeps short text as one passage', () => {
+        expect(splitIntoPassages('Buy milk. Call the bank!')).toEqual(['Buy milk. Call the bank!']);
+    });
+
+    it('returns nothing for empty text', () => {
+        expect(splitIntoPassages('')).toEqual([]);
+        expect(splitIntoPassages('   ')).toEqual([]);
+    });
+
+    it('breaks between sentences', () => {
+        const text = 'First sentence here. Second sentence here. Third sentence here.';
+
+        expect(splitIntoPassages(text, 45)).toEqual([
+            'First sentence here. Second sentence here.',
+            'Third sentence here.',
+        ]);
+    });
+
+    it('splits a long sentence between words', () => {
+        const passages = splitIntoPassages('one two three four five six seven', 14);
+
+        expect(passages).toEqual(['one two three', 'four five six', 'seven']);
+        expect(passages.every(passage => passage.length <= 14)).toBe(true);
+    });
+
+    it('cuts words longer than a passage', () => {
+        expect(splitIntoPassages('abcdefghij', 4)).toEqual(['abcd', 'efgh', 'ij']);
+    });
+
+    it('keeps closing quotes with their sentence', () => {
+        expect(splitIntoPassages('She said "stop." Then left.', 18)).toEqual(['She said "stop."', 'Then left.']);
+    });
+});
+
+describe('embedding helpers', () => {
+    it('prefixes passages with the note title', () => {
+        expect(passageEmbeddingText('Trip', 'Book flights.')).toBe('Trip\n\nBook flights.');
+        expect(passageEmbeddingText('', 'Book flights.')).toBe('Book flights.');
+    });
+
+    it('hashes the same text the same way', () => {
+        expect(hashEmbeddingText('a')).toBe(hashEmbeddingText('a'));
+        expect(hashEmbeddingText('a')).not.toBe(hashEmbeddingText('b'));
+    });
+
+    it('formats vectors for pgvector', () => {
+        expect(toVectorLiteral([0.5, -1, 0])).toBe('[0.5,-1,0]');
+    });
+});
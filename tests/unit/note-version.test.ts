@@ -0,0 +1,51 @@
+/**
+ * Unit Tests for Note Versions
+ *
+ * Tests reading the version a save was made against from If-Match headers
+ * and request bodies, and comparing it to the stored note
+ */
+
+import { describe, it, expect } from 'vitest';
+import { isSameVersion, noteETag, parseBaseVersion } from '@/lib/revisions/note-version';
+
+const updatedAt = new Date('2026-10-19T08:30:00.000Z');
+
+describe('noteETag', () => {
+    it('quotes the ISO timestamp', () => {
+        expect(noteETag(updatedAt)).toBe('"2026-10-19T08:30:00.000Z"');
+    });
+});
+
+describe('parseBaseVersion', () => {
+    it('reads the ETag sent back in If-Match', () => {
+        expect(parseBaseVersion(noteETag(updatedAt))).toEqual(updatedAt);
+        expect(parseBaseVersion(`W/${noteETag(updatedAt)}`)).toEqual(updatedAt);
+    });
+
+    it('falls back to baseUpdatedAt', () => {
+        expect(parseBaseVersion(null, '2026-10-19T10:30:00+02:00')).toEqual(updatedAt);
+        expect(parseBaseVersion('  ', updatedAt.toISOString())).toEqual(updatedAt);
+    });
+
+    it('prefers If-Match over baseUpdatedAt', () => {
+        expect(parseBaseVersion(noteETag(updatedAt), '2020-01-01T00:00:00Z')).toEqual(updatedAt);
+    });
+
+    it('returns null when no version is given', () => {
+        expect(parseBaseVersion(null)).toBeNull();
+        expect(parseBaseVersion(null, '')).toBeNull();
+    });
+
+    it('never matches an unreadable version', () => {
+        const version = parseBaseVersion('"not-a-date"');
+        expect(version).not.toBeNull();
+        expect(isSameVersion(updatedAt, version!)).toBe(false);
+    });
+});
+
+describe('isSameVersion', () => {
+    it('compares timestamps rather than Date instances', () => {
+        expect(isSameVersion(updatedAt, new Date(updatedAt.toISOString()))).toBe(true);
+        expect(isSameVersion(updatedAt, new Date(updatedAt.getTime() + 1))).toBe(false);
+    });
+});
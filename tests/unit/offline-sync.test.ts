@@ -0,0 +1,302 @@
+/**
+ * Unit Tests for Offline Sync
+ *
+ * Tests rebuilding note lists from cached notes, folding queued changes
+ * together, replaying them against the versions the server hands out and
+ * keeping turned-back and refused edits across a reload
+ */
+
+import 'fake-indexeddb/auto';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+    applyNoteChanges,
+    buildOfflineAppData,
+    fromSyncedNote,
+    listOfflineNotes,
+    parseAppDataKey,
+    previewFromHtml,
+    type OfflineNote,
+} from '@/lib/offline/app-data';
+import {
+    pendingNoteIds,
+    planQueuedMutation,
+    rebaseMutation,
+    recordReplayedVersion,
+    type OfflineMutation,
+} from '@/lib/offline/mutations';
+
+function note(overrides: Partial<OfflineNote> & { id: string }): OfflineNote {
+    return {
+        title: 'Untitled',
+        preview: '',
+        notebookId: 'nb-1',
+        tags: [],
+        isTrash: false,
+        createdAt: '2026-10-01T00:00:00.000Z',
+        updatedAt: '2026-10-01T00:00:00.000Z',
+        ...overrides,
+    };
+}
+
+function mutation(overrides: Partial<OfflineMutation>): OfflineMutation {
+    return {
+        method: 'PATCH',
+        url: '/api/notes/n1',
+        noteId: 'n1',
+        queuedAt: '2026-10-19T08:00:00.000Z',
+        ...overrides,
+    };
+}
+
+describe('parseAppDataKey', () => {
+    it('reads list filters from the cache key', () => {
+        expect(parseAppDataKey('/api/app-data?notebookId=nb-1&search=plan&sort=title')).toEqual({
+            notebookId: 'nb-1',
+            tagId: undefined,
+            isTrash: false,
+            search: 'plan',
+            sort: 'title',
+        });
+    });
+
+    it('defaults to a relevance-sorted list', () => {
+        expect(parseAppDataKey('/api/app-data?isTrash=true&sort=bogus')).toMatchObject({
+            isTrash: true,
+            sort: 'relevance',
+        });
+    });
+});
+
+describe('previewFromHtml', () => {
+    it('strips markup and decodes entities', () => {
+        expect(previewFromHtml('<h1>Trip</h1><p>Tom &amp; Jerry&nbsp;go</p>')).toBe('Trip Tom & Jerry go');
+    });
+
+    it('caps the preview length', () => {
+        expect(previewFromHtml(`<p>${'a'.repeat(500)}</p>`)).toHaveLength(200);
+    });
+});
+
+describe('applyNoteChanges', () => {
+    it('applies shown fields and refreshes the preview', () => {
+        const updated = applyNoteChanges(note({ id: 'n1' }), {
+            title: 'Plan',
+            content: '<p>Pack bags</p>',
+            isFavorite: true,
+            baseUpdatedAt: '2026-10-01T00:00:00.000Z',
+        });
+
+        expect(updated).toMatchObject({ title: 'Plan', content: '<p>Pack bags</p>', preview: 'Pack bags', isFavorite: true });
+        expect(updated).not.toHaveProperty('baseUpdatedAt');
+        expect(updated.updatedAt).toBe('2026-10-01T00:00:00.000Z');
+    });
+});
+
+describe('listOfflineNotes', () => {
+    const notes = [
+        note({ id: 'a', title: 'Groceries', preview: 'milk eggs', updatedAt: '2026-10-03T00:00:00.000Z' }),
+        note({ id: 'b', title: 'Trip plan', preview: 'pack bags', notebookId: 'nb-2', updatedAt: '2026-10-05T00:00:00.000Z' }),
+        note({ id: 'c', title: 'Old', isTrash: true }),
+        note({ id: 'd', title: 'Tagged', tags: [{ id: 't1', name: 'work' }], updatedAt: '2026-10-04T00:00:00.000Z' }),
+    ];
+
+    it('lists notes outside the trash, most recent first', () => {
+        expect(listOfflineNotes(notes, parseAppDataKey('/api/app-data')).map(n => n.id)).toEqual(['b', 'd', 'a']);
+    });
+
+    it('filters by notebook, tag and trash', () => {
+        expect(listOfflineNotes(notes, parseAppDataKey('/api/app-data?notebookId=nb-2')).map(n => n.id)).toEqual(['b']);
+        expect(listOfflineNotes(notes, parseAppDataKey('/api/app-data?tagId=t1')).map(n => n.id)).toEqual(['d']);
+        expect(listOfflineNotes(notes, parseAppDataKey('/api/app-data?isTrash=true')).map(n => n.id)).toEqual(['c']);
+    });
+
+    it('matches every search word in the title or preview', () => {
+        expect(listOfflineNotes(notes, parseAppDataKey('/api/app-data?search=PACK%20trip')).map(n => n.id)).toEqual(['b']);
+        expect(listOfflineNotes(notes, parseAppDataKey('/api/app-data?search=pack%20milk'))).toEqual([]);
+    });
+
+    it('sorts by title', () => {
+        expect(listOfflineNotes(notes, parseAppDataKey('/api/app-data?sort=title')).map(n => n.id)).toEqual(['a', 'd', 'b']);
+    });
+});
+
+describe('buildOfflineAppData', () => {
+    it('lists previews without content', () => {
+        const data = buildOfflineAppData(
+            { notebooks: [{ id: 'nb-1' }], stacks: [], tags: [], trashCount: 2 },
+            [note({ id: 'a', content: '<p>Secret</p>', pendingCreate: true })],
+            parseAppDataKey('/api/app-data')
+        );
+
+        expect(data.trashCount).toBe(2);
+        expect(data.notebooks).toEqual([{ id: 'nb-1' }]);
+        expect(data.notes[0]).not.toHaveProperty('content');
+        expect(data.notes[0]).not.toHaveProperty('pendingCreate');
+    });
+});
+
+describe('fromSyncedNote', () => {
+    it('keeps the content and names the tags the device knows', () => {
+        const cached = fromSyncedNote({
+            id: 'n1',
+            title: 'Plan',
+            content: '<p>Pack bags</p>',
+            notebookId: 'nb-1',
+            tagIds: ['t1', 'unknown'],
+            isTrash: false,
+            isFavorite: true,
+            createdAt: '2026-10-01T00:00:00.000Z',
+            updatedAt: '2026-10-02T00:00:00.000Z',
+        }, new Map([['t1', 'travel']]));
+
+        expect(cached).toMatchObject({ content: '<p>Pack bags</p>', preview: 'Pack bags', tags: [{ id: 't1', name: 'travel' }] });
+        expect(cached).not.toHaveProperty('tagIds');
+    });
+});
+
+describe('planQueuedMutation', () => {
+    it('appends the first change to a record', () => {
+        expect(planQueuedMutation([], mutation({ body: { title: 'A' } }))).toEqual({ type: 'append' });
+    });
+
+    it('folds repeated updates together and keeps the first base version', () => {
+        const queue = [mutation({ seq: 1, body: { content: '<p>1</p>', baseUpdatedAt: 'v1' }, version: 'v1' })];
+        const plan = planQueuedMutation(queue, mutation({ body: { content: '<p>2</p>', isFavorite: true, baseUpdatedAt: 'v1' }, version: 'v1' }));
+
+        expect(plan).toEqual({
+            type: 'merge',
+            mutation: expect.objectContaining({
+                seq: 1,
+                body: { content: '<p>2</p>', isFavorite: true, baseUpdatedAt: 'v1' },
+                version: 'v1',
+            }),
+        });
+    });
+
+    it('takes the base version of a later content change', () => {
+        const queue = [mutation({ seq: 1, body: { isFavorite: true } })];
+        const plan = planQueuedMutation(queue, mutation({ body: { content: '<p>2</p>', baseUpdatedAt: 'v1' } }));
+
+        expect(plan.type === 'merge' && plan.mutation.body).toEqual({ isFavorite: true, content: '<p>2</p>', baseUpdatedAt: 'v1' });
+    });
+
+    it('keeps updates separate across a delete', () => {
+        const queue = [
+            mutation({ seq: 1, body: { title: 'A' } }),
+            mutation({ seq: 2, method: 'DELETE' }),
+        ];
+        expect(planQueuedMutation(queue, mutation({ body: { isTrash: false } }))).toEqual({ type: 'append' });
+    });
+
+    it('drops a note created and deleted while offline', () => {
+        const queue = [
+            mutation({ seq: 1, method: 'POST', url: '/api/notes' }),
+            mutation({ seq: 2, body: { title: 'A' } }),
+            mutation({ seq: 3, noteId: 'other', url: '/api/notes/other' }),
+        ];
+        const plan = planQueuedMutation(queue, mutation({ method: 'DELETE', url: '/api/notes/n1?permanent=true' }));
+
+        expect(plan).toEqual({ type: 'cancel', seqs: [1, 2] });
+    });
+
+    it('still sends a permanent delete of a note the server has', () => {
+        const queue = [mutation({ seq: 1, body: { title: 'A' } })];
+        expect(planQueuedMutation(queue, mutation({ method: 'DELETE', url: '/api/notes/n1?permanent=true' }))).toEqual({ type: 'append' });
+    });
+});
+
+describe('pendingNoteIds', () => {
+    it('collects notes with queued changes', () => {
+        const queue = [mutation({}), mutation({ noteId: 'n2' }), mutation({ noteId: undefined, url: '/api/stacks/s1' })];
+        expect([...pendingNoteIds(queue)]).toEqual(['n1', 'n2']);
+    });
+});
+
+describe('replayed versions', () => {
+    it('sends later content changes against the version earlier changes produced', () => {
+        const versions = new Map<string, string>();
+        const create = mutation({ method: 'POST', url: '/api/notes', version: 'local-1' });
+        const edit = mutation({ body: { content: '<p>x</p>', baseUpdatedAt: 'local-1' }, version: 'local-1' });
+
+        expect(rebaseMutation(edit, versions)).toEqual({ content: '<p>x</p>', baseUpdatedAt: 'local-1' });
+
+        recordReplayedVersion(versions, create, 'server-1');
+        expect(rebaseMutation(edit, versions)).toEqual({ content: '<p>x</p>', baseUpdatedAt: 'server-1' });
+
+        recordReplayedVersion(versions, edit, 'server-2');
+        expect(rebaseMutation(edit, versions)?.baseUpdatedAt).toBe('server-2');
+    });
+
+    it('leaves changes without a base version alone', () => {
+        const body = { isFavorite: true };
+        expect(rebaseMutation(mutation({ body }), new Map([['n1@v1', 'v2']]))).toBe(body);
+    });
+});
+
+describe('replay conflicts', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('keeps a turned-back edit until it is dismissed, across reloads', async () => {
+        const theirs = { id: 'n1', title: 'Plan', content: '<p>Server</p>', updatedAt: '2026-10-19T09:00:00.000Z' };
+        vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ note: theirs }), { status: 409 })));
+
+        const sync = await import('@/lib/offline/sync');
+        await sync.claimOfflineData('user-1');
+        await sync.queueNoteUpdate('n1', { title: 'Plan', content: '<p>Mine</p>', baseUpdatedAt: '2026-10-19T08:00:00.000Z' });
+        await sync.replayQueuedMutations();
+
+        expect(sync.getOfflineSyncState()).toMatchObject({ pending: 0, conflicts: { n1: { theirs } } });
+
+        // Reloading starts from an empty module state and reads the device copy
+        vi.resetModules();
+        const reloaded = await import('@/lib/offline/sync');
+        expect(reloaded.getOfflineSyncState().conflicts).toEqual({});
+
+        await reloaded.claimOfflineData('user-1');
+        expect(reloaded.getOfflineSyncState().conflicts.n1).toEqual({
+            mine: { title: 'Plan', content: '<p>Mine</p>' },
+            theirs,
+        });
+
+        await reloaded.dismissReplayConflict('n1');
+        vi.resetModules();
+        const afterDismiss = await import('@/lib/offline/sync');
+        await afterDismiss.claimOfflineData('user-1');
+        expect(afterDismiss.getOfflineSyncState().conflicts).toEqual({});
+    });
+
+    it('keeps a refused change across reloads until it is retried', async () => {
+        vi.stubGlobal('fetch', vi.fn(async () => new Response(
+            JSON.stringify({ error: 'You do not have permission to edit this note' }),
+            { status: 403 }
+        )));
+
+        const sync = await import('@/lib/offline/sync');
+        await sync.claimOfflineData('user-1');
+        await sync.queueNoteUpdate('n2', { title: 'Shared' });
+        await sync.replayQueuedMutations();
+
+        expect(sync.getOfflineSyncState()).toMatchObject({ pending: 0 });
+        expect(sync.getOfflineSyncState().failed).toMatchObject([
+            { status: 403, error: 'You do not have permission to edit this note', mutation: { url: '/api/notes/n2' } },
+        ]);
+
+        vi.resetModules();
+        const reloaded = await import('@/lib/offline/sync');
+        await reloaded.claimOfflineData('user-1');
+        expect(reloaded.getOfflineSyncState().failed).toHaveLength(1);
+
+        // Access came back: retrying sends it again
+        vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ id: 'n2' }), { status: 200 })));
+        await reloaded.retryFailedMutations();
+        expect(fetch).toHaveBeenCalledWith('/api/notes/n2', expect.objectContaining({ method: 'PATCH' }));
+        expect(reloaded.getOfflineSyncState()).toMatchObject({ pending: 0, failed: [] });
+
+        vi.resetModules();
+        const afterRetry = await import('@/lib/offline/sync');
+        await afterRetry.claimOfflineData('user-1');
+        expect(afterRetry.getOfflineSyncState()).toMatchObject({ pending: 0, failed: [] });
+    });
+});
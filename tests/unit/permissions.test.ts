@@ -0,0 +1,82 @@
+/**
+ * Unit Tests for Notebook Permissions
+ *
+ * Tests what each role may do, the access filters used by list queries and
+ * how a loaded notebook resolves to the caller's access
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/db', () => ({ prisma: {} }));
+
+import { hasPermission, rolesWithPermission, isNotebookRole } from '@/lib/permissions/roles';
+import { notebookAccessWhere, noteAccessWhere, resolveNotebookAccess } from '@/lib/permissions/access';
+
+describe('hasPermission', () => {
+    it('lets viewers only read', () => {
+        expect(hasPermission('viewer', 'read')).toBe(true);
+        expect(hasPermission('viewer', 'comment')).toBe(false);
+        expect(hasPermission('viewer', 'edit')).toBe(false);
+    });
+
+    it('lets commenters comment but not edit', () => {
+        expect(hasPermission('commenter', 'comment')).toBe(true);
+        expect(hasPermission('commenter', 'edit')).toBe(false);
+    });
+
+    it('keeps manage for the owner', () => {
+        expect(hasPermission('editor', 'edit')).toBe(true);
+        expect(hasPermission('editor', 'manage')).toBe(false);
+        expect(hasPermission('owner', 'manage')).toBe(true);
+    });
+});
+
+describe('rolesWithPermission', () => {
+    it('lists the member roles granting a permission', () => {
+        expect(rolesWithPermission('read')).toEqual(['viewer', 'commenter', 'editor']);
+        expect(rolesWithPermission('edit')).toEqual(['editor']);
+        expect(rolesWithPermission('manage')).toEqual([]);
+    });
+});
+
+describe('isNotebookRole', () => {
+    it('accepts member roles only', () => {
+        expect(isNotebookRole('editor')).toBe(true);
+        expect(isNotebookRole('owner')).toBe(false);
+        expect(isNotebookRole('admin')).toBe(false);
+    });
+});
+
+describe('notebookAccessWhere', () => {
+    it('matches owned notebooks and memberships with a granting role', () => {
+        expect(notebookAccessWhere('user-1', 'edit')).toEqual({
+            OR: [
+                { userId: 'user-1' },
+                { members: { some: { userId: 'user-1', role: { in: ['editor'] } } } },
+            ],
+        });
+    });
+
+    it('matches only owned notebooks for manage', () => {
+        expect(notebookAccessWhere('user-1', 'manage')).toEqual({ userId: 'user-1' });
+    });
+
+    it('scopes notes through their notebook', () => {
+        expect(noteAccessWhere('user-1')).toEqual({ notebook: notebookAccessWhere('user-1', 'read') });
+    });
+});
+
+describe('resolveNotebookAccess', () => {
+    it('returns owner for the notebook owner', () => {
+        expect(resolveNotebookAccess('user-1', { userId: 'user-1', members: [] })).toBe('owner');
+    });
+
+    it('returns the member role', () => {
+        expect(resolveNotebookAccess('user-2', { userId: 'user-1', members: [{ role: 'commenter' }] })).toBe('commenter');
+    });
+
+    it('returns null without a membership or with an unknown role', () => {
+        expect(resolveNotebookAccess('user-2', { userId: 'user-1', members: [] })).toBeNull();
+        expect(resolveNotebookAccess('user-2', { userId: 'user-1', members: [{ role: 'admin' }] })).toBeNull();
+    });
+});
@@ -0,0 +1,84 @@
+/**
+ * Unit Tests for Related Notes
+ *
+ * Tests picking a note's key terms and combining shared tags, links, terms
+ * and meaning into one ranking
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    buildTermQuery,
+    extractKeyTerms,
+    rankRelatedNotes,
+    relatedReasons,
+    scoreRelatedNote,
+    type RelatedSignals,
+} from '@/lib/related/related-score';
+
+function signals(overrides: Partial<RelatedSignals> = {}): RelatedSignals {
+    return { sharedTags: [], sharedLinks: 0, termRank: 0, similarity: null, ...overrides };
+}
+
+describe('extractKeyTerms', () => {
+    it('ranks frequent words and boosts title words', () => {
+        const terms = extractKeyTerms('Kyoto trip', 'Book the ryokan. The ryokan is near the station. Trains run late.');
+
+        expect(terms.slice(0, 3)).toEqual(['kyoto', 'trip', 'ryokan']);
+    });
+
+    it('skips stop words, short words and numbers', () => {
+        expect(extractKeyTerms('', 'The cat and it sat on 2024 mats')).toEqual(['cat', 'sat', 'mats']);
+    });
+
+    it('keeps at most the limit', () => {
+        expect(extractKeyTerms('', 'alpha bravo charlie delta', 2)).toEqual(['alpha', 'bravo']);
+    });
+});
+
+describe('buildTermQuery', () => {
+    it('matches any of the terms', () => {
+        expect(buildTermQuery(['kyoto', 'ryokan'])).toBe('kyoto | ryokan');
+        expect(buildTermQuery([])).toBeNull();
+    });
+});
+
+describe('scoreRelatedNote', () => {
+    it('stops counting shared tags after three', () => {
+        const three = scoreRelatedNote(signals({ sharedTags: ['a', 'b', 'c'] }), 0);
+        const five = scoreRelatedNote(signals({ sharedTags: ['a', 'b', 'c', 'd', 'e'] }), 0);
+
+        expect(five).toBe(three);
+    });
+
+    it('scales term ranks against the best candidate', () => {
+        expect(scoreRelatedNote(signals({ termRank: 0.2 }), 0.4)).toBeCloseTo(0.3);
+    });
+
+    it('ignores similarity below the threshold', () => {
+        expect(scoreRelatedNote(signals({ similarity: 0.4 }), 0)).toBe(0);
+        expect(scoreRelatedNote(signals({ similarity: 1 }), 0)).toBeCloseTo(1);
+    });
+});
+
+describe('relatedReasons', () => {
+    it('lists the signals that count', () => {
+        expect(relatedReasons(signals({ sharedTags: ['travel'], termRank: 0.1, similarity: 0.3 })))
+            .toEqual(['tags', 'terms']);
+    });
+});
+
+describe('rankRelatedNotes', () => {
+    it('orders by score, drops unrelated notes and applies the limit', () => {
+        const candidates = new Map([
+            ['words', signals({ termRank: 0.1 })],
+            ['tagged', signals({ sharedTags: ['travel', 'japan'], termRank: 0.05 })],
+            ['nothing', signals({ similarity: 0.2 })],
+            ['linked', signals({ sharedLinks: 1 })],
+        ]);
+
+        const ranked = rankRelatedNotes(candidates, 2);
+
+        expect(ranked.map(note => note.id)).toEqual(['tagged', 'words']);
+        expect(ranked[0]).toMatchObject({ reasons: ['tags', 'terms'], sharedTags: ['travel', 'japan'] });
+    });
+});
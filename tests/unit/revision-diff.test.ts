@@ -0,0 +1,77 @@
+/**
+ * Unit Tests for Revision Diffing
+ *
+ * Tests word-level text and HTML diffs used by note version history
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffText, diffHtml, renderHtmlDiff, getDiffStats } from '@/lib/revisions/diff';
+
+describe('diffText', () => {
+    it('returns a single equal part for identical text', () => {
+        expect(diffText('hello world', 'hello world')).toEqual([
+            { type: 'equal', value: 'hello world' },
+        ]);
+    });
+
+    it('detects inserted words', () => {
+        expect(diffText('the quick fox', 'the quick brown fox')).toEqual([
+            { type: 'equal', value: 'the quick ' },
+            { type: 'insert', value: 'brown ' },
+            { type: 'equal', value: 'fox' },
+        ]);
+    });
+
+    it('detects replaced words', () => {
+        const parts = diffText('buy milk today', 'buy bread today');
+        expect(parts).toEqual([
+            { type: 'equal', value: 'buy ' },
+            { type: 'delete', value: 'milk' },
+            { type: 'insert', value: 'bread' },
+            { type: 'equal', value: ' today' },
+        ]);
+    });
+
+    it('reconstructs both sides from the parts', () => {
+        const oldText = 'Meeting notes: discuss budget, hire designer, plan launch.';
+        const newText = 'Meeting notes: approve budget, plan launch early, celebrate.';
+        const parts = diffText(oldText, newText);
+
+        const before = parts.filter(p => p.type !== 'insert').map(p => p.value).join('');
+        const after = parts.filter(p => p.type !== 'delete').map(p => p.value).join('');
+
+        expect(before).toBe(oldText);
+        expect(after).toBe(newText);
+    });
+
+    it('handles empty inputs', () => {
+        expect(diffText('', '')).toEqual([]);
+        expect(diffText('', 'new')).toEqual([{ type: 'insert', value: 'new' }]);
+        expect(diffText('old', '')).toEqual([{ type: 'delete', value: 'old' }]);
+    });
+});
+
+describe('diffHtml', () => {
+    it('treats tags as atomic tokens', () => {
+        const parts = diffHtml('<p>Hello</p>', '<p>Hello <strong>world</strong></p>');
+        expect(parts).toEqual([
+            { type: 'equal', value: '<p>Hello' },
+            { type: 'insert', value: ' <strong>world</strong>' },
+            { type: 'equal', value: '</p>' },
+        ]);
+    });
+
+    it('renders insertions and deletions without breaking markup', () => {
+        const html = renderHtmlDiff(diffHtml('<p>old text</p>', '<p>new <em>text</em></p>'));
+        expect(html).toBe(
+            '<p><del class="diff-delete">old</del><ins class="diff-insert">new</ins> <em>text</em></p>'
+        );
+    });
+});
+
+describe('getDiffStats', () => {
+    it('counts inserted and deleted words', () => {
+        const stats = getDiffStats(diffText('one two three', 'one four five three'));
+        expect(stats).toEqual({ insertions: 2, deletions: 1 });
+    });
+});
@@ -0,0 +1,120 @@
+/**
+ * Unit Tests for Full-Text Search Query Building
+ *
+ * Tests Evernote-style operator parsing and conversion of user search
+ * input into to_tsquery expressions
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/db', () => ({ prisma: {} }));
+
+import { buildTsQuery } from '@/lib/search/full-text';
+import { parseSearchQuery, parseSearchDate, buildSearchWhere } from '@/lib/search/query-parser';
+
+describe('buildTsQuery', () => {
+    it('requires all words to match', () => {
+        expect(buildTsQuery('budget meeting')).toBe('budget & meeting');
+    });
+
+    it('turns quoted phrases into followed-by expressions', () => {
+        expect(buildTsQuery('"quarterly budget" review')).toBe('(quarterly <-> budget) & review');
+    });
+
+    it('supports prefix matching with a trailing asterisk', () => {
+        expect(buildTsQuery('proj*')).toBe('proj:*');
+    });
+
+    it('supports exclusions', () => {
+        expect(buildTsQuery('recipes -"chocolate cake"')).toBe('recipes & !(chocolate <-> cake)');
+    });
+
+    it('keeps exclusions without other terms as a filter', () => {
+        expect(buildTsQuery('-draft')).toBe('!draft');
+        expect(buildTsQuery('-draft -"old plan"')).toBe('!draft & !(old <-> plan)');
+    });
+
+    it('strips tsquery operators from user input', () => {
+        expect(buildTsQuery("it's & (a|b)!")).toBe('(it <-> s) & (a <-> b)');
+    });
+
+    it('returns null when there is nothing to search for', () => {
+        expect(buildTsQuery('   ')).toBeNull();
+        expect(buildTsQuery('&& !!')).toBeNull();
+        expect(buildTsQuery('- -""')).toBeNull();
+    });
+});
+
+describe('parseSearchQuery', () => {
+    it('separates operators from free text', () => {
+        const parsed = parseSearchQuery('notebook:"Work" tag:urgent created:day-7 -tag:done "launch plan" budget');
+
+        expect(parsed.text).toBe('"launch plan" budget');
+        expect(parsed.filters).toEqual([
+            { operator: 'notebook', value: 'Work', negated: false },
+            { operator: 'tag', value: 'urgent', negated: false },
+            { operator: 'created', value: 'day-7', negated: false },
+            { operator: 'tag', value: 'done', negated: true },
+        ]);
+    });
+
+    it('keeps unknown operators and URLs as text', () => {
+        const parsed = parseSearchQuery('https://example.com foo:bar');
+        expect(parsed.text).toBe('https://example.com foo:bar');
+        expect(parsed.filters).toEqual([]);
+    });
+
+    it('is case-insensitive for operator names', () => {
+        const parsed = parseSearchQuery('InTitle:Budget SourceURL:https://example.com');
+        expect(parsed.filters.map(f => f.operator)).toEqual(['intitle', 'sourceurl']);
+    });
+});
+
+describe('parseSearchDate', () => {
+    const now = new Date(Date.UTC(2024, 2, 15, 10, 30)); // Friday, 15 March 2024
+
+    it('parses absolute dates', () => {
+        expect(parseSearchDate('20240131', now)).toEqual(new Date(Date.UTC(2024, 0, 31)));
+        expect(parseSearchDate('20240131T153000Z', now)).toEqual(new Date(Date.UTC(2024, 0, 31, 15, 30)));
+    });
+
+    it('parses relative periods', () => {
+        expect(parseSearchDate('day', now)).toEqual(new Date(Date.UTC(2024, 2, 15)));
+        expect(parseSearchDate('day-7', now)).toEqual(new Date(Date.UTC(2024, 2, 8)));
+        expect(parseSearchDate('week', now)).toEqual(new Date(Date.UTC(2024, 2, 10)));
+        expect(parseSearchDate('month-1', now)).toEqual(new Date(Date.UTC(2024, 1, 1)));
+        expect(parseSearchDate('year', now)).toEqual(new Date(Date.UTC(2024, 0, 1)));
+    });
+
+    it('rejects invalid values', () => {
+        expect(parseSearchDate('yesterday', now)).toBeNull();
+    });
+});
+
+describe('buildSearchWhere', () => {
+    const now = new Date(Date.UTC(2024, 2, 15));
+
+    it('translates operators into Prisma conditions', () => {
+        const where = buildSearchWhere(parseSearchQuery('notebook:Work tag:proj* -tag:done resource:image/*'), now);
+
+        expect(where).toEqual({
+            AND: [
+                { notebook: { name: { equals: 'Work', mode: 'insensitive' } } },
+                { tags: { some: { tag: { name: { startsWith: 'proj', mode: 'insensitive' } } } } },
+                { NOT: { tags: { some: { tag: { name: { equals: 'done', mode: 'insensitive' } } } } } },
+                { attachments: { some: { mimeType: { startsWith: 'image/', mode: 'insensitive' } } } },
+            ],
+        });
+    });
+
+    it('treats negated dates as "before"', () => {
+        const where = buildSearchWhere(parseSearchQuery('-updated:20240101'), now);
+        expect(where).toEqual({
+            AND: [{ NOT: { updatedAt: { gte: new Date(Date.UTC(2024, 0, 1)) } } }],
+        });
+    });
+
+    it('ignores values it cannot interpret', () => {
+        expect(buildSearchWhere(parseSearchQuery('todo:maybe created:soon'), now)).toEqual({});
+    });
+});
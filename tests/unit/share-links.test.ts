@@ -0,0 +1,150 @@
+/**
+ * Unit Tests for Share Links
+ *
+ * Tests that shared note HTML is sanitized, that attachment and note link
+ * URLs are rewritten, that link tokens and passwords are handled safely and
+ * that password guessing is throttled
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { sanitizeShareHtml } from '@/lib/sharing/sanitize-html';
+import {
+    SHARE_TOKEN_PATTERN,
+    generateShareToken,
+    hashSharePassword,
+    verifySharePassword,
+    shareAccessKey,
+    hasShareAccess,
+} from '@/lib/sharing/share-crypto';
+import { UNLOCK_WINDOW_MS, unlockRetryAfter, visitorIp } from '@/lib/sharing/unlock-throttle';
+
+vi.mock('@/lib/db', () => ({ prisma: {} }));
+
+describe('sanitizeShareHtml', () => {
+    it('keeps formatting and drops scripts, handlers and frames', () => {
+        const html = '<h2>Plan</h2><p onclick="steal()">Hi <strong>there</strong><script>alert(1)</script></p>' +
+            '<iframe src="https://evil.test"></iframe><form><input name="q"></form>';
+
+        expect(sanitizeShareHtml(html)).toBe('<h2>Plan</h2><p>Hi <strong>there</strong></p>');
+    });
+
+    it('removes unsafe URLs and opens external links in a new tab', () => {
+        const html = '<a href="javascript:alert(1)">bad</a> <a href="https://example.com">good</a>' +
+            '<img src="data:text/html;base64,AAA"><img src="https://cdn.test/a.png" alt="A">';
+
+        expect(sanitizeShareHtml(html)).toBe(
+            '<a>bad</a> <a href="https://example.com" target="_blank" rel="noopener noreferrer nofollow">good</a>' +
+            '<img src="https://cdn.test/a.png" alt="A">'
+        );
+    });
+
+    it('drops protocol-relative links, including backslash forms', () => {
+        const html = '<a href="//evil.com">a</a><a href="/\\evil.com">b</a><a href="/notes/1">c</a>';
+
+        expect(sanitizeShareHtml(html)).toBe(
+            '<a>a</a><a>b</a><a href="/notes/1" target="_blank" rel="noopener noreferrer nofollow">c</a>'
+        );
+    });
+
+    it('keeps harmless inline styles only', () => {
+        const html = '<span style="color: red; position: fixed; background-color: url(https://x.test/t.gif)">x</span>';
+
+        expect(sanitizeShareHtml(html)).toBe('<span style="color: red">x</span>');
+    });
+
+    it('unwraps unknown elements and escapes text', () => {
+        expect(sanitizeShareHtml('<custom-box>1 &lt; 2</custom-box>')).toBe('1 &lt; 2');
+    });
+
+    it('shows task checkboxes read-only', () => {
+        const html = '<ul data-type="taskList"><li data-checked="true" data-type="taskItem">' +
+            '<label><input type="checkbox" checked="checked"><span></span></label><div><p>Done</p></div></li></ul>';
+
+        expect(sanitizeShareHtml(html)).toContain('<input type="checkbox" checked disabled>');
+        expect(sanitizeShareHtml(html)).toContain('<li data-type="taskItem" data-checked="true">');
+    });
+
+    it('replaces attachment URLs through resolveUrl', () => {
+        const html = '<img src="/api/attachments/att1">';
+        const resolved = sanitizeShareHtml(html, {
+            resolveUrl: (url) => (url === '/api/attachments/att1' ? 'https://storage.test/signed?sig=1&exp=2' : undefined),
+        });
+
+        expect(resolved).toBe('<img src="https://storage.test/signed?sig=1&amp;exp=2">');
+    });
+
+    it('links notes reachable through the share and hides encrypted text', () => {
+        const html = '<p><span data-type="note-link" data-note-id="n2" class="note-link">[[Other]]</span> ' +
+            '<span data-type="note-link" data-note-id="private">[[Secret]]</span> ' +
+            '<span data-type="en-crypt" data-cipher="AES" data-ciphertext="abc"></span></p>';
+
+        const sanitized = sanitizeShareHtml(html, {
+            resolveNoteLink: (noteId) => (noteId === 'n2' ? '/s/token?note=n2' : undefined),
+        });
+
+        expect(sanitized).toContain('<a class="note-link" href="/s/token?note=n2">[[Other]]</a>');
+        expect(sanitized).toContain('<span class="note-link">[[Secret]]</span>');
+        expect(sanitized).toContain('🔒 Encrypted content');
+        expect(sanitized).not.toContain('abc');
+        expect(sanitized).not.toContain('private');
+    });
+});
+
+describe('share tokens and passwords', () => {
+    it('generates distinct URL-safe tokens', () => {
+        const tokens = new Set(Array.from({ length: 20 }, generateShareToken));
+
+        expect(tokens.size).toBe(20);
+        for (const token of tokens) {
+            expect(token).toMatch(SHARE_TOKEN_PATTERN);
+        }
+    });
+
+    it('verifies passwords against their hash', async () => {
+        const hash = await hashSharePassword('open sesame');
+
+        expect(hash).not.toContain('open sesame');
+        expect(await verifySharePassword('open sesame', hash)).toBe(true);
+        expect(await verifySharePassword('open sesame!', hash)).toBe(false);
+        expect(await verifySharePassword('open sesame', 'garbage')).toBe(false);
+    });
+
+    it('grants access only with the cookie for the current password', async () => {
+        const token = generateShareToken();
+        const hash = await hashSharePassword('pw1234');
+        const cookie = shareAccessKey(token, hash);
+
+        expect(hasShareAccess(token, hash, cookie)).toBe(true);
+        expect(hasShareAccess(token, hash, undefined)).toBe(false);
+        expect(hasShareAccess(generateShareToken(), hash, cookie)).toBe(false);
+        expect(hasShareAccess(token, await hashSharePassword('pw1234'), cookie)).toBe(false);
+    });
+});
+
+describe('unlock throttling', () => {
+    const now = new Date('2026-10-20T12:00:00.000Z');
+    const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60 * 1000);
+
+    it('allows attempts below the limit', () => {
+        expect(unlockRetryAfter([minutesAgo(1), minutesAgo(2)], 3, now)).toBe(0);
+    });
+
+    it('waits until the oldest counted failure leaves the window', () => {
+        const failures = [minutesAgo(1), minutesAgo(5), minutesAgo(10)];
+
+        expect(unlockRetryAfter(failures, 3, now)).toBe(5 * 60);
+        expect(unlockRetryAfter(failures, 2, now)).toBe(10 * 60);
+    });
+
+    it('ignores failures older than the window', () => {
+        const old = new Date(now.getTime() - UNLOCK_WINDOW_MS);
+
+        expect(unlockRetryAfter([old, old, minutesAgo(1)], 3, now)).toBe(0);
+    });
+
+    it('reads the visitor IP from the proxy headers', () => {
+        expect(visitorIp(new Headers({ 'x-forwarded-for': '203.0.113.7, 10.0.0.1' }))).toBe('203.0.113.7');
+        expect(visitorIp(new Headers({ 'x-real-ip': '203.0.113.8' }))).toBe('203.0.113.8');
+        expect(visitorIp(new Headers())).toBe('unknown');
+    });
+});
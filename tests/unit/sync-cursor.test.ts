@@ -0,0 +1,71 @@
+/**
+ * Unit Tests for Sync Cursors
+ *
+ * Tests round-tripping cursors, rejecting ones we didn't hand out and
+ * moving from one page or window to the next
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    decodeSyncCursor,
+    encodeSyncCursor,
+    nextSyncCursor,
+    SYNC_WINDOW_OVERLAP_MS,
+} from '@/lib/sync/cursor';
+
+describe('encodeSyncCursor / decodeSyncCursor', () => {
+    it('round-trips a cursor', () => {
+        const cursor = { since: 1000, until: 5000, after: [2000, 'note-1'] as [number, string] };
+        expect(decodeSyncCursor(encodeSyncCursor(cursor))).toEqual(cursor);
+    });
+
+    it('round-trips the cursor of a full sync', () => {
+        expect(decodeSyncCursor(encodeSyncCursor({}))).toEqual({});
+    });
+
+    it('produces a URL-safe string', () => {
+        expect(encodeSyncCursor({ since: 1, after: [1, '???>>>'], until: 2 })).toMatch(/^[A-Za-z0-9_-]+$/);
+    });
+
+    it('rejects values that are not cursors', () => {
+        expect(decodeSyncCursor('not a cursor')).toBeNull();
+        expect(decodeSyncCursor(Buffer.from('[1,2]').toString('base64url'))).toBeNull();
+        expect(decodeSyncCursor(Buffer.from('{"since":"yesterday"}').toString('base64url'))).toBeNull();
+        expect(decodeSyncCursor(Buffer.from('{"since":-5}').toString('base64url'))).toBeNull();
+    });
+
+    it('rejects a page position outside a window', () => {
+        expect(decodeSyncCursor(encodeSyncCursor({ after: [1, 'n'] }))).toBeNull();
+        expect(decodeSyncCursor(Buffer.from('{"until":5,"after":[1,2]}').toString('base64url'))).toBeNull();
+    });
+
+    it('rejects a window that ends before it starts', () => {
+        expect(decodeSyncCursor(encodeSyncCursor({ since: 10, until: 5 }))).toBeNull();
+    });
+
+    it('drops unknown fields', () => {
+        expect(decodeSyncCursor(Buffer.from('{"since":1,"extra":true}').toString('base64url'))).toEqual({ since: 1 });
+    });
+});
+
+describe('nextSyncCursor', () => {
+    const lastNote = { updatedAt: new Date(3000), id: 'note-9' };
+
+    it('continues the window after a full page', () => {
+        expect(nextSyncCursor({ since: 1000, until: 5000 }, lastNote, true)).toEqual({
+            since: 1000,
+            until: 5000,
+            after: [3000, 'note-9'],
+        });
+    });
+
+    it('starts the next window a little before this one ended', () => {
+        expect(nextSyncCursor({ since: 1000, until: 60_000 }, lastNote, false)).toEqual({
+            since: 60_000 - SYNC_WINDOW_OVERLAP_MS,
+        });
+    });
+
+    it('starts the next window after a full sync with nothing in it', () => {
+        expect(nextSyncCursor({ until: 1000 }, null, false)).toEqual({ since: 0 });
+    });
+});
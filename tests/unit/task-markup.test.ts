@@ -0,0 +1,178 @@
+/**
+ * Unit Tests for Task Lists
+ *
+ * Tests that imported Evernote to-dos become editor task lists, that tasks
+ * are counted and indexed from note HTML, and that task inbox changes are
+ * written back into it
+ */
+
+import { describe, it, expect } from 'vitest';
+import { countTasks, renderTaskList, extractTasks, updateTaskMarkup, planTaskSync } from '@/lib/tasks/task-markup';
+import { convertEnmlToHtml } from '@/lib/import/enml-converter';
+
+describe('renderTaskList', () => {
+    it('renders items in the editor task list markup', () => {
+        expect(renderTaskList([{ checked: true, html: 'Milk' }, { checked: false, html: '<b>Bread</b>' }])).toBe(
+            '<ul data-type="taskList">' +
+            '<li data-type="taskItem" data-checked="true"><p>Milk</p></li>' +
+            '<li data-type="taskItem" data-checked="false"><p><b>Bread</b></p></li>' +
+            '</ul>'
+        );
+    });
+});
+
+describe('countTasks', () => {
+    it('counts task items by checked state', () => {
+        const html = renderTaskList([
+            { checked: true, html: 'a' },
+            { checked: false, html: 'b' },
+            { checked: false, html: 'c' },
+        ]);
+        expect(countTasks(html)).toEqual({ openTasks: 2, completedTasks: 1 });
+    });
+
+    it('counts checkboxes from notes imported before task lists', () => {
+        const html = '<div><input type="checkbox" class="en-todo" checked disabled />Milk</div>' +
+            '<div><input type="checkbox" class="en-todo" disabled />Bread</div>';
+        expect(countTasks(html)).toEqual({ openTasks: 1, completedTasks: 1 });
+    });
+
+    it('returns zero for notes without tasks', () => {
+        expect(countTasks('<p>Just text with checked in it</p>')).toEqual({ openTasks: 0, completedTasks: 0 });
+    });
+});
+
+describe('en-todo import', () => {
+    it('turns consecutive to-do lines into one task list', () => {
+        const html = convertEnmlToHtml(
+            '<en-note><div>Groceries</div><div><en-todo checked="true"/>Milk</div><div><en-todo/>Bread</div></en-note>'
+        );
+
+        expect(html).toContain('<ul data-type="taskList">');
+        expect(html.match(/data-type="taskList"/g)).toHaveLength(1);
+        expect(html).toContain('<li data-type="taskItem" data-checked="true"><p>Milk</p></li>');
+        expect(html).toContain('<li data-type="taskItem" data-checked="false"><p>Bread</p></li>');
+        expect(html).not.toContain('disabled');
+        expect(countTasks(html)).toEqual({ openTasks: 1, completedTasks: 1 });
+    });
+
+    it('turns a list of to-dos into a task list', () => {
+        const html = convertEnmlToHtml(
+            '<en-note><ul><li><en-todo checked="false"/>Call Sam</li><li><en-todo checked="true"/>Pay rent</li></ul></en-note>'
+        );
+
+        expect(countTasks(html)).toEqual({ openTasks: 1, completedTasks: 1 });
+        expect(html).not.toContain('<input');
+    });
+
+    it('keeps to-dos inside other text as check marks', () => {
+        const html = convertEnmlToHtml('<en-note><div>Before <en-todo checked="true"/>done and <en-todo/>open</div></en-note>');
+
+        expect(html).toContain('☑ done');
+        expect(html).toContain('☐ open');
+        expect(html).not.toContain('<input');
+    });
+});
+
+describe('extractTasks', () => {
+    const editorHtml = '<ul data-type="taskList">' +
+        '<li data-checked="true" data-type="taskItem"><label><input type="checkbox" checked="checked"><span></span></label>' +
+        '<div><p>Book <b>flights</b></p>' +
+        '<ul data-type="taskList"><li data-checked="false" data-type="taskItem" data-due-date="2026-11-02"><label><input type="checkbox"><span></span></label><div><p>Window seat</p></div></li></ul>' +
+        '</div></li>' +
+        '<li data-checked="false" data-type="taskItem" data-due-date="soon"><label><input type="checkbox"><span></span></label><div><p>Pack</p></div></li>' +
+        '</ul>';
+
+    it('lists task items in document order without nested items in their text', () => {
+        expect(extractTasks(editorHtml)).toEqual([
+            { text: 'Book flights', checked: true, dueDate: null, position: 0 },
+            { text: 'Window seat', checked: false, dueDate: '2026-11-02', position: 1 },
+            { text: 'Pack', checked: false, dueDate: null, position: 2 },
+        ]);
+    });
+
+    it('reads legacy to-dos up to the next to-do in the block', () => {
+        const html = '<div><input type="checkbox" class="en-todo" checked disabled />Milk <input type="checkbox" class="en-todo" disabled />Bread</div>';
+
+        expect(extractTasks(html)).toEqual([
+            { text: 'Milk', checked: true, dueDate: null, position: 0 },
+            { text: 'Bread', checked: false, dueDate: null, position: 1 },
+        ]);
+    });
+});
+
+describe('updateTaskMarkup', () => {
+    const html = renderTaskList([{ checked: false, html: 'One' }, { checked: false, html: 'Two' }]);
+
+    it('checks the task at a position and leaves the others alone', () => {
+        const updated = updateTaskMarkup(html, 1, { checked: true })!;
+
+        expect(extractTasks(updated).map(task => task.checked)).toEqual([false, true]);
+        expect(countTasks(updated)).toEqual({ openTasks: 1, completedTasks: 1 });
+    });
+
+    it('sets and clears due dates', () => {
+        const dated = updateTaskMarkup(html, 0, { dueDate: '2026-10-31' })!;
+        expect(dated).toContain('data-due-date="2026-10-31"');
+        expect(extractTasks(dated)[0]!.dueDate).toBe('2026-10-31');
+
+        const cleared = updateTaskMarkup(dated, 0, { dueDate: null })!;
+        expect(cleared).toBe(html);
+    });
+
+    it('toggles legacy to-dos', () => {
+        const legacy = '<div><input type="checkbox" class="en-todo" disabled />Milk</div>';
+        const checked = updateTaskMarkup(legacy, 0, { checked: true })!;
+
+        expect(countTasks(checked)).toEqual({ openTasks: 0, completedTasks: 1 });
+        expect(updateTaskMarkup(checked, 0, { checked: false })).toBe(legacy);
+    });
+
+    it('returns null for a missing position', () => {
+        expect(updateTaskMarkup(html, 2, { checked: true })).toBeNull();
+    });
+});
+
+describe('planTaskSync', () => {
+    const indexed = [
+        { id: 'milk', text: 'Milk', checked: false, dueDate: null, position: 0 },
+        { id: 'bread', text: 'Bread', checked: false, dueDate: null, position: 1 },
+        { id: 'eggs', text: 'Eggs', checked: false, dueDate: null, position: 2 },
+    ];
+
+    it('leaves unchanged tasks alone', () => {
+        const html = renderTaskList([{ checked: false, html: 'Milk' }, { checked: false, html: 'Bread' }, { checked: false, html: 'Eggs' }]);
+
+        expect(planTaskSync(indexed, extractTasks(html))).toEqual({ create: [], update: [], moved: [], remove: [] });
+    });
+
+    it('keeps IDs when items are checked, reordered or added', () => {
+        const html = renderTaskList([
+            { checked: false, html: 'Butter' },
+            { checked: false, html: 'Eggs' },
+            { checked: true, html: 'Milk' },
+            { checked: false, html: 'Bread' },
+        ]);
+
+        const plan = planTaskSync(indexed, extractTasks(html));
+
+        expect(plan.create).toEqual([{ text: 'Butter', checked: false, dueDate: null, position: 0 }]);
+        expect(plan.update.map(task => [task.id, task.position, task.checked])).toEqual([
+            ['eggs', 1, false],
+            ['milk', 2, true],
+            ['bread', 3, false],
+        ]);
+        expect(plan.moved).toEqual(['eggs', 'milk', 'bread']);
+        expect(plan.remove).toEqual([]);
+    });
+
+    it('keeps the ID of an item whose text was edited and removes deleted items', () => {
+        const html = renderTaskList([{ checked: false, html: 'Oat milk' }, { checked: false, html: 'Bread' }]);
+
+        const plan = planTaskSync(indexed, extractTasks(html));
+
+        expect(plan.update).toEqual([{ id: 'milk', text: 'Oat milk', checked: false, dueDate: null, position: 0 }]);
+        expect(plan.create).toEqual([]);
+        expect(plan.remove).toEqual(['eggs']);
+    });
+});